@@ -1,14 +1,16 @@
 import React, { Suspense } from 'react'
 import { createBrowserRouter, RouterProvider, Navigate } from 'react-router-dom'
 import { queryClient, queryKeys } from './lib/queryClient'
-import { dashboardApi, adminUsersApi, rolesApi, adminRolesApi, adminPermissionsApi, bankAccountsApi, accountTypesApi } from './lib/dataFetching'
+import { dashboardApi, adminUsersApi, rolesApi, adminRolesApi, adminPermissionsApi, bankAccountsApi, accountTypesApi, membersApi, customerAccountsApi } from './lib/dataFetching'
 import { AuthProvider } from './contexts/AuthContext'
 import { ProtectedRoute } from './components/ProtectedRoute'
+import { SessionTimeout } from './components/SessionTimeout'
 import { Layout } from './components/Layout'
 import { LoginForm } from './components/LoginForm'
 import { ForgotPasswordPage } from './pages/ForgotPasswordPage'
 import { ResetPasswordPage } from './pages/ResetPasswordPage'
 import { ForcePasswordChangePage } from './pages/ForcePasswordChangePage'
+import { MfaVerificationPage } from './pages/MfaVerificationPage'
 
 // Lazy load page components
 const Dashboard = React.lazy(() => import('./pages/Dashboard').then(module => ({ default: module.Dashboard })))
@@ -18,6 +20,28 @@ const AdminRoles = React.lazy(() => import('./pages/AdminRoles').then(module =>
 const AdminPermissions = React.lazy(() => import('./pages/AdminPermissions').then(module => ({ default: module.AdminPermissions })))
 const AdminBankAccounts = React.lazy(() => import('./pages/AdminBankAccounts').then(module => ({ default: module.AdminBankAccounts })))
 const AdminAccountTypes = React.lazy(() => import('./pages/AdminAccountTypes').then(module => ({ default: module.AdminAccountTypes })))
+const AdminDocumentKinds = React.lazy(() => import('./pages/AdminDocumentKinds').then(module => ({ default: module.AdminDocumentKinds })))
+const AdminOrganisationUnits = React.lazy(() => import('./pages/AdminOrganisationUnits').then(module => ({ default: module.AdminOrganisationUnits })))
+const AdminLoanProducts = React.lazy(() => import('./pages/AdminLoanProducts').then(module => ({ default: module.AdminLoanProducts })))
+const Approvals = React.lazy(() => import('./pages/Approvals').then(module => ({ default: module.Approvals })))
+const AdminAuditLog = React.lazy(() => import('./pages/AdminAuditLog').then(module => ({ default: module.AdminAuditLog })))
+const AdminMembers = React.lazy(() => import('./pages/AdminMembers').then(module => ({ default: module.AdminMembers })))
+const MemberProfile = React.lazy(() => import('./pages/MemberProfile').then(module => ({ default: module.MemberProfile })))
+const CustomerAccounts = React.lazy(() => import('./pages/CustomerAccounts').then(module => ({ default: module.CustomerAccounts })))
+const CustomerAccountDetail = React.lazy(() => import('./pages/CustomerAccountDetail').then(module => ({ default: module.CustomerAccountDetail })))
+const Transactions = React.lazy(() => import('./pages/Transactions').then(module => ({ default: module.Transactions })))
+const Loans = React.lazy(() => import('./pages/Loans').then(module => ({ default: module.Loans })))
+const LoanDetail = React.lazy(() => import('./pages/LoanDetail').then(module => ({ default: module.LoanDetail })))
+const Dividends = React.lazy(() => import('./pages/Dividends').then(module => ({ default: module.Dividends })))
+const DividendRunDetail = React.lazy(() => import('./pages/DividendRunDetail').then(module => ({ default: module.DividendRunDetail })))
+const Reports = React.lazy(() => import('./pages/Reports').then(module => ({ default: module.Reports })))
+const ZakatReport = React.lazy(() => import('./pages/ZakatReport').then(module => ({ default: module.ZakatReport })))
+const ZakatStatement = React.lazy(() => import('./pages/ZakatStatement').then(module => ({ default: module.ZakatStatement })))
+const SavingsGoalsReport = React.lazy(() => import('./pages/SavingsGoalsReport').then(module => ({ default: module.SavingsGoalsReport })))
+const MonthlyStatements = React.lazy(() => import('./pages/MonthlyStatements').then(module => ({ default: module.MonthlyStatements })))
+const BankReconciliation = React.lazy(() => import('./pages/BankReconciliation').then(module => ({ default: module.BankReconciliation })))
+const DocumentReview = React.lazy(() => import('./pages/DocumentReview').then(module => ({ default: module.DocumentReview })))
+const SettingsPage = React.lazy(() => import('./pages/SettingsPage').then(module => ({ default: module.SettingsPage })))
 const ProfilePage = React.lazy(() => import('./pages/ProfilePage').then(module => ({ default: module.ProfilePage })))
 
 // Loading fallback components
@@ -47,14 +71,15 @@ const dashboardLoader = async () => {
         queryKey: queryKeys.dashboardStats(),
         queryFn: dashboardApi.getStats,
       }),
-      queryClient.fetchQuery({
+      queryClient.fetchInfiniteQuery({
         queryKey: queryKeys.dashboardActivity(),
-        queryFn: dashboardApi.getRecentActivity,
+        queryFn: ({ pageParam }) => dashboardApi.getRecentActivity(pageParam),
+        initialPageParam: 0,
       }),
     ])
     return { stats, activity }
   } catch {
-    return { stats: [], activity: [] }
+    return { stats: null, activity: null }
   }
 }
 
@@ -143,12 +168,37 @@ const adminAccountTypesLoader = async () => {
   }
 }
 
+const adminMembersLoader = async () => {
+  try {
+    const membersData = await queryClient.fetchQuery({
+      queryKey: queryKeys.members(),
+      queryFn: () => membersApi.getMembers(),
+    })
+    return { members: membersData.members }
+  } catch {
+    return { members: [] }
+  }
+}
+
+const customerAccountsLoader = async () => {
+  try {
+    const accountsData = await queryClient.fetchQuery({
+      queryKey: queryKeys.customerAccounts(),
+      queryFn: () => customerAccountsApi.getCustomerAccounts(),
+    })
+    return { customerAccounts: accountsData.customer_accounts }
+  } catch {
+    return { customerAccounts: [] }
+  }
+}
+
 // Router configuration
 const router = createBrowserRouter([
   { path: '/login', element: <LoginForm /> },
   { path: '/forgot-password', element: <ForgotPasswordPage /> },
   { path: '/reset-password', element: <ResetPasswordPage /> },
   { path: '/force-password-change', element: <ForcePasswordChangePage /> },
+  { path: '/mfa', element: <MfaVerificationPage /> },
   {
     path: '/',
     element: (
@@ -230,6 +280,17 @@ const router = createBrowserRouter([
         loader: adminBankAccountsLoader,
         hydrateFallbackElement: <PageLoadingFallback />,
       },
+      {
+        path: 'admin/bank-accounts/:bankAccountId/reconciliation',
+        element: (
+          <ProtectedRoute requiredPermission={{ resource: 'reconciliation', action: 'view' }}>
+            <Suspense fallback={<PageLoadingFallback />}>
+              <BankReconciliation />
+            </Suspense>
+          </ProtectedRoute>
+        ),
+        hydrateFallbackElement: <PageLoadingFallback />,
+      },
       {
         path: 'admin/account-types',
         element: (
@@ -242,6 +303,162 @@ const router = createBrowserRouter([
         loader: adminAccountTypesLoader,
         hydrateFallbackElement: <PageLoadingFallback />,
       },
+      {
+        path: 'admin/document-kinds',
+        element: (
+          <ProtectedRoute requiredPermission={{ resource: 'documents', action: 'manage' }}>
+            <Suspense fallback={<PageLoadingFallback />}>
+              <AdminDocumentKinds />
+            </Suspense>
+          </ProtectedRoute>
+        ),
+        hydrateFallbackElement: <PageLoadingFallback />,
+      },
+      {
+        path: 'admin/organisation-units',
+        element: (
+          <ProtectedRoute requiredPermission={{ resource: 'organisation_units', action: 'view' }}>
+            <Suspense fallback={<PageLoadingFallback />}>
+              <AdminOrganisationUnits />
+            </Suspense>
+          </ProtectedRoute>
+        ),
+        hydrateFallbackElement: <PageLoadingFallback />,
+      },
+      {
+        path: 'admin/loan-products',
+        element: (
+          <ProtectedRoute requiredPermission={{ resource: 'loan_products', action: 'manage' }}>
+            <Suspense fallback={<PageLoadingFallback />}>
+              <AdminLoanProducts />
+            </Suspense>
+          </ProtectedRoute>
+        ),
+        hydrateFallbackElement: <PageLoadingFallback />,
+      },
+      {
+        path: 'admin/audit-log',
+        element: (
+          <ProtectedRoute requiredPermission={{ resource: 'audit', action: 'view' }}>
+            <Suspense fallback={<PageLoadingFallback />}>
+              <AdminAuditLog />
+            </Suspense>
+          </ProtectedRoute>
+        ),
+        hydrateFallbackElement: <PageLoadingFallback />,
+      },
+      {
+        path: 'admin/approvals',
+        element: (
+          <ProtectedRoute requiredPermission={{ resource: 'approvals', action: 'review' }}>
+            <Suspense fallback={<PageLoadingFallback />}>
+              <Approvals />
+            </Suspense>
+          </ProtectedRoute>
+        ),
+        hydrateFallbackElement: <PageLoadingFallback />,
+      },
+      {
+        path: 'admin/members',
+        element: (
+          <ProtectedRoute requiredPermission={{ resource: 'members', action: 'view' }}>
+            <Suspense fallback={<PageLoadingFallback />}>
+              <AdminMembers />
+            </Suspense>
+          </ProtectedRoute>
+        ),
+        loader: adminMembersLoader,
+        hydrateFallbackElement: <PageLoadingFallback />,
+      },
+      {
+        path: 'admin/members/:memberId',
+        element: (
+          <ProtectedRoute requiredPermission={{ resource: 'members', action: 'view' }}>
+            <Suspense fallback={<PageLoadingFallback />}>
+              <MemberProfile />
+            </Suspense>
+          </ProtectedRoute>
+        ),
+        hydrateFallbackElement: <PageLoadingFallback />,
+      },
+      {
+        path: 'accounts',
+        element: (
+          <ProtectedRoute requiredPermission={{ resource: 'accounts', action: 'view' }}>
+            <Suspense fallback={<PageLoadingFallback />}>
+              <CustomerAccounts />
+            </Suspense>
+          </ProtectedRoute>
+        ),
+        loader: customerAccountsLoader,
+        hydrateFallbackElement: <PageLoadingFallback />,
+      },
+      {
+        path: 'accounts/:accountId',
+        element: (
+          <ProtectedRoute requiredPermission={{ resource: 'accounts', action: 'view' }}>
+            <Suspense fallback={<PageLoadingFallback />}>
+              <CustomerAccountDetail />
+            </Suspense>
+          </ProtectedRoute>
+        ),
+        hydrateFallbackElement: <PageLoadingFallback />,
+      },
+      {
+        path: 'loans',
+        element: (
+          <ProtectedRoute requiredPermission={{ resource: 'loans', action: 'view' }}>
+            <Suspense fallback={<PageLoadingFallback />}>
+              <Loans />
+            </Suspense>
+          </ProtectedRoute>
+        ),
+        hydrateFallbackElement: <PageLoadingFallback />,
+      },
+      {
+        path: 'loans/:loanId',
+        element: (
+          <ProtectedRoute requiredPermission={{ resource: 'loans', action: 'view' }}>
+            <Suspense fallback={<PageLoadingFallback />}>
+              <LoanDetail />
+            </Suspense>
+          </ProtectedRoute>
+        ),
+        hydrateFallbackElement: <PageLoadingFallback />,
+      },
+      {
+        path: 'dividends',
+        element: (
+          <ProtectedRoute requiredPermission={{ resource: 'dividends', action: 'view' }}>
+            <Suspense fallback={<PageLoadingFallback />}>
+              <Dividends />
+            </Suspense>
+          </ProtectedRoute>
+        ),
+        hydrateFallbackElement: <PageLoadingFallback />,
+      },
+      {
+        path: 'dividends/:runId',
+        element: (
+          <ProtectedRoute requiredPermission={{ resource: 'dividends', action: 'view' }}>
+            <Suspense fallback={<PageLoadingFallback />}>
+              <DividendRunDetail />
+            </Suspense>
+          </ProtectedRoute>
+        ),
+        hydrateFallbackElement: <PageLoadingFallback />,
+      },
+      {
+        path: 'documents/review',
+        element: (
+          <ProtectedRoute requiredPermission={{ resource: 'documents', action: 'verify' }}>
+            <Suspense fallback={<PageLoadingFallback />}>
+              <DocumentReview />
+            </Suspense>
+          </ProtectedRoute>
+        ),
+        hydrateFallbackElement: <PageLoadingFallback />,
+      },
       {
         path: 'profile',
         element: (
@@ -258,10 +475,51 @@ const router = createBrowserRouter([
         element: (
           <ProtectedRoute requiredPermission={{ resource: 'reports', action: 'view' }}>
             <Suspense fallback={<PageLoadingFallback />}>
-              <div className="text-center py-12">
-                <h2 className="text-xl font-semibold text-gray-900">Reports</h2>
-                <p className="text-gray-600 mt-2">Coming soon...</p>
-              </div>
+              <Reports />
+            </Suspense>
+          </ProtectedRoute>
+        ),
+        hydrateFallbackElement: <PageLoadingFallback />,
+      },
+      {
+        path: 'reports/zakat',
+        element: (
+          <ProtectedRoute requiredPermission={{ resource: 'zakat', action: 'view' }}>
+            <Suspense fallback={<PageLoadingFallback />}>
+              <ZakatReport />
+            </Suspense>
+          </ProtectedRoute>
+        ),
+        hydrateFallbackElement: <PageLoadingFallback />,
+      },
+      {
+        path: 'reports/savings-goals',
+        element: (
+          <ProtectedRoute requiredPermission={{ resource: 'accounts', action: 'view' }}>
+            <Suspense fallback={<PageLoadingFallback />}>
+              <SavingsGoalsReport />
+            </Suspense>
+          </ProtectedRoute>
+        ),
+        hydrateFallbackElement: <PageLoadingFallback />,
+      },
+      {
+        path: 'reports/statements',
+        element: (
+          <ProtectedRoute requiredPermission={{ resource: 'statements', action: 'view' }}>
+            <Suspense fallback={<PageLoadingFallback />}>
+              <MonthlyStatements />
+            </Suspense>
+          </ProtectedRoute>
+        ),
+        hydrateFallbackElement: <PageLoadingFallback />,
+      },
+      {
+        path: 'reports/zakat/members/:memberId',
+        element: (
+          <ProtectedRoute requiredPermission={{ resource: 'zakat', action: 'view' }}>
+            <Suspense fallback={<PageLoadingFallback />}>
+              <ZakatStatement />
             </Suspense>
           </ProtectedRoute>
         ),
@@ -272,10 +530,7 @@ const router = createBrowserRouter([
         element: (
           <ProtectedRoute requiredPermission={{ resource: 'transactions', action: 'create' }}>
             <Suspense fallback={<PageLoadingFallback />}>
-              <div className="text-center py-12">
-                <h2 className="text-xl font-semibold text-gray-900">Transactions</h2>
-                <p className="text-gray-600 mt-2">Coming soon...</p>
-              </div>
+              <Transactions />
             </Suspense>
           </ProtectedRoute>
         ),
@@ -299,10 +554,7 @@ const router = createBrowserRouter([
         path: 'settings',
         element: (
           <Suspense fallback={<PageLoadingFallback />}>
-            <div className="text-center py-12">
-              <h2 className="text-xl font-semibold text-gray-900">Settings</h2>
-              <p className="text-gray-600 mt-2">Coming soon...</p>
-            </div>
+            <SettingsPage />
           </Suspense>
         ),
         hydrateFallbackElement: <PageLoadingFallback />,
@@ -318,6 +570,7 @@ function App() {
   return (
     <AuthProvider>
       <RouterProvider router={router} />
+      <SessionTimeout />
     </AuthProvider>
   )
 }
@@ -0,0 +1,16 @@
+import type { CustomerAccountStatus } from '../types'
+
+const statusStyles: Record<CustomerAccountStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  active: 'bg-green-100 text-green-800',
+  dormant: 'bg-gray-100 text-gray-800',
+  closed: 'bg-red-100 text-red-800',
+}
+
+export function AccountStatusBadge({ status, className = '' }: { status: CustomerAccountStatus; className?: string }) {
+  return (
+    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${statusStyles[status]} ${className}`}>
+      {status}
+    </span>
+  )
+}
@@ -0,0 +1,80 @@
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { AlertCircle, LogOut, Monitor } from 'lucide-react'
+import { sessionsApi } from '../lib/dataFetching'
+import { queryKeys } from '../lib/queryClient'
+import { describeUserAgent } from '../utils/helpers'
+
+// Where the signed-in user is signed in, shown on their profile, with a way to end every other session
+export function ActiveSessions() {
+  const queryClient = useQueryClient()
+  const [error, setError] = useState<string | null>(null)
+
+  const { data: sessions = [], isLoading } = useQuery({
+    queryKey: queryKeys.userSessions(),
+    queryFn: sessionsApi.getSessions,
+  })
+
+  const signOutOthersMutation = useMutation({
+    mutationFn: sessionsApi.signOutOtherSessions,
+    onSuccess: () => {
+      setError(null)
+      queryClient.invalidateQueries({ queryKey: queryKeys.userSessions() })
+    },
+    onError: (err) => setError(err instanceof Error ? err.message : 'Failed to sign out other sessions'),
+  })
+
+  const handleSignOutOthers = () => {
+    if (!confirm('Sign out of every other browser and device? They will need to sign in again.')) return
+    signOutOthersMutation.mutate()
+  }
+
+  if (isLoading) {
+    return <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-emerald-600"></div>
+  }
+
+  const otherSessions = sessions.filter(session => !session.current)
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4 flex items-start">
+          <AlertCircle className="h-5 w-5 text-red-400 mt-0.5 mr-3 flex-shrink-0" />
+          <div className="text-sm text-red-700">{error}</div>
+        </div>
+      )}
+      <ul className="divide-y divide-gray-200">
+        {sessions.map(session => (
+          <li key={session.id} className="py-3 flex items-start">
+            <Monitor className="h-5 w-5 text-gray-400 mt-0.5 mr-3 flex-shrink-0" />
+            <div className="text-sm">
+              <div className="font-medium text-gray-900">
+                {describeUserAgent(session.user_agent)}
+                {session.current && (
+                  <span className="ml-2 inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-emerald-100 text-emerald-800">
+                    This device
+                  </span>
+                )}
+              </div>
+              <div className="text-gray-500">
+                {session.ip_address || 'Unknown address'} · Last active {new Date(session.last_seen_at).toLocaleString()}
+              </div>
+              <div className="text-gray-500">Signed in {new Date(session.created_at).toLocaleString()}</div>
+            </div>
+          </li>
+        ))}
+      </ul>
+      {otherSessions.length > 0 && (
+        <button
+          type="button"
+          onClick={handleSignOutOthers}
+          disabled={signOutOthersMutation.isPending}
+          className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md text-red-700 bg-red-100 hover:bg-red-200 disabled:opacity-50"
+        >
+          <LogOut className="h-4 w-4 mr-2" />
+          Sign out other sessions
+        </button>
+      )}
+    </div>
+  )
+}
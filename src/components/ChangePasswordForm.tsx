@@ -1,14 +1,30 @@
 // src/components/ChangePasswordForm.tsx
-import React, { useState } from 'react'
+import React, { useState, useEffect } from 'react'
 import { useAuth } from '../contexts/AuthContext'
+import { validatePasswordStrength } from '../utils/validation'
+import { PasswordRequirements } from './PasswordRequirements'
+import type { PasswordValidationResult } from '../types/auth'
 
 const ChangePasswordForm: React.FC = () => {
-  const { changePassword, signOut, loading: authLoading } = useAuth()
+  const { user, changePassword, signOut, loading: authLoading } = useAuth()
   const [newPassword, setNewPassword] = useState('')
   const [confirmPassword, setConfirmPassword] = useState('')
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState('')
   const [success, setSuccess] = useState('')
+  const [passwordValidation, setPasswordValidation] = useState<PasswordValidationResult | null>(null)
+
+  useEffect(() => {
+    if (!newPassword) {
+      setPasswordValidation(null)
+      return
+    }
+    // Results can arrive out of order while the compromised password list is looked up
+    let current = true
+    validatePasswordStrength(newPassword, { email: user?.email, full_name: user?.full_name })
+      .then(result => { if (current) setPasswordValidation(result) })
+    return () => { current = false }
+  }, [newPassword, user?.email, user?.full_name])
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -20,6 +36,11 @@ const ChangePasswordForm: React.FC = () => {
       return
     }
 
+    if (!passwordValidation?.isValid) {
+      setError(passwordValidation?.message || 'Password does not meet the password policy.')
+      return
+    }
+
     try {
       setIsLoading(true)
 
@@ -65,6 +86,7 @@ const ChangePasswordForm: React.FC = () => {
           className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
           placeholder="Enter new password"
         />
+        <PasswordRequirements password={newPassword} validation={passwordValidation} />
       </div>
 
       <div className="mb-4">
@@ -81,7 +103,7 @@ const ChangePasswordForm: React.FC = () => {
 
       <button
         type="submit"
-        disabled={isLoading || authLoading || !newPassword || !confirmPassword}
+        disabled={isLoading || authLoading || !newPassword || !confirmPassword || !passwordValidation?.isValid}
         className="w-full py-2 px-4 bg-emerald-600 text-white font-medium rounded-md hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
       >
         {isLoading || authLoading ? 'Updating password...' : 'Update Password'}
@@ -0,0 +1,16 @@
+import type { DividendRunStatus } from '../types'
+
+const statusStyles: Record<DividendRunStatus, string> = {
+  draft: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-blue-100 text-blue-800',
+  posted: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-800',
+}
+
+export function DividendRunStatusBadge({ status, className = '' }: { status: DividendRunStatus; className?: string }) {
+  return (
+    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${statusStyles[status]} ${className}`}>
+      {status}
+    </span>
+  )
+}
@@ -0,0 +1,38 @@
+import type { DocumentKind } from '../types'
+
+export function DocumentKindPicker({
+  documentKinds,
+  selected,
+  onChange
+}: {
+  documentKinds: DocumentKind[]
+  selected: string[]
+  onChange: (codes: string[]) => void
+}) {
+  // Inactive kinds stay visible only while an account type still requires them
+  const options = documentKinds.filter(kind => kind.is_active || selected.includes(kind.code))
+
+  const toggle = (code: string, checked: boolean) => {
+    onChange(checked ? [...selected, code] : selected.filter(c => c !== code))
+  }
+
+  if (options.length === 0) {
+    return <p className="text-sm text-gray-500">No document kinds have been set up yet.</p>
+  }
+
+  return (
+    <div className="grid grid-cols-2 gap-2 border border-gray-200 rounded-md p-3">
+      {options.map(kind => (
+        <label key={kind.id} className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={selected.includes(kind.code)}
+            onChange={(e) => toggle(kind.code, e.target.checked)}
+            className="rounded border-gray-300 text-emerald-600 focus:ring-emerald-500"
+          />
+          <span className={`text-sm ${kind.is_active ? 'text-gray-700' : 'text-gray-400 line-through'}`}>{kind.name}</span>
+        </label>
+      ))}
+    </div>
+  )
+}
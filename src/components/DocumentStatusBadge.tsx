@@ -0,0 +1,25 @@
+import type { DocumentChecklistStatus } from '../types'
+
+const statusStyles: Record<DocumentChecklistStatus, string> = {
+  verified: 'bg-green-100 text-green-800',
+  pending: 'bg-yellow-100 text-yellow-800',
+  rejected: 'bg-red-100 text-red-800',
+  expired: 'bg-orange-100 text-orange-800',
+  missing: 'bg-gray-100 text-gray-800',
+}
+
+const statusLabels: Record<DocumentChecklistStatus, string> = {
+  verified: 'Verified',
+  pending: 'Awaiting review',
+  rejected: 'Rejected',
+  expired: 'Expired',
+  missing: 'Missing',
+}
+
+export function DocumentStatusBadge({ status, className = '' }: { status: DocumentChecklistStatus; className?: string }) {
+  return (
+    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${statusStyles[status]} ${className}`}>
+      {statusLabels[status]}
+    </span>
+  )
+}
@@ -0,0 +1,29 @@
+import { ExternalLink } from 'lucide-react'
+import { memberDocumentsApi, ApiError } from '../lib/dataFetching'
+
+export function DocumentViewButton({ documentId, onError }: { documentId: string; onError: (message: string) => void }) {
+  const handleView = async () => {
+    // Open the tab synchronously so popup blockers allow it, then point it at the signed URL
+    const viewer = window.open('', '_blank')
+    try {
+      const { signed_url } = await memberDocumentsApi.getDocument(documentId)
+      if (viewer) {
+        viewer.opener = null
+        viewer.location.href = signed_url
+      }
+    } catch (error) {
+      viewer?.close()
+      onError(error instanceof ApiError ? error.message : 'Failed to open document')
+    }
+  }
+
+  return (
+    <button
+      onClick={handleView}
+      className="inline-flex items-center p-2 border border-transparent rounded-full shadow-sm text-white bg-emerald-600 hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500"
+      title="View document"
+    >
+      <ExternalLink className="h-4 w-4" />
+    </button>
+  )
+}
@@ -0,0 +1,49 @@
+import { useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { Eye } from 'lucide-react'
+import { useAuth } from '../contexts/AuthContext'
+
+// Shown for as long as an administrator views the app as another user, with the way back
+export function ImpersonationBanner() {
+  const { impersonation, stopImpersonation } = useAuth()
+  const navigate = useNavigate()
+  const [stopping, setStopping] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  if (!impersonation) return null
+
+  const handleExit = async () => {
+    setStopping(true)
+    setError(null)
+    try {
+      await stopImpersonation()
+      navigate('/admin/users')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to exit the view')
+    } finally {
+      setStopping(false)
+    }
+  }
+
+  return (
+    <div className="fixed bottom-0 inset-x-0 z-40 bg-amber-500 text-amber-950 print:hidden">
+      <div className="px-6 py-2 flex items-center justify-between">
+        <div className="flex items-center text-sm">
+          <Eye className="h-5 w-5 mr-2" />
+          <span>
+            Viewing as <span className="font-semibold">{impersonation.user.full_name || impersonation.user.email}</span> ({impersonation.user.email})
+            since {new Date(impersonation.started_at).toLocaleTimeString()}. Read-only: changes are blocked.
+          </span>
+          {error && <span className="ml-3 font-medium">{error}</span>}
+        </div>
+        <button
+          onClick={handleExit}
+          disabled={stopping}
+          className="px-3 py-1 text-sm font-medium rounded-md bg-amber-950 text-white hover:bg-amber-900 disabled:opacity-50"
+        >
+          {stopping ? 'Exiting...' : 'Exit view'}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -2,21 +2,26 @@ import React from 'react'
 import { Outlet } from 'react-router-dom'
 import { Navbar } from './Navbar'
 import { Sidebar } from './Sidebar'
+import { ImpersonationBanner } from './ImpersonationBanner'
+import { useAuth } from '../contexts/AuthContext'
 
 interface LayoutProps {
   showSidebar?: boolean
 }
 
 export function Layout({ showSidebar = true }: LayoutProps) {
+  const { impersonation } = useAuth()
+
   return (
     <div className="min-h-screen bg-gray-50">
       <Navbar />
       <div className="flex">
         {showSidebar && <Sidebar />}
-        <main className={`flex-1 ${showSidebar ? 'ml-64' : ''} p-6`}>
+        <main className={`flex-1 ${showSidebar ? 'ml-64' : ''} p-6 ${impersonation ? 'pb-16' : ''} print:ml-0 print:p-0`}>
           <Outlet />
         </main>
       </div>
+      <ImpersonationBanner />
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,222 @@
+import React, { useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { queryKeys } from '../lib/queryClient'
+import { customerAccountsApi, loanProductsApi, membersApi } from '../lib/dataFetching'
+import { formatCurrency, formatLoanProductType } from '../utils/helpers'
+import type { LoanApplicationData } from '../types'
+
+export function LoanApplicationModal({
+  memberId,
+  isSubmitting,
+  onClose,
+  onSubmit
+}: {
+  memberId?: string
+  isSubmitting?: boolean
+  onClose: () => void
+  onSubmit: (applicationData: LoanApplicationData) => void
+}) {
+  const [formData, setFormData] = useState({
+    member_id: memberId || '',
+    customer_account_id: '',
+    loan_product_id: '',
+    principal: '',
+    term_months: '',
+    purpose: ''
+  })
+
+  const { data: membersData } = useQuery({
+    queryKey: queryKeys.members(),
+    queryFn: () => membersApi.getMembers(),
+    enabled: !memberId,
+  })
+
+  const { data: accountsData } = useQuery({
+    queryKey: queryKeys.memberAccounts(formData.member_id),
+    queryFn: () => customerAccountsApi.getCustomerAccounts(formData.member_id),
+    enabled: !!formData.member_id,
+  })
+
+  const { data: productsData } = useQuery({
+    queryKey: queryKeys.loanProducts(),
+    queryFn: loanProductsApi.getLoanProducts,
+  })
+
+  const members = (membersData?.members || []).filter(member => member.membership_status === 'active')
+  const eligibleAccounts = (accountsData?.customer_accounts || []).filter(
+    account => account.status === 'active' && account.account_type?.can_take_loan
+  )
+  const products = (productsData?.loan_products || []).filter(product => product.is_active)
+  const selectedProduct = products.find(product => product.id === formData.loan_product_id)
+
+  // Mirrors the server: Murabaha markup is a flat yearly rate on the cost price over the term
+  const principal = Number(formData.principal) || 0
+  const termMonths = Number(formData.term_months) || 0
+  const profitAmount = selectedProduct?.product_type === 'murabaha'
+    ? Math.round(principal * Number(selectedProduct.profit_rate) / 100 * termMonths / 12 * 100) / 100
+    : 0
+  const totalPayable = principal + profitAmount
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!formData.member_id || !formData.customer_account_id || !formData.loan_product_id) return
+    onSubmit({
+      member_id: formData.member_id,
+      customer_account_id: formData.customer_account_id,
+      loan_product_id: formData.loan_product_id,
+      principal,
+      term_months: termMonths,
+      purpose: formData.purpose.trim() || undefined
+    })
+  }
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-[500px] shadow-lg rounded-md bg-white">
+        <div className="mt-3">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">New Loan Application</h3>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {!memberId && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Member</label>
+                <select
+                  required
+                  value={formData.member_id}
+                  onChange={(e) => setFormData(prev => ({ ...prev, member_id: e.target.value, customer_account_id: '' }))}
+                  className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+                >
+                  <option value="">Select a member</option>
+                  {members.map((member) => (
+                    <option key={member.id} value={member.id}>
+                      {member.first_name} {member.last_name} ({member.member_number})
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Account</label>
+              <select
+                required
+                disabled={!formData.member_id}
+                value={formData.customer_account_id}
+                onChange={(e) => setFormData(prev => ({ ...prev, customer_account_id: e.target.value }))}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500 disabled:bg-gray-100"
+              >
+                <option value="">Select a loan-eligible account</option>
+                {eligibleAccounts.map((account) => (
+                  <option key={account.id} value={account.id}>
+                    {account.account_number} &middot; {account.account_type?.name}
+                  </option>
+                ))}
+              </select>
+              {formData.member_id && accountsData && eligibleAccounts.length === 0 && (
+                <p className="mt-1 text-xs text-red-600">This member has no active account of a loan-eligible type.</p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Loan Product</label>
+              <select
+                required
+                value={formData.loan_product_id}
+                onChange={(e) => setFormData(prev => ({ ...prev, loan_product_id: e.target.value }))}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+              >
+                <option value="">Select a loan product</option>
+                {products.map((product) => (
+                  <option key={product.id} value={product.id}>
+                    {product.name} ({formatLoanProductType(product.product_type)})
+                  </option>
+                ))}
+              </select>
+              {selectedProduct && (
+                <p className="mt-1 text-xs text-gray-500">
+                  {formatCurrency(selectedProduct.min_amount)} to {formatCurrency(selectedProduct.max_amount)} over {selectedProduct.min_term_months} to {selectedProduct.max_term_months} months
+                  {selectedProduct.product_type === 'murabaha' && ` · ${selectedProduct.profit_rate}% markup per year`}
+                </p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Amount (MUR)</label>
+                <input
+                  type="number"
+                  required
+                  step="0.01"
+                  min={selectedProduct?.min_amount ?? 0.01}
+                  max={selectedProduct?.max_amount}
+                  value={formData.principal}
+                  onChange={(e) => setFormData(prev => ({ ...prev, principal: e.target.value }))}
+                  className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Term (months)</label>
+                <input
+                  type="number"
+                  required
+                  step="1"
+                  min={selectedProduct?.min_term_months ?? 1}
+                  max={selectedProduct?.max_term_months}
+                  value={formData.term_months}
+                  onChange={(e) => setFormData(prev => ({ ...prev, term_months: e.target.value }))}
+                  className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Purpose</label>
+              <textarea
+                value={formData.purpose}
+                onChange={(e) => setFormData(prev => ({ ...prev, purpose: e.target.value }))}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+                rows={2}
+                maxLength={500}
+              />
+            </div>
+
+            {selectedProduct && principal > 0 && termMonths > 0 && (
+              <div className="bg-gray-50 border border-gray-200 rounded-md p-3 text-sm space-y-1">
+                {selectedProduct.product_type === 'murabaha' && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Murabaha markup</span>
+                    <span className="text-gray-900">{formatCurrency(profitAmount)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Total repayable</span>
+                  <span className="font-medium text-gray-900">{formatCurrency(totalPayable)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Monthly instalment (approx.)</span>
+                  <span className="text-gray-900">{formatCurrency(totalPayable / termMonths)}</span>
+                </div>
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSubmitting || !formData.customer_account_id || !formData.loan_product_id}
+                className="px-4 py-2 text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-700 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSubmitting ? 'Submitting...' : 'Submit Application'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,18 @@
+import type { LoanStatus } from '../types'
+
+const statusStyles: Record<LoanStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-blue-100 text-blue-800',
+  rejected: 'bg-red-100 text-red-800',
+  withdrawn: 'bg-gray-100 text-gray-600',
+  active: 'bg-green-100 text-green-800',
+  closed: 'bg-gray-100 text-gray-800',
+}
+
+export function LoanStatusBadge({ status, className = '' }: { status: LoanStatus; className?: string }) {
+  return (
+    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${statusStyles[status]} ${className}`}>
+      {status}
+    </span>
+  )
+}
@@ -1,13 +1,22 @@
 import React, { useState } from 'react'
 import { useNavigate, useLocation, Link } from 'react-router-dom'
 import { useAuth } from '../contexts/AuthContext'
-import { Shield, Eye, EyeOff, AlertCircle } from 'lucide-react'
+import { Shield, Eye, EyeOff, AlertCircle, Lock } from 'lucide-react'
+import { LoginThrottledError } from '../lib/dataFetching'
+
+// When sign-in may be tried again after too many failures; locked for a lockout rather than a delay
+interface SignInThrottle {
+  until: number
+  locked: boolean
+}
 
 export function LoginForm() {
   const [credentials, setCredentials] = useState({ email: '', password: '' })
   const [showPassword, setShowPassword] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
-  const { signIn, error, user } = useAuth()
+  const [throttle, setThrottle] = useState<SignInThrottle | null>(null)
+  const [now, setNow] = useState(Date.now())
+  const { signIn, error, user, mfaPending } = useAuth()
   const navigate = useNavigate()
   const location = useLocation()
 
@@ -16,6 +25,7 @@ export function LoginForm() {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setIsLoading(true)
+    setThrottle(null)
 
     try {
       await signIn(credentials.email, credentials.password)
@@ -23,6 +33,12 @@ export function LoginForm() {
       // The signIn function in AuthContext will automatically set the user
       // We'll handle navigation in a useEffect that watches for user changes
     } catch (error) {
+      if (error instanceof LoginThrottledError) {
+        setNow(Date.now())
+        setThrottle(error.lockedUntil
+          ? { until: new Date(error.lockedUntil).getTime(), locked: true }
+          : { until: Date.now() + (error.retryAfter || 0) * 1000, locked: false })
+      }
       console.error('Login failed:', error)
     } finally {
       setIsLoading(false)
@@ -32,7 +48,9 @@ export function LoginForm() {
   // Handle navigation after successful login
   React.useEffect(() => {
     if (user && !isLoading) {
-      if (user.needs_password_reset) {
+      if (mfaPending) {
+        navigate('/mfa', { replace: true })
+      } else if (user.needs_password_reset) {
         navigate('/force-password-change', { replace: true })
       } else if (user.roles?.some(role => role.name === 'admin')) {
         navigate('/admin/dashboard', { replace: true })
@@ -40,10 +58,22 @@ export function LoginForm() {
         navigate('/dashboard', { replace: true })
       }
     }
-  }, [user, isLoading, navigate])
+  }, [user, isLoading, mfaPending, navigate])
+
+  // Ticks while sign-in is throttled so the wait counts down and the button re-enables
+  React.useEffect(() => {
+    if (!throttle) return
+    const timer = setInterval(() => {
+      setNow(Date.now())
+      if (Date.now() >= throttle.until) setThrottle(null)
+    }, 1000)
+    return () => clearInterval(timer)
+  }, [throttle])
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target
+    // A lockout belongs to the account, so another email may be tried straight away
+    if (name === 'email' && throttle?.locked) setThrottle(null)
     setCredentials(prev => ({ ...prev, [name]: value }))
   }
 
@@ -63,7 +93,24 @@ export function LoginForm() {
         </div>
         
         <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
-          {error && (
+          {throttle ? (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4 flex items-start">
+              <Lock className="h-5 w-5 text-yellow-500 mt-0.5 mr-3 flex-shrink-0" />
+              <div className="text-sm text-yellow-800">
+                {throttle.locked ? (
+                  <>
+                    <p className="font-medium">Sign-in temporarily locked</p>
+                    <p className="mt-1">
+                      Too many failed sign-in attempts. Try again after {new Date(throttle.until).toLocaleTimeString()} or
+                      ask an administrator to unlock your account.
+                    </p>
+                  </>
+                ) : (
+                  <p>Too many failed sign-in attempts. Try again in {Math.max(1, Math.ceil((throttle.until - now) / 1000))} seconds.</p>
+                )}
+              </div>
+            </div>
+          ) : error && (
             <div className="bg-red-50 border border-red-200 rounded-md p-4 flex items-start">
               <AlertCircle className="h-5 w-5 text-red-400 mt-0.5 mr-3 flex-shrink-0" />
               <div className="text-sm text-red-700">{error}</div>
@@ -130,7 +177,7 @@ export function LoginForm() {
           <div>
             <button
               type="submit"
-              disabled={isLoading || !credentials.email || !credentials.password}
+              disabled={isLoading || !!throttle || !credentials.email || !credentials.password}
               className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-emerald-600 hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
             >
               {isLoading ? (
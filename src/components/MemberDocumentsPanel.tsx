@@ -0,0 +1,147 @@
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { queryKeys } from '../lib/queryClient'
+import { FileText, Upload, Trash2 } from 'lucide-react'
+import { memberDocumentsApi, ApiError } from '../lib/dataFetching'
+import { hasPermission } from '../utils/permissions'
+import { useAuth } from '../contexts/AuthContext'
+import { DocumentStatusBadge } from './DocumentStatusBadge'
+import { DocumentViewButton } from './DocumentViewButton'
+import { UploadDocumentModal } from './UploadDocumentModal'
+import type { CustomerAccount, MemberDocument } from '../types'
+
+export function MemberDocumentsPanel({
+  memberId,
+  accounts = []
+}: {
+  memberId: string
+  accounts?: Pick<CustomerAccount, 'id' | 'account_number'>[]
+}) {
+  const queryClient = useQueryClient()
+  const { user } = useAuth()
+  const canUploadDocuments = hasPermission(user, 'documents', 'upload')
+
+  const [showUploadModal, setShowUploadModal] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const { data, isLoading } = useQuery({
+    queryKey: queryKeys.memberDocumentsFor(memberId),
+    queryFn: () => memberDocumentsApi.getDocuments({ member_id: memberId }),
+  })
+
+  const uploadDocumentMutation = useMutation({
+    mutationFn: memberDocumentsApi.uploadDocument,
+    onSuccess: () => {
+      setError(null)
+      setShowUploadModal(false)
+      queryClient.invalidateQueries({ queryKey: queryKeys.memberDocuments() })
+      queryClient.invalidateQueries({ queryKey: queryKeys.customerAccounts() })
+    },
+    onError: (error) => {
+      setError(error instanceof ApiError ? error.message : 'Failed to upload document')
+    },
+  })
+
+  const deleteDocumentMutation = useMutation({
+    mutationFn: memberDocumentsApi.deleteDocument,
+    onSuccess: () => {
+      setError(null)
+      queryClient.invalidateQueries({ queryKey: queryKeys.memberDocuments() })
+      queryClient.invalidateQueries({ queryKey: queryKeys.customerAccounts() })
+    },
+    onError: (error) => {
+      setError(error instanceof ApiError ? error.message : 'Failed to delete document')
+    },
+  })
+
+  const handleDeleteDocument = (document: MemberDocument) => {
+    if (!confirm(`Delete ${document.document_kind?.name || 'document'} "${document.file_name}"?`)) return
+    deleteDocumentMutation.mutate(document.id)
+  }
+
+  const documents = data?.documents || []
+  const today = new Date().toISOString().slice(0, 10)
+
+  return (
+    <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg leading-6 font-medium text-gray-900">Documents</h3>
+        {canUploadDocuments && (
+          <button
+            onClick={() => setShowUploadModal(true)}
+            className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-emerald-600 hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500"
+          >
+            <Upload className="h-4 w-4 mr-1" />
+            Upload Document
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-3 mb-4">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-6">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-emerald-600"></div>
+        </div>
+      ) : documents.length === 0 ? (
+        <p className="text-sm text-gray-500">No documents have been uploaded for this member.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {documents.map(document => {
+            const expired = document.status === 'verified' && !!document.expires_on && document.expires_on <= today
+            return (
+              <li key={document.id} className="py-3 flex items-center justify-between">
+                <div className="flex items-start">
+                  <FileText className="h-5 w-5 text-gray-400 mr-3 mt-0.5" />
+                  <div>
+                    <div className="flex items-center">
+                      <span className="text-sm font-medium text-gray-900">{document.document_kind?.name}</span>
+                      <DocumentStatusBadge status={expired ? 'expired' : document.status} className="ml-2" />
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      {[
+                        document.file_name,
+                        document.document_number && `No. ${document.document_number}`,
+                        document.expires_on && `Expires ${new Date(document.expires_on).toLocaleDateString()}`,
+                        document.customer_account && `Account ${document.customer_account.account_number} only`
+                      ].filter(Boolean).join(' · ')}
+                    </p>
+                    {document.status === 'rejected' && document.rejection_reason && (
+                      <p className="text-xs text-red-600">Rejected: {document.rejection_reason}</p>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <DocumentViewButton documentId={document.id} onError={setError} />
+                  {canUploadDocuments && document.status !== 'verified' && (
+                    <button
+                      onClick={() => handleDeleteDocument(document)}
+                      className="inline-flex items-center p-2 border border-transparent rounded-full shadow-sm text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+                      title="Delete document"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+
+      {canUploadDocuments && showUploadModal && (
+        <UploadDocumentModal
+          memberId={memberId}
+          accounts={accounts}
+          isUploading={uploadDocumentMutation.isPending}
+          onClose={() => setShowUploadModal(false)}
+          onSubmit={(documentData) => uploadDocumentMutation.mutate(documentData)}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,164 @@
+import React, { useState } from 'react'
+import { useAuth } from '../contexts/AuthContext'
+import { OrganisationUnitSelect } from './OrganisationUnitSelect'
+import type { Member, MembershipStatus, CreateMemberData } from '../types'
+
+// Used for both member registration and editing
+export function MemberFormModal({
+  member,
+  onClose,
+  onSubmit
+}: {
+  member?: Member
+  onClose: () => void
+  onSubmit: (memberData: CreateMemberData) => void
+}) {
+  const { user } = useAuth()
+  // New members bank with the unit of the staff member registering them unless changed
+  const [organisationUnitId, setOrganisationUnitId] = useState<string | null>(
+    member ? member.organisation_unit_id : user?.organisation_unit_id ?? null
+  )
+  const [formData, setFormData] = useState({
+    first_name: member?.first_name || '',
+    last_name: member?.last_name || '',
+    national_id: member?.national_id || '',
+    date_of_birth: member?.date_of_birth || '',
+    gender: member?.gender || '',
+    email: member?.email || '',
+    phone: member?.phone || '',
+    address: member?.address || '',
+    city: member?.city || '',
+    occupation: member?.occupation || '',
+    membership_status: member?.membership_status || 'pending' as MembershipStatus,
+    joined_at: member?.joined_at || new Date().toISOString().slice(0, 10),
+    notes: member?.notes || ''
+  })
+
+  const setField = (field: keyof typeof formData, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }))
+  }
+
+  const isValid = formData.first_name.trim() && formData.last_name.trim() && formData.national_id.trim()
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!isValid) return
+    onSubmit({
+      first_name: formData.first_name.trim(),
+      last_name: formData.last_name.trim(),
+      national_id: formData.national_id.trim(),
+      date_of_birth: formData.date_of_birth || null,
+      gender: (formData.gender || null) as CreateMemberData['gender'],
+      email: formData.email.trim() || null,
+      phone: formData.phone.trim() || null,
+      address: formData.address.trim() || null,
+      city: formData.city.trim() || null,
+      occupation: formData.occupation.trim() || null,
+      membership_status: formData.membership_status as MembershipStatus,
+      joined_at: formData.joined_at,
+      notes: formData.notes.trim() || null,
+      organisation_unit_id: organisationUnitId
+    })
+  }
+
+  const inputClass = 'mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500'
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-[600px] shadow-lg rounded-md bg-white">
+        <div className="mt-3">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">
+            {member ? `Edit Member ${member.member_number}` : 'Register New Member'}
+          </h3>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">First Name</label>
+                <input type="text" required maxLength={100} value={formData.first_name} onChange={(e) => setField('first_name', e.target.value)} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Last Name</label>
+                <input type="text" required maxLength={100} value={formData.last_name} onChange={(e) => setField('last_name', e.target.value)} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">National ID</label>
+                <input type="text" required maxLength={30} value={formData.national_id} onChange={(e) => setField('national_id', e.target.value)} className={inputClass} placeholder="e.g., A0101901234567" />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Date of Birth</label>
+                <input type="date" value={formData.date_of_birth} onChange={(e) => setField('date_of_birth', e.target.value)} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Gender</label>
+                <select value={formData.gender} onChange={(e) => setField('gender', e.target.value)} className={inputClass}>
+                  <option value="">Not specified</option>
+                  <option value="male">Male</option>
+                  <option value="female">Female</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Occupation</label>
+                <input type="text" maxLength={100} value={formData.occupation} onChange={(e) => setField('occupation', e.target.value)} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Email</label>
+                <input type="email" maxLength={255} value={formData.email} onChange={(e) => setField('email', e.target.value)} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Phone</label>
+                <input type="tel" maxLength={30} value={formData.phone} onChange={(e) => setField('phone', e.target.value)} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Address</label>
+                <input type="text" maxLength={255} value={formData.address} onChange={(e) => setField('address', e.target.value)} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">City</label>
+                <input type="text" maxLength={100} value={formData.city} onChange={(e) => setField('city', e.target.value)} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Membership Status</label>
+                <select value={formData.membership_status} onChange={(e) => setField('membership_status', e.target.value)} className={inputClass}>
+                  <option value="pending">Pending</option>
+                  <option value="active">Active</option>
+                  <option value="suspended">Suspended</option>
+                  <option value="terminated">Terminated</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Member Since</label>
+                <input type="date" required value={formData.joined_at} onChange={(e) => setField('joined_at', e.target.value)} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Branch</label>
+                <OrganisationUnitSelect value={organisationUnitId} onChange={setOrganisationUnitId} emptyLabel="Whole organisation" />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Notes</label>
+              <textarea value={formData.notes} onChange={(e) => setField('notes', e.target.value)} className={inputClass} rows={2} maxLength={1000} />
+            </div>
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={!isValid}
+                className="px-4 py-2 text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-700 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {member ? 'Update Member' : 'Register Member'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,16 @@
+import type { MembershipStatus } from '../types'
+
+const statusStyles: Record<MembershipStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  active: 'bg-green-100 text-green-800',
+  suspended: 'bg-orange-100 text-orange-800',
+  terminated: 'bg-red-100 text-red-800',
+}
+
+export function MemberStatusBadge({ status, className = '' }: { status: MembershipStatus; className?: string }) {
+  return (
+    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${statusStyles[status]} ${className}`}>
+      {status}
+    </span>
+  )
+}
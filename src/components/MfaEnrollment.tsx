@@ -0,0 +1,102 @@
+import React, { useState } from 'react'
+import { Smartphone, AlertCircle } from 'lucide-react'
+import { mfaApi } from '../lib/dataFetching'
+import { RecoveryCodeList } from './RecoveryCodeList'
+import type { MfaEnrollment as Enrollment } from '../types/auth'
+
+// Enrols a TOTP authenticator app: shows the QR code to scan, verifies a first code and then
+// hands out recovery codes. onComplete is called once the user has saved the codes.
+export function MfaEnrollment({ onComplete }: { onComplete: () => void }) {
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null)
+  const [code, setCode] = useState('')
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const handleStart = async () => {
+    setError(null)
+    setIsLoading(true)
+    try {
+      setEnrollment(await mfaApi.enroll())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start authenticator setup')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!enrollment) return
+
+    setError(null)
+    setIsLoading(true)
+    try {
+      await mfaApi.verify(enrollment.factorId, code.trim())
+      const { codes } = await mfaApi.generateRecoveryCodes()
+      setRecoveryCodes(codes)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to verify the code')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  if (recoveryCodes) {
+    return <RecoveryCodeList codes={recoveryCodes} onDone={onComplete} />
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4 flex items-start">
+          <AlertCircle className="h-5 w-5 text-red-400 mt-0.5 mr-3 flex-shrink-0" />
+          <div className="text-sm text-red-700">{error}</div>
+        </div>
+      )}
+
+      {!enrollment ? (
+        <button
+          type="button"
+          onClick={handleStart}
+          disabled={isLoading}
+          className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-700 rounded-md disabled:opacity-50"
+        >
+          <Smartphone className="h-4 w-4 mr-2" />
+          {isLoading ? 'Starting...' : 'Set up authenticator app'}
+        </button>
+      ) : (
+        <form onSubmit={handleVerify} className="space-y-4">
+          <p className="text-sm text-gray-700">
+            Scan this QR code with an authenticator app such as Google Authenticator or Microsoft
+            Authenticator, then enter the 6-digit code it shows.
+          </p>
+          <img src={enrollment.qrCode} alt="Authenticator QR code" className="h-48 w-48 border border-gray-200 rounded-md" />
+          <p className="text-xs text-gray-500">
+            Can't scan it? Enter this key instead: <span className="font-mono text-gray-900 break-all">{enrollment.secret}</span>
+          </p>
+          <div className="flex items-center space-x-2">
+            <input
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={6}
+              value={code}
+              onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+              className="w-32 border border-gray-300 rounded-md px-3 py-2 font-mono tracking-widest focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+              placeholder="123456"
+              required
+            />
+            <button
+              type="submit"
+              disabled={isLoading || code.length !== 6}
+              className="px-4 py-2 text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-700 rounded-md disabled:opacity-50"
+            >
+              {isLoading ? 'Verifying...' : 'Verify'}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  )
+}
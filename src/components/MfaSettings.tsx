@@ -0,0 +1,114 @@
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { CheckCircle, AlertCircle, KeyRound, Trash2 } from 'lucide-react'
+import { mfaApi } from '../lib/dataFetching'
+import { queryKeys } from '../lib/queryClient'
+import { useAuth } from '../contexts/AuthContext'
+import { MfaEnrollment } from './MfaEnrollment'
+import { RecoveryCodeList } from './RecoveryCodeList'
+
+// Two-factor authentication settings of the signed-in user, shown on their profile
+export function MfaSettings() {
+  const queryClient = useQueryClient()
+  const { user, refreshAssuranceLevel } = useAuth()
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const { data: factor, isLoading } = useQuery({
+    queryKey: queryKeys.mfaFactor(),
+    queryFn: mfaApi.getVerifiedFactor,
+  })
+
+  const { data: recoveryStatus } = useQuery({
+    queryKey: queryKeys.mfaRecoveryCodes(),
+    queryFn: mfaApi.getRecoveryCodeStatus,
+    enabled: !!factor,
+  })
+
+  const refresh = async () => {
+    await refreshAssuranceLevel()
+    queryClient.invalidateQueries({ queryKey: queryKeys.mfaFactor() })
+    queryClient.invalidateQueries({ queryKey: queryKeys.mfaRecoveryCodes() })
+  }
+
+  const regenerateMutation = useMutation({
+    mutationFn: mfaApi.generateRecoveryCodes,
+    onSuccess: ({ codes }) => {
+      setError(null)
+      setRecoveryCodes(codes)
+    },
+    onError: (err) => setError(err instanceof Error ? err.message : 'Failed to generate recovery codes'),
+  })
+
+  const removeMutation = useMutation({
+    mutationFn: (factorId: string) => mfaApi.unenroll(factorId),
+    onSuccess: refresh,
+    onError: (err) => setError(err instanceof Error ? err.message : 'Failed to remove the authenticator'),
+  })
+
+  const handleRemove = () => {
+    if (!factor) return
+    if (!confirm('Remove your authenticator? You will sign in with your password only.')) return
+    removeMutation.mutate(factor.id)
+  }
+
+  if (isLoading) {
+    return <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-emerald-600"></div>
+  }
+
+  if (recoveryCodes) {
+    return <RecoveryCodeList codes={recoveryCodes} onDone={() => { setRecoveryCodes(null); refresh() }} />
+  }
+
+  if (!factor) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Protect your account with a code from an authenticator app each time you sign in.
+          {user?.mfa_required && ' Your role requires it.'}
+        </p>
+        <MfaEnrollment onComplete={refresh} />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4 flex items-start">
+          <AlertCircle className="h-5 w-5 text-red-400 mt-0.5 mr-3 flex-shrink-0" />
+          <div className="text-sm text-red-700">{error}</div>
+        </div>
+      )}
+      <div className="flex items-center text-sm text-gray-700">
+        <CheckCircle className="h-5 w-5 text-green-500 mr-2" />
+        Authenticator app enabled since {new Date(factor.created_at).toLocaleDateString()}
+      </div>
+      <p className="text-sm text-gray-600">
+        {recoveryStatus ? `${recoveryStatus.remaining} unused recovery codes left.` : 'Loading recovery codes...'}
+      </p>
+      <div className="flex items-center space-x-3">
+        <button
+          type="button"
+          onClick={() => regenerateMutation.mutate()}
+          disabled={regenerateMutation.isPending}
+          className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md text-emerald-700 bg-emerald-100 hover:bg-emerald-200 disabled:opacity-50"
+        >
+          <KeyRound className="h-4 w-4 mr-2" />
+          Generate new recovery codes
+        </button>
+        {!user?.mfa_required && (
+          <button
+            type="button"
+            onClick={handleRemove}
+            disabled={removeMutation.isPending}
+            className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md text-red-700 bg-red-100 hover:bg-red-200 disabled:opacity-50"
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Remove authenticator
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -19,7 +19,7 @@ export function Navbar() {
   }
 
   return (
-    <nav className="bg-white border-b border-gray-200 fixed w-full z-30 top-0">
+    <nav className="bg-white border-b border-gray-200 fixed w-full z-30 top-0 print:hidden">
       <div className="px-6 py-3">
         <div className="flex items-center justify-between">
           <div className="flex items-center">
@@ -0,0 +1,186 @@
+import React, { useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { queryKeys } from '../lib/queryClient'
+import { accountTypesApi, documentKindsApi, membersApi } from '../lib/dataFetching'
+import { formatCurrency } from '../utils/helpers'
+import type { OpenCustomerAccountData } from '../types'
+
+export function OpenAccountModal({
+  memberId,
+  onClose,
+  onSubmit
+}: {
+  memberId?: string
+  onClose: () => void
+  onSubmit: (accountData: OpenCustomerAccountData) => void
+}) {
+  const [formData, setFormData] = useState({
+    member_id: memberId || '',
+    account_type_id: '',
+    goal_amount: '',
+    goal_date: '',
+    notes: ''
+  })
+
+  const { data: membersData } = useQuery({
+    queryKey: queryKeys.members(),
+    queryFn: () => membersApi.getMembers(),
+    enabled: !memberId,
+  })
+
+  const { data: accountTypesData } = useQuery({
+    queryKey: queryKeys.accountTypes(),
+    queryFn: accountTypesApi.getAccountTypes,
+  })
+
+  const { data: documentKindsData } = useQuery({
+    queryKey: queryKeys.documentKinds(),
+    queryFn: documentKindsApi.getDocumentKinds,
+  })
+
+  const members = (membersData?.members || []).filter(
+    member => member.membership_status === 'pending' || member.membership_status === 'active'
+  )
+  const accountTypes = (accountTypesData?.account_types || []).filter(accountType => accountType.is_active)
+  const selectedType = accountTypes.find(accountType => accountType.id === formData.account_type_id)
+
+  const documentKindNames = new Map((documentKindsData?.document_kinds || []).map(kind => [kind.code, kind.name]))
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!formData.member_id || !formData.account_type_id) return
+    onSubmit({
+      member_id: formData.member_id,
+      account_type_id: formData.account_type_id,
+      goal_amount: selectedType?.has_savings_goal ? Number(formData.goal_amount) : undefined,
+      goal_date: selectedType?.has_savings_goal ? formData.goal_date : undefined,
+      notes: formData.notes.trim() || undefined
+    })
+  }
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-[500px] shadow-lg rounded-md bg-white">
+        <div className="mt-3">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">Open Customer Account</h3>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {!memberId && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Member</label>
+                <select
+                  required
+                  value={formData.member_id}
+                  onChange={(e) => setFormData(prev => ({ ...prev, member_id: e.target.value }))}
+                  className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+                >
+                  <option value="">Select a member</option>
+                  {members.map((member) => (
+                    <option key={member.id} value={member.id}>
+                      {member.first_name} {member.last_name} ({member.member_number})
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Account Type</label>
+              <select
+                required
+                value={formData.account_type_id}
+                onChange={(e) => setFormData(prev => ({ ...prev, account_type_id: e.target.value }))}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+              >
+                <option value="">Select an account type</option>
+                {accountTypes.map((accountType) => (
+                  <option key={accountType.id} value={accountType.id}>
+                    {accountType.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {selectedType && (
+              <div className="bg-gray-50 border border-gray-200 rounded-md p-3 space-y-2">
+                <p className="text-sm text-gray-700">
+                  <span className="font-medium">Processing fee, debited from the account once it is active and funded:</span> {formatCurrency(selectedType.processing_fee)}
+                </p>
+                {selectedType.documents_required.length > 0 ? (
+                  <div>
+                    <p className="text-sm font-medium text-gray-700 mb-1">Documents required</p>
+                    <ul className="list-disc list-inside text-sm text-gray-700">
+                      {selectedType.documents_required.map((code) => (
+                        <li key={code}>{documentKindNames.get(code) || code}</li>
+                      ))}
+                    </ul>
+                    <p className="mt-1 text-xs text-gray-500">
+                      The account stays pending until each of these has been uploaded and verified.
+                    </p>
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500">No documents required for this account type.</p>
+                )}
+              </div>
+            )}
+
+            {selectedType?.has_savings_goal && (
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Target Amount (MUR)</label>
+                  <input
+                    type="number"
+                    required
+                    min="0.01"
+                    step="0.01"
+                    value={formData.goal_amount}
+                    onChange={(e) => setFormData(prev => ({ ...prev, goal_amount: e.target.value }))}
+                    className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Target Date</label>
+                  <input
+                    type="date"
+                    required
+                    min={new Date().toISOString().slice(0, 10)}
+                    value={formData.goal_date}
+                    onChange={(e) => setFormData(prev => ({ ...prev, goal_date: e.target.value }))}
+                    className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+                  />
+                </div>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Notes</label>
+              <textarea
+                value={formData.notes}
+                onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+                rows={2}
+                maxLength={500}
+              />
+            </div>
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={!formData.member_id || !formData.account_type_id}
+                className="px-4 py-2 text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-700 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Open Account
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
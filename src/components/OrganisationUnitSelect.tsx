@@ -0,0 +1,51 @@
+import { useQuery } from '@tanstack/react-query'
+import { queryKeys } from '../lib/queryClient'
+import { organisationUnitsApi } from '../lib/dataFetching'
+import { sortUnitsAsTree } from '../utils/helpers'
+
+export function OrganisationUnitSelect({
+  value,
+  onChange,
+  emptyLabel,
+  excludeId,
+  className = 'mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500'
+}: {
+  value: string | null
+  onChange: (unitId: string | null) => void
+  emptyLabel: string
+  // A unit being edited, which cannot be placed under itself or its own sub-units
+  excludeId?: string
+  className?: string
+}) {
+  const { data } = useQuery({
+    queryKey: queryKeys.organisationUnits(),
+    queryFn: organisationUnitsApi.getOrganisationUnits,
+  })
+
+  const tree = sortUnitsAsTree(data?.organisation_units || [])
+
+  // Drop the excluded unit and everything below it
+  let excludedDepth: number | null = null
+  const options = tree.filter(({ unit, depth }) => {
+    if (excludedDepth !== null && depth > excludedDepth) return false
+    excludedDepth = unit.id === excludeId ? depth : null
+    if (excludedDepth !== null) return false
+    // Inactive units stay visible only while the record is still placed in them
+    return unit.is_active || unit.id === value
+  })
+
+  return (
+    <select
+      value={value || ''}
+      onChange={(e) => onChange(e.target.value || null)}
+      className={className}
+    >
+      <option value="">{emptyLabel}</option>
+      {options.map(({ unit, depth }) => (
+        <option key={unit.id} value={unit.id}>
+          {'\u00A0\u00A0'.repeat(depth)}{unit.name} ({unit.code})
+        </option>
+      ))}
+    </select>
+  )
+}
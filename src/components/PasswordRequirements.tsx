@@ -0,0 +1,63 @@
+import { useQuery } from '@tanstack/react-query'
+import { CheckCircle, Circle, XCircle } from 'lucide-react'
+import { passwordPolicyApi } from '../lib/dataFetching'
+import { queryKeys } from '../lib/queryClient'
+import { evaluatePasswordRules } from '../utils/validation'
+import type { PasswordValidationResult } from '../types/auth'
+
+const STRENGTH_LABELS = ['Very weak', 'Weak', 'Fair', 'Good', 'Strong']
+const STRENGTH_COLORS = ['bg-red-500', 'bg-orange-500', 'bg-yellow-500', 'bg-lime-500', 'bg-green-600']
+
+// The password policy's rules, ticked off live as the password is typed, followed by the strength
+// of the password and whatever else the full validation found
+export function PasswordRequirements({ password, validation }: { password: string; validation?: PasswordValidationResult | null }) {
+  const { data: policy } = useQuery({
+    queryKey: queryKeys.passwordPolicy(),
+    queryFn: passwordPolicyApi.getPolicy,
+  })
+
+  if (!policy) return null
+
+  const rules = evaluatePasswordRules(password, policy)
+  // Errors beyond the policy's rules, e.g. a compromised password or one containing the user's name
+  const otherErrors = validation?.errors.filter(error => !rules.some(rule => rule.error === error)) || []
+
+  return (
+    <div className="mt-2 space-y-2">
+      <ul className="space-y-1">
+        {rules.map(rule => (
+          <li key={rule.label} className={`flex items-center text-xs ${rule.met ? 'text-green-600' : 'text-gray-500'}`}>
+            {rule.met ? (
+              <CheckCircle className="h-3.5 w-3.5 mr-1.5 flex-shrink-0" />
+            ) : (
+              <Circle className="h-3.5 w-3.5 mr-1.5 flex-shrink-0" />
+            )}
+            {rule.label}
+          </li>
+        ))}
+        {password && otherErrors.map(error => (
+          <li key={error} className="flex items-center text-xs text-red-600">
+            <XCircle className="h-3.5 w-3.5 mr-1.5 flex-shrink-0" />
+            {error}
+          </li>
+        ))}
+      </ul>
+
+      {password && validation && (
+        <div>
+          <div className="flex items-center space-x-2">
+            <div className="flex flex-1 space-x-1">
+              {STRENGTH_LABELS.slice(1).map((_, index) => (
+                <div key={index} className={`h-1.5 flex-1 rounded-full ${index < validation.score ? STRENGTH_COLORS[validation.score] : 'bg-gray-200'}`} />
+              ))}
+            </div>
+            <span className="text-xs text-gray-600 w-16 text-right">{STRENGTH_LABELS[validation.score]}</span>
+          </div>
+          {validation.feedback.length > 0 && (
+            <p className="mt-1 text-xs text-gray-500">{validation.feedback.join('. ')}.</p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -16,11 +16,12 @@ export function ProtectedRoute({
   requiredPermission,
   redirectTo = '/login'
 }: ProtectedRouteProps) {
-  const { user, loading } = useAuth()
+  const { user, loading, assuranceLevel, mfaPending } = useAuth()
   const location = useLocation()
 
-  // Only show loading spinner if we're actually loading (no cached data available)
-  if (loading && !user) {
+  // Only show loading spinner if we're actually loading (no cached data available), or while the
+  // session's MFA assurance level is read
+  if ((loading && !user) || (user && !assuranceLevel)) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="text-center">
@@ -35,6 +36,11 @@ export function ProtectedRoute({
     return <Navigate to={redirectTo} state={{ from: location }} replace />
   }
 
+  // Refuse access until the session has reached the assurance level the user needs
+  if (mfaPending) {
+    return <Navigate to="/mfa" state={{ from: location }} replace />
+  }
+
   // Check if user needs to change their password
   if (user.needs_password_reset && location.pathname !== '/force-password-change') {
     return <Navigate to="/force-password-change" replace />
@@ -0,0 +1,43 @@
+import { Download, AlertCircle } from 'lucide-react'
+import { downloadFile } from '../utils/helpers'
+
+// Recovery codes as shown once, right after they were generated
+export function RecoveryCodeList({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  const handleDownload = () => {
+    downloadFile('recovery-codes.txt', new Blob([codes.join('\n') + '\n'], { type: 'text/plain' }))
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4 flex items-start">
+        <AlertCircle className="h-5 w-5 text-yellow-500 mt-0.5 mr-3 flex-shrink-0" />
+        <p className="text-sm text-yellow-800">
+          Save these recovery codes somewhere safe. Each one lets you sign in once if you lose your
+          authenticator, and they will not be shown again.
+        </p>
+      </div>
+      <ul className="grid grid-cols-2 gap-2 font-mono text-sm text-gray-900 bg-gray-50 border border-gray-200 rounded-md p-4">
+        {codes.map(code => (
+          <li key={code}>{code}</li>
+        ))}
+      </ul>
+      <div className="flex justify-end space-x-3">
+        <button
+          type="button"
+          onClick={handleDownload}
+          className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+        >
+          <Download className="h-4 w-4 mr-2" />
+          Download
+        </button>
+        <button
+          type="button"
+          onClick={onDone}
+          className="px-4 py-2 text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-700 rounded-md"
+        >
+          I have saved these codes
+        </button>
+      </div>
+    </div>
+  )
+}
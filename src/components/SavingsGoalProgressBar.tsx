@@ -0,0 +1,18 @@
+import type { SavingsGoalProgress, SavingsGoalStatus } from '../types'
+
+const barStyles: Record<SavingsGoalStatus, string> = {
+  reached: 'bg-emerald-600',
+  on_track: 'bg-green-500',
+  behind: 'bg-red-500',
+}
+
+export function SavingsGoalProgressBar({ progress, className = '' }: { progress: SavingsGoalProgress; className?: string }) {
+  return (
+    <div className={`w-full bg-gray-200 rounded-full h-2 ${className}`}>
+      <div
+        className={`h-2 rounded-full ${barStyles[progress.status]}`}
+        style={{ width: `${progress.percent}%` }}
+      />
+    </div>
+  )
+}
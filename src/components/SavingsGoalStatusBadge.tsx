@@ -0,0 +1,15 @@
+import type { SavingsGoalStatus } from '../types'
+
+const statusStyles: Record<SavingsGoalStatus, { label: string; className: string }> = {
+  reached: { label: 'Goal reached', className: 'bg-emerald-100 text-emerald-800' },
+  on_track: { label: 'On track', className: 'bg-green-100 text-green-800' },
+  behind: { label: 'Behind', className: 'bg-red-100 text-red-800' },
+}
+
+export function SavingsGoalStatusBadge({ status, className = '' }: { status: SavingsGoalStatus; className?: string }) {
+  return (
+    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${statusStyles[status].className} ${className}`}>
+      {statusStyles[status].label}
+    </span>
+  )
+}
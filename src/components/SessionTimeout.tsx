@@ -0,0 +1,141 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { Clock } from 'lucide-react'
+import { authApi } from '../lib/dataFetching'
+import { queryKeys } from '../lib/queryClient'
+import { useAuth } from '../contexts/AuthContext'
+
+// Activity in any tab of the app keeps every tab signed in
+const ACTIVITY_CHANNEL_NAME = 'session-activity'
+const ACTIVITY_EVENTS = ['mousedown', 'keydown', 'scroll', 'touchstart'] as const
+// Activity is shared with other tabs at most this often
+const ACTIVITY_BROADCAST_INTERVAL_MS = 5000
+
+const formatCountdown = (ms: number) => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000))
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`
+}
+
+// Signs the user out after the configured time without activity, warning them with a countdown
+// first, and once the session reaches its maximum age however active they are
+export function SessionTimeout() {
+  const { user, signOut, expireSession } = useAuth()
+  const [now, setNow] = useState(() => Date.now())
+  const [sessionStartedAt, setSessionStartedAt] = useState<number | null>(null)
+  const lastActivity = useRef(Date.now())
+  const lastBroadcast = useRef(0)
+  const activityChannel = useRef<BroadcastChannel | null>(null)
+
+  const { data: limits } = useQuery({
+    queryKey: queryKeys.sessionLimits(),
+    queryFn: authApi.getSessionLimits,
+    enabled: !!user,
+    staleTime: Infinity,
+  })
+
+  const userId = user?.id
+  useEffect(() => {
+    if (!userId) return
+    lastActivity.current = Date.now()
+    authApi.getSessionStartedAt().then(setSessionStartedAt)
+  }, [userId])
+
+  const idleDeadline = limits ? lastActivity.current + limits.idle_timeout_minutes * 60 * 1000 : null
+  const sessionDeadline = limits && sessionStartedAt ? sessionStartedAt + limits.max_session_hours * 60 * 60 * 1000 : null
+  const warningMs = limits ? limits.idle_warning_seconds * 1000 : 0
+  const idleRemaining = idleDeadline !== null ? idleDeadline - now : Infinity
+  const sessionRemaining = sessionDeadline !== null ? sessionDeadline - now : Infinity
+  const warning = idleRemaining <= warningMs || sessionRemaining <= warningMs
+
+  const recordActivity = useCallback(() => {
+    lastActivity.current = Date.now()
+    setNow(lastActivity.current)
+    if (lastActivity.current - lastBroadcast.current >= ACTIVITY_BROADCAST_INTERVAL_MS) {
+      lastBroadcast.current = lastActivity.current
+      activityChannel.current?.postMessage({ at: lastActivity.current })
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!userId || typeof BroadcastChannel === 'undefined') return
+
+    const channel = new BroadcastChannel(ACTIVITY_CHANNEL_NAME)
+    channel.onmessage = (event: MessageEvent<{ at: number }>) => {
+      lastActivity.current = Math.max(lastActivity.current, event.data.at)
+      setNow(Date.now())
+    }
+    activityChannel.current = channel
+
+    return () => {
+      channel.close()
+      activityChannel.current = null
+    }
+  }, [userId])
+
+  // Once the warning is showing, only "Stay signed in" counts as activity
+  useEffect(() => {
+    if (!userId || warning) return
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, recordActivity, { passive: true }))
+    return () => ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, recordActivity))
+  }, [userId, warning, recordActivity])
+
+  useEffect(() => {
+    if (!userId || !limits) return
+
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [userId, limits])
+
+  useEffect(() => {
+    if (!userId || !limits) return
+
+    if (sessionRemaining <= 0) {
+      expireSession(`Your session reached its maximum length of ${limits.max_session_hours} hours. Please sign in again.`)
+    } else if (idleRemaining <= 0) {
+      expireSession(`You were signed out after ${limits.idle_timeout_minutes} minutes of inactivity.`)
+    }
+  }, [userId, limits, idleRemaining, sessionRemaining, expireSession])
+
+  if (!user || !limits || !warning) return null
+
+  const sessionEnding = sessionRemaining <= idleRemaining
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-full max-w-md shadow-lg rounded-md bg-white">
+        <div className="flex items-start">
+          <Clock className="h-6 w-6 text-yellow-500 mr-3 flex-shrink-0" />
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">
+              {sessionEnding ? 'Your session is ending' : 'Are you still there?'}
+            </h3>
+            <p className="mt-2 text-sm text-gray-600">
+              {sessionEnding
+                ? `Your session reaches its maximum length and ends in ${formatCountdown(sessionRemaining)}. Save your work and sign in again.`
+                : `You will be signed out in ${formatCountdown(idleRemaining)} because you have been inactive.`}
+            </p>
+          </div>
+        </div>
+        <div className="mt-6 flex justify-end space-x-3">
+          <button
+            type="button"
+            onClick={signOut}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md"
+          >
+            Sign out
+          </button>
+          {!sessionEnding && (
+            <button
+              type="button"
+              onClick={recordActivity}
+              className="px-4 py-2 text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-700 rounded-md"
+            >
+              Stay signed in
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -13,6 +13,16 @@ import {
   Key,
   Banknote,
   Layers,
+  UserCheck,
+  Wallet,
+  FileCheck,
+  ClipboardList,
+  HandCoins,
+  Percent,
+  Coins,
+  History,
+  ClipboardCheck,
+  Network,
 } from 'lucide-react'
 
 interface NavItem {
@@ -54,6 +64,12 @@ const navigation: NavItem[] = [
     icon: Key,
     permission: { resource: 'permissions', action: 'manage' }
   },
+  {
+    name: 'Organisational Units',
+    href: '/admin/organisation-units',
+    icon: Network,
+    permission: { resource: 'organisation_units', action: 'view' }
+  },
   {
     name: 'Bank Accounts',
     href: '/admin/bank-accounts',
@@ -66,6 +82,60 @@ const navigation: NavItem[] = [
     icon: Layers,
     permission: { resource: 'account_types', action: 'manage' }
   },
+  {
+    name: 'Loan Products',
+    href: '/admin/loan-products',
+    icon: Percent,
+    permission: { resource: 'loan_products', action: 'manage' }
+  },
+  {
+    name: 'Document Kinds',
+    href: '/admin/document-kinds',
+    icon: ClipboardList,
+    permission: { resource: 'documents', action: 'manage' }
+  },
+  {
+    name: 'Audit Log',
+    href: '/admin/audit-log',
+    icon: History,
+    permission: { resource: 'audit', action: 'view' }
+  },
+  {
+    name: 'Approvals',
+    href: '/admin/approvals',
+    icon: ClipboardCheck,
+    permission: { resource: 'approvals', action: 'review' }
+  },
+  {
+    name: 'Members',
+    href: '/admin/members',
+    icon: UserCheck,
+    permission: { resource: 'members', action: 'view' }
+  },
+  {
+    name: 'Customer Accounts',
+    href: '/accounts',
+    icon: Wallet,
+    permission: { resource: 'accounts', action: 'view' }
+  },
+  {
+    name: 'Loans',
+    href: '/loans',
+    icon: HandCoins,
+    permission: { resource: 'loans', action: 'view' }
+  },
+  {
+    name: 'Dividends',
+    href: '/dividends',
+    icon: Coins,
+    permission: { resource: 'dividends', action: 'view' }
+  },
+  {
+    name: 'Document Review',
+    href: '/documents/review',
+    icon: FileCheck,
+    permission: { resource: 'documents', action: 'verify' }
+  },
   {
     name: 'Reports',
     href: '/reports',
@@ -105,7 +175,7 @@ export function Sidebar() {
   })
 
   return (
-    <aside className="bg-white w-64 min-h-screen border-r border-gray-200 fixed left-0 top-16 z-20">
+    <aside className="bg-white w-64 min-h-screen border-r border-gray-200 fixed left-0 top-16 z-20 print:hidden">
       <div className="flex flex-col h-full">
         <nav className="flex-1 px-4 py-6 space-y-1">
           {filteredNavigation.map((item) => {
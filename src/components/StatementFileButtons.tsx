@@ -0,0 +1,36 @@
+import { FileText } from 'lucide-react'
+import { accountStatementsApi, ApiError } from '../lib/dataFetching'
+import type { AccountStatementFormat } from '../types'
+
+export function StatementFileButtons({ statementId, onError }: { statementId: string; onError: (message: string) => void }) {
+  const handleOpen = async (format: AccountStatementFormat) => {
+    // Open the tab synchronously so popup blockers allow it, then point it at the signed URL
+    const viewer = window.open('', '_blank')
+    try {
+      const files = await accountStatementsApi.getStatementFiles(statementId)
+      if (viewer) {
+        viewer.opener = null
+        viewer.location.href = format === 'pdf' ? files.pdf_url : files.csv_url
+      }
+    } catch (error) {
+      viewer?.close()
+      onError(error instanceof ApiError ? error.message : 'Failed to open statement')
+    }
+  }
+
+  return (
+    <div className="flex items-center space-x-2">
+      {(['pdf', 'csv'] as const).map(format => (
+        <button
+          key={format}
+          onClick={() => handleOpen(format)}
+          className="inline-flex items-center px-2.5 py-1 border border-gray-300 text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+          title={`Download ${format.toUpperCase()}`}
+        >
+          <FileText className="h-3 w-3 mr-1" />
+          {format.toUpperCase()}
+        </button>
+      ))}
+    </div>
+  )
+}
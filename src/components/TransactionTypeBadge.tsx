@@ -0,0 +1,29 @@
+import type { JournalEntryType } from '../types'
+
+const typeStyles: Record<JournalEntryType, string> = {
+  deposit: 'bg-green-100 text-green-800',
+  withdrawal: 'bg-orange-100 text-orange-800',
+  transfer: 'bg-blue-100 text-blue-800',
+  loan_disbursement: 'bg-purple-100 text-purple-800',
+  loan_repayment: 'bg-teal-100 text-teal-800',
+  dividend: 'bg-amber-100 text-amber-800',
+  fee: 'bg-gray-100 text-gray-800',
+}
+
+const typeLabels: Record<JournalEntryType, string> = {
+  deposit: 'Deposit',
+  withdrawal: 'Withdrawal',
+  transfer: 'Transfer',
+  loan_disbursement: 'Loan disbursement',
+  loan_repayment: 'Loan repayment',
+  dividend: 'Dividend',
+  fee: 'Fee',
+}
+
+export function TransactionTypeBadge({ type, className = '' }: { type: JournalEntryType; className?: string }) {
+  return (
+    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${typeStyles[type]} ${className}`}>
+      {typeLabels[type]}
+    </span>
+  )
+}
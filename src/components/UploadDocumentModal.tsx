@@ -0,0 +1,187 @@
+import React, { useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { queryKeys } from '../lib/queryClient'
+import { documentKindsApi } from '../lib/dataFetching'
+import type { CustomerAccount, UploadMemberDocumentData } from '../types'
+
+const ACCEPTED_FILE_TYPES = 'application/pdf,image/jpeg,image/png'
+const MAX_FILE_SIZE = 5 * 1024 * 1024
+
+export function UploadDocumentModal({
+  memberId,
+  accounts = [],
+  customerAccountId,
+  documentKindCode,
+  isUploading,
+  onClose,
+  onSubmit
+}: {
+  memberId: string
+  accounts?: Pick<CustomerAccount, 'id' | 'account_number'>[]
+  customerAccountId?: string
+  documentKindCode?: string
+  isUploading?: boolean
+  onClose: () => void
+  onSubmit: (documentData: UploadMemberDocumentData) => void
+}) {
+  const [formData, setFormData] = useState({
+    document_kind_id: '',
+    customer_account_id: customerAccountId || '',
+    document_number: '',
+    issued_on: '',
+    expires_on: ''
+  })
+  const [file, setFile] = useState<File | null>(null)
+  const [fileError, setFileError] = useState<string | null>(null)
+
+  const { data: documentKindsData } = useQuery({
+    queryKey: queryKeys.documentKinds(),
+    queryFn: documentKindsApi.getDocumentKinds,
+  })
+
+  const documentKinds = (documentKindsData?.document_kinds || []).filter(kind => kind.is_active)
+
+  // Preselect the requested kind once the catalog has loaded
+  React.useEffect(() => {
+    if (!documentKindCode || formData.document_kind_id) return
+    const kind = documentKinds.find(k => k.code === documentKindCode)
+    if (kind) setFormData(prev => ({ ...prev, document_kind_id: kind.id }))
+  }, [documentKindCode, documentKinds, formData.document_kind_id])
+
+  const selectedKind = documentKinds.find(kind => kind.id === formData.document_kind_id)
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0] || null
+    if (selected && selected.size > MAX_FILE_SIZE) {
+      setFileError('File must be 5 MB or smaller')
+      setFile(null)
+      return
+    }
+    setFileError(null)
+    setFile(selected)
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!file || !formData.document_kind_id) return
+    onSubmit({
+      file,
+      member_id: memberId,
+      document_kind_id: formData.document_kind_id,
+      customer_account_id: formData.customer_account_id || undefined,
+      document_number: formData.document_number.trim() || undefined,
+      issued_on: formData.issued_on || undefined,
+      expires_on: formData.expires_on || undefined
+    })
+  }
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-[500px] shadow-lg rounded-md bg-white">
+        <div className="mt-3">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">Upload Document</h3>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Document Kind</label>
+              <select
+                required
+                value={formData.document_kind_id}
+                onChange={(e) => setFormData(prev => ({ ...prev, document_kind_id: e.target.value }))}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+              >
+                <option value="">Select a document kind</option>
+                {documentKinds.map(kind => (
+                  <option key={kind.id} value={kind.id}>{kind.name}</option>
+                ))}
+              </select>
+              {selectedKind?.description && (
+                <p className="mt-1 text-xs text-gray-500">{selectedKind.description}</p>
+              )}
+            </div>
+
+            {!customerAccountId && accounts.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Attach to</label>
+                <select
+                  value={formData.customer_account_id}
+                  onChange={(e) => setFormData(prev => ({ ...prev, customer_account_id: e.target.value }))}
+                  className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+                >
+                  <option value="">Member (all accounts)</option>
+                  {accounts.map(account => (
+                    <option key={account.id} value={account.id}>Account {account.account_number} only</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">File</label>
+              <input
+                type="file"
+                required
+                accept={ACCEPTED_FILE_TYPES}
+                onChange={handleFileChange}
+                className="mt-1 block w-full text-sm text-gray-700 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-medium file:bg-emerald-50 file:text-emerald-700 hover:file:bg-emerald-100"
+              />
+              <p className="mt-1 text-xs text-gray-500">PDF, JPEG or PNG, up to 5 MB.</p>
+              {fileError && <p className="mt-1 text-xs text-red-600">{fileError}</p>}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Document Number</label>
+              <input
+                type="text"
+                value={formData.document_number}
+                onChange={(e) => setFormData(prev => ({ ...prev, document_number: e.target.value }))}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+                maxLength={50}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Issued On</label>
+                <input
+                  type="date"
+                  value={formData.issued_on}
+                  onChange={(e) => setFormData(prev => ({ ...prev, issued_on: e.target.value }))}
+                  className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Expires On{selectedKind?.requires_expiry ? ' *' : ''}
+                </label>
+                <input
+                  type="date"
+                  required={selectedKind?.requires_expiry}
+                  value={formData.expires_on}
+                  onChange={(e) => setFormData(prev => ({ ...prev, expires_on: e.target.value }))}
+                  className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isUploading || !file || !formData.document_kind_id}
+                className="px-4 py-2 text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-700 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isUploading ? 'Uploading...' : 'Upload'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
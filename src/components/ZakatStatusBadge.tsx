@@ -0,0 +1,34 @@
+import { addDays } from '../utils/helpers'
+import type { ZakatAssessment } from '../types'
+
+export function ZakatStatusBadge({
+  assessment,
+  hawlDays,
+  className = ''
+}: {
+  assessment: ZakatAssessment
+  hawlDays: number
+  className?: string
+}) {
+  if (assessment.hawl_complete) {
+    return (
+      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-emerald-100 text-emerald-800 ${className}`}>
+        Zakat due
+      </span>
+    )
+  }
+
+  if (assessment.hawl_start) {
+    return (
+      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800 ${className}`}>
+        Hawl completes {new Date(addDays(assessment.hawl_start, hawlDays)).toLocaleDateString()}
+      </span>
+    )
+  }
+
+  return (
+    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800 ${className}`}>
+      Below nisab
+    </span>
+  )
+}
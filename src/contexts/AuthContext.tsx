@@ -1,9 +1,10 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react'
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback, ReactNode } from 'react'
 import { supabase } from '../lib/supabase'
-import { authApi, userProfileApi } from '../lib/dataFetching'
-import { queryClient, queryKeys } from '../lib/queryClient'
-import { clearPermissionCache } from '../utils/permissions'
+import { authApi, impersonationApi, mfaApi, userProfileApi } from '../lib/dataFetching'
+import { blockMutations, queryClient, queryKeys } from '../lib/queryClient'
+import { clearPermissionCache, hasPermission } from '../utils/permissions'
 import { withTimeout, deepEqual } from '../utils/helpers'
+import type { AssuranceLevelState, Impersonation } from '../types/auth'
 
 const USER_PROFILE_CACHE_KEY = 'user_profile_cache'
 
@@ -30,15 +31,53 @@ const clearUserFromCache = () => {
   } catch {}
 }
 
+// Signing out in one tab signs out every other tab of the app
+const AUTH_CHANNEL_NAME = 'auth'
+
+interface SignedOutBroadcast {
+  type: 'signed-out'
+  // Shown on the sign-in page, e.g. why the session expired
+  message: string | null
+}
+
+// Tabs share the session, so starting or stopping a view as another user applies to all of them
+interface ImpersonationBroadcast {
+  type: 'impersonation-changed'
+}
+
+const IMPERSONATION_BLOCKED_MESSAGE = 'Changes cannot be made while viewing the app as another user'
+
+// Everything kept for the signed-in user: the profile in localStorage, their permissions and every query
+const clearSessionData = () => {
+  blockMutations(null)
+  queryClient.clear()
+  clearUserFromCache()
+  clearPermissionCache()
+}
+
 interface AuthContextType {
+  // The signed-in user's profile, or while viewing the app as another user, theirs
   user: any | null
+  // The other user being viewed as, read-only; null normally
+  impersonation: Impersonation | null
   loading: boolean
   error: string | null
+  // Authenticator assurance level of the session; null until it has been read
+  assuranceLevel: AssuranceLevelState | null
+  // The user must still verify a second factor, or enrol one because a role requires it
+  mfaPending: boolean
   signIn: (email: string, password: string) => Promise<void>
   signOut: () => Promise<void>
+  // Signs this session out after inactivity or at its maximum age, with the reason shown on the sign-in page
+  expireSession: (message: string) => Promise<void>
   refreshUser: () => Promise<void>
   changePassword: (newPassword: string, clearNeedsPasswordReset?: boolean) => Promise<void>
   sendPasswordResetEmail: (email: string) => Promise<void>
+  refreshAssuranceLevel: () => Promise<void>
+  verifyMfa: (code: string) => Promise<void>
+  redeemRecoveryCode: (code: string) => Promise<void>
+  startImpersonation: (userId: string, reason?: string) => Promise<void>
+  stopImpersonation: () => Promise<void>
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined)
@@ -51,11 +90,24 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
   const [user, setUser] = useState<any | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [assuranceLevel, setAssuranceLevel] = useState<AssuranceLevelState | null>(null)
+  const [impersonation, setImpersonation] = useState<Impersonation | null>(null)
+
+  const authChannel = useRef<BroadcastChannel | null>(null)
+  const impersonationId = useRef<string | null>(null)
 
   const fetchUserProfile = async (userId: string) => {
     return await userProfileApi.fetchUserProfile(userId)
   }
 
+  const refreshAssuranceLevel = async () => {
+    try {
+      setAssuranceLevel(await mfaApi.getAssuranceLevel())
+    } catch {
+      setAssuranceLevel({ current: null, next: null })
+    }
+  }
+
   useEffect(() => {
     const init = async () => {
       const cachedUser = getUserFromCache()
@@ -75,8 +127,9 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
           clearUserFromCache()
           await supabase.auth.signOut()
           setLoading(false)
-        } else if (!cachedUser) {
-          setLoading(false)
+        } else {
+          await refreshAssuranceLevel()
+          if (!cachedUser) setLoading(false)
         }
       } catch {
         setUser(null)
@@ -110,6 +163,8 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
             return
           }
 
+          await refreshAssuranceLevel()
+
           if (!deepEqual(user, freshProfile)) {
             setUser(freshProfile)
             saveUserToCache(freshProfile)
@@ -117,6 +172,7 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
           }
         } else {
           setUser(null)
+          setAssuranceLevel(null)
           clearUserFromCache()
           if (user?.id) {
             queryClient.removeQueries({ queryKey: queryKeys.userProfile(user.id) })
@@ -137,13 +193,81 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     return () => subscription.subscription.unsubscribe()
   }, [])
 
+  // Swaps the profile the app is shown with and drops data loaded with the other profile's
+  // permissions; the edge functions refuse changes for the whole view, and so does every mutation
+  const applyImpersonation = useCallback((next: Impersonation | null) => {
+    if ((next?.id ?? null) === impersonationId.current) return
+    impersonationId.current = next?.id ?? null
+    blockMutations(next ? IMPERSONATION_BLOCKED_MESSAGE : null)
+    clearPermissionCache()
+    queryClient.removeQueries({ predicate: query => query.queryKey[0] !== 'userProfile' })
+    setImpersonation(next)
+  }, [])
+
+  useEffect(() => {
+    if (typeof BroadcastChannel === 'undefined') return
+
+    const channel = new BroadcastChannel(AUTH_CHANNEL_NAME)
+    channel.onmessage = (event: MessageEvent<SignedOutBroadcast | ImpersonationBroadcast>) => {
+      if (event.data?.type === 'impersonation-changed') {
+        impersonationApi.getCurrent().then(applyImpersonation).catch(() => {})
+        return
+      }
+      if (event.data?.type !== 'signed-out') return
+      clearSessionData()
+      setUser(null)
+      setAssuranceLevel(null)
+      setError(event.data.message)
+      // The tab that signed out has already ended the session; this only forgets it locally
+      supabase.auth.signOut({ scope: 'local' }).catch(() => {})
+    }
+    authChannel.current = channel
+
+    return () => {
+      channel.close()
+      authChannel.current = null
+    }
+  }, [applyImpersonation])
+
+  // Signs this browser out as soon as the user is deactivated or their sessions are revoked,
+  // rather than when the access token next fails to refresh. Any change to the user's row is a
+  // cue to ask Supabase Auth whether this session still exists.
+  const userId = user?.id
+  useEffect(() => {
+    if (!userId) return
+
+    const channel = supabase
+      .channel(`user-sessions-${userId}`)
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'users', filter: `id=eq.${userId}` }, async (payload) => {
+        const { error } = payload.new.is_active ? await supabase.auth.getUser() : { error: true }
+        if (error) {
+          clearSessionData()
+          await supabase.auth.signOut({ scope: 'local' })
+        }
+      })
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [userId])
+
+  // A reloaded page picks up the view the session was left in
+  const canImpersonate = hasPermission(user, 'users', 'impersonate')
+  useEffect(() => {
+    if (!userId || !canImpersonate) {
+      applyImpersonation(null)
+      return
+    }
+    impersonationApi.getCurrent().then(applyImpersonation).catch(() => {})
+  }, [userId, canImpersonate, applyImpersonation])
+
   const signIn = async (email: string, password: string) => {
     setLoading(true)
     setError(null)
 
     try {
-      const { data, error } = await supabase.auth.signInWithPassword({ email, password })
-      if (error) throw error
+      const data = await authApi.signIn(email, password)
 
       if (data.user) {
         const profile = await withTimeout(
@@ -157,6 +281,7 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
           throw new Error('Account is inactive')
         }
 
+        await refreshAssuranceLevel()
         setUser(profile)
         clearPermissionCache()
         saveUserToCache(profile)
@@ -170,15 +295,27 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
   }
 
   const signOut = async () => {
-    if (user?.id) queryClient.removeQueries({ queryKey: queryKeys.userProfile(user.id) })
-    clearUserFromCache()
+    // Recorded as the end of the view in the audit log
+    if (impersonation) await impersonationApi.stop().catch(() => {})
+    clearSessionData()
     setUser(null)
+    setAssuranceLevel(null)
     setError(null)
+    authChannel.current?.postMessage({ type: 'signed-out', message: null } satisfies SignedOutBroadcast)
     try {
       await supabase.auth.signOut()
     } catch {}
   }
 
+  const expireSession = async (message: string) => {
+    clearSessionData()
+    setUser(null)
+    setAssuranceLevel(null)
+    setError(message)
+    authChannel.current?.postMessage({ type: 'signed-out', message } satisfies SignedOutBroadcast)
+    await supabase.auth.signOut({ scope: 'local' }).catch(() => {})
+  }
+
   const changePassword = async (newPassword: string, clearNeedsPasswordReset: boolean = false) => {
     setLoading(true)
     setError(null)
@@ -248,16 +385,59 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     }
   }
 
+  // Completes sign-in with a code from the user's authenticator app
+  const verifyMfa = async (code: string) => {
+    const factor = await mfaApi.getVerifiedFactor()
+    if (!factor) throw new Error('No authenticator is set up for this account')
+
+    await mfaApi.verify(factor.id, code)
+    await refreshAssuranceLevel()
+  }
+
+  // Signs in with a recovery code instead; the user's authenticators are removed, so the session
+  // is refreshed to drop them before the assurance level is read again
+  const redeemRecoveryCode = async (code: string) => {
+    await mfaApi.redeemRecoveryCode(code)
+    await supabase.auth.refreshSession()
+    await refreshAssuranceLevel()
+  }
+
+  const startImpersonation = async (userId: string, reason?: string) => {
+    applyImpersonation(await impersonationApi.start(userId, reason))
+    authChannel.current?.postMessage({ type: 'impersonation-changed' } satisfies ImpersonationBroadcast)
+  }
+
+  const stopImpersonation = async () => {
+    try {
+      await impersonationApi.stop()
+    } finally {
+      applyImpersonation(null)
+      authChannel.current?.postMessage({ type: 'impersonation-changed' } satisfies ImpersonationBroadcast)
+    }
+  }
+
+  const mfaPending = !!user && !!assuranceLevel && assuranceLevel.current !== 'aal2' &&
+    (!!user.mfa_required || assuranceLevel.next === 'aal2')
+
   return (
     <AuthContext.Provider value={{
-      user,
+      user: impersonation?.user ?? user,
+      impersonation,
       loading,
       error,
+      assuranceLevel,
+      mfaPending,
       signIn,
       signOut,
+      expireSession,
       refreshUser,
       changePassword,
-      sendPasswordResetEmail
+      sendPasswordResetEmail,
+      refreshAssuranceLevel,
+      verifyMfa,
+      redeemRecoveryCode,
+      startImpersonation,
+      stopImpersonation
     }}>
       {children}
     </AuthContext.Provider>
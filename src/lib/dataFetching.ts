@@ -1,6 +1,7 @@
-import { supabase, getAuthHeaders } from './supabase'
-import type { User, Role, Permission, CreateUserData, UpdateUserData, CreateRoleData, UpdateRoleData, CreatePermissionData, UpdatePermissionData, PasswordValidationResult } from '../types/auth'
-import type { BankAccount, CreateBankAccountData, UpdateBankAccountData, AccountType, CreateAccountTypeData, UpdateAccountTypeData } from '../types'
+import { supabase, getAuthHeaders, getAccessToken } from './supabase'
+import type { Factor } from '@supabase/supabase-js'
+import type { User, Role, Permission, CreateUserData, UpdateUserData, CreateRoleData, UpdateRoleData, CreatePermissionData, UpdatePermissionData, PasswordValidationResult, AssuranceLevelState, MfaEnrollment, RecoveryCodeStatus, LoginSecuritySettings, PasswordPolicy, UserSession, SessionLimits, Impersonation } from '../types/auth'
+import type { BankAccount, CreateBankAccountData, UpdateBankAccountData, AccountType, CreateAccountTypeData, UpdateAccountTypeData, Member, CreateMemberData, UpdateMemberData, CustomerAccount, OpenCustomerAccountData, UpdateCustomerAccountData, JournalEntry, PostTransactionData, TransactionFilters, TransactionPage, DocumentKind, CreateDocumentKindData, UpdateDocumentKindData, MemberDocument, UploadMemberDocumentData, ReviewMemberDocumentData, MemberDocumentFilters, DocumentChecklistItem, LoanProduct, CreateLoanProductData, UpdateLoanProductData, Loan, LoanPosting, LoanApplicationData, UpdateLoanData, LoanRepaymentData, LoanFilters, DividendRun, DividendAllocation, CreateDividendRunData, UpdateDividendRunData, NisabRate, CreateNisabRateData, ZakatReport, ZakatStatement, BankStatement, BankStatementLine, BankReconciliation, BankReconciliationOverview, ImportBankStatementData, AccountStatement, AccountStatementFiles, AccountStatementFormat, GenerateAccountStatementsData, AccountStatementBatchResult, AuditLogEntry, AuditLogFilters, AuditActor, ActivityEvent, ActivityPage, DashboardStats, ChangeRequest, ChangeRequestStatus, ApprovalSetting, PendingChangeResponse, OrganisationUnit, CreateOrganisationUnitData, UpdateOrganisationUnitData } from '../types'
 
 const API_BASE_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1`
 
@@ -11,6 +12,15 @@ export class ApiError extends Error {
   }
 }
 
+// A sign-in refused because of too many failed attempts: the account or address is locked until
+// lockedUntil, or has to wait retryAfter seconds before trying again
+export class LoginThrottledError extends ApiError {
+  constructor(message: string, public lockedUntil: string | null, public retryAfter: number | null) {
+    super(429, message)
+    this.name = 'LoginThrottledError'
+  }
+}
+
 async function handleResponse(response: Response) {
   const data = await response.json()
   
@@ -22,6 +32,12 @@ async function handleResponse(response: Response) {
 }
 
 // User Profile Data Fetching
+
+// A user with the roles they hold, each with the permissions it grants
+type UserProfileRow = User & {
+  user_roles: { roles: Role & { role_permissions: { permissions: Permission }[] | null } }[] | null
+}
+
 export const userProfileApi = {
   async fetchUserProfile(userId: string): Promise<any | null> {
     try {
@@ -33,6 +49,7 @@ export const userProfileApi = {
           full_name, 
           is_active, 
           needs_password_reset,
+          password_changed_at,
           menu_access,
           sub_menu_access,
           component_access,
@@ -43,6 +60,7 @@ export const userProfileApi = {
               id, 
               name, 
               description,
+              mfa_required,
               role_permissions(
                 permissions!inner(
                   id,
@@ -55,7 +73,7 @@ export const userProfileApi = {
           )
         `)
         .eq('id', userId)
-        .single()
+        .single<UserProfileRow>()
 
       if (error) throw error
       if (!data) throw new Error('User profile not found')
@@ -72,7 +90,8 @@ export const userProfileApi = {
         ...data,
         roles,
         role_ids: roles.map(role => role.id),
-        permissions: uniquePermissions
+        permissions: uniquePermissions,
+        mfa_required: roles.some(role => role.mfa_required)
       }
     } catch (err) {
       throw err
@@ -81,31 +100,30 @@ export const userProfileApi = {
 }
 
 // Dashboard Data Fetching
+const ACTIVITY_PAGE_SIZE = 10
+
 export const dashboardApi = {
-  async getRecentActivity(): Promise<any[]> {
-    try {
-      return [
-        { id: '1', type: 'user_registered', description: 'New user registered to the system', timestamp: new Date(Date.now() - 2 * 60 * 1000).toISOString(), status: 'success' },
-        { id: '2', type: 'transaction_approved', description: 'Financial transaction approved', timestamp: new Date(Date.now() - 5 * 60 * 1000).toISOString(), status: 'info' },
-        { id: '3', type: 'report_generated', description: 'System report generated', timestamp: new Date(Date.now() - 60 * 60 * 1000).toISOString(), status: 'warning' },
-        { id: '4', type: 'user_updated', description: 'User profile updated', timestamp: new Date(Date.now() - 3 * 60 * 60 * 1000).toISOString(), status: 'info' }
-      ]
-    } catch (err) {
-      return []
-    }
+  // One page of the activity feed, newest first. RLS only returns the events the signed-in user
+  // has permission to see, of their organisational units.
+  async getRecentActivity(page = 0): Promise<ActivityPage> {
+    const from = page * ACTIVITY_PAGE_SIZE
+    const { data, error } = await supabase
+      .from('activity_events')
+      .select('id, entity_type, action, entity_id, description, actor_id, actor_name, created_at')
+      .order('created_at', { ascending: false })
+      .range(from, from + ACTIVITY_PAGE_SIZE - 1)
+
+    if (error) throw error
+
+    const events = (data || []) as ActivityEvent[]
+    return { events, nextPage: events.length === ACTIVITY_PAGE_SIZE ? page + 1 : null }
   },
 
-  async getStats(): Promise<any[]> {
-    try {
-      return [
-        { name: 'Total Users', value: '2,847', change: '+4.75%', changeType: 'positive' as const },
-        { name: 'Active Transactions', value: '₹1,31,42,000', change: '+8.2%', changeType: 'positive' as const },
-        { name: 'Monthly Growth', value: '24.1%', change: '+0.7%', changeType: 'positive' as const },
-        { name: 'Reports Generated', value: '152', change: '+4.8%', changeType: 'positive' as const }
-      ]
-    } catch (err) {
-      return []
-    }
+  // Statistics the signed-in user has permission to see, with their change over the last 30 days
+  async getStats(): Promise<DashboardStats> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/dashboard-stats`, { method: 'GET', headers })
+    return await handleResponse(response)
   }
 }
 
@@ -117,13 +135,13 @@ export const adminUsersApi = {
     return await handleResponse(response)
   },
 
-  async createUser(userData: CreateUserData): Promise<{ user: User }> {
+  async createUser(userData: CreateUserData): Promise<{ user: User } | PendingChangeResponse> {
     const headers = await getAuthHeaders()
     const response = await fetch(`${API_BASE_URL}/admin-users`, { method: 'POST', headers, body: JSON.stringify(userData) })
     return await handleResponse(response)
   },
 
-  async updateUser(userId: string, userData: UpdateUserData): Promise<{ user: User }> {
+  async updateUser(userId: string, userData: UpdateUserData): Promise<{ user: User } | PendingChangeResponse> {
     const headers = await getAuthHeaders()
     const response = await fetch(`${API_BASE_URL}/admin-users/${userId}`, { method: 'PUT', headers, body: JSON.stringify(userData) })
     return await handleResponse(response)
@@ -133,6 +151,37 @@ export const adminUsersApi = {
     const headers = await getAuthHeaders()
     const response = await fetch(`${API_BASE_URL}/admin-users/${userId}`, { method: 'DELETE', headers })
     return await handleResponse(response)
+  },
+
+  async resetMfa(userId: string): Promise<{ message: string }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/admin-users/${userId}/mfa`, { method: 'DELETE', headers })
+    return await handleResponse(response)
+  },
+
+  async revokeSessions(userId: string): Promise<{ message: string; revoked: number }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/admin-users/${userId}/sessions`, { method: 'DELETE', headers })
+    return await handleResponse(response)
+  },
+
+  async unlockUser(userId: string): Promise<{ message: string }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/admin-users/${userId}/lockout`, { method: 'DELETE', headers })
+    return await handleResponse(response)
+  },
+
+  async getLoginSecuritySettings(): Promise<LoginSecuritySettings> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/login/settings`, { method: 'GET', headers })
+    const data = await handleResponse(response)
+    return data.settings
+  },
+
+  async updateLoginSecuritySettings(settings: LoginSecuritySettings): Promise<{ settings: LoginSecuritySettings }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/login/settings`, { method: 'PUT', headers, body: JSON.stringify(settings) })
+    return await handleResponse(response)
   }
 }
 
@@ -190,6 +239,12 @@ export const adminRolesApi = {
     const headers = await getAuthHeaders()
     const response = await fetch(`${API_BASE_URL}/admin-roles/${roleId}`, { method: 'DELETE', headers })
     return await handleResponse(response)
+  },
+
+  async setMfaRequired(roleId: string, mfaRequired: boolean): Promise<{ role: Role }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/admin-roles/${roleId}/mfa`, { method: 'PUT', headers, body: JSON.stringify({ mfa_required: mfaRequired }) })
+    return await handleResponse(response)
   }
 }
 
@@ -234,11 +289,75 @@ export const passwordValidationApi = {
       throw new ApiError(response.status, errorData.message || 'Server-side validation failed')
     }
     return await handleResponse(response) as PasswordValidationResult
+  },
+
+  // Hash suffixes of compromised passwords whose SHA-1 starts with the prefix; only the prefix is sent
+  async getCompromisedSuffixes(prefix: string): Promise<string[]> {
+    const response = await fetch(`${API_BASE_URL}/validate-password/range/${prefix}`, { method: 'GET' })
+    const data = await handleResponse(response)
+    return data.suffixes
+  }
+}
+
+// Password policy API; the policy is public so it can be shown before signing in
+export const passwordPolicyApi = {
+  async getPolicy(): Promise<PasswordPolicy> {
+    const response = await fetch(`${API_BASE_URL}/password-policy`, { method: 'GET' })
+    const data = await handleResponse(response)
+    return data.policy
+  },
+
+  async updatePolicy(policy: PasswordPolicy): Promise<{ policy: PasswordPolicy }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/password-policy`, { method: 'PUT', headers, body: JSON.stringify(policy) })
+    return await handleResponse(response)
   }
 }
 
 // Auth API
 export const authApi = {
+  // Signs in through the login edge function, which throttles failed attempts, and adopts the
+  // session it answers with
+  async signIn(email: string, password: string) {
+    const response = await fetch(`${API_BASE_URL}/login`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email, password })
+    })
+
+    if (response.status === 429) {
+      const data = await response.json()
+      throw new LoginThrottledError(data.error, data.locked_until ?? null, data.retry_after ?? null)
+    }
+
+    const { access_token, refresh_token } = await handleResponse(response)
+    const { data, error } = await supabase.auth.setSession({ access_token, refresh_token })
+    if (error) throw error
+    return data
+  },
+
+  async getSessionLimits(): Promise<SessionLimits> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/login/session-limits`, { method: 'GET', headers })
+    const data = await handleResponse(response)
+    return data.limits
+  },
+
+  // When the current session signed in, from the earliest authentication method in its access
+  // token; unlike the token itself, this does not change when the session is refreshed
+  async getSessionStartedAt(): Promise<number | null> {
+    const token = await getAccessToken()
+    if (!token) return null
+
+    try {
+      const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')))
+      const timestamps = (payload.amr || []).map((entry: { timestamp: number }) => entry.timestamp).filter(Boolean)
+      return timestamps.length ? Math.min(...timestamps) * 1000 : null
+    } catch {
+      return null
+    }
+  },
+
   async updatePassword(newPassword: string, clearNeedsPasswordReset: boolean = false): Promise<{ message: string; user: any }> {
     const headers = await getAuthHeaders()
     const response = await fetch(`${API_BASE_URL}/update-password`, {
@@ -250,6 +369,104 @@ export const authApi = {
   }
 }
 
+// Multi-factor authentication API. Authenticators are managed by Supabase Auth; recovery codes by
+// the mfa edge function.
+export const mfaApi = {
+  async getAssuranceLevel(): Promise<AssuranceLevelState> {
+    const { data, error } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel()
+    if (error) throw error
+    return { current: data.currentLevel, next: data.nextLevel }
+  },
+
+  async getVerifiedFactor(): Promise<Factor | null> {
+    const { data, error } = await supabase.auth.mfa.listFactors()
+    if (error) throw error
+    return data.totp[0] || null
+  },
+
+  // Starts enrolling a TOTP authenticator, discarding any earlier enrolment that was never verified
+  async enroll(): Promise<MfaEnrollment> {
+    const { data: factorsData, error: factorsError } = await supabase.auth.mfa.listFactors()
+    if (factorsError) throw factorsError
+
+    for (const factor of factorsData.all.filter(factor => factor.status === 'unverified')) {
+      await supabase.auth.mfa.unenroll({ factorId: factor.id })
+    }
+
+    const { data, error } = await supabase.auth.mfa.enroll({ factorType: 'totp', friendlyName: `Authenticator ${new Date().toISOString()}` })
+    if (error) throw error
+    return { factorId: data.id, qrCode: data.totp.qr_code, secret: data.totp.secret }
+  },
+
+  // Verifies a code from the authenticator, which also raises the session to aal2
+  async verify(factorId: string, code: string): Promise<void> {
+    const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId, code })
+    if (error) throw error
+  },
+
+  async unenroll(factorId: string): Promise<void> {
+    const { error } = await supabase.auth.mfa.unenroll({ factorId })
+    if (error) throw error
+  },
+
+  async getRecoveryCodeStatus(): Promise<RecoveryCodeStatus> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/mfa/recovery-codes`, { method: 'GET', headers })
+    return await handleResponse(response)
+  },
+
+  async generateRecoveryCodes(): Promise<{ codes: string[] }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/mfa/recovery-codes`, { method: 'POST', headers })
+    return await handleResponse(response)
+  },
+
+  async redeemRecoveryCode(code: string): Promise<{ message: string }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/mfa/recovery-codes/redeem`, { method: 'POST', headers, body: JSON.stringify({ code }) })
+    return await handleResponse(response)
+  }
+}
+
+// Sessions API: the signed-in user's active sessions across browsers and devices
+export const sessionsApi = {
+  async getSessions(): Promise<UserSession[]> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/sessions`, { method: 'GET', headers })
+    const data = await handleResponse(response)
+    return data.sessions
+  },
+
+  async signOutOtherSessions(): Promise<{ message: string; revoked: number }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/sessions/others`, { method: 'DELETE', headers })
+    return await handleResponse(response)
+  }
+}
+
+// Viewing the app as another user, read-only
+export const impersonationApi = {
+  async getCurrent(): Promise<Impersonation | null> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/impersonation/current`, { method: 'GET', headers })
+    const data = await handleResponse(response)
+    return data.impersonation
+  },
+
+  async start(userId: string, reason?: string): Promise<Impersonation> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/impersonation`, { method: 'POST', headers, body: JSON.stringify({ user_id: userId, reason }) })
+    const data = await handleResponse(response)
+    return data.impersonation
+  },
+
+  async stop(): Promise<{ message: string }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/impersonation/current`, { method: 'DELETE', headers })
+    return await handleResponse(response)
+  }
+}
+
 // Bank Accounts API
 export const bankAccountsApi = {
   async getBankAccounts(): Promise<{ bank_accounts: BankAccount[] }> {
@@ -291,7 +508,7 @@ export const accountTypesApi = {
     return await handleResponse(response)
   },
 
-  async updateAccountType(accountTypeId: string, accountTypeData: UpdateAccountTypeData): Promise<{ account_type: AccountType }> {
+  async updateAccountType(accountTypeId: string, accountTypeData: UpdateAccountTypeData): Promise<{ account_type: AccountType } | PendingChangeResponse> {
     const headers = await getAuthHeaders()
     const response = await fetch(`${API_BASE_URL}/admin-account-types/${accountTypeId}`, { method: 'PUT', headers, body: JSON.stringify(accountTypeData) })
     return await handleResponse(response)
@@ -303,3 +520,451 @@ export const accountTypesApi = {
     return await handleResponse(response)
   }
 }
+
+// Members API
+export const membersApi = {
+  async getMembers(organisationUnitId?: string): Promise<{ members: Member[] }> {
+    const headers = await getAuthHeaders()
+    const query = organisationUnitId ? `?organisation_unit_id=${encodeURIComponent(organisationUnitId)}` : ''
+    const response = await fetch(`${API_BASE_URL}/admin-members${query}`, { method: 'GET', headers })
+    return await handleResponse(response)
+  },
+
+  async getMember(memberId: string): Promise<{ member: Member }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/admin-members/${memberId}`, { method: 'GET', headers })
+    return await handleResponse(response)
+  },
+
+  async createMember(memberData: CreateMemberData): Promise<{ member: Member }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/admin-members`, { method: 'POST', headers, body: JSON.stringify(memberData) })
+    return await handleResponse(response)
+  },
+
+  async updateMember(memberId: string, memberData: UpdateMemberData): Promise<{ member: Member }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/admin-members/${memberId}`, { method: 'PUT', headers, body: JSON.stringify(memberData) })
+    return await handleResponse(response)
+  },
+
+  async deleteMember(memberId: string): Promise<{ message: string }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/admin-members/${memberId}`, { method: 'DELETE', headers })
+    return await handleResponse(response)
+  }
+}
+
+// Customer Accounts API
+export const customerAccountsApi = {
+  async getCustomerAccounts(memberId?: string): Promise<{ customer_accounts: CustomerAccount[] }> {
+    const headers = await getAuthHeaders()
+    const query = memberId ? `?member_id=${encodeURIComponent(memberId)}` : ''
+    const response = await fetch(`${API_BASE_URL}/customer-accounts${query}`, { method: 'GET', headers })
+    return await handleResponse(response)
+  },
+
+  async getCustomerAccount(accountId: string): Promise<{ customer_account: CustomerAccount; document_checklist: DocumentChecklistItem[] }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/customer-accounts/${accountId}`, { method: 'GET', headers })
+    return await handleResponse(response)
+  },
+
+  async openCustomerAccount(accountData: OpenCustomerAccountData): Promise<{ customer_account: CustomerAccount; document_checklist: DocumentChecklistItem[] }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/customer-accounts`, { method: 'POST', headers, body: JSON.stringify(accountData) })
+    return await handleResponse(response)
+  },
+
+  async updateCustomerAccount(accountId: string, accountData: UpdateCustomerAccountData): Promise<{ customer_account: CustomerAccount; document_checklist: DocumentChecklistItem[] }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/customer-accounts/${accountId}`, { method: 'PUT', headers, body: JSON.stringify(accountData) })
+    return await handleResponse(response)
+  }
+}
+
+// Transactions API
+export const transactionsApi = {
+  // One page of transactions, newest first
+  async getTransactions(filters: TransactionFilters = {}, page = 0): Promise<TransactionPage> {
+    const headers = await getAuthHeaders()
+    const params = new URLSearchParams()
+    if (filters.customer_account_id) params.set('customer_account_id', filters.customer_account_id)
+    if (filters.entry_type) params.set('entry_type', filters.entry_type)
+    if (page > 0) params.set('page', String(page))
+    const query = params.toString() ? `?${params.toString()}` : ''
+    const response = await fetch(`${API_BASE_URL}/transactions${query}`, { method: 'GET', headers })
+    return await handleResponse(response)
+  },
+
+  async getTransaction(entryId: string): Promise<{ transaction: JournalEntry }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/transactions/${entryId}`, { method: 'GET', headers })
+    return await handleResponse(response)
+  },
+
+  async postTransaction(transactionData: PostTransactionData): Promise<{ transaction: JournalEntry }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/transactions`, { method: 'POST', headers, body: JSON.stringify(transactionData) })
+    return await handleResponse(response)
+  }
+}
+
+// Document Kinds API
+export const documentKindsApi = {
+  async getDocumentKinds(): Promise<{ document_kinds: DocumentKind[] }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/admin-document-kinds`, { method: 'GET', headers })
+    return await handleResponse(response)
+  },
+
+  async createDocumentKind(documentKindData: CreateDocumentKindData): Promise<{ document_kind: DocumentKind }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/admin-document-kinds`, { method: 'POST', headers, body: JSON.stringify(documentKindData) })
+    return await handleResponse(response)
+  },
+
+  async updateDocumentKind(documentKindId: string, documentKindData: UpdateDocumentKindData): Promise<{ document_kind: DocumentKind }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/admin-document-kinds/${documentKindId}`, { method: 'PUT', headers, body: JSON.stringify(documentKindData) })
+    return await handleResponse(response)
+  },
+
+  async deleteDocumentKind(documentKindId: string): Promise<{ message: string }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/admin-document-kinds/${documentKindId}`, { method: 'DELETE', headers })
+    return await handleResponse(response)
+  }
+}
+
+// Organisational Units API
+export const organisationUnitsApi = {
+  async getOrganisationUnits(): Promise<{ organisation_units: OrganisationUnit[] }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/admin-organisation-units`, { method: 'GET', headers })
+    return await handleResponse(response)
+  },
+
+  async createOrganisationUnit(unitData: CreateOrganisationUnitData): Promise<{ organisation_unit: OrganisationUnit }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/admin-organisation-units`, { method: 'POST', headers, body: JSON.stringify(unitData) })
+    return await handleResponse(response)
+  },
+
+  async updateOrganisationUnit(unitId: string, unitData: UpdateOrganisationUnitData): Promise<{ organisation_unit: OrganisationUnit }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/admin-organisation-units/${unitId}`, { method: 'PUT', headers, body: JSON.stringify(unitData) })
+    return await handleResponse(response)
+  },
+
+  async deleteOrganisationUnit(unitId: string): Promise<{ message: string }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/admin-organisation-units/${unitId}`, { method: 'DELETE', headers })
+    return await handleResponse(response)
+  }
+}
+
+// Member Documents API
+export const memberDocumentsApi = {
+  async getDocuments(filters: MemberDocumentFilters = {}): Promise<{ documents: MemberDocument[] }> {
+    const headers = await getAuthHeaders()
+    const params = new URLSearchParams()
+    if (filters.member_id) params.set('member_id', filters.member_id)
+    if (filters.customer_account_id) params.set('customer_account_id', filters.customer_account_id)
+    if (filters.status) params.set('status', filters.status)
+    const query = params.toString() ? `?${params.toString()}` : ''
+    const response = await fetch(`${API_BASE_URL}/member-documents${query}`, { method: 'GET', headers })
+    return await handleResponse(response)
+  },
+
+  async getDocument(documentId: string): Promise<{ document: MemberDocument; signed_url: string }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/member-documents/${documentId}`, { method: 'GET', headers })
+    return await handleResponse(response)
+  },
+
+  async uploadDocument(documentData: UploadMemberDocumentData): Promise<{ document: MemberDocument }> {
+    // Let the browser set the multipart boundary
+    const { Authorization } = await getAuthHeaders()
+    const form = new FormData()
+    Object.entries(documentData).forEach(([key, value]) => {
+      if (value) form.append(key, value)
+    })
+    const response = await fetch(`${API_BASE_URL}/member-documents`, { method: 'POST', headers: { Authorization }, body: form })
+    return await handleResponse(response)
+  },
+
+  async reviewDocument(documentId: string, reviewData: ReviewMemberDocumentData): Promise<{ document: MemberDocument }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/member-documents/${documentId}`, { method: 'PUT', headers, body: JSON.stringify(reviewData) })
+    return await handleResponse(response)
+  },
+
+  async deleteDocument(documentId: string): Promise<{ message: string }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/member-documents/${documentId}`, { method: 'DELETE', headers })
+    return await handleResponse(response)
+  }
+}
+
+// Loan Products API
+export const loanProductsApi = {
+  async getLoanProducts(): Promise<{ loan_products: LoanProduct[] }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/admin-loan-products`, { method: 'GET', headers })
+    return await handleResponse(response)
+  },
+
+  async createLoanProduct(productData: CreateLoanProductData): Promise<{ loan_product: LoanProduct }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/admin-loan-products`, { method: 'POST', headers, body: JSON.stringify(productData) })
+    return await handleResponse(response)
+  },
+
+  async updateLoanProduct(productId: string, productData: UpdateLoanProductData): Promise<{ loan_product: LoanProduct }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/admin-loan-products/${productId}`, { method: 'PUT', headers, body: JSON.stringify(productData) })
+    return await handleResponse(response)
+  },
+
+  async deleteLoanProduct(productId: string): Promise<{ message: string }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/admin-loan-products/${productId}`, { method: 'DELETE', headers })
+    return await handleResponse(response)
+  }
+}
+
+// Loans API
+export const loansApi = {
+  async getLoans(filters: LoanFilters = {}): Promise<{ loans: Loan[] }> {
+    const headers = await getAuthHeaders()
+    const params = new URLSearchParams()
+    if (filters.status) params.set('status', filters.status)
+    if (filters.member_id) params.set('member_id', filters.member_id)
+    if (filters.customer_account_id) params.set('customer_account_id', filters.customer_account_id)
+    const query = params.toString() ? `?${params.toString()}` : ''
+    const response = await fetch(`${API_BASE_URL}/loans${query}`, { method: 'GET', headers })
+    return await handleResponse(response)
+  },
+
+  async getLoan(loanId: string): Promise<{ loan: Loan; postings: LoanPosting[] }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/loans/${loanId}`, { method: 'GET', headers })
+    return await handleResponse(response)
+  },
+
+  async applyForLoan(applicationData: LoanApplicationData): Promise<{ loan: Loan }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/loans`, { method: 'POST', headers, body: JSON.stringify(applicationData) })
+    return await handleResponse(response)
+  },
+
+  async updateLoan(loanId: string, loanData: UpdateLoanData): Promise<{ loan: Loan }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/loans/${loanId}`, { method: 'PUT', headers, body: JSON.stringify(loanData) })
+    return await handleResponse(response)
+  },
+
+  async postRepayment(loanId: string, repaymentData: LoanRepaymentData): Promise<{ loan: Loan; journal_entry_id: string }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/loans/${loanId}/repayments`, { method: 'POST', headers, body: JSON.stringify(repaymentData) })
+    return await handleResponse(response)
+  },
+
+  async withdrawApplication(loanId: string): Promise<{ message: string }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/loans/${loanId}/withdraw`, { method: 'POST', headers })
+    return await handleResponse(response)
+  }
+}
+
+export const dividendRunsApi = {
+  async getDividendRuns(): Promise<{ dividend_runs: DividendRun[] }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/dividend-runs`, { method: 'GET', headers })
+    return await handleResponse(response)
+  },
+
+  async getDividendRun(runId: string): Promise<{ dividend_run: DividendRun; allocations: DividendAllocation[] }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/dividend-runs/${runId}`, { method: 'GET', headers })
+    return await handleResponse(response)
+  },
+
+  async createDividendRun(runData: CreateDividendRunData): Promise<{ dividend_run: DividendRun }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/dividend-runs`, { method: 'POST', headers, body: JSON.stringify(runData) })
+    return await handleResponse(response)
+  },
+
+  async updateDividendRun(runId: string, runData: UpdateDividendRunData): Promise<{ dividend_run: DividendRun }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/dividend-runs/${runId}`, { method: 'PUT', headers, body: JSON.stringify(runData) })
+    return await handleResponse(response)
+  },
+
+  async deleteDividendRun(runId: string): Promise<{ message: string }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/dividend-runs/${runId}`, { method: 'DELETE', headers })
+    return await handleResponse(response)
+  }
+}
+
+export const zakatApi = {
+  async getNisabRates(): Promise<{ nisab_rates: NisabRate[] }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/zakat/nisab`, { method: 'GET', headers })
+    return await handleResponse(response)
+  },
+
+  async createNisabRate(rateData: CreateNisabRateData): Promise<{ nisab_rate: NisabRate }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/zakat/nisab`, { method: 'POST', headers, body: JSON.stringify(rateData) })
+    return await handleResponse(response)
+  },
+
+  async deleteNisabRate(rateId: string): Promise<{ message: string }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/zakat/nisab/${rateId}`, { method: 'DELETE', headers })
+    return await handleResponse(response)
+  },
+
+  async getZakatReport(asOf: string): Promise<ZakatReport> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/zakat?as_of=${asOf}`, { method: 'GET', headers })
+    return await handleResponse(response)
+  },
+
+  async getZakatStatement(memberId: string, asOf: string): Promise<ZakatStatement> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/zakat/members/${memberId}?as_of=${asOf}`, { method: 'GET', headers })
+    return await handleResponse(response)
+  }
+}
+
+export const bankReconciliationApi = {
+  async getReconciliationOverview(): Promise<{ reconciliations: BankReconciliationOverview[] }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/bank-reconciliation`, { method: 'GET', headers })
+    return await handleResponse(response)
+  },
+
+  async getReconciliation(bankAccountId: string, from: string, to: string): Promise<BankReconciliation> {
+    const headers = await getAuthHeaders()
+    const params = new URLSearchParams({ from, to })
+    const response = await fetch(`${API_BASE_URL}/bank-reconciliation/${bankAccountId}?${params}`, { method: 'GET', headers })
+    return await handleResponse(response)
+  },
+
+  async importStatement(bankAccountId: string, statementData: ImportBankStatementData): Promise<{ bank_statement: BankStatement; matched_count: number }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/bank-reconciliation/${bankAccountId}/statements`, { method: 'POST', headers, body: JSON.stringify(statementData) })
+    return await handleResponse(response)
+  },
+
+  async deleteStatement(statementId: string): Promise<{ message: string }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/bank-reconciliation/statements/${statementId}`, { method: 'DELETE', headers })
+    return await handleResponse(response)
+  },
+
+  async autoMatch(bankAccountId: string): Promise<{ matched_count: number }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/bank-reconciliation/${bankAccountId}/auto-match`, { method: 'POST', headers })
+    return await handleResponse(response)
+  },
+
+  async matchStatementLine(lineId: string, journalLineId: string | null): Promise<{ statement_line: BankStatementLine }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/bank-reconciliation/lines/${lineId}`, { method: 'PUT', headers, body: JSON.stringify({ journal_line_id: journalLineId }) })
+    return await handleResponse(response)
+  }
+}
+
+// Account Statements API
+export const accountStatementsApi = {
+  async getStatements(filters: { customer_account_id?: string; month?: string } = {}): Promise<{ statements: AccountStatement[] }> {
+    const headers = await getAuthHeaders()
+    const params = new URLSearchParams(Object.entries(filters).filter(([, value]) => value) as [string, string][])
+    const response = await fetch(`${API_BASE_URL}/account-statements?${params}`, { method: 'GET', headers })
+    return await handleResponse(response)
+  },
+
+  async downloadStatement(customerAccountId: string, from: string, to: string, format: AccountStatementFormat): Promise<Blob> {
+    const headers = await getAuthHeaders()
+    const params = new URLSearchParams({ from, to, format })
+    const response = await fetch(`${API_BASE_URL}/account-statements/${customerAccountId}/download?${params}`, { method: 'GET', headers })
+
+    // Errors come back as JSON, the statement itself as a file
+    if (!response.ok) return await handleResponse(response)
+    return await response.blob()
+  },
+
+  async getStatementFiles(statementId: string): Promise<AccountStatementFiles> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/account-statements/files/${statementId}`, { method: 'GET', headers })
+    return await handleResponse(response)
+  },
+
+  async generateMonthlyStatements(batchData: GenerateAccountStatementsData): Promise<AccountStatementBatchResult> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/account-statements/batch`, { method: 'POST', headers, body: JSON.stringify(batchData) })
+    return await handleResponse(response)
+  }
+}
+
+// Audit Log API
+// Approvals API: changes held for a second person's approval
+export const approvalsApi = {
+  async getChangeRequests(status: ChangeRequestStatus = 'pending'): Promise<{ change_requests: ChangeRequest[] }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/approvals?status=${status}`, { method: 'GET', headers })
+    return await handleResponse(response)
+  },
+
+  async approve(id: string, comment?: string): Promise<{ change_request: ChangeRequest; temporary_password: string | null }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/approvals/${id}/approve`, { method: 'POST', headers, body: JSON.stringify({ comment }) })
+    return await handleResponse(response)
+  },
+
+  async reject(id: string, comment: string): Promise<{ change_request: ChangeRequest }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/approvals/${id}/reject`, { method: 'POST', headers, body: JSON.stringify({ comment }) })
+    return await handleResponse(response)
+  },
+
+  async withdraw(id: string): Promise<{ change_request: ChangeRequest }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/approvals/${id}/withdraw`, { method: 'POST', headers })
+    return await handleResponse(response)
+  },
+
+  async getSettings(): Promise<ApprovalSetting[]> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/approvals/settings`, { method: 'GET', headers })
+    const data = await handleResponse(response)
+    return data.settings
+  },
+
+  async updateSettings(settings: Pick<ApprovalSetting, 'operation' | 'requires_approval'>[]): Promise<{ settings: ApprovalSetting[] } | PendingChangeResponse> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/approvals/settings`, { method: 'PUT', headers, body: JSON.stringify({ settings }) })
+    return await handleResponse(response)
+  }
+}
+
+export const auditLogApi = {
+  async getEntries(filters: AuditLogFilters = {}): Promise<{ entries: AuditLogEntry[] }> {
+    const headers = await getAuthHeaders()
+    const params = new URLSearchParams(Object.entries(filters).filter(([, value]) => value) as [string, string][])
+    const response = await fetch(`${API_BASE_URL}/audit-log?${params}`, { method: 'GET', headers })
+    return await handleResponse(response)
+  },
+
+  async getActors(): Promise<{ actors: AuditActor[] }> {
+    const headers = await getAuthHeaders()
+    const response = await fetch(`${API_BASE_URL}/audit-log/actors`, { method: 'GET', headers })
+    return await handleResponse(response)
+  }
+}
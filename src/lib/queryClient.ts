@@ -1,6 +1,20 @@
-import { QueryClient } from '@tanstack/react-query'
+import { MutationCache, QueryClient } from '@tanstack/react-query'
+import { ApiError } from './dataFetching'
+import type { AuditLogFilters, ChangeRequestStatus } from '../types'
+
+// Set while an administrator views the app as another user: every mutation then fails with it
+let mutationsBlockedMessage: string | null = null
+
+export const blockMutations = (message: string | null) => {
+  mutationsBlockedMessage = message
+}
 
 export const queryClient = new QueryClient({
+  mutationCache: new MutationCache({
+    onMutate: () => {
+      if (mutationsBlockedMessage) throw new ApiError(403, mutationsBlockedMessage)
+    },
+  }),
   defaultOptions: {
     queries: {
       // Data is considered fresh for 2 minutes (faster refresh)
@@ -46,7 +60,47 @@ export const queryKeys = {
   adminPermissions: () => ['admin', 'permissions'] as const,
   bankAccounts: () => ['admin', 'bankAccounts'] as const,
   accountTypes: () => ['admin', 'accountTypes'] as const,
+  members: () => ['admin', 'members'] as const,
+  membersInUnit: (unitId: string) => ['admin', 'members', 'unit', unitId] as const,
+  member: (memberId: string) => ['admin', 'members', memberId] as const,
+  customerAccounts: () => ['customerAccounts'] as const,
+  memberAccounts: (memberId: string) => ['customerAccounts', 'member', memberId] as const,
+  customerAccount: (accountId: string) => ['customerAccounts', accountId] as const,
+  documentKinds: () => ['admin', 'documentKinds'] as const,
+  organisationUnits: () => ['admin', 'organisationUnits'] as const,
+  memberDocuments: () => ['memberDocuments'] as const,
+  memberDocumentsFor: (memberId: string) => ['memberDocuments', 'member', memberId] as const,
+  documentReviewQueue: () => ['memberDocuments', 'queue'] as const,
+  verifiedDocuments: () => ['memberDocuments', 'verified'] as const,
+  transactions: () => ['transactions'] as const,
+  // Every transaction when no entry type is given
+  transactionHistory: (entryType: string) => ['transactions', 'history', entryType] as const,
+  accountTransactions: (accountId: string) => ['transactions', 'account', accountId] as const,
+  loanProducts: () => ['admin', 'loanProducts'] as const,
+  loans: () => ['loans'] as const,
+  memberLoans: (memberId: string) => ['loans', 'member', memberId] as const,
+  loan: (loanId: string) => ['loans', loanId] as const,
+  dividendRuns: () => ['dividendRuns'] as const,
+  dividendRun: (runId: string) => ['dividendRuns', runId] as const,
+  nisabRates: () => ['zakat', 'nisab'] as const,
+  zakatReport: (asOf: string) => ['zakat', 'report', asOf] as const,
+  zakatStatement: (memberId: string, asOf: string) => ['zakat', 'statement', memberId, asOf] as const,
+  bankReconciliations: () => ['bankReconciliation'] as const,
+  bankReconciliation: (bankAccountId: string, from: string, to: string) => ['bankReconciliation', bankAccountId, from, to] as const,
+  accountStatements: (customerAccountId: string) => ['accountStatements', 'account', customerAccountId] as const,
+  monthlyStatements: (month: string) => ['accountStatements', 'month', month] as const,
+  auditLog: (filters: AuditLogFilters) => ['auditLog', filters] as const,
+  auditActors: () => ['auditLog', 'actors'] as const,
+  changeRequests: (status: ChangeRequestStatus) => ['approvals', status] as const,
+  approvalSettings: () => ['approvals', 'settings'] as const,
+  loginSecuritySettings: () => ['admin', 'loginSecuritySettings'] as const,
+  passwordPolicy: () => ['passwordPolicy'] as const,
+  compromisedPasswordRange: (prefix: string) => ['passwordPolicy', 'compromised', prefix] as const,
   
   // Auth queries
   currentUser: () => ['auth', 'currentUser'] as const,
+  mfaFactor: () => ['auth', 'mfa', 'factor'] as const,
+  mfaRecoveryCodes: () => ['auth', 'mfa', 'recoveryCodes'] as const,
+  userSessions: () => ['auth', 'sessions'] as const,
+  sessionLimits: () => ['auth', 'sessionLimits'] as const,
 } as const
\ No newline at end of file
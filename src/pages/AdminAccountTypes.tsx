@@ -1,10 +1,11 @@
 import React, { useState } from 'react'
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { queryKeys } from '../lib/queryClient'
-import { Plus, Search, Edit, Trash2, Layers, CheckCircle, XCircle, DollarSign, Percent } from 'lucide-react'
+import { Plus, Search, Edit, Trash2, Layers, CheckCircle, XCircle, DollarSign } from 'lucide-react'
 import { FileText } from 'lucide-react'
-import { accountTypesApi, bankAccountsApi, ApiError } from '../lib/dataFetching'
-import type { AccountType, CreateAccountTypeData, UpdateAccountTypeData, BankAccount } from '../types'
+import { accountTypesApi, bankAccountsApi, documentKindsApi, ApiError } from '../lib/dataFetching'
+import { DocumentKindPicker } from '../components/DocumentKindPicker'
+import type { AccountType, CreateAccountTypeData, UpdateAccountTypeData, BankAccount, DocumentKind } from '../types'
 
 export function AdminAccountTypes() {
   const queryClient = useQueryClient()
@@ -38,6 +39,11 @@ export function AdminAccountTypes() {
     queryFn: bankAccountsApi.getBankAccounts,
   })
 
+  const { data: documentKindsData } = useQuery({
+    queryKey: queryKeys.documentKinds(),
+    queryFn: documentKindsApi.getDocumentKinds,
+  })
+
   // Mutations for account type operations
   const createAccountTypeMutation = useMutation({
     mutationFn: accountTypesApi.createAccountType,
@@ -56,8 +62,8 @@ export function AdminAccountTypes() {
   const updateAccountTypeMutation = useMutation({
     mutationFn: ({ accountTypeId, accountTypeData }: { accountTypeId: string; accountTypeData: UpdateAccountTypeData }) =>
       accountTypesApi.updateAccountType(accountTypeId, accountTypeData),
-    onSuccess: () => {
-      setSuccess('Account type updated successfully')
+    onSuccess: (data) => {
+      setSuccess('change_request' in data ? 'The new processing fee is waiting for approval by another administrator' : 'Account type updated successfully')
       setError(null)
       setShowEditModal(false)
       setSelectedAccountType(null)
@@ -98,6 +104,8 @@ export function AdminAccountTypes() {
 
   const accountTypes = accountTypesData?.account_types || []
   const bankAccounts = bankAccountsData?.bank_accounts || []
+  const documentKinds = documentKindsData?.document_kinds || []
+  const documentKindNames = new Map(documentKinds.map(kind => [kind.code, kind.name]))
   const loading = accountTypesLoading || createAccountTypeMutation.isPending || updateAccountTypeMutation.isPending || deleteAccountTypeMutation.isPending
 
   const filteredAccountTypes = accountTypes.filter(accountType =>
@@ -213,6 +221,16 @@ export function AdminAccountTypes() {
                                 Loan Eligible
                               </span>
                             )}
+                            {accountType.is_dividend_eligible && (
+                              <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+                                Dividend Eligible
+                              </span>
+                            )}
+                            {accountType.has_savings_goal && (
+                              <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-teal-100 text-teal-800">
+                                Savings Goal
+                              </span>
+                            )}
                           </div>
                         </div>
                         <div className="text-sm text-gray-500 mt-1">
@@ -226,10 +244,6 @@ export function AdminAccountTypes() {
                             <DollarSign className="h-4 w-4 text-gray-400 mr-1" />
                             <span className="font-medium">Processing Fee:</span> MUR {accountType.processing_fee}
                           </div>
-                          <div className="flex items-center">
-                            <Percent className="h-4 w-4 text-gray-400 mr-1" />
-                            <span className="font-medium">Dividend Rate:</span> {accountType.dividend_rate}%
-                          </div>
                           <div className="col-span-2">
                             <div className="flex items-start">
                               <FileText className="h-4 w-4 text-gray-400 mr-1 mt-0.5" />
@@ -237,12 +251,12 @@ export function AdminAccountTypes() {
                                 <span className="font-medium">Required Documents:</span>
                                 {accountType.documents_required && accountType.documents_required.length > 0 ? (
                                   <div className="flex flex-wrap gap-1 mt-1">
-                                    {accountType.documents_required.map((doc, index) => (
+                                    {accountType.documents_required.map((code) => (
                                       <span
-                                        key={index}
+                                        key={code}
                                         className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-800"
                                       >
-                                        {doc}
+                                        {documentKindNames.get(code) || code}
                                       </span>
                                     ))}
                                   </div>
@@ -286,6 +300,7 @@ export function AdminAccountTypes() {
       {showCreateModal && (
         <CreateAccountTypeModal
           bankAccounts={bankAccounts}
+          documentKinds={documentKinds}
           onClose={() => setShowCreateModal(false)}
           onSubmit={handleCreateAccountType}
         />
@@ -294,6 +309,7 @@ export function AdminAccountTypes() {
         <EditAccountTypeModal
           accountType={selectedAccountType}
           bankAccounts={bankAccounts}
+          documentKinds={documentKinds}
           onClose={() => {
             setShowEditModal(false)
             setSelectedAccountType(null)
@@ -308,10 +324,12 @@ export function AdminAccountTypes() {
 // Create Account Type Modal Component
 function CreateAccountTypeModal({ 
   bankAccounts,
+  documentKinds,
   onClose, 
   onSubmit 
 }: { 
   bankAccounts: BankAccount[]
+  documentKinds: DocumentKind[]
   onClose: () => void
   onSubmit: (accountTypeData: CreateAccountTypeData) => void
 }) {
@@ -322,9 +340,10 @@ function CreateAccountTypeModal({
     processing_fee: 0,
     is_member_account: false,
     can_take_loan: false,
-    dividend_rate: 0,
+    is_dividend_eligible: false,
+    has_savings_goal: false,
     is_active: true,
-    documents_required_text: ''
+    documents_required: [] as string[]
   })
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -332,13 +351,7 @@ function CreateAccountTypeModal({
     if (!formData.name.trim() || !formData.bank_account_id) {
       return
     }
-    
-    // Parse documents from comma-separated text
-    const documentsArray = formData.documents_required_text
-      .split(',')
-      .map(doc => doc.trim())
-      .filter(doc => doc.length > 0)
-    
+
     onSubmit({
       name: formData.name.trim(),
       description: formData.description.trim() || undefined,
@@ -346,9 +359,10 @@ function CreateAccountTypeModal({
       processing_fee: formData.processing_fee,
       is_member_account: formData.is_member_account,
       can_take_loan: formData.can_take_loan,
-      dividend_rate: formData.dividend_rate,
+      is_dividend_eligible: formData.is_dividend_eligible,
+      has_savings_goal: formData.has_savings_goal,
       is_active: formData.is_active,
-      documents_required: documentsArray
+      documents_required: formData.documents_required
     })
   }
 
@@ -414,33 +428,19 @@ function CreateAccountTypeModal({
                 />
               </div>
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700">Dividend Rate (%)</label>
-                <input
-                  type="number"
-                  min="0"
-                  max="100"
-                  step="0.01"
-                  value={formData.dividend_rate}
-                  onChange={(e) => setFormData(prev => ({ ...prev, dividend_rate: parseFloat(e.target.value) || 0 }))}
-                  className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
-                  placeholder="0.00"
-                />
-              </div>
             </div>
 
             <div>
               <label className="block text-sm font-medium text-gray-700">Required Documents</label>
-              <textarea
-                value={formData.documents_required_text}
-                onChange={(e) => setFormData(prev => ({ ...prev, documents_required_text: e.target.value }))}
-                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
-                rows={3}
-                placeholder="Enter required documents separated by commas (e.g., ID Card, Birth Certificate, Proof of Address)"
-                maxLength={500}
-              />
+              <div className="mt-1">
+                <DocumentKindPicker
+                  documentKinds={documentKinds}
+                  selected={formData.documents_required}
+                  onChange={(codes) => setFormData(prev => ({ ...prev, documents_required: codes }))}
+                />
+              </div>
               <p className="text-xs text-gray-500 mt-1">
-                Separate multiple documents with commas. These will be required when opening this account type.
+                Each selected document must be uploaded and verified before an account of this type can be activated.
               </p>
             </div>
 
@@ -473,6 +473,34 @@ function CreateAccountTypeModal({
                 </label>
               </div>
 
+              <div className="flex items-center">
+                <input
+                  type="checkbox"
+                  id="is_dividend_eligible"
+                  checked={formData.is_dividend_eligible}
+                  onChange={(e) => setFormData(prev => ({ ...prev, is_dividend_eligible: e.target.checked }))}
+                  className="rounded border-gray-300 text-emerald-600 focus:ring-emerald-500"
+                />
+                <label htmlFor="is_dividend_eligible" className="ml-2 text-sm text-gray-700">
+                  <span className="font-medium">Dividend Eligible</span>
+                  <span className="text-gray-500 block">Accounts share in profit distribution runs</span>
+                </label>
+              </div>
+
+              <div className="flex items-center">
+                <input
+                  type="checkbox"
+                  id="has_savings_goal"
+                  checked={formData.has_savings_goal}
+                  onChange={(e) => setFormData(prev => ({ ...prev, has_savings_goal: e.target.checked }))}
+                  className="rounded border-gray-300 text-emerald-600 focus:ring-emerald-500"
+                />
+                <label htmlFor="has_savings_goal" className="ml-2 text-sm text-gray-700">
+                  <span className="font-medium">Savings Goal</span>
+                  <span className="text-gray-500 block">Accounts save towards a target amount and date, e.g. for Hajj</span>
+                </label>
+              </div>
+
               <div className="flex items-center">
                 <input
                   type="checkbox"
@@ -515,11 +543,13 @@ function CreateAccountTypeModal({
 function EditAccountTypeModal({ 
   accountType,
   bankAccounts,
+  documentKinds,
   onClose, 
   onSubmit 
 }: { 
   accountType: AccountType
   bankAccounts: BankAccount[]
+  documentKinds: DocumentKind[]
   onClose: () => void
   onSubmit: (accountTypeData: UpdateAccountTypeData) => void
 }) {
@@ -530,9 +560,10 @@ function EditAccountTypeModal({
     processing_fee: accountType.processing_fee,
     is_member_account: accountType.is_member_account,
     can_take_loan: accountType.can_take_loan,
-    dividend_rate: accountType.dividend_rate,
+    is_dividend_eligible: accountType.is_dividend_eligible,
+    has_savings_goal: accountType.has_savings_goal,
     is_active: accountType.is_active,
-    documents_required_text: (accountType.documents_required || []).join(', ')
+    documents_required: accountType.documents_required || []
   })
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -540,13 +571,7 @@ function EditAccountTypeModal({
     if (!formData.name.trim() || !formData.bank_account_id) {
       return
     }
-    
-    // Parse documents from comma-separated text
-    const documentsArray = formData.documents_required_text
-      .split(',')
-      .map(doc => doc.trim())
-      .filter(doc => doc.length > 0)
-    
+
     onSubmit({
       name: formData.name.trim(),
       description: formData.description.trim() || undefined,
@@ -554,9 +579,10 @@ function EditAccountTypeModal({
       processing_fee: formData.processing_fee,
       is_member_account: formData.is_member_account,
       can_take_loan: formData.can_take_loan,
-      dividend_rate: formData.dividend_rate,
+      is_dividend_eligible: formData.is_dividend_eligible,
+      has_savings_goal: formData.has_savings_goal,
       is_active: formData.is_active,
-      documents_required: documentsArray
+      documents_required: formData.documents_required
     })
   }
 
@@ -619,32 +645,19 @@ function EditAccountTypeModal({
                 />
               </div>
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700">Dividend Rate (%)</label>
-                <input
-                  type="number"
-                  min="0"
-                  max="100"
-                  step="0.01"
-                  value={formData.dividend_rate}
-                  onChange={(e) => setFormData(prev => ({ ...prev, dividend_rate: parseFloat(e.target.value) || 0 }))}
-                  className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
-                />
-              </div>
             </div>
 
             <div>
               <label className="block text-sm font-medium text-gray-700">Required Documents</label>
-              <textarea
-                value={formData.documents_required_text}
-                onChange={(e) => setFormData(prev => ({ ...prev, documents_required_text: e.target.value }))}
-                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
-                rows={3}
-                maxLength={500}
-                placeholder="Enter required documents separated by commas"
-              />
+              <div className="mt-1">
+                <DocumentKindPicker
+                  documentKinds={documentKinds}
+                  selected={formData.documents_required}
+                  onChange={(codes) => setFormData(prev => ({ ...prev, documents_required: codes }))}
+                />
+              </div>
               <p className="text-xs text-gray-500 mt-1">
-                Separate multiple documents with commas. These will be required when opening this account type.
+                Each selected document must be uploaded and verified before an account of this type can be activated.
               </p>
             </div>
 
@@ -677,6 +690,34 @@ function EditAccountTypeModal({
                 </label>
               </div>
 
+              <div className="flex items-center">
+                <input
+                  type="checkbox"
+                  id="edit_is_dividend_eligible"
+                  checked={formData.is_dividend_eligible}
+                  onChange={(e) => setFormData(prev => ({ ...prev, is_dividend_eligible: e.target.checked }))}
+                  className="rounded border-gray-300 text-emerald-600 focus:ring-emerald-500"
+                />
+                <label htmlFor="edit_is_dividend_eligible" className="ml-2 text-sm text-gray-700">
+                  <span className="font-medium">Dividend Eligible</span>
+                  <span className="text-gray-500 block">Accounts share in profit distribution runs</span>
+                </label>
+              </div>
+
+              <div className="flex items-center">
+                <input
+                  type="checkbox"
+                  id="edit_has_savings_goal"
+                  checked={formData.has_savings_goal}
+                  onChange={(e) => setFormData(prev => ({ ...prev, has_savings_goal: e.target.checked }))}
+                  className="rounded border-gray-300 text-emerald-600 focus:ring-emerald-500"
+                />
+                <label htmlFor="edit_has_savings_goal" className="ml-2 text-sm text-gray-700">
+                  <span className="font-medium">Savings Goal</span>
+                  <span className="text-gray-500 block">Accounts save towards a target amount and date, e.g. for Hajj</span>
+                </label>
+              </div>
+
               <div className="flex items-center">
                 <input
                   type="checkbox"
@@ -0,0 +1,311 @@
+import { useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { queryKeys } from '../lib/queryClient'
+import { History, Download, ChevronDown, ChevronRight } from 'lucide-react'
+import { auditLogApi, ApiError } from '../lib/dataFetching'
+import { addDays, downloadCsv } from '../utils/helpers'
+import type { AuditAction, AuditLogEntry, AuditLogFilters } from '../types'
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'Created',
+  update: 'Updated',
+  delete: 'Deleted',
+  login: 'Signed in',
+  login_failed: 'Failed sign-in',
+  password_change: 'Changed password',
+  impersonate_start: 'Started viewing as',
+  impersonate_stop: 'Stopped viewing as',
+}
+
+const ACTION_COLORS: Record<AuditAction, string> = {
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  delete: 'bg-red-100 text-red-800',
+  login: 'bg-gray-100 text-gray-800',
+  login_failed: 'bg-red-100 text-red-800',
+  password_change: 'bg-yellow-100 text-yellow-800',
+  impersonate_start: 'bg-amber-100 text-amber-800',
+  impersonate_stop: 'bg-amber-100 text-amber-800',
+}
+
+// Entity types recorded by the admin edge functions
+const ENTITY_TYPES = [
+  { value: 'user', label: 'User' },
+  { value: 'role', label: 'Role' },
+  { value: 'permission', label: 'Permission' },
+  { value: 'member', label: 'Member' },
+  { value: 'member_document', label: 'Member Document' },
+  { value: 'customer_account', label: 'Customer Account' },
+  { value: 'transaction', label: 'Transaction' },
+  { value: 'account_statement', label: 'Account Statement' },
+  { value: 'loan', label: 'Loan' },
+  { value: 'dividend_run', label: 'Dividend Run' },
+  { value: 'nisab_rate', label: 'Nisab Rate' },
+  { value: 'bank_account', label: 'Bank Account' },
+  { value: 'bank_statement', label: 'Bank Statement' },
+  { value: 'bank_statement_line', label: 'Bank Statement Line' },
+  { value: 'account_type', label: 'Account Type' },
+  { value: 'loan_product', label: 'Loan Product' },
+  { value: 'document_kind', label: 'Document Kind' },
+  { value: 'organisation_unit', label: 'Organisational Unit' },
+  { value: 'login_settings', label: 'Sign-in Settings' },
+  { value: 'password_policy', label: 'Password Policy' },
+  { value: 'change_request', label: 'Change Request' },
+  { value: 'approval_settings', label: 'Approval Settings' },
+]
+
+const entityLabel = (entityType: string) =>
+  ENTITY_TYPES.find(type => type.value === entityType)?.label || entityType
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—'
+  if (typeof value === 'string') return value
+  return JSON.stringify(value)
+}
+
+export function AdminAuditLog() {
+  const today = new Date().toISOString().slice(0, 10)
+  const [filters, setFilters] = useState<AuditLogFilters>({ from: addDays(today, -30), to: today })
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  const { data: actorsData } = useQuery({
+    queryKey: queryKeys.auditActors(),
+    queryFn: auditLogApi.getActors,
+  })
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: queryKeys.auditLog(filters),
+    queryFn: () => auditLogApi.getEntries(filters),
+    retry: false,
+  })
+
+  const actors = actorsData?.actors || []
+  const entries = data?.entries || []
+
+  const setFilter = (key: keyof AuditLogFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value || undefined }))
+  }
+
+  const handleDownload = () => {
+    downloadCsv(`audit-log-${filters.from || 'start'}-${filters.to || today}.csv`, [
+      ['Time', 'Actor', 'Actor Email', 'Action', 'Entity Type', 'Entity ID', 'Changes', 'IP Address', 'User Agent'],
+      ...entries.map(entry => [
+        entry.created_at,
+        entry.actor?.full_name,
+        entry.actor?.email,
+        ACTION_LABELS[entry.action],
+        entry.entity_type,
+        entry.entity_id,
+        Object.keys(entry.changes).length > 0 ? JSON.stringify(entry.changes) : '',
+        entry.ip_address,
+        entry.user_agent
+      ])
+    ])
+  }
+
+  return (
+    <div className="space-y-6 pt-24">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+            <History className="h-7 w-7 text-emerald-600 mr-2" />
+            Audit Log
+          </h1>
+          <p className="mt-1 text-sm text-gray-600">
+            Who changed users, roles, members and configuration, and every sign-in and password change
+          </p>
+        </div>
+        <button
+          onClick={handleDownload}
+          disabled={entries.length === 0}
+          className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500 disabled:opacity-50"
+        >
+          <Download className="h-4 w-4 mr-2" />
+          Download CSV
+        </button>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-4 grid grid-cols-1 gap-4 sm:grid-cols-5">
+        <div>
+          <label className="block text-xs font-medium text-gray-500 uppercase">Actor</label>
+          <select
+            value={filters.actor_id || ''}
+            onChange={(e) => setFilter('actor_id', e.target.value)}
+            className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 bg-white focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+          >
+            <option value="">Everyone</option>
+            {actors.map(actor => (
+              <option key={actor.id} value={actor.id}>{actor.full_name || actor.email}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 uppercase">Entity</label>
+          <select
+            value={filters.entity_type || ''}
+            onChange={(e) => setFilter('entity_type', e.target.value)}
+            className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 bg-white focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+          >
+            <option value="">All entities</option>
+            {ENTITY_TYPES.map(type => (
+              <option key={type.value} value={type.value}>{type.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 uppercase">Action</label>
+          <select
+            value={filters.action || ''}
+            onChange={(e) => setFilter('action', e.target.value)}
+            className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 bg-white focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+          >
+            <option value="">All actions</option>
+            {(Object.keys(ACTION_LABELS) as AuditAction[]).map(action => (
+              <option key={action} value={action}>{ACTION_LABELS[action]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 uppercase">From</label>
+          <input
+            type="date"
+            value={filters.from || ''}
+            max={filters.to || today}
+            onChange={(e) => setFilter('from', e.target.value)}
+            className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 bg-white focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 uppercase">To</label>
+          <input
+            type="date"
+            value={filters.to || ''}
+            min={filters.from}
+            max={today}
+            onChange={(e) => setFilter('to', e.target.value)}
+            className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 bg-white focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+          />
+        </div>
+      </div>
+
+      {/* Entries */}
+      <div className="bg-white shadow overflow-hidden sm:rounded-md">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-600"></div>
+          </div>
+        ) : error ? (
+          <div className="text-center py-12">
+            <History className="mx-auto h-12 w-12 text-gray-400" />
+            <p className="mt-2 text-sm text-gray-500">
+              {error instanceof ApiError ? error.message : 'Failed to load the audit log'}
+            </p>
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="text-center py-12">
+            <History className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No entries</h3>
+            <p className="mt-1 text-sm text-gray-500">Nothing was recorded that matches these filters.</p>
+          </div>
+        ) : (
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr className="text-left text-xs text-gray-500 uppercase">
+                <th className="px-4 py-3"></th>
+                <th className="px-4 py-3 font-medium">Time</th>
+                <th className="px-4 py-3 font-medium">Actor</th>
+                <th className="px-4 py-3 font-medium">Action</th>
+                <th className="px-4 py-3 font-medium">Entity</th>
+                <th className="px-4 py-3 font-medium">IP Address</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {entries.map(entry => (
+                <AuditLogRow
+                  key={entry.id}
+                  entry={entry}
+                  expanded={expandedId === entry.id}
+                  onToggle={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                />
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function AuditLogRow({
+  entry,
+  expanded,
+  onToggle
+}: {
+  entry: AuditLogEntry
+  expanded: boolean
+  onToggle: () => void
+}) {
+  const changedFields = Object.entries(entry.changes)
+
+  return (
+    <>
+      <tr className="cursor-pointer hover:bg-gray-50" onClick={onToggle}>
+        <td className="px-4 py-3 text-gray-400">
+          {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+        </td>
+        <td className="px-4 py-3 text-gray-700 whitespace-nowrap">{new Date(entry.created_at).toLocaleString()}</td>
+        <td className="px-4 py-3">
+          {entry.actor ? (
+            <>
+              <div className="font-medium text-gray-900">{entry.actor.full_name}</div>
+              <div className="text-xs text-gray-500">{entry.actor.email}</div>
+            </>
+          ) : (
+            <span className="text-gray-500">System</span>
+          )}
+        </td>
+        <td className="px-4 py-3">
+          <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${ACTION_COLORS[entry.action]}`}>
+            {ACTION_LABELS[entry.action]}
+          </span>
+        </td>
+        <td className="px-4 py-3">
+          <div className="text-gray-900">{entityLabel(entry.entity_type)}</div>
+          {entry.entity_id && <div className="text-xs text-gray-500 font-mono">{entry.entity_id}</div>}
+        </td>
+        <td className="px-4 py-3 text-gray-700">{entry.ip_address || '—'}</td>
+      </tr>
+      {expanded && (
+        <tr className="bg-gray-50">
+          <td></td>
+          <td colSpan={5} className="px-4 py-3 space-y-3">
+            {changedFields.length === 0 ? (
+              <p className="text-gray-500">No field changes recorded.</p>
+            ) : (
+              <table className="min-w-full text-xs">
+                <thead>
+                  <tr className="text-left text-gray-500 uppercase">
+                    <th className="py-1 pr-4 font-medium">Field</th>
+                    <th className="py-1 pr-4 font-medium">Before</th>
+                    <th className="py-1 font-medium">After</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {changedFields.map(([field, change]) => (
+                    <tr key={field}>
+                      <td className="py-1 pr-4 font-medium text-gray-700">{field}</td>
+                      <td className="py-1 pr-4 text-red-700 break-all">{formatValue(change.before)}</td>
+                      <td className="py-1 text-green-700 break-all">{formatValue(change.after)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            <p className="text-xs text-gray-500 break-all">User agent: {entry.user_agent || '—'}</p>
+          </td>
+        </tr>
+      )}
+    </>
+  )
+}
@@ -1,12 +1,17 @@
 import React, { useState } from 'react'
+import { Link } from 'react-router-dom'
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { queryKeys } from '../lib/queryClient'
-import { Plus, Search, Edit, Trash2, Banknote } from 'lucide-react'
-import { bankAccountsApi, ApiError } from '../lib/dataFetching'
-import type { BankAccount, CreateBankAccountData, UpdateBankAccountData } from '../types'
+import { Plus, Search, Edit, Trash2, Banknote, ClipboardList } from 'lucide-react'
+import { bankAccountsApi, bankReconciliationApi, ApiError } from '../lib/dataFetching'
+import { hasPermission } from '../utils/permissions'
+import { useAuth } from '../contexts/AuthContext'
+import type { BankAccount, BankReconciliationOverview, CreateBankAccountData, UpdateBankAccountData } from '../types'
 
 export function AdminBankAccounts() {
   const queryClient = useQueryClient()
+  const { user } = useAuth()
+  const canViewReconciliation = hasPermission(user, 'reconciliation', 'view')
   
   const [searchTerm, setSearchTerm] = useState('')
   const [showCreateModal, setShowCreateModal] = useState(false)
@@ -32,6 +37,13 @@ export function AdminBankAccounts() {
     queryFn: bankAccountsApi.getBankAccounts,
   })
 
+  // Fetch statement coverage and unreconciled items per bank account
+  const { data: reconciliationData } = useQuery({
+    queryKey: queryKeys.bankReconciliations(),
+    queryFn: bankReconciliationApi.getReconciliationOverview,
+    enabled: canViewReconciliation,
+  })
+
   // Mutations for bank account operations
   const createBankAccountMutation = useMutation({
     mutationFn: bankAccountsApi.createBankAccount,
@@ -91,6 +103,7 @@ export function AdminBankAccounts() {
   }
 
   const bankAccounts = bankAccountsData?.bank_accounts || []
+  const reconciliations = new Map((reconciliationData?.reconciliations || []).map(item => [item.bank_account_id, item]))
   const loading = bankAccountsLoading || createBankAccountMutation.isPending || updateBankAccountMutation.isPending || deleteBankAccountMutation.isPending
 
   const filteredBankAccounts = bankAccounts.filter(account =>
@@ -191,9 +204,21 @@ export function AdminBankAccounts() {
                       <div className="text-xs text-gray-400">
                         Created: {new Date(account.created_at).toLocaleDateString()}
                       </div>
+                      {canViewReconciliation && (
+                        <ReconciliationStatus reconciliation={reconciliations.get(account.id)} />
+                      )}
                     </div>
                   </div>
                   <div className="flex items-center space-x-2">
+                    {canViewReconciliation && (
+                      <Link
+                        to={`/admin/bank-accounts/${account.id}/reconciliation`}
+                        className="inline-flex items-center p-2 border border-transparent rounded-full shadow-sm text-white bg-emerald-600 hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500"
+                        title="Reconcile bank account"
+                      >
+                        <ClipboardList className="h-4 w-4" />
+                      </Link>
+                    )}
                     <button
                       onClick={() => {
                         setSelectedBankAccount(account)
@@ -240,6 +265,30 @@ export function AdminBankAccounts() {
   )
 }
 
+// Statement coverage and unreconciled item counts of a bank account
+function ReconciliationStatus({ reconciliation }: { reconciliation?: BankReconciliationOverview }) {
+  if (!reconciliation) {
+    return <div className="mt-1 text-xs text-gray-500">No bank statements imported</div>
+  }
+
+  const unreconciled = reconciliation.unmatched_statement_lines + reconciliation.unmatched_postings
+
+  return (
+    <div className="mt-1 flex items-center text-xs text-gray-500">
+      <span>Statements to {new Date(reconciliation.covered_to).toLocaleDateString()}</span>
+      {unreconciled === 0 ? (
+        <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full font-medium bg-green-100 text-green-800">
+          Reconciled
+        </span>
+      ) : (
+        <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full font-medium bg-yellow-100 text-yellow-800">
+          {unreconciled} unreconciled
+        </span>
+      )}
+    </div>
+  )
+}
+
 // Create Bank Account Modal Component
 function CreateBankAccountModal({ 
   onClose, 
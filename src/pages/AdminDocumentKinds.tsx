@@ -0,0 +1,326 @@
+import React, { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { queryKeys } from '../lib/queryClient'
+import { Plus, Edit, Trash2, FileCheck, CheckCircle, XCircle, Calendar } from 'lucide-react'
+import { documentKindsApi, ApiError } from '../lib/dataFetching'
+import type { DocumentKind, CreateDocumentKindData, UpdateDocumentKindData } from '../types'
+
+export function AdminDocumentKinds() {
+  const queryClient = useQueryClient()
+
+  const [showCreateModal, setShowCreateModal] = useState(false)
+  const [selectedDocumentKind, setSelectedDocumentKind] = useState<DocumentKind | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  // Clear messages after 5 seconds
+  React.useEffect(() => {
+    if (error || success) {
+      const timer = setTimeout(() => {
+        setError(null)
+        setSuccess(null)
+      }, 5000)
+      return () => clearTimeout(timer)
+    }
+  }, [error, success])
+
+  const { data, isLoading } = useQuery({
+    queryKey: queryKeys.documentKinds(),
+    queryFn: documentKindsApi.getDocumentKinds,
+  })
+
+  const createDocumentKindMutation = useMutation({
+    mutationFn: documentKindsApi.createDocumentKind,
+    onSuccess: () => {
+      setSuccess('Document kind created successfully')
+      setError(null)
+      setShowCreateModal(false)
+      queryClient.invalidateQueries({ queryKey: queryKeys.documentKinds() })
+    },
+    onError: (error) => {
+      setError(error instanceof ApiError ? error.message : 'Failed to create document kind')
+      setSuccess(null)
+    },
+  })
+
+  const updateDocumentKindMutation = useMutation({
+    mutationFn: ({ documentKindId, documentKindData }: { documentKindId: string; documentKindData: UpdateDocumentKindData }) =>
+      documentKindsApi.updateDocumentKind(documentKindId, documentKindData),
+    onSuccess: () => {
+      setSuccess('Document kind updated successfully')
+      setError(null)
+      setSelectedDocumentKind(null)
+      queryClient.invalidateQueries({ queryKey: queryKeys.documentKinds() })
+    },
+    onError: (error) => {
+      setError(error instanceof ApiError ? error.message : 'Failed to update document kind')
+      setSuccess(null)
+    },
+  })
+
+  const deleteDocumentKindMutation = useMutation({
+    mutationFn: documentKindsApi.deleteDocumentKind,
+    onSuccess: () => {
+      setSuccess('Document kind deleted successfully')
+      setError(null)
+      queryClient.invalidateQueries({ queryKey: queryKeys.documentKinds() })
+    },
+    onError: (error) => {
+      setError(error instanceof ApiError ? error.message : 'Failed to delete document kind')
+      setSuccess(null)
+    },
+  })
+
+  const handleDeleteDocumentKind = (documentKind: DocumentKind) => {
+    if (!confirm(`Are you sure you want to delete "${documentKind.name}"? This action cannot be undone.`)) return
+    deleteDocumentKindMutation.mutate(documentKind.id)
+  }
+
+  const documentKinds = data?.document_kinds || []
+  const loading = isLoading || createDocumentKindMutation.isPending || updateDocumentKindMutation.isPending || deleteDocumentKindMutation.isPending
+
+  return (
+    <div className="space-y-6 pt-24">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+            <FileCheck className="h-7 w-7 text-emerald-600 mr-2" />
+            Document Kinds
+          </h1>
+          <p className="mt-1 text-sm text-gray-600">
+            Catalog of KYC documents that account types can require
+          </p>
+        </div>
+        <button
+          onClick={() => setShowCreateModal(true)}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-emerald-600 hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Document Kind
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      {success && (
+        <div className="bg-green-50 border border-green-200 rounded-md p-4">
+          <p className="text-green-800">{success}</p>
+        </div>
+      )}
+
+      <div className="bg-white shadow overflow-hidden sm:rounded-md">
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-600"></div>
+          </div>
+        ) : documentKinds.length === 0 ? (
+          <div className="text-center py-12">
+            <FileCheck className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No document kinds</h3>
+            <p className="mt-1 text-sm text-gray-500">Get started by adding a document kind.</p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {documentKinds.map((documentKind) => (
+              <li key={documentKind.id}>
+                <div className="px-4 py-4 flex items-center justify-between">
+                  <div>
+                    <div className="flex items-center">
+                      <span className="text-sm font-medium text-gray-900">{documentKind.name}</span>
+                      <code className="ml-2 text-xs text-gray-500">{documentKind.code}</code>
+                      {documentKind.is_active ? (
+                        <span title="Active"><CheckCircle className="h-4 w-4 text-green-600 ml-2" /></span>
+                      ) : (
+                        <span title="Inactive"><XCircle className="h-4 w-4 text-red-500 ml-2" /></span>
+                      )}
+                      {documentKind.requires_expiry && (
+                        <span className="ml-2 inline-flex items-center text-xs text-gray-500">
+                          <Calendar className="h-3 w-3 mr-1" />
+                          Expiry date required
+                        </span>
+                      )}
+                    </div>
+                    {documentKind.description && (
+                      <p className="text-sm text-gray-500">{documentKind.description}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => setSelectedDocumentKind(documentKind)}
+                      className="inline-flex items-center p-2 border border-transparent rounded-full shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                      title="Edit document kind"
+                    >
+                      <Edit className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDeleteDocumentKind(documentKind)}
+                      className="inline-flex items-center p-2 border border-transparent rounded-full shadow-sm text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+                      title="Delete document kind"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Modals */}
+      {showCreateModal && (
+        <DocumentKindFormModal
+          onClose={() => setShowCreateModal(false)}
+          onSubmit={(documentKindData) => createDocumentKindMutation.mutate(documentKindData)}
+        />
+      )}
+      {selectedDocumentKind && (
+        <DocumentKindFormModal
+          documentKind={selectedDocumentKind}
+          onClose={() => setSelectedDocumentKind(null)}
+          onSubmit={({ name, description, requires_expiry, is_active }) =>
+            updateDocumentKindMutation.mutate({
+              documentKindId: selectedDocumentKind.id,
+              documentKindData: { name, description, requires_expiry, is_active }
+            })
+          }
+        />
+      )}
+    </div>
+  )
+}
+
+// Document Kind Form Modal Component
+function DocumentKindFormModal({
+  documentKind,
+  onClose,
+  onSubmit
+}: {
+  documentKind?: DocumentKind
+  onClose: () => void
+  onSubmit: (documentKindData: CreateDocumentKindData) => void
+}) {
+  const [formData, setFormData] = useState({
+    code: documentKind?.code || '',
+    name: documentKind?.name || '',
+    description: documentKind?.description || '',
+    requires_expiry: documentKind?.requires_expiry ?? false,
+    is_active: documentKind?.is_active ?? true
+  })
+
+  const handleNameChange = (name: string) => {
+    setFormData(prev => ({
+      ...prev,
+      name,
+      // Suggest a code from the name until the kind has been saved
+      code: documentKind ? prev.code : name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '')
+    }))
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!formData.name.trim() || !formData.code.trim()) return
+    onSubmit({
+      code: formData.code.trim(),
+      name: formData.name.trim(),
+      description: formData.description.trim() || undefined,
+      requires_expiry: formData.requires_expiry,
+      is_active: formData.is_active
+    })
+  }
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white">
+        <div className="mt-3">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">
+            {documentKind ? 'Edit Document Kind' : 'Add Document Kind'}
+          </h3>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Name</label>
+              <input
+                type="text"
+                required
+                value={formData.name}
+                onChange={(e) => handleNameChange(e.target.value)}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+                placeholder="e.g., ID Card"
+                maxLength={100}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Code</label>
+              <input
+                type="text"
+                required
+                disabled={!!documentKind}
+                pattern="[a-z0-9_]+"
+                value={formData.code}
+                onChange={(e) => setFormData(prev => ({ ...prev, code: e.target.value }))}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500 disabled:bg-gray-100"
+                maxLength={50}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Lowercase letters, digits and underscores. Cannot be changed once created.
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Description</label>
+              <textarea
+                value={formData.description}
+                onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+                rows={2}
+                maxLength={255}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={formData.requires_expiry}
+                  onChange={(e) => setFormData(prev => ({ ...prev, requires_expiry: e.target.checked }))}
+                  className="rounded border-gray-300 text-emerald-600 focus:ring-emerald-500"
+                />
+                <span className="text-sm text-gray-700">Uploads must include an expiry date</span>
+              </label>
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={formData.is_active}
+                  onChange={(e) => setFormData(prev => ({ ...prev, is_active: e.target.checked }))}
+                  className="rounded border-gray-300 text-emerald-600 focus:ring-emerald-500"
+                />
+                <span className="text-sm text-gray-700">Active</span>
+              </label>
+            </div>
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="px-4 py-2 text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-700 rounded-md"
+              >
+                {documentKind ? 'Update' : 'Create'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,390 @@
+import React, { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { queryKeys } from '../lib/queryClient'
+import { Plus, Edit, Trash2, Percent, CheckCircle, XCircle } from 'lucide-react'
+import { loanProductsApi, ApiError } from '../lib/dataFetching'
+import { formatCurrency, formatLoanProductType } from '../utils/helpers'
+import type { LoanProduct, LoanProductType, CreateLoanProductData, UpdateLoanProductData } from '../types'
+
+export function AdminLoanProducts() {
+  const queryClient = useQueryClient()
+
+  const [showCreateModal, setShowCreateModal] = useState(false)
+  const [selectedProduct, setSelectedProduct] = useState<LoanProduct | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  // Clear messages after 5 seconds
+  React.useEffect(() => {
+    if (error || success) {
+      const timer = setTimeout(() => {
+        setError(null)
+        setSuccess(null)
+      }, 5000)
+      return () => clearTimeout(timer)
+    }
+  }, [error, success])
+
+  const { data, isLoading } = useQuery({
+    queryKey: queryKeys.loanProducts(),
+    queryFn: loanProductsApi.getLoanProducts,
+  })
+
+  const createProductMutation = useMutation({
+    mutationFn: loanProductsApi.createLoanProduct,
+    onSuccess: () => {
+      setSuccess('Loan product created successfully')
+      setError(null)
+      setShowCreateModal(false)
+      queryClient.invalidateQueries({ queryKey: queryKeys.loanProducts() })
+    },
+    onError: (error) => {
+      setError(error instanceof ApiError ? error.message : 'Failed to create loan product')
+      setSuccess(null)
+    },
+  })
+
+  const updateProductMutation = useMutation({
+    mutationFn: ({ productId, productData }: { productId: string; productData: UpdateLoanProductData }) =>
+      loanProductsApi.updateLoanProduct(productId, productData),
+    onSuccess: () => {
+      setSuccess('Loan product updated successfully')
+      setError(null)
+      setSelectedProduct(null)
+      queryClient.invalidateQueries({ queryKey: queryKeys.loanProducts() })
+    },
+    onError: (error) => {
+      setError(error instanceof ApiError ? error.message : 'Failed to update loan product')
+      setSuccess(null)
+    },
+  })
+
+  const deleteProductMutation = useMutation({
+    mutationFn: loanProductsApi.deleteLoanProduct,
+    onSuccess: () => {
+      setSuccess('Loan product deleted successfully')
+      setError(null)
+      queryClient.invalidateQueries({ queryKey: queryKeys.loanProducts() })
+    },
+    onError: (error) => {
+      setError(error instanceof ApiError ? error.message : 'Failed to delete loan product')
+      setSuccess(null)
+    },
+  })
+
+  const handleDeleteProduct = (product: LoanProduct) => {
+    if (!confirm(`Are you sure you want to delete "${product.name}"? This action cannot be undone.`)) return
+    deleteProductMutation.mutate(product.id)
+  }
+
+  const products = data?.loan_products || []
+  const loading = isLoading || createProductMutation.isPending || updateProductMutation.isPending || deleteProductMutation.isPending
+
+  return (
+    <div className="space-y-6 pt-24">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+            <Percent className="h-7 w-7 text-emerald-600 mr-2" />
+            Loan Products
+          </h1>
+          <p className="mt-1 text-sm text-gray-600">
+            Qard Hasan and Murabaha products offered to holders of loan-eligible accounts
+          </p>
+        </div>
+        <button
+          onClick={() => setShowCreateModal(true)}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-emerald-600 hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Loan Product
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      {success && (
+        <div className="bg-green-50 border border-green-200 rounded-md p-4">
+          <p className="text-green-800">{success}</p>
+        </div>
+      )}
+
+      <div className="bg-white shadow overflow-hidden sm:rounded-md">
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-600"></div>
+          </div>
+        ) : products.length === 0 ? (
+          <div className="text-center py-12">
+            <Percent className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No loan products</h3>
+            <p className="mt-1 text-sm text-gray-500">Get started by adding a loan product.</p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {products.map((product) => (
+              <li key={product.id}>
+                <div className="px-4 py-4 flex items-center justify-between">
+                  <div>
+                    <div className="flex items-center">
+                      <span className="text-sm font-medium text-gray-900">{product.name}</span>
+                      <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-emerald-100 text-emerald-800">
+                        {formatLoanProductType(product.product_type)}
+                      </span>
+                      {product.is_active ? (
+                        <span title="Active"><CheckCircle className="h-4 w-4 text-green-600 ml-2" /></span>
+                      ) : (
+                        <span title="Inactive"><XCircle className="h-4 w-4 text-red-500 ml-2" /></span>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-500">
+                      {formatCurrency(product.min_amount)} to {formatCurrency(product.max_amount)} &middot; {product.min_term_months} to {product.max_term_months} months
+                      {product.product_type === 'murabaha' && <> &middot; {product.profit_rate}% markup per year</>}
+                    </p>
+                    {product.description && (
+                      <p className="text-xs text-gray-400">{product.description}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => setSelectedProduct(product)}
+                      className="inline-flex items-center p-2 border border-transparent rounded-full shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                      title="Edit loan product"
+                    >
+                      <Edit className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDeleteProduct(product)}
+                      className="inline-flex items-center p-2 border border-transparent rounded-full shadow-sm text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+                      title="Delete loan product"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Modals */}
+      {showCreateModal && (
+        <LoanProductFormModal
+          onClose={() => setShowCreateModal(false)}
+          onSubmit={(productData) => createProductMutation.mutate(productData)}
+        />
+      )}
+      {selectedProduct && (
+        <LoanProductFormModal
+          product={selectedProduct}
+          onClose={() => setSelectedProduct(null)}
+          onSubmit={({ name, description, profit_rate, min_amount, max_amount, min_term_months, max_term_months, is_active }) =>
+            updateProductMutation.mutate({
+              productId: selectedProduct.id,
+              productData: { name, description, profit_rate, min_amount, max_amount, min_term_months, max_term_months, is_active }
+            })
+          }
+        />
+      )}
+    </div>
+  )
+}
+
+// Loan Product Form Modal Component
+function LoanProductFormModal({
+  product,
+  onClose,
+  onSubmit
+}: {
+  product?: LoanProduct
+  onClose: () => void
+  onSubmit: (productData: CreateLoanProductData) => void
+}) {
+  const [formData, setFormData] = useState({
+    name: product?.name || '',
+    product_type: (product?.product_type || 'qard_hasan') as LoanProductType,
+    description: product?.description || '',
+    profit_rate: product ? String(product.profit_rate) : '0',
+    min_amount: product ? String(product.min_amount) : '',
+    max_amount: product ? String(product.max_amount) : '',
+    min_term_months: product ? String(product.min_term_months) : '',
+    max_term_months: product ? String(product.max_term_months) : '',
+    is_active: product?.is_active ?? true
+  })
+
+  const isMurabaha = formData.product_type === 'murabaha'
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!formData.name.trim()) return
+    onSubmit({
+      name: formData.name.trim(),
+      product_type: formData.product_type,
+      description: formData.description.trim() || undefined,
+      profit_rate: isMurabaha ? Number(formData.profit_rate) : 0,
+      min_amount: Number(formData.min_amount),
+      max_amount: Number(formData.max_amount),
+      min_term_months: Number(formData.min_term_months),
+      max_term_months: Number(formData.max_term_months),
+      is_active: formData.is_active
+    })
+  }
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-[500px] shadow-lg rounded-md bg-white">
+        <div className="mt-3">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">
+            {product ? 'Edit Loan Product' : 'Add Loan Product'}
+          </h3>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Name</label>
+              <input
+                type="text"
+                required
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+                placeholder="e.g., Education Qard Hasan"
+                maxLength={100}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Product Type</label>
+              <select
+                disabled={!!product}
+                value={formData.product_type}
+                onChange={(e) => setFormData(prev => ({
+                  ...prev,
+                  product_type: e.target.value as LoanProductType,
+                  profit_rate: e.target.value === 'murabaha' ? prev.profit_rate : '0'
+                }))}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500 disabled:bg-gray-100"
+              >
+                <option value="qard_hasan">Qard Hasan (interest-free)</option>
+                <option value="murabaha">Murabaha (cost-plus sale)</option>
+              </select>
+              {product && (
+                <p className="text-xs text-gray-500 mt-1">The product type cannot be changed once created.</p>
+              )}
+            </div>
+
+            {isMurabaha && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Markup (% per year of term)</label>
+                <input
+                  type="number"
+                  required
+                  step="0.01"
+                  min="0.01"
+                  max="100"
+                  value={formData.profit_rate}
+                  onChange={(e) => setFormData(prev => ({ ...prev, profit_rate: e.target.value }))}
+                  className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+                />
+                <p className="text-xs text-gray-500 mt-1">Fixed at application and added to the cost price; it does not compound.</p>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Minimum Amount (MUR)</label>
+                <input
+                  type="number"
+                  required
+                  step="0.01"
+                  min="0.01"
+                  value={formData.min_amount}
+                  onChange={(e) => setFormData(prev => ({ ...prev, min_amount: e.target.value }))}
+                  className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Maximum Amount (MUR)</label>
+                <input
+                  type="number"
+                  required
+                  step="0.01"
+                  min="0.01"
+                  value={formData.max_amount}
+                  onChange={(e) => setFormData(prev => ({ ...prev, max_amount: e.target.value }))}
+                  className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Minimum Term (months)</label>
+                <input
+                  type="number"
+                  required
+                  step="1"
+                  min="1"
+                  max="360"
+                  value={formData.min_term_months}
+                  onChange={(e) => setFormData(prev => ({ ...prev, min_term_months: e.target.value }))}
+                  className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Maximum Term (months)</label>
+                <input
+                  type="number"
+                  required
+                  step="1"
+                  min="1"
+                  max="360"
+                  value={formData.max_term_months}
+                  onChange={(e) => setFormData(prev => ({ ...prev, max_term_months: e.target.value }))}
+                  className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Description</label>
+              <textarea
+                value={formData.description}
+                onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+                rows={2}
+                maxLength={255}
+              />
+            </div>
+
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={formData.is_active}
+                onChange={(e) => setFormData(prev => ({ ...prev, is_active: e.target.checked }))}
+                className="rounded border-gray-300 text-emerald-600 focus:ring-emerald-500"
+              />
+              <span className="text-sm text-gray-700">Available for new applications</span>
+            </label>
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="px-4 py-2 text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-700 rounded-md"
+              >
+                {product ? 'Update' : 'Create'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
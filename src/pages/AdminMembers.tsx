@@ -0,0 +1,267 @@
+import React, { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { queryKeys } from '../lib/queryClient'
+import { Plus, Search, Edit, Trash2, UserCheck, Eye } from 'lucide-react'
+import { membersApi, ApiError } from '../lib/dataFetching'
+import { hasPermission } from '../utils/permissions'
+import { useAuth } from '../contexts/AuthContext'
+import { MemberFormModal } from '../components/MemberFormModal'
+import { MemberStatusBadge } from '../components/MemberStatusBadge'
+import { OrganisationUnitSelect } from '../components/OrganisationUnitSelect'
+import type { Member, MembershipStatus, CreateMemberData } from '../types'
+
+export function AdminMembers() {
+  const queryClient = useQueryClient()
+  const { user } = useAuth()
+  const canManageMembers = hasPermission(user, 'members', 'manage')
+
+  const [searchTerm, setSearchTerm] = useState('')
+  const [statusFilter, setStatusFilter] = useState<MembershipStatus | ''>('')
+  const [unitFilter, setUnitFilter] = useState<string | null>(null)
+  const [showCreateModal, setShowCreateModal] = useState(false)
+  const [selectedMember, setSelectedMember] = useState<Member | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  // Clear messages after 5 seconds
+  React.useEffect(() => {
+    if (error || success) {
+      const timer = setTimeout(() => {
+        setError(null)
+        setSuccess(null)
+      }, 5000)
+      return () => clearTimeout(timer)
+    }
+  }, [error, success])
+
+  // Fetch members, of a unit and the units below it when one is picked
+  const { data: membersData, isLoading: membersLoading } = useQuery({
+    queryKey: unitFilter ? queryKeys.membersInUnit(unitFilter) : queryKeys.members(),
+    queryFn: () => membersApi.getMembers(unitFilter || undefined),
+  })
+
+  // Mutations for member operations
+  const createMemberMutation = useMutation({
+    mutationFn: membersApi.createMember,
+    onSuccess: ({ member }) => {
+      setSuccess(`Member ${member.member_number} registered successfully`)
+      setError(null)
+      setShowCreateModal(false)
+      queryClient.invalidateQueries({ queryKey: queryKeys.members() })
+    },
+    onError: (error) => {
+      setError(error instanceof ApiError ? error.message : 'Failed to register member')
+      setSuccess(null)
+    },
+  })
+
+  const updateMemberMutation = useMutation({
+    mutationFn: ({ memberId, memberData }: { memberId: string; memberData: CreateMemberData }) =>
+      membersApi.updateMember(memberId, memberData),
+    onSuccess: () => {
+      setSuccess('Member updated successfully')
+      setError(null)
+      setSelectedMember(null)
+      queryClient.invalidateQueries({ queryKey: queryKeys.members() })
+    },
+    onError: (error) => {
+      setError(error instanceof ApiError ? error.message : 'Failed to update member')
+      setSuccess(null)
+    },
+  })
+
+  const deleteMemberMutation = useMutation({
+    mutationFn: membersApi.deleteMember,
+    onSuccess: () => {
+      setSuccess('Member deleted successfully')
+      setError(null)
+      queryClient.invalidateQueries({ queryKey: queryKeys.members() })
+    },
+    onError: (error) => {
+      setError(error instanceof ApiError ? error.message : 'Failed to delete member')
+      setSuccess(null)
+    },
+  })
+
+  const handleDeleteMember = (member: Member) => {
+    if (!confirm(`Are you sure you want to delete member ${member.member_number}? This action cannot be undone.`)) return
+    deleteMemberMutation.mutate(member.id)
+  }
+
+  const members = membersData?.members || []
+  const loading = membersLoading || createMemberMutation.isPending || updateMemberMutation.isPending || deleteMemberMutation.isPending
+
+  const search = searchTerm.trim().toLowerCase()
+  const filteredMembers = members.filter(member => {
+    if (statusFilter && member.membership_status !== statusFilter) return false
+    if (!search) return true
+    return (
+      `${member.first_name} ${member.last_name}`.toLowerCase().includes(search) ||
+      member.member_number.toLowerCase().includes(search) ||
+      member.national_id.toLowerCase().includes(search) ||
+      (member.email?.toLowerCase().includes(search) ?? false) ||
+      (member.phone?.includes(search) ?? false)
+    )
+  })
+
+  return (
+    <div className="space-y-6 pt-24">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+            <UserCheck className="h-7 w-7 text-emerald-600 mr-2" />
+            Member Registry
+          </h1>
+          <p className="mt-1 text-sm text-gray-600">
+            Register and search the members who hold accounts with the cooperative
+          </p>
+        </div>
+        {canManageMembers && (
+          <button
+            onClick={() => setShowCreateModal(true)}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-emerald-600 hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Register Member
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      {success && (
+        <div className="bg-green-50 border border-green-200 rounded-md p-4">
+          <p className="text-green-800">{success}</p>
+        </div>
+      )}
+
+      {/* Search */}
+      <div className="flex space-x-4">
+        <div className="relative flex-1">
+          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+            <Search className="h-5 w-5 text-gray-400" />
+          </div>
+          <input
+            type="text"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-emerald-500 focus:border-emerald-500"
+            placeholder="Search by name, member number, national ID, email or phone..."
+          />
+        </div>
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as MembershipStatus | '')}
+          className="border border-gray-300 rounded-md px-3 py-2 bg-white focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+        >
+          <option value="">All statuses</option>
+          <option value="pending">Pending</option>
+          <option value="active">Active</option>
+          <option value="suspended">Suspended</option>
+          <option value="terminated">Terminated</option>
+        </select>
+        <OrganisationUnitSelect
+          value={unitFilter}
+          onChange={setUnitFilter}
+          emptyLabel="All branches"
+          className="border border-gray-300 rounded-md px-3 py-2 bg-white focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+        />
+      </div>
+
+      {/* Members Table */}
+      <div className="bg-white shadow overflow-hidden sm:rounded-md">
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-600"></div>
+          </div>
+        ) : filteredMembers.length === 0 ? (
+          <div className="text-center py-12">
+            <UserCheck className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No members</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              {searchTerm || statusFilter || unitFilter ? 'No members match your search.' : 'Get started by registering a new member.'}
+            </p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {filteredMembers.map((member) => (
+              <li key={member.id}>
+                <div className="px-4 py-4 flex items-center justify-between">
+                  <div className="flex items-center">
+                    <div className="flex-shrink-0 h-10 w-10">
+                      <div className="h-10 w-10 rounded-full bg-emerald-100 flex items-center justify-center">
+                        <UserCheck className="h-5 w-5 text-emerald-600" />
+                      </div>
+                    </div>
+                    <div className="ml-4">
+                      <div className="flex items-center">
+                        <div className="text-sm font-medium text-gray-900">
+                          {member.first_name} {member.last_name}
+                        </div>
+                        <MemberStatusBadge status={member.membership_status} className="ml-2" />
+                      </div>
+                      <div className="text-sm text-gray-500">
+                        {member.member_number} &middot; National ID: {member.national_id}
+                        {member.organisation_unit && <> &middot; {member.organisation_unit.name}</>}
+                      </div>
+                      <div className="text-xs text-gray-400">
+                        {[member.phone, member.email].filter(Boolean).join(' · ') || 'No contact details'}
+                      </div>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Link
+                      to={`/admin/members/${member.id}`}
+                      className="inline-flex items-center p-2 border border-transparent rounded-full shadow-sm text-white bg-emerald-600 hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500"
+                      title="View member profile"
+                    >
+                      <Eye className="h-4 w-4" />
+                    </Link>
+                    {canManageMembers && (
+                      <>
+                        <button
+                          onClick={() => setSelectedMember(member)}
+                          className="inline-flex items-center p-2 border border-transparent rounded-full shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                          title="Edit member"
+                        >
+                          <Edit className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDeleteMember(member)}
+                          className="inline-flex items-center p-2 border border-transparent rounded-full shadow-sm text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+                          title="Delete member"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Modals */}
+      {canManageMembers && showCreateModal && (
+        <MemberFormModal
+          onClose={() => setShowCreateModal(false)}
+          onSubmit={(memberData) => createMemberMutation.mutate(memberData)}
+        />
+      )}
+      {canManageMembers && selectedMember && (
+        <MemberFormModal
+          member={selectedMember}
+          onClose={() => setSelectedMember(null)}
+          onSubmit={(memberData) => updateMemberMutation.mutate({ memberId: selectedMember.id, memberData })}
+        />
+      )}
+    </div>
+  )
+}
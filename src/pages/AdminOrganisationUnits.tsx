@@ -0,0 +1,303 @@
+import React, { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { queryKeys } from '../lib/queryClient'
+import { Plus, Edit, Trash2, Network, CheckCircle, XCircle } from 'lucide-react'
+import { organisationUnitsApi, ApiError } from '../lib/dataFetching'
+import { hasPermission } from '../utils/permissions'
+import { sortUnitsAsTree } from '../utils/helpers'
+import { useAuth } from '../contexts/AuthContext'
+import { OrganisationUnitSelect } from '../components/OrganisationUnitSelect'
+import type { OrganisationUnit, CreateOrganisationUnitData, UpdateOrganisationUnitData } from '../types'
+
+export function AdminOrganisationUnits() {
+  const queryClient = useQueryClient()
+  const { user } = useAuth()
+  const canManageUnits = hasPermission(user, 'organisation_units', 'manage')
+
+  const [showCreateModal, setShowCreateModal] = useState(false)
+  const [selectedUnit, setSelectedUnit] = useState<OrganisationUnit | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  // Clear messages after 5 seconds
+  React.useEffect(() => {
+    if (error || success) {
+      const timer = setTimeout(() => {
+        setError(null)
+        setSuccess(null)
+      }, 5000)
+      return () => clearTimeout(timer)
+    }
+  }, [error, success])
+
+  const { data, isLoading } = useQuery({
+    queryKey: queryKeys.organisationUnits(),
+    queryFn: organisationUnitsApi.getOrganisationUnits,
+  })
+
+  const createUnitMutation = useMutation({
+    mutationFn: organisationUnitsApi.createOrganisationUnit,
+    onSuccess: () => {
+      setSuccess('Organisational unit created successfully')
+      setError(null)
+      setShowCreateModal(false)
+      queryClient.invalidateQueries({ queryKey: queryKeys.organisationUnits() })
+    },
+    onError: (error) => {
+      setError(error instanceof ApiError ? error.message : 'Failed to create organisational unit')
+      setSuccess(null)
+    },
+  })
+
+  const updateUnitMutation = useMutation({
+    mutationFn: ({ unitId, unitData }: { unitId: string; unitData: UpdateOrganisationUnitData }) =>
+      organisationUnitsApi.updateOrganisationUnit(unitId, unitData),
+    onSuccess: () => {
+      setSuccess('Organisational unit updated successfully')
+      setError(null)
+      setSelectedUnit(null)
+      queryClient.invalidateQueries({ queryKey: queryKeys.organisationUnits() })
+    },
+    onError: (error) => {
+      setError(error instanceof ApiError ? error.message : 'Failed to update organisational unit')
+      setSuccess(null)
+    },
+  })
+
+  const deleteUnitMutation = useMutation({
+    mutationFn: organisationUnitsApi.deleteOrganisationUnit,
+    onSuccess: () => {
+      setSuccess('Organisational unit deleted successfully')
+      setError(null)
+      queryClient.invalidateQueries({ queryKey: queryKeys.organisationUnits() })
+    },
+    onError: (error) => {
+      setError(error instanceof ApiError ? error.message : 'Failed to delete organisational unit')
+      setSuccess(null)
+    },
+  })
+
+  const handleDeleteUnit = (unit: OrganisationUnit) => {
+    if (!confirm(`Are you sure you want to delete "${unit.name}"? This action cannot be undone.`)) return
+    deleteUnitMutation.mutate(unit.id)
+  }
+
+  const units = sortUnitsAsTree(data?.organisation_units || [])
+  const loading = isLoading || createUnitMutation.isPending || updateUnitMutation.isPending || deleteUnitMutation.isPending
+
+  return (
+    <div className="space-y-6 pt-24">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+            <Network className="h-7 w-7 text-emerald-600 mr-2" />
+            Organisational Units
+          </h1>
+          <p className="mt-1 text-sm text-gray-600">
+            Branches and departments that staff, role assignments and members belong to
+          </p>
+        </div>
+        {canManageUnits && (
+          <button
+            onClick={() => setShowCreateModal(true)}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-emerald-600 hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Unit
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      {success && (
+        <div className="bg-green-50 border border-green-200 rounded-md p-4">
+          <p className="text-green-800">{success}</p>
+        </div>
+      )}
+
+      <div className="bg-white shadow overflow-hidden sm:rounded-md">
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-600"></div>
+          </div>
+        ) : units.length === 0 ? (
+          <div className="text-center py-12">
+            <Network className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No organisational units</h3>
+            <p className="mt-1 text-sm text-gray-500">Until units are added, every record belongs to the whole organisation.</p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {units.map(({ unit, depth }) => (
+              <li key={unit.id}>
+                <div className="px-4 py-4 flex items-center justify-between" style={{ paddingLeft: `${1 + depth * 1.5}rem` }}>
+                  <div className="flex items-center">
+                    <span className="text-sm font-medium text-gray-900">{unit.name}</span>
+                    <code className="ml-2 text-xs text-gray-500">{unit.code}</code>
+                    {unit.is_active ? (
+                      <span title="Active"><CheckCircle className="h-4 w-4 text-green-600 ml-2" /></span>
+                    ) : (
+                      <span title="Inactive"><XCircle className="h-4 w-4 text-red-500 ml-2" /></span>
+                    )}
+                  </div>
+                  {canManageUnits && (
+                    <div className="flex items-center space-x-2">
+                      <button
+                        onClick={() => setSelectedUnit(unit)}
+                        className="inline-flex items-center p-2 border border-transparent rounded-full shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                        title="Edit unit"
+                      >
+                        <Edit className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDeleteUnit(unit)}
+                        className="inline-flex items-center p-2 border border-transparent rounded-full shadow-sm text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+                        title="Delete unit"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Modals */}
+      {showCreateModal && (
+        <OrganisationUnitFormModal
+          onClose={() => setShowCreateModal(false)}
+          onSubmit={(unitData) => createUnitMutation.mutate(unitData)}
+        />
+      )}
+      {selectedUnit && (
+        <OrganisationUnitFormModal
+          unit={selectedUnit}
+          onClose={() => setSelectedUnit(null)}
+          onSubmit={({ name, parent_id, is_active }) =>
+            updateUnitMutation.mutate({
+              unitId: selectedUnit.id,
+              unitData: { name, parent_id, is_active }
+            })
+          }
+        />
+      )}
+    </div>
+  )
+}
+
+// Organisational Unit Form Modal Component
+function OrganisationUnitFormModal({
+  unit,
+  onClose,
+  onSubmit
+}: {
+  unit?: OrganisationUnit
+  onClose: () => void
+  onSubmit: (unitData: CreateOrganisationUnitData) => void
+}) {
+  const [formData, setFormData] = useState({
+    code: unit?.code || '',
+    name: unit?.name || '',
+    parent_id: unit?.parent_id || null as string | null,
+    is_active: unit?.is_active ?? true
+  })
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!formData.name.trim() || !formData.code.trim()) return
+    onSubmit({
+      code: formData.code.trim().toUpperCase(),
+      name: formData.name.trim(),
+      parent_id: formData.parent_id,
+      is_active: formData.is_active
+    })
+  }
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white">
+        <div className="mt-3">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">
+            {unit ? 'Edit Organisational Unit' : 'Add Organisational Unit'}
+          </h3>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Name</label>
+              <input
+                type="text"
+                required
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+                placeholder="e.g., Port Louis branch"
+                maxLength={100}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Code</label>
+              <input
+                type="text"
+                required
+                disabled={!!unit}
+                pattern="[A-Za-z0-9_\-]+"
+                value={formData.code}
+                onChange={(e) => setFormData(prev => ({ ...prev, code: e.target.value.toUpperCase() }))}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500 disabled:bg-gray-100"
+                placeholder="e.g., PLU"
+                maxLength={20}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Letters, digits, hyphens and underscores. Cannot be changed once created.
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Part of</label>
+              <OrganisationUnitSelect
+                value={formData.parent_id}
+                onChange={(parent_id) => setFormData(prev => ({ ...prev, parent_id }))}
+                emptyLabel="Nothing (top of the hierarchy)"
+                excludeId={unit?.id}
+              />
+            </div>
+
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={formData.is_active}
+                onChange={(e) => setFormData(prev => ({ ...prev, is_active: e.target.checked }))}
+                className="rounded border-gray-300 text-emerald-600 focus:ring-emerald-500"
+              />
+              <span className="text-sm text-gray-700">Active</span>
+            </label>
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="px-4 py-2 text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-700 rounded-md"
+              >
+                {unit ? 'Update' : 'Create'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
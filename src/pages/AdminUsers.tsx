@@ -1,22 +1,25 @@
 import React, { useState } from 'react'
-import { useLoaderData } from 'react-router-dom'
+import { useLoaderData, useNavigate } from 'react-router-dom'
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { queryKeys } from '../lib/queryClient'
-import { Plus, Search, Edit, Trash2, Shield } from 'lucide-react'
-import { adminUsersApi, adminRolesApi, ApiError } from '../lib/dataFetching'
+import { Plus, Search, Edit, Trash2, Shield, KeyRound, Unlock, LogOut, Eye } from 'lucide-react'
+import { adminUsersApi, adminRolesApi, organisationUnitsApi, ApiError } from '../lib/dataFetching'
 import { generateTemporaryPassword } from '../utils/validation'
 import { hasPermission } from '../utils/permissions'
-import type { User, Role, CreateUserData, UpdateUserData } from '../types/auth'
+import type { User, Role, CreateUserData, UpdateUserData, LoginSecuritySettings } from '../types/auth'
 import { useAuth } from '../contexts/AuthContext'
+import { OrganisationUnitSelect } from '../components/OrganisationUnitSelect'
 
 export function AdminUsers() {
   const queryClient = useQueryClient()
-  const { user } = useAuth()
+  const { user, startImpersonation } = useAuth()
+  const navigate = useNavigate()
   const loaderData = useLoaderData() as { users: User[]; roles: Role[] }
 
   // Permissions
   const canManageUsers = hasPermission(user, 'users', 'manage')
   const canViewUsers = hasPermission(user, 'users', 'view') || canManageUsers
+  const canImpersonate = hasPermission(user, 'users', 'impersonate')
 
   const [searchTerm, setSearchTerm] = useState('')
   const [showCreateModal, setShowCreateModal] = useState(false)
@@ -38,11 +41,23 @@ export function AdminUsers() {
     initialData: loaderData.roles,
   })
 
+  const { data: unitsData } = useQuery({
+    queryKey: queryKeys.organisationUnits(),
+    queryFn: organisationUnitsApi.getOrganisationUnits,
+    enabled: canViewUsers,
+  })
+
+  const { data: loginSettings } = useQuery({
+    queryKey: queryKeys.loginSecuritySettings(),
+    queryFn: adminUsersApi.getLoginSecuritySettings,
+    enabled: canManageUsers,
+  })
+
   // Mutations
   const createUserMutation = useMutation({
     mutationFn: adminUsersApi.createUser,
-    onSuccess: () => {
-      setSuccess('User created successfully')
+    onSuccess: (data) => {
+      setSuccess('change_request' in data ? 'The new user is waiting for approval by another administrator' : 'User created successfully')
       setShowCreateModal(false)
       queryClient.invalidateQueries({ queryKey: queryKeys.adminUsers() })
     },
@@ -54,8 +69,8 @@ export function AdminUsers() {
   const updateUserMutation = useMutation({
     mutationFn: ({ userId, userData }: { userId: string; userData: UpdateUserData }) =>
       adminUsersApi.updateUser(userId, userData),
-    onSuccess: () => {
-      setSuccess('User updated successfully')
+    onSuccess: (data) => {
+      setSuccess('change_request' in data ? 'Granting the admin role is waiting for approval by another administrator' : 'User updated successfully')
       setShowEditModal(false)
       setSelectedUser(null)
       queryClient.invalidateQueries({ queryKey: queryKeys.adminUsers() })
@@ -76,6 +91,61 @@ export function AdminUsers() {
     },
   })
 
+  const resetMfaMutation = useMutation({
+    mutationFn: adminUsersApi.resetMfa,
+    onSuccess: () => {
+      setSuccess('Two-factor authentication reset successfully')
+      queryClient.invalidateQueries({ queryKey: queryKeys.adminUsers() })
+    },
+    onError: (error) => {
+      setError(error instanceof ApiError ? error.message : 'Failed to reset two-factor authentication')
+    },
+  })
+
+  const unlockUserMutation = useMutation({
+    mutationFn: adminUsersApi.unlockUser,
+    onSuccess: () => {
+      setSuccess('User unlocked successfully')
+      queryClient.invalidateQueries({ queryKey: queryKeys.adminUsers() })
+    },
+    onError: (error) => {
+      setError(error instanceof ApiError ? error.message : 'Failed to unlock user')
+    },
+  })
+
+  const revokeSessionsMutation = useMutation({
+    mutationFn: adminUsersApi.revokeSessions,
+    onSuccess: ({ revoked }) => {
+      setSuccess(`User signed out of ${revoked} ${revoked === 1 ? 'session' : 'sessions'}`)
+    },
+    onError: (error) => {
+      setError(error instanceof ApiError ? error.message : 'Failed to revoke sessions')
+    },
+  })
+
+  const loginSettingsMutation = useMutation({
+    mutationFn: adminUsersApi.updateLoginSecuritySettings,
+    onSuccess: () => {
+      setSuccess('Sign-in protection settings updated')
+      queryClient.invalidateQueries({ queryKey: queryKeys.loginSecuritySettings() })
+    },
+    onError: (error) => {
+      setError(error instanceof ApiError ? error.message : 'Failed to update sign-in protection settings')
+    },
+  })
+
+  const roleMfaMutation = useMutation({
+    mutationFn: ({ roleId, mfaRequired }: { roleId: string; mfaRequired: boolean }) =>
+      adminRolesApi.setMfaRequired(roleId, mfaRequired),
+    onSuccess: () => {
+      setSuccess('Two-factor authentication requirement updated')
+      queryClient.invalidateQueries({ queryKey: queryKeys.adminRoles() })
+    },
+    onError: (error) => {
+      setError(error instanceof ApiError ? error.message : 'Failed to update the role')
+    },
+  })
+
   const handleCreateUser = (userData: CreateUserData) => canManageUsers && createUserMutation.mutate(userData)
   const handleUpdateUser = (userData: UpdateUserData) => {
     if (!selectedUser || !canManageUsers) return
@@ -86,8 +156,33 @@ export function AdminUsers() {
     if (!confirm('Are you sure you want to delete this user?')) return
     deleteUserMutation.mutate(userId)
   }
+  const handleResetMfa = (userId: string) => {
+    if (!canManageUsers) return
+    if (!confirm("Reset this user's two-factor authentication? Their authenticator and recovery codes will be removed.")) return
+    resetMfaMutation.mutate(userId)
+  }
+  const handleUnlockUser = (userId: string) => canManageUsers && unlockUserMutation.mutate(userId)
+  const handleRevokeSessions = (userId: string) => {
+    if (!canManageUsers) return
+    if (!confirm('Sign this user out of every browser and device? They will need to sign in again.')) return
+    revokeSessionsMutation.mutate(userId)
+  }
+
+  const handleViewAs = async (u: User) => {
+    if (!canImpersonate) return
+    const reason = prompt(`View the app as ${u.full_name || u.email} sees it? Changes are blocked until you exit.\n\nReason (optional):`)
+    if (reason === null) return
+    try {
+      await startImpersonation(u.id, reason)
+      navigate('/dashboard')
+    } catch (err) {
+      setSuccess(null)
+      setError(err instanceof ApiError ? err.message : 'Failed to view the app as the user')
+    }
+  }
 
   const users = usersData?.users || []
+  const unitNames = Object.fromEntries((unitsData?.organisation_units || []).map((unit) => [unit.id, unit.name]))
   const loading =
     usersLoading ||
     (canManageUsers && (createUserMutation.isPending || updateUserMutation.isPending || deleteUserMutation.isPending))
@@ -142,10 +237,34 @@ export function AdminUsers() {
         users={filteredUsers}
         loading={loading}
         canManage={canManageUsers}
+        currentUserId={user?.id}
+        unitNames={unitNames}
+        onViewAs={canImpersonate ? handleViewAs : undefined}
         onEdit={(u) => { setSelectedUser(u); setShowEditModal(true) }}
         onDelete={handleDeleteUser}
+        onResetMfa={handleResetMfa}
+        onUnlock={handleUnlockUser}
+        onRevokeSessions={handleRevokeSessions}
       />
 
+      {/* Two-factor authentication by role */}
+      {canManageUsers && (
+        <RoleMfaSettings
+          roles={roles || []}
+          disabled={roleMfaMutation.isPending}
+          onChange={(roleId, mfaRequired) => roleMfaMutation.mutate({ roleId, mfaRequired })}
+        />
+      )}
+
+      {/* Sign-in throttling and lockout */}
+      {canManageUsers && loginSettings && (
+        <LoginSecuritySettingsForm
+          settings={loginSettings}
+          saving={loginSettingsMutation.isPending}
+          onSubmit={(settings) => loginSettingsMutation.mutate(settings)}
+        />
+      )}
+
       {/* Modals */}
       {canManageUsers && showCreateModal && (
         <CreateUserModal roles={roles || []} onClose={() => setShowCreateModal(false)} onSubmit={handleCreateUser} />
@@ -176,14 +295,27 @@ function UsersTable({
   users,
   loading,
   canManage,
+  currentUserId,
+  unitNames,
+  onViewAs,
   onEdit,
   onDelete,
+  onResetMfa,
+  onUnlock,
+  onRevokeSessions,
 }: {
   users: User[]
   loading: boolean
   canManage: boolean
+  currentUserId?: string
+  unitNames: Record<string, string>
+  // Given to users who may view the app as another user
+  onViewAs?: (u: User) => void
   onEdit: (u: User) => void
   onDelete: (id: string) => void
+  onResetMfa: (id: string) => void
+  onUnlock: (id: string) => void
+  onRevokeSessions: (id: string) => void
 }) {
   if (loading) return (
     <div className="flex items-center justify-center py-12">
@@ -215,22 +347,60 @@ function UsersTable({
                           Password Reset Required
                         </span>
                       )}
+                      {u.mfa_enabled && (
+                        <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                          2FA
+                        </span>
+                      )}
+                      {u.locked_until && (
+                        <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                          Locked until {new Date(u.locked_until).toLocaleTimeString()}
+                        </span>
+                      )}
                     </div>
                   </div>
-                  <div className="text-sm text-gray-500">{u.email}</div>
-                  <div className="text-sm text-gray-500">Roles: {u.roles?.map((r) => r.name).join(', ') || 'No roles'}</div>
+                  <div className="text-sm text-gray-500">
+                    {u.email}
+                    {u.organisation_unit_id && unitNames[u.organisation_unit_id] && <> &middot; {unitNames[u.organisation_unit_id]}</>}
+                  </div>
+                  <div className="text-sm text-gray-500">
+                    Roles: {u.roles?.map((r) => {
+                      const unitId = u.role_units?.[r.id]
+                      return unitId ? `${r.name} (${unitNames[unitId] || 'another unit'})` : r.name
+                    }).join(', ') || 'No roles'}
+                  </div>
                 </div>
               </div>
-              {canManage && (
-                <div className="flex items-center space-x-2">
-                  <button onClick={() => onEdit(u)} className="inline-flex items-center p-2 border border-transparent rounded-full shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500">
-                    <Edit className="h-4 w-4" />
+              <div className="flex items-center space-x-2">
+                {onViewAs && u.id !== currentUserId && (
+                  <button onClick={() => onViewAs(u)} title="View as this user" className="inline-flex items-center p-2 border border-transparent rounded-full shadow-sm text-white bg-amber-500 hover:bg-amber-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-amber-500">
+                    <Eye className="h-4 w-4" />
                   </button>
-                  <button onClick={() => onDelete(u.id)} className="inline-flex items-center p-2 border border-transparent rounded-full shadow-sm text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500">
-                    <Trash2 className="h-4 w-4" />
-                  </button>
-                </div>
-              )}
+                )}
+                {canManage && (
+                  <>
+                    {u.locked_until && (
+                      <button onClick={() => onUnlock(u.id)} title="Unlock sign-in" className="inline-flex items-center p-2 border border-transparent rounded-full shadow-sm text-white bg-emerald-600 hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500">
+                        <Unlock className="h-4 w-4" />
+                      </button>
+                    )}
+                    {u.mfa_enabled && (
+                      <button onClick={() => onResetMfa(u.id)} title="Reset two-factor authentication" className="inline-flex items-center p-2 border border-transparent rounded-full shadow-sm text-white bg-yellow-600 hover:bg-yellow-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-yellow-500">
+                        <KeyRound className="h-4 w-4" />
+                      </button>
+                    )}
+                    <button onClick={() => onRevokeSessions(u.id)} title="Revoke all sessions" className="inline-flex items-center p-2 border border-transparent rounded-full shadow-sm text-white bg-gray-600 hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500">
+                      <LogOut className="h-4 w-4" />
+                    </button>
+                    <button onClick={() => onEdit(u)} className="inline-flex items-center p-2 border border-transparent rounded-full shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500">
+                      <Edit className="h-4 w-4" />
+                    </button>
+                    <button onClick={() => onDelete(u.id)} className="inline-flex items-center p-2 border border-transparent rounded-full shadow-sm text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500">
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </>
+                )}
+              </div>
             </div>
           </li>
         ))}
@@ -239,6 +409,98 @@ function UsersTable({
   )
 }
 
+function RoleMfaSettings({
+  roles,
+  disabled,
+  onChange,
+}: {
+  roles: Role[]
+  disabled: boolean
+  onChange: (roleId: string, mfaRequired: boolean) => void
+}) {
+  return (
+    <div className="bg-white shadow sm:rounded-md p-4">
+      <h2 className="text-lg font-medium text-gray-900">Two-Factor Authentication</h2>
+      <p className="mt-1 text-sm text-gray-600">
+        Users holding a selected role must sign in with an authenticator app; those without one set it up at their next sign-in.
+      </p>
+      <div className="mt-3 grid grid-cols-1 gap-2 sm:grid-cols-3">
+        {roles.map((r) => (
+          <label key={r.id} className="flex items-center space-x-2">
+            <input type="checkbox" checked={!!r.mfa_required} disabled={disabled} onChange={(e) => onChange(r.id, e.target.checked)} />
+            <span className="text-sm text-gray-700">Require for {r.name}</span>
+          </label>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+const LOGIN_SECURITY_FIELDS: { field: keyof LoginSecuritySettings; label: string; min: number }[] = [
+  { field: 'max_failed_attempts', label: 'Failed sign-ins before an account is locked', min: 1 },
+  { field: 'max_failed_attempts_per_ip', label: 'Failed sign-ins before an address is blocked', min: 1 },
+  { field: 'failure_window_minutes', label: 'Minutes a failed sign-in counts', min: 1 },
+  { field: 'lockout_minutes', label: 'Lockout duration (minutes)', min: 1 },
+  { field: 'delay_after_failures', label: 'Failed sign-ins before attempts are slowed down', min: 0 },
+  { field: 'max_delay_seconds', label: 'Longest wait between attempts (seconds)', min: 0 },
+  { field: 'password_requests_per_minute', label: 'Password checks and changes per minute', min: 1 },
+  { field: 'idle_timeout_minutes', label: 'Minutes idle before signing out', min: 1 },
+  { field: 'idle_warning_seconds', label: 'Warning before an idle sign-out (seconds)', min: 1 },
+  { field: 'max_session_hours', label: 'Longest session (hours)', min: 1 },
+]
+
+function LoginSecuritySettingsForm({
+  settings,
+  saving,
+  onSubmit,
+}: {
+  settings: LoginSecuritySettings
+  saving: boolean
+  onSubmit: (settings: LoginSecuritySettings) => void
+}) {
+  const [formData, setFormData] = useState(settings)
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    onSubmit(formData)
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white shadow sm:rounded-md p-4">
+      <h2 className="text-lg font-medium text-gray-900">Sign-in Protection</h2>
+      <p className="mt-1 text-sm text-gray-600">
+        Repeated failed sign-ins are slowed down and then locked out for a while. Locked accounts can be unlocked above. Signed-in users are signed out after a period of inactivity, and after the longest session however active they are.
+      </p>
+      <div className="mt-3 grid grid-cols-1 gap-4 sm:grid-cols-2">
+        {LOGIN_SECURITY_FIELDS.map(({ field, label, min }) => (
+          <div key={field}>
+            <label htmlFor={field} className="block text-sm font-medium text-gray-700">{label}</label>
+            <input
+              id={field}
+              type="number"
+              min={min}
+              step={1}
+              required
+              value={formData[field]}
+              onChange={(e) => setFormData((prev) => ({ ...prev, [field]: parseInt(e.target.value, 10) || 0 }))}
+              className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+            />
+          </div>
+        ))}
+      </div>
+      <div className="mt-4 flex justify-end">
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-4 py-2 text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-700 rounded-md disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </form>
+  )
+}
+
 /* ----------------- Modals ----------------- */
 
 function CreateUserModal({ roles, onClose, onSubmit }: { roles: Role[]; onClose: () => void; onSubmit: (userData: CreateUserData) => void }) {
@@ -247,6 +509,8 @@ function CreateUserModal({ roles, onClose, onSubmit }: { roles: Role[]; onClose:
     password: generateTemporaryPassword(),
     full_name: '',
     role_ids: [] as string[],
+    organisation_unit_id: null as string | null,
+    role_units: {} as Record<string, string>,
     menu_access: [] as string[],
     sub_menu_access: {} as Record<string, string[]>,
     component_access: [] as string[],
@@ -255,7 +519,7 @@ function CreateUserModal({ roles, onClose, onSubmit }: { roles: Role[]; onClose:
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
     if (formData.role_ids.length === 0) return alert('Please select at least one role')
-    onSubmit(formData)
+    onSubmit({ ...formData, role_units: unitsOfRoles(formData.role_ids, formData.role_units) })
   }
 
   const handleRoleChange = (roleId: string, checked: boolean) => {
@@ -265,6 +529,10 @@ function CreateUserModal({ roles, onClose, onSubmit }: { roles: Role[]; onClose:
     }))
   }
 
+  const handleRoleUnitChange = (roleId: string, unitId: string | null) => {
+    setFormData((prev) => ({ ...prev, role_units: withRoleUnit(prev.role_units, roleId, unitId) }))
+  }
+
   return (
     <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
       <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white">
@@ -273,7 +541,8 @@ function CreateUserModal({ roles, onClose, onSubmit }: { roles: Role[]; onClose:
           <InputField label="Email" value={formData.email} onChange={(v) => setFormData((p) => ({ ...p, email: v }))} required />
           <InputField label="Full Name" value={formData.full_name} onChange={(v) => setFormData((p) => ({ ...p, full_name: v }))} required />
           <InputField label="Temporary Password" value={formData.password} onChange={(v) => setFormData((p) => ({ ...p, password: v }))} helper="User will be required to change this password on first login" />
-          <RoleSelector roles={roles} selectedRoles={formData.role_ids} onChange={handleRoleChange} />
+          <UnitField value={formData.organisation_unit_id} onChange={(v) => setFormData((p) => ({ ...p, organisation_unit_id: v }))} />
+          <RoleSelector roles={roles} selectedRoles={formData.role_ids} roleUnits={formData.role_units} onChange={handleRoleChange} onUnitChange={handleRoleUnitChange} />
           <div className="flex justify-end space-x-3 pt-4">
             <button type="button" onClick={onClose} className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md">Cancel</button>
             <button type="submit" className="px-4 py-2 text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-700 rounded-md">Create User</button>
@@ -290,12 +559,14 @@ function EditUserModal({ user, roles, onClose, onSubmit }: { user: User; roles:
     full_name: user.full_name,
     is_active: user.is_active,
     role_ids: user.roles?.map((r) => r.id) || [],
+    organisation_unit_id: user.organisation_unit_id ?? null,
+    role_units: user.role_units || {},
   })
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
     if (formData.role_ids.length === 0) return alert('Please select at least one role')
-    onSubmit(formData)
+    onSubmit({ ...formData, role_units: unitsOfRoles(formData.role_ids, formData.role_units) })
   }
 
   const handleRoleChange = (roleId: string, checked: boolean) => {
@@ -305,6 +576,10 @@ function EditUserModal({ user, roles, onClose, onSubmit }: { user: User; roles:
     }))
   }
 
+  const handleRoleUnitChange = (roleId: string, unitId: string | null) => {
+    setFormData((prev) => ({ ...prev, role_units: withRoleUnit(prev.role_units, roleId, unitId) }))
+  }
+
   return (
     <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
       <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white">
@@ -316,7 +591,8 @@ function EditUserModal({ user, roles, onClose, onSubmit }: { user: User; roles:
             <input type="checkbox" checked={formData.is_active} onChange={(e) => setFormData((p) => ({ ...p, is_active: e.target.checked }))} />
             <span className="text-sm text-gray-700">Active</span>
           </label>
-          <RoleSelector roles={roles} selectedRoles={formData.role_ids} onChange={handleRoleChange} />
+          <UnitField value={formData.organisation_unit_id} onChange={(v) => setFormData((p) => ({ ...p, organisation_unit_id: v }))} />
+          <RoleSelector roles={roles} selectedRoles={formData.role_ids} roleUnits={formData.role_units} onChange={handleRoleChange} onUnitChange={handleRoleUnitChange} />
           <div className="flex justify-end space-x-3 pt-4">
             <button type="button" onClick={onClose} className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md">Cancel</button>
             <button type="submit" className="px-4 py-2 text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-700 rounded-md">Save Changes</button>
@@ -339,16 +615,58 @@ function InputField({ label, value, onChange, required, helper }: { label: strin
   )
 }
 
-function RoleSelector({ roles, selectedRoles, onChange }: { roles: Role[]; selectedRoles: string[]; onChange: (id: string, checked: boolean) => void }) {
+// The units of the selected roles; roles without one are held across the whole organisation
+const unitsOfRoles = (roleIds: string[], roleUnits: Record<string, string>) =>
+  Object.fromEntries(Object.entries(roleUnits).filter(([roleId]) => roleIds.includes(roleId)))
+
+const withRoleUnit = (roleUnits: Record<string, string>, roleId: string, unitId: string | null) => {
+  const next = { ...roleUnits }
+  if (unitId) next[roleId] = unitId
+  else delete next[roleId]
+  return next
+}
+
+function UnitField({ value, onChange }: { value: string | null; onChange: (unitId: string | null) => void }) {
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700">Works in</label>
+      <OrganisationUnitSelect value={value} onChange={onChange} emptyLabel="No unit" />
+    </div>
+  )
+}
+
+function RoleSelector({
+  roles,
+  selectedRoles,
+  roleUnits,
+  onChange,
+  onUnitChange,
+}: {
+  roles: Role[]
+  selectedRoles: string[]
+  roleUnits: Record<string, string>
+  onChange: (id: string, checked: boolean) => void
+  onUnitChange: (id: string, unitId: string | null) => void
+}) {
   return (
     <div>
       <label className="block text-sm font-medium text-gray-700 mb-1">Roles</label>
       <div className="space-y-1">
         {roles.map((r) => (
-          <label key={r.id} className="flex items-center space-x-2">
-            <input type="checkbox" checked={selectedRoles.includes(r.id)} onChange={(e) => onChange(r.id, e.target.checked)} />
-            <span className="text-sm text-gray-700">{r.name}</span>
-          </label>
+          <div key={r.id}>
+            <label className="flex items-center space-x-2">
+              <input type="checkbox" checked={selectedRoles.includes(r.id)} onChange={(e) => onChange(r.id, e.target.checked)} />
+              <span className="text-sm text-gray-700">{r.name}</span>
+            </label>
+            {selectedRoles.includes(r.id) && (
+              <OrganisationUnitSelect
+                value={roleUnits[r.id] || null}
+                onChange={(unitId) => onUnitChange(r.id, unitId)}
+                emptyLabel="Whole organisation"
+                className="ml-6 mt-1 block w-[calc(100%-1.5rem)] border border-gray-300 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+              />
+            )}
+          </div>
         ))}
       </div>
     </div>
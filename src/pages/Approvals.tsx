@@ -0,0 +1,336 @@
+import { useState, type FormEvent } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { queryKeys } from '../lib/queryClient'
+import { ClipboardCheck, Check, X, Undo2 } from 'lucide-react'
+import { approvalsApi, ApiError } from '../lib/dataFetching'
+import { hasPermission } from '../utils/permissions'
+import { useAuth } from '../contexts/AuthContext'
+import type { ApprovalOperation, ApprovalSetting, ChangeRequest, ChangeRequestStatus } from '../types'
+
+const OPERATION_LABELS: Record<ApprovalOperation, string> = {
+  create_user: 'Create a user',
+  grant_admin_role: 'Grant the admin role',
+  change_processing_fee: "Change an account type's processing fee",
+  turn_off_approval: 'Stop requiring approval for a change',
+}
+
+const STATUS_TABS: { value: ChangeRequestStatus; label: string }[] = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'rejected', label: 'Rejected' },
+  { value: 'withdrawn', label: 'Withdrawn' },
+]
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—'
+  if (typeof value === 'string') return value
+  return JSON.stringify(value)
+}
+
+// Inbox of changes held for a second person's approval: creating users, granting the admin role
+// and changing processing fees, as configured below the list
+export function Approvals() {
+  const queryClient = useQueryClient()
+  const { user } = useAuth()
+  const canManageSettings = hasPermission(user, 'settings', 'manage')
+
+  const [status, setStatus] = useState<ChangeRequestStatus>('pending')
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+  const [temporaryPassword, setTemporaryPassword] = useState<string | null>(null)
+
+  const { data, isLoading } = useQuery({
+    queryKey: queryKeys.changeRequests(status),
+    queryFn: () => approvalsApi.getChangeRequests(status),
+  })
+
+  const { data: settings, dataUpdatedAt: settingsLoadedAt } = useQuery({
+    queryKey: queryKeys.approvalSettings(),
+    queryFn: approvalsApi.getSettings,
+  })
+
+  const onReviewed = (message: string) => {
+    setError(null)
+    setSuccess(message)
+    queryClient.invalidateQueries({ queryKey: ['approvals'] })
+  }
+  const onReviewError = (fallback: string) => (err: unknown) => {
+    setSuccess(null)
+    setError(err instanceof ApiError ? err.message : fallback)
+  }
+
+  const approveMutation = useMutation({
+    mutationFn: (id: string) => approvalsApi.approve(id),
+    onSuccess: ({ temporary_password }) => {
+      setTemporaryPassword(temporary_password)
+      onReviewed('Change approved and applied')
+    },
+    onError: onReviewError('Failed to approve the change'),
+  })
+
+  const rejectMutation = useMutation({
+    mutationFn: ({ id, comment }: { id: string; comment: string }) => approvalsApi.reject(id, comment),
+    onSuccess: () => onReviewed('Change rejected'),
+    onError: onReviewError('Failed to reject the change'),
+  })
+
+  const withdrawMutation = useMutation({
+    mutationFn: (id: string) => approvalsApi.withdraw(id),
+    onSuccess: () => onReviewed('Change withdrawn'),
+    onError: onReviewError('Failed to withdraw the change'),
+  })
+
+  const settingsMutation = useMutation({
+    mutationFn: approvalsApi.updateSettings,
+    onSuccess: (data) => {
+      setError(null)
+      setSuccess('change_request' in data ? 'No longer requiring approval is waiting for approval by another administrator' : 'Approval settings updated')
+      queryClient.invalidateQueries({ queryKey: ['approvals'] })
+    },
+    onError: onReviewError('Failed to update approval settings'),
+  })
+
+  const handleApprove = (request: ChangeRequest) => {
+    if (!confirm(`Approve and apply this change?\n\n${request.summary}`)) return
+    approveMutation.mutate(request.id)
+  }
+  const handleReject = (request: ChangeRequest) => {
+    const comment = prompt(`Why is this change rejected?\n\n${request.summary}`)
+    if (!comment?.trim()) return
+    rejectMutation.mutate({ id: request.id, comment })
+  }
+  const handleWithdraw = (request: ChangeRequest) => {
+    if (!confirm('Withdraw this change? It will not be applied.')) return
+    withdrawMutation.mutate(request.id)
+  }
+
+  const changeRequests = data?.change_requests || []
+  const busy = approveMutation.isPending || rejectMutation.isPending || withdrawMutation.isPending
+
+  return (
+    <div className="space-y-6 pt-24">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+          <ClipboardCheck className="h-7 w-7 text-emerald-600 mr-2" />
+          Approvals
+        </h1>
+        <p className="mt-1 text-sm text-gray-600">
+          Sensitive changes wait here until someone other than who made them approves them
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-800 rounded-md p-4">
+          <p>{error}</p>
+        </div>
+      )}
+      {success && (
+        <div className="bg-green-50 border border-green-200 text-green-800 rounded-md p-4">
+          <p>{success}</p>
+          {temporaryPassword && (
+            <p className="mt-2 text-sm">
+              Temporary password of the new user: <span className="font-mono font-semibold">{temporaryPassword}</span>.
+              It is shown only this once; the user is asked to change it when they first sign in.
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Status tabs */}
+      <div className="border-b border-gray-200">
+        <nav className="-mb-px flex space-x-6">
+          {STATUS_TABS.map(tab => (
+            <button
+              key={tab.value}
+              onClick={() => setStatus(tab.value)}
+              className={`py-2 px-1 border-b-2 text-sm font-medium ${status === tab.value ? 'border-emerald-600 text-emerald-700' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </nav>
+      </div>
+
+      {/* Change requests */}
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-600"></div>
+        </div>
+      ) : changeRequests.length === 0 ? (
+        <div className="bg-white shadow sm:rounded-md text-center py-12">
+          <ClipboardCheck className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">No {status} changes</h3>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {changeRequests.map(request => (
+            <ChangeRequestCard
+              key={request.id}
+              request={request}
+              disabled={busy}
+              onApprove={() => handleApprove(request)}
+              onReject={() => handleReject(request)}
+              onWithdraw={() => handleWithdraw(request)}
+            />
+          ))}
+        </div>
+      )}
+
+      {settings && (
+        <ApprovalSettingsForm
+          // Reset to the saved settings whenever they are reloaded, e.g. after a held change
+          key={settingsLoadedAt}
+          settings={settings}
+          editable={canManageSettings}
+          saving={settingsMutation.isPending}
+          onSubmit={(changed) => settingsMutation.mutate(changed)}
+        />
+      )}
+    </div>
+  )
+}
+
+function ChangeRequestCard({
+  request,
+  disabled,
+  onApprove,
+  onReject,
+  onWithdraw,
+}: {
+  request: ChangeRequest
+  disabled: boolean
+  onApprove: () => void
+  onReject: () => void
+  onWithdraw: () => void
+}) {
+  const changedFields = Object.entries(request.changes)
+
+  return (
+    <div className="bg-white shadow sm:rounded-md p-4">
+      <div className="flex items-start justify-between">
+        <div>
+          <div className="text-xs font-medium text-gray-500 uppercase">{OPERATION_LABELS[request.operation]}</div>
+          <div className="mt-1 font-medium text-gray-900">{request.summary}</div>
+          <div className="mt-1 text-sm text-gray-500">
+            Requested by {request.requester?.full_name || request.requester?.email || 'a deleted user'} on {new Date(request.requested_at).toLocaleString()}
+          </div>
+          {request.reviewed_at && (
+            <div className="text-sm text-gray-500">
+              {request.status === 'approved' ? 'Approved' : 'Rejected'} by {request.reviewer?.full_name || request.reviewer?.email || 'a deleted user'} on {new Date(request.reviewed_at).toLocaleString()}
+              {request.review_comment && `: ${request.review_comment}`}
+            </div>
+          )}
+        </div>
+        <div className="flex items-center space-x-2">
+          {request.can_review && (
+            <>
+              <button
+                onClick={onApprove}
+                disabled={disabled}
+                className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md text-white bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50"
+              >
+                <Check className="h-4 w-4 mr-1" />
+                Approve
+              </button>
+              <button
+                onClick={onReject}
+                disabled={disabled}
+                className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md text-red-700 bg-red-100 hover:bg-red-200 disabled:opacity-50"
+              >
+                <X className="h-4 w-4 mr-1" />
+                Reject
+              </button>
+            </>
+          )}
+          {request.can_withdraw && (
+            <button
+              onClick={onWithdraw}
+              disabled={disabled}
+              className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md text-gray-700 bg-gray-100 hover:bg-gray-200 disabled:opacity-50"
+            >
+              <Undo2 className="h-4 w-4 mr-1" />
+              Withdraw
+            </button>
+          )}
+        </div>
+      </div>
+
+      {changedFields.length > 0 && (
+        <table className="mt-4 min-w-full text-xs">
+          <thead>
+            <tr className="text-left text-gray-500 uppercase">
+              <th className="py-1 pr-4 font-medium">Field</th>
+              <th className="py-1 pr-4 font-medium">Before</th>
+              <th className="py-1 font-medium">After</th>
+            </tr>
+          </thead>
+          <tbody>
+            {changedFields.map(([field, change]) => (
+              <tr key={field} className="align-top">
+                <td className="py-1 pr-4 font-mono text-gray-700">{field}</td>
+                <td className="py-1 pr-4 text-red-700 break-all">{formatValue(change.before)}</td>
+                <td className="py-1 text-green-700 break-all">{formatValue(change.after)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
+
+function ApprovalSettingsForm({
+  settings,
+  editable,
+  saving,
+  onSubmit,
+}: {
+  settings: ApprovalSetting[]
+  editable: boolean
+  saving: boolean
+  onSubmit: (settings: Pick<ApprovalSetting, 'operation' | 'requires_approval'>[]) => void
+}) {
+  const [formData, setFormData] = useState(() =>
+    Object.fromEntries(settings.map(setting => [setting.operation, setting.requires_approval])) as Record<ApprovalOperation, boolean>
+  )
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault()
+    onSubmit(settings.map(({ operation }) => ({ operation, requires_approval: formData[operation] })))
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white shadow sm:rounded-md p-4">
+      <h2 className="text-lg font-medium text-gray-900">Changes that need approval</h2>
+      <p className="mt-1 text-sm text-gray-600">
+        These changes are held until a second person with permission to make them approves them.
+        Unticking one is itself held for approval.
+      </p>
+      <div className="mt-3 space-y-2">
+        {settings.map(({ operation }) => (
+          <label key={operation} className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={formData[operation]}
+              disabled={!editable}
+              onChange={(e) => setFormData(prev => ({ ...prev, [operation]: e.target.checked }))}
+              className="h-4 w-4 text-emerald-600 border-gray-300 rounded mr-2"
+            />
+            {OPERATION_LABELS[operation]}
+          </label>
+        ))}
+      </div>
+      {editable && (
+        <div className="mt-4 flex justify-end">
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-700 rounded-md disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      )}
+    </form>
+  )
+}
@@ -0,0 +1,447 @@
+import React, { useRef, useState } from 'react'
+import { Link, useParams } from 'react-router-dom'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { queryKeys } from '../lib/queryClient'
+import { ArrowLeft, Banknote, Upload, RefreshCw, Trash2, Link2, Unlink } from 'lucide-react'
+import { bankReconciliationApi, ApiError } from '../lib/dataFetching'
+import { hasPermission } from '../utils/permissions'
+import { formatCurrency, monthRange } from '../utils/helpers'
+import { useAuth } from '../contexts/AuthContext'
+import { TransactionTypeBadge } from '../components/TransactionTypeBadge'
+import type { BankStatement, BankStatementFormat, BankStatementLine } from '../types'
+
+const FORMAT_LABELS: Record<BankStatementFormat, string> = {
+  csv: 'CSV',
+  mt940: 'MT940',
+  camt053: 'camt.053',
+}
+
+export function BankReconciliation() {
+  const { bankAccountId = '' } = useParams()
+  const queryClient = useQueryClient()
+  const { user } = useAuth()
+  const canManage = hasPermission(user, 'reconciliation', 'manage')
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const [month, setMonth] = useState(new Date().toISOString().slice(0, 7))
+  const [selectedPostings, setSelectedPostings] = useState<Record<string, string>>({})
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  // Clear messages after 5 seconds
+  React.useEffect(() => {
+    if (error || success) {
+      const timer = setTimeout(() => {
+        setError(null)
+        setSuccess(null)
+      }, 5000)
+      return () => clearTimeout(timer)
+    }
+  }, [error, success])
+
+  const { from, to } = monthRange(month)
+
+  const { data: reconciliation, isLoading } = useQuery({
+    queryKey: queryKeys.bankReconciliation(bankAccountId, from, to),
+    queryFn: () => bankReconciliationApi.getReconciliation(bankAccountId, from, to),
+    enabled: !!bankAccountId,
+  })
+
+  const onMutationError = (fallback: string) => (error: Error) => {
+    setError(error instanceof ApiError ? error.message : fallback)
+    setSuccess(null)
+  }
+
+  const importMutation = useMutation({
+    mutationFn: async (file: File) => bankReconciliationApi.importStatement(bankAccountId, { file_name: file.name, content: await file.text() }),
+    onSuccess: (result) => {
+      setSuccess(`Imported ${result.bank_statement.line_count} statement lines; ${result.matched_count} matched automatically`)
+      setError(null)
+      queryClient.invalidateQueries({ queryKey: queryKeys.bankReconciliations() })
+    },
+    onError: onMutationError('Failed to import bank statement'),
+  })
+
+  const autoMatchMutation = useMutation({
+    mutationFn: () => bankReconciliationApi.autoMatch(bankAccountId),
+    onSuccess: (result) => {
+      setSuccess(result.matched_count > 0 ? `${result.matched_count} statement lines matched` : 'No further matches found')
+      setError(null)
+      queryClient.invalidateQueries({ queryKey: queryKeys.bankReconciliations() })
+    },
+    onError: onMutationError('Failed to match statement lines'),
+  })
+
+  const matchMutation = useMutation({
+    mutationFn: ({ lineId, journalLineId }: { lineId: string; journalLineId: string | null }) =>
+      bankReconciliationApi.matchStatementLine(lineId, journalLineId),
+    onSuccess: (_, { lineId, journalLineId }) => {
+      setSuccess(journalLineId ? 'Statement line matched' : 'Match removed')
+      setError(null)
+      setSelectedPostings(prev => ({ ...prev, [lineId]: '' }))
+      queryClient.invalidateQueries({ queryKey: queryKeys.bankReconciliations() })
+    },
+    onError: onMutationError('Failed to update match'),
+  })
+
+  const deleteStatementMutation = useMutation({
+    mutationFn: bankReconciliationApi.deleteStatement,
+    onSuccess: () => {
+      setSuccess('Bank statement deleted')
+      setError(null)
+      queryClient.invalidateQueries({ queryKey: queryKeys.bankReconciliations() })
+    },
+    onError: onMutationError('Failed to delete bank statement'),
+  })
+
+  const handleFileSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    if (file.size > 2 * 1024 * 1024) {
+      setError('Statement files must be smaller than 2 MB')
+      return
+    }
+    importMutation.mutate(file)
+  }
+
+  const handleDeleteStatement = (statement: BankStatement) => {
+    if (!confirm(`Delete statement ${statement.file_name}? Its lines and their matches will be removed.`)) return
+    deleteStatementMutation.mutate(statement.id)
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12 pt-24">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-600"></div>
+      </div>
+    )
+  }
+
+  if (!reconciliation) {
+    return (
+      <div className="text-center py-12 pt-24">
+        <h2 className="text-xl font-semibold text-gray-900">Bank account not found</h2>
+        <Link to="/admin/bank-accounts" className="text-emerald-600 hover:text-emerald-700 text-sm mt-2 inline-block">
+          Back to bank accounts
+        </Link>
+      </div>
+    )
+  }
+
+  const { summary, statements, statement_lines: statementLines, unmatched_postings: unmatchedPostings } = reconciliation
+  const unmatchedLines = statementLines.filter(line => !line.journal_line_id)
+  const matchedLines = statementLines.filter(line => line.journal_line_id)
+  const busy = importMutation.isPending || autoMatchMutation.isPending || matchMutation.isPending || deleteStatementMutation.isPending
+
+  const candidatesFor = (line: BankStatementLine) =>
+    unmatchedPostings.filter(posting => posting.amount === Number(line.amount))
+
+  return (
+    <div className="space-y-6 pt-24">
+      <Link to="/admin/bank-accounts" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900">
+        <ArrowLeft className="h-4 w-4 mr-1" />
+        Bank Accounts
+      </Link>
+
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+            <Banknote className="h-7 w-7 text-emerald-600 mr-2" />
+            {reconciliation.bank_account.name} Reconciliation
+          </h1>
+          <p className="mt-1 text-sm text-gray-600">Account Number: {reconciliation.bank_account.account_number}</p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <input
+            type="month"
+            value={month}
+            onChange={(e) => e.target.value && setMonth(e.target.value)}
+            className="border border-gray-300 rounded-md px-3 py-2 bg-white focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+          />
+          {canManage && (
+            <>
+              <button
+                onClick={() => autoMatchMutation.mutate()}
+                disabled={busy}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500 disabled:opacity-50"
+              >
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Auto-match
+              </button>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={busy}
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-emerald-600 hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500 disabled:opacity-50"
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                {importMutation.isPending ? 'Importing...' : 'Import Statement'}
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.txt,.sta,.940,.mt940,.xml"
+                onChange={handleFileSelected}
+                className="hidden"
+              />
+            </>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      {success && (
+        <div className="bg-green-50 border border-green-200 rounded-md p-4">
+          <p className="text-green-800">{success}</p>
+        </div>
+      )}
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 gap-5 sm:grid-cols-4">
+        <div className="bg-white overflow-hidden shadow rounded-lg p-5">
+          <dt className="text-sm font-medium text-gray-500 truncate">Ledger balance</dt>
+          <dd className="mt-1 text-2xl font-semibold text-gray-900">{formatCurrency(summary.ledger_closing_balance)}</dd>
+        </div>
+        <div className="bg-white overflow-hidden shadow rounded-lg p-5">
+          <dt className="text-sm font-medium text-gray-500 truncate">Statement balance</dt>
+          <dd className="mt-1 text-2xl font-semibold text-gray-900">
+            {summary.statement_closing_balance !== null ? formatCurrency(summary.statement_closing_balance) : '—'}
+          </dd>
+        </div>
+        <div className="bg-white overflow-hidden shadow rounded-lg p-5">
+          <dt className="text-sm font-medium text-gray-500 truncate">Difference</dt>
+          <dd className={`mt-1 text-2xl font-semibold ${summary.difference === null ? 'text-gray-900' : summary.difference === 0 ? 'text-green-600' : 'text-red-600'}`}>
+            {summary.difference !== null ? formatCurrency(summary.difference) : '—'}
+          </dd>
+        </div>
+        <div className="bg-white overflow-hidden shadow rounded-lg p-5">
+          <dt className="text-sm font-medium text-gray-500 truncate">Statement lines matched</dt>
+          <dd className="mt-1 text-2xl font-semibold text-gray-900">{summary.matched_count} of {summary.statement_line_count}</dd>
+        </div>
+      </div>
+
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-6">
+        <h3 className="text-lg leading-6 font-medium text-gray-900 mb-4">
+          Reconciliation for {new Date(from).toLocaleDateString()} to {new Date(to).toLocaleDateString()}
+        </h3>
+        <dl className="text-sm divide-y divide-gray-100">
+          <div className="flex justify-between py-2">
+            <dt className="text-gray-500">Ledger balance at start of period</dt>
+            <dd className="text-gray-900">{formatCurrency(summary.ledger_opening_balance)}</dd>
+          </div>
+          <div className="flex justify-between py-2">
+            <dt className="text-gray-500">Ledger balance at end of period</dt>
+            <dd className="text-gray-900">{formatCurrency(summary.ledger_closing_balance)}</dd>
+          </div>
+          <div className="flex justify-between py-2">
+            <dt className="text-gray-500">Less postings not yet on a statement ({unmatchedPostings.length})</dt>
+            <dd className="text-gray-900">{formatCurrency(-summary.unmatched_posting_total)}</dd>
+          </div>
+          <div className="flex justify-between py-2">
+            <dt className="text-gray-500">Add statement lines not yet in the ledger ({unmatchedLines.length})</dt>
+            <dd className="text-gray-900">{formatCurrency(summary.unmatched_statement_total)}</dd>
+          </div>
+          <div className="flex justify-between py-2 font-medium">
+            <dt className="text-gray-900">Adjusted ledger balance</dt>
+            <dd className="text-gray-900">{formatCurrency(summary.adjusted_ledger_balance)}</dd>
+          </div>
+          <div className="flex justify-between py-2 font-medium">
+            <dt className="text-gray-900">Bank statement closing balance</dt>
+            <dd className="text-gray-900">
+              {summary.statement_closing_balance !== null ? formatCurrency(summary.statement_closing_balance) : 'No statement ends in this period'}
+            </dd>
+          </div>
+        </dl>
+      </div>
+
+      {/* Unmatched statement lines */}
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-6">
+        <h3 className="text-lg leading-6 font-medium text-gray-900 mb-4">Unmatched Statement Lines</h3>
+        {unmatchedLines.length === 0 ? (
+          <p className="text-sm text-gray-500">Every statement line in this period is matched to a ledger posting.</p>
+        ) : (
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 uppercase">
+                <th className="py-2 font-medium">Date</th>
+                <th className="py-2 font-medium">Description</th>
+                <th className="py-2 font-medium">Reference</th>
+                <th className="py-2 font-medium text-right">Amount</th>
+                {canManage && <th className="py-2 font-medium pl-4">Match to posting</th>}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {unmatchedLines.map(line => {
+                const candidates = candidatesFor(line)
+                return (
+                  <tr key={line.id}>
+                    <td className="py-2 text-gray-700">{new Date(line.value_date).toLocaleDateString()}</td>
+                    <td className="py-2 text-gray-700">{line.description || '—'}</td>
+                    <td className="py-2 text-gray-500">{line.reference || '—'}</td>
+                    <td className={`py-2 text-right ${Number(line.amount) < 0 ? 'text-red-600' : 'text-gray-900'}`}>{formatCurrency(line.amount)}</td>
+                    {canManage && (
+                      <td className="py-2 pl-4">
+                        {candidates.length === 0 ? (
+                          <span className="text-xs text-gray-400">No posting of this amount in the period</span>
+                        ) : (
+                          <div className="flex items-center space-x-2">
+                            <select
+                              value={selectedPostings[line.id] || ''}
+                              onChange={(e) => setSelectedPostings(prev => ({ ...prev, [line.id]: e.target.value }))}
+                              className="border border-gray-300 rounded-md px-2 py-1 text-sm bg-white focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+                            >
+                              <option value="">Select a posting</option>
+                              {candidates.map(posting => (
+                                <option key={posting.id} value={posting.id}>
+                                  {posting.journal_entry.entry_number} · {new Date(posting.journal_entry.posted_at).toLocaleDateString()}
+                                  {posting.journal_entry.reference ? ` · ${posting.journal_entry.reference}` : ''}
+                                </option>
+                              ))}
+                            </select>
+                            <button
+                              onClick={() => matchMutation.mutate({ lineId: line.id, journalLineId: selectedPostings[line.id] })}
+                              disabled={!selectedPostings[line.id] || busy}
+                              className="inline-flex items-center p-1.5 border border-transparent rounded-full text-white bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50"
+                              title="Match"
+                            >
+                              <Link2 className="h-4 w-4" />
+                            </button>
+                          </div>
+                        )}
+                      </td>
+                    )}
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Unmatched ledger postings */}
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-6">
+        <h3 className="text-lg leading-6 font-medium text-gray-900 mb-4">Unmatched Ledger Postings</h3>
+        {unmatchedPostings.length === 0 ? (
+          <p className="text-sm text-gray-500">Every ledger posting in this period appears on a bank statement.</p>
+        ) : (
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 uppercase">
+                <th className="py-2 font-medium">Date</th>
+                <th className="py-2 font-medium">Entry</th>
+                <th className="py-2 font-medium">Description</th>
+                <th className="py-2 font-medium text-right">Amount</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {unmatchedPostings.map(posting => (
+                <tr key={posting.id}>
+                  <td className="py-2 text-gray-700">{new Date(posting.journal_entry.posted_at).toLocaleDateString()}</td>
+                  <td className="py-2">
+                    <span className="text-gray-900 mr-2">{posting.journal_entry.entry_number}</span>
+                    <TransactionTypeBadge type={posting.journal_entry.entry_type} />
+                  </td>
+                  <td className="py-2 text-gray-500">{posting.journal_entry.description || posting.journal_entry.reference || '—'}</td>
+                  <td className={`py-2 text-right ${posting.amount < 0 ? 'text-red-600' : 'text-gray-900'}`}>{formatCurrency(posting.amount)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Matched lines */}
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-6">
+        <h3 className="text-lg leading-6 font-medium text-gray-900 mb-4">Matched Statement Lines</h3>
+        {matchedLines.length === 0 ? (
+          <p className="text-sm text-gray-500">No statement lines in this period are matched yet.</p>
+        ) : (
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 uppercase">
+                <th className="py-2 font-medium">Date</th>
+                <th className="py-2 font-medium">Description</th>
+                <th className="py-2 font-medium text-right">Amount</th>
+                <th className="py-2 font-medium pl-4">Posting</th>
+                <th className="py-2 font-medium">Match</th>
+                {canManage && <th className="py-2"></th>}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {matchedLines.map(line => (
+                <tr key={line.id}>
+                  <td className="py-2 text-gray-700">{new Date(line.value_date).toLocaleDateString()}</td>
+                  <td className="py-2 text-gray-700">{line.description || line.reference || '—'}</td>
+                  <td className={`py-2 text-right ${Number(line.amount) < 0 ? 'text-red-600' : 'text-gray-900'}`}>{formatCurrency(line.amount)}</td>
+                  <td className="py-2 pl-4 text-gray-900">
+                    {line.journal_line?.journal_entry.entry_number}
+                    <span className="ml-2 text-xs text-gray-500">
+                      {line.journal_line && new Date(line.journal_line.journal_entry.posted_at).toLocaleDateString()}
+                    </span>
+                  </td>
+                  <td className="py-2 text-gray-500 capitalize">{line.match_type}</td>
+                  {canManage && (
+                    <td className="py-2 text-right">
+                      <button
+                        onClick={() => matchMutation.mutate({ lineId: line.id, journalLineId: null })}
+                        disabled={busy}
+                        className="text-gray-500 hover:text-red-600 disabled:opacity-50"
+                        title="Remove match"
+                      >
+                        <Unlink className="h-4 w-4" />
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Statements */}
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-6">
+        <h3 className="text-lg leading-6 font-medium text-gray-900 mb-4">Imported Statements</h3>
+        {statements.length === 0 ? (
+          <p className="text-sm text-gray-500">No statements have been imported for this bank account.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {statements.map(statement => (
+              <li key={statement.id} className="py-3 flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    {statement.file_name}
+                    <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-700">
+                      {FORMAT_LABELS[statement.format]}
+                    </span>
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {new Date(statement.period_start).toLocaleDateString()} to {new Date(statement.period_end).toLocaleDateString()}
+                    {' · '}{statement.line_count} lines
+                    {statement.closing_balance !== null && ` · Closing ${formatCurrency(statement.closing_balance)}`}
+                    {statement.statement_reference && ` · Ref ${statement.statement_reference}`}
+                  </p>
+                </div>
+                {canManage && (
+                  <button
+                    onClick={() => handleDeleteStatement(statement)}
+                    disabled={busy}
+                    className="text-red-600 hover:text-red-700 disabled:opacity-50"
+                    title="Delete statement"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,590 @@
+import React, { useState } from 'react'
+import { Link, useParams } from 'react-router-dom'
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { queryKeys } from '../lib/queryClient'
+import { ArrowLeft, Wallet, CheckCircle, XCircle, UserCheck, FileText, Upload, Target, Edit, Download } from 'lucide-react'
+import { customerAccountsApi, transactionsApi, memberDocumentsApi, accountStatementsApi, ApiError } from '../lib/dataFetching'
+import { hasPermission } from '../utils/permissions'
+import { formatCurrency, calculateSavingsGoalProgress, addDays, monthRange, downloadFile } from '../utils/helpers'
+import { useAuth } from '../contexts/AuthContext'
+import { AccountStatusBadge } from '../components/AccountStatusBadge'
+import { TransactionTypeBadge } from '../components/TransactionTypeBadge'
+import { DocumentStatusBadge } from '../components/DocumentStatusBadge'
+import { DocumentViewButton } from '../components/DocumentViewButton'
+import { UploadDocumentModal } from '../components/UploadDocumentModal'
+import { SavingsGoalStatusBadge } from '../components/SavingsGoalStatusBadge'
+import { SavingsGoalProgressBar } from '../components/SavingsGoalProgressBar'
+import { StatementFileButtons } from '../components/StatementFileButtons'
+import type { AccountStatementFormat, CustomerAccountStatus, UpdateCustomerAccountData, UploadMemberDocumentData } from '../types'
+
+const STATUS_ACTIONS: Record<CustomerAccountStatus, { status: CustomerAccountStatus; label: string; className: string }[]> = {
+  pending: [
+    { status: 'active', label: 'Activate', className: 'bg-emerald-600 hover:bg-emerald-700 focus:ring-emerald-500' },
+    { status: 'closed', label: 'Close', className: 'bg-red-600 hover:bg-red-700 focus:ring-red-500' },
+  ],
+  active: [
+    { status: 'dormant', label: 'Mark Dormant', className: 'bg-gray-600 hover:bg-gray-700 focus:ring-gray-500' },
+    { status: 'closed', label: 'Close', className: 'bg-red-600 hover:bg-red-700 focus:ring-red-500' },
+  ],
+  dormant: [
+    { status: 'active', label: 'Reactivate', className: 'bg-emerald-600 hover:bg-emerald-700 focus:ring-emerald-500' },
+    { status: 'closed', label: 'Close', className: 'bg-red-600 hover:bg-red-700 focus:ring-red-500' },
+  ],
+  closed: [],
+}
+
+export function CustomerAccountDetail() {
+  const { accountId = '' } = useParams()
+  const queryClient = useQueryClient()
+  const { user } = useAuth()
+  const canManageAccounts = hasPermission(user, 'accounts', 'manage')
+  const canUploadDocuments = hasPermission(user, 'documents', 'upload')
+  const canViewStatements = hasPermission(user, 'statements', 'view')
+
+  // Statements default to the last full month
+  const lastMonth = monthRange(addDays(`${new Date().toISOString().slice(0, 7)}-01`, -1).slice(0, 7))
+
+  const [uploadKindCode, setUploadKindCode] = useState<string | null>(null)
+  const [showGoalModal, setShowGoalModal] = useState(false)
+  const [statementFrom, setStatementFrom] = useState(lastMonth.from)
+  const [statementTo, setStatementTo] = useState(lastMonth.to)
+  const [downloadingFormat, setDownloadingFormat] = useState<AccountStatementFormat | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  // Clear messages after 5 seconds
+  React.useEffect(() => {
+    if (error || success) {
+      const timer = setTimeout(() => {
+        setError(null)
+        setSuccess(null)
+      }, 5000)
+      return () => clearTimeout(timer)
+    }
+  }, [error, success])
+
+  const { data, isLoading } = useQuery({
+    queryKey: queryKeys.customerAccount(accountId),
+    queryFn: () => customerAccountsApi.getCustomerAccount(accountId),
+    enabled: !!accountId,
+  })
+
+  const {
+    data: transactionsData,
+    isLoading: transactionsLoading,
+    fetchNextPage: fetchMoreTransactions,
+    hasNextPage: hasMoreTransactions,
+    isFetchingNextPage: fetchingMoreTransactions
+  } = useInfiniteQuery({
+    queryKey: queryKeys.accountTransactions(accountId),
+    queryFn: ({ pageParam }) => transactionsApi.getTransactions({ customer_account_id: accountId }, pageParam),
+    initialPageParam: 0,
+    getNextPageParam: (lastPage) => lastPage.next_page,
+    enabled: !!accountId,
+  })
+
+  const { data: statementsData } = useQuery({
+    queryKey: queryKeys.accountStatements(accountId),
+    queryFn: () => accountStatementsApi.getStatements({ customer_account_id: accountId }),
+    enabled: !!accountId && canViewStatements,
+  })
+
+  const updateAccountMutation = useMutation({
+    mutationFn: (accountData: UpdateCustomerAccountData) => customerAccountsApi.updateCustomerAccount(accountId, accountData),
+    onSuccess: () => {
+      setSuccess('Account updated successfully')
+      setError(null)
+      setShowGoalModal(false)
+      queryClient.invalidateQueries({ queryKey: queryKeys.customerAccounts() })
+      queryClient.invalidateQueries({ queryKey: queryKeys.members() })
+    },
+    onError: (error) => {
+      setError(error instanceof ApiError ? error.message : 'Failed to update account')
+      setSuccess(null)
+    },
+  })
+
+  const uploadDocumentMutation = useMutation({
+    mutationFn: (documentData: UploadMemberDocumentData) => memberDocumentsApi.uploadDocument(documentData),
+    onSuccess: () => {
+      setSuccess('Document uploaded and sent for review')
+      setError(null)
+      setUploadKindCode(null)
+      queryClient.invalidateQueries({ queryKey: queryKeys.customerAccount(accountId) })
+      queryClient.invalidateQueries({ queryKey: queryKeys.memberDocuments() })
+    },
+    onError: (error) => {
+      setError(error instanceof ApiError ? error.message : 'Failed to upload document')
+      setSuccess(null)
+    },
+  })
+
+  const account = data?.customer_account
+  const checklist = data?.document_checklist || []
+  const transactions = transactionsData?.pages.flatMap(page => page.transactions) || []
+  const statements = statementsData?.statements || []
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12 pt-24">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-600"></div>
+      </div>
+    )
+  }
+
+  if (!account) {
+    return (
+      <div className="text-center py-12 pt-24">
+        <h2 className="text-xl font-semibold text-gray-900">Account not found</h2>
+        <Link to="/accounts" className="text-emerald-600 hover:text-emerald-700 text-sm mt-2 inline-block">
+          Back to customer accounts
+        </Link>
+      </div>
+    )
+  }
+
+  const outstandingCount = checklist.filter(item => item.status !== 'verified').length
+  const goalProgress = calculateSavingsGoalProgress(account)
+
+  const handleStatusChange = (status: CustomerAccountStatus, label: string) => {
+    if (status === 'closed' && !confirm(`Are you sure you want to close account ${account.account_number}? This action cannot be undone.`)) return
+    if (status !== 'closed' && !confirm(`${label} account ${account.account_number}?`)) return
+    updateAccountMutation.mutate({ status })
+  }
+
+  const handleDownloadStatement = async (format: AccountStatementFormat) => {
+    setDownloadingFormat(format)
+    try {
+      const file = await accountStatementsApi.downloadStatement(account.id, statementFrom, statementTo, format)
+      downloadFile(`statement-${account.account_number}-${statementFrom}-${statementTo}.${format}`, file)
+    } catch (error) {
+      setError(error instanceof ApiError ? error.message : 'Failed to download statement')
+      setSuccess(null)
+    } finally {
+      setDownloadingFormat(null)
+    }
+  }
+
+  const details: { label: string; value: React.ReactNode }[] = [
+    { label: 'Account Type', value: account.account_type?.name || 'Unknown' },
+    { label: 'Balance', value: formatCurrency(account.balance) },
+    {
+      label: 'Processing Fee',
+      value: Number(account.processing_fee) > 0 && !account.processing_fee_entry_id
+        ? `${formatCurrency(account.processing_fee)} (owed, charged once the account holds enough)`
+        : formatCurrency(account.processing_fee)
+    },
+    { label: 'Opened', value: new Date(account.opened_at).toLocaleDateString() },
+    { label: 'Activated', value: account.activated_at ? new Date(account.activated_at).toLocaleDateString() : 'Not yet activated' },
+    { label: 'Closed', value: account.closed_at ? new Date(account.closed_at).toLocaleDateString() : '—' },
+  ]
+
+  return (
+    <div className="space-y-6 pt-24">
+      <Link to="/accounts" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900">
+        <ArrowLeft className="h-4 w-4 mr-1" />
+        Customer Accounts
+      </Link>
+
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+            <Wallet className="h-7 w-7 text-emerald-600 mr-2" />
+            {account.account_number}
+            <AccountStatusBadge status={account.status} className="ml-3" />
+          </h1>
+          {account.member && (
+            <p className="mt-1 text-sm text-gray-600 flex items-center">
+              <UserCheck className="h-4 w-4 mr-1" />
+              <Link to={`/admin/members/${account.member.id}`} className="text-emerald-600 hover:text-emerald-700">
+                {account.member.first_name} {account.member.last_name}
+              </Link>
+              <span className="ml-1">({account.member.member_number})</span>
+            </p>
+          )}
+        </div>
+        {canManageAccounts && (
+          <div className="flex space-x-2">
+            {STATUS_ACTIONS[account.status].map(action => (
+              <button
+                key={action.status}
+                onClick={() => handleStatusChange(action.status, action.label)}
+                disabled={updateAccountMutation.isPending}
+                className={`inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white focus:outline-none focus:ring-2 focus:ring-offset-2 disabled:opacity-50 ${action.className}`}
+              >
+                {action.label}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      {success && (
+        <div className="bg-green-50 border border-green-200 rounded-md p-4">
+          <p className="text-green-800">{success}</p>
+        </div>
+      )}
+
+      {/* Account Details */}
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-6">
+        <h3 className="text-lg leading-6 font-medium text-gray-900 mb-4">Account Details</h3>
+        <dl className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {details.map(({ label, value }) => (
+            <div key={label}>
+              <dt className="text-sm text-gray-500">{label}</dt>
+              <dd className="text-sm font-medium text-gray-900">{value}</dd>
+            </div>
+          ))}
+        </dl>
+        {account.notes && (
+          <div className="mt-4 pt-4 border-t border-gray-100">
+            <p className="text-sm text-gray-500">Notes</p>
+            <p className="text-sm text-gray-900 whitespace-pre-line">{account.notes}</p>
+          </div>
+        )}
+      </div>
+
+      {/* Savings Goal */}
+      {account.account_type?.has_savings_goal && (
+        <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg leading-6 font-medium text-gray-900 flex items-center">
+              <Target className="h-5 w-5 text-gray-400 mr-2" />
+              Savings Goal
+              {goalProgress && account.status !== 'closed' && <SavingsGoalStatusBadge status={goalProgress.status} className="ml-3" />}
+            </h3>
+            {canManageAccounts && account.status !== 'closed' && (
+              <button
+                onClick={() => setShowGoalModal(true)}
+                className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+              >
+                <Edit className="h-4 w-4 mr-1" />
+                {goalProgress ? 'Edit Goal' : 'Set Goal'}
+              </button>
+            )}
+          </div>
+          {!goalProgress ? (
+            <p className="text-sm text-gray-500">No savings target has been set for this account.</p>
+          ) : (
+            <div className="space-y-4">
+              <div>
+                <div className="flex justify-between text-sm mb-1">
+                  <span className="text-gray-700">
+                    {formatCurrency(goalProgress.balance)} of {formatCurrency(goalProgress.goal_amount)}
+                  </span>
+                  <span className="font-medium text-gray-900">{goalProgress.percent.toFixed(0)}%</span>
+                </div>
+                <SavingsGoalProgressBar progress={goalProgress} />
+              </div>
+              <dl className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div>
+                  <dt className="text-sm text-gray-500">Target Date</dt>
+                  <dd className="text-sm font-medium text-gray-900">{new Date(goalProgress.goal_date).toLocaleDateString()}</dd>
+                </div>
+                <div>
+                  <dt className="text-sm text-gray-500">Still Needed per Month</dt>
+                  <dd className="text-sm font-medium text-gray-900">{formatCurrency(goalProgress.required_monthly)}</dd>
+                </div>
+                <div>
+                  <dt className="text-sm text-gray-500">Average Saved per Month</dt>
+                  <dd className="text-sm font-medium text-gray-900">{formatCurrency(goalProgress.average_monthly)}</dd>
+                </div>
+                <div>
+                  <dt className="text-sm text-gray-500">Projected by Target Date</dt>
+                  <dd className="text-sm font-medium text-gray-900">{formatCurrency(goalProgress.projected_balance)}</dd>
+                </div>
+              </dl>
+            </div>
+          )}
+        </div>
+      )}
+
+      {canManageAccounts && showGoalModal && (
+        <SavingsGoalModal
+          goalAmount={account.goal_amount}
+          goalDate={account.goal_date}
+          isSubmitting={updateAccountMutation.isPending}
+          onClose={() => setShowGoalModal(false)}
+          onSubmit={(goalData) => updateAccountMutation.mutate(goalData)}
+        />
+      )}
+
+      {/* Documents Checklist */}
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-6">
+        <h3 className="text-lg leading-6 font-medium text-gray-900 mb-4 flex items-center">
+          <FileText className="h-5 w-5 text-gray-400 mr-2" />
+          Required Documents
+        </h3>
+        {checklist.length === 0 ? (
+          <p className="text-sm text-gray-500">No documents required for this account type.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {checklist.map(item => (
+              <li key={item.code} className="py-2 flex items-center justify-between">
+                <div className="flex items-center">
+                  {item.status === 'verified' ? (
+                    <CheckCircle className="h-4 w-4 text-green-600 mr-2" />
+                  ) : (
+                    <XCircle className="h-4 w-4 text-red-500 mr-2" />
+                  )}
+                  <span className="text-sm text-gray-700">{item.name}</span>
+                  <DocumentStatusBadge status={item.status} className="ml-2" />
+                  {item.expires_on && (
+                    <span className="ml-2 text-xs text-gray-500">
+                      Expires {new Date(item.expires_on).toLocaleDateString()}
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center space-x-2">
+                  {item.document_id && <DocumentViewButton documentId={item.document_id} onError={setError} />}
+                  {canUploadDocuments && account.member && item.status !== 'verified' && item.status !== 'pending' && (
+                    <button
+                      onClick={() => setUploadKindCode(item.code)}
+                      className="inline-flex items-center px-3 py-1.5 border border-transparent text-xs font-medium rounded-md text-white bg-emerald-600 hover:bg-emerald-700"
+                    >
+                      <Upload className="h-3 w-3 mr-1" />
+                      Upload
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+        {account.status !== 'active' && account.status !== 'closed' && outstandingCount > 0 && (
+          <p className="mt-3 text-xs text-yellow-700">
+            The account cannot be activated until every required document has been verified.
+          </p>
+        )}
+      </div>
+
+      {canUploadDocuments && account.member && uploadKindCode && (
+        <UploadDocumentModal
+          memberId={account.member.id}
+          documentKindCode={uploadKindCode}
+          accounts={[account]}
+          isUploading={uploadDocumentMutation.isPending}
+          onClose={() => setUploadKindCode(null)}
+          onSubmit={(documentData) => uploadDocumentMutation.mutate(documentData)}
+        />
+      )}
+
+      {/* Transactions */}
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-6">
+        <h3 className="text-lg leading-6 font-medium text-gray-900 mb-4">Transactions</h3>
+        {transactionsLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-emerald-600"></div>
+          </div>
+        ) : transactions.length === 0 ? (
+          <p className="text-sm text-gray-500">No transactions have been posted to this account.</p>
+        ) : (
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 uppercase">
+                <th className="py-2 font-medium">Date</th>
+                <th className="py-2 font-medium">Entry</th>
+                <th className="py-2 font-medium">Description</th>
+                <th className="py-2 font-medium text-right">Debit</th>
+                <th className="py-2 font-medium text-right">Credit</th>
+                <th className="py-2 font-medium text-right">Balance</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {transactions.map(entry => {
+                const line = entry.lines.find(l => l.customer_account_id === account.id)
+                return (
+                  <tr key={entry.id}>
+                    <td className="py-2 text-gray-700">{new Date(entry.posted_at).toLocaleDateString()}</td>
+                    <td className="py-2">
+                      <span className="text-gray-900 mr-2">{entry.entry_number}</span>
+                      <TransactionTypeBadge type={entry.entry_type} />
+                    </td>
+                    <td className="py-2 text-gray-500">{entry.description || entry.reference || '—'}</td>
+                    <td className="py-2 text-right text-gray-900">{line && Number(line.debit) > 0 ? formatCurrency(line.debit) : ''}</td>
+                    <td className="py-2 text-right text-gray-900">{line && Number(line.credit) > 0 ? formatCurrency(line.credit) : ''}</td>
+                    <td className="py-2 text-right text-gray-900">{line?.balance_after != null ? formatCurrency(line.balance_after) : ''}</td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        )}
+
+        {hasMoreTransactions && (
+          <div className="mt-4 text-center">
+            <button
+              onClick={() => fetchMoreTransactions()}
+              disabled={fetchingMoreTransactions}
+              className="text-sm text-emerald-600 hover:text-emerald-700 font-medium disabled:opacity-50"
+            >
+              {fetchingMoreTransactions ? 'Loading...' : 'Load more'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Statements */}
+      {canViewStatements && (
+        <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-6">
+          <h3 className="text-lg leading-6 font-medium text-gray-900 mb-4 flex items-center">
+            <FileText className="h-5 w-5 text-gray-400 mr-2" />
+            Statements
+          </h3>
+          <div className="flex flex-wrap items-end gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">From</label>
+              <input
+                type="date"
+                value={statementFrom}
+                max={statementTo}
+                onChange={(e) => setStatementFrom(e.target.value)}
+                className="mt-1 block border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500 sm:text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">To</label>
+              <input
+                type="date"
+                value={statementTo}
+                min={statementFrom}
+                onChange={(e) => setStatementTo(e.target.value)}
+                className="mt-1 block border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500 sm:text-sm"
+              />
+            </div>
+            {(['pdf', 'csv'] as const).map(format => (
+              <button
+                key={format}
+                onClick={() => handleDownloadStatement(format)}
+                disabled={!statementFrom || !statementTo || statementFrom > statementTo || downloadingFormat !== null}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500 disabled:opacity-50"
+              >
+                <Download className="h-4 w-4 mr-2" />
+                {downloadingFormat === format ? 'Preparing...' : `Download ${format.toUpperCase()}`}
+              </button>
+            ))}
+          </div>
+
+          {statements.length > 0 && (
+            <div className="mt-6">
+              <h4 className="text-sm font-medium text-gray-700 mb-2">Monthly statements</h4>
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 uppercase">
+                    <th className="py-2 font-medium">Period</th>
+                    <th className="py-2 font-medium text-right">Opening</th>
+                    <th className="py-2 font-medium text-right">Closing</th>
+                    <th className="py-2 font-medium text-right">Transactions</th>
+                    <th className="py-2 font-medium"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {statements.map(statement => (
+                    <tr key={statement.id}>
+                      <td className="py-2 text-gray-900">
+                        {new Date(statement.period_start).toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}
+                      </td>
+                      <td className="py-2 text-right text-gray-700">{formatCurrency(statement.opening_balance)}</td>
+                      <td className="py-2 text-right text-gray-900">{formatCurrency(statement.closing_balance)}</td>
+                      <td className="py-2 text-right text-gray-700">{statement.transaction_count}</td>
+                      <td className="py-2 flex justify-end">
+                        <StatementFileButtons statementId={statement.id} onError={setError} />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Savings Goal Modal Component
+function SavingsGoalModal({
+  goalAmount,
+  goalDate,
+  isSubmitting,
+  onClose,
+  onSubmit
+}: {
+  goalAmount: number | null
+  goalDate: string | null
+  isSubmitting?: boolean
+  onClose: () => void
+  onSubmit: (goalData: UpdateCustomerAccountData) => void
+}) {
+  const [formData, setFormData] = useState({
+    goal_amount: goalAmount != null ? String(goalAmount) : '',
+    goal_date: goalDate || ''
+  })
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    onSubmit({
+      goal_amount: Number(formData.goal_amount),
+      goal_date: formData.goal_date
+    })
+  }
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white">
+        <div className="mt-3">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">Savings Goal</h3>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Target Amount (MUR)</label>
+              <input
+                type="number"
+                required
+                min="0.01"
+                step="0.01"
+                value={formData.goal_amount}
+                onChange={(e) => setFormData(prev => ({ ...prev, goal_amount: e.target.value }))}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Target Date</label>
+              <input
+                type="date"
+                required
+                min={new Date().toISOString().slice(0, 10)}
+                value={formData.goal_date}
+                onChange={(e) => setFormData(prev => ({ ...prev, goal_date: e.target.value }))}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+              />
+            </div>
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="px-4 py-2 text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-700 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSubmitting ? 'Saving...' : 'Save Goal'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
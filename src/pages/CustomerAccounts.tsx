@@ -0,0 +1,200 @@
+import React, { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { queryKeys } from '../lib/queryClient'
+import { Plus, Search, Wallet, Eye } from 'lucide-react'
+import { customerAccountsApi, ApiError } from '../lib/dataFetching'
+import { hasPermission } from '../utils/permissions'
+import { formatCurrency } from '../utils/helpers'
+import { useAuth } from '../contexts/AuthContext'
+import { AccountStatusBadge } from '../components/AccountStatusBadge'
+import { OpenAccountModal } from '../components/OpenAccountModal'
+import type { CustomerAccountStatus } from '../types'
+
+export function CustomerAccounts() {
+  const queryClient = useQueryClient()
+  const { user } = useAuth()
+  const canManageAccounts = hasPermission(user, 'accounts', 'manage')
+
+  const [searchTerm, setSearchTerm] = useState('')
+  const [statusFilter, setStatusFilter] = useState<CustomerAccountStatus | ''>('')
+  const [showOpenModal, setShowOpenModal] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  // Clear messages after 5 seconds
+  React.useEffect(() => {
+    if (error || success) {
+      const timer = setTimeout(() => {
+        setError(null)
+        setSuccess(null)
+      }, 5000)
+      return () => clearTimeout(timer)
+    }
+  }, [error, success])
+
+  const { data: accountsData, isLoading: accountsLoading } = useQuery({
+    queryKey: queryKeys.customerAccounts(),
+    queryFn: () => customerAccountsApi.getCustomerAccounts(),
+  })
+
+  const openAccountMutation = useMutation({
+    mutationFn: customerAccountsApi.openCustomerAccount,
+    onSuccess: ({ customer_account }) => {
+      setSuccess(`Account ${customer_account.account_number} opened successfully`)
+      setError(null)
+      setShowOpenModal(false)
+      queryClient.invalidateQueries({ queryKey: queryKeys.customerAccounts() })
+    },
+    onError: (error) => {
+      setError(error instanceof ApiError ? error.message : 'Failed to open account')
+      setSuccess(null)
+    },
+  })
+
+  const accounts = accountsData?.customer_accounts || []
+  const loading = accountsLoading || openAccountMutation.isPending
+
+  const search = searchTerm.trim().toLowerCase()
+  const filteredAccounts = accounts.filter(account => {
+    if (statusFilter && account.status !== statusFilter) return false
+    if (!search) return true
+    return (
+      account.account_number.includes(search) ||
+      `${account.member?.first_name} ${account.member?.last_name}`.toLowerCase().includes(search) ||
+      (account.member?.member_number.toLowerCase().includes(search) ?? false) ||
+      (account.account_type?.name.toLowerCase().includes(search) ?? false)
+    )
+  })
+
+  return (
+    <div className="space-y-6 pt-24">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+            <Wallet className="h-7 w-7 text-emerald-600 mr-2" />
+            Customer Accounts
+          </h1>
+          <p className="mt-1 text-sm text-gray-600">
+            Accounts opened by members under the configured account types
+          </p>
+        </div>
+        {canManageAccounts && (
+          <button
+            onClick={() => setShowOpenModal(true)}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-emerald-600 hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Open Account
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      {success && (
+        <div className="bg-green-50 border border-green-200 rounded-md p-4">
+          <p className="text-green-800">{success}</p>
+        </div>
+      )}
+
+      {/* Search */}
+      <div className="flex space-x-4">
+        <div className="relative flex-1">
+          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+            <Search className="h-5 w-5 text-gray-400" />
+          </div>
+          <input
+            type="text"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-emerald-500 focus:border-emerald-500"
+            placeholder="Search by account number, member or account type..."
+          />
+        </div>
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as CustomerAccountStatus | '')}
+          className="border border-gray-300 rounded-md px-3 py-2 bg-white focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+        >
+          <option value="">All statuses</option>
+          <option value="pending">Pending</option>
+          <option value="active">Active</option>
+          <option value="dormant">Dormant</option>
+          <option value="closed">Closed</option>
+        </select>
+      </div>
+
+      {/* Accounts Table */}
+      <div className="bg-white shadow overflow-hidden sm:rounded-md">
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-600"></div>
+          </div>
+        ) : filteredAccounts.length === 0 ? (
+          <div className="text-center py-12">
+            <Wallet className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No customer accounts</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              {searchTerm || statusFilter ? 'No accounts match your search.' : 'Get started by opening an account for a member.'}
+            </p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {filteredAccounts.map((account) => (
+              <li key={account.id}>
+                <div className="px-4 py-4 flex items-center justify-between">
+                  <div className="flex items-center">
+                    <div className="flex-shrink-0 h-10 w-10">
+                      <div className="h-10 w-10 rounded-full bg-emerald-100 flex items-center justify-center">
+                        <Wallet className="h-5 w-5 text-emerald-600" />
+                      </div>
+                    </div>
+                    <div className="ml-4">
+                      <div className="flex items-center">
+                        <div className="text-sm font-medium text-gray-900">
+                          {account.account_number} &middot; {account.account_type?.name}
+                        </div>
+                        <AccountStatusBadge status={account.status} className="ml-2" />
+                      </div>
+                      <div className="text-sm text-gray-500">
+                        {account.member?.first_name} {account.member?.last_name} ({account.member?.member_number})
+                      </div>
+                      <div className="text-xs text-gray-400">
+                        Opened: {new Date(account.opened_at).toLocaleDateString()}
+                      </div>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-4">
+                    <div className="text-right">
+                      <div className="text-sm font-semibold text-gray-900">{formatCurrency(account.balance)}</div>
+                      <div className="text-xs text-gray-500">Balance</div>
+                    </div>
+                    <Link
+                      to={`/accounts/${account.id}`}
+                      className="inline-flex items-center p-2 border border-transparent rounded-full shadow-sm text-white bg-emerald-600 hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500"
+                      title="View account"
+                    >
+                      <Eye className="h-4 w-4" />
+                    </Link>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {canManageAccounts && showOpenModal && (
+        <OpenAccountModal
+          onClose={() => setShowOpenModal(false)}
+          onSubmit={(accountData) => openAccountMutation.mutate(accountData)}
+        />
+      )}
+    </div>
+  )
+}
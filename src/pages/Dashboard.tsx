@@ -1,6 +1,12 @@
-import React from 'react'
+import React, { useEffect } from 'react'
+import { useQuery, useInfiniteQuery, useQueryClient } from '@tanstack/react-query'
 import { useAuth } from '../contexts/AuthContext'
 import { hasPermission } from '../utils/permissions'
+import { supabase } from '../lib/supabase'
+import { dashboardApi } from '../lib/dataFetching'
+import { queryKeys } from '../lib/queryClient'
+import { formatCurrency } from '../utils/helpers'
+import type { ActivityEntityType, ActivityEventAction, DashboardStatKey } from '../types'
 import { 
   Users, 
   TrendingUp, 
@@ -12,164 +18,91 @@ import {
   CreditCard,
   BarChart3,
   Settings,
-  AlertCircle,
   Clock,
   CheckCircle2,
-  Info
+  Shield,
+  Layers
 } from 'lucide-react'
 
-interface DashboardStat {
+interface DashboardStatDisplay {
   name: string
-  value: string
-  change: string
-  changeType: 'positive' | 'negative'
   icon: React.ComponentType<any>
   description: string
-  permission?: { resource: string; action: string }
+  format: (value: number) => string
 }
 
-interface ActivityItem {
-  id: string
-  type: string
-  description: string
-  timestamp: string
-  status: 'success' | 'info' | 'warning' | 'error'
-  user?: string
-}
+const formatCount = (value: number) => value.toLocaleString('en-US')
 
-const dashboardStats: DashboardStat[] = [
-  {
-    name: 'Total Members',
-    value: '2,847',
-    change: '+4.75%',
-    changeType: 'positive',
+// How each statistic returned by the dashboard-stats function is shown; the function only returns
+// the statistics the user has permission to see
+const statDisplay: Record<DashboardStatKey, DashboardStatDisplay> = {
+  active_users: {
+    name: 'Active Users',
     icon: Users,
-    description: 'Registered members',
-    permission: { resource: 'users', action: 'read' }
+    description: 'Staff who can sign in',
+    format: formatCount
   },
-  {
-    name: 'Active Accounts',
-    value: 'MUR 1,31,42,000',
-    change: '+8.2%',
-    changeType: 'positive',
-    icon: DollarSign,
-    description: 'Total account balance',
-    permission: { resource: 'transactions', action: 'create' }
-  },
-  {
-    name: 'Monthly Growth',
-    value: '24.1%',
-    change: '+0.7%',
-    changeType: 'positive',
+  members: {
+    name: 'Total Members',
     icon: TrendingUp,
-    description: 'Portfolio growth rate',
-    permission: { resource: 'reports', action: 'view' }
-  },
-  {
-    name: 'Reports Generated',
-    value: '152',
-    change: '+4.8%',
-    changeType: 'positive',
-    icon: FileText,
-    description: 'This month',
-    permission: { resource: 'reports', action: 'view' }
-  }
-]
-
-const recentActivity: ActivityItem[] = [
-  {
-    id: '1',
-    type: 'account_opened',
-    description: 'New Hajj savings account opened',
-    timestamp: new Date(Date.now() - 5 * 60 * 1000).toISOString(),
-    status: 'success',
-    user: 'Fatima Al-Zahra'
-  },
-  {
-    id: '2',
-    type: 'transaction_processed',
-    description: 'Monthly dividend payment processed',
-    timestamp: new Date(Date.now() - 15 * 60 * 1000).toISOString(),
-    status: 'info'
-  },
-  {
-    id: '3',
-    type: 'report_generated',
-    description: 'Quarterly financial report generated',
-    timestamp: new Date(Date.now() - 45 * 60 * 1000).toISOString(),
-    status: 'success'
+    description: 'Registered members',
+    format: formatCount
   },
-  {
-    id: '4',
-    type: 'loan_application',
-    description: 'New loan application submitted',
-    timestamp: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
-    status: 'warning',
-    user: 'Omar Khalid'
+  customer_accounts: {
+    name: 'Open Accounts',
+    icon: CreditCard,
+    description: 'Customer accounts',
+    format: formatCount
   },
-  {
-    id: '5',
-    type: 'user_registered',
-    description: 'New member registration completed',
-    timestamp: new Date(Date.now() - 3 * 60 * 60 * 1000).toISOString(),
-    status: 'success',
-    user: 'Aisha Rahman'
+  bank_balances: {
+    name: 'Bank Balances',
+    icon: DollarSign,
+    description: 'Ledger balance of all bank accounts',
+    format: formatCurrency
   }
-]
+}
 
 export function Dashboard() {
   const { user } = useAuth()
+  const queryClient = useQueryClient()
 
-  // Filter stats based on user permissions
-  const visibleStats = dashboardStats.filter(stat => {
-    if (!stat.permission) return true
-    return hasPermission(user, stat.permission.resource, stat.permission.action)
+  const { data: statsData } = useQuery({
+    queryKey: queryKeys.dashboardStats(),
+    queryFn: dashboardApi.getStats,
   })
 
-  const getActivityIcon = (status: string) => {
-    switch (status) {
-      case 'success':
-        return CheckCircle2
-      case 'warning':
-        return AlertCircle
-      case 'info':
-        return Info
-      case 'error':
-        return AlertCircle
-      default:
-        return Activity
-    }
-  }
+  const visibleStats = statsData?.stats || []
 
-  const getActivityColor = (status: string) => {
-    switch (status) {
-      case 'success':
-        return 'text-green-500 bg-green-50'
-      case 'warning':
-        return 'text-yellow-500 bg-yellow-50'
-      case 'info':
-        return 'text-blue-500 bg-blue-50'
-      case 'error':
-        return 'text-red-500 bg-red-50'
-      default:
-        return 'text-gray-500 bg-gray-50'
-    }
-  }
+  const {
+    data: activityData,
+    isLoading: activityLoading,
+    error: activityError,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage
+  } = useInfiniteQuery({
+    queryKey: queryKeys.dashboardActivity(),
+    queryFn: ({ pageParam }) => dashboardApi.getRecentActivity(pageParam),
+    initialPageParam: 0,
+    getNextPageParam: (lastPage) => lastPage.nextPage,
+  })
 
-  const formatTimeAgo = (timestamp: string) => {
-    const now = new Date()
-    const time = new Date(timestamp)
-    const diffInMinutes = Math.floor((now.getTime() - time.getTime()) / (1000 * 60))
-    
-    if (diffInMinutes < 1) return 'Just now'
-    if (diffInMinutes < 60) return `${diffInMinutes}m ago`
-    
-    const diffInHours = Math.floor(diffInMinutes / 60)
-    if (diffInHours < 24) return `${diffInHours}h ago`
-    
-    const diffInDays = Math.floor(diffInHours / 24)
-    return `${diffInDays}d ago`
-  }
+  const recentActivity = activityData?.pages.flatMap(page => page.events) || []
+
+  // Refresh the feed whenever a new event is recorded; Realtime only delivers the events this
+  // user's RLS policies let them see
+  useEffect(() => {
+    const channel = supabase
+      .channel('dashboard-activity')
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'activity_events' }, () => {
+        queryClient.invalidateQueries({ queryKey: queryKeys.dashboardActivity() })
+      })
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [queryClient])
 
   return (
     <div className="space-y-8 pt-12">
@@ -204,10 +137,11 @@ export function Dashboard() {
       {visibleStats.length > 0 && (
         <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-4">
           {visibleStats.map((stat) => {
-            const Icon = stat.icon
+            const display = statDisplay[stat.key]
+            const Icon = display.icon
             return (
               <div
-                key={stat.name}
+                key={stat.key}
                 className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 hover:shadow-md transition-all duration-200"
               >
                 <div className="flex items-center justify-between">
@@ -219,26 +153,41 @@ export function Dashboard() {
                     </div>
                     <div className="mt-4">
                       <p className="text-sm font-medium text-gray-600 mb-1">
-                        {stat.name}
+                        {display.name}
                       </p>
                       <p className="text-2xl font-bold text-gray-900 mb-1">
-                        {stat.value}
+                        {display.format(stat.value)}
                       </p>
                       <div className="flex items-center">
-                        <div className={`flex items-center text-sm font-medium ${
-                          stat.changeType === 'positive' ? 'text-green-600' : 'text-red-600'
-                        }`}>
-                          {stat.changeType === 'positive' ? (
-                            <ArrowUpRight className="h-4 w-4 mr-1" />
-                          ) : (
-                            <ArrowDownRight className="h-4 w-4 mr-1" />
-                          )}
-                          {stat.change}
-                        </div>
-                        <span className="text-gray-500 text-sm ml-2">
-                          {stat.description}
+                        {stat.change !== null && (
+                          <div
+                            title={`Change since ${statsData?.period.from}`}
+                            className={`flex items-center text-sm font-medium ${
+                              stat.change >= 0 ? 'text-green-600' : 'text-red-600'
+                            }`}
+                          >
+                            {stat.change >= 0 ? (
+                              <ArrowUpRight className="h-4 w-4 mr-1" />
+                            ) : (
+                              <ArrowDownRight className="h-4 w-4 mr-1" />
+                            )}
+                            {stat.change >= 0 ? '+' : ''}{stat.change}%
+                          </div>
+                        )}
+                        <span className={`text-gray-500 text-sm ${stat.change !== null ? 'ml-2' : ''}`}>
+                          {display.description}
                         </span>
                       </div>
+                      {stat.breakdown.length > 0 && (
+                        <ul className="mt-3 space-y-1 text-xs text-gray-500">
+                          {stat.breakdown.map(item => (
+                            <li key={item.label} className="flex justify-between">
+                              <span>{item.label}</span>
+                              <span className="font-medium text-gray-700">{display.format(item.value)}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -337,46 +286,59 @@ export function Dashboard() {
             <Clock className="h-6 w-6 text-emerald-600 mr-2" />
             Recent Activity
           </h2>
-          <button className="text-sm text-emerald-600 hover:text-emerald-700 font-medium">
-            View all
-          </button>
         </div>
-        
-        <div className="space-y-4">
-          {recentActivity.map((activity) => {
-            const ActivityIcon = getActivityIcon(activity.status)
-            const colorClasses = getActivityColor(activity.status)
-            
-            return (
-              <div key={activity.id} className="flex items-start space-x-4 p-4 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors">
-                <div className={`p-2 rounded-full ${colorClasses}`}>
-                  <ActivityIcon className="h-4 w-4" />
-                </div>
-                <div className="flex-1 min-w-0">
-                  <p className="text-sm font-medium text-gray-900">
-                    {activity.description}
-                  </p>
-                  {activity.user && (
-                    <p className="text-sm text-gray-600">
-                      by {activity.user}
+
+        {activityLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-600"></div>
+          </div>
+        ) : activityError ? (
+          <p className="text-sm text-gray-500 text-center py-8">Failed to load recent activity</p>
+        ) : recentActivity.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-8">No recent activity</p>
+        ) : (
+          <div className="space-y-4">
+            {recentActivity.map((activity) => {
+              const ActivityIcon = getActivityIcon(activity.entity_type)
+
+              return (
+                <div key={activity.id} className="flex items-start space-x-4 p-4 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors">
+                  <div className={`p-2 rounded-full ${getActivityColor(activity.action)}`}>
+                    <ActivityIcon className="h-4 w-4" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-900">
+                      {activity.description}
                     </p>
-                  )}
-                  <p className="text-xs text-gray-500 mt-1">
-                    {formatTimeAgo(activity.timestamp)}
-                  </p>
-                </div>
-                <div className={`px-2 py-1 rounded-full text-xs font-medium ${
-                  activity.status === 'success' ? 'bg-green-100 text-green-800' :
-                  activity.status === 'warning' ? 'bg-yellow-100 text-yellow-800' :
-                  activity.status === 'info' ? 'bg-blue-100 text-blue-800' :
-                  'bg-red-100 text-red-800'
-                }`}>
-                  {activity.status}
+                    {activity.actor_name && (
+                      <p className="text-sm text-gray-600">
+                        by {activity.actor_name}
+                      </p>
+                    )}
+                    <p className="text-xs text-gray-500 mt-1">
+                      {formatTimeAgo(activity.created_at)}
+                    </p>
+                  </div>
+                  <div className={`px-2 py-1 rounded-full text-xs font-medium ${getActivityBadgeColor(activity.action)}`}>
+                    {activity.action}
+                  </div>
                 </div>
-              </div>
-            )
-          })}
-        </div>
+              )
+            })}
+          </div>
+        )}
+
+        {hasNextPage && (
+          <div className="mt-4 text-center">
+            <button
+              onClick={() => fetchNextPage()}
+              disabled={isFetchingNextPage}
+              className="text-sm text-emerald-600 hover:text-emerald-700 font-medium disabled:opacity-50"
+            >
+              {isFetchingNextPage ? 'Loading...' : 'Load more'}
+            </button>
+          </div>
+        )}
       </div>
 
       {/* System Status */}
@@ -467,36 +429,49 @@ export function Dashboard() {
 }
 
 // Helper functions
-function getActivityIcon(status: string) {
-  switch (status) {
-    case 'success':
-      return CheckCircle2
-    case 'warning':
-      return AlertCircle
-    case 'info':
-      return Info
-    case 'error':
-      return AlertCircle
+function getActivityIcon(entityType: ActivityEntityType) {
+  switch (entityType) {
+    case 'user':
+      return Users
+    case 'role':
+      return Shield
+    case 'account_type':
+      return Layers
+    case 'transaction':
+      return DollarSign
     default:
       return Activity
   }
 }
 
-function getActivityColor(status: string) {
-  switch (status) {
-    case 'success':
+function getActivityColor(action: ActivityEventAction) {
+  switch (action) {
+    case 'created':
       return 'text-green-500 bg-green-50'
-    case 'warning':
-      return 'text-yellow-500 bg-yellow-50'
-    case 'info':
+    case 'updated':
       return 'text-blue-500 bg-blue-50'
-    case 'error':
+    case 'deleted':
       return 'text-red-500 bg-red-50'
+    case 'posted':
+      return 'text-emerald-500 bg-emerald-50'
     default:
       return 'text-gray-500 bg-gray-50'
   }
 }
 
+function getActivityBadgeColor(action: ActivityEventAction) {
+  switch (action) {
+    case 'created':
+      return 'bg-green-100 text-green-800'
+    case 'updated':
+      return 'bg-blue-100 text-blue-800'
+    case 'deleted':
+      return 'bg-red-100 text-red-800'
+    default:
+      return 'bg-emerald-100 text-emerald-800'
+  }
+}
+
 function formatTimeAgo(timestamp: string) {
   const now = new Date()
   const time = new Date(timestamp)
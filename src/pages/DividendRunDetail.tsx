@@ -0,0 +1,333 @@
+import React, { useState } from 'react'
+import { Link, useNavigate, useParams } from 'react-router-dom'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { queryKeys } from '../lib/queryClient'
+import { ArrowLeft, Coins, Download, RefreshCw } from 'lucide-react'
+import { dividendRunsApi, ApiError } from '../lib/dataFetching'
+import { hasPermission } from '../utils/permissions'
+import { formatCurrency, downloadCsv } from '../utils/helpers'
+import { useAuth } from '../contexts/AuthContext'
+import { DividendRunStatusBadge } from '../components/DividendRunStatusBadge'
+import type { UpdateDividendRunData } from '../types'
+
+export function DividendRunDetail() {
+  const { runId = '' } = useParams()
+  const navigate = useNavigate()
+  const queryClient = useQueryClient()
+  const { user } = useAuth()
+  const canManage = hasPermission(user, 'dividends', 'manage')
+  const canApprove = hasPermission(user, 'dividends', 'approve')
+
+  const [searchTerm, setSearchTerm] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  // Clear messages after 5 seconds
+  React.useEffect(() => {
+    if (error || success) {
+      const timer = setTimeout(() => {
+        setError(null)
+        setSuccess(null)
+      }, 5000)
+      return () => clearTimeout(timer)
+    }
+  }, [error, success])
+
+  const { data, isLoading } = useQuery({
+    queryKey: queryKeys.dividendRun(runId),
+    queryFn: () => dividendRunsApi.getDividendRun(runId),
+    enabled: !!runId,
+  })
+
+  const updateRunMutation = useMutation({
+    mutationFn: (runData: UpdateDividendRunData) => dividendRunsApi.updateDividendRun(runId, runData),
+    onSuccess: (_data, runData) => {
+      setSuccess(
+        runData.status === 'posted' ? 'Dividends credited to member accounts'
+          : runData.status === 'approved' ? 'Dividend run approved'
+          : runData.status === 'cancelled' ? 'Dividend run cancelled'
+          : 'Allocations recalculated from the latest balances'
+      )
+      setError(null)
+      queryClient.invalidateQueries({ queryKey: queryKeys.dividendRuns() })
+      // Posting credits the member accounts
+      if (runData.status === 'posted') {
+        queryClient.invalidateQueries({ queryKey: queryKeys.customerAccounts() })
+        queryClient.invalidateQueries({ queryKey: queryKeys.transactions() })
+      }
+    },
+    onError: (error) => {
+      setError(error instanceof ApiError ? error.message : 'Failed to update dividend run')
+      setSuccess(null)
+    },
+  })
+
+  const deleteRunMutation = useMutation({
+    mutationFn: () => dividendRunsApi.deleteDividendRun(runId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.dividendRuns() })
+      navigate('/dividends')
+    },
+    onError: (error) => {
+      setError(error instanceof ApiError ? error.message : 'Failed to delete dividend run')
+      setSuccess(null)
+    },
+  })
+
+  const run = data?.dividend_run
+  const allocations = data?.allocations || []
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12 pt-24">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-600"></div>
+      </div>
+    )
+  }
+
+  if (!run) {
+    return (
+      <div className="text-center py-12 pt-24">
+        <h2 className="text-xl font-semibold text-gray-900">Dividend run not found</h2>
+        <Link to="/dividends" className="text-emerald-600 hover:text-emerald-700 text-sm mt-2 inline-block">
+          Back to dividends
+        </Link>
+      </div>
+    )
+  }
+
+  // Whoever drew up the run leaves its approval and posting to someone else
+  const createdByUser = run.created_by === user?.id
+
+  const handleApprove = () => {
+    if (!confirm(`Approve ${run.run_number} distributing ${formatCurrency(run.profit_pool)} to ${run.account_count} accounts?`)) return
+    updateRunMutation.mutate({ status: 'approved' })
+  }
+
+  const handlePost = () => {
+    if (!confirm(`Credit ${formatCurrency(run.profit_pool)} to ${run.account_count} member accounts? This cannot be undone.`)) return
+    updateRunMutation.mutate({ status: 'posted' })
+  }
+
+  const handleCancel = () => {
+    if (!confirm(`Cancel dividend run ${run.run_number}?`)) return
+    updateRunMutation.mutate({ status: 'cancelled' })
+  }
+
+  const handleDelete = () => {
+    if (!confirm(`Delete draft ${run.run_number}? This action cannot be undone.`)) return
+    deleteRunMutation.mutate()
+  }
+
+  const handleDownload = () => {
+    downloadCsv(`${run.run_number}-breakdown.csv`, [
+      ['Member Number', 'Member', 'Account Number', 'Account Type', 'Average Daily Balance', 'Share (%)', 'Dividend'],
+      ...allocations.map(allocation => [
+        allocation.member?.member_number,
+        `${allocation.member?.first_name ?? ''} ${allocation.member?.last_name ?? ''}`.trim(),
+        allocation.customer_account?.account_number,
+        allocation.customer_account?.account_type?.name,
+        Number(allocation.average_daily_balance).toFixed(2),
+        (Number(allocation.share) * 100).toFixed(6),
+        Number(allocation.amount).toFixed(2)
+      ])
+    ])
+  }
+
+  const busy = updateRunMutation.isPending || deleteRunMutation.isPending
+  const distributed = allocations.reduce((sum, allocation) => sum + Number(allocation.amount), 0)
+
+  const details: { label: string; value: React.ReactNode }[] = [
+    { label: 'Period', value: `${new Date(run.period_start).toLocaleDateString()} to ${new Date(run.period_end).toLocaleDateString()}` },
+    { label: 'Profit Pool', value: formatCurrency(run.profit_pool) },
+    { label: 'Allocated', value: formatCurrency(distributed) },
+    { label: 'Accounts', value: run.account_count },
+    { label: 'Total Average Balance', value: formatCurrency(run.total_average_balance) },
+    {
+      label: 'Return on Average Balance',
+      value: Number(run.total_average_balance) > 0
+        ? `${(Number(run.profit_pool) / Number(run.total_average_balance) * 100).toFixed(2)}%`
+        : '—'
+    },
+    { label: 'Calculated', value: run.calculated_at ? new Date(run.calculated_at).toLocaleString() : '—' },
+    { label: 'Approved', value: run.approved_at ? new Date(run.approved_at).toLocaleString() : 'Not yet approved' },
+    { label: 'Posted', value: run.posted_at ? new Date(run.posted_at).toLocaleString() : '—' },
+  ]
+
+  const search = searchTerm.trim().toLowerCase()
+  const filteredAllocations = allocations.filter(allocation => {
+    if (!search) return true
+    return (
+      `${allocation.member?.first_name} ${allocation.member?.last_name}`.toLowerCase().includes(search) ||
+      (allocation.member?.member_number.toLowerCase().includes(search) ?? false) ||
+      (allocation.customer_account?.account_number.includes(search) ?? false)
+    )
+  })
+
+  return (
+    <div className="space-y-6 pt-24">
+      <Link to="/dividends" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900">
+        <ArrowLeft className="h-4 w-4 mr-1" />
+        Dividends
+      </Link>
+
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+            <Coins className="h-7 w-7 text-emerald-600 mr-2" />
+            {run.run_number}
+            <DividendRunStatusBadge status={run.status} className="ml-3" />
+          </h1>
+          <p className="mt-1 text-sm text-gray-600">{run.name}</p>
+        </div>
+        <div className="flex space-x-2">
+          <button
+            onClick={handleDownload}
+            disabled={allocations.length === 0}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500 disabled:opacity-50"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Download CSV
+          </button>
+          {canManage && run.status === 'draft' && (
+            <button
+              onClick={() => updateRunMutation.mutate({})}
+              disabled={busy}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500 disabled:opacity-50"
+            >
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Recalculate
+            </button>
+          )}
+          {canApprove && !createdByUser && run.status === 'draft' && (
+            <button
+              onClick={handleApprove}
+              disabled={busy}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-emerald-600 hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500 disabled:opacity-50"
+            >
+              Approve
+            </button>
+          )}
+          {canApprove && !createdByUser && run.status === 'approved' && (
+            <button
+              onClick={handlePost}
+              disabled={busy}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-emerald-600 hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500 disabled:opacity-50"
+            >
+              Post Dividends
+            </button>
+          )}
+          {((canManage && run.status === 'draft') || (canApprove && run.status === 'approved')) && (
+            <button
+              onClick={handleCancel}
+              disabled={busy}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-50"
+            >
+              Cancel Run
+            </button>
+          )}
+          {canManage && run.status === 'draft' && (
+            <button
+              onClick={handleDelete}
+              disabled={busy}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-gray-700 bg-gray-100 hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 disabled:opacity-50"
+            >
+              Delete
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      {success && (
+        <div className="bg-green-50 border border-green-200 rounded-md p-4">
+          <p className="text-green-800">{success}</p>
+        </div>
+      )}
+
+      {run.status === 'draft' && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4">
+          <p className="text-sm text-yellow-800">
+            This is a preview. Recalculate to pick up late postings, then approve the run before the dividends are credited.
+          </p>
+        </div>
+      )}
+
+      {/* Run Details */}
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-6">
+        <h3 className="text-lg leading-6 font-medium text-gray-900 mb-4">Run Details</h3>
+        <dl className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {details.map(({ label, value }) => (
+            <div key={label}>
+              <dt className="text-sm text-gray-500">{label}</dt>
+              <dd className="text-sm font-medium text-gray-900">{value}</dd>
+            </div>
+          ))}
+        </dl>
+        {run.notes && (
+          <div className="mt-4 pt-4 border-t border-gray-100">
+            <p className="text-sm text-gray-500">Notes</p>
+            <p className="text-sm text-gray-900 whitespace-pre-line">{run.notes}</p>
+          </div>
+        )}
+      </div>
+
+      {/* Allocations */}
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg leading-6 font-medium text-gray-900">Allocations</h3>
+          <input
+            type="text"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="w-72 border border-gray-300 rounded-md px-3 py-1.5 text-sm focus:outline-none focus:ring-1 focus:ring-emerald-500 focus:border-emerald-500"
+            placeholder="Search by member or account..."
+          />
+        </div>
+        {filteredAllocations.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            {searchTerm ? 'No allocations match your search.' : 'No account shares in this run.'}
+          </p>
+        ) : (
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 uppercase">
+                <th className="py-2 font-medium">Member</th>
+                <th className="py-2 font-medium">Account</th>
+                <th className="py-2 font-medium text-right">Average Daily Balance</th>
+                <th className="py-2 font-medium text-right">Share</th>
+                <th className="py-2 font-medium text-right">Dividend</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {filteredAllocations.map(allocation => (
+                <tr key={allocation.id}>
+                  <td className="py-2">
+                    <Link to={`/admin/members/${allocation.member_id}`} className="text-emerald-600 hover:text-emerald-700">
+                      {allocation.member?.first_name} {allocation.member?.last_name}
+                    </Link>
+                    <span className="ml-1 text-gray-500">({allocation.member?.member_number})</span>
+                  </td>
+                  <td className="py-2">
+                    <Link to={`/accounts/${allocation.customer_account_id}`} className="text-emerald-600 hover:text-emerald-700">
+                      {allocation.customer_account?.account_number}
+                    </Link>
+                    <span className="ml-1 text-gray-500">{allocation.customer_account?.account_type?.name}</span>
+                  </td>
+                  <td className="py-2 text-right text-gray-900">{formatCurrency(allocation.average_daily_balance)}</td>
+                  <td className="py-2 text-right text-gray-700">{(Number(allocation.share) * 100).toFixed(4)}%</td>
+                  <td className="py-2 text-right font-medium text-gray-900">{formatCurrency(allocation.amount)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,278 @@
+import React, { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { queryKeys } from '../lib/queryClient'
+import { Plus, Coins, Eye } from 'lucide-react'
+import { dividendRunsApi, ApiError } from '../lib/dataFetching'
+import { hasPermission } from '../utils/permissions'
+import { formatCurrency } from '../utils/helpers'
+import { useAuth } from '../contexts/AuthContext'
+import { DividendRunStatusBadge } from '../components/DividendRunStatusBadge'
+import type { CreateDividendRunData } from '../types'
+
+export function Dividends() {
+  const queryClient = useQueryClient()
+  const { user } = useAuth()
+  const canManage = hasPermission(user, 'dividends', 'manage')
+
+  const [showCreateModal, setShowCreateModal] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  // Clear messages after 5 seconds
+  React.useEffect(() => {
+    if (error || success) {
+      const timer = setTimeout(() => {
+        setError(null)
+        setSuccess(null)
+      }, 5000)
+      return () => clearTimeout(timer)
+    }
+  }, [error, success])
+
+  const { data: runsData, isLoading: runsLoading } = useQuery({
+    queryKey: queryKeys.dividendRuns(),
+    queryFn: dividendRunsApi.getDividendRuns,
+  })
+
+  const createRunMutation = useMutation({
+    mutationFn: dividendRunsApi.createDividendRun,
+    onSuccess: ({ dividend_run }) => {
+      setSuccess(`Dividend run ${dividend_run.run_number} calculated for ${dividend_run.account_count} accounts`)
+      setError(null)
+      setShowCreateModal(false)
+      queryClient.invalidateQueries({ queryKey: queryKeys.dividendRuns() })
+    },
+    onError: (error) => {
+      setError(error instanceof ApiError ? error.message : 'Failed to create dividend run')
+      setSuccess(null)
+    },
+  })
+
+  const runs = runsData?.dividend_runs || []
+
+  return (
+    <div className="space-y-6 pt-24">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+            <Coins className="h-7 w-7 text-emerald-600 mr-2" />
+            Dividends
+          </h1>
+          <p className="mt-1 text-sm text-gray-600">
+            Distribute declared profit to dividend-eligible accounts by weighted average daily balance
+          </p>
+        </div>
+        {canManage && (
+          <button
+            onClick={() => setShowCreateModal(true)}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-emerald-600 hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            New Distribution Run
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      {success && (
+        <div className="bg-green-50 border border-green-200 rounded-md p-4">
+          <p className="text-green-800">{success}</p>
+        </div>
+      )}
+
+      {/* Runs */}
+      <div className="bg-white shadow overflow-hidden sm:rounded-md">
+        {runsLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-600"></div>
+          </div>
+        ) : runs.length === 0 ? (
+          <div className="text-center py-12">
+            <Coins className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No dividend runs</h3>
+            <p className="mt-1 text-sm text-gray-500">Create a distribution run once profit for a period has been declared.</p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {runs.map((run) => (
+              <li key={run.id}>
+                <div className="px-4 py-4 flex items-center justify-between">
+                  <div>
+                    <div className="flex items-center">
+                      <span className="text-sm font-medium text-gray-900">
+                        {run.run_number} &middot; {run.name}
+                      </span>
+                      <DividendRunStatusBadge status={run.status} className="ml-2" />
+                    </div>
+                    <div className="text-sm text-gray-500">
+                      {new Date(run.period_start).toLocaleDateString()} to {new Date(run.period_end).toLocaleDateString()} &middot; {run.account_count} accounts
+                    </div>
+                    <div className="text-xs text-gray-400">
+                      Created {new Date(run.created_at).toLocaleDateString()}
+                      {run.posted_at && ` · Posted ${new Date(run.posted_at).toLocaleDateString()}`}
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-4">
+                    <div className="text-right">
+                      <div className="text-sm font-semibold text-gray-900">{formatCurrency(run.profit_pool)}</div>
+                      <div className="text-xs text-gray-500">Profit pool</div>
+                    </div>
+                    <Link
+                      to={`/dividends/${run.id}`}
+                      className="inline-flex items-center p-2 border border-transparent rounded-full shadow-sm text-white bg-emerald-600 hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500"
+                      title="View run"
+                    >
+                      <Eye className="h-4 w-4" />
+                    </Link>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {canManage && showCreateModal && (
+        <DividendRunFormModal
+          isSubmitting={createRunMutation.isPending}
+          onClose={() => setShowCreateModal(false)}
+          onSubmit={(runData) => createRunMutation.mutate(runData)}
+        />
+      )}
+    </div>
+  )
+}
+
+// Create Dividend Run Modal Component
+function DividendRunFormModal({
+  isSubmitting,
+  onClose,
+  onSubmit
+}: {
+  isSubmitting?: boolean
+  onClose: () => void
+  onSubmit: (runData: CreateDividendRunData) => void
+}) {
+  const [formData, setFormData] = useState({
+    name: '',
+    period_start: '',
+    period_end: '',
+    profit_pool: '',
+    notes: ''
+  })
+
+  const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!formData.name.trim() || !formData.period_start || !formData.period_end) return
+    onSubmit({
+      name: formData.name.trim(),
+      period_start: formData.period_start,
+      period_end: formData.period_end,
+      profit_pool: Number(formData.profit_pool),
+      notes: formData.notes.trim() || undefined
+    })
+  }
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-[500px] shadow-lg rounded-md bg-white">
+        <div className="mt-3">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">New Distribution Run</h3>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Name</label>
+              <input
+                type="text"
+                required
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+                placeholder="e.g., FY2025 profit distribution"
+                maxLength={100}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Period Start</label>
+                <input
+                  type="date"
+                  required
+                  max={formData.period_end || yesterday}
+                  value={formData.period_start}
+                  onChange={(e) => setFormData(prev => ({ ...prev, period_start: e.target.value }))}
+                  className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Period End</label>
+                <input
+                  type="date"
+                  required
+                  min={formData.period_start || undefined}
+                  max={yesterday}
+                  value={formData.period_end}
+                  onChange={(e) => setFormData(prev => ({ ...prev, period_end: e.target.value }))}
+                  className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Declared Profit Pool (MUR)</label>
+              <input
+                type="number"
+                required
+                min="0.01"
+                step="0.01"
+                value={formData.profit_pool}
+                onChange={(e) => setFormData(prev => ({ ...prev, profit_pool: e.target.value }))}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Notes</label>
+              <textarea
+                value={formData.notes}
+                onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+                rows={2}
+                maxLength={500}
+              />
+            </div>
+
+            <p className="text-xs text-gray-500">
+              Allocations are previewed as a draft. Nothing is credited until the run is approved and posted.
+            </p>
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="px-4 py-2 text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-700 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSubmitting ? 'Calculating...' : 'Calculate Preview'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,209 @@
+import React, { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { queryKeys } from '../lib/queryClient'
+import { FileCheck, CheckCircle, XCircle, AlertTriangle } from 'lucide-react'
+import { memberDocumentsApi, ApiError } from '../lib/dataFetching'
+import { DocumentStatusBadge } from '../components/DocumentStatusBadge'
+import { DocumentViewButton } from '../components/DocumentViewButton'
+import type { MemberDocument, ReviewMemberDocumentData } from '../types'
+
+type ReviewView = 'pending' | 'expiring'
+
+const EXPIRY_WARNING_DAYS = 30
+
+export function DocumentReview() {
+  const queryClient = useQueryClient()
+
+  const [view, setView] = useState<ReviewView>('pending')
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  // Clear messages after 5 seconds
+  React.useEffect(() => {
+    if (error || success) {
+      const timer = setTimeout(() => {
+        setError(null)
+        setSuccess(null)
+      }, 5000)
+      return () => clearTimeout(timer)
+    }
+  }, [error, success])
+
+  const { data: pendingData, isLoading: pendingLoading } = useQuery({
+    queryKey: queryKeys.documentReviewQueue(),
+    queryFn: () => memberDocumentsApi.getDocuments({ status: 'pending' }),
+  })
+
+  const { data: verifiedData, isLoading: verifiedLoading } = useQuery({
+    queryKey: queryKeys.verifiedDocuments(),
+    queryFn: () => memberDocumentsApi.getDocuments({ status: 'verified' }),
+    enabled: view === 'expiring',
+  })
+
+  const reviewDocumentMutation = useMutation({
+    mutationFn: ({ documentId, reviewData }: { documentId: string; reviewData: ReviewMemberDocumentData }) =>
+      memberDocumentsApi.reviewDocument(documentId, reviewData),
+    onSuccess: (_data, { reviewData }) => {
+      setSuccess(reviewData.status === 'verified' ? 'Document verified' : 'Document rejected')
+      setError(null)
+      queryClient.invalidateQueries({ queryKey: queryKeys.memberDocuments() })
+      queryClient.invalidateQueries({ queryKey: queryKeys.customerAccounts() })
+    },
+    onError: (error) => {
+      setError(error instanceof ApiError ? error.message : 'Failed to review document')
+      setSuccess(null)
+    },
+  })
+
+  const handleVerify = (document: MemberDocument) => {
+    reviewDocumentMutation.mutate({ documentId: document.id, reviewData: { status: 'verified' } })
+  }
+
+  const handleReject = (document: MemberDocument) => {
+    const reason = prompt(`Reason for rejecting ${document.document_kind?.name || 'this document'}:`)
+    if (reason === null) return
+    if (!reason.trim()) {
+      setError('A rejection reason is required')
+      return
+    }
+    reviewDocumentMutation.mutate({ documentId: document.id, reviewData: { status: 'rejected', rejection_reason: reason.trim() } })
+  }
+
+  const today = new Date().toISOString().slice(0, 10)
+  const warningDate = new Date(Date.now() + EXPIRY_WARNING_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+
+  const pendingDocuments = pendingData?.documents || []
+  const expiringDocuments = (verifiedData?.documents || [])
+    .filter(document => document.expires_on && document.expires_on <= warningDate)
+    .sort((a, b) => (a.expires_on || '').localeCompare(b.expires_on || ''))
+
+  const documents = view === 'pending' ? pendingDocuments : expiringDocuments
+  const loading = view === 'pending' ? pendingLoading : verifiedLoading
+
+  return (
+    <div className="space-y-6 pt-24">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+          <FileCheck className="h-7 w-7 text-emerald-600 mr-2" />
+          Document Review
+        </h1>
+        <p className="mt-1 text-sm text-gray-600">
+          Verify uploaded KYC documents and follow up on expiring ones
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      {success && (
+        <div className="bg-green-50 border border-green-200 rounded-md p-4">
+          <p className="text-green-800">{success}</p>
+        </div>
+      )}
+
+      <div className="border-b border-gray-200">
+        <nav className="-mb-px flex space-x-8">
+          {([
+            { id: 'pending', label: `Pending (${pendingDocuments.length})` },
+            { id: 'expiring', label: `Expiring within ${EXPIRY_WARNING_DAYS} days` }
+          ] as { id: ReviewView; label: string }[]).map(tab => (
+            <button
+              key={tab.id}
+              onClick={() => setView(tab.id)}
+              className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                view === tab.id
+                  ? 'border-emerald-500 text-emerald-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </nav>
+      </div>
+
+      <div className="bg-white shadow overflow-hidden sm:rounded-md">
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-600"></div>
+          </div>
+        ) : documents.length === 0 ? (
+          <div className="text-center py-12">
+            <FileCheck className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">
+              {view === 'pending' ? 'No documents awaiting review' : 'No documents expiring soon'}
+            </h3>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {documents.map(document => {
+              const expired = !!document.expires_on && document.expires_on <= today
+              return (
+                <li key={document.id} className="px-4 py-4 flex items-center justify-between">
+                  <div>
+                    <div className="flex items-center">
+                      <span className="text-sm font-medium text-gray-900">{document.document_kind?.name}</span>
+                      <DocumentStatusBadge status={document.status === 'verified' && expired ? 'expired' : document.status} className="ml-2" />
+                      {view === 'pending' && expired && (
+                        <span className="ml-2 inline-flex items-center text-xs text-red-600">
+                          <AlertTriangle className="h-3 w-3 mr-1" />
+                          Already expired
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-600">
+                      {document.member && (
+                        <Link to={`/admin/members/${document.member.id}`} className="text-emerald-600 hover:text-emerald-800">
+                          {document.member.first_name} {document.member.last_name} ({document.member.member_number})
+                        </Link>
+                      )}
+                      {document.customer_account && (
+                        <span className="text-gray-500"> · Account {document.customer_account.account_number}</span>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {[
+                        document.file_name,
+                        document.document_number && `No. ${document.document_number}`,
+                        document.issued_on && `Issued ${new Date(document.issued_on).toLocaleDateString()}`,
+                        document.expires_on && `Expires ${new Date(document.expires_on).toLocaleDateString()}`,
+                        `Uploaded ${new Date(document.uploaded_at).toLocaleString()}`
+                      ].filter(Boolean).join(' · ')}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <DocumentViewButton documentId={document.id} onError={setError} />
+                    {view === 'pending' && (
+                      <>
+                        <button
+                          onClick={() => handleVerify(document)}
+                          disabled={reviewDocumentMutation.isPending || expired}
+                          className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          <CheckCircle className="h-4 w-4 mr-1" />
+                          Verify
+                        </button>
+                        <button
+                          onClick={() => handleReject(document)}
+                          disabled={reviewDocumentMutation.isPending}
+                          className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-red-600 hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          <XCircle className="h-4 w-4 mr-1" />
+                          Reject
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -2,11 +2,13 @@ import React, { useState, useEffect } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { useAuth } from '../contexts/AuthContext'
 import { validatePasswordStrength } from '../utils/validation'
+import { PasswordRequirements } from '../components/PasswordRequirements'
+import type { PasswordValidationResult } from '../types/auth'
 import { Shield, Eye, EyeOff, AlertCircle, CheckCircle } from 'lucide-react'
 
 export function ForcePasswordChangePage() {
   const navigate = useNavigate()
-  const { user, changePassword, signOut, loading: authLoading } = useAuth()
+  const { user, changePassword, signOut, mfaPending, loading: authLoading } = useAuth()
 
   const [password, setPassword] = useState('')
   const [confirmPassword, setConfirmPassword] = useState('')
@@ -14,28 +16,29 @@ export function ForcePasswordChangePage() {
   const [message, setMessage] = useState<string | null>(null)
   const [isSuccess, setIsSuccess] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
-  const [passwordValidation, setPasswordValidation] = useState<{
-    isValid: boolean
-    message: string
-    errors: string[]
-  } | null>(null)
+  const [passwordValidation, setPasswordValidation] = useState<PasswordValidationResult | null>(null)
 
   useEffect(() => {
     // If user is not logged in or doesn't need password reset, redirect
     if (!authLoading && (!user || !user.needs_password_reset)) {
       navigate('/dashboard', { replace: true })
+    } else if (mfaPending) {
+      // The password can only be changed once the second factor is verified
+      navigate('/mfa', { replace: true })
     }
-  }, [user, authLoading, navigate])
+  }, [user, authLoading, mfaPending, navigate])
 
   useEffect(() => {
-    if (password) {
-      validatePasswordStrength(password).then(result => {
-        setPasswordValidation(result)
-      })
-    } else {
+    if (!password) {
       setPasswordValidation(null)
+      return
     }
-  }, [password])
+    // Results can arrive out of order while the compromised password list is looked up
+    let current = true
+    validatePasswordStrength(password, { email: user?.email, full_name: user?.full_name })
+      .then(result => { if (current) setPasswordValidation(result) })
+    return () => { current = false }
+  }, [password, user?.email, user?.full_name])
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -99,10 +102,10 @@ export function ForcePasswordChangePage() {
             <Shield className="h-8 w-8 text-white" />
           </div>
           <h2 className="mt-6 text-center text-3xl font-bold text-gray-900">
-            Change Your Temporary Password
+            Change Your Password
           </h2>
           <p className="mt-2 text-center text-sm text-gray-600">
-            You must change your password before accessing the application.
+            Your password is temporary or has expired. You must change it before accessing the application.
           </p>
         </div>
 
@@ -146,20 +149,7 @@ export function ForcePasswordChangePage() {
                   )}
                 </button>
               </div>
-              {passwordValidation && (
-                <div className="mt-2">
-                  <p className={`text-xs ${passwordValidation.isValid ? 'text-green-600' : 'text-red-600'}`}>
-                    {passwordValidation.message}
-                  </p>
-                  {!passwordValidation.isValid && passwordValidation.errors.length > 0 && (
-                    <ul className="mt-1 text-xs text-red-600 list-disc list-inside">
-                      {passwordValidation.errors.map((error, index) => (
-                        <li key={index}>{error}</li>
-                      ))}
-                    </ul>
-                  )}
-                </div>
-              )}
+              <PasswordRequirements password={password} validation={passwordValidation} />
             </div>
             
             <div>
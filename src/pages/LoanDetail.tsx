@@ -0,0 +1,424 @@
+import React, { useState } from 'react'
+import { Link, useParams } from 'react-router-dom'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { queryKeys } from '../lib/queryClient'
+import { ArrowLeft, HandCoins, UserCheck, AlertTriangle } from 'lucide-react'
+import { loansApi, ApiError } from '../lib/dataFetching'
+import { hasPermission } from '../utils/permissions'
+import { formatCurrency, formatLoanProductType } from '../utils/helpers'
+import { useAuth } from '../contexts/AuthContext'
+import { LoanStatusBadge } from '../components/LoanStatusBadge'
+import { TransactionTypeBadge } from '../components/TransactionTypeBadge'
+import type { LoanInstalment, LoanRepaymentData, UpdateLoanData } from '../types'
+
+export function LoanDetail() {
+  const { loanId = '' } = useParams()
+  const queryClient = useQueryClient()
+  const { user } = useAuth()
+  const canApply = hasPermission(user, 'loans', 'apply')
+  const canApprove = hasPermission(user, 'loans', 'approve')
+  const canRepay = hasPermission(user, 'loans', 'repay')
+
+  const [repayment, setRepayment] = useState({ amount: '', reference: '' })
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  // Clear messages after 5 seconds
+  React.useEffect(() => {
+    if (error || success) {
+      const timer = setTimeout(() => {
+        setError(null)
+        setSuccess(null)
+      }, 5000)
+      return () => clearTimeout(timer)
+    }
+  }, [error, success])
+
+  const { data, isLoading } = useQuery({
+    queryKey: queryKeys.loan(loanId),
+    queryFn: () => loansApi.getLoan(loanId),
+    enabled: !!loanId,
+  })
+
+  // Disbursements and repayments move money on the member's account as well
+  const invalidateLoanData = () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.loans() })
+    queryClient.invalidateQueries({ queryKey: queryKeys.customerAccounts() })
+    queryClient.invalidateQueries({ queryKey: queryKeys.transactions() })
+  }
+
+  const updateLoanMutation = useMutation({
+    mutationFn: (loanData: UpdateLoanData) => loansApi.updateLoan(loanId, loanData),
+    onSuccess: (_data, loanData) => {
+      setSuccess(
+        loanData.status === 'active' ? 'Loan disbursed to the member\'s account'
+          : loanData.status === 'approved' ? 'Loan approved'
+          : 'Loan rejected'
+      )
+      setError(null)
+      invalidateLoanData()
+    },
+    onError: (error) => {
+      setError(error instanceof ApiError ? error.message : 'Failed to update loan')
+      setSuccess(null)
+    },
+  })
+
+  const repaymentMutation = useMutation({
+    mutationFn: (repaymentData: LoanRepaymentData) => loansApi.postRepayment(loanId, repaymentData),
+    onSuccess: ({ loan }) => {
+      setSuccess(loan.status === 'closed' ? 'Repayment posted. The loan is fully repaid and has been closed.' : 'Repayment posted')
+      setError(null)
+      setRepayment({ amount: '', reference: '' })
+      invalidateLoanData()
+    },
+    onError: (error) => {
+      setError(error instanceof ApiError ? error.message : 'Failed to post repayment')
+      setSuccess(null)
+    },
+  })
+
+  const withdrawMutation = useMutation({
+    mutationFn: () => loansApi.withdrawApplication(loanId),
+    onSuccess: () => {
+      setSuccess('Application withdrawn')
+      setError(null)
+      queryClient.invalidateQueries({ queryKey: queryKeys.loans() })
+    },
+    onError: (error) => {
+      setError(error instanceof ApiError ? error.message : 'Failed to withdraw application')
+      setSuccess(null)
+    },
+  })
+
+  const loan = data?.loan
+  const postings = data?.postings || []
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12 pt-24">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-600"></div>
+      </div>
+    )
+  }
+
+  if (!loan) {
+    return (
+      <div className="text-center py-12 pt-24">
+        <h2 className="text-xl font-semibold text-gray-900">Loan not found</h2>
+        <Link to="/loans" className="text-emerald-600 hover:text-emerald-700 text-sm mt-2 inline-block">
+          Back to loan book
+        </Link>
+      </div>
+    )
+  }
+
+  // Whoever took the application leaves its review and disbursement to someone else
+  const canReview = canApprove && loan.applied_by !== user?.id
+
+  const handleApprove = () => {
+    if (!confirm(`Approve loan ${loan.loan_number} for ${formatCurrency(loan.principal)}?`)) return
+    updateLoanMutation.mutate({ status: 'approved' })
+  }
+
+  const handleReject = () => {
+    const reason = prompt(`Reason for rejecting loan ${loan.loan_number}:`)
+    if (reason === null) return
+    if (!reason.trim()) {
+      setError('A rejection reason is required')
+      return
+    }
+    updateLoanMutation.mutate({ status: 'rejected', rejection_reason: reason.trim() })
+  }
+
+  const handleDisburse = () => {
+    if (!confirm(`Disburse ${formatCurrency(loan.principal)} to account ${loan.customer_account?.account_number}? The repayment schedule starts today.`)) return
+    updateLoanMutation.mutate({ status: 'active' })
+  }
+
+  const handleWithdraw = () => {
+    if (!confirm(`Withdraw application ${loan.loan_number}? It can no longer be reviewed afterwards.`)) return
+    withdrawMutation.mutate()
+  }
+
+  const handleRepayment = (e: React.FormEvent) => {
+    e.preventDefault()
+    const amount = Number(repayment.amount)
+    if (!amount || amount <= 0) return
+    repaymentMutation.mutate({ amount, reference: repayment.reference.trim() || undefined })
+  }
+
+  const today = new Date().toISOString().slice(0, 10)
+  const paidOn = (instalment: LoanInstalment) => Number(instalment.principal_paid) + Number(instalment.profit_paid)
+  const instalmentStatus = (instalment: LoanInstalment) => {
+    if (paidOn(instalment) >= Number(instalment.amount_due)) return { label: 'Paid', className: 'text-green-700' }
+    if (instalment.due_date < today) return { label: 'Overdue', className: 'text-red-600 font-medium' }
+    if (paidOn(instalment) > 0) return { label: 'Part paid', className: 'text-yellow-700' }
+    return { label: 'Upcoming', className: 'text-gray-500' }
+  }
+
+  const busy = updateLoanMutation.isPending || withdrawMutation.isPending
+
+  const details: { label: string; value: React.ReactNode }[] = [
+    { label: 'Product', value: `${loan.loan_product?.name || 'Unknown'} (${formatLoanProductType(loan.product_type)})` },
+    { label: 'Principal', value: formatCurrency(loan.principal) },
+    ...(loan.product_type === 'murabaha'
+      ? [{ label: 'Murabaha Markup', value: `${formatCurrency(loan.profit_amount)} (${loan.profit_rate}% per year)` }]
+      : []),
+    { label: 'Total Repayable', value: formatCurrency(loan.total_payable) },
+    { label: 'Outstanding', value: formatCurrency(loan.outstanding_balance) },
+    { label: 'Term', value: `${loan.term_months} months` },
+    { label: 'Applied', value: new Date(loan.applied_at).toLocaleDateString() },
+    { label: 'Reviewed', value: loan.reviewed_at ? new Date(loan.reviewed_at).toLocaleDateString() : 'Not yet reviewed' },
+    { label: 'Disbursed', value: loan.disbursed_at ? new Date(loan.disbursed_at).toLocaleDateString() : '—' },
+    ...(loan.withdrawn_at ? [{ label: 'Withdrawn', value: new Date(loan.withdrawn_at).toLocaleDateString() }] : []),
+  ]
+
+  return (
+    <div className="space-y-6 pt-24">
+      <Link to="/loans" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900">
+        <ArrowLeft className="h-4 w-4 mr-1" />
+        Loan Book
+      </Link>
+
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+            <HandCoins className="h-7 w-7 text-emerald-600 mr-2" />
+            {loan.loan_number}
+            <LoanStatusBadge status={loan.status} className="ml-3" />
+          </h1>
+          {loan.member && (
+            <p className="mt-1 text-sm text-gray-600 flex items-center">
+              <UserCheck className="h-4 w-4 mr-1" />
+              <Link to={`/admin/members/${loan.member.id}`} className="text-emerald-600 hover:text-emerald-700">
+                {loan.member.first_name} {loan.member.last_name}
+              </Link>
+              <span className="ml-1">({loan.member.member_number})</span>
+              {loan.customer_account && (
+                <>
+                  <span className="mx-1">&middot;</span>
+                  <Link to={`/accounts/${loan.customer_account.id}`} className="text-emerald-600 hover:text-emerald-700">
+                    Account {loan.customer_account.account_number}
+                  </Link>
+                </>
+              )}
+            </p>
+          )}
+        </div>
+        <div className="flex space-x-2">
+          {canReview && loan.status === 'pending' && (
+            <button
+              onClick={handleApprove}
+              disabled={busy}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-emerald-600 hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500 disabled:opacity-50"
+            >
+              Approve
+            </button>
+          )}
+          {canReview && loan.status === 'approved' && (
+            <button
+              onClick={handleDisburse}
+              disabled={busy}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-emerald-600 hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500 disabled:opacity-50"
+            >
+              Disburse
+            </button>
+          )}
+          {canReview && (loan.status === 'pending' || loan.status === 'approved') && (
+            <button
+              onClick={handleReject}
+              disabled={busy}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-50"
+            >
+              Reject
+            </button>
+          )}
+          {canApply && loan.applied_by === user?.id && loan.status === 'pending' && (
+            <button
+              onClick={handleWithdraw}
+              disabled={busy}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-gray-700 bg-gray-100 hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 disabled:opacity-50"
+            >
+              Withdraw
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      {success && (
+        <div className="bg-green-50 border border-green-200 rounded-md p-4">
+          <p className="text-green-800">{success}</p>
+        </div>
+      )}
+
+      {loan.arrears_amount > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4 flex items-center">
+          <AlertTriangle className="h-5 w-5 text-red-600 mr-2" />
+          <p className="text-red-800">
+            {formatCurrency(loan.arrears_amount)} in arrears across {loan.overdue_instalments} instalment{loan.overdue_instalments === 1 ? '' : 's'}; oldest is {loan.days_in_arrears} days overdue.
+          </p>
+        </div>
+      )}
+
+      {loan.status === 'rejected' && loan.rejection_reason && (
+        <div className="bg-gray-50 border border-gray-200 rounded-md p-4">
+          <p className="text-sm text-gray-700">Rejected: {loan.rejection_reason}</p>
+        </div>
+      )}
+
+      {/* Loan Details */}
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-6">
+        <h3 className="text-lg leading-6 font-medium text-gray-900 mb-4">Loan Details</h3>
+        <dl className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {details.map(({ label, value }) => (
+            <div key={label}>
+              <dt className="text-sm text-gray-500">{label}</dt>
+              <dd className="text-sm font-medium text-gray-900">{value}</dd>
+            </div>
+          ))}
+        </dl>
+        {loan.purpose && (
+          <div className="mt-4 pt-4 border-t border-gray-100">
+            <p className="text-sm text-gray-500">Purpose</p>
+            <p className="text-sm text-gray-900 whitespace-pre-line">{loan.purpose}</p>
+          </div>
+        )}
+      </div>
+
+      {/* Repayment */}
+      {canRepay && loan.status === 'active' && (
+        <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-6">
+          <h3 className="text-lg leading-6 font-medium text-gray-900 mb-1">Post Repayment</h3>
+          <p className="text-sm text-gray-500 mb-4">
+            Debited from account {loan.customer_account?.account_number} (balance {formatCurrency(loan.customer_account?.balance)}).
+            {loan.next_amount_due != null && ` Next instalment: ${formatCurrency(loan.next_amount_due)}${loan.next_due_date ? ` due ${new Date(loan.next_due_date).toLocaleDateString()}` : ''}.`}
+          </p>
+          <form onSubmit={handleRepayment} className="flex items-end space-x-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Amount (MUR)</label>
+              <input
+                type="number"
+                required
+                step="0.01"
+                min="0.01"
+                max={loan.outstanding_balance}
+                value={repayment.amount}
+                onChange={(e) => setRepayment(prev => ({ ...prev, amount: e.target.value }))}
+                className="mt-1 block w-48 border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+              />
+            </div>
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-700">Reference</label>
+              <input
+                type="text"
+                value={repayment.reference}
+                onChange={(e) => setRepayment(prev => ({ ...prev, reference: e.target.value }))}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+                maxLength={50}
+              />
+            </div>
+            {loan.next_amount_due != null && (
+              <button
+                type="button"
+                onClick={() => setRepayment(prev => ({ ...prev, amount: String(loan.next_amount_due) }))}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md"
+              >
+                Next instalment
+              </button>
+            )}
+            <button
+              type="submit"
+              disabled={repaymentMutation.isPending}
+              className="px-4 py-2 text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-700 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {repaymentMutation.isPending ? 'Posting...' : 'Post Repayment'}
+            </button>
+          </form>
+        </div>
+      )}
+
+      {/* Repayment Schedule */}
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-6">
+        <h3 className="text-lg leading-6 font-medium text-gray-900 mb-4">Repayment Schedule</h3>
+        {loan.instalments.length === 0 ? (
+          <p className="text-sm text-gray-500">The schedule is generated when the loan is disbursed.</p>
+        ) : (
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 uppercase">
+                <th className="py-2 font-medium">#</th>
+                <th className="py-2 font-medium">Due</th>
+                <th className="py-2 font-medium text-right">Principal</th>
+                {loan.product_type === 'murabaha' && <th className="py-2 font-medium text-right">Profit</th>}
+                <th className="py-2 font-medium text-right">Amount Due</th>
+                <th className="py-2 font-medium text-right">Paid</th>
+                <th className="py-2 font-medium text-right">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {loan.instalments.map(instalment => {
+                const status = instalmentStatus(instalment)
+                return (
+                  <tr key={instalment.id}>
+                    <td className="py-2 text-gray-700">{instalment.instalment_number}</td>
+                    <td className="py-2 text-gray-700">{new Date(instalment.due_date).toLocaleDateString()}</td>
+                    <td className="py-2 text-right text-gray-900">{formatCurrency(instalment.principal_due)}</td>
+                    {loan.product_type === 'murabaha' && (
+                      <td className="py-2 text-right text-gray-900">{formatCurrency(instalment.profit_due)}</td>
+                    )}
+                    <td className="py-2 text-right text-gray-900">{formatCurrency(instalment.amount_due)}</td>
+                    <td className="py-2 text-right text-gray-900">{formatCurrency(paidOn(instalment))}</td>
+                    <td className={`py-2 text-right ${status.className}`}>{status.label}</td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Ledger Postings */}
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-6">
+        <h3 className="text-lg leading-6 font-medium text-gray-900 mb-4">Ledger Postings</h3>
+        {postings.length === 0 ? (
+          <p className="text-sm text-gray-500">Nothing has been posted to this loan yet.</p>
+        ) : (
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 uppercase">
+                <th className="py-2 font-medium">Date</th>
+                <th className="py-2 font-medium">Entry</th>
+                <th className="py-2 font-medium">Reference</th>
+                <th className="py-2 font-medium text-right">Debit</th>
+                <th className="py-2 font-medium text-right">Credit</th>
+                <th className="py-2 font-medium text-right">Outstanding</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {postings.map(posting => (
+                <tr key={posting.id}>
+                  <td className="py-2 text-gray-700">{new Date(posting.journal_entry.posted_at).toLocaleDateString()}</td>
+                  <td className="py-2">
+                    <span className="text-gray-900 mr-2">{posting.journal_entry.entry_number}</span>
+                    <TransactionTypeBadge type={posting.journal_entry.entry_type} />
+                  </td>
+                  <td className="py-2 text-gray-500">{posting.journal_entry.reference || '—'}</td>
+                  <td className="py-2 text-right text-gray-900">{Number(posting.debit) > 0 ? formatCurrency(posting.debit) : ''}</td>
+                  <td className="py-2 text-right text-gray-900">{Number(posting.credit) > 0 ? formatCurrency(posting.credit) : ''}</td>
+                  <td className="py-2 text-right text-gray-900">{posting.balance_after != null ? formatCurrency(posting.balance_after) : ''}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,244 @@
+import React, { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { queryKeys } from '../lib/queryClient'
+import { Plus, Search, HandCoins, Eye, AlertTriangle } from 'lucide-react'
+import { loansApi, ApiError } from '../lib/dataFetching'
+import { hasPermission } from '../utils/permissions'
+import { formatCurrency, formatLoanProductType } from '../utils/helpers'
+import { useAuth } from '../contexts/AuthContext'
+import { LoanStatusBadge } from '../components/LoanStatusBadge'
+import { LoanApplicationModal } from '../components/LoanApplicationModal'
+import type { LoanStatus } from '../types'
+
+export function Loans() {
+  const queryClient = useQueryClient()
+  const { user } = useAuth()
+  const canApply = hasPermission(user, 'loans', 'apply')
+
+  const [searchTerm, setSearchTerm] = useState('')
+  const [statusFilter, setStatusFilter] = useState<LoanStatus | ''>('')
+  const [arrearsOnly, setArrearsOnly] = useState(false)
+  const [showApplicationModal, setShowApplicationModal] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  // Clear messages after 5 seconds
+  React.useEffect(() => {
+    if (error || success) {
+      const timer = setTimeout(() => {
+        setError(null)
+        setSuccess(null)
+      }, 5000)
+      return () => clearTimeout(timer)
+    }
+  }, [error, success])
+
+  const { data: loansData, isLoading: loansLoading } = useQuery({
+    queryKey: queryKeys.loans(),
+    queryFn: () => loansApi.getLoans(),
+  })
+
+  const applyMutation = useMutation({
+    mutationFn: loansApi.applyForLoan,
+    onSuccess: ({ loan }) => {
+      setSuccess(`Loan application ${loan.loan_number} submitted`)
+      setError(null)
+      setShowApplicationModal(false)
+      queryClient.invalidateQueries({ queryKey: queryKeys.loans() })
+    },
+    onError: (error) => {
+      setError(error instanceof ApiError ? error.message : 'Failed to submit loan application')
+      setSuccess(null)
+    },
+  })
+
+  const loans = loansData?.loans || []
+  const activeLoans = loans.filter(loan => loan.status === 'active')
+  const loansInArrears = activeLoans.filter(loan => loan.arrears_amount > 0)
+
+  const summary = {
+    outstanding: activeLoans.reduce((sum, loan) => sum + Number(loan.outstanding_balance), 0),
+    arrears: loansInArrears.reduce((sum, loan) => sum + loan.arrears_amount, 0),
+    pending: loans.filter(loan => loan.status === 'pending' || loan.status === 'approved').length
+  }
+
+  const search = searchTerm.trim().toLowerCase()
+  const filteredLoans = loans.filter(loan => {
+    if (statusFilter && loan.status !== statusFilter) return false
+    if (arrearsOnly && loan.arrears_amount <= 0) return false
+    if (!search) return true
+    return (
+      loan.loan_number.toLowerCase().includes(search) ||
+      `${loan.member?.first_name} ${loan.member?.last_name}`.toLowerCase().includes(search) ||
+      (loan.member?.member_number.toLowerCase().includes(search) ?? false) ||
+      (loan.customer_account?.account_number.includes(search) ?? false)
+    )
+  })
+
+  return (
+    <div className="space-y-6 pt-24">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+            <HandCoins className="h-7 w-7 text-emerald-600 mr-2" />
+            Loan Book
+          </h1>
+          <p className="mt-1 text-sm text-gray-600">
+            Qard Hasan and Murabaha financing granted to members
+          </p>
+        </div>
+        {canApply && (
+          <button
+            onClick={() => setShowApplicationModal(true)}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-emerald-600 hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            New Application
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      {success && (
+        <div className="bg-green-50 border border-green-200 rounded-md p-4">
+          <p className="text-green-800">{success}</p>
+        </div>
+      )}
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 gap-5 sm:grid-cols-2 lg:grid-cols-4">
+        <div className="bg-white overflow-hidden shadow rounded-lg p-5">
+          <dt className="text-sm font-medium text-gray-500 truncate">Active loans</dt>
+          <dd className="mt-1 text-2xl font-semibold text-gray-900">{activeLoans.length}</dd>
+        </div>
+        <div className="bg-white overflow-hidden shadow rounded-lg p-5">
+          <dt className="text-sm font-medium text-gray-500 truncate">Outstanding</dt>
+          <dd className="mt-1 text-2xl font-semibold text-gray-900">{formatCurrency(summary.outstanding)}</dd>
+        </div>
+        <div className="bg-white overflow-hidden shadow rounded-lg p-5">
+          <dt className="text-sm font-medium text-gray-500 truncate">In arrears ({loansInArrears.length} loans)</dt>
+          <dd className={`mt-1 text-2xl font-semibold ${summary.arrears > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+            {formatCurrency(summary.arrears)}
+          </dd>
+        </div>
+        <div className="bg-white overflow-hidden shadow rounded-lg p-5">
+          <dt className="text-sm font-medium text-gray-500 truncate">Awaiting approval or disbursement</dt>
+          <dd className="mt-1 text-2xl font-semibold text-gray-900">{summary.pending}</dd>
+        </div>
+      </div>
+
+      {/* Search */}
+      <div className="flex space-x-4">
+        <div className="relative flex-1">
+          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+            <Search className="h-5 w-5 text-gray-400" />
+          </div>
+          <input
+            type="text"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-emerald-500 focus:border-emerald-500"
+            placeholder="Search by loan number, member or account..."
+          />
+        </div>
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as LoanStatus | '')}
+          className="border border-gray-300 rounded-md px-3 py-2 bg-white focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+        >
+          <option value="">All statuses</option>
+          <option value="pending">Pending</option>
+          <option value="approved">Approved</option>
+          <option value="active">Active</option>
+          <option value="closed">Closed</option>
+          <option value="rejected">Rejected</option>
+          <option value="withdrawn">Withdrawn</option>
+        </select>
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={arrearsOnly}
+            onChange={(e) => setArrearsOnly(e.target.checked)}
+            className="rounded border-gray-300 text-emerald-600 focus:ring-emerald-500"
+          />
+          <span>In arrears only</span>
+        </label>
+      </div>
+
+      {/* Loans Table */}
+      <div className="bg-white shadow overflow-hidden sm:rounded-md">
+        {loansLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-600"></div>
+          </div>
+        ) : filteredLoans.length === 0 ? (
+          <div className="text-center py-12">
+            <HandCoins className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No loans</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              {searchTerm || statusFilter || arrearsOnly ? 'No loans match your search.' : 'Loan applications will appear here once submitted.'}
+            </p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {filteredLoans.map((loan) => (
+              <li key={loan.id}>
+                <div className="px-4 py-4 flex items-center justify-between">
+                  <div>
+                    <div className="flex items-center">
+                      <span className="text-sm font-medium text-gray-900">
+                        {loan.loan_number} &middot; {loan.loan_product?.name}
+                      </span>
+                      <LoanStatusBadge status={loan.status} className="ml-2" />
+                      <span className="ml-2 text-xs text-gray-500">{formatLoanProductType(loan.product_type)}</span>
+                    </div>
+                    <div className="text-sm text-gray-500">
+                      {loan.member?.first_name} {loan.member?.last_name} ({loan.member?.member_number}) &middot; Account {loan.customer_account?.account_number}
+                    </div>
+                    <div className="text-xs text-gray-400">
+                      {formatCurrency(loan.principal)} over {loan.term_months} months &middot; Applied {new Date(loan.applied_at).toLocaleDateString()}
+                      {loan.status === 'active' && loan.next_due_date && ` · Next due ${new Date(loan.next_due_date).toLocaleDateString()}`}
+                    </div>
+                    {loan.arrears_amount > 0 && (
+                      <div className="mt-1 inline-flex items-center text-xs text-red-600">
+                        <AlertTriangle className="h-3 w-3 mr-1" />
+                        {formatCurrency(loan.arrears_amount)} in arrears &middot; {loan.days_in_arrears} days overdue
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-4">
+                    <div className="text-right">
+                      <div className="text-sm font-semibold text-gray-900">{formatCurrency(loan.outstanding_balance)}</div>
+                      <div className="text-xs text-gray-500">Outstanding</div>
+                    </div>
+                    <Link
+                      to={`/loans/${loan.id}`}
+                      className="inline-flex items-center p-2 border border-transparent rounded-full shadow-sm text-white bg-emerald-600 hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500"
+                      title="View loan"
+                    >
+                      <Eye className="h-4 w-4" />
+                    </Link>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {canApply && showApplicationModal && (
+        <LoanApplicationModal
+          isSubmitting={applyMutation.isPending}
+          onClose={() => setShowApplicationModal(false)}
+          onSubmit={(applicationData) => applyMutation.mutate(applicationData)}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,295 @@
+import React, { useState } from 'react'
+import { Link, useParams } from 'react-router-dom'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { queryKeys } from '../lib/queryClient'
+import { ArrowLeft, Edit, UserCheck, Mail, Phone, MapPin, BadgeCheck, Calendar, Briefcase, Wallet, Plus, HandCoins, AlertTriangle, Scale } from 'lucide-react'
+import { membersApi, customerAccountsApi, loansApi, ApiError } from '../lib/dataFetching'
+import { hasPermission } from '../utils/permissions'
+import { formatCurrency, formatLoanProductType, calculateSavingsGoalProgress } from '../utils/helpers'
+import { useAuth } from '../contexts/AuthContext'
+import { MemberFormModal } from '../components/MemberFormModal'
+import { MemberStatusBadge } from '../components/MemberStatusBadge'
+import { AccountStatusBadge } from '../components/AccountStatusBadge'
+import { SavingsGoalStatusBadge } from '../components/SavingsGoalStatusBadge'
+import { SavingsGoalProgressBar } from '../components/SavingsGoalProgressBar'
+import { OpenAccountModal } from '../components/OpenAccountModal'
+import { MemberDocumentsPanel } from '../components/MemberDocumentsPanel'
+import { LoanStatusBadge } from '../components/LoanStatusBadge'
+import type { CreateMemberData, OpenCustomerAccountData } from '../types'
+
+export function MemberProfile() {
+  const { memberId = '' } = useParams()
+  const queryClient = useQueryClient()
+  const { user } = useAuth()
+  const canManageMembers = hasPermission(user, 'members', 'manage')
+  const canViewAccounts = hasPermission(user, 'accounts', 'view')
+  const canManageAccounts = hasPermission(user, 'accounts', 'manage')
+  const canViewDocuments = hasPermission(user, 'documents', 'view')
+  const canViewLoans = hasPermission(user, 'loans', 'view')
+  const canViewZakat = hasPermission(user, 'zakat', 'view')
+
+  const [showEditModal, setShowEditModal] = useState(false)
+  const [showOpenAccountModal, setShowOpenAccountModal] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const { data, isLoading } = useQuery({
+    queryKey: queryKeys.member(memberId),
+    queryFn: () => membersApi.getMember(memberId),
+    enabled: !!memberId,
+  })
+
+  const updateMemberMutation = useMutation({
+    mutationFn: (memberData: CreateMemberData) => membersApi.updateMember(memberId, memberData),
+    onSuccess: () => {
+      setError(null)
+      setShowEditModal(false)
+      queryClient.invalidateQueries({ queryKey: queryKeys.members() })
+    },
+    onError: (error) => {
+      setError(error instanceof ApiError ? error.message : 'Failed to update member')
+    },
+  })
+
+  const { data: accountsData, isLoading: accountsLoading } = useQuery({
+    queryKey: queryKeys.memberAccounts(memberId),
+    queryFn: () => customerAccountsApi.getCustomerAccounts(memberId),
+    enabled: !!memberId && canViewAccounts,
+  })
+
+  const { data: loansData, isLoading: loansLoading } = useQuery({
+    queryKey: queryKeys.memberLoans(memberId),
+    queryFn: () => loansApi.getLoans({ member_id: memberId }),
+    enabled: !!memberId && canViewLoans,
+  })
+
+  const openAccountMutation = useMutation({
+    mutationFn: (accountData: OpenCustomerAccountData) => customerAccountsApi.openCustomerAccount(accountData),
+    onSuccess: () => {
+      setError(null)
+      setShowOpenAccountModal(false)
+      queryClient.invalidateQueries({ queryKey: queryKeys.customerAccounts() })
+    },
+    onError: (error) => {
+      setError(error instanceof ApiError ? error.message : 'Failed to open account')
+    },
+  })
+
+  const member = data?.member
+  const accounts = accountsData?.customer_accounts || []
+  const loans = loansData?.loans || []
+  const canOpenAccount = canManageAccounts && (member?.membership_status === 'pending' || member?.membership_status === 'active')
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12 pt-24">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-600"></div>
+      </div>
+    )
+  }
+
+  if (!member) {
+    return (
+      <div className="text-center py-12 pt-24">
+        <h2 className="text-xl font-semibold text-gray-900">Member not found</h2>
+        <Link to="/admin/members" className="text-emerald-600 hover:text-emerald-700 text-sm mt-2 inline-block">
+          Back to member registry
+        </Link>
+      </div>
+    )
+  }
+
+  const details: { label: string; value: React.ReactNode; icon: React.ComponentType<{ className?: string }> }[] = [
+    { label: 'National ID', value: member.national_id, icon: BadgeCheck },
+    { label: 'Date of Birth', value: member.date_of_birth ? new Date(member.date_of_birth).toLocaleDateString() : 'Not recorded', icon: Calendar },
+    { label: 'Email', value: member.email || 'Not recorded', icon: Mail },
+    { label: 'Phone', value: member.phone || 'Not recorded', icon: Phone },
+    { label: 'Address', value: [member.address, member.city].filter(Boolean).join(', ') || 'Not recorded', icon: MapPin },
+    { label: 'Occupation', value: member.occupation || 'Not recorded', icon: Briefcase },
+  ]
+
+  return (
+    <div className="space-y-6 pt-24">
+      <Link to="/admin/members" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900">
+        <ArrowLeft className="h-4 w-4 mr-1" />
+        Member Registry
+      </Link>
+
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+            <UserCheck className="h-7 w-7 text-emerald-600 mr-2" />
+            {member.first_name} {member.last_name}
+            <MemberStatusBadge status={member.membership_status} className="ml-3" />
+          </h1>
+          <p className="mt-1 text-sm text-gray-600">
+            {member.member_number} &middot; Member since {new Date(member.joined_at).toLocaleDateString()}
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          {canViewZakat && (
+            <Link
+              to={`/reports/zakat/members/${member.id}`}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500"
+            >
+              <Scale className="h-4 w-4 mr-2" />
+              Zakat Statement
+            </Link>
+          )}
+          {canManageMembers && (
+            <button
+              onClick={() => setShowEditModal(true)}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              <Edit className="h-4 w-4 mr-2" />
+              Edit Member
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      {/* Personal Details */}
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-6">
+        <h3 className="text-lg leading-6 font-medium text-gray-900 mb-4">Personal Details</h3>
+        <dl className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {details.map(({ label, value, icon: Icon }) => (
+            <div key={label} className="flex items-start">
+              <Icon className="h-5 w-5 text-gray-400 mr-3 mt-0.5" />
+              <div>
+                <dt className="text-sm text-gray-500">{label}</dt>
+                <dd className="text-sm font-medium text-gray-900">{value}</dd>
+              </div>
+            </div>
+          ))}
+        </dl>
+        {member.notes && (
+          <div className="mt-4 pt-4 border-t border-gray-100">
+            <p className="text-sm text-gray-500">Notes</p>
+            <p className="text-sm text-gray-900 whitespace-pre-line">{member.notes}</p>
+          </div>
+        )}
+      </div>
+
+      {/* Accounts */}
+      {canViewAccounts && (
+        <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg leading-6 font-medium text-gray-900">Accounts</h3>
+            {canOpenAccount && (
+              <button
+                onClick={() => setShowOpenAccountModal(true)}
+                className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-emerald-600 hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Open Account
+              </button>
+            )}
+          </div>
+          {accountsLoading || openAccountMutation.isPending ? (
+            <div className="flex items-center justify-center py-6">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-emerald-600"></div>
+            </div>
+          ) : accounts.length === 0 ? (
+            <p className="text-sm text-gray-500">This member has no accounts yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {accounts.map(account => {
+                const goalProgress = account.status !== 'closed' ? calculateSavingsGoalProgress(account) : null
+                return (
+                  <li key={account.id} className="py-3">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center">
+                        <Wallet className="h-5 w-5 text-gray-400 mr-3" />
+                        <div>
+                          <Link to={`/accounts/${account.id}`} className="text-sm font-medium text-emerald-600 hover:text-emerald-700">
+                            {account.account_number}
+                          </Link>
+                          <p className="text-xs text-gray-500">{account.account_type?.name}</p>
+                        </div>
+                        <AccountStatusBadge status={account.status} className="ml-3" />
+                        {goalProgress && <SavingsGoalStatusBadge status={goalProgress.status} className="ml-2" />}
+                      </div>
+                      <span className="text-sm font-semibold text-gray-900">{formatCurrency(account.balance)}</span>
+                    </div>
+                    {goalProgress && (
+                      <div className="mt-2 ml-8">
+                        <SavingsGoalProgressBar progress={goalProgress} />
+                        <p className="mt-1 text-xs text-gray-500">
+                          {goalProgress.percent.toFixed(0)}% of {formatCurrency(goalProgress.goal_amount)} by {new Date(goalProgress.goal_date).toLocaleDateString()}
+                          {goalProgress.remaining > 0 && ` · ${formatCurrency(goalProgress.required_monthly)} per month needed`}
+                        </p>
+                      </div>
+                    )}
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {/* Loans */}
+      {canViewLoans && (
+        <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-6">
+          <h3 className="text-lg leading-6 font-medium text-gray-900 mb-4">Loans</h3>
+          {loansLoading ? (
+            <div className="flex items-center justify-center py-6">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-emerald-600"></div>
+            </div>
+          ) : loans.length === 0 ? (
+            <p className="text-sm text-gray-500">This member has no loans.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {loans.map(loan => (
+                <li key={loan.id} className="py-3 flex items-center justify-between">
+                  <div className="flex items-center">
+                    <HandCoins className="h-5 w-5 text-gray-400 mr-3" />
+                    <div>
+                      <Link to={`/loans/${loan.id}`} className="text-sm font-medium text-emerald-600 hover:text-emerald-700">
+                        {loan.loan_number}
+                      </Link>
+                      <p className="text-xs text-gray-500">
+                        {loan.loan_product?.name} ({formatLoanProductType(loan.product_type)})
+                      </p>
+                      {loan.arrears_amount > 0 && (
+                        <p className="inline-flex items-center text-xs text-red-600">
+                          <AlertTriangle className="h-3 w-3 mr-1" />
+                          {formatCurrency(loan.arrears_amount)} in arrears
+                        </p>
+                      )}
+                    </div>
+                    <LoanStatusBadge status={loan.status} className="ml-3" />
+                  </div>
+                  <span className="text-sm font-semibold text-gray-900">{formatCurrency(loan.outstanding_balance)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {canViewDocuments && <MemberDocumentsPanel memberId={member.id} accounts={accounts} />}
+
+      {canOpenAccount && showOpenAccountModal && (
+        <OpenAccountModal
+          memberId={member.id}
+          onClose={() => setShowOpenAccountModal(false)}
+          onSubmit={(accountData) => openAccountMutation.mutate(accountData)}
+        />
+      )}
+
+      {canManageMembers && showEditModal && (
+        <MemberFormModal
+          member={member}
+          onClose={() => setShowEditModal(false)}
+          onSubmit={(memberData) => updateMemberMutation.mutate(memberData)}
+        />
+      )}
+    </div>
+  )
+}
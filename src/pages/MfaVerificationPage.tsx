@@ -0,0 +1,159 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import { useNavigate, useLocation } from 'react-router-dom'
+import { useAuth } from '../contexts/AuthContext'
+import { MfaEnrollment } from '../components/MfaEnrollment'
+import { Shield, AlertCircle } from 'lucide-react'
+import type { Role } from '../types/auth'
+
+type Step = 'code' | 'recovery' | 'enrol'
+
+// Second sign-in step: a code from the user's authenticator app or a recovery code, or enrolling
+// an authenticator when a role requires one and the user has none yet
+export function MfaVerificationPage() {
+  const navigate = useNavigate()
+  const location = useLocation()
+  const { user, assuranceLevel, mfaPending, verifyMfa, redeemRecoveryCode, refreshAssuranceLevel, signOut, loading: authLoading } = useAuth()
+
+  const [step, setStep] = useState<Step | null>(null)
+  const [code, setCode] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const continueSignIn = useCallback(() => {
+    if (user?.needs_password_reset) {
+      navigate('/force-password-change', { replace: true })
+    } else if (location.state?.from?.pathname) {
+      navigate(location.state.from.pathname, { replace: true })
+    } else if (user?.roles?.some((role: Role) => role.name === 'admin')) {
+      navigate('/admin/dashboard', { replace: true })
+    } else {
+      navigate('/dashboard', { replace: true })
+    }
+  }, [user, location.state, navigate])
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate('/login', { replace: true })
+      return
+    }
+
+    // While enrolling, stay on the page until the recovery codes have been saved
+    if (!assuranceLevel || step === 'enrol') return
+
+    if (!mfaPending) {
+      continueSignIn()
+    } else if (!step) {
+      setStep(assuranceLevel.next === 'aal2' ? 'code' : 'enrol')
+    }
+  }, [user, authLoading, assuranceLevel, mfaPending, step, navigate, continueSignIn])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setIsLoading(true)
+
+    try {
+      if (step === 'recovery') {
+        await redeemRecoveryCode(code.trim())
+        // The authenticator is gone now: users whose role requires one enrol a new one
+        setCode('')
+        setStep(null)
+      } else {
+        await verifyMfa(code.trim())
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Verification failed')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleEnrolled = async () => {
+    await refreshAssuranceLevel()
+    continueSignIn()
+  }
+
+  if (authLoading || !user || !step) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-emerald-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-emerald-50 to-blue-50 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <div className="mx-auto h-16 w-16 bg-emerald-600 rounded-full flex items-center justify-center mb-6">
+            <Shield className="h-8 w-8 text-white" />
+          </div>
+          <h2 className="mt-6 text-center text-3xl font-bold text-gray-900">
+            {step === 'enrol' ? 'Set Up Two-Factor Authentication' : 'Two-Factor Authentication'}
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            {step === 'enrol'
+              ? 'Your role requires an authenticator app in addition to your password.'
+              : step === 'recovery'
+                ? 'Enter one of the recovery codes you saved when setting up your authenticator.'
+                : 'Enter the 6-digit code from your authenticator app.'}
+          </p>
+        </div>
+
+        {step === 'enrol' ? (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <MfaEnrollment onComplete={handleEnrolled} />
+          </div>
+        ) : (
+          <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-md p-4 flex items-start">
+                <AlertCircle className="h-5 w-5 text-red-400 mt-0.5 mr-3 flex-shrink-0" />
+                <div className="text-sm text-red-700">{error}</div>
+              </div>
+            )}
+
+            <div>
+              <label htmlFor="mfa-code" className="block text-sm font-medium text-gray-700 mb-1">
+                {step === 'recovery' ? 'Recovery code' : 'Authentication code'}
+              </label>
+              <input
+                id="mfa-code"
+                name="mfa-code"
+                type="text"
+                inputMode={step === 'recovery' ? 'text' : 'numeric'}
+                autoComplete="one-time-code"
+                required
+                value={code}
+                onChange={(e) => setCode(step === 'recovery' ? e.target.value : e.target.value.replace(/\D/g, '').slice(0, 6))}
+                className="relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-md font-mono tracking-widest focus:outline-none focus:ring-emerald-500 focus:border-emerald-500 sm:text-sm"
+                placeholder={step === 'recovery' ? 'XXXXX-XXXXX' : '123456'}
+              />
+            </div>
+
+            <button
+              type="submit"
+              disabled={isLoading || !code}
+              className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-emerald-600 hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+            >
+              {isLoading ? 'Verifying...' : 'Verify'}
+            </button>
+
+            <div className="flex items-center justify-between text-sm">
+              <button
+                type="button"
+                onClick={() => { setStep(step === 'recovery' ? 'code' : 'recovery'); setCode(''); setError(null) }}
+                className="font-medium text-emerald-600 hover:text-emerald-500"
+              >
+                {step === 'recovery' ? 'Use authenticator app' : 'Use a recovery code'}
+              </button>
+              <button type="button" onClick={signOut} className="font-medium text-gray-600 hover:text-gray-500">
+                Sign out
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,231 @@
+import React, { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { queryKeys } from '../lib/queryClient'
+import { ArrowLeft, Files, RefreshCw } from 'lucide-react'
+import { accountStatementsApi, ApiError } from '../lib/dataFetching'
+import { hasPermission } from '../utils/permissions'
+import { formatCurrency, addDays } from '../utils/helpers'
+import { useAuth } from '../contexts/AuthContext'
+import { StatementFileButtons } from '../components/StatementFileButtons'
+import type { AccountStatementBatchResult } from '../types'
+
+export function MonthlyStatements() {
+  const queryClient = useQueryClient()
+  const { user } = useAuth()
+  const canGenerate = hasPermission(user, 'statements', 'generate')
+
+  // Only months that have ended can be generated
+  const lastMonth = addDays(`${new Date().toISOString().slice(0, 7)}-01`, -1).slice(0, 7)
+
+  const [month, setMonth] = useState(lastMonth)
+  const [searchTerm, setSearchTerm] = useState('')
+  const [batchResult, setBatchResult] = useState<AccountStatementBatchResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  // Clear messages after 5 seconds
+  React.useEffect(() => {
+    if (error || success) {
+      const timer = setTimeout(() => {
+        setError(null)
+        setSuccess(null)
+      }, 5000)
+      return () => clearTimeout(timer)
+    }
+  }, [error, success])
+
+  const { data, isLoading } = useQuery({
+    queryKey: queryKeys.monthlyStatements(month),
+    queryFn: () => accountStatementsApi.getStatements({ month }),
+    enabled: !!month,
+  })
+
+  const generateMutation = useMutation({
+    mutationFn: (regenerate: boolean) => accountStatementsApi.generateMonthlyStatements({ month, regenerate }),
+    onSuccess: (result) => {
+      setBatchResult(result)
+      setSuccess(`${result.generated} statement${result.generated === 1 ? '' : 's'} generated${result.skipped ? `, ${result.skipped} already existed` : ''}`)
+      setError(null)
+      queryClient.invalidateQueries({ queryKey: ['accountStatements'] })
+    },
+    onError: (error) => {
+      setError(error instanceof ApiError ? error.message : 'Failed to generate statements')
+      setSuccess(null)
+    },
+  })
+
+  const statements = data?.statements || []
+
+  const search = searchTerm.trim().toLowerCase()
+  const filteredStatements = statements.filter(statement => {
+    if (!search) return true
+    const member = statement.customer_account?.member
+    return (
+      `${member?.first_name} ${member?.last_name}`.toLowerCase().includes(search) ||
+      (member?.member_number.toLowerCase().includes(search) ?? false) ||
+      (statement.customer_account?.account_number.includes(search) ?? false)
+    )
+  })
+
+  const handleGenerate = () => {
+    const regenerate = statements.length > 0 &&
+      confirm('Statements already generated for this month will be kept. Regenerate them as well?')
+    generateMutation.mutate(regenerate)
+  }
+
+  return (
+    <div className="space-y-6 pt-24">
+      <Link to="/reports" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900">
+        <ArrowLeft className="h-4 w-4 mr-1" />
+        Reports
+      </Link>
+
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+            <Files className="h-7 w-7 text-emerald-600 mr-2" />
+            Monthly Account Statements
+          </h1>
+          <p className="mt-1 text-sm text-gray-600">
+            Statements generated at the end of each month for every active customer account
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <input
+            type="month"
+            value={month}
+            max={lastMonth}
+            onChange={(e) => {
+              setMonth(e.target.value)
+              setBatchResult(null)
+            }}
+            className="border border-gray-300 rounded-md px-3 py-2 bg-white focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+          />
+          {canGenerate && (
+            <button
+              onClick={handleGenerate}
+              disabled={!month || month > lastMonth || generateMutation.isPending}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-emerald-600 hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500 disabled:opacity-50"
+            >
+              <RefreshCw className={`h-4 w-4 mr-2 ${generateMutation.isPending ? 'animate-spin' : ''}`} />
+              {generateMutation.isPending ? 'Generating...' : 'Generate Statements'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      {success && (
+        <div className="bg-green-50 border border-green-200 rounded-md p-4">
+          <p className="text-green-800">{success}</p>
+        </div>
+      )}
+
+      {batchResult && batchResult.failed.length > 0 && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4">
+          <p className="text-yellow-800 font-medium">
+            {batchResult.failed.length} statement{batchResult.failed.length === 1 ? '' : 's'} could not be generated. Run the batch again to retry.
+          </p>
+          <ul className="mt-2 text-sm text-yellow-800 list-disc list-inside">
+            {batchResult.failed.map(failure => (
+              <li key={failure.account_number}>{failure.account_number}: {failure.error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 gap-5 sm:grid-cols-3">
+        <div className="bg-white overflow-hidden shadow rounded-lg p-5">
+          <dt className="text-sm font-medium text-gray-500 truncate">Statements</dt>
+          <dd className="mt-1 text-2xl font-semibold text-gray-900">{statements.length}</dd>
+        </div>
+        <div className="bg-white overflow-hidden shadow rounded-lg p-5">
+          <dt className="text-sm font-medium text-gray-500 truncate">Money in / out</dt>
+          <dd className="mt-1 text-2xl font-semibold text-gray-900">
+            {formatCurrency(statements.reduce((sum, statement) => sum + Number(statement.total_credits), 0))}
+            <span className="text-base font-normal text-gray-500"> / {formatCurrency(statements.reduce((sum, statement) => sum + Number(statement.total_debits), 0))}</span>
+          </dd>
+        </div>
+        <div className="bg-white overflow-hidden shadow rounded-lg p-5">
+          <dt className="text-sm font-medium text-gray-500 truncate">Fees charged</dt>
+          <dd className="mt-1 text-2xl font-semibold text-gray-900">
+            {formatCurrency(statements.reduce((sum, statement) => sum + Number(statement.total_fees), 0))}
+          </dd>
+        </div>
+      </div>
+
+      <input
+        type="text"
+        value={searchTerm}
+        onChange={(e) => setSearchTerm(e.target.value)}
+        className="block w-full px-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-emerald-500 focus:border-emerald-500"
+        placeholder="Search by member name, member number or account number..."
+      />
+
+      {/* Statements */}
+      <div className="bg-white shadow overflow-hidden sm:rounded-md">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-600"></div>
+          </div>
+        ) : filteredStatements.length === 0 ? (
+          <div className="text-center py-12">
+            <Files className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No statements</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              {searchTerm ? 'No statements match your search.' : 'Statements for this month have not been generated yet.'}
+            </p>
+          </div>
+        ) : (
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr className="text-left text-xs text-gray-500 uppercase">
+                <th className="px-4 py-3 font-medium">Member</th>
+                <th className="px-4 py-3 font-medium text-right">Opening</th>
+                <th className="px-4 py-3 font-medium text-right">Money In</th>
+                <th className="px-4 py-3 font-medium text-right">Money Out</th>
+                <th className="px-4 py-3 font-medium text-right">Fees</th>
+                <th className="px-4 py-3 font-medium text-right">Closing</th>
+                <th className="px-4 py-3 font-medium">Generated</th>
+                <th className="px-4 py-3 font-medium"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {filteredStatements.map(statement => (
+                <tr key={statement.id}>
+                  <td className="px-4 py-3">
+                    <div className="font-medium text-gray-900">
+                      {statement.customer_account?.member?.first_name} {statement.customer_account?.member?.last_name}
+                    </div>
+                    <Link to={`/accounts/${statement.customer_account_id}`} className="text-xs text-emerald-600 hover:text-emerald-700">
+                      {statement.customer_account?.account_number}
+                    </Link>
+                  </td>
+                  <td className="px-4 py-3 text-right text-gray-700">{formatCurrency(statement.opening_balance)}</td>
+                  <td className="px-4 py-3 text-right text-gray-700">{formatCurrency(statement.total_credits)}</td>
+                  <td className="px-4 py-3 text-right text-gray-700">{formatCurrency(statement.total_debits)}</td>
+                  <td className="px-4 py-3 text-right text-gray-700">{formatCurrency(statement.total_fees)}</td>
+                  <td className="px-4 py-3 text-right text-gray-900">{formatCurrency(statement.closing_balance)}</td>
+                  <td className="px-4 py-3 text-gray-500">
+                    {new Date(statement.generated_at).toLocaleDateString()}
+                    {!statement.generated_by && <span className="ml-1 text-xs">(scheduled)</span>}
+                  </td>
+                  <td className="px-4 py-3">
+                    <StatementFileButtons statementId={statement.id} onError={setError} />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,8 +1,13 @@
 import React, { useState, useEffect } from 'react'
+import { useQuery } from '@tanstack/react-query'
 import { useAuth } from '../contexts/AuthContext'
 import { supabase } from '../lib/supabase'
 import { User, Mail, Edit, CheckCircle, AlertCircle, Shield } from 'lucide-react'
 import ChangePasswordForm from '../components/ChangePasswordForm'
+import { MfaSettings } from '../components/MfaSettings'
+import { ActiveSessions } from '../components/ActiveSessions'
+import { passwordPolicyApi } from '../lib/dataFetching'
+import { queryKeys } from '../lib/queryClient'
 
 export function ProfilePage() {
   const { user, refreshUser } = useAuth()
@@ -12,6 +17,16 @@ export function ProfilePage() {
   const [message, setMessage] = useState<string | null>(null)
   const [isSuccess, setIsSuccess] = useState(false)
 
+  const { data: passwordPolicy } = useQuery({
+    queryKey: queryKeys.passwordPolicy(),
+    queryFn: passwordPolicyApi.getPolicy,
+  })
+
+  const passwordChangedAt = user?.password_changed_at ? new Date(user.password_changed_at) : null
+  const passwordExpiresAt = passwordChangedAt && passwordPolicy?.max_age_days
+    ? new Date(passwordChangedAt.getTime() + passwordPolicy.max_age_days * 24 * 60 * 60 * 1000)
+    : null
+
   useEffect(() => {
     if (user) {
       setFullName(user.full_name || '')
@@ -55,7 +70,7 @@ export function ProfilePage() {
       <div>
         <h1 className="text-2xl font-bold text-gray-900">User Profile</h1>
         <p className="mt-1 text-sm text-gray-600">
-          View and manage your personal information and password.
+          View and manage your personal information, password and two-factor authentication.
         </p>
       </div>
 
@@ -133,8 +148,26 @@ export function ProfilePage() {
       {/* Change Password Section */}
       <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-6">
         <h3 className="text-lg leading-6 font-medium text-gray-900 mb-4">Change Password</h3>
+        {passwordChangedAt && (
+          <p className="text-sm text-gray-600 mb-4">
+            Last changed on {passwordChangedAt.toLocaleDateString()}
+            {passwordExpiresAt && `; expires on ${passwordExpiresAt.toLocaleDateString()}`}
+          </p>
+        )}
         <ChangePasswordForm />
       </div>
+
+      {/* Two-Factor Authentication Section */}
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-6">
+        <h3 className="text-lg leading-6 font-medium text-gray-900 mb-4">Two-Factor Authentication</h3>
+        <MfaSettings />
+      </div>
+
+      {/* Active Sessions Section */}
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-6">
+        <h3 className="text-lg leading-6 font-medium text-gray-900 mb-4">Active Sessions</h3>
+        <ActiveSessions />
+      </div>
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,80 @@
+import type { ComponentType } from 'react'
+import { Link } from 'react-router-dom'
+import { FileText, Scale, Target, Files } from 'lucide-react'
+import { hasPermission } from '../utils/permissions'
+import { useAuth } from '../contexts/AuthContext'
+
+interface ReportLink {
+  name: string
+  description: string
+  href: string
+  icon: ComponentType<{ className?: string }>
+  permission: { resource: string; action: string }
+}
+
+const reports: ReportLink[] = [
+  {
+    name: 'Zakat',
+    description: 'Zakat due per member from account balances held above the nisab for a full hawl',
+    href: '/reports/zakat',
+    icon: Scale,
+    permission: { resource: 'zakat', action: 'view' }
+  },
+  {
+    name: 'Hajj Savings Goals',
+    description: 'Members on track or behind their savings target for the coming Hajj season',
+    href: '/reports/savings-goals',
+    icon: Target,
+    permission: { resource: 'accounts', action: 'view' }
+  },
+  {
+    name: 'Monthly Account Statements',
+    description: 'PDF and CSV statements generated each month for every active customer account',
+    href: '/reports/statements',
+    icon: Files,
+    permission: { resource: 'statements', action: 'view' }
+  },
+]
+
+export function Reports() {
+  const { user } = useAuth()
+  const availableReports = reports.filter(report => hasPermission(user, report.permission.resource, report.permission.action))
+
+  return (
+    <div className="space-y-6 pt-24">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+          <FileText className="h-7 w-7 text-emerald-600 mr-2" />
+          Reports
+        </h1>
+        <p className="mt-1 text-sm text-gray-600">
+          Statements and regulatory reports for members and administrators
+        </p>
+      </div>
+
+      {availableReports.length === 0 ? (
+        <div className="bg-white shadow rounded-lg text-center py-12">
+          <FileText className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">No reports available</h3>
+          <p className="mt-1 text-sm text-gray-500">You do not have access to any report yet.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 gap-5 sm:grid-cols-2 lg:grid-cols-3">
+          {availableReports.map(report => (
+            <Link
+              key={report.href}
+              to={report.href}
+              className="bg-white overflow-hidden shadow rounded-lg p-5 hover:shadow-md transition-shadow duration-200"
+            >
+              <div className="flex items-center">
+                <report.icon className="h-6 w-6 text-emerald-600 mr-3" />
+                <h3 className="text-lg font-medium text-gray-900">{report.name}</h3>
+              </div>
+              <p className="mt-2 text-sm text-gray-500">{report.description}</p>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
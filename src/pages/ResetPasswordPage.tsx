@@ -2,11 +2,13 @@ import React, { useState, useEffect } from 'react'
 import { useNavigate, Link } from 'react-router-dom'
 import { useAuth } from '../contexts/AuthContext'
 import { validatePasswordStrength } from '../utils/validation'
+import { PasswordRequirements } from '../components/PasswordRequirements'
+import type { PasswordValidationResult } from '../types/auth'
 import { Shield, Eye, EyeOff, AlertCircle, CheckCircle } from 'lucide-react'
 
 export function ResetPasswordPage() {
   const navigate = useNavigate()
-  const { changePassword } = useAuth()
+  const { user, changePassword } = useAuth()
 
   const [password, setPassword] = useState('')
   const [confirmPassword, setConfirmPassword] = useState('')
@@ -15,11 +17,7 @@ export function ResetPasswordPage() {
   const [isSuccess, setIsSuccess] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
   const [accessToken, setAccessToken] = useState<string | null>(null)
-  const [passwordValidation, setPasswordValidation] = useState<{
-    isValid: boolean
-    message: string
-    errors: string[]
-  } | null>(null)
+  const [passwordValidation, setPasswordValidation] = useState<PasswordValidationResult | null>(null)
 
   // Extract access token from hash or query params
   useEffect(() => {
@@ -48,12 +46,16 @@ export function ResetPasswordPage() {
   }, [])
 
   useEffect(() => {
-    if (password) {
-      validatePasswordStrength(password).then(result => setPasswordValidation(result))
-    } else {
+    if (!password) {
       setPasswordValidation(null)
+      return
     }
-  }, [password])
+    // Results can arrive out of order while the compromised password list is looked up
+    let current = true
+    validatePasswordStrength(password, { email: user?.email, full_name: user?.full_name })
+      .then(result => { if (current) setPasswordValidation(result) })
+    return () => { current = false }
+  }, [password, user?.email, user?.full_name])
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -161,20 +163,7 @@ export function ResetPasswordPage() {
                   )}
                 </button>
               </div>
-              {passwordValidation && (
-                <div className="mt-2">
-                  <p className={`text-xs ${passwordValidation.isValid ? 'text-green-600' : 'text-red-600'}`}>
-                    {passwordValidation.message}
-                  </p>
-                  {!passwordValidation.isValid && passwordValidation.errors.length > 0 && (
-                    <ul className="mt-1 text-xs text-red-600 list-disc list-inside">
-                      {passwordValidation.errors.map((error, index) => (
-                        <li key={index}>{error}</li>
-                      ))}
-                    </ul>
-                  )}
-                </div>
-              )}
+              <PasswordRequirements password={password} validation={passwordValidation} />
             </div>
 
             <div>
@@ -0,0 +1,206 @@
+import { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { useQuery } from '@tanstack/react-query'
+import { queryKeys } from '../lib/queryClient'
+import { ArrowLeft, Target, Download } from 'lucide-react'
+import { customerAccountsApi } from '../lib/dataFetching'
+import { formatCurrency, downloadCsv, calculateSavingsGoalProgress } from '../utils/helpers'
+import { SavingsGoalStatusBadge } from '../components/SavingsGoalStatusBadge'
+import { SavingsGoalProgressBar } from '../components/SavingsGoalProgressBar'
+import type { SavingsGoalStatus } from '../types'
+
+export function SavingsGoalsReport() {
+  const [season, setSeason] = useState<string>('')
+  const [statusFilter, setStatusFilter] = useState<'all' | SavingsGoalStatus>('all')
+  const [searchTerm, setSearchTerm] = useState('')
+
+  const { data, isLoading } = useQuery({
+    queryKey: queryKeys.customerAccounts(),
+    queryFn: () => customerAccountsApi.getCustomerAccounts(),
+  })
+
+  const today = new Date().toISOString().slice(0, 10)
+
+  // Open goal accounts whose target date is still ahead, each target year being one Hajj season
+  const goals = (data?.customer_accounts || [])
+    .filter(account => account.status !== 'closed' && account.goal_date && account.goal_date >= today)
+    .map(account => ({ account, progress: calculateSavingsGoalProgress(account)! }))
+    .sort((a, b) => a.progress.goal_date.localeCompare(b.progress.goal_date))
+
+  const seasons = Array.from(new Set(goals.map(goal => goal.progress.goal_date.slice(0, 4))))
+  const selectedSeason = season || seasons[0] || ''
+  const seasonGoals = goals.filter(goal => goal.progress.goal_date.startsWith(selectedSeason))
+
+  const onTrack = seasonGoals.filter(goal => goal.progress.status !== 'behind')
+  const behind = seasonGoals.filter(goal => goal.progress.status === 'behind')
+  const shortfall = behind.reduce((sum, goal) => sum + Math.max(0, goal.progress.goal_amount - goal.progress.projected_balance), 0)
+
+  const search = searchTerm.trim().toLowerCase()
+  const filteredGoals = seasonGoals.filter(({ account, progress }) => {
+    if (statusFilter !== 'all' && progress.status !== statusFilter) return false
+    if (!search) return true
+    return (
+      `${account.member?.first_name} ${account.member?.last_name}`.toLowerCase().includes(search) ||
+      (account.member?.member_number.toLowerCase().includes(search) ?? false) ||
+      account.account_number.includes(search)
+    )
+  })
+
+  const handleDownload = () => {
+    downloadCsv(`savings-goals-${selectedSeason}.csv`, [
+      ['Member Number', 'Member', 'Account', 'Account Type', 'Target Date', 'Target Amount', 'Balance', 'Progress %', 'Needed per Month', 'Average per Month', 'Projected', 'Status'],
+      ...seasonGoals.map(({ account, progress }) => [
+        account.member?.member_number,
+        `${account.member?.first_name ?? ''} ${account.member?.last_name ?? ''}`.trim(),
+        account.account_number,
+        account.account_type?.name,
+        progress.goal_date,
+        progress.goal_amount.toFixed(2),
+        progress.balance.toFixed(2),
+        progress.percent.toFixed(1),
+        progress.required_monthly.toFixed(2),
+        progress.average_monthly.toFixed(2),
+        progress.projected_balance.toFixed(2),
+        progress.status
+      ])
+    ])
+  }
+
+  return (
+    <div className="space-y-6 pt-24">
+      <Link to="/reports" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900">
+        <ArrowLeft className="h-4 w-4 mr-1" />
+        Reports
+      </Link>
+
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+            <Target className="h-7 w-7 text-emerald-600 mr-2" />
+            Hajj Savings Goals
+          </h1>
+          <p className="mt-1 text-sm text-gray-600">
+            Members on track or behind for their savings target, projected from their saving rate so far
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <select
+            value={selectedSeason}
+            onChange={(e) => setSeason(e.target.value)}
+            disabled={seasons.length === 0}
+            className="border border-gray-300 rounded-md px-3 py-2 bg-white focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+          >
+            {seasons.length === 0 && <option value="">No upcoming goals</option>}
+            {seasons.map(year => (
+              <option key={year} value={year}>Season {year}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleDownload}
+            disabled={seasonGoals.length === 0}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500 disabled:opacity-50"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Download CSV
+          </button>
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 gap-5 sm:grid-cols-3">
+        <div className="bg-white overflow-hidden shadow rounded-lg p-5">
+          <dt className="text-sm font-medium text-gray-500 truncate">On track or reached</dt>
+          <dd className="mt-1 text-2xl font-semibold text-gray-900">{onTrack.length} of {seasonGoals.length}</dd>
+        </div>
+        <div className="bg-white overflow-hidden shadow rounded-lg p-5">
+          <dt className="text-sm font-medium text-gray-500 truncate">Behind</dt>
+          <dd className="mt-1 text-2xl font-semibold text-gray-900">{behind.length}</dd>
+        </div>
+        <div className="bg-white overflow-hidden shadow rounded-lg p-5">
+          <dt className="text-sm font-medium text-gray-500 truncate">Projected shortfall</dt>
+          <dd className="mt-1 text-2xl font-semibold text-gray-900">{formatCurrency(shortfall)}</dd>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="flex space-x-4">
+        <input
+          type="text"
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          className="flex-1 block w-full px-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-emerald-500 focus:border-emerald-500"
+          placeholder="Search by member name, member number or account number..."
+        />
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as 'all' | SavingsGoalStatus)}
+          className="border border-gray-300 rounded-md px-3 py-2 bg-white focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+        >
+          <option value="all">All statuses</option>
+          <option value="reached">Goal reached</option>
+          <option value="on_track">On track</option>
+          <option value="behind">Behind</option>
+        </select>
+      </div>
+
+      {/* Goals */}
+      <div className="bg-white shadow overflow-hidden sm:rounded-md">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-600"></div>
+          </div>
+        ) : filteredGoals.length === 0 ? (
+          <div className="text-center py-12">
+            <Target className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No savings goals</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              {searchTerm || statusFilter !== 'all' ? 'No goals match your filters.' : 'Goals appear here once members open goal-based accounts.'}
+            </p>
+          </div>
+        ) : (
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr className="text-left text-xs text-gray-500 uppercase">
+                <th className="px-4 py-3 font-medium">Member</th>
+                <th className="px-4 py-3 font-medium">Target</th>
+                <th className="px-4 py-3 font-medium w-48">Progress</th>
+                <th className="px-4 py-3 font-medium text-right">Needed / Month</th>
+                <th className="px-4 py-3 font-medium text-right">Projected</th>
+                <th className="px-4 py-3 font-medium">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {filteredGoals.map(({ account, progress }) => (
+                <tr key={account.id}>
+                  <td className="px-4 py-3">
+                    <div className="font-medium text-gray-900">
+                      {account.member?.first_name} {account.member?.last_name}
+                    </div>
+                    <Link to={`/accounts/${account.id}`} className="text-xs text-emerald-600 hover:text-emerald-700">
+                      {account.account_number}
+                    </Link>
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="text-gray-900">{formatCurrency(progress.goal_amount)}</div>
+                    <div className="text-xs text-gray-500">by {new Date(progress.goal_date).toLocaleDateString()}</div>
+                  </td>
+                  <td className="px-4 py-3">
+                    <SavingsGoalProgressBar progress={progress} />
+                    <div className="mt-1 text-xs text-gray-500">
+                      {formatCurrency(progress.balance)} ({progress.percent.toFixed(0)}%)
+                    </div>
+                  </td>
+                  <td className="px-4 py-3 text-right text-gray-900">{formatCurrency(progress.required_monthly)}</td>
+                  <td className="px-4 py-3 text-right text-gray-700">{formatCurrency(progress.projected_balance)}</td>
+                  <td className="px-4 py-3">
+                    <SavingsGoalStatusBadge status={progress.status} />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,196 @@
+import React, { useState, useEffect } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { CheckCircle, AlertCircle, KeyRound } from 'lucide-react'
+import { passwordPolicyApi, ApiError } from '../lib/dataFetching'
+import { queryKeys } from '../lib/queryClient'
+import { hasPermission } from '../utils/permissions'
+import { useAuth } from '../contexts/AuthContext'
+import type { PasswordPolicy } from '../types/auth'
+
+const CHARACTER_CLASSES: { field: 'require_uppercase' | 'require_lowercase' | 'require_number' | 'require_special'; label: string }[] = [
+  { field: 'require_uppercase', label: 'Uppercase letter' },
+  { field: 'require_lowercase', label: 'Lowercase letter' },
+  { field: 'require_number', label: 'Number' },
+  { field: 'require_special', label: 'Special character' },
+]
+
+export function SettingsPage() {
+  const queryClient = useQueryClient()
+  const { user } = useAuth()
+  const canManageSettings = hasPermission(user, 'settings', 'manage')
+
+  const [formData, setFormData] = useState<PasswordPolicy | null>(null)
+  const [bannedWords, setBannedWords] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  const { data: policy, isLoading } = useQuery({
+    queryKey: queryKeys.passwordPolicy(),
+    queryFn: passwordPolicyApi.getPolicy,
+  })
+
+  useEffect(() => {
+    if (policy) {
+      setFormData(policy)
+      setBannedWords(policy.banned_words.join('\n'))
+    }
+  }, [policy])
+
+  const updatePolicyMutation = useMutation({
+    mutationFn: passwordPolicyApi.updatePolicy,
+    onSuccess: ({ policy }) => {
+      setSuccess('Password policy updated successfully')
+      queryClient.setQueryData(queryKeys.passwordPolicy(), policy)
+    },
+    onError: (error) => {
+      setError(error instanceof ApiError ? error.message : 'Failed to update the password policy')
+    },
+  })
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!formData || !canManageSettings) return
+    setError(null)
+    setSuccess(null)
+    updatePolicyMutation.mutate({
+      ...formData,
+      banned_words: bannedWords.split(/[\n,]/).map(word => word.trim()).filter(Boolean),
+    })
+  }
+
+  const setField = <K extends keyof PasswordPolicy>(field: K, value: PasswordPolicy[K]) =>
+    setFormData(prev => (prev ? { ...prev, [field]: value } : prev))
+
+  if (isLoading || !formData) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-600"></div>
+      </div>
+    )
+  }
+
+  const inputClassName = 'mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500 disabled:bg-gray-50'
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Settings</h1>
+        <p className="mt-1 text-sm text-gray-600">
+          {canManageSettings ? 'Configure system-wide security settings' : 'System-wide security settings'}
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4 flex items-start">
+          <AlertCircle className="h-5 w-5 text-red-400 mt-0.5 mr-3 flex-shrink-0" />
+          <div className="text-sm text-red-700">{error}</div>
+        </div>
+      )}
+      {success && (
+        <div className="bg-green-50 border border-green-200 rounded-md p-4 flex items-start">
+          <CheckCircle className="h-5 w-5 text-green-400 mt-0.5 mr-3 flex-shrink-0" />
+          <div className="text-sm text-green-700">{success}</div>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="bg-white shadow-sm rounded-lg border border-gray-200 p-6 space-y-6">
+        <div className="flex items-center">
+          <KeyRound className="h-5 w-5 text-gray-500 mr-2" />
+          <h3 className="text-lg leading-6 font-medium text-gray-900">Password Policy</h3>
+        </div>
+
+        <fieldset disabled={!canManageSettings} className="space-y-6">
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+            <div>
+              <label htmlFor="min_length" className="block text-sm font-medium text-gray-700">Minimum length</label>
+              <input
+                id="min_length"
+                type="number"
+                min={6}
+                max={128}
+                required
+                value={formData.min_length}
+                onChange={(e) => setField('min_length', parseInt(e.target.value, 10) || 0)}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="max_age_days" className="block text-sm font-medium text-gray-700">Maximum age (days)</label>
+              <input
+                id="max_age_days"
+                type="number"
+                min={1}
+                value={formData.max_age_days ?? ''}
+                onChange={(e) => setField('max_age_days', e.target.value ? parseInt(e.target.value, 10) : null)}
+                className={inputClassName}
+                placeholder="Never expires"
+              />
+            </div>
+            <div>
+              <label htmlFor="history_depth" className="block text-sm font-medium text-gray-700">Previous passwords that cannot be reused</label>
+              <input
+                id="history_depth"
+                type="number"
+                min={0}
+                max={24}
+                required
+                value={formData.history_depth}
+                onChange={(e) => setField('history_depth', parseInt(e.target.value, 10) || 0)}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div>
+            <span className="block text-sm font-medium text-gray-700">Must contain at least one</span>
+            <div className="mt-2 grid grid-cols-2 gap-2 sm:grid-cols-4">
+              {CHARACTER_CLASSES.map(({ field, label }) => (
+                <label key={field} className="flex items-center space-x-2">
+                  <input type="checkbox" checked={formData[field]} onChange={(e) => setField(field, e.target.checked)} />
+                  <span className="text-sm text-gray-700">{label}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="special_characters" className="block text-sm font-medium text-gray-700">Special characters</label>
+            <input
+              id="special_characters"
+              type="text"
+              required
+              value={formData.special_characters}
+              onChange={(e) => setField('special_characters', e.target.value)}
+              className={`${inputClassName} font-mono`}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="banned_words" className="block text-sm font-medium text-gray-700">Banned words</label>
+            <textarea
+              id="banned_words"
+              rows={4}
+              value={bannedWords}
+              onChange={(e) => setBannedWords(e.target.value)}
+              className={inputClassName}
+              placeholder="One word per line, e.g. the organisation's name"
+            />
+            <p className="mt-1 text-xs text-gray-500">Passwords containing any of these words are rejected, regardless of case.</p>
+          </div>
+        </fieldset>
+
+        {canManageSettings && (
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={updatePolicyMutation.isPending}
+              className="px-4 py-2 text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-700 rounded-md disabled:opacity-50"
+            >
+              {updatePolicyMutation.isPending ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        )}
+      </form>
+    </div>
+  )
+}
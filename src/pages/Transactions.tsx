@@ -0,0 +1,432 @@
+import React, { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { queryKeys } from '../lib/queryClient'
+import { CreditCard, Search, ChevronDown, ChevronRight, ArrowLeftRight } from 'lucide-react'
+import { customerAccountsApi, transactionsApi, ApiError } from '../lib/dataFetching'
+import { formatCurrency } from '../utils/helpers'
+import { TransactionTypeBadge } from '../components/TransactionTypeBadge'
+import type { CustomerAccount, JournalEntry, JournalEntryType, ManualEntryType, PostTransactionData } from '../types'
+
+type TransactionsView = 'post' | 'history'
+
+const accountLabel = (account: CustomerAccount) =>
+  `${account.account_number} · ${account.member?.first_name} ${account.member?.last_name} · ${account.account_type?.name}`
+
+export function Transactions() {
+  const queryClient = useQueryClient()
+
+  const [view, setView] = useState<TransactionsView>('post')
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  // Clear messages after 5 seconds
+  React.useEffect(() => {
+    if (error || success) {
+      const timer = setTimeout(() => {
+        setError(null)
+        setSuccess(null)
+      }, 5000)
+      return () => clearTimeout(timer)
+    }
+  }, [error, success])
+
+  const { data: accountsData } = useQuery({
+    queryKey: queryKeys.customerAccounts(),
+    queryFn: () => customerAccountsApi.getCustomerAccounts(),
+  })
+
+  const postTransactionMutation = useMutation({
+    mutationFn: transactionsApi.postTransaction,
+    onSuccess: ({ transaction }) => {
+      setSuccess(`Transaction ${transaction.entry_number} posted successfully`)
+      setError(null)
+      queryClient.invalidateQueries({ queryKey: queryKeys.transactions() })
+      queryClient.invalidateQueries({ queryKey: queryKeys.customerAccounts() })
+    },
+    onError: (error) => {
+      setError(error instanceof ApiError ? error.message : 'Failed to post transaction')
+      setSuccess(null)
+    },
+  })
+
+  const activeAccounts = (accountsData?.customer_accounts || []).filter(account => account.status === 'active')
+
+  return (
+    <div className="space-y-6 pt-24">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+          <CreditCard className="h-7 w-7 text-emerald-600 mr-2" />
+          Transactions
+        </h1>
+        <p className="mt-1 text-sm text-gray-600">
+          Post deposits, withdrawals and transfers to the ledger and review posted entries
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      {success && (
+        <div className="bg-green-50 border border-green-200 rounded-md p-4">
+          <p className="text-green-800">{success}</p>
+        </div>
+      )}
+
+      <div className="border-b border-gray-200">
+        <nav className="-mb-px flex space-x-8">
+          {([['post', 'Post Transaction'], ['history', 'History']] as [TransactionsView, string][]).map(([key, label]) => (
+            <button
+              key={key}
+              onClick={() => setView(key)}
+              className={`whitespace-nowrap py-2 px-1 border-b-2 font-medium text-sm ${
+                view === key
+                  ? 'border-emerald-500 text-emerald-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </nav>
+      </div>
+
+      {view === 'post' ? (
+        <PostTransactionForm
+          accounts={activeAccounts}
+          isPosting={postTransactionMutation.isPending}
+          onSubmit={(transactionData, reset) => postTransactionMutation.mutate(transactionData, { onSuccess: reset })}
+        />
+      ) : (
+        <TransactionHistory />
+      )}
+    </div>
+  )
+}
+
+function PostTransactionForm({
+  accounts,
+  isPosting,
+  onSubmit
+}: {
+  accounts: CustomerAccount[]
+  isPosting: boolean
+  onSubmit: (transactionData: PostTransactionData, reset: () => void) => void
+}) {
+  const initialForm = {
+    entry_type: 'deposit' as ManualEntryType,
+    customer_account_id: '',
+    to_customer_account_id: '',
+    amount: '',
+    description: '',
+    reference: ''
+  }
+  const [formData, setFormData] = useState(initialForm)
+
+  const sourceAccount = accounts.find(account => account.id === formData.customer_account_id)
+  const destinationAccount = accounts.find(account => account.id === formData.to_customer_account_id)
+  const amount = Number(formData.amount)
+  const isTransfer = formData.entry_type === 'transfer'
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!formData.customer_account_id || !(amount > 0)) return
+    if (isTransfer && !formData.to_customer_account_id) return
+
+    onSubmit({
+      entry_type: formData.entry_type,
+      amount,
+      customer_account_id: formData.customer_account_id,
+      to_customer_account_id: isTransfer ? formData.to_customer_account_id : undefined,
+      description: formData.description.trim() || undefined,
+      reference: formData.reference.trim() || undefined
+    }, () => setFormData(initialForm))
+  }
+
+  return (
+    <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-6">
+      <form onSubmit={handleSubmit} className="space-y-4 max-w-2xl">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Transaction Type</label>
+          <div className="mt-1 flex space-x-4">
+            {(['deposit', 'withdrawal', 'transfer'] as ManualEntryType[]).map(type => (
+              <label key={type} className="flex items-center space-x-2">
+                <input
+                  type="radio"
+                  name="entry_type"
+                  value={type}
+                  checked={formData.entry_type === type}
+                  onChange={() => setFormData(prev => ({ ...prev, entry_type: type, to_customer_account_id: '' }))}
+                  className="h-4 w-4 text-emerald-600 focus:ring-emerald-500 border-gray-300"
+                />
+                <span className="text-sm text-gray-700 capitalize">{type}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700">
+            {isTransfer ? 'From Account' : 'Customer Account'}
+          </label>
+          <select
+            required
+            value={formData.customer_account_id}
+            onChange={(e) => setFormData(prev => ({ ...prev, customer_account_id: e.target.value }))}
+            className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+          >
+            <option value="">Select an account</option>
+            {accounts.map(account => (
+              <option key={account.id} value={account.id}>{accountLabel(account)}</option>
+            ))}
+          </select>
+          {sourceAccount && (
+            <p className="mt-1 text-xs text-gray-500">Available balance: {formatCurrency(sourceAccount.balance)}</p>
+          )}
+        </div>
+
+        {isTransfer && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700">To Account</label>
+            <select
+              required
+              value={formData.to_customer_account_id}
+              onChange={(e) => setFormData(prev => ({ ...prev, to_customer_account_id: e.target.value }))}
+              className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+            >
+              <option value="">Select an account</option>
+              {accounts
+                .filter(account => account.id !== formData.customer_account_id)
+                .map(account => (
+                  <option key={account.id} value={account.id}>{accountLabel(account)}</option>
+                ))}
+            </select>
+            {destinationAccount && (
+              <p className="mt-1 text-xs text-gray-500">Current balance: {formatCurrency(destinationAccount.balance)}</p>
+            )}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Amount (MUR)</label>
+            <input
+              type="number"
+              required
+              min="0.01"
+              step="0.01"
+              value={formData.amount}
+              onChange={(e) => setFormData(prev => ({ ...prev, amount: e.target.value }))}
+              className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+              placeholder="0.00"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Reference</label>
+            <input
+              type="text"
+              value={formData.reference}
+              onChange={(e) => setFormData(prev => ({ ...prev, reference: e.target.value }))}
+              className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+              placeholder="Slip or cheque number"
+              maxLength={100}
+            />
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Description</label>
+          <input
+            type="text"
+            value={formData.description}
+            onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+            className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+            maxLength={255}
+          />
+        </div>
+
+        {formData.entry_type === 'withdrawal' && sourceAccount && amount > Number(sourceAccount.balance) && (
+          <p className="text-sm text-red-600">The amount exceeds the available balance of this account.</p>
+        )}
+
+        <div className="flex justify-end pt-2">
+          <button
+            type="submit"
+            disabled={isPosting || !formData.customer_account_id || !(amount > 0) || (isTransfer && !formData.to_customer_account_id)}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-emerald-600 hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <ArrowLeftRight className="h-4 w-4 mr-2" />
+            {isPosting ? 'Posting...' : 'Post Transaction'}
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
+
+function TransactionHistory() {
+  const [searchTerm, setSearchTerm] = useState('')
+  const [typeFilter, setTypeFilter] = useState<JournalEntryType | ''>('')
+  const [expandedEntryId, setExpandedEntryId] = useState<string | null>(null)
+
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage
+  } = useInfiniteQuery({
+    queryKey: queryKeys.transactionHistory(typeFilter),
+    queryFn: ({ pageParam }) => transactionsApi.getTransactions({ entry_type: typeFilter || undefined }, pageParam),
+    initialPageParam: 0,
+    getNextPageParam: (lastPage) => lastPage.next_page,
+  })
+
+  // The search covers the pages loaded so far
+  const search = searchTerm.trim().toLowerCase()
+  const entries = (data?.pages.flatMap(page => page.transactions) || []).filter((entry: JournalEntry) => {
+    if (!search) return true
+    return (
+      entry.entry_number.toLowerCase().includes(search) ||
+      (entry.reference?.toLowerCase().includes(search) ?? false) ||
+      (entry.description?.toLowerCase().includes(search) ?? false) ||
+      entry.lines.some(line =>
+        (line.customer_account?.account_number.includes(search) ?? false) ||
+        `${line.customer_account?.member?.first_name} ${line.customer_account?.member?.last_name}`.toLowerCase().includes(search)
+      )
+    )
+  })
+
+  return (
+    <div className="space-y-4">
+      <div className="flex space-x-4">
+        <div className="relative flex-1">
+          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+            <Search className="h-5 w-5 text-gray-400" />
+          </div>
+          <input
+            type="text"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-emerald-500 focus:border-emerald-500"
+            placeholder="Search by entry number, reference, account or member..."
+          />
+        </div>
+        <select
+          value={typeFilter}
+          onChange={(e) => setTypeFilter(e.target.value as JournalEntryType | '')}
+          className="border border-gray-300 rounded-md px-3 py-2 bg-white focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+        >
+          <option value="">All types</option>
+          <option value="deposit">Deposits</option>
+          <option value="withdrawal">Withdrawals</option>
+          <option value="transfer">Transfers</option>
+          <option value="loan_disbursement">Loan disbursements</option>
+          <option value="loan_repayment">Loan repayments</option>
+          <option value="dividend">Dividends</option>
+          <option value="fee">Fees</option>
+        </select>
+      </div>
+
+      <div className="bg-white shadow overflow-hidden sm:rounded-md">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-600"></div>
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="text-center py-12">
+            <CreditCard className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No transactions</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              {searchTerm || typeFilter ? 'No transactions match your search.' : 'Posted transactions will appear here.'}
+            </p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {entries.map(entry => {
+              const expanded = expandedEntryId === entry.id
+              return (
+                <li key={entry.id}>
+                  <button
+                    onClick={() => setExpandedEntryId(expanded ? null : entry.id)}
+                    className="w-full px-4 py-4 flex items-center justify-between text-left hover:bg-gray-50"
+                  >
+                    <div className="flex items-center">
+                      {expanded ? (
+                        <ChevronDown className="h-4 w-4 text-gray-400 mr-3" />
+                      ) : (
+                        <ChevronRight className="h-4 w-4 text-gray-400 mr-3" />
+                      )}
+                      <div>
+                        <div className="flex items-center">
+                          <span className="text-sm font-medium text-gray-900">{entry.entry_number}</span>
+                          <TransactionTypeBadge type={entry.entry_type} className="ml-2" />
+                        </div>
+                        <div className="text-sm text-gray-500">
+                          {[entry.description, entry.reference && `Ref: ${entry.reference}`].filter(Boolean).join(' · ') || 'No description'}
+                        </div>
+                        <div className="text-xs text-gray-400">{new Date(entry.posted_at).toLocaleString()}</div>
+                      </div>
+                    </div>
+                    <span className="text-sm font-semibold text-gray-900">{formatCurrency(entry.amount)}</span>
+                  </button>
+                  {expanded && (
+                    <div className="px-4 pb-4 pl-11">
+                      <table className="min-w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-xs text-gray-500 uppercase">
+                            <th className="py-1 font-medium">Ledger Account</th>
+                            <th className="py-1 font-medium text-right">Debit</th>
+                            <th className="py-1 font-medium text-right">Credit</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                          {entry.lines.map(line => (
+                            <tr key={line.id}>
+                              <td className="py-1 text-gray-700">
+                                {line.customer_account ? (
+                                  <Link to={`/accounts/${line.customer_account.id}`} className="text-emerald-600 hover:text-emerald-700">
+                                    {line.customer_account.account_number} &middot; {line.customer_account.member?.first_name} {line.customer_account.member?.last_name}
+                                  </Link>
+                                ) : line.loan ? (
+                                  <Link to={`/loans/${line.loan.id}`} className="text-emerald-600 hover:text-emerald-700">
+                                    Loan {line.loan.loan_number}
+                                  </Link>
+                                ) : line.ledger_account ? (
+                                  <span>{line.ledger_account.name}</span>
+                                ) : (
+                                  <span>Bank: {line.bank_account?.name} ({line.bank_account?.account_number})</span>
+                                )}
+                              </td>
+                              <td className="py-1 text-right text-gray-900">{Number(line.debit) > 0 ? formatCurrency(line.debit) : ''}</td>
+                              <td className="py-1 text-right text-gray-900">{Number(line.credit) > 0 ? formatCurrency(line.credit) : ''}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </li>
+              )
+            })}
+          </ul>
+        )}
+
+        {hasNextPage && (
+          <div className="py-4 text-center border-t border-gray-200">
+            <button
+              onClick={() => fetchNextPage()}
+              disabled={isFetchingNextPage}
+              className="text-sm text-emerald-600 hover:text-emerald-700 font-medium disabled:opacity-50"
+            >
+              {isFetchingNextPage ? 'Loading...' : 'Load more'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
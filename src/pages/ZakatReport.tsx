@@ -0,0 +1,466 @@
+import React, { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { queryKeys } from '../lib/queryClient'
+import { ArrowLeft, Scale, Download, Plus, Trash2, Eye } from 'lucide-react'
+import { zakatApi, ApiError } from '../lib/dataFetching'
+import { hasPermission } from '../utils/permissions'
+import { formatCurrency, downloadCsv } from '../utils/helpers'
+import { useAuth } from '../contexts/AuthContext'
+import { ZakatStatusBadge } from '../components/ZakatStatusBadge'
+import type { CreateNisabRateData, NisabBasis, NisabRate } from '../types'
+
+export function ZakatReport() {
+  const queryClient = useQueryClient()
+  const { user } = useAuth()
+  const canManage = hasPermission(user, 'zakat', 'manage')
+
+  const today = new Date().toISOString().slice(0, 10)
+  const [asOf, setAsOf] = useState(today)
+  const [searchTerm, setSearchTerm] = useState('')
+  const [liableOnly, setLiableOnly] = useState(false)
+  const [showNisabModal, setShowNisabModal] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  // Clear messages after 5 seconds
+  React.useEffect(() => {
+    if (error || success) {
+      const timer = setTimeout(() => {
+        setError(null)
+        setSuccess(null)
+      }, 5000)
+      return () => clearTimeout(timer)
+    }
+  }, [error, success])
+
+  const { data: ratesData } = useQuery({
+    queryKey: queryKeys.nisabRates(),
+    queryFn: zakatApi.getNisabRates,
+  })
+
+  const { data: report, isLoading: reportLoading, error: reportError } = useQuery({
+    queryKey: queryKeys.zakatReport(asOf),
+    queryFn: () => zakatApi.getZakatReport(asOf),
+    enabled: !!asOf,
+    retry: false,
+  })
+
+  const createRateMutation = useMutation({
+    mutationFn: zakatApi.createNisabRate,
+    onSuccess: () => {
+      setSuccess('Nisab prices recorded')
+      setError(null)
+      setShowNisabModal(false)
+      queryClient.invalidateQueries({ queryKey: ['zakat'] })
+    },
+    onError: (error) => {
+      setError(error instanceof ApiError ? error.message : 'Failed to record nisab prices')
+      setSuccess(null)
+    },
+  })
+
+  const deleteRateMutation = useMutation({
+    mutationFn: zakatApi.deleteNisabRate,
+    onSuccess: () => {
+      setSuccess('Nisab prices deleted')
+      setError(null)
+      queryClient.invalidateQueries({ queryKey: ['zakat'] })
+    },
+    onError: (error) => {
+      setError(error instanceof ApiError ? error.message : 'Failed to delete nisab prices')
+      setSuccess(null)
+    },
+  })
+
+  const handleDeleteRate = (rate: NisabRate) => {
+    if (!confirm(`Delete the prices recorded for ${new Date(rate.effective_date).toLocaleDateString()}?`)) return
+    deleteRateMutation.mutate(rate.id)
+  }
+
+  const rates = ratesData?.nisab_rates || []
+  const assessments = report?.assessments || []
+  const liable = assessments.filter(assessment => assessment.hawl_complete && Number(assessment.zakat_due) > 0)
+  const totalDue = liable.reduce((sum, assessment) => sum + Number(assessment.zakat_due), 0)
+
+  const search = searchTerm.trim().toLowerCase()
+  const filteredAssessments = assessments.filter(assessment => {
+    if (liableOnly && !assessment.hawl_complete) return false
+    if (!search) return true
+    return (
+      `${assessment.member?.first_name} ${assessment.member?.last_name}`.toLowerCase().includes(search) ||
+      (assessment.member?.member_number.toLowerCase().includes(search) ?? false)
+    )
+  })
+
+  const handleDownload = () => {
+    if (!report) return
+    downloadCsv(`zakat-report-${report.as_of}.csv`, [
+      ['Member Number', 'Member', 'Balance', 'Lowest Balance in Hawl', 'Hawl Start', 'Hawl Complete', 'Zakat Due'],
+      ...assessments.map(assessment => [
+        assessment.member?.member_number,
+        `${assessment.member?.first_name ?? ''} ${assessment.member?.last_name ?? ''}`.trim(),
+        Number(assessment.balance).toFixed(2),
+        Number(assessment.lowest_balance).toFixed(2),
+        assessment.hawl_start,
+        assessment.hawl_complete ? 'Yes' : 'No',
+        Number(assessment.zakat_due).toFixed(2)
+      ])
+    ])
+  }
+
+  return (
+    <div className="space-y-6 pt-24">
+      <Link to="/reports" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900">
+        <ArrowLeft className="h-4 w-4 mr-1" />
+        Reports
+      </Link>
+
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+            <Scale className="h-7 w-7 text-emerald-600 mr-2" />
+            Zakat Report
+          </h1>
+          <p className="mt-1 text-sm text-gray-600">
+            Zakat at {report ? report.zakat_rate * 100 : 2.5}% on balances held above the nisab for a full hawl of {report?.hawl_days ?? 354} days
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <input
+            type="date"
+            value={asOf}
+            max={today}
+            onChange={(e) => setAsOf(e.target.value)}
+            className="border border-gray-300 rounded-md px-3 py-2 bg-white focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+          />
+          <button
+            onClick={handleDownload}
+            disabled={assessments.length === 0}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500 disabled:opacity-50"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Download CSV
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      {success && (
+        <div className="bg-green-50 border border-green-200 rounded-md p-4">
+          <p className="text-green-800">{success}</p>
+        </div>
+      )}
+
+      {/* Nisab */}
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg leading-6 font-medium text-gray-900">Nisab</h3>
+            {report && (
+              <p className="text-sm text-gray-500">
+                {formatCurrency(report.nisab.nisab_value)} on the {report.nisab.basis} basis, using prices from {new Date(report.nisab.effective_date).toLocaleDateString()}
+              </p>
+            )}
+          </div>
+          {canManage && (
+            <button
+              onClick={() => setShowNisabModal(true)}
+              className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-emerald-600 hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Record Prices
+            </button>
+          )}
+        </div>
+        {rates.length === 0 ? (
+          <p className="text-sm text-gray-500">No gold or silver prices have been recorded yet.</p>
+        ) : (
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 uppercase">
+                <th className="py-2 font-medium">Effective</th>
+                <th className="py-2 font-medium">Basis</th>
+                <th className="py-2 font-medium text-right">Gold / g</th>
+                <th className="py-2 font-medium text-right">Silver / g</th>
+                <th className="py-2 font-medium text-right">Nisab</th>
+                <th className="py-2 font-medium">Source</th>
+                {canManage && <th className="py-2"></th>}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rates.slice(0, 5).map(rate => (
+                <tr key={rate.id}>
+                  <td className="py-2 text-gray-700">{new Date(rate.effective_date).toLocaleDateString()}</td>
+                  <td className="py-2 text-gray-700 capitalize">{rate.basis}</td>
+                  <td className="py-2 text-right text-gray-900">{formatCurrency(rate.gold_price_per_gram)}</td>
+                  <td className="py-2 text-right text-gray-900">{formatCurrency(rate.silver_price_per_gram)}</td>
+                  <td className="py-2 text-right font-medium text-gray-900">{formatCurrency(rate.nisab_value)}</td>
+                  <td className="py-2 text-gray-500">{rate.notes || '—'}</td>
+                  {canManage && (
+                    <td className="py-2 text-right">
+                      <button
+                        onClick={() => handleDeleteRate(rate)}
+                        disabled={deleteRateMutation.isPending}
+                        className="text-red-600 hover:text-red-700 disabled:opacity-50"
+                        title="Delete prices"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Summary */}
+      {report && (
+        <div className="grid grid-cols-1 gap-5 sm:grid-cols-3">
+          <div className="bg-white overflow-hidden shadow rounded-lg p-5">
+            <dt className="text-sm font-medium text-gray-500 truncate">Members assessed</dt>
+            <dd className="mt-1 text-2xl font-semibold text-gray-900">{assessments.length}</dd>
+          </div>
+          <div className="bg-white overflow-hidden shadow rounded-lg p-5">
+            <dt className="text-sm font-medium text-gray-500 truncate">Members with zakat due</dt>
+            <dd className="mt-1 text-2xl font-semibold text-gray-900">{liable.length}</dd>
+          </div>
+          <div className="bg-white overflow-hidden shadow rounded-lg p-5">
+            <dt className="text-sm font-medium text-gray-500 truncate">Total zakat due</dt>
+            <dd className="mt-1 text-2xl font-semibold text-gray-900">{formatCurrency(totalDue)}</dd>
+          </div>
+        </div>
+      )}
+
+      {/* Search */}
+      <div className="flex space-x-4">
+        <input
+          type="text"
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          className="flex-1 block w-full px-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-emerald-500 focus:border-emerald-500"
+          placeholder="Search by member name or number..."
+        />
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={liableOnly}
+            onChange={(e) => setLiableOnly(e.target.checked)}
+            className="rounded border-gray-300 text-emerald-600 focus:ring-emerald-500"
+          />
+          <span>Zakat due only</span>
+        </label>
+      </div>
+
+      {/* Assessments */}
+      <div className="bg-white shadow overflow-hidden sm:rounded-md">
+        {reportLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-600"></div>
+          </div>
+        ) : reportError ? (
+          <div className="text-center py-12">
+            <Scale className="mx-auto h-12 w-12 text-gray-400" />
+            <p className="mt-2 text-sm text-gray-500">
+              {reportError instanceof ApiError ? reportError.message : 'Failed to load the zakat report'}
+            </p>
+          </div>
+        ) : filteredAssessments.length === 0 ? (
+          <div className="text-center py-12">
+            <Scale className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No members</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              {searchTerm || liableOnly ? 'No members match your search.' : 'Members appear here once they hold accounts.'}
+            </p>
+          </div>
+        ) : (
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr className="text-left text-xs text-gray-500 uppercase">
+                <th className="px-4 py-3 font-medium">Member</th>
+                <th className="px-4 py-3 font-medium text-right">Balance</th>
+                <th className="px-4 py-3 font-medium text-right">Lowest in Hawl</th>
+                <th className="px-4 py-3 font-medium">Status</th>
+                <th className="px-4 py-3 font-medium text-right">Zakat Due</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {filteredAssessments.map(assessment => (
+                <tr key={assessment.member_id}>
+                  <td className="px-4 py-3">
+                    <div className="font-medium text-gray-900">
+                      {assessment.member?.first_name} {assessment.member?.last_name}
+                    </div>
+                    <div className="text-xs text-gray-500">{assessment.member?.member_number}</div>
+                  </td>
+                  <td className="px-4 py-3 text-right text-gray-900">{formatCurrency(assessment.balance)}</td>
+                  <td className="px-4 py-3 text-right text-gray-700">{formatCurrency(assessment.lowest_balance)}</td>
+                  <td className="px-4 py-3">
+                    <ZakatStatusBadge assessment={assessment} hawlDays={report!.hawl_days} />
+                  </td>
+                  <td className="px-4 py-3 text-right font-medium text-gray-900">{formatCurrency(assessment.zakat_due)}</td>
+                  <td className="px-4 py-3 text-right">
+                    <Link
+                      to={`/reports/zakat/members/${assessment.member_id}?as_of=${asOf}`}
+                      className="inline-flex items-center p-2 border border-transparent rounded-full shadow-sm text-white bg-emerald-600 hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500"
+                      title="Zakat statement"
+                    >
+                      <Eye className="h-4 w-4" />
+                    </Link>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {canManage && showNisabModal && (
+        <NisabRateFormModal
+          isSubmitting={createRateMutation.isPending}
+          onClose={() => setShowNisabModal(false)}
+          onSubmit={(rateData) => createRateMutation.mutate(rateData)}
+        />
+      )}
+    </div>
+  )
+}
+
+// Record Nisab Prices Modal Component
+function NisabRateFormModal({
+  isSubmitting,
+  onClose,
+  onSubmit
+}: {
+  isSubmitting?: boolean
+  onClose: () => void
+  onSubmit: (rateData: CreateNisabRateData) => void
+}) {
+  const [formData, setFormData] = useState({
+    effective_date: new Date().toISOString().slice(0, 10),
+    basis: 'silver' as NisabBasis,
+    gold_price_per_gram: '',
+    silver_price_per_gram: '',
+    notes: ''
+  })
+
+  // Nisab is 85 g of gold or 595 g of silver
+  const nisabValue = formData.basis === 'gold'
+    ? Number(formData.gold_price_per_gram) * 85
+    : Number(formData.silver_price_per_gram) * 595
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    onSubmit({
+      effective_date: formData.effective_date,
+      basis: formData.basis,
+      gold_price_per_gram: Number(formData.gold_price_per_gram),
+      silver_price_per_gram: Number(formData.silver_price_per_gram),
+      notes: formData.notes.trim() || undefined
+    })
+  }
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white">
+        <div className="mt-3">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">Record Nisab Prices</h3>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Effective Date</label>
+              <input
+                type="date"
+                required
+                value={formData.effective_date}
+                onChange={(e) => setFormData(prev => ({ ...prev, effective_date: e.target.value }))}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Gold per gram (MUR)</label>
+                <input
+                  type="number"
+                  required
+                  min="0.01"
+                  step="0.01"
+                  value={formData.gold_price_per_gram}
+                  onChange={(e) => setFormData(prev => ({ ...prev, gold_price_per_gram: e.target.value }))}
+                  className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Silver per gram (MUR)</label>
+                <input
+                  type="number"
+                  required
+                  min="0.01"
+                  step="0.01"
+                  value={formData.silver_price_per_gram}
+                  onChange={(e) => setFormData(prev => ({ ...prev, silver_price_per_gram: e.target.value }))}
+                  className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Nisab Basis</label>
+              <select
+                value={formData.basis}
+                onChange={(e) => setFormData(prev => ({ ...prev, basis: e.target.value as NisabBasis }))}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+              >
+                <option value="silver">Silver (595 g)</option>
+                <option value="gold">Gold (85 g)</option>
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Source</label>
+              <input
+                type="text"
+                value={formData.notes}
+                onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+                placeholder="e.g., Bank of Mauritius daily rates"
+                maxLength={200}
+              />
+            </div>
+
+            {nisabValue > 0 && (
+              <p className="text-sm text-gray-700">
+                Nisab: <span className="font-medium">{formatCurrency(nisabValue)}</span>
+              </p>
+            )}
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="px-4 py-2 text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-700 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSubmitting ? 'Saving...' : 'Save Prices'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,187 @@
+import { Link, useParams, useSearchParams } from 'react-router-dom'
+import { useQuery } from '@tanstack/react-query'
+import { queryKeys } from '../lib/queryClient'
+import { ArrowLeft, Scale, Printer } from 'lucide-react'
+import { zakatApi, ApiError } from '../lib/dataFetching'
+import { formatCurrency, addDays } from '../utils/helpers'
+import { ZakatStatusBadge } from '../components/ZakatStatusBadge'
+
+export function ZakatStatement() {
+  const { memberId } = useParams<{ memberId: string }>()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const today = new Date().toISOString().slice(0, 10)
+  const asOf = searchParams.get('as_of') || today
+
+  const { data: statement, isLoading, error } = useQuery({
+    queryKey: queryKeys.zakatStatement(memberId!, asOf),
+    queryFn: () => zakatApi.getZakatStatement(memberId!, asOf),
+    enabled: !!memberId,
+    retry: false,
+  })
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12 pt-24">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-600"></div>
+      </div>
+    )
+  }
+
+  if (error || !statement) {
+    return (
+      <div className="space-y-6 pt-24">
+        <Link to="/reports/zakat" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Zakat Report
+        </Link>
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-red-800">
+            {error instanceof ApiError ? error.message : 'Failed to load the zakat statement'}
+          </p>
+        </div>
+      </div>
+    )
+  }
+
+  const { member, accounts, assessment, nisab } = statement
+  const hawlFrom = addDays(statement.as_of, -statement.hawl_days)
+
+  return (
+    <div className="space-y-6 pt-24 print:pt-0">
+      <div className="flex items-center justify-between print:hidden">
+        <Link to="/reports/zakat" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Zakat Report
+        </Link>
+        <div className="flex items-center space-x-2">
+          <input
+            type="date"
+            value={asOf}
+            max={today}
+            onChange={(e) => e.target.value && setSearchParams({ as_of: e.target.value })}
+            className="border border-gray-300 rounded-md px-3 py-2 bg-white focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+          />
+          <button
+            onClick={() => window.print()}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-emerald-600 hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500"
+          >
+            <Printer className="h-4 w-4 mr-2" />
+            Print
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white shadow rounded-lg p-8 print:shadow-none print:p-0">
+        <div className="flex items-start justify-between border-b border-gray-200 pb-6">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+              <Scale className="h-7 w-7 text-emerald-600 mr-2" />
+              Zakat Statement
+            </h1>
+            <p className="mt-1 text-sm text-gray-600">Position as at {new Date(statement.as_of).toLocaleDateString()}</p>
+          </div>
+          <ZakatStatusBadge assessment={assessment} hawlDays={statement.hawl_days} />
+        </div>
+
+        {/* Member */}
+        <dl className="grid grid-cols-2 gap-x-6 gap-y-3 py-6 border-b border-gray-200 text-sm">
+          <div>
+            <dt className="text-gray-500">Member</dt>
+            <dd className="font-medium text-gray-900">{member.first_name} {member.last_name}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Member Number</dt>
+            <dd className="font-medium text-gray-900">{member.member_number}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">National ID</dt>
+            <dd className="text-gray-900">{member.national_id}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Address</dt>
+            <dd className="text-gray-900">{[member.address, member.city].filter(Boolean).join(', ') || '—'}</dd>
+          </div>
+        </dl>
+
+        {/* Accounts */}
+        <div className="py-6 border-b border-gray-200">
+          <h3 className="text-lg leading-6 font-medium text-gray-900 mb-3">Accounts</h3>
+          {accounts.length === 0 ? (
+            <p className="text-sm text-gray-500">This member holds no accounts.</p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 uppercase">
+                  <th className="py-2 font-medium">Account</th>
+                  <th className="py-2 font-medium">Type</th>
+                  <th className="py-2 font-medium">Status</th>
+                  <th className="py-2 font-medium text-right">Balance</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {accounts.map(account => (
+                  <tr key={account.id}>
+                    <td className="py-2 font-mono text-gray-900">{account.account_number}</td>
+                    <td className="py-2 text-gray-700">{account.account_type?.name || '—'}</td>
+                    <td className="py-2 text-gray-700 capitalize">{account.status}</td>
+                    <td className="py-2 text-right text-gray-900">{formatCurrency(account.balance)}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr className="border-t border-gray-200">
+                  <td colSpan={3} className="py-2 font-medium text-gray-900">Total wealth</td>
+                  <td className="py-2 text-right font-medium text-gray-900">{formatCurrency(assessment.balance)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          )}
+        </div>
+
+        {/* Assessment */}
+        <dl className="grid grid-cols-2 gap-x-6 gap-y-3 py-6 border-b border-gray-200 text-sm">
+          <div>
+            <dt className="text-gray-500">Nisab</dt>
+            <dd className="text-gray-900">
+              {formatCurrency(nisab.nisab_value)} ({nisab.basis === 'gold' ? '85 g of gold' : '595 g of silver'} at {formatCurrency(nisab.basis === 'gold' ? nisab.gold_price_per_gram : nisab.silver_price_per_gram)}/g)
+            </dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Hawl</dt>
+            <dd className="text-gray-900">
+              {new Date(hawlFrom).toLocaleDateString()} to {new Date(statement.as_of).toLocaleDateString()}
+            </dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Lowest wealth during the hawl</dt>
+            <dd className="text-gray-900">{formatCurrency(assessment.lowest_balance)}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Held above nisab since</dt>
+            <dd className="text-gray-900">
+              {assessment.hawl_start ? new Date(assessment.hawl_start).toLocaleDateString() : 'Below nisab'}
+            </dd>
+          </div>
+        </dl>
+
+        <div className="pt-6 flex items-center justify-between">
+          <p className="text-sm text-gray-600 max-w-xl">
+            {assessment.hawl_complete
+              ? `Your wealth stayed at or above the nisab for the full hawl, so zakat of ${statement.zakat_rate * 100}% is due on the balance held on ${new Date(statement.as_of).toLocaleDateString()}.`
+              : assessment.hawl_start
+                ? `Your wealth has been at or above the nisab since ${new Date(assessment.hawl_start).toLocaleDateString()}. Zakat becomes due once it has stayed there for a full hawl.`
+                : 'Your wealth is below the nisab, so no zakat is due on these savings.'}
+          </p>
+          <div className="text-right">
+            <p className="text-sm text-gray-500">Zakat due</p>
+            <p className="text-2xl font-semibold text-gray-900">{formatCurrency(assessment.zakat_due)}</p>
+          </div>
+        </div>
+
+        <p className="mt-6 text-xs text-gray-400">
+          Outstanding financing is not deducted from this assessment. Please consult your scholar on debts and other assets.
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -9,8 +9,17 @@ export interface User {
   is_active: boolean
   created_at: string
   needs_password_reset?: boolean
+  password_changed_at?: string
   roles?: Role[]
   permissions?: Permission[]
+  // The organisational unit the user works in
+  organisation_unit_id?: string | null
+  // Unit each role is held in, by role id; roles left out are held across the organisation
+  role_units?: Record<string, string>
+  // Set for users who can manage users: the user has a verified authenticator
+  mfa_enabled?: boolean
+  // Set for users who can manage users: end of the account's sign-in lockout, if locked
+  locked_until?: string | null
 }
 
 export interface AuthState {
@@ -32,6 +41,8 @@ export interface CreateUserData {
   menu_access?: string[]
   sub_menu_access?: Record<string, string[]>
   component_access?: string[]
+  organisation_unit_id?: string | null
+  role_units?: Record<string, string>
 }
 
 export interface UpdateUserData {
@@ -42,12 +53,15 @@ export interface UpdateUserData {
   component_access: string[]
   is_active: boolean
   needs_password_reset?: boolean
+  organisation_unit_id?: string | null
+  role_units?: Record<string, string>
 }
 
 export interface Role {
   id: string
   name: string
   description: string
+  mfa_required?: boolean
   created_at: string
   permissions?: Permission[]
 }
@@ -64,6 +78,30 @@ export interface PasswordValidationResult {
   isValid: boolean
   message: string
   errors: string[]
+  // 0 (very weak) to 4 (strong)
+  score: number
+  // Suggestions for a stronger password
+  feedback: string[]
+}
+
+// Whose password is checked, so that it cannot contain their email address or name
+export interface PasswordOwner {
+  email?: string | null
+  full_name?: string | null
+}
+
+export interface PasswordPolicy {
+  min_length: number
+  require_uppercase: boolean
+  require_lowercase: boolean
+  require_number: boolean
+  require_special: boolean
+  special_characters: string
+  // Days after which a password has to be changed; null when passwords do not expire
+  max_age_days: number | null
+  // How many previous passwords cannot be used again
+  history_depth: number
+  banned_words: string[]
 }
 
 export interface CreateRoleData {
@@ -88,4 +126,58 @@ export interface UpdatePermissionData {
   resource: string
   action: string
   description?: string
-}
\ No newline at end of file
+}
+export type AssuranceLevel = 'aal1' | 'aal2'
+
+export interface AssuranceLevelState {
+  current: AssuranceLevel | null
+  next: AssuranceLevel | null
+}
+
+export interface MfaEnrollment {
+  factorId: string
+  qrCode: string
+  secret: string
+}
+
+export interface LoginSecuritySettings {
+  max_failed_attempts: number
+  max_failed_attempts_per_ip: number
+  failure_window_minutes: number
+  lockout_minutes: number
+  delay_after_failures: number
+  max_delay_seconds: number
+  password_requests_per_minute: number
+  idle_timeout_minutes: number
+  idle_warning_seconds: number
+  max_session_hours: number
+}
+
+// The parts of the login security settings every signed-in browser applies to itself
+export type SessionLimits = Pick<LoginSecuritySettings, 'idle_timeout_minutes' | 'idle_warning_seconds' | 'max_session_hours'>
+
+// A Supabase Auth session of the signed-in user
+export interface UserSession {
+  id: string
+  user_agent: string | null
+  ip_address: string | null
+  aal: string | null
+  created_at: string
+  last_seen_at: string
+  // The session of this browser
+  current: boolean
+}
+
+// Another user whose view of the app an administrator is seeing, read-only
+export interface Impersonation {
+  id: string
+  reason: string | null
+  started_at: string
+  // The user's profile, in place of the administrator's while the view lasts
+  user: User
+}
+
+export interface RecoveryCodeStatus {
+  remaining: number
+  generated_at: string | null
+}
@@ -23,7 +23,8 @@ export interface AccountType {
   processing_fee: number;
   is_member_account: boolean;
   can_take_loan: boolean;
-  dividend_rate: number;
+  is_dividend_eligible: boolean;
+  has_savings_goal: boolean;
   is_active: boolean;
   documents_required: string[];
   created_at: string;
@@ -42,7 +43,8 @@ export interface CreateAccountTypeData {
   processing_fee?: number;
   is_member_account?: boolean;
   can_take_loan?: boolean;
-  dividend_rate?: number;
+  is_dividend_eligible?: boolean;
+  has_savings_goal?: boolean;
   is_active?: boolean;
   documents_required?: string[];
 }
@@ -54,7 +56,709 @@ export interface UpdateAccountTypeData {
   processing_fee?: number;
   is_member_account?: boolean;
   can_take_loan?: boolean;
-  dividend_rate?: number;
+  is_dividend_eligible?: boolean;
+  has_savings_goal?: boolean;
   is_active?: boolean;
   documents_required?: string[];
-}
\ No newline at end of file
+}
+
+// A branch or other part of the organisation; staff, their roles and members can be placed in one
+export interface OrganisationUnit {
+  id: string;
+  code: string;
+  name: string;
+  parent_id: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateOrganisationUnitData {
+  code: string;
+  name: string;
+  parent_id?: string | null;
+  is_active?: boolean;
+}
+
+export type UpdateOrganisationUnitData = Partial<Omit<CreateOrganisationUnitData, 'code'>>;
+
+export type MembershipStatus = 'pending' | 'active' | 'suspended' | 'terminated';
+
+export interface Member {
+  id: string;
+  member_number: string;
+  first_name: string;
+  last_name: string;
+  date_of_birth: string | null;
+  gender: 'male' | 'female' | null;
+  national_id: string;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+  city: string | null;
+  occupation: string | null;
+  membership_status: MembershipStatus;
+  joined_at: string;
+  notes: string | null;
+  organisation_unit_id: string | null;
+  organisation_unit?: Pick<OrganisationUnit, 'id' | 'code' | 'name'> | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateMemberData {
+  first_name: string;
+  last_name: string;
+  national_id: string;
+  date_of_birth?: string | null;
+  gender?: 'male' | 'female' | null;
+  email?: string | null;
+  phone?: string | null;
+  address?: string | null;
+  city?: string | null;
+  occupation?: string | null;
+  membership_status?: MembershipStatus;
+  joined_at?: string;
+  notes?: string | null;
+  organisation_unit_id?: string | null;
+}
+
+export type UpdateMemberData = Partial<CreateMemberData>;
+
+export type CustomerAccountStatus = 'pending' | 'active' | 'dormant' | 'closed';
+
+export interface CustomerAccount {
+  id: string;
+  account_number: string;
+  member_id: string;
+  account_type_id: string;
+  status: CustomerAccountStatus;
+  balance: number;
+  processing_fee: number;
+  processing_fee_entry_id: string | null;
+  goal_amount: number | null;
+  goal_date: string | null;
+  notes: string | null;
+  opened_by: string | null;
+  opened_at: string;
+  activated_at: string | null;
+  closed_at: string | null;
+  created_at: string;
+  updated_at: string;
+  member?: Pick<Member, 'id' | 'member_number' | 'first_name' | 'last_name' | 'national_id' | 'membership_status' | 'organisation_unit_id'>;
+  account_type?: Pick<AccountType, 'id' | 'name' | 'processing_fee' | 'is_member_account' | 'can_take_loan' | 'has_savings_goal' | 'documents_required' | 'bank_account_id'>;
+}
+
+export interface OpenCustomerAccountData {
+  member_id: string;
+  account_type_id: string;
+  goal_amount?: number;
+  goal_date?: string;
+  notes?: string;
+}
+
+export interface UpdateCustomerAccountData {
+  status?: CustomerAccountStatus;
+  goal_amount?: number;
+  goal_date?: string;
+  notes?: string;
+}
+
+export type SavingsGoalStatus = 'reached' | 'on_track' | 'behind';
+
+export interface SavingsGoalProgress {
+  goal_amount: number;
+  goal_date: string;
+  balance: number;
+  remaining: number;
+  percent: number;
+  months_remaining: number;
+  average_monthly: number;
+  required_monthly: number;
+  projected_balance: number;
+  status: SavingsGoalStatus;
+}
+
+export type ManualEntryType = 'deposit' | 'withdrawal' | 'transfer';
+
+export type JournalEntryType = ManualEntryType | 'loan_disbursement' | 'loan_repayment' | 'dividend' | 'fee';
+
+export interface JournalLine {
+  id: string;
+  customer_account_id: string | null;
+  bank_account_id: string | null;
+  loan_id: string | null;
+  ledger_account_id: string | null;
+  debit: number;
+  credit: number;
+  balance_after: number | null;
+  customer_account?: Pick<CustomerAccount, 'id' | 'account_number'> & {
+    member?: Pick<Member, 'id' | 'member_number' | 'first_name' | 'last_name'>;
+  } | null;
+  bank_account?: Pick<BankAccount, 'id' | 'name' | 'account_number'> | null;
+  loan?: Pick<Loan, 'id' | 'loan_number'> | null;
+  ledger_account?: Pick<LedgerAccount, 'id' | 'code' | 'name'> | null;
+}
+
+export interface JournalEntry {
+  id: string;
+  entry_number: string;
+  entry_type: JournalEntryType;
+  amount: number;
+  description: string | null;
+  reference: string | null;
+  posted_by: string | null;
+  posted_at: string;
+  created_at: string;
+  lines: JournalLine[];
+}
+
+export interface PostTransactionData {
+  entry_type: ManualEntryType;
+  amount: number;
+  customer_account_id: string;
+  to_customer_account_id?: string;
+  description?: string;
+  reference?: string;
+}
+
+export interface TransactionFilters {
+  customer_account_id?: string;
+  entry_type?: JournalEntryType;
+}
+
+export interface TransactionPage {
+  transactions: JournalEntry[];
+  next_page: number | null;
+}
+
+export interface DocumentKind {
+  id: string;
+  code: string;
+  name: string;
+  description: string | null;
+  requires_expiry: boolean;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateDocumentKindData {
+  code: string;
+  name: string;
+  description?: string;
+  requires_expiry?: boolean;
+  is_active?: boolean;
+}
+
+export type UpdateDocumentKindData = Partial<Omit<CreateDocumentKindData, 'code'>>;
+
+export type MemberDocumentStatus = 'pending' | 'verified' | 'rejected';
+
+export interface MemberDocument {
+  id: string;
+  member_id: string;
+  customer_account_id: string | null;
+  document_kind_id: string;
+  storage_path: string;
+  file_name: string;
+  mime_type: string;
+  file_size: number;
+  document_number: string | null;
+  issued_on: string | null;
+  expires_on: string | null;
+  status: MemberDocumentStatus;
+  rejection_reason: string | null;
+  uploaded_by: string | null;
+  uploaded_at: string;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+  updated_at: string;
+  document_kind?: Pick<DocumentKind, 'id' | 'code' | 'name' | 'requires_expiry'>;
+  member?: Pick<Member, 'id' | 'member_number' | 'first_name' | 'last_name'>;
+  customer_account?: Pick<CustomerAccount, 'id' | 'account_number'> | null;
+}
+
+export interface UploadMemberDocumentData {
+  file: File;
+  member_id: string;
+  document_kind_id: string;
+  customer_account_id?: string;
+  document_number?: string;
+  issued_on?: string;
+  expires_on?: string;
+}
+
+export interface ReviewMemberDocumentData {
+  status: 'verified' | 'rejected';
+  rejection_reason?: string;
+}
+
+export interface MemberDocumentFilters {
+  member_id?: string;
+  customer_account_id?: string;
+  status?: MemberDocumentStatus;
+}
+
+export type DocumentChecklistStatus = 'verified' | 'pending' | 'rejected' | 'expired' | 'missing';
+
+export interface DocumentChecklistItem {
+  code: string;
+  name: string;
+  status: DocumentChecklistStatus;
+  document_id: string | null;
+  expires_on: string | null;
+}
+
+export interface LedgerAccount {
+  id: string;
+  code: string;
+  name: string;
+  category: 'asset' | 'liability' | 'equity' | 'income' | 'expense';
+  balance: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type LoanProductType = 'qard_hasan' | 'murabaha';
+
+export interface LoanProduct {
+  id: string;
+  name: string;
+  product_type: LoanProductType;
+  description: string | null;
+  profit_rate: number;
+  min_amount: number;
+  max_amount: number;
+  min_term_months: number;
+  max_term_months: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateLoanProductData {
+  name: string;
+  product_type: LoanProductType;
+  description?: string;
+  profit_rate?: number;
+  min_amount: number;
+  max_amount: number;
+  min_term_months: number;
+  max_term_months: number;
+  is_active?: boolean;
+}
+
+export type UpdateLoanProductData = Partial<Omit<CreateLoanProductData, 'product_type'>>;
+
+export type LoanStatus = 'pending' | 'approved' | 'rejected' | 'withdrawn' | 'active' | 'closed';
+
+export interface LoanInstalment {
+  id: string;
+  instalment_number: number;
+  due_date: string;
+  principal_due: number;
+  profit_due: number;
+  amount_due: number;
+  principal_paid: number;
+  profit_paid: number;
+  paid_at: string | null;
+}
+
+export interface Loan {
+  id: string;
+  loan_number: string;
+  member_id: string;
+  customer_account_id: string;
+  loan_product_id: string;
+  product_type: LoanProductType;
+  profit_rate: number;
+  principal: number;
+  profit_amount: number;
+  total_payable: number;
+  term_months: number;
+  purpose: string | null;
+  status: LoanStatus;
+  outstanding_balance: number;
+  rejection_reason: string | null;
+  applied_by: string | null;
+  applied_at: string;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  disbursed_by: string | null;
+  disbursed_at: string | null;
+  disbursement_entry_id: string | null;
+  withdrawn_at: string | null;
+  closed_at: string | null;
+  created_at: string;
+  updated_at: string;
+  member?: Pick<Member, 'id' | 'member_number' | 'first_name' | 'last_name'>;
+  customer_account?: Pick<CustomerAccount, 'id' | 'account_number' | 'balance'>;
+  loan_product?: Pick<LoanProduct, 'id' | 'name' | 'product_type'>;
+  instalments: LoanInstalment[];
+  arrears_amount: number;
+  days_in_arrears: number;
+  overdue_instalments: number;
+  next_due_date: string | null;
+  next_amount_due: number | null;
+}
+
+export interface LoanPosting {
+  id: string;
+  debit: number;
+  credit: number;
+  balance_after: number | null;
+  journal_entry: Pick<JournalEntry, 'id' | 'entry_number' | 'entry_type' | 'reference' | 'posted_at'>;
+}
+
+export interface LoanApplicationData {
+  member_id: string;
+  customer_account_id: string;
+  loan_product_id: string;
+  principal: number;
+  term_months: number;
+  purpose?: string;
+}
+
+export interface UpdateLoanData {
+  status: 'approved' | 'rejected' | 'active';
+  rejection_reason?: string;
+}
+
+export interface LoanRepaymentData {
+  amount: number;
+  reference?: string;
+}
+
+export interface LoanFilters {
+  status?: LoanStatus;
+  member_id?: string;
+  customer_account_id?: string;
+}
+
+export type DividendRunStatus = 'draft' | 'approved' | 'posted' | 'cancelled';
+
+export interface DividendRun {
+  id: string;
+  run_number: string;
+  name: string;
+  period_start: string;
+  period_end: string;
+  profit_pool: number;
+  status: DividendRunStatus;
+  account_count: number;
+  total_average_balance: number;
+  calculated_at: string | null;
+  notes: string | null;
+  created_by: string | null;
+  approved_by: string | null;
+  approved_at: string | null;
+  posted_by: string | null;
+  posted_at: string | null;
+  cancelled_by: string | null;
+  cancelled_at: string | null;
+  journal_entry_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DividendAllocation {
+  id: string;
+  dividend_run_id: string;
+  customer_account_id: string;
+  member_id: string;
+  average_daily_balance: number;
+  share: number;
+  amount: number;
+  created_at: string;
+  customer_account?: {
+    id: string;
+    account_number: string;
+    account_type?: { id: string; name: string };
+  };
+  member?: Pick<Member, 'id' | 'member_number' | 'first_name' | 'last_name'>;
+}
+
+export interface CreateDividendRunData {
+  name: string;
+  period_start: string;
+  period_end: string;
+  profit_pool: number;
+  notes?: string;
+}
+
+export interface UpdateDividendRunData extends Partial<CreateDividendRunData> {
+  status?: 'approved' | 'posted' | 'cancelled';
+}
+
+export type NisabBasis = 'gold' | 'silver';
+
+export interface NisabRate {
+  id: string;
+  effective_date: string;
+  basis: NisabBasis;
+  gold_price_per_gram: number;
+  silver_price_per_gram: number;
+  nisab_value: number;
+  notes: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface CreateNisabRateData {
+  effective_date: string;
+  basis: NisabBasis;
+  gold_price_per_gram: number;
+  silver_price_per_gram: number;
+  notes?: string;
+}
+
+export interface ZakatAssessment {
+  member_id: string;
+  balance: number;
+  lowest_balance: number;
+  hawl_start: string | null;
+  hawl_complete: boolean;
+  zakat_due: number;
+}
+
+export interface ZakatBasis {
+  as_of: string;
+  nisab: NisabRate;
+  hawl_days: number;
+  zakat_rate: number;
+}
+
+export interface ZakatReport extends ZakatBasis {
+  assessments: (ZakatAssessment & {
+    member: Pick<Member, 'id' | 'member_number' | 'first_name' | 'last_name' | 'membership_status'> | null;
+  })[];
+}
+
+export interface ZakatStatement extends ZakatBasis {
+  member: Pick<Member, 'id' | 'member_number' | 'first_name' | 'last_name' | 'national_id' | 'address' | 'city' | 'email'>;
+  accounts: {
+    id: string;
+    account_number: string;
+    status: CustomerAccountStatus;
+    balance: number;
+    account_type?: { name: string };
+  }[];
+  assessment: ZakatAssessment;
+}
+
+export type BankStatementFormat = 'csv' | 'mt940' | 'camt053';
+
+export interface BankStatement {
+  id: string;
+  bank_account_id: string;
+  format: BankStatementFormat;
+  file_name: string;
+  statement_reference: string | null;
+  period_start: string;
+  period_end: string;
+  opening_balance: number | null;
+  closing_balance: number | null;
+  line_count: number;
+  uploaded_by: string | null;
+  uploaded_at: string;
+}
+
+export interface BankPosting {
+  id: string;
+  debit: number;
+  credit: number;
+  journal_entry: Pick<JournalEntry, 'id' | 'entry_number' | 'entry_type' | 'reference' | 'description' | 'posted_at'>;
+}
+
+export interface BankStatementLine {
+  id: string;
+  bank_statement_id: string;
+  bank_account_id: string;
+  value_date: string;
+  amount: number;
+  description: string | null;
+  reference: string | null;
+  journal_line_id: string | null;
+  match_type: 'auto' | 'manual' | null;
+  matched_by: string | null;
+  matched_at: string | null;
+  created_at: string;
+  journal_line?: BankPosting | null;
+}
+
+export interface BankReconciliationOverview {
+  bank_account_id: string;
+  statement_count: number;
+  covered_from: string;
+  covered_to: string;
+  unmatched_statement_lines: number;
+  unmatched_postings: number;
+}
+
+export interface BankReconciliationSummary {
+  ledger_opening_balance: number;
+  ledger_closing_balance: number;
+  statement_closing_balance: number | null;
+  statement_line_count: number;
+  matched_count: number;
+  unmatched_statement_total: number;
+  unmatched_posting_total: number;
+  adjusted_ledger_balance: number;
+  difference: number | null;
+}
+
+export interface BankReconciliation {
+  bank_account: Pick<BankAccount, 'id' | 'name' | 'account_number'>;
+  period: { from: string; to: string };
+  summary: BankReconciliationSummary;
+  statements: BankStatement[];
+  statement_lines: BankStatementLine[];
+  unmatched_postings: (BankPosting & { amount: number })[];
+}
+
+export interface ImportBankStatementData {
+  file_name: string;
+  content: string;
+}
+
+export type AccountStatementFormat = 'pdf' | 'csv';
+
+export interface AccountStatement {
+  id: string;
+  customer_account_id: string;
+  period_start: string;
+  period_end: string;
+  opening_balance: number;
+  closing_balance: number;
+  total_credits: number;
+  total_debits: number;
+  total_fees: number;
+  transaction_count: number;
+  generated_by: string | null;
+  generated_at: string;
+  customer_account?: Pick<CustomerAccount, 'id' | 'account_number'> & {
+    member?: Pick<Member, 'id' | 'member_number' | 'first_name' | 'last_name'>;
+  };
+}
+
+export interface AccountStatementFiles {
+  pdf_url: string;
+  csv_url: string;
+}
+
+export interface GenerateAccountStatementsData {
+  month: string;
+  regenerate?: boolean;
+}
+
+export interface AccountStatementBatchResult {
+  period_start: string;
+  period_end: string;
+  generated: number;
+  skipped: number;
+  failed: { account_number: string; error: string }[];
+}
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'login' | 'login_failed' | 'password_change' | 'impersonate_start' | 'impersonate_stop';
+
+export interface AuditActor {
+  id: string;
+  email: string;
+  full_name: string;
+}
+
+export interface AuditLogEntry {
+  id: string;
+  actor_id: string | null;
+  action: AuditAction;
+  entity_type: string;
+  entity_id: string | null;
+  changes: Record<string, { before: unknown; after: unknown }>;
+  ip_address: string | null;
+  user_agent: string | null;
+  created_at: string;
+  actor?: AuditActor | null;
+}
+
+export interface AuditLogFilters {
+  actor_id?: string;
+  entity_type?: string;
+  action?: AuditAction;
+  from?: string;
+  to?: string;
+}
+
+export type ApprovalOperation = 'create_user' | 'grant_admin_role' | 'change_processing_fee' | 'turn_off_approval';
+
+export type ChangeRequestStatus = 'pending' | 'approved' | 'rejected' | 'withdrawn';
+
+export interface ChangeRequest {
+  id: string;
+  operation: ApprovalOperation;
+  entity_type: string;
+  entity_id: string | null;
+  summary: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  changes: Record<string, { before: unknown; after: unknown }>;
+  status: ChangeRequestStatus;
+  requested_by: string;
+  requested_at: string;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  review_comment: string | null;
+  requester?: AuditActor | null;
+  reviewer?: AuditActor | null;
+  can_review: boolean;
+  can_withdraw: boolean;
+}
+
+export interface ApprovalSetting {
+  operation: ApprovalOperation;
+  requires_approval: boolean;
+  updated_at: string | null;
+}
+
+// Answer of an edge function that held a change for approval instead of applying it
+export interface PendingChangeResponse {
+  change_request: ChangeRequest;
+  message: string;
+}
+
+export type ActivityEntityType = 'user' | 'role' | 'account_type' | 'transaction';
+
+export type ActivityEventAction = 'created' | 'updated' | 'deleted' | 'posted';
+
+export interface ActivityEvent {
+  id: string;
+  entity_type: ActivityEntityType;
+  action: ActivityEventAction;
+  entity_id: string | null;
+  description: string;
+  actor_id: string | null;
+  actor_name: string | null;
+  created_at: string;
+}
+
+export interface ActivityPage {
+  events: ActivityEvent[];
+  nextPage: number | null;
+}
+
+export type DashboardStatKey = 'active_users' | 'members' | 'customer_accounts' | 'bank_balances';
+
+export interface DashboardStat {
+  key: DashboardStatKey;
+  value: number;
+  previous_value: number;
+  change: number | null;
+  breakdown: { label: string; value: number }[];
+}
+
+export interface DashboardStats {
+  period: { from: string; to: string };
+  stats: DashboardStat[];
+}
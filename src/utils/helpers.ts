@@ -1,3 +1,5 @@
+import type { CustomerAccount, OrganisationUnit, SavingsGoalProgress } from '../types'
+
 /**
  * Utility functions for common operations
  */
@@ -105,4 +107,147 @@ export function debounce<T extends (...args: any[]) => any>(
     clearTimeout(timeout)
     timeout = setTimeout(() => func(...args), wait)
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Formats an amount as Mauritian rupees, e.g. "MUR 12,500.00"
+ */
+export function formatCurrency(amount: number | string | null | undefined): string {
+  const value = Number(amount ?? 0)
+  return `MUR ${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+}
+
+/**
+ * Display name of a loan product type, e.g. "Qard Hasan"
+ */
+export function formatLoanProductType(productType: string): string {
+  return productType === 'qard_hasan' ? 'Qard Hasan' : productType === 'murabaha' ? 'Murabaha' : productType
+}
+
+/**
+ * Downloads rows as a CSV file, quoting values that contain commas, quotes or line breaks
+ */
+export function downloadCsv(filename: string, rows: (string | number | null | undefined)[][]): void {
+  const escape = (value: string | number | null | undefined) => {
+    const text = value == null ? '' : String(value)
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+  }
+
+  const csv = rows.map(row => row.map(escape).join(',')).join('\r\n')
+  downloadFile(filename, new Blob([csv], { type: 'text/csv;charset=utf-8' }))
+}
+
+/**
+ * Saves a file fetched or built in the browser, e.g. a generated statement
+ */
+export function downloadFile(filename: string, file: Blob): void {
+  const url = URL.createObjectURL(file)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Browser and operating system named by a user agent string, e.g. "Chrome on Windows"
+ */
+export function describeUserAgent(userAgent: string | null | undefined): string {
+  if (!userAgent) return 'Unknown device'
+
+  const browser = [
+    ['Edg/', 'Edge'],
+    ['OPR/', 'Opera'],
+    ['Firefox/', 'Firefox'],
+    ['Chrome/', 'Chrome'],
+    ['Safari/', 'Safari'],
+  ].find(([token]) => userAgent.includes(token))?.[1]
+  const os = [
+    ['Windows', 'Windows'],
+    ['Android', 'Android'],
+    ['iPhone', 'iOS'],
+    ['iPad', 'iPadOS'],
+    ['Mac OS X', 'macOS'],
+    ['Linux', 'Linux'],
+  ].find(([token]) => userAgent.includes(token))?.[1]
+
+  if (browser && os) return `${browser} on ${os}`
+  return browser || os || userAgent
+}
+
+/**
+ * Adds a number of days to a YYYY-MM-DD date, e.g. to find the day a hawl completes
+ */
+export function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`)
+  result.setUTCDate(result.getUTCDate() + days)
+  return result.toISOString().slice(0, 10)
+}
+
+/**
+ * First and last day of a YYYY-MM month, e.g. the period of a monthly statement
+ */
+export function monthRange(month: string): { from: string; to: string } {
+  const [year, monthIndex] = month.split('-').map(Number)
+  const lastDay = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate()
+  return { from: `${month}-01`, to: `${month}-${String(lastDay).padStart(2, '0')}` }
+}
+
+const DAYS_PER_MONTH = 30.4375
+
+/**
+ * Progress of a goal-based account towards its target. The projection assumes the member keeps
+ * saving at their average monthly rate since the account was activated.
+ */
+export function calculateSavingsGoalProgress(
+  account: Pick<CustomerAccount, 'balance' | 'goal_amount' | 'goal_date' | 'opened_at' | 'activated_at'>,
+  asOf: string = new Date().toISOString().slice(0, 10)
+): SavingsGoalProgress | null {
+  if (account.goal_amount == null || !account.goal_date) return null
+
+  const balance = Number(account.balance)
+  const goalAmount = Number(account.goal_amount)
+  const remaining = Math.max(0, goalAmount - balance)
+  const monthsBetween = (from: string, to: string) =>
+    (Date.parse(`${to.slice(0, 10)}T00:00:00Z`) - Date.parse(`${from.slice(0, 10)}T00:00:00Z`)) / 86400000 / DAYS_PER_MONTH
+
+  const monthsSaved = Math.max(1, monthsBetween(account.activated_at || account.opened_at, asOf))
+  const monthsRemaining = Math.max(0, monthsBetween(asOf, account.goal_date))
+  const averageMonthly = Math.max(0, balance / monthsSaved)
+  const projectedBalance = balance + averageMonthly * monthsRemaining
+
+  return {
+    goal_amount: goalAmount,
+    goal_date: account.goal_date,
+    balance,
+    remaining,
+    percent: goalAmount > 0 ? Math.min(100, (balance / goalAmount) * 100) : 100,
+    months_remaining: monthsRemaining,
+    average_monthly: averageMonthly,
+    required_monthly: remaining > 0 ? remaining / Math.max(1, monthsRemaining) : 0,
+    projected_balance: projectedBalance,
+    status: remaining === 0 ? 'reached' : projectedBalance >= goalAmount ? 'on_track' : 'behind'
+  }
+}
+
+/**
+ * Organisational units in hierarchy order, each under its parent with its depth. Units whose
+ * parent is not in the list, such as the top of a caller's own branch, start at depth 0.
+ */
+export function sortUnitsAsTree(units: OrganisationUnit[]): { unit: OrganisationUnit; depth: number }[] {
+  const ids = new Set(units.map(unit => unit.id))
+  const byName = [...units].sort((a, b) => a.name.localeCompare(b.name))
+  const result: { unit: OrganisationUnit; depth: number }[] = []
+
+  const addChildren = (parentId: string | null, depth: number) => {
+    byName
+      .filter(unit => (parentId === null ? !unit.parent_id || !ids.has(unit.parent_id) : unit.parent_id === parentId))
+      .forEach(unit => {
+        result.push({ unit, depth })
+        addChildren(unit.id, depth + 1)
+      })
+  }
+
+  addChildren(null, 0)
+  return result
+}
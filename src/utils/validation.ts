@@ -1,41 +1,139 @@
-import type { PasswordValidationResult } from '../types/auth'
+import { queryClient, queryKeys } from '../lib/queryClient'
+import { passwordPolicyApi, passwordValidationApi } from '../lib/dataFetching'
+import type { PasswordOwner, PasswordPolicy, PasswordValidationResult } from '../types/auth'
 
-export async function validatePasswordStrength(password: string): Promise<PasswordValidationResult> {
-  const minLength = 8
-  const hasUppercase = /[A-Z]/.test(password)
-  const hasLowercase = /[a-z]/.test(password)
-  const hasNumber = /[0-9]/.test(password)
-  const hasSpecialChar = /[!@#$%^&*(),.?":{}|<>]/.test(password)
+export interface PasswordRule {
+  label: string
+  error: string
+  met: boolean
+}
+
+// Each rule of the policy and whether the password meets it. Mirrors policyErrors in
+// supabase/functions/_shared/passwordPolicy.ts, which enforces the policy on the server.
+export function evaluatePasswordRules(password: string, policy: PasswordPolicy): PasswordRule[] {
+  const rules: PasswordRule[] = [
+    {
+      label: `At least ${policy.min_length} characters`,
+      error: `Password must be at least ${policy.min_length} characters long`,
+      met: password.length >= policy.min_length,
+    },
+  ]
+
+  if (policy.require_uppercase) {
+    rules.push({ label: 'An uppercase letter', error: 'Password must contain at least one uppercase letter', met: /[A-Z]/.test(password) })
+  }
+  if (policy.require_lowercase) {
+    rules.push({ label: 'A lowercase letter', error: 'Password must contain at least one lowercase letter', met: /[a-z]/.test(password) })
+  }
+  if (policy.require_number) {
+    rules.push({ label: 'A number', error: 'Password must contain at least one number', met: /[0-9]/.test(password) })
+  }
+  if (policy.require_special) {
+    rules.push({
+      label: `A special character (${policy.special_characters})`,
+      error: `Password must contain at least one special character (${policy.special_characters})`,
+      met: [...password].some(character => policy.special_characters.includes(character)),
+    })
+  }
+  if (policy.banned_words.length > 0) {
+    const bannedWord = policy.banned_words.find(word => word && password.toLowerCase().includes(word.toLowerCase()))
+    rules.push({
+      label: 'No banned words',
+      error: `Password must not contain "${bannedWord}"`,
+      met: !bannedWord,
+    })
+  }
+
+  return rules
+}
+
+async function sha1Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(value))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('').toUpperCase()
+}
 
-  const errors: string[] = []
-  let isValid = true
+// Looks the password up in the server's compromised password list by the first five characters of
+// its hash, so neither the password nor its full hash leaves the browser
+export async function isCompromisedPassword(password: string): Promise<boolean> {
+  const hash = await sha1Hex(password)
+  const prefix = hash.slice(0, 5)
+  const suffixes = await queryClient.fetchQuery({
+    queryKey: queryKeys.compromisedPasswordRange(prefix),
+    queryFn: () => passwordValidationApi.getCompromisedSuffixes(prefix),
+    staleTime: Infinity,
+  })
+  return suffixes.includes(hash.slice(5))
+}
 
-  if (password.length < minLength) {
-    errors.push(`Password must be at least ${minLength} characters long`)
-    isValid = false
+// Parts of the owner's email address and name that are long enough to matter
+function personalWords(owner: PasswordOwner) {
+  const significant = (words: string[]) => words.map(word => word.toLowerCase()).filter(word => word.length >= 3)
+  return {
+    email: significant((owner.email || '').split('@')[0].split(/[^a-zA-Z0-9]+/)),
+    name: significant((owner.full_name || '').split(/\s+/)),
   }
-  if (!hasUppercase) {
-    errors.push('Password must contain at least one uppercase letter')
-    isValid = false
+}
+
+// Strength from 0 to 4 by length and variety, less for repeated characters and sequences.
+// Mirrors scorePassword in supabase/functions/_shared/passwordPolicy.ts.
+export function scorePassword(password: string): { score: number; feedback: string[] } {
+  const feedback: string[] = []
+  let points = password.length >= 16 ? 3 : password.length >= 12 ? 2 : password.length >= 8 ? 1 : 0
+  if (password.length < 12) feedback.push('Use 12 or more characters')
+
+  const classes = [/[a-z]/, /[A-Z]/, /[0-9]/, /[^a-zA-Z0-9]/].filter(pattern => pattern.test(password)).length
+  points += classes === 4 ? 2 : classes === 3 ? 1 : 0
+  if (classes < 4) feedback.push('Mix upper and lower case letters, numbers and symbols')
+
+  if (/(.)\1\1/.test(password)) {
+    points -= 1
+    feedback.push('Avoid repeating the same character')
   }
-  if (!hasLowercase) {
-    errors.push('Password must contain at least one lowercase letter')
-    isValid = false
+  const lowered = password.toLowerCase()
+  if (['abcdefghijklmnopqrstuvwxyz', '01234567890', 'qwertyuiop', 'asdfghjkl', 'zxcvbnm'].some(sequence =>
+    Array.from({ length: sequence.length - 3 }, (_, i) => sequence.slice(i, i + 4)).some(run => lowered.includes(run))
+  )) {
+    points -= 1
+    feedback.push('Avoid sequences such as "abcd", "1234" or "qwer"')
   }
-  if (!hasNumber) {
-    errors.push('Password must contain at least one number')
-    isValid = false
+
+  return { score: Math.max(0, Math.min(4, points)), feedback }
+}
+
+// Checks a password against the password policy, the compromised password list and the owner's
+// email address and name, as the server will when the password is set
+export async function validatePasswordStrength(password: string, owner: PasswordOwner = {}): Promise<PasswordValidationResult> {
+  const policy = await queryClient.fetchQuery({
+    queryKey: queryKeys.passwordPolicy(),
+    queryFn: passwordPolicyApi.getPolicy,
+  })
+
+  const errors = evaluatePasswordRules(password, policy).filter(rule => !rule.met).map(rule => rule.error)
+  const lowered = password.toLowerCase()
+  const personal = personalWords(owner)
+
+  if (personal.email.some(word => lowered.includes(word))) {
+    errors.push('Password must not contain your email address')
   }
-  if (!hasSpecialChar) {
-    errors.push('Password must contain at least one special character (!@#$%^&*(),.?":{}|<>)')
-    isValid = false
+  if (personal.name.some(word => lowered.includes(word))) {
+    errors.push('Password must not contain your name')
   }
 
-  const message = isValid 
-    ? 'Password meets all strength requirements' 
-    : errors.join('. ')
+  const compromised = await isCompromisedPassword(password)
+  if (compromised) {
+    errors.push('Password is too common or has appeared in a data breach')
+  }
 
-  return { isValid, message, errors }
+  const strength = scorePassword(password)
+  const isValid = errors.length === 0
+  return {
+    isValid,
+    message: isValid ? 'Password meets all strength requirements' : errors.join('. '),
+    errors,
+    // A rejected password is never rated above weak, and a compromised one is rated very weak
+    score: compromised ? 0 : isValid ? strength.score : Math.min(strength.score, 1),
+    feedback: strength.feedback,
+  }
 }
 
 // Generate a secure temporary password
@@ -78,8 +176,10 @@ export const validatePasswordServerSide = async (password: string): Promise<Pass
       const errorData = await response.json()
       return { 
         isValid: false, 
-        message: errorData.message || 'Server-side validation failed.',
-        errors: errorData.errors || ['Server error']
+        message: errorData.message || errorData.error || 'Server-side validation failed.',
+        errors: errorData.errors || ['Server error'],
+        score: 0,
+        feedback: []
       }
     }
 
@@ -90,7 +190,9 @@ export const validatePasswordServerSide = async (password: string): Promise<Pass
     return { 
       isValid: false, 
       message: 'Could not connect to password validation service.',
-      errors: ['Network error']
+      errors: ['Network error'],
+      score: 0,
+      feedback: []
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,68 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { HttpError, json } from './http.ts'
+import type { AuditEntry } from './audit.ts'
+
+export type ApprovalOperation = 'create_user' | 'grant_admin_role' | 'change_processing_fee' | 'turn_off_approval'
+
+// Operations whose approval can be turned on and off; turning one off always needs approval
+export const APPROVAL_OPERATIONS: ApprovalOperation[] = ['create_user', 'grant_admin_role', 'change_processing_fee']
+
+// Permission the reviewer needs besides approvals:review: the one the change itself needs
+export const OPERATION_PERMISSIONS: Record<ApprovalOperation, string> = {
+  create_user: 'users:manage',
+  grant_admin_role: 'users:manage',
+  change_processing_fee: 'account_types:manage',
+  turn_off_approval: 'settings:manage'
+}
+
+export interface ChangeRequestInput {
+  operation: ApprovalOperation
+  entityType: string
+  entityId?: string | null
+  summary: string
+  payload: Record<string, unknown>
+  before?: Record<string, unknown> | null
+  after?: Record<string, unknown> | null
+}
+
+// Whether the operation waits for a second person's approval instead of being applied at once
+export async function requiresApproval(supabase: SupabaseClient, operation: ApprovalOperation): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('approval_settings')
+    .select('requires_approval')
+    .eq('operation', operation)
+    .maybeSingle()
+
+  if (error) throw new HttpError(500, 'Unable to load approval settings')
+  return data?.requires_approval ?? true
+}
+
+// Records the change for a second person to approve instead of applying it, answering 202 with
+// the change request
+export async function submitChangeRequest(
+  supabase: SupabaseClient,
+  requestedBy: string,
+  audit: (entry: AuditEntry) => Promise<void>,
+  input: ChangeRequestInput
+): Promise<Response> {
+  const { data: changeRequest, error } = await supabase
+    .from('change_requests')
+    .insert({
+      operation: input.operation,
+      entity_type: input.entityType,
+      entity_id: input.entityId ?? null,
+      summary: input.summary,
+      payload: input.payload,
+      before: input.before ?? null,
+      after: input.after ?? null,
+      requested_by: requestedBy
+    })
+    .select('*')
+    .single()
+
+  if (error) throw new HttpError(500, error.message)
+
+  await audit({ action: 'create', entityType: 'change_request', entityId: changeRequest.id, after: changeRequest })
+
+  return json({ change_request: changeRequest, message: 'The change is waiting for approval' }, 202)
+}
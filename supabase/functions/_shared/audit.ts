@@ -0,0 +1,63 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'login' | 'login_failed' | 'password_change' | 'impersonate_start' | 'impersonate_stop'
+
+type AuditRecord = Record<string, unknown>
+
+export interface AuditEntry {
+  action: AuditAction
+  entityType: string
+  entityId?: string | null
+  before?: AuditRecord | null
+  after?: AuditRecord | null
+}
+
+// Bookkeeping columns that change on every write
+const IGNORED_FIELDS = new Set(['updated_at'])
+
+// Fields that differ between the two records as { field: { before, after } }. On an update only
+// fields present in both are compared, so joined relations returned with one side are skipped;
+// on a create or delete every field of the one record is listed.
+export function diffRecords(before: AuditRecord | null | undefined, after: AuditRecord | null | undefined) {
+  const changes: Record<string, { before: unknown; after: unknown }> = {}
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})])
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue
+    if (before && after && (!(field in before) || !(field in after))) continue
+
+    const previous = before?.[field] ?? null
+    const next = after?.[field] ?? null
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      changes[field] = { before: previous, after: next }
+    }
+  }
+
+  return changes
+}
+
+// Address of the client, as forwarded by the Supabase edge gateway. The client can send its own
+// X-Forwarded-For, so only the last entry, the one the gateway appends, is trusted.
+export function clientIp(req: Request): string | null {
+  const forwarded = req.headers.get('x-forwarded-for')
+  if (forwarded) return forwarded.split(',').pop()!.trim() || null
+  return req.headers.get('x-real-ip')
+}
+
+// Appends an entry to the audit log. The change it records has already been made, so a failure
+// is logged rather than failing the request.
+export async function recordAudit(supabase: SupabaseClient, req: Request, actorId: string | null, entry: AuditEntry): Promise<void> {
+  const { error } = await supabase.from('audit_log').insert({
+    actor_id: actorId,
+    action: entry.action,
+    entity_type: entry.entityType,
+    entity_id: entry.entityId ?? null,
+    changes: diffRecords(entry.before, entry.after),
+    ip_address: clientIp(req),
+    user_agent: req.headers.get('user-agent')
+  })
+
+  if (error) {
+    console.error('Error recording audit log entry:', error)
+  }
+}
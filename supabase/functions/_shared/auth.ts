@@ -0,0 +1,117 @@
+import type { SupabaseClient, User } from 'npm:@supabase/supabase-js@2'
+import { HttpError } from './http.ts'
+
+export interface CallerPermissions {
+  isAdmin: boolean
+  granted: Set<string>
+  // One of the user's roles requires multi-factor authentication
+  mfaRequired: boolean
+  // Organisational units whose records the user sees, with the units below them; null when a role
+  // is held across the whole organisation and every record is seen
+  unitIds: string[] | null
+}
+
+// User of the bearer token in the Authorization header
+export async function authenticate(supabase: SupabaseClient, req: Request): Promise<User> {
+  const authHeader = req.headers.get('Authorization')
+  if (!authHeader) {
+    throw new HttpError(401, 'Missing authorization header')
+  }
+
+  const token = authHeader.replace('Bearer ', '')
+  const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+  if (authError || !user) {
+    throw new HttpError(401, 'Invalid authorization token')
+  }
+
+  return user
+}
+
+// Union of the resource:action permissions of every role the user holds; as in the frontend,
+// the admin role is allowed everything
+export async function getCallerPermissions(supabase: SupabaseClient, userId: string): Promise<CallerPermissions> {
+  const { data, error } = await supabase
+    .from('user_roles')
+    .select('organisation_unit_id, roles(name, mfa_required, role_permissions(permissions(resource, action)))')
+    .eq('user_id', userId)
+
+  if (error || !data) {
+    throw new HttpError(500, 'Unable to fetch user permissions')
+  }
+
+  // Only users whose every role is held in a unit need their units looked up
+  let unitIds: string[] | null = null
+  if (!data.some(ur => !ur.organisation_unit_id)) {
+    const { data: scope, error: scopeError } = await supabase.rpc('user_unit_scope', { p_user_id: userId })
+    if (scopeError) {
+      throw new HttpError(500, 'Unable to fetch user units')
+    }
+    unitIds = scope || []
+  }
+
+  const roles = data.map(ur => ur.roles).filter(Boolean)
+  return {
+    unitIds,
+    isAdmin: roles.some(role => role.name === 'admin'),
+    mfaRequired: roles.some(role => role.mfa_required),
+    granted: new Set(roles.flatMap(role =>
+      (role.role_permissions || [])
+        .map(rp => rp.permissions)
+        .filter(Boolean)
+        .map(permission => `${permission.resource}:${permission.action}`)
+    ))
+  }
+}
+
+export const hasPermission = (caller: CallerPermissions, permission: string) =>
+  caller.isAdmin || caller.granted.has(permission)
+
+export function requirePermission(caller: CallerPermissions, ...permissions: string[]): void {
+  if (!permissions.some(permission => hasPermission(caller, permission))) {
+    throw new HttpError(403, 'Insufficient permissions')
+  }
+}
+
+// Claims of the bearer token, which has already been verified by authenticate
+function tokenClaims(req: Request): Record<string, unknown> {
+  const token = (req.headers.get('Authorization') || '').replace('Bearer ', '')
+  try {
+    return JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')))
+  } catch {
+    return {}
+  }
+}
+
+// Authenticator assurance level of the bearer token's session: aal1 after a password alone, aal2
+// once a second factor has been verified
+export function sessionAssuranceLevel(req: Request): string | null {
+  const { aal } = tokenClaims(req)
+  return typeof aal === 'string' ? aal : null
+}
+
+// Whether the bearer token's session was opened from a password reset link rather than by signing in
+export function isRecoverySession(req: Request): boolean {
+  const { amr } = tokenClaims(req)
+  return Array.isArray(amr) && amr.some(entry => entry?.method === 'recovery')
+}
+
+// Supabase Auth session the bearer token belongs to
+export function sessionId(req: Request): string | null {
+  const { session_id } = tokenClaims(req)
+  return typeof session_id === 'string' ? session_id : null
+}
+
+// Users with a verified authenticator, and users whose role requires one, must have completed
+// the second factor in this session
+export function requireAssuranceLevel(req: Request, user: User, caller: CallerPermissions): void {
+  if (sessionAssuranceLevel(req) === 'aal2') return
+
+  if ((user.factors || []).some(factor => factor.status === 'verified')) {
+    throw new HttpError(403, 'Multi-factor authentication required')
+  }
+
+  if (caller.mfaRequired) {
+    throw new HttpError(403, 'Multi-factor authentication must be set up before continuing')
+  }
+}
@@ -0,0 +1,1742 @@
+// SHA-1 hashes of common and widely breached passwords, grouped by the first five hex characters
+// of the hash as in the Have I Been Pwned range API, so that only a prefix ever has to be looked up
+// or sent to the browser. Covers the most common passwords and the usual variations of common
+// words (capitalised, with digits, years or a trailing symbol, e.g. "Password1!").
+// 1735 passwords. Add to it by appending the upper-case hex SHA-1 suffix to its prefix.
+export const COMPROMISED_PASSWORD_RANGES: Record<string, string> = {
+  '0048B': '3219DC1F8B8CBF9561E0A26E1481CA3CE46',
+  '00683': '9D264A38B7F58E5C8130447528BF4B7AEE1',
+  '00CAF': 'D126182E8A9E7C01BB2F0DFD00496BE724F',
+  '00D26': '545131CF084B7510338F9851401AD9CC62A',
+  '0112E': '227918AFDEC04E7EC100A37745D42647585',
+  '011C9': '45F30CE2CBAFC452F39840F025693339C42',
+  '018F4': 'D7F06CB8626E1756452581373E05AE41C56',
+  '019DB': '0BFD5F85951CB46E4452E9642858C004155',
+  '01B30': '7ACBA4F54F55AAFC33BB06BBBF6CA803E9A',
+  '01BF0': 'DCDF86246936B7363FAD427708230C57213',
+  '021FD': '1B957130801E2E3D13C93A0F52B1D8A174C',
+  '0242E': '729276FD05561292BC5F988C212E92ECABF',
+  '02563': '5DD444EA38CF7F6A6FE7FD966AF5698F7B0',
+  '025AB': 'E82C15599AF0E353F79454333CE677B9F13',
+  '0266C': '2B9E64DD0E77050774178E7273D8CDD05F6',
+  '02726': 'D40F378E716981C4321D60BA3A325ED6A4C',
+  '029DC': '561E6797A2D6D813E7C8CBBF85E0DE7C238',
+  '02A15': '7808620347FD856C981E6516AF5FC86FEF3',
+  '02B0B': '2AE185A94FCAB50D8F08156D86BF2B32C92',
+  '02B3B': 'BAF45317FB81E8180A9AAFA70441DF098DD',
+  '02E0A': '999C50B1F88DF7A8F5A04E1B76B35EA6A88',
+  '03065': '37EBCF374EF8892ADAFFC46B19C24C8D731',
+  '03072': 'DF361CF6A6DBC90A41AE19BADC47CA2F079',
+  '0341A': '9F0C0E89D333231420C8772C5B7EEF2E0B8',
+  '03635': '376E0789592D3063740B84EFFFF5E8A1403',
+  '03647': '3B6449D12613AEBD8E794DD9CDE6EB006B1',
+  '03896': '534C389418A4353EF18F9D0D7F20ACC937C',
+  '03BC0': 'A4D0E853986DC1FFBBAABA38A4949FD37FA',
+  '03D85': '28F4CE055D2A173C75452B90A4A2DD39E71',
+  '03FDF': '1323C8D4770C90576CE2A1860D476DED8AB',
+  '0405F': '09E8CCD8CE4236BDB6B167E4426BFC41848',
+  '042A7': '1C86D3FD50A71A0ECD68BDEEA9642DA5522',
+  '043A5': '58250409758B64F73D07D7F06B3DF654BC0',
+  '044F9': '32D4B3FD0AF01191309007F814B6E820573',
+  '04611': 'E788BC1EC5F54E6B6C05CE43F31E35042BD',
+  '0466A': 'B3A90418FE8FCD29BA3368D63EE8FC6FDA5',
+  '04682': 'C691D405FA6560269C624454FAB1E5386B5',
+  '046F7': 'CEEB5A470E147860DAD27BE8B141DE0C795',
+  '04829': '5F048075667164A07DA6C3DD8A6554683E8',
+  '048AB': '0B9122866F1AE73D21F45F1390093076021',
+  '04915': 'E0BD8DAA11CBF323FFC7064157E37EFFF69',
+  '04D1C': 'B35AE8A060A561F9169E09DECDDE9EF3E6D',
+  '04E71': '3A79D01FD730E4C535B924499E1994BE748',
+  '04EC4': 'ABE1B8321C42552C5881A1A57F28CF45BB6',
+  '05709': '932B3339E6217678AC5A70D4B799995BC72',
+  '05973': '90906253F44554770816C1A2E41334B596C',
+  '05B53': '0AD0FB56286FE051D5F8BE5B8453F1CD93F',
+  '05D89': '65F3F807B41EB60821E634B7A83F337076D',
+  '05DAA': '2B06CB7F70A70B0CAB4880E05D7FC3D1AF4',
+  '05DE2': 'F6CD41FC2938A433DDBE82F999EF5805089',
+  '05F1B': '881B8DFA8C6CD9CDBE3C2298282D8D66D81',
+  '05FE7': '461C607C33229772D402505601016A7D0EA',
+  '0611A': 'F583293C39219D2E6922471193E56CD38EA',
+  '066E9': '0AC797D52AE017802D4D904B9FD1FDE6A1F',
+  '0670A': '30925EB0DB112B15B1B242F45419C97D8F7',
+  '076D3': 'E6C4B9F654B5B220B9045B7458AB6B4CBC6',
+  '077A1': '545DF9039DB99229C99B21A2280BBEE3732',
+  '07D71': 'FC23BA423A19F8CCE3B43703770A028D91E',
+  '07EB0': 'BD8CFDE6AAB9A1A40A32CA799025E0948D4',
+  '0829C': 'F835B86C7C532643EB0AD50C38201D302F2',
+  '082A9': '65CD093A47B84ED52D23497393FEB39B3F2',
+  '08595': '5715A2FE34C1945122BF94DF773F025D376',
+  '08808': '065106E0F48E0D8EFBD4C492C633B4D69E8',
+  '08984': '9790A229B01F6CF88FF844C34929B5298AF',
+  '08B31': '4F0E1E2C41EC92C3735910658E5A82C6BA7',
+  '08D3F': '81B1E907D13A17B307240D5C4C1C9DFAD37',
+  '08F4A': 'A54A2985E3287AF2241949ADE73E3F3D859',
+  '0906A': 'D137AB6685EBF273211E1B1A9EFEB8DF359',
+  '09331': '68E9068772948B870CB3B785522F2A4083A',
+  '09639': '92090AAC2D595B32D34E8A5FCAB9FAE3151',
+  '098C3': 'FDEA75EA905A838BC4833ABCB13CA6CDCFC',
+  '0A42B': '7970A3753B18879D3D928A4BBB85969AB83',
+  '0ABD3': '5C1FE71E592F1A3509C84DF8B18040E13B0',
+  '0B2FF': '7669F8405F568445B5DF749F340A82784FE',
+  '0BC88': 'F539E76B71EBC8468E3C5C762149FBF230D',
+  '0C04E': 'E7B95ECC0A6D76C8CD23822FDD1E253A7EC',
+  '0C08D': 'B22860E0A34510B574D74785B5292B0BFF1',
+  '0C8E5': '46613133454B97B0CF455B2CCC1D2248063',
+  '0CBFE': '1A06B97AAD94E28D27EC75ABEA4EFF85480',
+  '0CC12': 'C08EA5B70FD2AE1C95D787F4F61492E8BE6',
+  '0CE79': '11E6479995D6C346D6F03EB723B5135309E',
+  '0CEFD': '97F1F8E71171B9A6E140B8B62C2B4F1D4A4',
+  '0CF84': '732AE83173927FB44E51CAB309A83DAEC08',
+  '0CFCE': '03424AA2AB72AB4999E35C870904534335B',
+  '0D0CB': 'B59296D9ACC111F9D04BAC586C827724CF1',
+  '0D557': 'DF22DBDD71279A35B6CC30C38D66FEE27BE',
+  '0DBE7': 'C2F769B2FFE7BA314CFFBDCFE3FB2A92BE0',
+  '0DE0E': '632647ABDB0235DFEDF7C2ED43DE935A282',
+  '0DEFA': '6326549B4AA9B679252C5402388E15BDE4E',
+  '0E228': '9AEAF81185FE5E46309AACFBF8D10DB4822',
+  '0E359': '4338E96136536240FA4503CDF109031B1BD',
+  '0E623': '4D13E44C976018C2A551ACB752F32AB7A66',
+  '0E670': '764B21B92685EB374AF60E7340775648453',
+  '0E749': '0C207D41285CA1B4AEF76E35F12B2E9BB64',
+  '0E7D5': 'AFCBF585FC09FA1A83F11E793C81D5F9085',
+  '0E818': 'BFA0679DF304036382AAA7667DF92CBE30E',
+  '0EB11': 'C49568F877C2C4436A21522D2557E0EC02D',
+  '0EBD4': '153E37DDA126FE6DB5EEDF71F4CD78DC197',
+  '0F0D9': '59BCA569BF2B0A8BFF3E2F1E88920EE7C5F',
+  '0F125': '41AFCCE175FB34BB05A79C95B76E765488B',
+  '0FAE1': '63097E48FB68DAE806EDD2728850E9585EC',
+  '0FDB3': 'B756D03D220621DB51647D74FC85E34C693',
+  '10160': 'D7B5E756752ED0842987E3AD9080C8E369A',
+  '104E0': '3314A82F3FBC0CE1C681CFDFA2D0542E492',
+  '10937': 'DFFC85D92A28EBA8144C2021E9F4136BD47',
+  '10C6E': 'F80BE6D28D3C0BA6B5A51E9E1060FFDC6E9',
+  '10EA6': 'B254D2A14FDC2339133C59B89A42E16980F',
+  '1103B': '11F29B7C4522DE0A8FCD0C5938349209C0F',
+  '119FF': 'AB9FDA36E29816A09097C441EB8BCD8B684',
+  '11A7F': 'A6CE139E35BE4FBB259C6E173EF02763470',
+  '11E1D': 'CE5AD55CE25727C10DE6CEA02A45E980299',
+  '1203A': '4C68907586724A28AB89890CB233E3E8575',
+  '1213C': 'ADE3C1F0BE688A54BA4C65F005C28856921',
+  '121AA': 'D342AC1538479CF03450ABEB753D52723B4',
+  '1249D': '35E5A033FC99CAE00CBCA2D1DFFDD5DB2CB',
+  '12802': '78EBCBA6C8D6E24A017EEE8458B7D482092',
+  '12806': '9A40D35E8E455F492F8AFADC3445A4266E0',
+  '12947': '8BE1629A4E3D8D570504EDEEC896BDC6AA8',
+  '12A9A': 'AD60B234957EF77103D4579674778F17F08',
+  '12CA4': '2C1D399B50749437FCAEB576E463A3B816B',
+  '12DEA': '96FEC20593566AB75692C9949596833ADC9',
+  '12E92': '93EC6B30C7FA8A0926AF42807E929C1684F',
+  '12F58': '634DC5DE953C352AA455BBC1C20FB087293',
+  '13409': '6E12368B9BCE038CCAC61963716C01FA8EE',
+  '13422': '800E9E191B1D7D8FA85D45C98D0A8ECE3E8',
+  '13936': 'E8898449DA2708C5E3FF6F4D5BE898C7592',
+  '13CE7': '52D7EE02ED4C5F3A3C19D9213C113DE26FC',
+  '14054': '4CF924C39D495068012DA6E21696796E4C8',
+  '14116': '78A0B9E25EE2F7C8B2F7AC92B6A74B3F9C5',
+  '14293': '59A9A770369A862201A73E2E0776A8A655F',
+  '14437': '885730B5FB9270367A5C6203544DEA68FDF',
+  '1467D': '13B34EE0B37B09D1E750DF2B92B061BE7B0',
+  '14784': '7D73EE819CFCBFAF4E907CE7370654B8248',
+  '150C4': 'FA01B8B2D6CFFA88C93D945746992939CF6',
+  '151FF': '308E2C3A2B12381312A98A6C1F3CB53F629',
+  '15614': '82C1292222496D39BB43EB61619184A51C9',
+  '1561E': 'D6ADB4D388497444D732420A7B007AFF0E0',
+  '15697': '7862D0DFF54E57AAAB60281FF75BF124657',
+  '16356': '2D21B36C21A91A6BF13A030AF029907E879',
+  '16452': 'C2DEC19A293196B79FD3F35E3C7ABC7F4EF',
+  '1645E': 'E78DE0F7C73001E1A8ED1FACC25A72B6796',
+  '166CE': '34E753F2CC7C3625B7E9471727C4B2B1CF4',
+  '16A48': 'B13F8751F5D20391DC22A2DA27C792D8F11',
+  '16E21': '9345386F6302290B22BD8A3C805256C7948',
+  '16EB1': '050F54BDA18ACE32636159B88BCEA1A9DD2',
+  '177B8': 'A99DB9CA6FC66535080FF1ADD0852AA5ABA',
+  '17B9E': '1C64588C7FA6419B4D29DC1F4426279BA01',
+  '17C7B': '6E5661154E6FB214BFED57D66B3A0B58914',
+  '17D9D': '8AA052CC84D89066C0DBC4D5632CDED0C04',
+  '1800C': '1A172518EBD2552219A4993F965468EEC1B',
+  '18858': '605FBF56D4D235CBA7A95A2B41384AB8F08',
+  '18A13': 'A41C99BA0208631F548DC7D190E5D691704',
+  '18C28': '604DD31094A8D69DAE60F1BCD347F1AFC5A',
+  '191CC': 'A9A9C246040BC76373EDDBCA94C3B772761',
+  '19485': 'E369C691FA8ECE1FABC8A6CEABFB5666B79',
+  '1959D': 'B8C23EEB9E109D62C2D3DADA3CAECFC860E',
+  '1964B': 'B8AA947E03C596C19B985A728754E213238',
+  '1999E': '4893F732BA38B948DBE8D34ED48CD54F058',
+  '19B05': '6140116019A2AD0526359222B3202AFE9A0',
+  '19F12': '05A2CD75276AC64A8AAC93FAC949F0709B9',
+  '1A29D': '6A0A4A93A06FE48493B9DD56D794EFEA591',
+  '1A501': '3BF8A9E55C9A0094703F0D274E1773A9E4D',
+  '1A576': '5FBDECD84BA808B1B83096F15C5AED8FE75',
+  '1A609': 'A84F01681B800CCD061D2E57724711F0E40',
+  '1A846': '240CB43369C11313794E68EF4B8A7011281',
+  '1A856': '5A9DC72048BA03B4156BE3E569F22771F23',
+  '1AA25': 'EAD3880825480B6C0197552D90EB5D48D23',
+  '1AA8A': '359E9A4CA2CACCC240126456C829B89B873',
+  '1AB70': '9A337A79AA3F689E7044F8F4113E5E31973',
+  '1ACB5': '9A0633465DD42D5CDFA6E77454BAFDF9766',
+  '1B128': '48AD00B66579765232D0538719DF44FB752',
+  '1B26D': '2E67AFB3801E40C60974993C3A699F9BB1D',
+  '1B2B3': '71B6A0D595F3F68E292C83FB368370F5BF8',
+  '1B2D4': '3E95F16DF6039748099CCABA49766F4FF6D',
+  '1B3F7': 'D9569025C09E4D58CF753E136709524B8B1',
+  '1B48D': '3F014245F7C149CE9B77CD815ABB0F1994B',
+  '1B679': '66BAFE1D29CE9106395DFCFEF95056C1F92',
+  '1B70A': 'D4BB4A5DAF559C362199AEA119C98B68D9E',
+  '1BC7D': 'C0142C0149496BAA51E20749505E480A22D',
+  '1C19B': '696C6D528479DB3107114346A9FFE0FB685',
+  '1C1E2': '066C08286501701C31DBE32AB50D1861766',
+  '1C439': 'FAC021803DE694D7EF39E59215590C1B5F9',
+  '1C542': 'E79C9B4257E640CCF72974D61FD590A5C26',
+  '1C5B5': 'B03203D4C1764890B59D282DDAD1C6E38F9',
+  '1C905': '9170910835368500990479A5CF828444D34',
+  '1C9E4': 'D0D9B5045F69AB72E9FA07AC5AB0B497260',
+  '1CAFB': '04809C1708D747BA05D13756FE039C6C925',
+  '1CB5B': 'D5A9E45420321F44C72DA5D90D7F0432FFB',
+  '1CB67': '394428FB4102A69A7FA3406EB59B57F12DC',
+  '1CD9A': '0F0F097800A94A33AAD9F38B59F398B88AC',
+  '1CDF5': 'D93825316BA28A6F9C2A20D9AA117CBD1A4',
+  '1D362': 'FC782B9B5544D022C919FF216CE3282D154',
+  '1D424': 'CE0632B14DDC693E3A620AAA711E436DF69',
+  '1D4FC': '599676D53885A8CFF224E7A95D6FB54DBDB',
+  '1D78A': 'C438374EBDFACF67A10261FFFDCB0AF1475',
+  '1D7C7': '1A7E4E1A02680E287BBEDD5E3A6DB5FCB74',
+  '1D806': '47F28F57D028F1F60D117BB92733D7DE36E',
+  '1D91D': 'F95A937018A3654BC73DBEC6129ED39A4F4',
+  '1DF2E': '12658A0661B17A973DDD30A86C238B67E45',
+  '1DF72': 'A36A14EF61875BCB4BF4EFB085B8DB24613',
+  '1E1C4': '1175CB81C28EEC6C4C6FD3D2FC77417CE5B',
+  '1E3C8': '93415D0D0F5AFB801FD794D87AE67BDECC6',
+  '1E41C': '981637834CAEC149B4D33F7F8566076DDFA',
+  '1EBC1': '6E108B7AFD95C9CD6E32EF04924E65292B1',
+  '1ECD7': '6C2B070DDC45F569486B0CBAC836AC5A78B',
+  '1EE77': '60A3190C95641442F2BE0EF7774E139FB1F',
+  '1EEBD': '6EAC14A3359AE9016D4214F9C6ED4742AB5',
+  '1EF41': 'AF4175FE164BF14A260FDF226218961C106',
+  '1EFD9': '6BAA7B03CD3332592DA7C487CD7D8B3F1EB',
+  '1F203': '79ADF30D2861A559374D06B3F4F4406F53E',
+  '1F2F8': '184C9B998506F52B1D1A12FC4A47C2F33BA',
+  '1F552': '3A8F535289B3401B29958D01B2966ED61D2',
+  '1F5F4': '5C48DAD40939DFF57C2AF4FF65B86957239',
+  '1F76C': '9D28B8E9B091B13A9A5541AFD6ED3A699DB',
+  '1F7E3': '1929859DC7095DCE27D92F5968970964D90',
+  '1F82C': '942BEFDA29B6ED487A51DA199F78FCE7F05',
+  '1FB16': '6FF109C765B4672EC99559A2769764FB444',
+  '1FC85': '4110E5532480000542834F453DE31936C2F',
+  '1FD1B': '4516473C36C8FB30BBF7C4490FC20419A10',
+  '1FECC': 'E4C711C4EF466D53A67BE9F2B7623292D68',
+  '1FFF8': 'C7BE7829FB657F9CDF5D55334999C9DD6A3',
+  '20124': '3540408200DC6EFF0EB9461CBA716124463',
+  '201B8': 'F20DD1695D7D46E80A23F0487D1CB91E255',
+  '20257': 'AB9F1A51B874AF29BE08FF16FA03BEF607F',
+  '202B3': '7EE91606BE1B9BA17F282A7B69CB6523A0A',
+  '203F1': '24919042D80285903AB318EF5DB3793CE57',
+  '20A90': 'A01B292D311B45A1BF1DFA6A1A27406C459',
+  '20B32': '7DD07FE171FB66DF4A064A7BDC4E04066CD',
+  '20C66': '47AB183AF03D2025880A1EBB68E2AF2B612',
+  '20D25': '3779A917A99F0FC278C478A10D748945850',
+  '20EAB': 'E5D64B0E216796E834F52D61FD0B70332FC',
+  '21010': 'DE43F356A98FEB77754C1D8EC3E67F1AE6B',
+  '2129C': 'CF68C4AB3B61BAE4CDEBE6E4D420106660D',
+  '2151E': '33394EFBCF84F43B6D68AF6272609458C1D',
+  '21662': '07F05F885BF2B4B6CF64394D8181E9948B1',
+  '21BD1': '2DC183F740EE76F27B78EB39C8AD972A757',
+  '21E1B': '930DAE93FF844E90DF20989D53A6EF5BE99',
+  '21F20': '8C52861C66F5935162A1BF9E753D6D7A41B',
+  '22390': 'AD11C32FAEC43FC61555B53607660B3C185',
+  '2243E': '8BC48F4CB895845BEDD606153834A6462B2',
+  '224DF': 'A13795234063140F1C8ADBC6CD332A1E852',
+  '225C1': '60E38A242D21E8DAB754BE7C43C8B5CEC03',
+  '226C5': '895228EBA460F38617C3747C9B0B5E138B1',
+  '228A1': '0E6B013B91CB98B428D4388AF35F00FA6D4',
+  '22926': '72ECF57A99F0CDAECAC5720D90D63E6642F',
+  '22942': 'B7C5CDF7813BA3C1EA82FF3A2B406486271',
+  '22A14': 'A1667B9CB1022B92C85554797732F4AABE5',
+  '22CE8': '67C63A0B5EF3D1D527CE9FFC9510DEA08FD',
+  '22EBB': 'DEF9118D3BD43BF5D678D3B2E027338D711',
+  '22EBC': '7BC4F3A6655E4B3B048172EAC6547F44039',
+  '231CD': '19DB2E5E444A7ECA66054D00D4332E268FA',
+  '23236': 'D7475B2F1F5787EB2DA8A2E8AFD257F082E',
+  '232BA': 'BB0952422462C6AE902BA4E7A7FD1B35CC7',
+  '233B0': '7574F1DAC162DAFD408A04359D1A93C90F7',
+  '234C9': '4D78D710285B776DFBC6A66FA0FD1C1E2AC',
+  '23869': 'B733FCD6665832F65258AC650E6EC89A4A7',
+  '2394E': 'EAC9FC3DB56189A894E221220B6089E78D3',
+  '23C52': 'DF9C98BA74AE2E3BF80A0CDE887BA567DAC',
+  '23D42': 'F5F3F66498B2C8FF4C20B8C5AC826E47146',
+  '23F29': '16E01209D6282F226BE9677AFFAEC44A8D6',
+  '24615': 'D93D230FFAC17943498C1B4B5D6B8AF0E06',
+  '24851': '0136410798C784BA702DF249756AD286BE4',
+  '24890': '2131A732628AEF6E2872827DB10DF7C07BF',
+  '250E7': '7F12A5AB6972A0895D290C4792F0A326EA8',
+  '2535D': '9D4F185F32CBB8E80C645B010E697F415E2',
+  '2539D': '3DF1FCFA43CD1D5F5D55901F6718A10C595',
+  '25769': '6C131BE052B14D47A8C5442E0FB6324AFC1',
+  '25821': '409CA02C93B79222114DB29BA3362B44FFB',
+  '2583F': 'B4A7FF77DAA2AE761CC2E4D5CF7C3616CD3',
+  '25846': '5759831222D475216E3266E71E3567310DD',
+  '25922': '43C1246C50520B707782C7F0B4A3652066B',
+  '25A30': '4D8D391F528AAE3180980DB7CAA9BDB3B4D',
+  '25AFF': '7F4B1BB747833F5175789A1998B31CA4ED4',
+  '25C2C': '9AFDD83B8D34234AA2881CC341C09689AAA',
+  '25F49': 'D523BD4231A0F715BD490D57E4DDCFE4ECE',
+  '26023': 'FE19BBECD42366DAC4B4FB29E3C66EA2717',
+  '2625C': '5EC982EA29B03EA1117E2CF62622E8021E9',
+  '263D0': '0820F9F5E0ACC0274DA747E0A9B6868145E',
+  '264AE': 'B4A753EED9638FCE0EE61EEC7BAB9CB2C52',
+  '269A0': '3F47F0550E98664C4A542EA78A23B305A82',
+  '269AD': 'CB05003FE1E38A364CF0FF7E7B97CA6DF8E',
+  '269E8': 'D833C08DF07971164D6736F79698635902E',
+  '26F3C': 'D230E935F8BEF3596727F75448CB446120B',
+  '2707E': 'ED1588D48B06873FC929F26C5D4DE3449EC',
+  '2736F': 'AB291F04E69B62D490C3C09361F5B82461A',
+  '273A0': 'C7BD3C679BA9A6F5D99078E36E85D02B952',
+  '27606': '66E055262E99A57D0C1DA9D4098C0D24659',
+  '27765': '0B2C2AD384BDDDC7F2C51EC772F2F2AED19',
+  '277FF': '3BF30C1A4148C4BE17FEE9288DD2B0CB986',
+  '27838': '755DF34E336244B0060A42A84EA7D2BEEE0',
+  '27E72': 'DBA56CBC8AD7DC2FD00F42B2D369C44A02E',
+  '28342': 'E8CC628B4366DB11A89CBDD07C4B7F7FB78',
+  '28476': '2CB4151B016102311AF00F6AB735EC50F33',
+  '285CC': 'F96C1BE00B38B47B73E47C18B2F9246853B',
+  '285F5': '325A904F3A57F43BF55016BF9BC33373E17',
+  '28C07': 'D76D9E0D41314E5A7A243E0C721CFE4AAFB',
+  '28CB7': 'D92AAE6E14A3DEF1DCA1DB2D8599CA5AF89',
+  '28E97': '351FFE3E72CD9991DFB34B2EDE3E0E5106F',
+  '2942C': 'A8605012DB754A661870524716FF29CE0E9',
+  '2999D': '93BBA270BB599119C5FE62438D5F8548BF4',
+  '29DEF': 'BAB9929A94FD5A06F193DCB8BA716727A66',
+  '2A0F2': '9948934233D3375466ABF7C6E30F96A933C',
+  '2A388': '8165280961732662F818FBC2D6EBCD4CC86',
+  '2A3D5': 'AEBAB352B9CCFFB0E2AF6A78A45F16061BC',
+  '2AD1E': 'A09163185F96D9366B5B44B16186A423E41',
+  '2ADB6': '7614C799CA4CE58EDEC9323DAACA31A141C',
+  '2B59F': 'E1D11CF04BB15D3848CD4317EEBE7DD7814',
+  '2B5BF': '08902A9979F63AC333C4A658F8D66391EFA',
+  '2C386': '68688D4838D933FAE80854B926E7B61CF6A',
+  '2C490': 'B8E68B92E79CE344C25F3D87FC297D12346',
+  '2C4C3': '891E2AC6958E9810A1E49C6705784FBFA1A',
+  '2C5C9': 'FC3413973A25EF53CF622A47BF3EA1FC05A',
+  '2CB81': '691E1E102E02EA3FBF7B44A461C8C0E81DD',
+  '2CDA8': 'B73854064795B21BDF47FA9AE6BFC051B5C',
+  '2CDAE': '2F7B2226F2F8DEC688DD4894932FC07A755',
+  '2D27B': '62C597EC858F6E7B54E7E58525E6A95E6D8',
+  '2D9B7': 'A3CF465B0DBE74D992A8AE1443496C733B7',
+  '2DA87': '21C6010B87CFEF8B82BB43E11ED1152D424',
+  '2DCE8': 'F015650A9292E9ADDA42EBD15D7476D9792',
+  '2E5A4': 'CAF7768F4F913E4F790861713558A0FB811',
+  '2E7A1': 'AE421D688F6948A9CE39D41F5284DFAD761',
+  '2EC10': 'E4F7CD2159E7EA65D2454F68287ECF81251',
+  '2EFF3': 'E815DA6DB215C0246B73EADDC1513C688FF',
+  '2F060': '9FB5EEEC340ADE82D1B1B97FBB668267FD5',
+  '2F2BB': '917A7B0317ED404511AFA79514A2133DFD8',
+  '2F81A': '22DE0AF5E9EAB19326E19693F86CE612518',
+  '2F9F3': 'F4EADE3E68FE9340FACAD299344D73F1840',
+  '2FD18': '71D701A7C3CFB87E2193A9B0A94046696D4',
+  '2FE70': '59C1777AC23B74C5D60914B20AFB6C38821',
+  '2FEAC': 'F6C0F959D80AF1D378AC097AC57ECD823C2',
+  '306A7': '36E96516E483D94CB086677EC07BED11CE0',
+  '313AF': 'A5189C150B7B0F3E6D39E0FA223F88EC42B',
+  '31CDF': '061857A580C50E6BD275D324E987DEFCC33',
+  '31E80': '38FAA903FADAAFB7ABFBC0CA6C0430A5B94',
+  '31F7D': '72DB1EA20A71137C6A26FB72F121886E934',
+  '320BC': 'A71FC381A4A025636043CA86E734E31CF8B',
+  '3217A': 'BAAEAEDB4C1529924CC4906EAB655E4521B',
+  '3240B': 'A4D75993C506C36592D8B058E01FEFA5A13',
+  '32715': '6AB287C6AA52C8670E13163FC1BF660ADD4',
+  '32742': '725E064B67F586BFEF048D46F8F445E7586',
+  '329CB': '8B6BA8C427BE7C09B298295C655415C7AC9',
+  '32A44': 'ABB7A66E19EF716F60478E030165C233AEA',
+  '32B26': 'A271530F105CBC35CB653110E1A49D019B6',
+  '32C27': '3BB19E676D36490C4F7604A2F4DC5A03EB9',
+  '32CA9': 'FC1A0F5B6330E3F4C8C1BBECDE9BEDB9573',
+  '32D17': 'A8C55EC5FABCCA0F7486B732250E03BDCFA',
+  '3315D': 'CC284D8A746A7D6008B939B9B6C0B2CA8BC',
+  '33487': '1551C59A7BCD581D919FD3AF7F424DEA29C',
+  '33712': 'D62C7B46DBC49345B5C3E15F02871FF8EDA',
+  '33BE6': '323AB3A5BA63923565FBF614120EE58AC5A',
+  '33E2D': 'A0E79DE59DCF68B9A49D20C00404F0A29B1',
+  '342D1': 'C6F786A5BBAAA13FBEFBE2BD00B6CAA190E',
+  '34388': '6F13AFEA25B4ADD2E12819E4C12A000D861',
+  '343E7': '09C936449F53429BA82C29D6BB0957E64F7',
+  '34512': '0426285FF8B1D43653A4D078170B4761F75',
+  '350EC': 'EA6204AED505481786CE7A1ACBDFA59B6C0',
+  '3515E': '90CB77AD0A63CB145E449F4845214C81A1D',
+  '3559E': 'FC37C61A31AA9DA4F2E4ECD952192CD9DA0',
+  '35634': 'D744EF15FDD8122F1D42CCD5D3840D7F8FC',
+  '35675': 'E68F4B5AF7B995D9205AD0FC43842F16450',
+  '360E4': '6F15F432AF83C77017177A759ABA8A58519',
+  '361BA': '22C159F5C3194D103642C67444E4F7457E3',
+  '362E6': '1E75519EBD3A8A5837FC3B4695992EE386B',
+  '36335': '288C6D5C2EC2534BFC134E94938FBEC1165',
+  '36560': 'AD779EE915DECA80D41B9398E1CDF228222',
+  '36621': '88D503AF0CB9E352C202C4E7A1CF53005C8',
+  '36749': '51EC264A72168CB2D89A5F634E512F6629D',
+  '36810': 'ED90AA5DE17CBC1B471B999EC6B53B7C602',
+  '368B8': 'DA09E3EFD0B3C68F67E54F5DFD4D3F91CD7',
+  '36ABC': '61C95B4B4F2BF7568BA4A62386176AF46A0',
+  '36DA4': '6482340573194056BAC9A54CB3A7221E53B',
+  '36E61': '8512A68721F032470BB0891ADEF3362CFA9',
+  '36FCC': '4ED0FBD1B6EE842F5B02B7F2097735B2A07',
+  '37409': 'AB9FF8CB2C056ECA41EAE3ADD21258099D6',
+  '37424': '670501B3D4737F7E3569C98DE558F062725',
+  '375CF': '027592A1ACE20CCAD728B3D55B48001B17D',
+  '378F6': 'CDFB9397422CC9B8D39C2D9E329A95230B8',
+  '37A31': '43CC7C1286ADA397DB1F4E4F59021539FF9',
+  '382DA': 'EB5BA012A387EBA595A1FACA098F3F9EAD9',
+  '38583': '1F553A8705EDA882DFF82B4E92B854D371F',
+  '389DB': '5AA47221E72B8A38CD16866A59536217C81',
+  '38B96': 'DE8E2F48556F058B218CC5F55073FC68374',
+  '38DEE': '0B5A6D31B15701CD7B8A7FDB3E79374739B',
+  '38EED': 'CF3F2790D3298CF0AEED4E1F0C08722800C',
+  '3923E': '958BFF44229DD4A0B6339839ADC3CB837CE',
+  '3933E': '2A9826474A6CE063AAD3AFF3662C5AFF2B0',
+  '3943C': '34FBFC88262B0BB309A8D52CDBD765AC83C',
+  '39DAE': '90CB57EE40E14B013CFAECA9958C94E0FAF',
+  '39DFA': '55283318D31AFE5A3FF4A0E3253E2045E43',
+  '39E07': '0713590C7A7806E80DA4BDBAB8BC1D2DF47',
+  '3A012': 'E69B917EEBA40AAC2B694985A74655CCE53',
+  '3A325': 'A9D32FD22262CD91630D0157B9C5018697B',
+  '3A5DF': 'C97C81C57F88431F26785148400DF3FB4E9',
+  '3A7B0': 'E8CC4D1E2F411B267691EB59C2C6F44E4D3',
+  '3AA62': '65C74E0D6200ECED9EF173E8CDA7D63939A',
+  '3AADE': '02B0FE849E35B2B2D3E912DCBCDC4C2D537',
+  '3ACD0': 'BE86DE7DCCCDBF91B20F94A68CEA535922D',
+  '3ADFA': '26A428DF435D4CBC8436ADADB6E279D3407',
+  '3B0E2': '5126E7EFABA142EFD14D111D58E29507BCB',
+  '3B2CE': '6399CCA82A7263DBE0EB6AB031E3FB2FAA3',
+  '3B2FD': '5CC4C65247AFDDA8DC8993E9884D71F7086',
+  '3B89E': '460C151A49C6D44947E49C9218C0031A4EB',
+  '3C094': '3CC3623065D5B8E542028316228630E311C',
+  '3C4BD': '4D0D0D1E076CE617723EDD6A73AFC9126AB',
+  '3C529': 'FCD37879DA75A15601DC2D3878553081D93',
+  '3C5BF': '776F5EFCAA22D6E0FD4839DB7D2B83E52BE',
+  '3C7D5': '08EF2F2EB3FEBD5E6816ECC8DE5363DFFBA',
+  '3C8C3': '147C8CCB80A3C9FEB809DE975147D01C6BB',
+  '3D0A3': '6D183610080A148493D6B1CC35D7B70A2DD',
+  '3D0F3': 'B9DDCACEC30C4008C5E030E6C13A478CB4F',
+  '3D1F6': '8889F797B5C2E7FCD7D887B7F1C6DE1BE0F',
+  '3D4F2': 'BF07DC1BE38B20CD6E46949A1071F9D0E3D',
+  '3E1F9': '75601F59090DECC8F2D5CED72010162E48E',
+  '3E41F': '4A1B6B494EE97809A6F4DE4F9A0B2D0D29E',
+  '3E9BE': 'EB92E4D496758CD33D16B47997F5B9DFBDB',
+  '3F5DE': '61BCDBAC7A1D555635433E251B295194EFC',
+  '3F731': 'D1671EC807DE18A70E3CA5BD0E8EB33F655',
+  '3FAEE': 'EB934B14C2E1C4F571E348E808F6DE8A017',
+  '3FB37': '2A9023613ACE074B4E66ECC4360A00F03B4',
+  '3FCFC': '1F7F34E78A937E81171BA51DC39538DB993',
+  '3FE1D': '91B1450F6FF4E40BE6612FE3E2C187ECF4F',
+  '3FF6B': '4FF533C58298E6A6DDB745E6B8402C02D5E',
+  '4002D': '776DCA1A4A45D3C6FEE5003696E3AA67407',
+  '40123': 'E9C6273385EA69892C48C80AA6CB25B9113',
+  '40126': 'E8CAB69F83E9818D7271E3C537D3CFEE4F3',
+  '403E3': '5A2B0243D40400AF6BB358B5C546CDDD981',
+  '4068F': '0880B399410602D694B3CC711C8A8F4727E',
+  '40A78': '3F7585FA7ABEBF88551BFD54D5A4E820CD1',
+  '40D19': 'D8DAB1B8412E014D182B812C78C1725AE86',
+  '40D35': 'D55F267E36711ECB6DCA59DF4036A1DD556',
+  '40D52': '8303CFDAC107AA450317824527084FD435F',
+  '40E8F': 'DC1F8895FB2F4633657970B566DD50B6005',
+  '40FAC': '3BC5EBF5E74D0276057F4076A629430FB83',
+  '413DB': 'A2FD5D16167B7B7AA568DAB8DA38F3FE52E',
+  '414ED': 'FDB372EE81A798454D871FB6BE4A7FF35A4',
+  '41880': 'EE3438C878762E9A1A0FEC66BCC23DAC767',
+  '418DB': '1DF9DBC65423162D3BD0EA3C5DFB6DC858C',
+  '419B7': 'F4D45534E0ACCB55B20FD78CCD7B4CF62AE',
+  '41A66': '19FDBAEBBA7B498075D40277DBAAF060B1A',
+  '420FC': 'C63481AC21FDCA8F011608A9F8731609CFA',
+  '42331': '37D1C510F2E55BA5CB220B864B11033F156',
+  '425A2': '1A17986AB223C1D7FE8BD1E6B03FDB20066',
+  '42D1F': '9243114643C3B0DC2D3E5E86A94122D2306',
+  '42F0D': '9EAB863DA3810D07475E6AA69F7DBAAA09F',
+  '42FBB': '313AB49EA9F80D15F3DB3B39C721A76B6DA',
+  '43173': '39E5240CB4F8D9BB3B887992ACAD5F2EAAE',
+  '4330D': '3A09F7451A45098A837229100E87AEE6742',
+  '43347': '63D1BCC23DCE5D511D8AE81A5BBA62DFA31',
+  '43363': '2EA5CD64CD163C3A390D5E531D33DA3C5E5',
+  '435B4': '1068E8665513A20070C033B08B9C66E4332',
+  '43813': 'BC3F4CE647DBA423824AE0107DBA9DBC359',
+  '43979': '28489C92CFA437784B1C5AF5FB319703006',
+  '43A38': '27A134A1746DF4F083611A20EE47A1EF214',
+  '43BD2': '4ED59E33E81A7C441ED81944B5F2EAB7330',
+  '44213': 'F9F4D59B557314FADCD233232EEBCAC8012',
+  '4467E': '0C9EF71EA7B4BBB55D8489241ED0E33258B',
+  '44993': '8CD38C82BCDDC2B534548DDBE984ADB8EFC',
+  '44B5A': 'CF8A2E42CEACC55AF5AC828970653E456D1',
+  '44C0E': 'E6291C99E5D73D3BEEBA675D434E041DE19',
+  '44F75': '3F69896BF5E46591E73B6F024510837F9C4',
+  '44FF4': 'D4BB069CF787C73B5B6E9222410A44B275C',
+  '451E0': '33A801DDD8C06D48D5F157D9CDEB4D3FA56',
+  '4572A': '28310FAA0E584B27305907390BA0C6A5B6D',
+  '45AA4': '5081BF5337D323283C46658EC37CAE6B6E2',
+  '45ADB': 'C6607C0E9EC1DC2DB04022BD648E3573375',
+  '46147': '6587780AA9FA5611EA6DC3912C146A91760',
+  '4614F': '1F2A506ABF9DB93516256B67962FAEA25E7',
+  '465F7': '49D60513E51FE9FA610FE161E35E2E33AEB',
+  '46754': '5B571CFBAFADF45A356DE6BA261861C062D',
+  '46C65': '51C7C2DD74129961BE80650103C2BABC605',
+  '46C9E': 'A2899F66D8FE46D14AE30ECF4C681095F6D',
+  '46E44': '4A8ED9F5E91739255CFE907C55A24795654',
+  '4731F': 'ECB3A32180A724B66B85CDE69BA81E605BF',
+  '473C2': 'D0D0950352C9927B3EADD71015C390478CB',
+  '47456': 'CC868F5920BB1E358C1D5C14C320C529ACF',
+  '474BA': '67BDB289C6263B36DFD8A7BED6C85B04943',
+  '475A7': '4E3C0C82094CAE9BDC8E0DD34FFC78770FB',
+  '48033': '1B9DE42319CE9C6F68512F2F0176AD90E6F',
+  '48058': 'E0C99BF7D689CE71C360699A14CE2F99774',
+  '48EFC': '4851E15940AF5D477D3C0CE99211A70A3BE',
+  '49372': 'FB42323706730BA1574621FDDAC62D18BF8',
+  '49377': 'C77E7264443438C1AC04C71B9CFCA81FC0F',
+  '493E7': '3ADF2066D2CD69B51F04664FDD66AAE0578',
+  '49455': '9CA59368D9B044021BCC5546ADB2C47A599',
+  '49617': 'B5A91D3E05CBE1C8B31136D41625C2054E0',
+  '49842': '6F347C71AC388341F6F89C285F2C4344243',
+  '498C3': '3148E6F2ED50ED38085A84B663C6F7C2174',
+  '49EFE': 'F5F70D47ADC2DB2EB397FBEF5F7BC560E29',
+  '49F93': '19F1ABE944EEB960C171B25C8607CD5E045',
+  '4A9C4': '9EF435279E0B9F529B284B665D0F709EF93',
+  '4AA52': '91C1375C545E316166D6E50BE4EEF82EC9D',
+  '4AF15': '53F645E1FA0191D98869093B084AD148CD5',
+  '4B067': '7CA1FC8BC7F5BD5B3581AEC09A4C3D31A30',
+  '4B4B0': '4529D87B5C318702BC1D7689F70B15EF4FC',
+  '4B9D9': '42ED7081C5623D79C4C47F1787ADACCC980',
+  '4BD0E': 'C65B8F729D265FAEBA6FA933846D7C2D687',
+  '4BE04': 'E36BD7FFFD21F4C29B531B34D8C4D5599C0',
+  '4BE30': 'D9814C6D4E9800E0D2EA9EC9FB00EFA887B',
+  '4C122': '66945456932358272E9C32D591AEAC32417',
+  '4C474': 'D9E03E5523EA83C4C4FABD1D0E5AF77D648',
+  '4C57F': '0C88D9844630327623633CE269CF826AB99',
+  '4C633': '2CEAE142819E24F063977A8E7A1F8A2D7BE',
+  '4C808': 'EEB042245DB0721F7514927F18B716B01D2',
+  '4CAC8': '4333472FA5FB31615EB1258FE9449ABCC0C',
+  '4CE9A': '6DB823A03F1F7B8F2CC02A28590F7CD9ABD',
+  '4CF5B': 'C59BEE9E1C44C6254B5F84E7F066BD8E5FE',
+  '4D0FB': '475B242228032CBDF6D53924D2538DF037B',
+  '4D110': '0DE62F72055AAA55D75997E872F0749CAB3',
+  '4D420': 'DBB3B8F16BA9CFFE8706830A199C53FC8E7',
+  '4D64F': '9F0C155B92EDBCCCA7633A209A152E244D7',
+  '4D8F3': '5E9AE9055A743132BC726720C4E8E1D0B1C',
+  '4D901': '2B4A77A9524D675DAD27C3276AB5705E5E8',
+  '4DE42': '3D8B9724F54D7564E0F9788A242F7F16CB3',
+  '4E5A2': '893BDCC7D239C1DB72E4C4FFBE4BEA73174',
+  '4E6E4': '422376BB0EA9CA090C43D5F21363815C84B',
+  '4E79C': 'A505DF8EFD550AD13B3CB6ADD3EB1659E95',
+  '4E7AF': 'EBCFBAE000B22C7C85E5560F89A2A0280B4',
+  '4E883': 'EA0CD5B5A5AF1267F695B94E08E5FEA7148',
+  '4E975': '4CCE44880399CD08350419CFDD70D1F1B7A',
+  '4EA7E': '5BE4CEE27D684F9464943716F824FB7AAF2',
+  '4F21C': 'D05B43CB2305765B1D9B6CCA2584CB71462',
+  '4F26A': 'EAFDB2367620A393C973EDDBE8F8B846EBD',
+  '4F4E0': '5F1322B25B68ADD643EEAC9BDA0716E0242',
+  '4F903': 'C1676F100C70A8496E6D684BB1C08395C95',
+  '4FA0F': '9599D9ABCB6ABE34CC674AE7C874E91182A',
+  '5001A': '0F03EE7BC90603F22D17E6EB7DFE60522A8',
+  '50117': 'EC46BDA01CA6233B8D167B105C39A6B2690',
+  '502C9': '0C7A2E23BC401C6FCA86CDD35FE7299A584',
+  '50301': '2DC006C87DD7504EA100C1147AB45FF4C73',
+  '50707': '197F5CD6F1F54BD7C5FACEE716611777661',
+  '5089C': '85CCF5F86430FF2DF9F5FEA88EEDCAA659D',
+  '50BC2': 'DA29FA9EAA7B60BCF7DBB42E06AD7B981DA',
+  '5116E': '40694AC48F654CB7B6816177E0E717237C6',
+  '512CD': '8FB30F79B4C4DA5E8E852F88E1A1863C28B',
+  '51665': '5509BC73F97261D396FA9B8D8CF28EAB4F3',
+  '51833': '174746EA4BB73EAF2AA216A229CAE201899',
+  '519BC': '3F0FDA96312357E1409DE278BFF4D5F5B25',
+  '51DCD': '8FE3F76CC005A6DB3F6B57645EC44FC4DEC',
+  '51EC0': '714B63DB58C77111F4BED49D803D57DAD3C',
+  '52727': '63A1AC994D5D04B2AD070463BCAEBACD57B',
+  '52865': '0E18C41F098330FEA45EF1EAB27300AF38E',
+  '528B7': '74689613284428F7B95FE62929070437243',
+  '52AB6': '4D3046E9CF66B7DED2B2B8FB123F70B8F2F',
+  '52EAD': '56469195282972C974FECED33A739E4E84B',
+  '52F4C': '1297F2C8AAFED43A3876E9A5A94AF595108',
+  '53374': '04F3BF8586FDA4CA5098667D710BE18B01B',
+  '53EBB': '3F78995D7F8A800E3FE3A5165EEB1206EB8',
+  '5403C': 'C650467560BFC1EA66B07CE455DC7C2F6EF',
+  '54577': 'DB29EFF8092D8F0240CD9EA718E1B776E1C',
+  '54669': '547A225FF20CBA8B75A4ADCA540EEF25858',
+  '5479F': '2FA49524ADACFF538D1CB23DF73200D0EC6',
+  '5493E': '85B425A147F21235E2F7388C336848AC571',
+  '549C6': 'CA8A52F36B331223B662798B56A8AFF8DD7',
+  '54C3A': '40B3F5B3B05E31A13E097E14C963A834A37',
+  '5525B': '0F40C9A692F5DB0024C16F503A1E270BF6A',
+  '553FF': '5A61ADADA6530DDFBEF9B0ADF36E6147DC0',
+  '555F9': 'CA96BE8E9B7D2C41C367A7258ACE18D34B5',
+  '55885': '8E7CF1D273E843F12C594610319A3C1C0F6',
+  '55B5A': '0F748D3A82DCE10B205ECB0A0D8916C66A1',
+  '55E32': 'DCF2CBADE2043E298F715EDF1E4C815F225',
+  '55FBF': 'AB5E2A491F9851CFF107B9DD03A9256D5EA',
+  '56012': '7B7727713BC29AF93FCF76426E3B425AD88',
+  '560F5': '9530D36803DA6CBBD922EFA19F65BC29A5B',
+  '562A1': '9FC123452CA4B12BC10C418845ACA3D9B0E',
+  '5645C': '12093CB8080A4928992A25E98E552D7AF2D',
+  '567E5': '2658488B9C7647E50C9B097170A7ADB184A',
+  '56853': '55206E23BC8412EE9745B5E415CF4687836',
+  '56B8E': 'BF4C34B195E0A9A877991720B6B52DDD22D',
+  '56CCC': '825B47CA4CEB362ED9A9AE09518E75D9BE6',
+  '56D9F': 'E5A92C9E0D78D9593270B4A19EF1E1FE625',
+  '56FB9': '292646F5C77C95B9A5394F45086FC2EFCAF',
+  '57427': '050EDF2080E7CC5EEDB2C61C92D15BA1310',
+  '57B2A': 'D99044D337197C0C39FD3823568FF81E48A',
+  '57C12': 'C63ABA880BD4471402B6FF608F01163D365',
+  '580C3': 'C20A3805080E622BD5C0931339D4FC80FCC',
+  '58A19': 'F4D1A004D07FD0B557CDC1C167266B62D5A',
+  '58A37': 'CF13FAAED3B81B3A1FCE4872824EB4E57C4',
+  '58BC4': '22D24833653F48010A627020FD37F37BE88',
+  '59033': '478180D07080D5E4F3BAA0099996C364162',
+  '59337': 'B802AAF92EE24A1F6FAC2C3D06D2FD271DF',
+  '59342': 'D5B7BF60AA2B340E9374A0C2BE51FC27828',
+  '59400': '4DA65507A34D202BA7F940227A33091A050',
+  '597C7': '43C47D956C6E6B05896689151EFA5D1FCB9',
+  '59982': 'C02BC1E6ABA1AE8FB4BFDFD09B0D7E8D1B9',
+  '59C82': '6FC854197CBD4D1083BCE8FC00D0761E8B3',
+  '59DE4': '93B1764778E894E69DA3A5A4AACAD7436B8',
+  '5A131': '84F4D4DFD3ED8624B2E3FD2ED441DD303DE',
+  '5A2AE': '0F1FF25A922E062F113D6734E27382F5235',
+  '5A3D3': 'CC5AEF05B0B668E75892478DDAA9055BE8C',
+  '5A46B': '8253D07320A14CACE9B4DCBF80F93DCEF04',
+  '5A4F2': '6B21EBC770C5837D49E7C35574B29654610',
+  '5A762': 'E33B9CCDBD60F2122E554E2A5E038F0260A',
+  '5AB79': '1471E089DDF4DC1428DAF17F456A9E97A04',
+  '5AD90': '56C83D9F898BD088185580072F2E9CA29EA',
+  '5B658': '3D6C1C24F39D6619DE50BF8AE0ED066BED3',
+  '5BAA6': '1E4C9B93F3F0682250B6CF8331B7EE68FD8',
+  '5BADC': '99B797D7FD464CA0CD6C4C2B591EE441F9E',
+  '5BC18': '24930FFBBAFC27E7EB204260A4017859A35',
+  '5BDCD': '3C0D4D24AE3E71B3B452A024C6324C7E4BB',
+  '5BE4B': 'B312DDAA7E8E235E4E29C45DA22BCAF6713',
+  '5BF1C': 'FA0B08AF3919A06124AA18060CE279DB496',
+  '5BF43': '56643C04986242FDA5FAE20D82B5FB397A8',
+  '5BFD0': '8BDAC5988B8C1D14A86BF8AB736DB159E9F',
+  '5C043': '1D02425A51CBE5C5086D1D9768330ABE480',
+  '5C171': '986AA6D5EBCA3EC509DCC8B7C926C3C5E62',
+  '5C17F': 'A03E6D5FC247565E1CD8FFA70E1BFE5B8D9',
+  '5C3A3': '5EF85F22D508F90171BDCB2E6D820731D20',
+  '5C6AC': 'A6504E010FC38BDBF9B940CAA1D463407CF',
+  '5C6D9': 'EDC3A951CDA763F650235CFC41A3FC23FE8',
+  '5C7A5': 'D92C10067EBC5F0D002EDE83F3559C6ADF8',
+  '5C8C6': '004E92FCC11DFA2A3C3D0E1DDAEFC396ACE',
+  '5C968': '8A59F3FCBFDBFEEA06378A76AF06A09AA95',
+  '5C995': 'BBB81B028B869EE4EA7C44BB1A9EA6152BC',
+  '5C9C8': '3E88251DC90288910218600B691A446F31E',
+  '5CA16': '8E44EA0F056FA0C42850FA54767E0C1F997',
+  '5CA7F': 'F5C326D0B4F9BAD55EF25D05A445C76CCF6',
+  '5CEC1': '75B165E3D5E62C9E13CE848EF6FEAC81BFF',
+  '5D0CB': 'E136F82F4E5DA55217B3BE821E360529C09',
+  '5D3BB': 'A5BE89786D0EC49A38474F86F7A84B5F30C',
+  '5D3E9': 'E374D116701B78CF2FAED79EC01A4C610B2',
+  '5D70C': '3D101EFD9CC0A69F4DF2DDF33B21E641F6A',
+  '5D74A': 'E093A16A00E5AF127763F2DC7E13988F162',
+  '5D78A': '7D8C021536A4B8507A7B6F87CF4CA3303A4',
+  '5D7F8': '734DD61F13941D6607885DBE30BE9A4D26C',
+  '5DA4E': 'C0D8E254021897B8BA28DF8ECB57522C0AF',
+  '5DA58': '96BCFD60F87E3D921CF5358517D47AABD25',
+  '5E683': 'A84B61B387A47C4AC12C52F4ADC2F35DCB5',
+  '5E90F': '5A97C0BA2BDE1D30ACFA4EED00F3084F2E5',
+  '5EDD5': '48CB2A1ADBD533E0AA5FF65E111D033B6DF',
+  '5EEA6': 'C1BA9CC1736BF5B92526E2FD3E6A18AACE6',
+  '5F079': '981221CE504832142E9526B623BBFB6E686',
+  '5F127': '75C25F065015EDEBE10B5C2DF7E5287A084',
+  '5F50A': '84C1FA3BCFF146405017F36AEC1A10A9E38',
+  '5F802': '11CCB43CD491C4E2FFBBDA4C7F6BA0FF604',
+  '5FA33': '9BBBB1EEACED3B52E54F44576AAF0D77D96',
+  '5FEE0': '0239940F883D4C2854E41C7F989E75278A3',
+  '5FFCB': '835CFA88A7BFC6F709BECE6B14EB16A6ED3',
+  '601F1': '889667EFAEBB33B8C12572835DA3F027F78',
+  '60327': '11B48CA3827BD2F020A8555F3730D7B86FF',
+  '60518': '3A0EEAEDC675938D85DD4FFD2D801AEA7F0',
+  '6051C': '171AAEB1F816E9913300AEFA22D55D09197',
+  '6061D': '73281DFD73B86EED0C518A6EB4D6E7D41CF',
+  '6092A': '032351D76D6AACE89D4467BAC17E09B52CE',
+  '6092D': '02801264DEE66E87B105C355FD07A1F4B45',
+  '609B0': 'ABE4CA49B93E146A8FD0EA95C748B997900',
+  '60E42': 'FD94A4A036C6C106CC02CDEDC2A710495BC',
+  '6157A': '04ED2C5842835DB1E0D4CFD6F83147170EA',
+  '615D6': '7C9E875B7D0B56272F2AD3655F307F7FB4F',
+  '61DE3': '19CB1C7C3D53435FDF8CE8442931C2130FE',
+  '61ED0': '26872A4C5DE9FD2121E907A0D4563B5F2B5',
+  '620D0': '305C26AE0BFDBB3EDDDBC1949BC9647ECCA',
+  '623E2': '1AF12A285DE504E650F33DBEDEA7B58FB97',
+  '624C2': '2A8C8F8C93F18FE5ECD4713100C8D754507',
+  '626F9': '90409CFA2EF3500C27E7E020D8BECE9B0DC',
+  '627AF': '9D02D78F3C15543046223D6A77225FE162D',
+  '62A56': 'A64C1489FBE3BAD6983401EF58E0CC26B41',
+  '62B48': '7BC84825B3DF028A932F082526E195EEFF2',
+  '62F15': '7898406F9CB23F3A738981C9B10FC916882',
+  '6367C': '48DD193D56EA7B0BAAD25B19455E529F5EE',
+  '6389D': '0B146F1204C3AA01F2FAA927434FCA92C21',
+  '639D8': '4D872414D3CD1ECCFC71A59AC416CC0DE44',
+  '63B10': '7BA3754C51AA59834C4C329F8058022C367',
+  '63C1B': 'DC371ABF1793BC02A5F97798EAFC2826EBE',
+  '63CCD': '3EC0C221BAFD1EC0C7F3799B06230B7AD85',
+  '63FC8': '800627A4D2A04B020B25E0B39F8A02D389C',
+  '6409C': '0D21DB428E7F765FFF95E68CE34B1D5EF3A',
+  '640FB': '06193D8F2177C0FBF84F172DC686D33DD00',
+  '64111': '1978A46E7424A74C6A8B23F4B145A0E9440',
+  '641BA': '69824E960E473140E9E1F221A300B8D9987',
+  '6420E': 'D4D831B436D1E92D25605D18297296374E3',
+  '64356': 'BCFAE350C970263C1CE575185B289F7B836',
+  '64438': 'EE426438161DA88554B3E2DE796B0CA265E',
+  '64A94': '7B13F3AA5242D0E234F7B3A4DE1E9E804D6',
+  '64C1A': '55C1AF56BC31D1E1480390737678577EF10',
+  '65328': 'DC87567AA3C412FDBD5B59D40DBF121579B',
+  '6552B': '7A2CCFD79098211030CD3A57F0A28DBFA3F',
+  '65640': 'C6577C9C72497525E656127B5BD1DEB6F85',
+  '65991': '612461058ACB9E5E9EC7574CD8E43110F86',
+  '65B3D': 'D225FE19C6A9EC4383161EA00FE0F161157',
+  '65C26': 'B6AFB3A1C8A2F14944E8D8B2F2534563E2D',
+  '65DE5': '41BCD745C515CF10177916C7D594BA4B105',
+  '66045': 'EC31C4407C22AF289F1E049DC46F1BB8928',
+  '6632D': 'C3491F6C37142B72276E85A851D1E558D40',
+  '66481': '9D8C5343676C9225B5ED00A5CDC6F3A1FF3',
+  '664EB': '62AD1F94CA3037D2CFF931876695A9FD8DD',
+  '66587': 'E3CD73C1CB3C25A73F4E949A8A55C15B167',
+  '66764': '1B92CEAE6BD7443B8F8C9DEB1DF46A3E78C',
+  '667E8': '207C1602F8C5C3CE58D3CD9C78495E74673',
+  '66C06': 'C11D179E39C42E5E800F99B57865822CF68',
+  '66EAB': 'D25121CA91DACBEEDAF272A856B47363375',
+  '67402': '7E17B0ED64E76CDE2005CB8E76FB4CD671A',
+  '67483': 'A83877BF5817745A9612A8409BA7D2D7CFC',
+  '675DC': '611BAFB0B7348DD3BAF7E005B6916FB954D',
+  '67AA2': '19007019C598B832621DB4567F54025F1F5',
+  '67B5F': 'A48F92CE8525701F324D6DFED859C20B64F',
+  '67C8E': 'FA46828CD323E1973D01C9B257C96191B91',
+  '68302': '3CE09177D731EEB0255AFB006244925F45F',
+  '6855C': 'CF532673A1F6603569CEA71F03B09A66357',
+  '685F8': '66635D33874F892E058708BD057E371C232',
+  '68683': '41E33BE9A7E61B6FBD0FC02D010863D6C71',
+  '6873D': '496A8E863AECFCAEFB52FCBA1D589680B52',
+  '68847': 'E1A89BABBFB83625057BDD48FEDC9D0D288',
+  '68E27': '347D27726E7687736417D080E764566B0A9',
+  '6900B': '11FDC9284C6E55C69E853315ADCFD3373D0',
+  '690D9': 'C990D106A0560965A47F123304ADB22B2C4',
+  '691AB': '698A43FD6443F845CCD2B7F8F1607A14AEE',
+  '6921D': 'E228CF7579FD1BEC50C2A5127D439FE0ADA',
+  '69342': 'C5C39E5AE5F0077AECC32C0F81811FB8193',
+  '695DB': 'E6EAAF2A03FE2A5F7F0472A19B45AD791DC',
+  '69861': 'DF5367AF4E978D8EAFCE7B12A55DD19666D',
+  '69895': '8B5E6A47ED97D9A286BD335102A7E470C14',
+  '69A87': '53A839DEB275AED2B0D3B72E53A964A1698',
+  '69D97': 'C5797DC7D211AAA4E9229DB5C8466D4EDEF',
+  '6A0FB': '500E116F40F9BDE39724526A40AC4B8A143',
+  '6AEAB': '6E5D37CC0937ACEC6D223A1DE24FE6469AA',
+  '6B055': 'C266F275E64A4688D2B4E09F4996434EA76',
+  '6B283': 'BB060C269432D08AC33B47A337C0A40035D',
+  '6B44A': 'E3D0EF388BDCCF15D799DF466E4F0D8DEAE',
+  '6BB53': 'C5AA217B37A18FCB1E262069A6AF9F46063',
+  '6BF3C': '472C1EE289ACC8517B4F1552A98481CC94D',
+  '6C18D': 'CDD642F3E237FDDFA5297CD9F3103DD731D',
+  '6C3A7': '2EAF6235DFA967F2BBA4DFC3E431C3E1180',
+  '6C489': '23EA0DF6A08B012196764FF638FE37F82BB',
+  '6C569': 'F974364FDA27F959CA35A5AEF4632CEBA79',
+  '6C616': 'F7C2D2FDE9018A09F06EAEFCFC7582BC7BA',
+  '6C63F': '32F941AD990833CDD4E9A0C1A13931D39E3',
+  '6C7CA': '345F63F835CB353FF15BD6C5E052EC08E7A',
+  '6D0EB': 'BBDCE32474DB8141D23D2C01BD9628D6E5F',
+  '6D448': 'A45EBEAE31DB2081CDF3E33DF2C1A48FF10',
+  '6D6BB': 'A156ADEC20F5054737C532B1BC5A96500ED',
+  '6DBBF': 'E7342B0FEB38861C05C765E9C7586A60A12',
+  '6DE08': '97ED88488DA942134AAF55CADE4B454C7A9',
+  '6DE8B': '6D271CB152AC7D92B21A7A6222644D7CFA0',
+  '6DED7': 'A9B117CEE9279CC2C1B5045837FD9163971',
+  '6E039': 'C90EE25D8C0AB16461542068250CA45617D',
+  '6E112': '6F61663FAB8BC4BF7C73BF53613143E802F',
+  '6E134': '6A04A591554261B7C2ABE40686EB27A7FF9',
+  '6E1A4': '38CFE5A6C9E2165665F8C2258849CCC43F0',
+  '6E2F9': 'E6111E77EDD0C446EA7A84E25323D137A61',
+  '6E5B0': '46DDD50AEDB244BA107F458424919DCDEC4',
+  '6E891': '02E02F3917F0BB893AD8FD7294236D4D2ED',
+  '6E899': 'C1108B88E75D4887B85F9A62C26D9571739',
+  '6EA03': '0055D37DF442D7989640C01ABB6398465D4',
+  '6EA16': '4759ADCCDF0B63C3E6A8A52792691F4C37B',
+  '6EACE': 'FF00A0EACCAFAE7F9ABB80492757107F121',
+  '6ED71': '7D1B80335D6466B13A14E987439CC511C88',
+  '6EEDF': '590C54D31F31AA623EA227B8A94F9813E76',
+  '6EF6F': 'A148B6B5F1A987EC772F487E87F75657884',
+  '6F2A8': 'EABC40D380FE01B2724CFABD19B9650A042',
+  '6F2CB': '98B6049839FF7E2FBB2B29A66346E9155B8',
+  '6F433': 'E5D53AD6DBD22659E9B94B211C0FF82627A',
+  '6F77F': 'FB16C2837DCED774AAE4CEA2455C08F7608',
+  '6FCD0': '2555CF0B70D62F0443891A66A3E52998841',
+  '701B3': '89B848A2B1CFAB867093101D8D5AC56ADDD',
+  '70631': '002DB2ED7E3076178833D51499C2067D791',
+  '7073D': '0FAB1EA36CD0C0F1F603A2A5E44B931B31C',
+  '709BC': 'DEB6D45C4BCA43F74FD04DA3A14E16CD4C8',
+  '70C0E': '3327B19390DC21FDC36F189D49E9B0B69D3',
+  '70CCD': '9007338D6D81DD3B6271621B9CF9A97EA00',
+  '7110E': 'DA4D09E062AA5E4A390B0A572AC0D2C0220',
+  '711C7': '3F64AFDCE07B7E38039A96D2224209E9A6C',
+  '7120D': 'CABA8373B3E0461BD34CA5977C8ED8A9749',
+  '71486': '86369B144C8E4147A0C9BA3E45FECEFD6B3',
+  '716B2': 'BEA9A4C5750636A5A441DAA886212A8E72D',
+  '718AA': '9C126A9B8FF916D265F76A43193202D1ED2',
+  '71A4A': 'C9EC0455CD5317E372465C9A5F7104D4D35',
+  '71B21': '161FFA1E6516BCC072AAF5EF38CBE85B511',
+  '7212A': '9E01329EA93A57F574BD9BF77695D5FDCA4',
+  '721D6': '5122734734800A1EDD6E68C03210E7B2ACA',
+  '723B2': '99D08488ED14302AFE66FA16ABA8E11B181',
+  '72406': '3273CCF9697632C18923DAEF876A3BE832F',
+  '72550': '102873A228455F73C48A71E6C33C2FF17C1',
+  '726C7': '3B32C002CCA15840B4AF6E7203052B3799B',
+  '7288E': 'DD0FC3FFCBE93A0CF06E3568E28521687BC',
+  '7346A': '84E2A9CF8C909C453E35B72866CD5237DEE',
+  '737E1': 'F676F01983854BBB1BB0845A0B0166206F9',
+  '73C3F': '9DE21E774701CE7423BD9BC3439C28C0E1A',
+  '73E9C': '3FE5A9281823D7E52F6EADE405957BC7FE1',
+  '73F9F': '5E946C4A04F3903D552DD284ECBC3923770',
+  '74433': 'A68AEC8DC3226B93A251B0F56E6BA9A5CCF',
+  '746A6': 'DDE920B9AC6609F2D3FEB2D83BD96F32C6D',
+  '74A87': '1ACBF060DDA5FC7260D05A5924A34E4C0E7',
+  '74B65': '45280B682640E97179188B6AD60CE6FFFC4',
+  '74C9E': '0B9B908836011FDFAE7B5DF5E5B985F0E09',
+  '7505D': '64A54E061B7ACD54CCD58B49DC43500B635',
+  '750A5': '974A42D787EA737308EDA09EF53AFC19BB5',
+  '75755': '159787C3FA02A18C053C63363B64C684201',
+  '7579C': 'ABFB745A83367CC353A4532122D2632854F',
+  '75926': 'E6645F9F642924BA4D9543A6046BD7F2265',
+  '75A0A': '1C981FEA69A013811B3091B66D8E1457FC6',
+  '75A53': '22CD9B87E602F1AE45283283740FC760C34',
+  '76794': '486D399AB26168D9C777E34BE553AEA6816',
+  '76DB1': 'F5E016B5C44D7675DFF9C4E5E2D0DE75832',
+  '76E03': 'AA06C9C190E08B5C726DD00669DAE9B89C8',
+  '76FF0': 'B67E8C09762A47838F7E55DB3A4581CCA25',
+  '76FFA': '50BCE83F29ABD354DB8E7C962CE36099EA7',
+  '77031': '040600BBCE3B41836B89F1BA4D7A853DCDE',
+  '7716C': 'F464DF36317F9DCA6127403BA629C73A04B',
+  '772F3': 'CF53BAD5B74500DF467D09FA87C85408793',
+  '77544': '0A2B268C2F58A9A61B10CC10125703B3015',
+  '775BB': '961B81DA1CA49217A48E533C832C337154A',
+  '77BCE': '9FB18F977EA576BBCD143B2B521073F0CD6',
+  '77E90': '6F77706AF5DC1A322435C4CC134D073A08D',
+  '77F77': 'DD74E1E8113ACE6522F1525DACC38DBD438',
+  '78296': '0EA4908A4747A19C975CA6057C9414C5A2F',
+  '782F9': 'B10621E362D5BD0DEF3A279B5E0908C9EBB',
+  '7848C': '0CCB24B56C2FDF911BDA1F6AC09EC5D0530',
+  '78A95': 'BE988AB05EAA8767E3E2D96A60F54CC5946',
+  '78C1C': 'FA2560D5FBB63D8C429887BAECF80F10624',
+  '78C87': 'B0ED4DE64F81776A289F8CCEFE1D477EE01',
+  '78CB3': '62DA1277CE687A5407CD4966338BC73CB99',
+  '78DDC': '1F9035632BFCDDDBF87846372FD17159C65',
+  '78F38': '42F0201C993FEC13905F2FF9EC3FDD39056',
+  '79271': '51CDBA00F8DBD6669E698F6F1B2FD8EB8E3',
+  '79743': 'B700E5F4AEDEC55EA66B53C26A915F7CEF2',
+  '79937': '8614E48AFE52607E0D9FF4F96B12240AC3A',
+  '79971': '03654B2DF09A583AF46DB8C9FB85494DE11',
+  '79B33': '3C96EC99512A3BF72653B23C7ED8A52DC42',
+  '79C5A': 'F4AF921770DE629194A7689D771B13E4F37',
+  '79C5D': 'FD002804840ACEAADE5D1CBE51BFF5E60C2',
+  '7A199': '4999D181DEEA68E4304B3346E78F838ECB7',
+  '7A22D': '73D336ABD6281D4DD71080220A230CB79DE',
+  '7AB51': '5D12BD2CF431745511AC4EE13FED15AB578',
+  '7ABBF': '5E1331F67A70B3231893BAEA54246C01FDC',
+  '7AC82': '7BB2B0DF36AECC570DEA5C3E7D6D225AFCC',
+  '7AF2D': '10B73AB7CD8F603937F7697CB5FE432C7FF',
+  '7AFAA': '0A74C41394C7122FE61723DDC365F322A55',
+  '7B218': '48AC9AF35BE0DDB2D6B9FC3851934DB8420',
+  '7B2E4': 'BDD3781BB5570DA307280EC429372AF3424',
+  '7B340': '158B1D85CD7DD7DC481901A697572C3FAC6',
+  '7B5C9': 'D5B026FB3476D8B93C82BD37206C16DAD36',
+  '7B6A2': 'FD0E6692CA40EAEA17F54F43A2AF0EC31CA',
+  '7B92A': '368929B6D9255B1488125538D567FB4C975',
+  '7BB88': '1F925C3700218B1323B25AC74AF0F097AE5',
+  '7BD3F': '297BBFD4359FF740509B2EA2B1CA733EB35',
+  '7C222': 'FB2927D828AF22F592134E8932480637C0D',
+  '7C356': 'FF9A3B9C47E66E303EF546DA666BAD40771',
+  '7C464': '700D98E66E5DEB0D2F4CE50896D24B4D30F',
+  '7C4A8': 'D09CA3762AF61E59520943DC26494F8941B',
+  '7C6A6': '1C68EF8B9B6B061B28C348BC1ED7921CB53',
+  '7C92F': 'C5CF65F2BA5A464FB79FF7952D9CECDDA49',
+  '7CC91': '8F959308C71F292F9308E7A748ADF4D1434',
+  '7D58B': '02D76C7801B54C221566AA6995788605535',
+  '7DCF6': 'A8A5B1C42F03FB6C8664CF7961C3AEBDF2B',
+  '7DDFA': 'E762B0E3B67B6C7D017022C3C2E5F016860',
+  '7DE2E': '017BF2971FB07B8E7AB1781550086247A1A',
+  '7DE78': '14799309E281CD0EB2814D8C8D717A70B0C',
+  '7DF43': 'F59DF7AA6099889CBC24388333AC14AC693',
+  '7E063': 'A2577C0372E2FD959F3DC831240498076B5',
+  '7E57F': '9D7F735A87EE67F1BD0F95CFDAD163D8846',
+  '7E8B0': 'A3433F1210A9699D85420E363A1B162ECAC',
+  '7E90B': 'D2EF8D411F30185560FD5C4EBC23471D678',
+  '7E9FD': 'B77BE21D8F9D2F0AF859E329C8AD69EA1E9',
+  '7EA35': 'D812706D9213868749011AF1ED4FA2F6AA0',
+  '7EB3E': 'C264E63186678B54E645AAB6EDFEE9A0AEE',
+  '7ECFD': '8F97B4729C6FF0799B0B4D40F870083B461',
+  '7ED83': '4F73CC3C84C202A29E1FE8DCC1A1C9E3C51',
+  '7EDA7': '7675FEE6B6DCCBD9CD01587B9BCAF74E7FA',
+  '7EE73': 'D7CA2EF77EA6C5ABE99A716E2B2FF4B770D',
+  '7F087': '1085CB3A34C4B02428E49B07CD77E0231F4',
+  '7F2BE': '99D71F38FEEF79D926C8F8FFA7A41C7D7DC',
+  '7F586': '0E92E29B887AD27C9A099785ACCE6FED5A5',
+  '7F68D': 'F52EE3B37147744C7252AF7909488688AE3',
+  '805DE': '934491913EC95BA047D30F2D2C09859D38D',
+  '80DBE': 'EBC13444C65280B96BD304BB29282754D99',
+  '80DE5': '2295F684242B2E53176A6DF7DB83C15435B',
+  '81025': 'EBC56F6E9778DA2CBA9EDAF236A076ABF53',
+  '814FF': '90C56A74B5E2BB48CD240331867A95357E1',
+  '81513': '25DCDBAE9E0FF95F9F9658432DBEDFDB209',
+  '8162A': 'BAD9E369A4FC8CAC413285669E61761C1DF',
+  '8165C': '82EFF69D84781CD1B0494719C702126E25B',
+  '81A68': 'A1BDFB1C2C316C6A6162A576165E2AA8E2E',
+  '81BF5': '48936C02343230C3C2AE1F0CABAE815249E',
+  '81E2C': '821441E756326097E8793C5241B5FFA8780',
+  '827CB': '10F57DE66855A64553B22289C957CA2A437',
+  '82A40': '9F3109F6231CCC7E0F7A128150CAD6099C2',
+  '82B1B': 'CAB1DC1D5FBA22D012ABBDA57CA91D5EA27',
+  '82E64': 'BAE4D065CF469D7F96EF7E77FC3803DAEC4',
+  '833F4': '663C0A41973917D52B25902F1A76998D359',
+  '836BA': 'BDDC66080E01D52B8272AA9461C69EE0496',
+  '83B7F': '05B91E65ACFCB709C9218578ADC8908F9AE',
+  '83DCA': '3A09F52CEF3D442EC55A6F36F11E204748A',
+  '83E3B': '2A4DFABE0F4325941529F681774DA27A82D',
+  '83F6D': 'B5D7902CF7F6D10FFD4B6563F6CC2A6B2D9',
+  '84333': 'DC89A630648CA4C25829D76B33D7EE32532',
+  '84344': '4CDBC361430807D4D4FCC3D28352BED9C02',
+  '8491E': 'BAC22AA296762F7F12FDD8E8F6E6297E3A3',
+  '854B0': '7CEBC87D898B57FE6D972A7637CC4B7CF34',
+  '8576E': '6850A1978449031F2F18A74B17C6BFC1D85',
+  '857BF': 'B5C197C985B77C3FF618F41F06B4128DF0E',
+  '85C12': 'D7F9BC094EB6EBBF4EF231D1ECB3F5DD15A',
+  '85DFA': '32C97D8618D1BEA083609E2C8A29845ABE5',
+  '85F2A': 'EA244DABE24B07BBEEE11CDB076AD9300F2',
+  '85F75': 'E55B1C8DD6C8B2EC99EEAB4225290702F89',
+  '85F94': '0C72D551AB70C79A22134A14DC2838D31AB',
+  '863DA': 'E13577340B98C4C247F4A05B204A3543248',
+  '86526': '5970365AC705F994163BEA6E8CC47C18438',
+  '86AB8': 'F57E80D3262E5569F39D6B58F1368EB5E38',
+  '87101': '2CDE30C5398F65C105EFF0207A895E15811',
+  '8714C': '71D4A137744D7EEDA8A897BC4F14B148822',
+  '87206': 'AE2363483496C099F8C3AAC5B4A8AE2A66A',
+  '87342': '5E913113EA2348B33AB410682A0094E61E7',
+  '873A5': 'B77CFA0C9A889524D751724FDD4946882C0',
+  '875D1': '0FA6AE9879FC6D3F7A951C712B5019CEF0A',
+  '87979': '3D4E412B1679500D566D6FCBCEB02C04226',
+  '87987': 'A9F8D2B66364F449C812CD272796DF31988',
+  '87A9A': 'D2E04CD1D38ED30F5EF6161BD1450AC0309',
+  '8857D': 'A2C44B3D6987D15CBA6727CD417A709A884',
+  '889C6': '853A117ACA83EF9D6523335DC065213AE86',
+  '88B18': '2829ADEF129B2D95C35CE811A880186EBC6',
+  '88C50': 'A7286A6F3A20BD6085CC79A8E7175825F03',
+  '88C6B': '29BD51811E6B8486B12AEA2C223D61A88FD',
+  '88EA3': '9439E74FA27C09A4FC0BC8EBE6D00978392',
+  '88FDD': '585121A4CCB3D1540527AEE53A77C77ABB8',
+  '8905F': '8532A72B9A21642F646343D6F2AC67FA6FD',
+  '8921E': '73E4A8386250AB50928C98299F07EF29FCC',
+  '892B1': '52A73426DA7BD87611A508CC4D0B6C2574A',
+  '895B3': '17C76B8E504C2FB32DBB4420178F60CE321',
+  '89677': '615C2EC030BC5542ABBACB5C286B12096FE',
+  '8975F': '039CA06EE9DDBC6727496365F1F276A3CEE',
+  '89C5D': 'BD92E077D214E5BF2E6CFFE1FD17368F231',
+  '89E49': '5E7941CF9E40E6980D14A16BF023CCD4C91',
+  '89E5B': '24855898A950C2239A4574F6C4310D5BECE',
+  '89E89': 'C17F877CA2821B557F633CEC3253B0AA941',
+  '8A5C1': 'DA8F7FB3D1EC1266DB175AFE2B8F6BC745C',
+  '8A626': '4B5E66497DCFA2EA629BE4A664282811547',
+  '8A6B3': 'C5E6BA4DA6EBFDF08B068CA74F7D99ED161',
+  '8AB72': '2D3142A2E4703DB93BF2AB707737AAA9939',
+  '8AF81': '7A01401783AEA7851E7A04970327138423B',
+  '8B041': '394D83D007999A02EB6D0944012F8CB0A7B',
+  '8B3F3': 'D503F015C1439FEFA00CB37E37035EB4701',
+  '8B768': 'E06908F1CD7FD6B33ACE750B5A86DF44307',
+  '8BB33': '8FAD4E2B5F6185301FAC44C62FE9E753EBF',
+  '8BBF5': 'CA254F0CB19F8F5F8C388D7F75F798EA620',
+  '8BE3C': '943B1609FFFBFC51AAD666D0A04ADF83C9D',
+  '8BE93': '77EB23A3A1FF6EDAA540117CFC75C183C93',
+  '8BF68': '3D0C2CAB498AB9314C5AFB26EB5D9D778DF',
+  '8C258': '085654083B891CB5125CB6DCB740C8A73F8',
+  '8C77B': '9CE807BE4A20D2D00967E7C2652ACF07A53',
+  '8C8DC': '759D63E44219752600DF9021CA0437AE6B8',
+  '8CB0D': '6C4777CD1E2D83249DE87E1DDC0562FAD8C',
+  '8CB22': '37D0679CA88DB6464EAC60DA96345513964',
+  '8CEAC': '321491CB78D25E920D5DA2F9CDE7771C171',
+  '8CEBE': '116E2CA5F0ED081942F978C050C1CC22CBC',
+  '8D1B7': 'B36D4DDC738879C280A392B134F88EB1BC7',
+  '8D66A': '53A381493BEC08DA23CEF5A43767F20A42C',
+  '8D6E3': '4F987851AA599257D3831A1AF040886842F',
+  '8DC80': '3D112DE3C2BD5130AB107B2266F23D449C1',
+  '8E244': '4901CEE442ACA9531FF10BFE92D58220945',
+  '8E35E': 'D130EFF6905F2F27EDF0A835E9FB656318B',
+  '8E3DF': 'AD727E4D9828BC1E99A6A20C5A62F626AE2',
+  '8E432': '2907F50D4A8171A659F4D51ECD133AA8ED0',
+  '8E715': '2D0EB52C340579F2D70A28EAF1A2C5BA1C5',
+  '8E748': 'EFF0AB5A9EF6E5E7F5E1AB12C695D20A89A',
+  '8EA2B': '2FFB6ED9A00A06850766204D36CB1E0F8FF',
+  '8F217': '4C83B060AD8A652B5070A46CF2CC46314F0',
+  '8F7D8': '8E901A5AD3A05D8CC0DE93313FD76028F8C',
+  '8F8EA': '25B34C73B204B9A330A35894C632659A074',
+  '8FA8A': '3C2DE612BCB9CC7E6FA1FE71F54AC1B1C09',
+  '8FED4': '659C2932CE3A2A7000959774597E83259E3',
+  '8FF12': 'B313D58BA4992E3FD8BD2E6116FE0B34C91',
+  '90093': '37CF16333F07109B593405CF7552ED8059A',
+  '90A96': 'F9A829CAB87AA5FA717E573445852BB18D2',
+  '90BD0': '87C2082D376A98BA3F54EB25159D967A521',
+  '91452': '4A74F138A8C38E48CA8FA95C4871F1B6CB2',
+  '918C0': 'DF6E613EB5C6CB23FDFD84C723190A9CC47',
+  '91AE9': '31C66910752AE180575854A7DBBF43BA047',
+  '91E09': 'D0708EC4EF6ED88032ED825E9522792792F',
+  '91FB6': '4276C08BB21ADED26660F7D81BA92CEEA7C',
+  '92119': 'E2C63E9366ACFEFE818B50537A85577E2DB',
+  '922BF': 'AE72E8DEAA9DE0ACEB70C05FF8607AC113B',
+  '922DE': 'A2E541667B038F0315DC798C4CE3A41EAF7',
+  '92405': 'D6B7ED3B4FA3D444422C01EF0C196D4F122',
+  '92429': 'D82A41E930486C6DE5EBDA9602D55C39986',
+  '92464': '5B3E345A600BF94AE78F01C5886CC320A89',
+  '929D3': 'BA22D02B494DD0971784A3700C3DBF1D89F',
+  '92A02': '238BD46D4C50E25F848A98B91E19DAA5DAA',
+  '9329E': '8B1C609979CD2BCDD8901437CA591CAC1C8',
+  '932EE': 'B1076C85E522F02E15441FA371E3FD000AC',
+  '935E2': '65F3CC34E56AFE2152E0F3CBFFE682BB766',
+  '936FA': '92E3681CD1979871D76998D392BB9C1699A',
+  '939BD': 'BF3C5EE23515C13CADADD6DEFE40D347099',
+  '93EC7': '1B22793A81569C94CA17E4D9C293D8E201F',
+  '94381': '1FA341F72A9A0B38A85A6CA29F9117E1D72',
+  '94592': '2DE3C82D88D8803D19FABFBF7B6B52D467A',
+  '9472B': 'C042C1B4AD9295E28D98397F8F81AE6C36B',
+  '947C8': '44D900B26A575AEAF8EF37C3851E8BE474B',
+  '947CD': '1864F6C3AFD1E91506D18AF249F4A3377CC',
+  '94A82': '589AB179AD19D56138872FF78A793A6FF5B',
+  '94BAA': '1D104F24329B7B07D5A10E654BD43519EC4',
+  '94E64': '0F15DB11BB47D8F0D6E4CF765306CF3CD81',
+  '94F93': '9F8106AF81385EA5B779426A6DE0E74285F',
+  '950AF': '02343D82D3DED41D26002D679A84A2F1FC7',
+  '9511E': '9B55DD76B819CB9DB9D7E5DBC655F1CDF89',
+  '95BCE': '394D432997231E7EA96A978A6533B65E97A',
+  '95DDF': '4208EB2B0CB97256003FFB645EAEA6FC3FB',
+  '95EA0': '69691E174A7FFDB7830F5D1FDAFFB34D940',
+  '96018': '20A6A0AF1181964B5769371FC29E9422715',
+  '9653A': 'F05F246108D5724E5DA6F5ED0E89FC69C02',
+  '96817': '1B6D5C0C18064C8D81C7C6FB10347E26AC3',
+  '96DE5': '543D183D7DE52AC5FA21C46FC811F673F89',
+  '97165': '5B2F3C613BE32634BF352F271277763D37A',
+  '971A8': 'AD6B5885899CA673BD3C0E5A68296D77CDC',
+  '9752F': 'B540F7084FF266A7A6439FE883C380CF49F',
+  '97627': '2B40FB37F813D4A0104C7C8310FA8D0E85F',
+  '97BFB': '233FA3323235F23EF736074205DB33FF4F9',
+  '97E98': '742682545047EDF8933323007D753D53EC0',
+  '980D5': '066BD0BA4610AC3FC8406CDB04B7077A0C7',
+  '982AA': '9D151715B549D93E019889747170D5C147D',
+  '98358': '8CE2FD034D8A835FFFC50AA8C5FA1DF7CCD',
+  '986F8': 'F8245ABC49941CAD21B19649DE4539AE31A',
+  '98850': '6D376BA789DA3640B49E2B2ECB5E9B9B8B3',
+  '989A3': '1EB5E2C5B828CF64EFDAED071FC5468A6D4',
+  '990CC': '9CF5F8D51AB0DB379B9EB8262BEBDAC4623',
+  '99515': '88299ADC0A29070C8830EC1614AF9281ADF',
+  '9991E': '5670C1A0089CD95DA5147CB5D2FEA7CF873',
+  '99996': 'B911567C83CCE17CDF194F314975C57DDF1',
+  '99B23': 'E32BF0F5D77444E9F191441131D1A956C83',
+  '99F11': 'F99F1D3A288E9AB72888DC9984C414B3E4F',
+  '9A06A': 'BC45260755D76022E84F6BD4A37765469C7',
+  '9A41E': 'C527FE60F7F97C93F8C444C8E8D70A15B82',
+  '9A5DE': 'A2FA4310E5EC73CAE6ACF151875D9AAB950',
+  '9A94C': '57E6509FB0127440A0E3D93DE7B17870560',
+  '9AC20': '922B054316BE23842A5BCA7D69F29F69D77',
+  '9AC68': 'ACE0B2DC0E38B8035F151DE8E4C26B6875F',
+  '9ADC7': 'A1161DDF32FF608DE792A7E50179545F026',
+  '9AEC9': 'E08F079BBDA8092FC7FF3563DA6C0D64E05',
+  '9B2A7': '43F7B9870AE5237D3BB2ED5E9400B6346B0',
+  '9B36B': 'FC20481544BABE33C7EECA9EFE3DCE4EFB1',
+  '9B75D': '9F4CC627DCB728B461B40580D1EEA8C7D86',
+  '9B89E': '88BE52ABC8AA44428CDE5B1D3ACB48C5F91',
+  '9B8A9': '1E2CE26FBB4C8A89B455302513188745962',
+  '9BC34': '549D565D9505B287DE0CD20AC77BE1D3F2C',
+  '9BD03': '1C4ED90B1E823C876B7CAB17C89C6FF01D5',
+  '9BE31': 'D5AFA2106E0CC29816CD7B17C449462DA70',
+  '9BE7D': '8984785589576CC8E2CD7A8661ADB8E8947',
+  '9BF6A': 'E44CE95221915B73C31CE90475AAF5A41CF',
+  '9C03D': 'C745881756DD1C4CBE06DAFD3DF8E70D8C5',
+  '9C1D9': '5CD121F54B704EE55B5025FFF93F93A6464',
+  '9C245': 'C8BE365BC745ADA4E5EE5A0607E7FC3BBC5',
+  '9C688': '5D151B4659BA960B4DDF5B727181C215503',
+  '9C76C': '84337C7441A5AD9683F686329F9706FD6B1',
+  '9C881': 'BDB6BC930D18797D72D07BB9E01EEB40D8B',
+  '9D120': '66601440183B56E8A384410CD079F1CCDDA',
+  '9D4E1': 'E23BD5B727046A9E3B4B7DB57BD8D6EE684',
+  '9D5ED': '3E0791BD0FED49256C894E9408F84E9CDF0',
+  '9D61B': 'A84065FC83956CDFC63E49BC7A9D21D8665',
+  '9D62B': '2FE7F195A71887280F569F6AA9FC823CAAF',
+  '9D8FD': 'D373EBEB7FE999E82B60D63B315D88413BC',
+  '9D9B9': '53DB882C91FA1791BFABD7F01D1B2CA32F1',
+  '9DC18': '5DE721FAFFA789A9EA6E2C7F9B3A6E598D1',
+  '9DC72': '26A87062ACBF9F614CDC26FCC847A47D3DB',
+  '9DDC7': 'AE9CB08281565F26A0E1F2F5111ADCFA9AE',
+  '9DE8A': '327ECFBDCFB7F559266A3CC96AC69D81E0D',
+  '9DF11': '8415D2E8E34740DE259FA6B57E0F9E42796',
+  '9DFCD': 'F8E47DCAF78FA2B898F885F4DA6240DD7CD',
+  '9E4EE': '4CC903F91CCB2438BC198546821D4466FD8',
+  '9E627': '77644DDEAD1375B8D3820B55A8AD56FAAAB',
+  '9E7C9': '7801CB4CCE87B6C02F98291A6420E6400AD',
+  '9E899': '88CC3FBA2850FB19459E04E7B3325BE4F84',
+  '9EBE6': 'E701804599DF1BA6016A4B8329BD1BBF9F5',
+  '9EC42': '36A09D01395A838F2E774923B4E8548FD19',
+  '9F089': '5982EEF8CC5F36897518950C490B31AB656',
+  '9F2FE': 'B0F1EF425B292F2F94BC8482494DF430413',
+  '9FD8D': 'E5FC2A7C2C0D469B2FFF1AFDE4E5DEF37BA',
+  '9FF7B': '1064297CC70487E1D34F213FF86B4DC37A4',
+  'A0025': 'DC57D4D034CCE29108BDA9324D01E1ED604',
+  'A0080': 'C2DF5B92664104561CEB3753F4A3C7007D6',
+  'A0351': '11FE98AD4D0891781ECEC015EACE9D6C5D2',
+  'A0393': '902DB1F516EF5F95F6830938558A88FB23C',
+  'A04C1': '4CF334F585DF866EE4FB6E4CE7B48BEE6C3',
+  'A0847': '543CDE93421D289F9CA3F9372A660844CED',
+  'A0867': '0FF00AB376DFCA8A7542DCCE81626B2B469',
+  'A0BA9': 'B9CF607238B2ECAD81F3F648F8008075F30',
+  'A0C84': '9D62D67126BB39974573611F1CDF03FBCA4',
+  'A0D79': 'E07881FF37DE44657F0667F9EBC30B27A14',
+  'A1037': 'F14CEBC6BD318916F54CBE00D3EA2A197C1',
+  'A1111': 'ECB47FCC2F14D7347E8C852B0BC506D2E07',
+  'A1C0F': '91A86323D54B8B89EB0D61C5B15D4CE55F7',
+  'A1CF6': '2AF599E2C2403CD6542A3BBE8F828511BE8',
+  'A1D3F': '9565143686786A279E49A7C743535DF4B08',
+  'A1E83': '7E01783158D002CA17F8FC423CEA5ED6100',
+  'A1F73': '84D8A5C0D74E31B506BA1913CB30549E615',
+  'A27A0': '5322AA60C364706628116D872E25970DF69',
+  'A292C': '8F899C1D3B1F6FF2D6FBECC307374BB03C6',
+  'A29C5': '7C6894DEE6E8251510D58C07078EE3F49BF',
+  'A2C90': '1C8C6DEA98958C219F6F2D038C44DC5D362',
+  'A2D4C': '72A6D6C3E9306DCE15C88E32D55623CC0D1',
+  'A32BE': '9B6B93FA2D7D4F99C527558A84EAD53AEF1',
+  'A336F': '34C39190EDD7EA75627AF3B647AAFA58E0F',
+  'A36E1': 'F2D2C1309E9F4CD2D6D2EF75D01DD4FD21C',
+  'A3784': 'E7DA31836B8977BC962AE675672D01D2B47',
+  'A38BB': 'D9AB86DABEA42550040F9CC4DBD5E1A6676',
+  'A3DA7': 'A7FF6516FDE9CFD94BBA1CD812E6B2B55E8',
+  'A3DE6': '9CF57B977FD5AA293C0992ABCD8A89D1C79',
+  'A3E24': 'E8540592EA7BB2BEDD97D98B1E5A815A210',
+  'A3EA9': 'BC67B3DCADDB40F12548D75C4D909CD098E',
+  'A400C': '40E60812B028A8615E2AD2722361F1CC830',
+  'A40A7': '60C29C67CCF2F273524AE3BF5FB81BB67BD',
+  'A41F0': '3BB147793A89615033860D1DCE7AAF0CA10',
+  'A46AC': 'E2489B1AA955CA728DAC03E8F3821DE72A7',
+  'A478D': '65FD1F13FD8EE5E6EC3BC07166385D6EC6F',
+  'A47B5': 'CC8F06168F0EC3832A99894834E1D27F744',
+  'A4AC9': '14C09D7C097FE1F4F96B897E625B6922069',
+  'A569D': '33946B57D1528C1120C1D47960525B0F635',
+  'A593D': 'D11478DF658414A3DCD269333390C396516',
+  'A5963': '9E2F24198BE624B2D69BC43652C209F746D',
+  'A5A63': 'A67CFDA5C0D4890C29D4F5A2AFCA7C9B8D6',
+  'A5C29': '7C15E40AC3881DB51277613AEA3731B673A',
+  'A5F82': '0A4CCA8CA81AE7F61C1454686BD0EB35017',
+  'A6209': '77BF82412C4F6FFBF0D9CA843F0AD1C82E3',
+  'A642A': '77ABD7D4F51BF9226CEAF891FCBB5B299B8',
+  'A67D5': 'A576E4BA3B4009EDEBBEECBAE2BCD696BC7',
+  'A6C10': '3C3B15B4FF958DE1CE15BD4C9FF8C8A4922',
+  'A6F37': '5A196CD4C89C41DBB4500553EBF3BAB0A41',
+  'A6F55': 'A350E3C2151D4CF27E2A9B1C07BE0A555FA',
+  'A6FFF': '999C88E6D5662FECBA12AD031477C7BFE6C',
+  'A70E6': 'FE6FC9D427B0DB7D0E2036E7C427A7BA6A9',
+  'A747B': '0C887F7F7378405A1F066956D4FE91C5058',
+  'A74AC': '301D0AF7EF2F8D307DFE0C5A6DD9136B827',
+  'A7759': '1BE2044AFCD45B50ACDFCE3A585CAAE257C',
+  'A7853': 'FD3B294EB2FFEC0DB5BE5070B9654008CBF',
+  'A7B2E': '510D1699FCB1EC71B429D30C11B925F7F7F',
+  'A7D47': '68B2D6F03DC29CED9F6E01BAA8B618E0507',
+  'A7D57': '9BA76398070EAE654C30FF153A4C273272A',
+  'A810A': '32D990660A8C459504F4C7D78AD1081981C',
+  'A8273': '45418EFEA5E7D180264610DD3824CFA8275',
+  'A8533': '877A4C557015B1140EC218C357B426BD7A7',
+  'A8905': '03E82D4B1955ED848393521D21749FF379D',
+  'A8A74': '431AD4702DD0A8B39377D3DD20CACC8DE55',
+  'A8D0D': 'C93EAFBCC2053B5AF517D96C9348CB86B4F',
+  'A8F30': '090264434636F456694B71181A479ECCC66',
+  'A9205': 'C844C064F4DE384E3683FC6B51FCBF56187',
+  'A928E': '4AFBAC5AD6A827BD7D0F3341083FB15D3CA',
+  'A92DD': 'E892B6E11CEEF9404244B0BD357ADC8BB22',
+  'A94A8': 'FE5CCB19BA61C4C0873D391E987982FBBD3',
+  'A9550': '8E5B0DF7B2B0C8392214EB5BDE5A0F9CAEA',
+  'A9DB9': '06761699B31567727716EAA6FD19AE5F5D5',
+  'AA000': '2A70CD09A99D3CCE5EBDA67FCEA21A638E4',
+  'AA0E7': 'E86B7AA21E9851B9DB8B752998918D2B608',
+  'AA16F': '6D6088B2BAB1D5E9192F717DAA8730407FF',
+  'AA1C7': 'D931CF140BB35A5A16ADEB83A551649C3B9',
+  'AABBF': '8E71437218B4F2EF0CC665A620F5F1CE431',
+  'AAF4C': '61DDCC5E8A2DABEDE0F3B482CD9AEA9434D',
+  'AB0FD': '9394536799D8556E87D629CB325947180F3',
+  'AB1A1': 'D9422F290E4A9F4452B9FCC666DE7520A29',
+  'AB222': 'D26D933C6DCC99185DBD218EA61FAABF8DD',
+  'AB572': 'AB2774F89CDBEF1281E22E1C3F8D010E6C9',
+  'AB666': 'CBF48035230F189BA2DEE4335B79449E5A0',
+  'AB87D': '24BDC7452E55738DEB5F868E1F16DEA5ACE',
+  'ABCCF': '54B832D256110CD9DB45C5391DA9AB6AB33',
+  'AC02E': 'F9A7895BF01C7BCEF535F9DF5D3C17447DD',
+  'AC137': 'C6AE0947718332991E7CB2F50EB20B62AAA',
+  'AC20D': 'E0BD4C50BF8A2BC9E1001D9CD7386524C27',
+  'AC803': 'B9AD8AE37E0DC1CC1DB95F221331FE8EE10',
+  'AC87D': 'AFC03BA13EF3D6851A42E3E2633522153C2',
+  'AC9A2': 'CD0A01D65C21A3393E1373A6CEE8348D14A',
+  'ACE23': '3A4E11E797B8E0E5D908446FE2ADA80D562',
+  'AD43C': '949240DB69BCF08FFAD52F7E8CF8D49B642',
+  'AD70A': 'B97AE1376E656002641CFB067C9C94906A2',
+  'AD7DE': '2A0C4A216C94D4F7B78D1263841C9DC9B68',
+  'AD816': '7DF4B75BD9F2E165EA9F6053195CF7652B5',
+  'AD9AE': '30F158819942D9EF69053F84A43398A722C',
+  'ADC44': '522A9BF369CB28CDA9185D9F1B67902AC60',
+  'ADDBD': '3AA5619F2932733104EB8CEEF08F6FD2693',
+  'ADDED': 'CAD7AE1F7BF9DC9A3972E26AA5F3A455C70',
+  'ADDEF': 'BAC6E4AA13499D98A5EED1E6FC1CCE5B1C3',
+  'AE4E3': '5219139734E7C286187556770831C345575',
+  'AE776': 'FC2771463ED244EB2A8A42885E25782654C',
+  'AE908': 'DD259C14D160651083B35B5C6EE782E910C',
+  'AEC79': '4E8C4E83ACE303DE4149913F6AA9E3043E9',
+  'AEEF7': '22D1E9D713C80B6B4435620BA94BCE698F5',
+  'AEFA4': '3A7D0966EDFF7CC73C04DC8DEE484F6D907',
+  'AF1C9': '9AB83732929B99B4D69F4174F754F41CAB4',
+  'AF2C4': '1EB4E034ED0A417D1EC637082072A4D3AAE',
+  'AF6DA': 'F5F1A60C91F73361DD476C97E496BEDA065',
+  'AF897': '8B1797B72ACFFF9595A5A2A373EC3D9106D',
+  'AFAED': '75406BD414820CEA4A5119F90C259C05755',
+  'AFBA1': '37331D0450D9FB52DF738268407E0A594A4',
+  'AFF8D': '18E7CCCA4B44489E74D3771812037649654',
+  'B0399': 'D2029F64D445BD131FFAA399A42D2F8E7DC',
+  'B0513': '9004693B44ED1E849B14A7D8BADE7E5BD78',
+  'B05C0': '38EDC70FC653F61759267567DB7DC9F0113',
+  'B08A9': 'A8861DBB318EA098FEF45D2DE4F5A30E4B8',
+  'B08B2': '286E0F7337A984CA74E8EBD86AA4A6F839C',
+  'B08E9': '8044C375CB2B05EFCD216E5295842F789D0',
+  'B0983': '3CEC69EFF1BB667940A45E311262E85A422',
+  'B0FA3': '1E04D0FC438D46123F3EB7EEEC3C2EC25CC',
+  'B10D8': 'C313A163BE63DC3800FFEC82DD4BBAE5F53',
+  'B1410': 'DDF47F04258354150E0052BD5BDAB6FF9EB',
+  'B14AB': '480028768CB748FD97DE56144A304EB8A1A',
+  'B1A82': 'B073923065A2E946F662B485850FAB5F702',
+  'B1A99': 'F6B93FAFAC863B0B02910B2EF63D3692305',
+  'B1AEB': '68A9B0B902A143A402D717CAB23D2A38200',
+  'B1B2A': '8533C2785F81A4BC68A00D5BB55505F7AA9',
+  'B1B37': '73A05C0ED0176787A4F1574FF0075F7521E',
+  'B1F45': 'ED147D6803AC1A2A91BDEA1FAB603F910A5',
+  'B21E4': 'F5EFD92EE1703ADD6C59F1A3B2120AE5049',
+  'B2329': 'FE64F8BE819190FF4542F6F9091405CA4EC',
+  'B25CA': 'AE5F0CAA8757DC62C2CDE8A264B1AA4A694',
+  'B27D8': '0363FC6DF5F7E9E6E7E18F9B85F127EC235',
+  'B2990': 'B360C1D94C11A3F200D6F8697898F592D22',
+  'B2BEB': 'C75E65F9D2816148FDBC8D7CA88AD0B9EFB',
+  'B2E98': 'AD6F6EB8508DD6A14CFA704BAD7F05F6FB1',
+  'B2EE6': '0370AD57D9BC3877E9024C507AB99303A64',
+  'B363C': '6EF45640A79DDC7BBC826A87E02734D88F0',
+  'B3932': '535E8072DA5632841244F7FE1EF9B1C604C',
+  'B3ACA': '92C793EE0E9B1A9B0A5F5FC044E05140DF3',
+  'B3FF6': 'D3BFEB09DBC447EBDC122A947CB05C5585F',
+  'B40E6': '4B5AA764066AC2D0FDFE99D578C23817694',
+  'B4E91': '67FB0622ED89136824799C7FF4AB3A78BA1',
+  'B51BB': '18F03B5A27DCE00168385A981762EF43282',
+  'B55A5': '19C4BA69F01227057F64DF13A33D681F70A',
+  'B567A': 'ADEFB58EA65641A1EC3C9791F6204AD6C03',
+  'B56CB': '7D18FA5DD7F3810A206265A263C79DF1D7F',
+  'B5841': '92C296CA67BC305BA9E280592081A3666E5',
+  'B592D': 'A74FAB3E25F22662CDFD27B7B2EB827F4AC',
+  'B5E73': 'B692BF07E27B91A7BFDABBEA599850034CF',
+  'B6109': 'BA069F8896058AE4C16101B178BF932AC5A',
+  'B65FB': '1E51E206D63266ECD16C4C65229DBEC266C',
+  'B66A5': '337CC0D5F1A5466ED96FD125396C0DD24E6',
+  'B6717': 'CAEFD1F28E17AEBE8A799E07AB0199CCE89',
+  'B6B0D': '683FB5D633281499F18F7B89872F250D312',
+  'B6B17': '47A356D59A84C332863B4A877274951227B',
+  'B6B69': '8AB9663544EFBA27BED8B3D168B282EC272',
+  'B71C7': '6A6B049694BD25B52D6EFEAD25D6301F004',
+  'B73FB': '544FB785BDBE8E506FF5241F6E5E7F6E77B',
+  'B74DF': '8452BE95E3BCF8744CCF8C237BC2915F7AB',
+  'B7A87': '5FC1EA228B9061041B7CEC4BD3C52AB3CE3',
+  'B7C40': 'B9C66BC88D38A59E554C639D743E77F1B65',
+  'B7DD9': '42D1EDE611FD1675BFBBBF6AF1F06ECC927',
+  'B8468': '9B769AB3D929F7CC14EE35E77C4AE6427C8',
+  'B8816': '47320948A60240C9CFAE7ED671FEC7472B5',
+  'B88D7': '856E097AE0F051FC8E4BE7E7FD820B4196C',
+  'B8F35': 'F0C173BC71C4923F97CAE87968D26127698',
+  'B8FC3': 'B4AB781BA200194613ECCA6C4F703D75E1F',
+  'B902A': '60A6ED6D802742199E5691D0CAF93F1E388',
+  'B913B': '5BE7863B8377D5011D20550E59E742FF549',
+  'B9255': '2E227D8592969ED0D014840691627FA0C61',
+  'B9336': '5359C145716713F0B19FFC7E86AA1D9188F',
+  'B945C': '05897FD8BF29C35CA21DD209AD2CF10C0F2',
+  'B94C1': '991D95583AADEEC4EFCD02B086B75F88984',
+  'B94C7': '3DB035E8A33A40F9E908FE7371BF0583F44',
+  'B977E': '06E7D9866F03DEF3205FB84A036EAF3762C',
+  'B9864': '15C93241513D33D01FCF532A6C47AC4F3EE',
+  'B9988': '87BE9B34D9E857CDD8B3EBAD7EC45FBD592',
+  'B9A65': 'A19EFD89EE06E57C4E27F6F64E92FD459A8',
+  'B9D7F': '95E1F74073544380D62BCD9A19B65252CA4',
+  'B9EC4': '161952648B791D0FED3926B0205A261057A',
+  'BA5D8': '027D4FBAF0E92582959DECFE1A2E20FD300',
+  'BA65A': '40B314834F7D3163946D163576AC7F08FD2',
+  'BA6F6': '72D2F6FCC4D746756F04D060E973C0B9727',
+  'BA87D': '4E5A915727546C58022E3CF1EC70281C526',
+  'BA895': 'B31B0777A24087F823B55E40F0C839BCC10',
+  'BA9AD': 'B7296FDC28911356E3875BF4129AACBC36D',
+  'BAB20': '39A84DBDE1E4A77EF90E78B7A2992D8FAA8',
+  'BABC4': 'E7247F9C6D5BF856E1C260C0795FB6B939F',
+  'BABE3': '050E2E81DFD87A8CE67264D518CB34AEF72',
+  'BACFA': 'ABCD58563184E892FAA8F0BC0DB37D4B65C',
+  'BAD30': '2A3729E4B7148ABEDE9DA193DC4C8EF1ACE',
+  'BADCF': 'A3C62742B3BCC1DCD893E78713BD36AA430',
+  'BAE1F': 'AC12897A098C0A17F942367E36EC3973AD6',
+  'BAEB9': '17E754D879F828BB5CFBE4E90D872DBD615',
+  'BB037': '7E75DD89D8B6F2C8AC81FAB5EE4D6758CCD',
+  'BB3DE': '9E6B1DAE98729FAFA7C14BB1E64AE8B0926',
+  'BB438': '9F6C9349499294AA5338D61A782C07BB2F5',
+  'BB931': 'C7431143596C4E8C8F67EF4EA310D706AD8',
+  'BBADA': 'A8D512B8BEC2D3F7A75AB03036A0A9014FC',
+  'BBC73': '828D6B735BE953C6A92B7C027358C7C1DC3',
+  'BBE02': '88B8BB9B66F4D4DC5DAA2C8C19C9149D5A5',
+  'BC469': 'A76E474A04D9A29B837596E7F6E861814FB',
+  'BC7B8': 'A1E70C4254782AE9C20C5A0A5C58EC63CB0',
+  'BC7E4': 'F1A917E912A818B5D84394AF88D670241BE',
+  'BCBCF': '223AD9F2B7FC1A9C472FD4A5B52F228CDC1',
+  'BCD59': '17B85289CF889711720CE741F75C47ADD13',
+  'BCE62': 'A4964696CEA9C9E762FBC19122BAFEA1B8B',
+  'BCEF7': 'A046258082993759BADE995B3AE8BEE26C7',
+  'BCF4B': '2FA3A552F2ECD1E9BA395410E47D14352B2',
+  'BD379': 'DA743CE289F22EC7930581FFAAEDD252981',
+  'BD3B2': '0B10755A9F9D434C6AC8F639479E10AD740',
+  'BD4A0': '1878AB35405BC54CE0355077987BDF1A3F2',
+  'BD5D6': '6DBEC6F0A4B8878F2A4D9E461C5FC12E9F8',
+  'BD659': '14C877C363B4FBAFD3B80C37373FD04197F',
+  'BDD24': '0C8FE7174E6AC1CFDD5282DE76EB7AD6815',
+  'BE1E4': '42EDEFF57DB0D5482EEB309930FDCD684DC',
+  'BE3F5': '34302A3AF171F1973E0C5FA939C67A2B97C',
+  'BE543': '30786F51CD7E74CE8BC67C167BF13500304',
+  'BE721': 'FACFE42AED047E2B3C19AAD1539389DF71E',
+  'BF2F7': '49E80C970F50552E9D5F3E8434E78B88D35',
+  'BF744': 'BC4C40CC35D471094F18F57DE0E9E8169A0',
+  'BFD30': '100E87A52FAEA2987665336C514B85A136A',
+  'BFE54': 'CAA6D483CC3887DCE9D1B8EB91408F1EA7A',
+  'C0356': '41DE267AA02761F3825D8D03559C0C059E9',
+  'C0422': '182CEC97EAF5FD5F22778D87F06C89BDDA5',
+  'C07F4': '15FD501A792BCECA28F332F27B78A666485',
+  'C08B0': 'B9899D43EBFD4A51417D44A0A555BB5D818',
+  'C0A79': '59C34C26BEA8F03BD02A579485E5BE597BB',
+  'C0B13': '7FE2D792459F26FF763CCE44574A5B5AB03',
+  'C0D82': '1EEFE9E6CC9BDE6046BE1FD6EB9E23B26A4',
+  'C0DEE': '19EC15E729B59C6EC38949F4F23F25BD913',
+  'C0F7F': '1AE9C191439E23C929C85326CB23B856E0B',
+  'C10C9': 'FEEA1D5ACB62612B00A3EEE8944AA73A2D3',
+  'C12C5': 'BC8FD50B3D4AB5AB92B605D09DCA9DB8F1E',
+  'C1606': '7B73FD9359F2A09AAEDB80820864E18743E',
+  'C165B': 'B234EE4ABDC30E8421400629F604F7BF738',
+  'C16E2': '80B4160235BABCCF36083CC331F0A077AE2',
+  'C1729': '6C8E5D91D68A747FD7D17B1E1583D86E18B',
+  'C1741': '5666A95277A080DB682A0C92A2F2A893274',
+  'C1A51': '0A22A49E2DD0B3993058C983545751097FA',
+  'C1A9A': '99EC4782492E522DD7387936F68365A15F4',
+  'C1ABC': 'F0BEF39AE16D6223C27DA44B14F50CD312E',
+  'C2291': 'F6BD015FEF07CF0DDFA217CEB9ABC9D5B1B',
+  'C246E': 'AAEB2A79CFA9DCA63838F75308079091288',
+  'C2577': '430D91716490DC5D33C20D901E008B696E7',
+  'C29D1': '6DAA7D15E24958C7D60F77D3DED552F8DDC',
+  'C2D66': '38145BB2E780BCF3D5B475DB3537BB79B7A',
+  'C3140': '5B16FBB48ADB41B8F6505E788FCB13EBD91',
+  'C329A': 'A8D9291157B8FBD996ED7BAE127188F35AA',
+  'C3465': '193D96D5E3E6C482F3C29D40CCC3C5D382E',
+  'C35B0': '7262FCA57647E4281358EEC6674C2C5BB44',
+  'C3B55': 'C2CD9707CA6C4B404EA6BDCEDD0063FD1E6',
+  'C3C3C': '353C04E9C6EE575A993ED28C32DB2EBC9E0',
+  'C3C7C': '6463533323835D64084F05E29D62F2B96FA',
+  'C3F10': '6DC3E72122FFF19BDF54402B77238E36B36',
+  'C3F63': 'EE769C8F251565E45CF724F6E4EFAEE0387',
+  'C42D6': 'B1D2F7F3D42491963537C45C3D8ABCFDB70',
+  'C4328': '02C0DDF96C15541DC895208A8925915CADF',
+  'C464A': 'F817287343305CBD6493C593885695DF531',
+  'C4684': '3806AFCD7D908AEF981BC2BC8F1C9BCB733',
+  'C486B': '6DBD676EC3D8F0C4AE00C3123773B66D1FD',
+  'C4D33': 'C8C4CDCFB223029C5F850B39215A127EBFA',
+  'C4E16': 'AA6A921E71E335CC0D6BB19052EEA2FF360',
+  'C4FD0': 'E4ABA8C507185B559B4583B727DF0455514',
+  'C507A': 'C6EBE6AEE90E8257E247B7F89E48781A4C0',
+  'C5391': '53BA1F947BD4B6F910263B967C4A0A62357',
+  'C5515': '2DB120DB8A929588A5CE9AC20A951DA2AED',
+  'C5731': 'FFBEA7CEC903CE7FC7B4E51DEFFD56F5A51',
+  'C590A': 'FA9BB59191FFAB30F223791E82D3FD3E3AF',
+  'C59F9': '8CE1727A258BDE070D81FDADC173210503D',
+  'C5AF0': '484AE9CD863BC27D552C291A38DEFC7570E',
+  'C5B50': 'D6102984281C0E94A97B591E174B66853FA',
+  'C5D83': '5D9585830142BA01769D18E3C916C1F0F83',
+  'C5F37': '8F5E3769D90347DCF75BD06B13A0452F04F',
+  'C6026': '6A8ADAD2F8EE67D793B4FD3FD0FFD73CC61',
+  'C63CE': '2ABBE8F1240B849DCFA2613532DD042090C',
+  'C6695': 'E7714034C75433FBD121270F6C630D394AF',
+  'C6761': '8A387E1F44E9BEDBF7F4C3E9442FDB713D5',
+  'C6922': 'B6BA9E0939583F973BC1682493351AD4FE8',
+  'C6DE5': '812BEEBEF81811CDED186A6E6D9A005E5B8',
+  'C731B': '4219D8A475BD9A44FDEDF7EEAB99878C39B',
+  'C7667': '64835E6AB94C0D835D9A985EA4773F037FE',
+  'C76DB': '9BF5E0BF31C48C2909FF22EBDFBF36B6341',
+  'C824F': 'E0AFE16857DD6F587AA7C4044D2642D60FB',
+  'C8949': '8EA8CEA16F1D14550D731D0BBD1535CCB9D',
+  'C8A50': 'F632C3C4BAF27FC05FACB1883104E1D16EF',
+  'C9111': '4BB7663B37F6D8290521DC68BB7103CF591',
+  'C916E': '71D733D06CB77A4775DE5F77FD0B480A7E8',
+  'C944D': '8A54FDF21F2C019604596674D1B4F0377BF',
+  'C94F4': '79833C5D401CFFDFA7AFE6C9C2D56448019',
+  'C9525': '9DE1FD719814DAEF8F1DC4BD64F9D885FF0',
+  'C97F1': '6FA82361995B51DC85ED6798C7737E0AA08',
+  'C984A': 'ED014AEC7623A54F0591DA07A85FD4B762D',
+  'C9A27': 'FB4166B266F6E79BA5ED4B426B7169FC859',
+  'CA207': '28D35F00C3A4C21B1FC8B0086B59F89DF2D',
+  'CA4F9': 'DCF204E2037BFE5884867BEAD98BD9CBAF8',
+  'CAD1E': '50462AA441A3BC3F4A13FCCCD209DCCFBD7',
+  'CAE35': '5B615B61313E7A2D42D0C650F705DC3D94E',
+  'CB071': 'DE4F3479A82A66377E2BD49FDB3A21A4911',
+  'CB0EF': '4C7BE04FF1BF4CFCD104EF8DF03251266AB',
+  'CB315': '61BFAC95BB6E7C5E0C0255B60107FE66463',
+  'CB375': '12E8D8910CCC0F0D9C6E3ADC150DEB6A985',
+  'CB37D': 'E1D915A124412FF8113BEF18511DAEC3050',
+  'CB45C': '671CBC500627EA424EEA5F91996221B5935',
+  'CBB73': '53E6D953EF360BAF960C122346276C6E320',
+  'CBDB0': 'CC7F3F5B4BE81A75FA7242590E3E9882E1E',
+  'CBE86': '9668B9F87F1E14514260D97E7BEE2692C52',
+  'CBFDA': 'C6008F9CAB4083784CBD1874F76618D2A97',
+  'CBFE2': '4B13ABD796CDE0FF97E3E930EEE03C1993F',
+  'CC355': '933E1181D51CD54F4E78AE7B8207BBEA35F',
+  'CC78C': '8031BE084B3699B2DFC47059FB3396593E4',
+  'CC9F8': '16A42431CF852CDC7A3FAD42A6F65FFCE24',
+  'CCAD6': '3C495216861BE844C72253590E9A97DCF2C',
+  'CCBF3': 'DA2E2EE083A8593E3BB7B47619B419F07D7',
+  'CCC9E': 'D562C403504292866C15EE1E9ECD289D4B8',
+  'CCE57': 'E2AD4D6AB140F70C48B42E7F8C2DCA4795B',
+  'CD4C6': '87C0E2BEB492A3F922EC9DDD03A1FFBAFFB',
+  'CD7EA': '6C661D762BC06870FAE85AF66A7AE44AAED',
+  'CD9D6': 'B7ECC9BC605FC688342F2A8B2B179B4881B',
+  'CDAFA': '47297E1474B9113C75A58F2C5682878AA18',
+  'CDF54': '7ED4C64E6994AF35CFCD69C4204C9227A97',
+  'CDF59': 'DB451DF2664DF643CF2CE73D531D404BC28',
+  'CE2E7': '18A43697506BA60AC796E621EC8161766BE',
+  'CE63E': '7963527767020C39A282BA402C60EE919D2',
+  'CE71D': 'F295CE7ACBA647AED4368015ACE34BF2676',
+  'CE76C': '9AF7FADCA6168403E3E363878213B48EC27',
+  'CE838': '19D0B69CD6C470BC6E7B5EAF5A3DED62668',
+  'CE8A3': 'FDE447B08A7A8469004364174A5A1D1E18B',
+  'CEA88': '84998D87444546EBD9E844F980530E8A2FA',
+  'CEAF5': 'F820F35946BAD94B780FD76CA0D05A04F9B',
+  'CEDF4': '1FCCB586DC39E1CE34BB482F0AFE557B49F',
+  'CEF7E': '59218E3A7E18AAF7FAA4A23BCD964323A66',
+  'CF00C': '96BD5AF0544315DD41E0916ED89547CF885',
+  'CF2AF': 'B787D1A7A807CD8D7BA4C79689B3DEACC7B',
+  'CF52D': '4563442B77F79304554FCB4D837895440BB',
+  'CF5CC': '38F32F407C28D8C9259A16CA6B2586462A4',
+  'CF60B': '2B865D4A83696A206454EEF5CE1F33D829B',
+  'CFD8B': 'A62143F37D97D6692910C21A9A47EFB6395',
+  'CFEF1': '1D457DA9DC9DD29B23B4434BAB5483519F1',
+  'CFF8E': '97844D04A1A651CAD2925D7AABC501CB256',
+  'D0219': 'B87CC88F83402A9A028CBE234E2C377A591',
+  'D02CA': '31BB5022F1C3FB58D9AE3C3BF0F0B65B652',
+  'D033E': '22AE348AEB5660FC2140AEC35850C4DA997',
+  'D04C1': '675B232C6ECE69ED95E189E95D589F217B0',
+  'D0A65': '436A81128B4FAC0F27A75B9A15CFD6F07C9',
+  'D0C26': '693944067FDB65435D60DD64B809B49EE99',
+  'D0C8F': '8EE2F1893D1D7BFF0477501BCC6CA9BDBD4',
+  'D0D29': 'DBCB4E330C1255F400391C8D4A9EE7D42C8',
+  'D0DF3': '2246147514628B8321D2F231ADDD48D3176',
+  'D109E': 'C1A6562104A0AD27061B7AB1E2CE4ADB4B7',
+  'D111B': '38C0E73BC867C4BAD4023606A0E0DF64C2F',
+  'D1469': '7E20CC4B4B1123038A21B563B5D36A13607',
+  'D166E': '844A3F3F87149CC4F866EB998E9A751C72A',
+  'D1860': 'C08C397ADFA1FA2AC45889ED8A7DF991395',
+  'D192A': '7A70A0D4DC3DF408A3A954C6F529B946639',
+  'D196F': '6A89618F2B9D01C8C203953C76FA3C8111D',
+  'D1A5A': 'F7866AB03EAF5DF139C497D589A23EB7DB6',
+  'D1CB6': '7AF35612FEA0B75A5F9D4432147FE03F2F8',
+  'D1FB6': 'F469EB755B728C4EA8F8AE06DC1ABF04F48',
+  'D1FD0': 'AA37878F20A29F1CB7F0965928ED6A753F4',
+  'D27AD': 'F72F01C00BB58770449AC6FEB951401EEC3',
+  'D280C': '07DE9323B8A882B733F4D4D6D523CE1B469',
+  'D292D': '1B4586868C5F367D6AAA914CE60ED960090',
+  'D2AB0': '89D8CA1BE17B49CEA736D9C1D85A34AD7EB',
+  'D2BD2': '29BD5025A44F0D74999E75849F0C0E9DC93',
+  'D2C9F': '1EA4440B227A6A1A131EBD36873DA3B131C',
+  'D2F35': 'D25D2ADB1F6CA3DEC34DEDB3C50E7A84DD7',
+  'D2F8F': '5DE6E2C7EE3898F4BBCD2F17CF2172D23DE',
+  'D318F': '44739DCED66793B1A603028133A76AE680E',
+  'D31A5': '2CA9B5F18DADA8CB1026C795D98E9D37370',
+  'D328B': 'F57D823BB1630307E061BDDFFBA187DD61B',
+  'D3474': '9D433EA29FC4016E8B8034BEC1D7841BBCE',
+  'D35AD': 'B2B046641B656400682BF4A74039088C468',
+  'D365B': '339B861E0A9C98DA3D4B40F6FC17C56032B',
+  'D3F69': '48F708D924C5F028F5AC24E33D0C00FFAF5',
+  'D4042': '2B177C019884E5CCE6CBC50500C8F07DDB8',
+  'D415F': '2D371EB594674A7E0BFB1C1DCF40A57082B',
+  'D4543': 'CFB987CC7B3C03545CD24742ACBC2A7EF8A',
+  'D47D5': '3FC94BC5CB8A6D832A3E0B368DFAD677EE9',
+  'D4A00': '09C9DCE1071032B0292CC75A8530458C426',
+  'D4B90': 'F2DFAFC736205A98BF3AE6541431BC77D8E',
+  'D4BAF': 'B9BD40B8C760CAF31C0255A16CA2ACDC782',
+  'D4F16': '4B207A4B4DD89C9BA91A4CF3A6A633472A4',
+  'D4F54': '70745B17D9F6AF7F5B8F1C2011CCFEC66EB',
+  'D4F55': 'DEC8C7BC9675182779E564FAE1327D30F9B',
+  'D511F': 'B8289778BC642FAA096EE623D1006C6DAA5',
+  'D5365': '2DE63B26F2B99ABFC5699FAC10F3F95E1F7',
+  'D58BB': 'D30CC292435E3E1D529FF17094C3F34217E',
+  'D5A46': '6F24508845AFE2834F6B741BD73D5AB0BE7',
+  'D5C38': '1A699ABABC3447703DB46A9CD1E7BB10F7A',
+  'D5C90': '6EF3E461FA1EA190FCF3B694579B9647731',
+  'D5EC7': '4E16154E8964A6D3CB10EC0FCCCEA3C2B9E',
+  'D5EFD': '44D3B631AAC9A62610D7CDBBE750A4C29B3',
+  'D6481': '5889A08E7A027D40C0067B29206FFA1639E',
+  'D6955': 'D9721560531274CB8F50FF595A9BD39D66F',
+  'D6CFE': '5E76C8347BC803168FE861F69FCC69CC79C',
+  'D6D17': '9707A746AFC233F3DFC4E96608319DA6177',
+  'D6F7D': 'C74A8B9C6AEC2753204C6136FE6F516C929',
+  'D6FA9': 'C95654CE6F52D449741472856E62094B60A',
+  'D714D': '8456935FA20E60BD9E661423CB2583C79D9',
+  'D7861': '37A312E9FFD38408815B0B951E5B5E2A3AB',
+  'D7966': '074B3D619B43EE1C6296AE5332C48D6CB1C',
+  'D7E6B': '720C5C5A6FDDCF0BED70C1B3F3637337697',
+  'D81B6': '9B3443BE6529521AE051E08515F45B39BF1',
+  'D8223': '27225A4DC6AA6385E1F7EABC9050888CEC8',
+  'D869D': 'B7FE62FB07C25A0403ECAEA55031744B5FB',
+  'D886B': '1402780C62D42243F93F7837C731347A841',
+  'D8940': '4CF21173233E6C5117E3E15350C8B2A5085',
+  'D8C64': 'FB4213DC46D51A012E4F69D5890E544171B',
+  'D8CD1': '0B920DCBDB5163CA0185E402357BC27C265',
+  'D9EF1': '09E5C00745164C3553EEE9E1A0C1D3CF723',
+  'D9FB4': '82A7EA1F85EBD1051D8B89EF8D54538EAA5',
+  'DA0E1': '59D5D4299044F79F21022B30F585ED2166B',
+  'DA5D5': 'AD63EEB35E0D77B5D5F3C9C612BBD0855A7',
+  'DAB85': '0CC17977BFD6DF5A4094BECFA978EA153AE',
+  'DAD1E': '5F4B84D0ADA3F2AB71A4E434EFE0EF04020',
+  'DB1B0': '3159755F2D3EB1B24472565CE151988C4F9',
+  'DB25F': '2FC14CD2D2B1E7AF307241F548FB03C312A',
+  'DB38D': 'F3462B0FD502123EC9D06D02095CA55B28B',
+  'DB5BF': '6DBF9D79F96BCFE0572B9E251C5E9A29985',
+  'DB7DB': '5897571E433FD1EBC420D06EB91142AAFFB',
+  'DB86A': '7C1A09F16B03543758253533195766E39E7',
+  'DB8E1': 'A78603096402D443F50A27856B48D329D94',
+  'DBC1C': '6792910A5ADE9EB6DD59EA527473C912778',
+  'DBC5E': 'B621DC05FF94B56A8A3B51DCB0A13D3D72E',
+  'DBCE7': '05929C7DC1924EA1173F37652BB00F96D6D',
+  'DBEC2': '06B8688C80FFD85F0F625779C374C7E592C',
+  'DC0C6': '0C3A04265F1B8A5E23141BAD3A10DC7E89A',
+  'DC14C': '654990A86E8CDA87A5612C12F7275FEF286',
+  'DC76E': '9F0C0006E8F919E0C515C66DBBA3982F785',
+  'DC796': 'FFDB94337B1B76087DED630ADA2E7A02ACD',
+  'DCAF5': '7F8A6E56F1CE4E3DEDAD9AC5F0BE2868218',
+  'DCB94': 'B0B87D6222FD6F30214FE01ABE179A9B16E',
+  'DCC83': '626D09533528F615F517B48DD739EB93BD7',
+  'DCEEE': 'F63BCE33DAE64E0500AA6DADFC79FFBC912',
+  'DD08B': '58E1D30DAD48D37A35A8760CFFE8D756CFA',
+  'DD5FE': 'F9C1C1DA1394D6D34B248C51BE2AD740840',
+  'DD918': '8598767FE0562BD87539B08BD47B4F3865D',
+  'DDBC2': '6033549A2E86BACFB30BA89641B6B896022',
+  'DDF1C': 'EAF0A82B73024B0A57D2FE3BBBA44EBA58C',
+  'DDF45': '997A7E18A25AD5F5CF222DA64814DD060D5',
+  'DE2D2': 'E4D7DE3A66B0254C3045669ED045F48484E',
+  'DE38F': '300011969A1CA8042059AF71FF70DFCBD83',
+  'DE408': 'E8DEED34E168C829245E0D2ACBD6A9056F8',
+  'DE428': '5EE8A9FB99C856C61C9025A01DD104AA506',
+  'DE4AB': '6E26DB462B930510BA83E9F80B7DB2BEF88',
+  'DEA74': '2E166979027AE70B28E0A9006FB1010E760',
+  'DEFE3': 'F685F8795C9A6D25CCE9A773AF975D307DD',
+  'DF53E': '98ABA8750959D65AFC18A5F5C94E6EBF59E',
+  'DF81B': 'D89CBEBAA0D60F5AC21614C78B2A6BB3C11',
+  'DF97A': '42549E5C0E1753B985126565531CC9F3C56',
+  'E002F': '954E9F5CB1891E752A2C106D94E1EB1A6F7',
+  'E0324': '7CCF99F6364652368848D40F87705D7943E',
+  'E07C4': '32320DE593B80D14993C5683D7ACF8AB6E1',
+  'E07F8': 'C4AB682212744526982F0F08D336E1C9041',
+  'E0C6B': 'FB7C659EE8DA60EF65D9E46CB95A192AFCE',
+  'E0C95': '748A455C27A80FD289269120D4944D1F318',
+  'E1048': '757E84DE648893779C46D1E08B7F938123C',
+  'E1345': 'BAABD92FCA43278FDFE27CCDCB9957B0212',
+  'E1456': 'A6047B75E13BD50E1298AA53D888E29FC70',
+  'E147E': '69525827C8B205D0AFECF42260D55F130A0',
+  'E209B': 'ABC3AE3EDE7C0B4EED2424C8BD239FD59E0',
+  'E2285': '6364311ADA5614FB89B17A3490CE3BCAE95',
+  'E2869': '77B13F1A89E20D0459207545D15FE1EBA08',
+  'E2AD2': '7448450222FFF6E996D4A942B931AE14ABC',
+  'E35BE': 'CE6C5E6E0E86CA51D0440E92282A9D6AC8A',
+  'E38AD': '214943DAAD1D64C102FAEC29DE4AFE9DA3D',
+  'E3CD9': 'F6469FC3E1ACFB9F2BDBFC5A3D2BBB8E2AD',
+  'E3D4A': '22607375FA6317258DF8AC5407CB382370D',
+  'E41D0': 'CEBD8D17C1115FB526D99FC35E9493CA970',
+  'E41FD': '6D4B8F31110F6D3814F98E5DF5871130EF7',
+  'E4407': 'A46DDC264788FB1615469A18DDECF92B27C',
+  'E46DA': 'ABA736ACFBA7F9BFD7B71D257810D5FD27B',
+  'E4D8B': 'A04D0C630C70501EA0779A7DFA62B1481EC',
+  'E509C': '34E9BD3F8025607CFE2FD983DEBBB2A83B9',
+  'E52E5': 'E6CD50EF4DE30D8A4FAFBBFAB41180CC200',
+  'E5C2F': '55423CAA3C6DB711440DE2BD6F30191EB19',
+  'E5E9F': 'A1BA31ECD1AE84F75CAAA474F3A663F05F4',
+  'E6146': '16DF52430DF99AC4F14B46802352D56EED0',
+  'E6427': '457497FE0F4F93A7334D2203B8E17EE82DF',
+  'E643E': '81D2800486AB1928E09016F949B1892CD27',
+  'E670A': 'F555A453A7C88863B5089FE1B4F73D2F5E6',
+  'E6852': '777C0260493DE41FB43918AB07BBB3A659C',
+  'E68E1': '1BE8B70E435C65AEF8BA9798FF7775C361E',
+  'E6B5D': 'B69A9C33A78934C7EA816DDF8D7F0887D0B',
+  'E721F': 'E954C2B85ACE09AF68B02600F24F4BF315A',
+  'E7578': '7856C781087B5FB7845907043578F132E63',
+  'E76A4': '3EACC765A48E22FD7337C997EECFF69E73F',
+  'E76DA': 'C66147F4362ACDA423A01932A9596D1BC87',
+  'E7799': '8CABD556932E10240076B8B3468C6B6F7B5',
+  'E7BF5': '5BB43D0B357DDA9184AA244BD79A62BB97C',
+  'E7D53': '7E128158790157EA057BB883E0292A84930',
+  'E8126': 'C64C3486E84081FFFAD6A0AB22D4267BB41',
+  'E81B7': '6C29F67C5D0C4037DB55669546BBCD66BD1',
+  'E82E7': '1F923EE250578E29F4DA8DA98E1420E1F83',
+  'E8AFA': '59ED9036D14B1726AEA5A35AEBA9AF412FA',
+  'E94CF': '3A2849683D2AF82C53B6999310B8E201226',
+  'E95C7': 'EC0C2FD94873EA084B73DEB434C6D758F3B',
+  'E95D1': 'FA3496EA887E51874C45065D023E17F0B0F',
+  'E9751': 'BD2070FFB2085B6E9C477D79191D163C701',
+  'EA764': 'D45FFC8121E41C44CAE6305F7CB2513AABE',
+  'EAB0F': '0D675765E4F0E8773762673A9D86F53028C',
+  'EACB2': '3A25520D3EFF1A77D93EA605683D5AB0C47',
+  'EAE30': 'E82C1AFF4FEAC9EA5EA27FE317C4CB19FA1',
+  'EB035': '84442316CF2AE35E60EE1065E9140BF41CB',
+  'EB22C': '5E28ADF024CFEE08804C00DDB9AC2973892',
+  'EB373': '595EA521D0A38961C49E3834EBF7A8923B2',
+  'EB3B0': 'C150D06E5AA2E8D921FEA8C1056C1FEA6F8',
+  'EB40F': 'D083F825A806522A612F4BE5542F895864D',
+  'EB49E': '3CD35638088997A2F1597C0BD1963CAADFE',
+  'EB4DA': '12BF661C55780BA953E97DDE6341B4C556D',
+  'EB564': '145C24984C394D771AB1A9777CC8BB6FE85',
+  'EB6E2': 'BB2689EE81313624B264E48FB83306616E8',
+  'EBB3C': '97FE18ACCF2391EF54C6B083DAB8751A863',
+  'EBBE4': '45C36F82A2F402F7880D61A2E7B9AF52085',
+  'EBFC7': '910077770C8340F63CD2DCA2AC1F120444F',
+  'EC0FA': 'A3F3805538625A61EFFB74841D1F263976E',
+  'EC1CA': '03749DFCC9C93FC1F4140DD6BB2744594BA',
+  'EC2AC': '7B0E2170E3B1C73C8ABDD91D0C9D273A063',
+  'EC2D7': '744C603BAF507E66BF82835DFB6204656A8',
+  'EC30A': 'DC79E734900430E4174CF0A36C2D0C42272',
+  'EC408': '3CA341DA86269204F1FDEBBA909F0F5699E',
+  'EC461': 'B5480380ECF863D9802EDBE70152AEE1C46',
+  'EC5A7': 'C3E21436A8E76716710CE551356F9AA745E',
+  'EC5C7': '7670BB58C88BFEF2C3DF7B155D6458BD147',
+  'EC654': '393F7E8318D0086455F78687CB8578DC574',
+  'EC65A': '740F5A00CAFE7C7FB6DE725FE369C87F0DE',
+  'ED799': '70D4DDFCE37B94018606326941D9FC1CC87',
+  'ED8DE': '449BA6EDCC7813FC7A7BCA04E79E7ABEA9D',
+  'ED97F': '86F1C5A082CDBEFF54CB6471A930A2E69C2',
+  'ED9D3': 'D832AF899035363A69FD53CD3BE8F71501C',
+  'EDA1E': 'B55D1A532A76654D1C7384F542EE7F629EA',
+  'EDE74': '204CD2F715845E829B83805973872C0B6D4',
+  'EDF48': 'CC382D9AE6D48F6A936A426E23B26F77575',
+  'EDF90': '9D758A607D600D08CAF8FABC2E78E0E59DD',
+  'EE461': '858B0AE16750ECA05CF10751B9D6E7B91A5',
+  'EE76A': 'D57ACED8B13A70B21894BB178713958F48E',
+  'EE8D8': '728F435FD550F83852AABAB5234CE1DA528',
+  'EEFF5': '1AA441367F32EFF6069AF178871A29BA2A6',
+  'EF0EB': 'BB77298E1FBD81F756A4EFC35B977C93DAE',
+  'EF170': '267A075E94CB86DE95BD84D0172801D7241',
+  'EF4F5': 'FA62E5A7408A65A7C97633C1E73C452E11A',
+  'EF5EC': '981D6DA12269022966B2D0D9BDAD6CF5E61',
+  'EF715': 'EB446F05A116AC2C135664106FBE55BB91E',
+  'EF783': '0DB5BFBF3536820C00105AB5734EF4609FC',
+  'EF842': '0D70DD7676E04BEA55F405FA39B022A90C8',
+  'EF971': 'EE38BBA25D9AC8A840D235457A038448B09',
+  'EFD28': '216A19DD874D654B1DD8698CB29B88F31C1',
+  'EFDDE': '0B382A1C336A5AAEA9990B6A6986A36BA79',
+  'EFE53': '1E0B2B68BA5A9B665752809432432197A07',
+  'EFEBD': 'FC78EA1935C4B926324522B452B766FBC76',
+  'F0130': '51BC8CA9723A379A9D2D90532731B15A330',
+  'F018F': '1458EF48EBB0DF73AE2C0A8F38D2C587D54',
+  'F02A7': '61D8DA05F8E20DEC91A8463BB198C2C02FC',
+  'F0744': 'D60DD500C92C0D37C16174CC58D3C4BDD8E',
+  'F074C': '5AA086728B7D2B45E467F6CEC92CB6D35BB',
+  'F08AB': 'A189B52523C3B54B7070EDE8FE034719D5D',
+  'F0D61': '723FDF7301391BEA5FFF1EF28FA3C7D0EEA',
+  'F0E54': '3E7032608C80D6422591F9BFC839F4B87D5',
+  'F0F9B': 'C431E2B1F485965BB3448D0D81D5BA62BAE',
+  'F0FC7': '3FB35842CD53522BE75D8768C85F3DCB668',
+  'F11EA': '658082349955674A565FE658AD5BEDFB328',
+  'F15E5': '18A239A5DDBC4E7F942B93B7FBD60C1048D',
+  'F1941': '4373D5CE773BD4A9EC0FA538EADD5CAA005',
+  'F23EE': '8A246CAD0E1C04532B1258B93E12B169570',
+  'F2439': 'E4EA89A947308076ED64BCB5EDD10BA4892',
+  'F272D': '2217E5FCABBD1C25222DC946E5684C0212B',
+  'F2847': 'B1BD9624F927E979C1846D9FE17DD65F518',
+  'F299A': 'F7909D52E387D4FA60B1AC52283AD4D27D7',
+  'F2A12': 'F187EBB7080BD75AAC9160214E6B1E49F7D',
+  'F2A62': 'DEA3C9CBE7382040DBB69259EA6EDCC1CD1',
+  'F2B14': 'F68EB995FACB3A1C35287B778D5BD785511',
+  'F2D7F': '8203D17D4C2F64897600463FE7F19E51B5C',
+  'F2DEE': '2A00B00894BA6DEFA40A86BB6CB3B65F30D',
+  'F2E83': '2C1431D1682AC45470BBE99708AD29E616B',
+  'F302A': '7F2CEB402B3269C41A9BE9564C6B7E693A3',
+  'F3215': '7A45887E4FE5ADC0B5198F7EC4920A526D7',
+  'F32D5': 'A3B17E614297417CC279A7EC1CD02274D65',
+  'F35BC': '30C0AB883785EB8909FE8DB729E6E591A9E',
+  'F39B1': '5CD58425D41EF0459B17F512AFC0173B46D',
+  'F3BBB': 'D66A63D4BF1747940578EC3D0103530E21D',
+  'F3D11': 'F4AD2A240E00B463518A8F136AC2D607047',
+  'F3E34': 'E9C00C45A93756A716184C135A12B363446',
+  'F43C6': '3487D0AD4AE15CEE5B822F7A1763C05F734',
+  'F458E': 'F050C0CA014FB8F2FDB27AC9B5F69123CFD',
+  'F4742': '5A89701931950517D1F589E1284DEB3AFAE',
+  'F4793': '76B1E4FAC44DC6BCC3707EA8E522C68ED03',
+  'F481A': '118F892210056B65C4BAFC3B07181E1731B',
+  'F485F': 'A3FC36D9252B12138780D371AA447BD20BD',
+  'F4A15': '29440E0C551E92C6474013D629D4AB06D92',
+  'F4A69': '973E7B0BF9D160F9F60E3C3ACD2494BEB0D',
+  'F4E7A': '8740DB0B7A0BFD8E63077261475F61FC2A6',
+  'F4EE7': '415066B23ED0C5555E3A10AA76726A995D7',
+  'F5514': 'F6C8486F87A2000C2A6B232A5900156ACED',
+  'F58CF': '5E7E10F195E21B553096D092C763ED18B0E',
+  'F5C2F': '51A66D417383A299B50280476FA0F0A727C',
+  'F64E2': '122625D1B5946B1B2DDBA967ED636027D90',
+  'F6680': '19FC3200E805B48FC724033035712424DB9',
+  'F68D9': '4CECDD31CF05CF2A5B34056D8AEFE1E2449',
+  'F6948': '6DDD2C84512167DF96A8C0B2E9C7C775B53',
+  'F6AFB': '5351BFB2224CE78C4695563EA08D66E3FA7',
+  'F6B68': 'D29A8C9E52E4E746D603AA104D5D5A0DCA6',
+  'F6E9F': '78387902CBD5E97CD6D6D7EC14AA915DCE1',
+  'F71B4': '7E5F8BE4C6E31DAD9F5BB646B0D544B5A90',
+  'F71FE': '67A9E4B4FF8318C6773B088ABCF3E537073',
+  'F732D': 'FDBD0AED62727F958CCCCA9EC3A5CB13EDA',
+  'F741C': 'C7D1AAAA5FC112607B46A765AB7DF014DD2',
+  'F7684': '5B1BA89F13A0804EE1D4910143587E1CC6A',
+  'F7A9E': '24777EC23212C54D7A350BC5BEA5477FDBB',
+  'F7B32': 'D6F7F590BB042A90AF65244BCC91146078C',
+  'F7C3B': 'C1D808E04732ADF679965CCC34CA7AE3441',
+  'F7F3A': 'F86CCA9A648D7ACB05B4C25D9F78FB6F59D',
+  'F7FF9': 'E8B7BB2E09B70935A5D785E0CC5D9D0ABF0',
+  'F80B3': '1281E11999D009FE79D335A531E686BA2CB',
+  'F80D0': 'CA101E967B50B730DDF8E8ACA0DE85E8DF6',
+  'F8241': 'DC98CFD66270D883121E512EF7F07D5CA47',
+  'F8248': 'E12727710C946F73D8F6E02EB93530DD9DE',
+  'F8548': 'C86A8BDA78745D9B0789077222D921B1F54',
+  'F865B': '53623B121FD34EE5426C792E5C33AF8C227',
+  'F872C': 'AAD177D67BBE18C119D0505F2D3CAA02AF3',
+  'F872D': 'FF066FDAED1B9002EEC00980AACBA4DE4B7',
+  'F87F9': 'A0C763088A8EF49C16EEF25E65B2E8CDF80',
+  'F8A48': 'E5BA1072379DAFE561AC15D1A90C0690985',
+  'F8C38': 'B2167C0AB6D7C720E47C2139428D77D8B6A',
+  'F977B': '03753624D00A92BA5484778E5B71847DE7A',
+  'F9AD4': '46FE4D66596CBF2F9223D69177835C59A37',
+  'F9D36': '9A535E6FBA635447B67DF1C9F6EB54C7E4D',
+  'F9DC4': 'D5D844D08B6C4CAEE59105A4BB10381FFAF',
+  'F9F5D': '7C3D10EAEC44F76D7E61B30D7F3C636A976',
+  'FA3C9': 'ECFC251824DF74026B4F40E4B373FD4FC46',
+  'FA757': '2FD8C66E8ABA21FC0EFE6357D28A600B313',
+  'FA9BE': 'B99E4029AD5A6615399E7BBAE21356086B3',
+  'FAC67': '3092FBDCAB2CD92EFC19675F2750ED97CA1',
+  'FB315': '1C8055F095ADD2052ACC83EE74FB04B7552',
+  'FBA9F': '1C9AE2A8AFE7815C9CDD492512622A66302',
+  'FBE9E': '7D47FBBDB0A796C84CB74B8E345820C001D',
+  'FC0E8': '31DFA0424589F96EF3D5134AE4302940707',
+  'FC111': '243612C988464AF673DACF4A2FE051CFDA5',
+  'FC130': 'C69B55E31410EBE023304D812B4E4E4E736',
+  'FC58C': '8824511B9AA9D2C0D25C242EF042FA1753C',
+  'FC84A': 'AA687374AED41957693F32664E5F4981862',
+  'FCA56': 'AE2E4FEC3906AC5A237204E9A894DA96D4F',
+  'FCB8A': 'F0F7A61CA89B982DF008804BF55EF2A43B8',
+  'FCB8F': '40140297C7D1E3464C53E1F9A8BC4DDBEDF',
+  'FCC13': 'CCAE73DC28EB436889A2A4989F192CB8387',
+  'FCDB1': 'EFC200970CFF5B9D0CE2E3BA075C4E98EFD',
+  'FCDF2': '56371719D1C93F2D900CAA6599F7A6D7CDE',
+  'FCE1A': '799A2FA717AB99D96B8403AAE0B14B6D834',
+  'FD1D4': '919285F9929CB1D4E7F9B2A79B5C8C19C9C',
+  'FD71C': 'AE454CF0AE5BF54FF7EFEF681EF71FE1507',
+  'FDB87': 'DFD199045AF7165780B11640B83768A0D57',
+  'FDE0F': '5F194BD66650D6AEB04363C665B0B0D2CC5',
+  'FE0D6': '523ECCB365C4740635E1712B8A73C54FD2D',
+  'FE24C': '5F63B4E401E66C021A3A76420A7A23DE9B4',
+  'FE2C9': '038D7D5822C1FD6742F00D45CFD76A20BA2',
+  'FF055': 'FA79FBDFCDB17F08CBE1E645F069C143D9A',
+  'FF0EB': 'A8A94463BDA3E59D81453C08AE0F3E480EE',
+  'FF2E2': 'C462C9A63FB95C4786EAD2CC0EE415655A2',
+  'FF345': '27C3397E21CEEE902A0C556C42D3DE36983',
+  'FF6C2': 'A1AC05D9FDF2F5659B06850F405D44D502A',
+  'FF7B2': '6A00645DFAF42F3C04246F7BC18A55B573E',
+  'FF92D': '02C1B04CBE5EAF7185ED580EB8B75654484',
+  'FFAAA': 'FBDEE1DE041310096E1FF171618A2049F6E',
+  'FFC7B': '1A14AFB45758C33AACAD4ED44CA2DE82BE4',
+  'FFD05': '8FA0155B6FF25758636CF53C268FA4FD81E',
+  'FFFB9': '3F7F3DBA3A96F6BB516302722D79865F543',
+}
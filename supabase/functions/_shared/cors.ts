@@ -0,0 +1,10 @@
+const METHOD_ORDER = ['GET', 'POST', 'PUT', 'DELETE']
+
+export function corsHeaders(methods: string[]): Record<string, string> {
+  const allowed = METHOD_ORDER.filter(method => methods.includes(method))
+  return {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Methods': [...allowed, 'OPTIONS'].join(', '),
+  }
+}
@@ -0,0 +1,33 @@
+// An error with the HTTP status it should be answered with; the pipeline turns it into { error }
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message)
+    this.name = 'HttpError'
+  }
+}
+
+export function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  })
+}
+
+// Parses a JSON object body; `validate` returns an error message for a body it rejects
+export async function readJson<T>(req: Request, validate?: (body: T) => string | null): Promise<T> {
+  let body: unknown
+  try {
+    body = await req.json()
+  } catch {
+    throw new HttpError(400, 'Request body must be valid JSON')
+  }
+
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new HttpError(400, 'Request body must be a JSON object')
+  }
+
+  const message = validate?.(body as T)
+  if (message) throw new HttpError(400, message)
+
+  return body as T
+}
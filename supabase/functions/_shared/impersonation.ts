@@ -0,0 +1,28 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { HttpError } from './http.ts'
+import { sessionId } from './auth.ts'
+
+export interface Impersonation {
+  id: string
+  admin_id: string
+  target_user_id: string
+  session_id: string
+  reason: string | null
+  started_at: string
+}
+
+// The other user the request's session is viewing the app as, if any
+export async function activeImpersonation(supabase: SupabaseClient, req: Request): Promise<Impersonation | null> {
+  const currentSessionId = sessionId(req)
+  if (!currentSessionId) return null
+
+  const { data, error } = await supabase
+    .from('impersonation_sessions')
+    .select('id, admin_id, target_user_id, session_id, reason, started_at')
+    .eq('session_id', currentSessionId)
+    .is('ended_at', null)
+    .maybeSingle()
+
+  if (error) throw new HttpError(500, 'Unable to check for an active user view')
+  return data
+}
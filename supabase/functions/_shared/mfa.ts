@@ -0,0 +1,20 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { HttpError } from './http.ts'
+
+// Removes every authenticator of the user, returning how many there were
+export async function deleteFactors(supabase: SupabaseClient, userId: string): Promise<number> {
+  const { data: factorsData, error: factorsError } = await supabase.auth.admin.mfa.listFactors({ userId })
+
+  if (factorsError) {
+    throw new HttpError(500, factorsError.message)
+  }
+
+  for (const factor of factorsData.factors) {
+    const { error: deleteError } = await supabase.auth.admin.mfa.deleteFactor({ id: factor.id, userId })
+    if (deleteError) {
+      throw new HttpError(500, deleteError.message)
+    }
+  }
+
+  return factorsData.factors.length
+}
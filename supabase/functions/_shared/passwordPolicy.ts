@@ -0,0 +1,165 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { HttpError } from './http.ts'
+import { COMPROMISED_PASSWORD_RANGES } from './compromisedPasswords.ts'
+
+export interface PasswordPolicy {
+  min_length: number
+  require_uppercase: boolean
+  require_lowercase: boolean
+  require_number: boolean
+  require_special: boolean
+  special_characters: string
+  max_age_days: number | null
+  history_depth: number
+  banned_words: string[]
+}
+
+export interface PasswordValidationResult {
+  isValid: boolean
+  message: string
+  errors: string[]
+  // 0 (very weak) to 4 (strong)
+  score: number
+  // Suggestions for a stronger password
+  feedback: string[]
+}
+
+// Whose password is checked, so that it cannot contain their email address or name
+export interface PasswordOwner {
+  email?: string | null
+  full_name?: string | null
+}
+
+export const PASSWORD_POLICY_FIELDS: (keyof PasswordPolicy)[] = [
+  'min_length',
+  'require_uppercase',
+  'require_lowercase',
+  'require_number',
+  'require_special',
+  'special_characters',
+  'max_age_days',
+  'history_depth',
+  'banned_words'
+]
+
+export async function getPasswordPolicy(supabase: SupabaseClient): Promise<PasswordPolicy> {
+  const { data, error } = await supabase
+    .from('password_policy')
+    .select(PASSWORD_POLICY_FIELDS.join(', '))
+    .single<PasswordPolicy>()
+
+  if (error || !data) {
+    throw new HttpError(500, 'Unable to load the password policy')
+  }
+
+  return data
+}
+
+// Errors for each rule of the policy the password breaks. Mirrors evaluatePasswordRules in
+// src/utils/validation.ts, which gives the same answer while the user types.
+export function policyErrors(password: string, policy: PasswordPolicy): string[] {
+  const errors: string[] = []
+
+  if (password.length < policy.min_length) {
+    errors.push(`Password must be at least ${policy.min_length} characters long`)
+  }
+  if (policy.require_uppercase && !/[A-Z]/.test(password)) {
+    errors.push('Password must contain at least one uppercase letter')
+  }
+  if (policy.require_lowercase && !/[a-z]/.test(password)) {
+    errors.push('Password must contain at least one lowercase letter')
+  }
+  if (policy.require_number && !/[0-9]/.test(password)) {
+    errors.push('Password must contain at least one number')
+  }
+  if (policy.require_special && ![...password].some(character => policy.special_characters.includes(character))) {
+    errors.push(`Password must contain at least one special character (${policy.special_characters})`)
+  }
+
+  const bannedWord = policy.banned_words.find(word => word && password.toLowerCase().includes(word.toLowerCase()))
+  if (bannedWord) {
+    errors.push(`Password must not contain "${bannedWord}"`)
+  }
+
+  return errors
+}
+
+async function sha1Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(value))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('').toUpperCase()
+}
+
+// Hash suffixes of the bundled compromised passwords whose SHA-1 starts with the five-character prefix
+export const compromisedSuffixes = (prefix: string): string[] =>
+  (COMPROMISED_PASSWORD_RANGES[prefix.toUpperCase()] || '').split(',').filter(Boolean)
+
+export async function isCompromisedPassword(password: string): Promise<boolean> {
+  const hash = await sha1Hex(password)
+  return compromisedSuffixes(hash.slice(0, 5)).includes(hash.slice(5))
+}
+
+// Parts of the owner's email address and name that are long enough to matter
+function personalWords(owner: PasswordOwner) {
+  const significant = (words: string[]) => words.map(word => word.toLowerCase()).filter(word => word.length >= 3)
+  return {
+    email: significant((owner.email || '').split('@')[0].split(/[^a-zA-Z0-9]+/)),
+    name: significant((owner.full_name || '').split(/\s+/))
+  }
+}
+
+// Strength from 0 to 4 by length and variety, less for repeated characters and sequences.
+// Mirrors scorePassword in src/utils/validation.ts.
+export function scorePassword(password: string): { score: number; feedback: string[] } {
+  const feedback: string[] = []
+  let points = password.length >= 16 ? 3 : password.length >= 12 ? 2 : password.length >= 8 ? 1 : 0
+  if (password.length < 12) feedback.push('Use 12 or more characters')
+
+  const classes = [/[a-z]/, /[A-Z]/, /[0-9]/, /[^a-zA-Z0-9]/].filter(pattern => pattern.test(password)).length
+  points += classes === 4 ? 2 : classes === 3 ? 1 : 0
+  if (classes < 4) feedback.push('Mix upper and lower case letters, numbers and symbols')
+
+  if (/(.)\1\1/.test(password)) {
+    points -= 1
+    feedback.push('Avoid repeating the same character')
+  }
+  const lowered = password.toLowerCase()
+  if (['abcdefghijklmnopqrstuvwxyz', '01234567890', 'qwertyuiop', 'asdfghjkl', 'zxcvbnm'].some(sequence =>
+    Array.from({ length: sequence.length - 3 }, (_, i) => sequence.slice(i, i + 4)).some(run => lowered.includes(run))
+  )) {
+    points -= 1
+    feedback.push('Avoid sequences such as "abcd", "1234" or "qwer"')
+  }
+
+  return { score: Math.max(0, Math.min(4, points)), feedback }
+}
+
+// Checks a password against the policy, the bundled list of compromised passwords and the
+// owner's email address and name, and scores its strength
+export async function validatePassword(password: string, policy: PasswordPolicy, owner: PasswordOwner = {}): Promise<PasswordValidationResult> {
+  const errors = policyErrors(password, policy)
+  const lowered = password.toLowerCase()
+  const personal = personalWords(owner)
+
+  if (personal.email.some(word => lowered.includes(word))) {
+    errors.push('Password must not contain your email address')
+  }
+  if (personal.name.some(word => lowered.includes(word))) {
+    errors.push('Password must not contain your name')
+  }
+
+  const compromised = await isCompromisedPassword(password)
+  if (compromised) {
+    errors.push('Password is too common or has appeared in a data breach')
+  }
+
+  const strength = scorePassword(password)
+  const isValid = errors.length === 0
+  return {
+    isValid,
+    message: isValid ? 'Password meets all strength requirements' : errors.join('. '),
+    errors,
+    // A rejected password is never rated above weak, and a compromised one is rated very weak
+    score: compromised ? 0 : isValid ? strength.score : Math.min(strength.score, 1),
+    feedback: strength.feedback
+  }
+}
@@ -0,0 +1,151 @@
+import { createClient, type SupabaseClient, type User } from 'npm:@supabase/supabase-js@2'
+import { corsHeaders } from './cors.ts'
+import { HttpError, json } from './http.ts'
+import { authenticate, getCallerPermissions, hasPermission, isRecoverySession, requireAssuranceLevel, requirePermission, type CallerPermissions } from './auth.ts'
+import { recordAudit, type AuditEntry } from './audit.ts'
+import { activeImpersonation } from './impersonation.ts'
+
+type Method = 'GET' | 'POST' | 'PUT' | 'DELETE'
+
+export interface PublicRouteContext {
+  req: Request
+  url: URL
+  params: Record<string, string>
+  supabase: SupabaseClient
+}
+
+export interface RouteContext extends PublicRouteContext {
+  user: User
+  // Permissions of the user, or of the user they are viewing the app as
+  caller: CallerPermissions
+  // Records an entry in the audit log with the user as actor
+  audit: (entry: AuditEntry) => Promise<void>
+}
+
+// Context of a route that also accepts the service role key, e.g. from a scheduled job; there is
+// no user or caller then
+export interface ServiceRouteContext extends PublicRouteContext {
+  user: User | null
+  caller: CallerPermissions | null
+  audit: (entry: AuditEntry) => Promise<void>
+}
+
+interface RouteBase {
+  method: Method
+  // Path below the function name, with :name segments as params, e.g. ':id/repayments'
+  path: string
+  // Also served to sessions that have not completed multi-factor authentication
+  allowWithoutMfa?: boolean
+  // Also served to sessions opened from a password reset link before multi-factor authentication,
+  // so that the link can be used to set a password
+  allowRecoverySession?: boolean
+  // Also served for changes while the session views the app as another user, e.g. to stop doing so
+  allowWhileImpersonating?: boolean
+}
+
+export type Route =
+  | (RouteBase & { public: true; handler: (ctx: PublicRouteContext) => Promise<Response> })
+  | (RouteBase & { permissions?: string[]; allowServiceRole: true; handler: (ctx: ServiceRouteContext) => Promise<Response> })
+  | (RouteBase & { permissions?: string[]; handler: (ctx: RouteContext) => Promise<Response> })
+
+function matchPath(pattern: string, segments: string[]): Record<string, string> | null {
+  const parts = pattern.split('/').filter(Boolean)
+  if (parts.length !== segments.length) return null
+
+  const params: Record<string, string> = {}
+  for (let i = 0; i < parts.length; i++) {
+    if (parts[i].startsWith(':')) {
+      params[parts[i].slice(1)] = decodeURIComponent(segments[i])
+    } else if (parts[i] !== segments[i]) {
+      return null
+    }
+  }
+  return params
+}
+
+async function handle(name: string, routes: Route[], req: Request): Promise<Response> {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey)
+  const url = new URL(req.url)
+
+  // Functions are served under /functions/v1/<name> in production and /<name> locally
+  const segments = url.pathname.split('/').filter(Boolean)
+  const segmentsAfterName = segments.slice(segments.indexOf(name) + 1)
+
+  let route: Route | undefined
+  let params: Record<string, string> = {}
+  for (const candidate of routes) {
+    const matched = candidate.method === req.method ? matchPath(candidate.path, segmentsAfterName) : null
+    if (matched) {
+      route = candidate
+      params = matched
+      break
+    }
+  }
+
+  if (route && 'public' in route) {
+    return await route.handler({ req, url, params, supabase })
+  }
+
+  if (route && 'allowServiceRole' in route && req.headers.get('Authorization') === `Bearer ${supabaseServiceKey}`) {
+    const audit = (entry: AuditEntry) => recordAudit(supabase, req, null, entry)
+    return await route.handler({ req, url, params, supabase, user: null, caller: null, audit })
+  }
+
+  const user = await authenticate(supabase, req)
+  const caller = await getCallerPermissions(supabase, user.id)
+
+  if (!route) {
+    throw new HttpError(405, 'Method not allowed')
+  }
+
+  if (!route.allowWithoutMfa && !(route.allowRecoverySession && isRecoverySession(req))) {
+    requireAssuranceLevel(req, user, caller)
+  }
+
+  // A session viewing the app as another user reads with that user's permissions and changes nothing
+  const impersonation = hasPermission(caller, 'users:impersonate') ? await activeImpersonation(supabase, req) : null
+  if (impersonation && req.method !== 'GET' && !route.allowWhileImpersonating) {
+    throw new HttpError(403, 'Changes cannot be made while viewing the app as another user')
+  }
+  const effectiveCaller = impersonation ? await getCallerPermissions(supabase, impersonation.target_user_id) : caller
+
+  if (route.permissions) {
+    requirePermission(effectiveCaller, ...route.permissions)
+  }
+
+  const audit = (entry: AuditEntry) => recordAudit(supabase, req, user.id, entry)
+  return await route.handler({ req, url, params, supabase, user, caller: effectiveCaller, audit })
+}
+
+// Serves a function's routes: answers CORS preflights, authenticates the caller, checks the
+// session's MFA assurance level and the route's permissions (any one of them grants access),
+// keeps sessions viewing the app as another user read-only and turns thrown HttpErrors into JSON
+export function serve(name: string, routes: Route[]): void {
+  const cors = corsHeaders(routes.map(route => route.method))
+
+  Deno.serve(async (req) => {
+    if (req.method === 'OPTIONS') {
+      return new Response(null, { headers: cors })
+    }
+
+    let response: Response
+    try {
+      response = await handle(name, routes, req)
+    } catch (error) {
+      if (error instanceof HttpError) {
+        response = json({ error: error.message }, error.status)
+      } else {
+        console.error(`Error in ${name} function:`, error)
+        response = json({ error: 'Internal server error' }, 500)
+      }
+    }
+
+    for (const [header, value] of Object.entries(cors)) {
+      response.headers.set(header, value)
+    }
+    return response
+  })
+}
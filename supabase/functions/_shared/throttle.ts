@@ -0,0 +1,98 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { HttpError } from './http.ts'
+import { clientIp } from './audit.ts'
+
+export interface LoginSecuritySettings {
+  max_failed_attempts: number
+  max_failed_attempts_per_ip: number
+  failure_window_minutes: number
+  lockout_minutes: number
+  delay_after_failures: number
+  max_delay_seconds: number
+  password_requests_per_minute: number
+  idle_timeout_minutes: number
+  idle_warning_seconds: number
+  max_session_hours: number
+}
+
+export const LOGIN_SECURITY_FIELDS: (keyof LoginSecuritySettings)[] = [
+  'max_failed_attempts',
+  'max_failed_attempts_per_ip',
+  'failure_window_minutes',
+  'lockout_minutes',
+  'delay_after_failures',
+  'max_delay_seconds',
+  'password_requests_per_minute',
+  'idle_timeout_minutes',
+  'idle_warning_seconds',
+  'max_session_hours'
+]
+
+export async function getLoginSecuritySettings(supabase: SupabaseClient): Promise<LoginSecuritySettings> {
+  const { data, error } = await supabase
+    .from('login_security_settings')
+    .select(LOGIN_SECURITY_FIELDS.join(', '))
+    .single<LoginSecuritySettings>()
+
+  if (error || !data) {
+    throw new HttpError(500, 'Unable to load sign-in security settings')
+  }
+
+  return data
+}
+
+export const normaliseEmail = (email: string) => email.trim().toLowerCase()
+
+// Lockouts of the given emails that are still in force, as { email: locked_until }
+export async function activeLockouts(supabase: SupabaseClient, emails: string[]): Promise<Map<string, string>> {
+  const lockouts = new Map<string, string>()
+  if (emails.length === 0) return lockouts
+
+  const { data, error } = await supabase
+    .from('login_lockouts')
+    .select('email, locked_until')
+    .in('email', emails.map(normaliseEmail))
+    .is('unlocked_at', null)
+    .gt('locked_until', new Date().toISOString())
+
+  if (error) {
+    throw new HttpError(500, error.message)
+  }
+
+  for (const lockout of data || []) {
+    const current = lockouts.get(lockout.email)
+    if (!current || current < lockout.locked_until) lockouts.set(lockout.email, lockout.locked_until)
+  }
+  return lockouts
+}
+
+// Rejects a password check or change once the caller (the user when signed in, otherwise the
+// address) has made more than the allowed number in the last minute, then records this one
+export async function throttlePasswordRequest(
+  supabase: SupabaseClient,
+  req: Request,
+  kind: 'validate_password' | 'update_password',
+  userId: string | null
+): Promise<void> {
+  const settings = await getLoginSecuritySettings(supabase)
+  const ip = clientIp(req)
+  const since = new Date(Date.now() - 60 * 1000).toISOString()
+
+  let query = supabase
+    .from('auth_attempts')
+    .select('id', { count: 'exact', head: true })
+    .eq('kind', kind)
+    .gte('created_at', since)
+  query = userId ? query.eq('user_id', userId) : ip ? query.eq('ip_address', ip) : query.is('ip_address', null)
+
+  const { count, error } = await query
+  if (error) {
+    throw new HttpError(500, error.message)
+  }
+
+  if ((count || 0) >= settings.password_requests_per_minute) {
+    throw new HttpError(429, 'Too many password requests. Please wait a minute and try again.')
+  }
+
+  await supabase.from('auth_attempts').insert({ kind, user_id: userId, ip_address: ip, succeeded: true })
+}
@@ -0,0 +1,40 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { HttpError } from './http.ts'
+import type { CallerPermissions } from './auth.ts'
+
+// Whether the caller sees records of the unit; records without a unit are only seen by callers
+// who see every unit
+export const canSeeUnit = (caller: CallerPermissions, unitId: string | null | undefined) =>
+  caller.unitIds === null || (!!unitId && caller.unitIds.includes(unitId))
+
+// Records can only be placed in units the caller sees, so a caller limited to some units cannot
+// leave a record without one
+export function requireAssignableUnit(caller: CallerPermissions, unitId: string | null | undefined): void {
+  if (!canSeeUnit(caller, unitId)) {
+    throw new HttpError(403, 'Records can only be placed in your own organisational units')
+  }
+}
+
+// Records that span every unit, such as a bank account's postings or a dividend run, are only
+// handled by callers who see every unit
+export function requireEveryUnit(caller: CallerPermissions, message: string): void {
+  if (caller.unitIds !== null) {
+    throw new HttpError(403, message)
+  }
+}
+
+// Units a list is narrowed to: the caller's units, and of those only the requested unit and the
+// units below it when one is asked for; null when the list is not narrowed
+export async function unitFilter(
+  supabase: SupabaseClient,
+  caller: CallerPermissions,
+  requestedUnitId: string | null
+): Promise<string[] | null> {
+  if (!requestedUnitId) return caller.unitIds
+
+  const { data, error } = await supabase.rpc('organisation_unit_subtree', { p_unit_id: requestedUnitId })
+  if (error) throw new HttpError(500, error.message)
+
+  const subtree: string[] = data || []
+  return caller.unitIds === null ? subtree : subtree.filter(id => caller.unitIds!.includes(id))
+}
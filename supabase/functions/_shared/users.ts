@@ -0,0 +1,230 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { HttpError } from './http.ts'
+import type { CallerPermissions } from './auth.ts'
+import { canSeeUnit, requireAssignableUnit } from './units.ts'
+
+const frontendBaseUrl = Deno.env.get('FRONTEND_BASE_URL') || 'http://localhost:5173'
+
+export interface CreateUserData {
+  email: string
+  password: string
+  full_name: string
+  role_ids: string[]
+  menu_access?: string[]
+  sub_menu_access?: Record<string, string[]>
+  component_access?: string[]
+  organisation_unit_id?: string | null
+  // Unit each role is held in, by role id; roles left out are held across the organisation
+  role_units?: Record<string, string>
+}
+
+export interface UpdateUserData {
+  full_name: string
+  role_ids: string[]
+  menu_access: string[]
+  sub_menu_access: Record<string, string[]>
+  component_access: string[]
+  is_active: boolean
+  needs_password_reset?: boolean
+  organisation_unit_id?: string | null
+  role_units?: Record<string, string>
+}
+
+// A user as recorded in the audit log, with their roles as sorted names and the unit each of
+// the roles limited to one is held in
+export async function fetchAuditedUser(supabase: SupabaseClient, userId: string) {
+  const { data } = await supabase
+    .from('users')
+    .select('id, email, full_name, menu_access, sub_menu_access, component_access, is_active, needs_password_reset, organisation_unit_id, user_roles(organisation_unit_id, roles(name))')
+    .eq('id', userId)
+    .maybeSingle()
+
+  if (!data) return null
+
+  const { user_roles, ...user } = data
+  const assignments = (user_roles || []).filter(ur => ur.roles)
+  return {
+    ...user,
+    roles: assignments.map(ur => ur.roles.name).sort(),
+    role_units: Object.fromEntries(
+      assignments
+        .filter(ur => ur.organisation_unit_id)
+        .map(ur => [ur.roles.name, ur.organisation_unit_id])
+    )
+  }
+}
+
+// Sorted names of the given roles, e.g. to tell whether a change grants the admin role
+export async function fetchRoleNames(supabase: SupabaseClient, roleIds: string[]): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('roles')
+    .select('name')
+    .in('id', roleIds)
+
+  if (error) throw new HttpError(500, error.message)
+  return (data || []).map(role => role.name).sort()
+}
+
+export function requireRoles(roleIds: unknown): void {
+  if (!roleIds || !Array.isArray(roleIds) || roleIds.length === 0) {
+    throw new HttpError(400, 'At least one role must be assigned')
+  }
+}
+
+// A caller limited to some units can only place users, and the roles they hold, in those units
+export function requireAssignableUnits(caller: CallerPermissions, data: CreateUserData | UpdateUserData): void {
+  requireAssignableUnit(caller, data.organisation_unit_id)
+  for (const roleId of data.role_ids) {
+    requireAssignableUnit(caller, data.role_units?.[roleId])
+  }
+}
+
+// Users outside the caller's units are treated as if they did not exist
+export async function requireUserInScope(supabase: SupabaseClient, caller: CallerPermissions, userId: string): Promise<void> {
+  if (caller.unitIds === null) return
+
+  const { data: scopedUser } = await supabase
+    .from('users')
+    .select('organisation_unit_id')
+    .eq('id', userId)
+    .maybeSingle()
+
+  if (!scopedUser || !canSeeUnit(caller, scopedUser.organisation_unit_id)) {
+    throw new HttpError(404, 'User not found')
+  }
+}
+
+const roleAssignments = (userId: string, roleIds: string[], roleUnits: Record<string, string> | undefined) =>
+  roleIds.map(role_id => ({
+    user_id: userId,
+    role_id,
+    organisation_unit_id: roleUnits?.[role_id] || null
+  }))
+
+async function sendPasswordResetLink(supabase: SupabaseClient, email: string): Promise<void> {
+  try {
+    const { error: resetError } = await supabase.auth.admin.generateLink({
+      type: 'password_reset',
+      email,
+      redirectTo: `${frontendBaseUrl}/reset-password`
+    })
+    if (resetError) console.error('Failed to send password reset email:', resetError)
+  } catch (err) {
+    console.error('Error sending password reset email:', err)
+  }
+}
+
+// A user with their roles and the union of the roles' permissions, as the admin pages show them
+export async function fetchUserResponse<T extends { id: string }>(supabase: SupabaseClient, user: T) {
+  const { data: userWithRoles } = await supabase
+    .from('user_roles')
+    .select(`
+      user_id,
+      organisation_unit_id,
+      roles(
+        id,
+        name,
+        description,
+        role_permissions(
+          permissions(
+            id,
+            resource,
+            action,
+            description
+          )
+        )
+      )
+    `)
+    .eq('user_id', user.id)
+
+  const roles = userWithRoles?.map(ur => ur.roles).filter(Boolean) || []
+  const allPermissions = roles.flatMap(role => role.role_permissions?.map(rp => rp.permissions).filter(Boolean) || [])
+  const uniquePermissions = allPermissions.filter((permission, index, array) => array.findIndex(p => p.resource === permission.resource && p.action === permission.action) === index)
+
+  return {
+    ...user,
+    roles,
+    role_ids: roles.map(role => role.id),
+    role_units: Object.fromEntries((userWithRoles || []).filter(ur => ur.roles && ur.organisation_unit_id).map(ur => [ur.roles.id, ur.organisation_unit_id])),
+    permissions: uniquePermissions
+  }
+}
+
+// Creates the user in Supabase Auth and their profile and roles, and sends them a link to set
+// their own password
+export async function createUserAccount(supabase: SupabaseClient, data: CreateUserData) {
+  const { email, password, full_name, role_ids, menu_access, sub_menu_access, component_access, organisation_unit_id, role_units } = data
+
+  const { data: authUser, error: authError } = await supabase.auth.admin.createUser({
+    email,
+    password,
+    email_confirm: true
+  })
+
+  if (authError) throw new HttpError(400, authError.message)
+
+  const { data: newUser, error: profileError } = await supabase
+    .from('users')
+    .insert({
+      id: authUser.user.id,
+      email,
+      full_name,
+      menu_access: menu_access || [],
+      sub_menu_access: sub_menu_access || {},
+      component_access: component_access || [],
+      organisation_unit_id: organisation_unit_id || null,
+      needs_password_reset: true
+    })
+    .select('*')
+    .single()
+
+  if (profileError) {
+    await supabase.auth.admin.deleteUser(authUser.user.id)
+    throw new HttpError(400, profileError.message)
+  }
+
+  // The temporary password starts the user's password history
+  await supabase.rpc('record_password_change', { p_user_id: authUser.user.id })
+
+  const { error: userRolesError } = await supabase.from('user_roles').insert(roleAssignments(authUser.user.id, role_ids, role_units))
+
+  if (userRolesError) {
+    await supabase.auth.admin.deleteUser(authUser.user.id)
+    throw new HttpError(400, userRolesError.message)
+  }
+
+  const userResponse = await fetchUserResponse(supabase, newUser)
+
+  await sendPasswordResetLink(supabase, email)
+
+  return userResponse
+}
+
+// Updates the user's profile and replaces their roles; when a password reset is asked for, the
+// user is sent a link to set a new one
+export async function updateUserAccount(supabase: SupabaseClient, userId: string, data: UpdateUserData) {
+  const { full_name, role_ids, menu_access, sub_menu_access, component_access, is_active, needs_password_reset, organisation_unit_id, role_units } = data
+
+  const { data: updatedUser, error } = await supabase
+    .from('users')
+    .update({ full_name, menu_access, sub_menu_access, component_access, is_active, needs_password_reset, organisation_unit_id })
+    .eq('id', userId)
+    .select('*')
+    .single()
+
+  if (error) throw new HttpError(400, error.message)
+
+  const { error: deleteRolesError } = await supabase.from('user_roles').delete().eq('user_id', userId)
+  if (deleteRolesError) throw new HttpError(400, deleteRolesError.message)
+
+  const { error: insertRolesError } = await supabase.from('user_roles').insert(roleAssignments(userId, role_ids, role_units))
+  if (insertRolesError) throw new HttpError(400, insertRolesError.message)
+
+  const userResponse = await fetchUserResponse(supabase, updatedUser)
+
+  if (needs_password_reset && updatedUser.email) {
+    await sendPasswordResetLink(supabase, updatedUser.email)
+  }
+
+  return userResponse
+}
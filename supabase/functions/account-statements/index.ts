@@ -0,0 +1,615 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from 'npm:pdf-lib@1.17.1'
+import { serve } from '../_shared/pipeline.ts'
+import { HttpError, json, readJson } from '../_shared/http.ts'
+import { canSeeUnit, unitFilter } from '../_shared/units.ts'
+import type { CallerPermissions } from '../_shared/auth.ts'
+
+const STORAGE_BUCKET = 'account-statements'
+const SIGNED_URL_TTL_SECONDS = 300
+
+// On-demand statements are limited so a single request stays within the function time limit
+const MAX_PERIOD_DAYS = 366
+
+const ENTRY_TYPE_LABELS: Record<string, string> = {
+  deposit: 'Deposit',
+  withdrawal: 'Withdrawal',
+  transfer: 'Transfer',
+  loan_disbursement: 'Loan disbursement',
+  loan_repayment: 'Loan repayment',
+  dividend: 'Dividend',
+  fee: 'Fee',
+}
+
+interface GenerateBatchData {
+  month: string
+  regenerate?: boolean
+}
+
+interface StatementTransaction {
+  date: string
+  entry_number: string
+  entry_type: string
+  description: string | null
+  reference: string | null
+  money_out: number
+  money_in: number
+  balance: number
+}
+
+interface StatementFee {
+  date: string
+  description: string
+  amount: number
+}
+
+interface Statement {
+  account: {
+    id: string
+    account_number: string
+    account_type: string
+    member_number: string
+    member_name: string
+    address: string | null
+    city: string | null
+  }
+  period_start: string
+  period_end: string
+  opening_balance: number
+  closing_balance: number
+  total_credits: number
+  total_debits: number
+  total_fees: number
+  transactions: StatementTransaction[]
+  fees: StatementFee[]
+}
+
+const isValidDate = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value))
+
+const addDays = (date: string, days: number) => {
+  const result = new Date(`${date}T00:00:00Z`)
+  result.setUTCDate(result.getUTCDate() + days)
+  return result.toISOString().slice(0, 10)
+}
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000)
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100
+
+const formatAmount = (value: number) =>
+  value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+
+// Statements of accounts of members outside the caller's units are treated as if they did not
+// exist; without a caller (the service role) every account is seen
+const canSeeAccountUnit = (caller: CallerPermissions | null, unitId: string | null | undefined) =>
+  !caller || canSeeUnit(caller, unitId)
+
+// Collects everything shown on a statement of one customer account for an inclusive date range
+async function buildStatement(supabase: SupabaseClient, customerAccountId: string, from: string, to: string): Promise<Statement | null> {
+  const { data: account, error: accountError } = await supabase
+    .from('customer_accounts')
+    .select('id, account_number, member:members(member_number, first_name, last_name, address, city), account_type:account_types(name)')
+    .eq('id', customerAccountId)
+    .maybeSingle()
+
+  if (accountError) throw accountError
+  if (!account) return null
+
+  const { data: openingBalance, error: balanceError } = await supabase
+    .rpc('customer_account_balance_on', { p_customer_account_id: customerAccountId, p_as_of: addDays(from, -1) })
+
+  if (balanceError) throw balanceError
+
+  const { data: lines, error: linesError } = await supabase
+    .from('journal_lines')
+    .select('debit, credit, balance_after, journal_entry:journal_entries!inner(entry_number, entry_type, description, reference, posted_at)')
+    .eq('customer_account_id', customerAccountId)
+    .gte('journal_entry.posted_at', from)
+    .lt('journal_entry.posted_at', addDays(to, 1))
+
+  if (linesError) throw linesError
+
+  // Customer accounts are liabilities, so money paid in is a credit
+  const transactions: StatementTransaction[] = (lines || [])
+    .sort((a, b) =>
+      a.journal_entry.posted_at.localeCompare(b.journal_entry.posted_at) ||
+      a.journal_entry.entry_number.localeCompare(b.journal_entry.entry_number)
+    )
+    .map(line => ({
+      date: line.journal_entry.posted_at.slice(0, 10),
+      entry_number: line.journal_entry.entry_number,
+      entry_type: line.journal_entry.entry_type,
+      description: line.journal_entry.description,
+      reference: line.journal_entry.reference,
+      money_out: Number(line.debit),
+      money_in: Number(line.credit),
+      balance: Number(line.balance_after)
+    }))
+
+  // Fees are those posted to the account in the period, so they are already in its balances
+  const fees: StatementFee[] = transactions
+    .filter(transaction => transaction.entry_type === 'fee')
+    .map(transaction => ({
+      date: transaction.date,
+      description: transaction.description || 'Account processing fee',
+      amount: roundMoney(transaction.money_out - transaction.money_in)
+    }))
+
+  const opening = Number(openingBalance || 0)
+
+  return {
+    account: {
+      id: account.id,
+      account_number: account.account_number,
+      account_type: account.account_type?.name || '',
+      member_number: account.member?.member_number || '',
+      member_name: `${account.member?.first_name || ''} ${account.member?.last_name || ''}`.trim(),
+      address: account.member?.address || null,
+      city: account.member?.city || null
+    },
+    period_start: from,
+    period_end: to,
+    opening_balance: opening,
+    closing_balance: transactions.length > 0 ? transactions[transactions.length - 1].balance : opening,
+    total_credits: roundMoney(transactions.reduce((sum, transaction) => sum + transaction.money_in, 0)),
+    total_debits: roundMoney(transactions.reduce((sum, transaction) => sum + transaction.money_out, 0)),
+    total_fees: roundMoney(fees.reduce((sum, fee) => sum + fee.amount, 0)),
+    transactions,
+    fees
+  }
+}
+
+function renderStatementCsv(statement: Statement): string {
+  const escape = (value: string | number | null | undefined) => {
+    const text = value == null ? '' : String(value)
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+  }
+
+  const rows: (string | number | null)[][] = [
+    ['Account Number', statement.account.account_number],
+    ['Account Type', statement.account.account_type],
+    ['Member Number', statement.account.member_number],
+    ['Member', statement.account.member_name],
+    ['Period Start', statement.period_start],
+    ['Period End', statement.period_end],
+    ['Opening Balance', statement.opening_balance.toFixed(2)],
+    ['Money In', statement.total_credits.toFixed(2)],
+    ['Money Out', statement.total_debits.toFixed(2)],
+    ['Fees', statement.total_fees.toFixed(2)],
+    ['Closing Balance', statement.closing_balance.toFixed(2)],
+    [],
+    ['Date', 'Entry Number', 'Type', 'Description', 'Reference', 'Money Out', 'Money In', 'Balance'],
+    [statement.period_start, null, null, 'Opening balance', null, null, null, statement.opening_balance.toFixed(2)],
+    ...statement.transactions.map(transaction => [
+      transaction.date,
+      transaction.entry_number,
+      ENTRY_TYPE_LABELS[transaction.entry_type] || transaction.entry_type,
+      transaction.description,
+      transaction.reference,
+      transaction.money_out ? transaction.money_out.toFixed(2) : null,
+      transaction.money_in ? transaction.money_in.toFixed(2) : null,
+      transaction.balance.toFixed(2)
+    ]),
+    [statement.period_end, null, null, 'Closing balance', null, null, null, statement.closing_balance.toFixed(2)]
+  ]
+
+  if (statement.fees.length > 0) {
+    rows.push([], ['Fee Date', 'Fee', 'Amount'])
+    for (const fee of statement.fees) {
+      rows.push([fee.date, fee.description, fee.amount.toFixed(2)])
+    }
+  }
+
+  return rows.map(row => row.map(escape).join(',')).join('\r\n')
+}
+
+const PAGE_WIDTH = 595.28
+const PAGE_HEIGHT = 841.89
+const MARGIN = 40
+const ROW_HEIGHT = 16
+
+// Table columns; amounts are right-aligned to their x position
+const COLUMNS = {
+  date: 40,
+  entry: 100,
+  description: 170,
+  moneyOut: 420,
+  moneyIn: 485,
+  balance: 555,
+}
+
+async function renderStatementPdf(statement: Statement): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create()
+  const font = await pdf.embedFont(StandardFonts.Helvetica)
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold)
+  const muted = rgb(0.42, 0.45, 0.5)
+
+  let page: PDFPage = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+  let y = PAGE_HEIGHT - MARGIN
+
+  // The standard fonts only encode Latin-1, so anything else is replaced rather than failing the render
+  const clean = (value: string | null | undefined) => (value || '').replace(/[^\x20-\x7E\xA0-\xFF]/g, '?')
+
+  const fit = (value: string, textFont: PDFFont, size: number, maxWidth: number) => {
+    let text = clean(value)
+    if (textFont.widthOfTextAtSize(text, size) <= maxWidth) return text
+    while (text.length > 0 && textFont.widthOfTextAtSize(`${text}...`, size) > maxWidth) {
+      text = text.slice(0, -1)
+    }
+    return `${text}...`
+  }
+
+  const draw = (value: string, x: number, options: { size?: number; font?: PDFFont; color?: ReturnType<typeof rgb>; alignRight?: boolean } = {}) => {
+    const size = options.size || 9
+    const textFont = options.font || font
+    const text = clean(value)
+    const width = options.alignRight ? textFont.widthOfTextAtSize(text, size) : 0
+    page.drawText(text, { x: x - width, y, size, font: textFont, color: options.color || rgb(0.07, 0.09, 0.15) })
+  }
+
+  const rule = () => {
+    page.drawLine({
+      start: { x: MARGIN, y: y - 4 },
+      end: { x: PAGE_WIDTH - MARGIN, y: y - 4 },
+      thickness: 0.5,
+      color: rgb(0.82, 0.84, 0.86)
+    })
+  }
+
+  const drawTableHeader = () => {
+    draw('Date', COLUMNS.date, { font: bold, color: muted })
+    draw('Entry', COLUMNS.entry, { font: bold, color: muted })
+    draw('Description', COLUMNS.description, { font: bold, color: muted })
+    draw('Money Out', COLUMNS.moneyOut, { font: bold, color: muted, alignRight: true })
+    draw('Money In', COLUMNS.moneyIn, { font: bold, color: muted, alignRight: true })
+    draw('Balance', COLUMNS.balance, { font: bold, color: muted, alignRight: true })
+    rule()
+    y -= ROW_HEIGHT + 2
+  }
+
+  const ensureSpace = (height: number, repeatTableHeader: boolean) => {
+    if (y - height >= MARGIN + 20) return
+    page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+    y = PAGE_HEIGHT - MARGIN
+    if (repeatTableHeader) drawTableHeader()
+  }
+
+  // Header
+  draw('Account Statement', MARGIN, { size: 18, font: bold })
+  draw(`${statement.period_start} to ${statement.period_end}`, PAGE_WIDTH - MARGIN, { size: 10, color: muted, alignRight: true })
+  y -= 30
+
+  draw(statement.account.member_name, MARGIN, { size: 11, font: bold })
+  draw(`Account ${statement.account.account_number}`, PAGE_WIDTH - MARGIN, { size: 11, font: bold, alignRight: true })
+  y -= 14
+  draw(`Member ${statement.account.member_number}`, MARGIN, { color: muted })
+  draw(statement.account.account_type, PAGE_WIDTH - MARGIN, { color: muted, alignRight: true })
+  for (const line of [statement.account.address, statement.account.city].filter(Boolean)) {
+    y -= 12
+    draw(line!, MARGIN, { color: muted })
+  }
+  y -= 28
+
+  // Summary
+  const summary: [string, number][] = [
+    ['Opening balance', statement.opening_balance],
+    ['Money in', statement.total_credits],
+    ['Money out', statement.total_debits],
+    ['Fees', statement.total_fees],
+    ['Closing balance', statement.closing_balance],
+  ]
+  const summaryWidth = (PAGE_WIDTH - MARGIN * 2) / summary.length
+  summary.forEach(([label], index) => draw(label, MARGIN + summaryWidth * index, { size: 8, color: muted }))
+  y -= 14
+  summary.forEach(([, value], index) => draw(`MUR ${formatAmount(value)}`, MARGIN + summaryWidth * index, { size: 11, font: bold }))
+  y -= 26
+
+  // Transactions
+  drawTableHeader()
+  draw(statement.period_start, COLUMNS.date)
+  draw('Opening balance', COLUMNS.description, { font: bold })
+  draw(formatAmount(statement.opening_balance), COLUMNS.balance, { alignRight: true })
+  y -= ROW_HEIGHT
+
+  for (const transaction of statement.transactions) {
+    ensureSpace(ROW_HEIGHT, true)
+    const label = ENTRY_TYPE_LABELS[transaction.entry_type] || transaction.entry_type
+    const description = transaction.description ? `${label}: ${transaction.description}` : label
+    draw(transaction.date, COLUMNS.date)
+    draw(transaction.entry_number, COLUMNS.entry)
+    draw(fit(description, font, 9, COLUMNS.moneyOut - COLUMNS.description - 60), COLUMNS.description)
+    if (transaction.money_out) draw(formatAmount(transaction.money_out), COLUMNS.moneyOut, { alignRight: true })
+    if (transaction.money_in) draw(formatAmount(transaction.money_in), COLUMNS.moneyIn, { alignRight: true })
+    draw(formatAmount(transaction.balance), COLUMNS.balance, { alignRight: true })
+    y -= ROW_HEIGHT
+  }
+
+  if (statement.transactions.length === 0) {
+    draw('No transactions in this period', COLUMNS.description, { color: muted })
+    y -= ROW_HEIGHT
+  }
+
+  ensureSpace(ROW_HEIGHT, true)
+  rule()
+  y -= ROW_HEIGHT
+  draw(statement.period_end, COLUMNS.date)
+  draw('Closing balance', COLUMNS.description, { font: bold })
+  draw(formatAmount(statement.closing_balance), COLUMNS.balance, { font: bold, alignRight: true })
+  y -= ROW_HEIGHT * 2
+
+  // Fees
+  if (statement.fees.length > 0) {
+    ensureSpace(ROW_HEIGHT * (statement.fees.length + 2), false)
+    draw('Fees charged in this period', MARGIN, { size: 10, font: bold })
+    y -= ROW_HEIGHT
+    for (const fee of statement.fees) {
+      draw(fee.date, COLUMNS.date)
+      draw(fee.description, COLUMNS.entry)
+      draw(formatAmount(fee.amount), COLUMNS.balance, { alignRight: true })
+      y -= ROW_HEIGHT
+    }
+  }
+
+  // Footer on every page
+  const pages = pdf.getPages()
+  pages.forEach((footerPage, index) => {
+    page = footerPage
+    y = MARGIN - 10
+    draw(`Generated ${new Date().toISOString().slice(0, 10)}`, MARGIN, { size: 8, color: muted })
+    draw(`Page ${index + 1} of ${pages.length}`, PAGE_WIDTH - MARGIN, { size: 8, color: muted, alignRight: true })
+  })
+
+  return await pdf.save()
+}
+
+serve('account-statements', [
+  // GET stored statements of members in the caller's units, for one customer account, one month
+  // or the members of one unit and the units below it
+  {
+    method: 'GET',
+    path: '',
+    permissions: ['statements:view'],
+    allowServiceRole: true,
+    handler: async ({ url, supabase, caller }) => {
+      let statementsQuery = supabase
+        .from('account_statements')
+        .select(`
+          *,
+          customer_account:customer_accounts!inner(
+            id,
+            account_number,
+            member:members!inner(
+              id,
+              member_number,
+              first_name,
+              last_name,
+              organisation_unit_id
+            )
+          )
+        `)
+        .order('period_end', { ascending: false })
+        .limit(500)
+
+      const customerAccountId = url.searchParams.get('customer_account_id')
+      if (customerAccountId) {
+        statementsQuery = statementsQuery.eq('customer_account_id', customerAccountId)
+      }
+
+      const month = url.searchParams.get('month')
+      if (month) {
+        if (!/^\d{4}-\d{2}$/.test(month)) {
+          throw new HttpError(400, 'Month must be in YYYY-MM format')
+        }
+        statementsQuery = statementsQuery.eq('period_start', `${month}-01`)
+      }
+
+      const unitIds = caller ? await unitFilter(supabase, caller, url.searchParams.get('organisation_unit_id')) : null
+      if (unitIds) {
+        statementsQuery = statementsQuery.in('customer_account.member.organisation_unit_id', unitIds)
+      }
+
+      const { data: statementsData, error: statementsError } = await statementsQuery
+
+      if (statementsError) {
+        throw new HttpError(500, statementsError.message)
+      }
+
+      return json({ statements: statementsData || [] })
+    }
+  },
+
+  // GET a statement for any period, rendered on demand as PDF or CSV
+  {
+    method: 'GET',
+    path: ':id/download',
+    permissions: ['statements:view'],
+    allowServiceRole: true,
+    handler: async ({ url, params, supabase, caller }) => {
+      const customerAccountId = params.id
+      const from = url.searchParams.get('from')
+      const to = url.searchParams.get('to')
+      const format = url.searchParams.get('format') || 'pdf'
+
+      if (!isValidDate(from) || !isValidDate(to) || from > to) {
+        throw new HttpError(400, 'Period must be a valid from and to date in YYYY-MM-DD format')
+      }
+
+      if (daysBetween(from, to) >= MAX_PERIOD_DAYS) {
+        throw new HttpError(400, `A statement can cover at most ${MAX_PERIOD_DAYS} days`)
+      }
+
+      if (format !== 'pdf' && format !== 'csv') {
+        throw new HttpError(400, 'Format must be pdf or csv')
+      }
+
+      const { data: account } = await supabase
+        .from('customer_accounts')
+        .select('id, member:members(organisation_unit_id)')
+        .eq('id', customerAccountId)
+        .maybeSingle()
+
+      if (!account || !canSeeAccountUnit(caller, account.member?.organisation_unit_id)) {
+        throw new HttpError(404, 'Customer account not found')
+      }
+
+      const statement = await buildStatement(supabase, customerAccountId, from, to)
+
+      if (!statement) {
+        throw new HttpError(404, 'Customer account not found')
+      }
+
+      const fileName = `statement-${statement.account.account_number}-${from}-${to}.${format}`
+      const body = format === 'pdf' ? await renderStatementPdf(statement) : renderStatementCsv(statement)
+
+      return new Response(body, {
+        headers: {
+          'Content-Type': format === 'pdf' ? 'application/pdf' : 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${fileName}"`
+        }
+      })
+    }
+  },
+
+  // GET short-lived download links for a stored statement
+  {
+    method: 'GET',
+    path: 'files/:id',
+    permissions: ['statements:view'],
+    allowServiceRole: true,
+    handler: async ({ params, supabase, caller }) => {
+      const statementId = params.id
+
+      const { data: statement, error: statementError } = await supabase
+        .from('account_statements')
+        .select('id, pdf_path, csv_path, customer_account:customer_accounts(member:members(organisation_unit_id))')
+        .eq('id', statementId)
+        .maybeSingle()
+
+      if (statementError || !statement || !canSeeAccountUnit(caller, statement.customer_account?.member?.organisation_unit_id)) {
+        throw new HttpError(404, 'Statement not found')
+      }
+
+      const { data: signedUrls, error: signedUrlError } = await supabase.storage
+        .from(STORAGE_BUCKET)
+        .createSignedUrls([statement.pdf_path, statement.csv_path], SIGNED_URL_TTL_SECONDS)
+
+      if (signedUrlError || !signedUrls || signedUrls.some(signedUrl => !signedUrl.signedUrl)) {
+        throw new HttpError(500, 'Statement files are not available')
+      }
+
+      return json({ pdf_url: signedUrls[0].signedUrl, csv_url: signedUrls[1].signedUrl })
+    }
+  },
+
+  // POST generate and store the statements of a month for every active account of members in the
+  // caller's units; every active account when run on a schedule
+  {
+    method: 'POST',
+    path: 'batch',
+    permissions: ['statements:generate'],
+    allowServiceRole: true,
+    handler: async ({ req, supabase, user, caller, audit }) => {
+      // Null when run on a schedule with the service role key
+      const userId = user?.id ?? null
+      const body = await readJson<GenerateBatchData>(req)
+
+      if (!body.month || !/^\d{4}-\d{2}$/.test(body.month) || !isValidDate(`${body.month}-01`)) {
+        throw new HttpError(400, 'Month must be in YYYY-MM format')
+      }
+
+      const periodStart = `${body.month}-01`
+      const nextMonth = new Date(`${periodStart}T00:00:00Z`)
+      nextMonth.setUTCMonth(nextMonth.getUTCMonth() + 1)
+      const periodEnd = addDays(nextMonth.toISOString().slice(0, 10), -1)
+
+      if (periodEnd >= new Date().toISOString().slice(0, 10)) {
+        throw new HttpError(400, 'Statements can only be generated for a month that has ended')
+      }
+
+      let accountsQuery = supabase
+        .from('customer_accounts')
+        .select('id, account_number, member:members!inner(organisation_unit_id)')
+        .eq('status', 'active')
+        .lt('opened_at', addDays(periodEnd, 1))
+        .order('account_number')
+
+      if (caller?.unitIds) {
+        accountsQuery = accountsQuery.in('member.organisation_unit_id', caller.unitIds)
+      }
+
+      const [{ data: accounts, error: accountsError }, { data: existing, error: existingError }] = await Promise.all([
+        accountsQuery,
+        supabase
+          .from('account_statements')
+          .select('customer_account_id')
+          .eq('period_start', periodStart)
+          .eq('period_end', periodEnd)
+      ])
+
+      if (accountsError || existingError) {
+        throw new HttpError(500, (accountsError || existingError)!.message)
+      }
+
+      // Accounts that already have this month's statement are skipped, so an interrupted run can be repeated
+      const alreadyGenerated = new Set((existing || []).map(row => row.customer_account_id as string))
+      let generated = 0
+      let skipped = 0
+      const failed: { account_number: string; error: string }[] = []
+
+      for (const account of accounts || []) {
+        if (!body.regenerate && alreadyGenerated.has(account.id)) {
+          skipped++
+          continue
+        }
+
+        try {
+          const statement = (await buildStatement(supabase, account.id, periodStart, periodEnd))!
+          const pdfPath = `${account.id}/${periodStart}_${periodEnd}.pdf`
+          const csvPath = `${account.id}/${periodStart}_${periodEnd}.csv`
+
+          const [{ error: pdfError }, { error: csvError }] = await Promise.all([
+            supabase.storage
+              .from(STORAGE_BUCKET)
+              .upload(pdfPath, await renderStatementPdf(statement), { contentType: 'application/pdf', upsert: true }),
+            supabase.storage
+              .from(STORAGE_BUCKET)
+              .upload(csvPath, renderStatementCsv(statement), { contentType: 'text/csv', upsert: true })
+          ])
+
+          if (pdfError || csvError) throw pdfError || csvError
+
+          const { data: savedStatement, error: saveError } = await supabase
+            .from('account_statements')
+            .upsert({
+              customer_account_id: account.id,
+              period_start: periodStart,
+              period_end: periodEnd,
+              opening_balance: statement.opening_balance,
+              closing_balance: statement.closing_balance,
+              total_credits: statement.total_credits,
+              total_debits: statement.total_debits,
+              total_fees: statement.total_fees,
+              transaction_count: statement.transactions.length,
+              pdf_path: pdfPath,
+              csv_path: csvPath,
+              generated_by: userId,
+              generated_at: new Date().toISOString()
+            }, { onConflict: 'customer_account_id,period_start,period_end' })
+            .select('*')
+            .single()
+
+          if (saveError) throw saveError
+          await audit({ action: 'create', entityType: 'account_statement', entityId: savedStatement.id, after: savedStatement })
+          generated++
+        } catch (error) {
+          console.error(`Error generating statement for account ${account.account_number}:`, error)
+          failed.push({ account_number: account.account_number, error: error instanceof Error ? error.message : 'Statement could not be generated' })
+        }
+      }
+
+      return json({ period_start: periodStart, period_end: periodEnd, generated, skipped, failed })
+    }
+  }
+])
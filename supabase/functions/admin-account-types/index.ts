@@ -1,10 +1,6 @@
-import { createClient } from 'npm:@supabase/supabase-js@2'
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-}
+import { serve } from '../_shared/pipeline.ts'
+import { HttpError, json, readJson } from '../_shared/http.ts'
+import { requiresApproval, submitChangeRequest } from '../_shared/approvals.ts'
 
 interface AccountType {
   id: string
@@ -14,7 +10,8 @@ interface AccountType {
   processing_fee: number
   is_member_account: boolean
   can_take_loan: boolean
-  dividend_rate: number
+  is_dividend_eligible: boolean
+  has_savings_goal: boolean
   is_active: boolean
   documents_required: string[]
   created_at: string
@@ -33,7 +30,8 @@ interface CreateAccountTypeData {
   processing_fee?: number
   is_member_account?: boolean
   can_take_loan?: boolean
-  dividend_rate?: number
+  is_dividend_eligible?: boolean
+  has_savings_goal?: boolean
   is_active?: boolean
   documents_required?: string[]
 }
@@ -45,59 +43,19 @@ interface UpdateAccountTypeData {
   processing_fee?: number
   is_member_account?: boolean
   can_take_loan?: boolean
-  dividend_rate?: number
+  is_dividend_eligible?: boolean
+  has_savings_goal?: boolean
   is_active?: boolean
   documents_required?: string[]
 }
 
-Deno.serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders })
-  }
-
-  try {
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-    
-    const supabase = createClient(supabaseUrl, supabaseServiceKey)
-
-    // Authenticate the request
-    const authHeader = req.headers.get('Authorization')
-    if (!authHeader) {
-      return new Response(
-        JSON.stringify({ error: 'Missing authorization header' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
-
-    const token = authHeader.replace('Bearer ', '')
-    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
-    
-    if (authError || !user) {
-      return new Response(
-        JSON.stringify({ error: 'Invalid authorization token' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
-
-    // Check if user is admin
-    const { data: userData, error: userError } = await supabase
-      .from('user_roles')
-      .select('roles(name)')
-      .eq('user_id', user.id)
-
-    if (userError || !userData || !userData.some(ur => ur.roles?.name === 'admin')) {
-      return new Response(
-        JSON.stringify({ error: 'Insufficient permissions' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
-
-    const url = new URL(req.url)
-    const method = req.method
-
-    // GET account types
-    if (method === 'GET' && url.pathname.endsWith('/admin-account-types')) {
+serve('admin-account-types', [
+  // GET account types
+  {
+    method: 'GET',
+    path: '',
+    permissions: ['account_types:view', 'account_types:manage', 'accounts:view', 'accounts:manage'],
+    handler: async ({ supabase }) => {
       const { data: accountTypesData, error: accountTypesError } = await supabase
         .from('account_types')
         .select(`
@@ -111,21 +69,20 @@ Deno.serve(async (req) => {
         .order('name', { ascending: true })
 
       if (accountTypesError) {
-        return new Response(
-          JSON.stringify({ error: accountTypesError.message }),
-          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        throw new HttpError(500, accountTypesError.message)
       }
 
-      return new Response(
-        JSON.stringify({ account_types: accountTypesData || [] }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+      return json({ account_types: accountTypesData || [] })
     }
-
-    // POST create account type
-    if (method === 'POST' && url.pathname.endsWith('/admin-account-types')) {
-      const body: CreateAccountTypeData = await req.json()
+  },
+
+  // POST create account type
+  {
+    method: 'POST',
+    path: '',
+    permissions: ['account_types:manage'],
+    handler: async ({ req, supabase, audit }) => {
+      const body = await readJson<CreateAccountTypeData>(req)
       const { 
         name, 
         description, 
@@ -133,41 +90,49 @@ Deno.serve(async (req) => {
         processing_fee = 0.00,
         is_member_account = false,
         can_take_loan = false,
-        dividend_rate = 0.00,
+        is_dividend_eligible = false,
+        has_savings_goal = false,
         is_active = true,
         documents_required = []
       } = body
 
       if (!name || !bank_account_id || typeof name !== 'string' || typeof bank_account_id !== 'string') {
-        return new Response(
-          JSON.stringify({ error: 'Name and bank account ID are required and must be strings' }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        throw new HttpError(400, 'Name and bank account ID are required and must be strings')
       }
 
       // Validate documents_required
       if (documents_required && (!Array.isArray(documents_required) || !documents_required.every(doc => typeof doc === 'string'))) {
-        return new Response(
-          JSON.stringify({ error: 'Documents required must be an array of strings' }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        throw new HttpError(400, 'Documents required must be an array of strings')
+      }
+
+      // Every required document must be an active kind from the catalog
+      if (documents_required && documents_required.length > 0) {
+        const { data: documentKinds, error: kindsError } = await supabase
+          .from('document_kinds')
+          .select('code')
+          .eq('is_active', true)
+          .in('code', documents_required)
+
+        if (kindsError) {
+          throw new HttpError(500, kindsError.message)
+        }
+
+        const knownCodes = new Set((documentKinds || []).map(kind => kind.code))
+        const unknownCodes = documents_required.filter(code => !knownCodes.has(code))
+        if (unknownCodes.length > 0) {
+          throw new HttpError(400, `Unknown or inactive document kinds: ${unknownCodes.join(', ')}`)
+        }
       }
 
       // Validate numeric fields
-      if (processing_fee < 0 || dividend_rate < 0 || dividend_rate > 100) {
-        return new Response(
-          JSON.stringify({ error: 'Processing fee must be non-negative and dividend rate must be between 0-100%' }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+      if (processing_fee < 0) {
+        throw new HttpError(400, 'Processing fee must be non-negative')
       }
 
       // Trim whitespace from inputs
       const trimmedName = name.trim()
       if (!trimmedName) {
-        return new Response(
-          JSON.stringify({ error: 'Account type name cannot be empty' }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        throw new HttpError(400, 'Account type name cannot be empty')
       }
 
       // Check if account type name already exists
@@ -178,17 +143,11 @@ Deno.serve(async (req) => {
         .maybeSingle()
 
       if (checkError) {
-        return new Response(
-          JSON.stringify({ error: checkError.message }),
-          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        throw new HttpError(500, checkError.message)
       }
 
       if (existingAccountType) {
-        return new Response(
-          JSON.stringify({ error: 'Account type with this name already exists' }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        throw new HttpError(400, 'Account type with this name already exists')
       }
 
       // Verify bank account exists
@@ -199,10 +158,7 @@ Deno.serve(async (req) => {
         .maybeSingle()
 
       if (bankError || !bankAccount) {
-        return new Response(
-          JSON.stringify({ error: 'Invalid bank account selected' }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        throw new HttpError(400, 'Invalid bank account selected')
       }
 
       // Create the account type
@@ -215,7 +171,8 @@ Deno.serve(async (req) => {
           processing_fee,
           is_member_account,
           can_take_loan,
-          dividend_rate,
+          is_dividend_eligible,
+          has_savings_goal,
           is_active,
           documents_required: documents_required || []
         })
@@ -230,22 +187,23 @@ Deno.serve(async (req) => {
         .single()
 
       if (insertError) {
-        return new Response(
-          JSON.stringify({ error: insertError.message }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        throw new HttpError(400, insertError.message)
       }
 
-      return new Response(
-        JSON.stringify({ account_type: newAccountType }),
-        { status: 201, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
+      await audit({ action: 'create', entityType: 'account_type', entityId: newAccountType.id, after: newAccountType })
 
-    // PUT update account type
-    if (method === 'PUT') {
-      const accountTypeId = url.pathname.split('/').pop()
-      const body: UpdateAccountTypeData = await req.json()
+      return json({ account_type: newAccountType }, 201)
+    }
+  },
+
+  // PUT update account type
+  {
+    method: 'PUT',
+    path: ':id',
+    permissions: ['account_types:manage'],
+    handler: async ({ req, params, supabase, user, audit }) => {
+      const accountTypeId = params.id
+      const body = await readJson<UpdateAccountTypeData>(req)
       const { 
         name, 
         description, 
@@ -253,16 +211,14 @@ Deno.serve(async (req) => {
         processing_fee,
         is_member_account,
         can_take_loan,
-        dividend_rate,
+        is_dividend_eligible,
+        has_savings_goal,
         is_active,
         documents_required
       } = body
 
       if (!accountTypeId) {
-        return new Response(
-          JSON.stringify({ error: 'Account type ID is required' }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        throw new HttpError(400, 'Account type ID is required')
       }
 
       const updateData: any = {}
@@ -270,10 +226,7 @@ Deno.serve(async (req) => {
       if (name !== undefined) {
         const trimmedName = name.trim()
         if (!trimmedName) {
-          return new Response(
-            JSON.stringify({ error: 'Account type name cannot be empty' }),
-            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-          )
+          throw new HttpError(400, 'Account type name cannot be empty')
         }
 
         // Check if another account type with same name exists
@@ -285,17 +238,11 @@ Deno.serve(async (req) => {
           .maybeSingle()
 
         if (checkError) {
-          return new Response(
-            JSON.stringify({ error: checkError.message }),
-            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-          )
+          throw new HttpError(500, checkError.message)
         }
 
         if (existingAccountType) {
-          return new Response(
-            JSON.stringify({ error: 'Another account type with this name already exists' }),
-            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-          )
+          throw new HttpError(400, 'Another account type with this name already exists')
         }
 
         updateData.name = trimmedName
@@ -314,10 +261,7 @@ Deno.serve(async (req) => {
           .maybeSingle()
 
         if (bankError || !bankAccount) {
-          return new Response(
-            JSON.stringify({ error: 'Invalid bank account selected' }),
-            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-          )
+          throw new HttpError(400, 'Invalid bank account selected')
         }
 
         updateData.bank_account_id = bank_account_id
@@ -325,24 +269,11 @@ Deno.serve(async (req) => {
 
       if (processing_fee !== undefined) {
         if (processing_fee < 0) {
-          return new Response(
-            JSON.stringify({ error: 'Processing fee must be non-negative' }),
-            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-          )
+          throw new HttpError(400, 'Processing fee must be non-negative')
         }
         updateData.processing_fee = processing_fee
       }
 
-      if (dividend_rate !== undefined) {
-        if (dividend_rate < 0 || dividend_rate > 100) {
-          return new Response(
-            JSON.stringify({ error: 'Dividend rate must be between 0-100%' }),
-            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-          )
-        }
-        updateData.dividend_rate = dividend_rate
-      }
-
       if (is_member_account !== undefined) {
         updateData.is_member_account = is_member_account
       }
@@ -351,6 +282,14 @@ Deno.serve(async (req) => {
         updateData.can_take_loan = can_take_loan
       }
 
+      if (is_dividend_eligible !== undefined) {
+        updateData.is_dividend_eligible = is_dividend_eligible
+      }
+
+      if (has_savings_goal !== undefined) {
+        updateData.has_savings_goal = has_savings_goal
+      }
+
       if (is_active !== undefined) {
         updateData.is_active = is_active
       }
@@ -358,14 +297,68 @@ Deno.serve(async (req) => {
       if (documents_required !== undefined) {
         // Validate documents_required
         if (!Array.isArray(documents_required) || !documents_required.every(doc => typeof doc === 'string')) {
-          return new Response(
-            JSON.stringify({ error: 'Documents required must be an array of strings' }),
-            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-          )
+          throw new HttpError(400, 'Documents required must be an array of strings')
         }
+
+        if (documents_required.length > 0) {
+          const { data: documentKinds, error: kindsError } = await supabase
+            .from('document_kinds')
+            .select('code, is_active')
+            .in('code', documents_required)
+
+          if (kindsError) {
+            throw new HttpError(500, kindsError.message)
+          }
+
+          // Kinds deactivated after being required may stay on the type, but cannot be newly added
+          const { data: currentType } = await supabase
+            .from('account_types')
+            .select('documents_required')
+            .eq('id', accountTypeId)
+            .maybeSingle()
+
+          const currentCodes = new Set<string>(currentType?.documents_required || [])
+          const kindsByCode = new Map((documentKinds || []).map(kind => [kind.code, kind]))
+          const unknownCodes = documents_required.filter(code => {
+            const kind = kindsByCode.get(code)
+            return !kind || (!kind.is_active && !currentCodes.has(code))
+          })
+
+          if (unknownCodes.length > 0) {
+            throw new HttpError(400, `Unknown or inactive document kinds: ${unknownCodes.join(', ')}`)
+          }
+        }
+
         updateData.documents_required = documents_required
       }
 
+      const { data: previousAccountType } = await supabase
+        .from('account_types')
+        .select('*')
+        .eq('id', accountTypeId)
+        .maybeSingle()
+
+      if (!previousAccountType) {
+        throw new HttpError(404, 'Account type not found')
+      }
+
+      // A new processing fee waits for a second person's approval, and the rest of the change with it
+      if (
+        updateData.processing_fee !== undefined &&
+        Number(updateData.processing_fee) !== Number(previousAccountType.processing_fee) &&
+        await requiresApproval(supabase, 'change_processing_fee')
+      ) {
+        return await submitChangeRequest(supabase, user.id, audit, {
+          operation: 'change_processing_fee',
+          entityType: 'account_type',
+          entityId: accountTypeId,
+          summary: `Change the processing fee of ${previousAccountType.name} from ${previousAccountType.processing_fee} to ${updateData.processing_fee}`,
+          payload: updateData,
+          before: previousAccountType,
+          after: { ...previousAccountType, ...updateData }
+        })
+      }
+
       // Update the account type
       const { data: updatedAccountType, error: updateError } = await supabase
         .from('account_types')
@@ -382,31 +375,47 @@ Deno.serve(async (req) => {
         .single()
 
       if (updateError) {
-        return new Response(
-          JSON.stringify({ error: updateError.message }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        throw new HttpError(400, updateError.message)
       }
 
-      return new Response(
-        JSON.stringify({ account_type: updatedAccountType }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
+      await audit({ action: 'update', entityType: 'account_type', entityId: accountTypeId, before: previousAccountType, after: updatedAccountType })
 
-    // DELETE account type
-    if (method === 'DELETE') {
-      const accountTypeId = url.pathname.split('/').pop()
+      return json({ account_type: updatedAccountType })
+    }
+  },
+
+  // DELETE account type
+  {
+    method: 'DELETE',
+    path: ':id',
+    permissions: ['account_types:manage'],
+    handler: async ({ params, supabase, audit }) => {
+      const accountTypeId = params.id
       
       if (!accountTypeId) {
-        return new Response(
-          JSON.stringify({ error: 'Account type ID is required' }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        throw new HttpError(400, 'Account type ID is required')
       }
 
-      // TODO: In future, check if account type is being used by any customer accounts
-      // For now, we'll allow deletion but this should be restricted later
+      // Check if account type is being used by any customer accounts
+      const { data: accountsWithType, error: checkError } = await supabase
+        .from('customer_accounts')
+        .select('id')
+        .eq('account_type_id', accountTypeId)
+        .limit(1)
+
+      if (checkError) {
+        throw new HttpError(500, checkError.message)
+      }
+
+      if (accountsWithType && accountsWithType.length > 0) {
+        throw new HttpError(400, 'Cannot delete account type that has customer accounts. Deactivate it instead.')
+      }
+
+      const { data: previousAccountType } = await supabase
+        .from('account_types')
+        .select('*')
+        .eq('id', accountTypeId)
+        .maybeSingle()
 
       const { error: deleteError } = await supabase
         .from('account_types')
@@ -414,28 +423,12 @@ Deno.serve(async (req) => {
         .eq('id', accountTypeId)
 
       if (deleteError) {
-        return new Response(
-          JSON.stringify({ error: deleteError.message }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        throw new HttpError(400, deleteError.message)
       }
 
-      return new Response(
-        JSON.stringify({ message: 'Account type deleted successfully' }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
+      await audit({ action: 'delete', entityType: 'account_type', entityId: accountTypeId, before: previousAccountType })
 
-    return new Response(
-      JSON.stringify({ error: 'Method not allowed' }),
-      { status: 405, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    )
-
-  } catch (error) {
-    console.error('Error in admin-account-types function:', error)
-    return new Response(
-      JSON.stringify({ error: 'Internal server error' }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    )
+      return json({ message: 'Account type deleted successfully' })
+    }
   }
-})
\ No newline at end of file
+])
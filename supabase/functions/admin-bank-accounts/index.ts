@@ -1,10 +1,5 @@
-import { createClient } from 'npm:@supabase/supabase-js@2'
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-}
+import { serve } from '../_shared/pipeline.ts'
+import { HttpError, json, readJson } from '../_shared/http.ts'
 
 interface BankAccount {
   id: string
@@ -23,82 +18,37 @@ interface UpdateBankAccountData {
   account_number?: string
 }
 
-Deno.serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders })
-  }
-
-  try {
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-    
-    const supabase = createClient(supabaseUrl, supabaseServiceKey)
-
-    // Authenticate the request
-    const authHeader = req.headers.get('Authorization')
-    if (!authHeader) {
-      return new Response(
-        JSON.stringify({ error: 'Missing authorization header' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
-
-    const token = authHeader.replace('Bearer ', '')
-    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
-    
-    if (authError || !user) {
-      return new Response(
-        JSON.stringify({ error: 'Invalid authorization token' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
-
-    // Check if user is admin
-    const { data: userData, error: userError } = await supabase
-      .from('user_roles')
-      .select('roles(name)')
-      .eq('user_id', user.id)
-
-    if (userError || !userData || !userData.some(ur => ur.roles?.name === 'admin')) {
-      return new Response(
-        JSON.stringify({ error: 'Insufficient permissions' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
-
-    const url = new URL(req.url)
-    const method = req.method
-
-    // GET bank accounts
-    if (method === 'GET' && url.pathname.endsWith('/admin-bank-accounts')) {
+serve('admin-bank-accounts', [
+  // GET bank accounts
+  {
+    method: 'GET',
+    path: '',
+    permissions: ['bank_accounts:view', 'bank_accounts:manage', 'account_types:manage', 'reconciliation:view'],
+    handler: async ({ supabase }) => {
       const { data: bankAccountsData, error: bankAccountsError } = await supabase
         .from('bank_accounts')
         .select('*')
         .order('name', { ascending: true })
 
       if (bankAccountsError) {
-        return new Response(
-          JSON.stringify({ error: bankAccountsError.message }),
-          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        throw new HttpError(500, bankAccountsError.message)
       }
 
-      return new Response(
-        JSON.stringify({ bank_accounts: bankAccountsData || [] }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+      return json({ bank_accounts: bankAccountsData || [] })
     }
-
-    // POST create bank account
-    if (method === 'POST' && url.pathname.endsWith('/admin-bank-accounts')) {
-      const body: CreateBankAccountData = await req.json()
+  },
+
+  // POST create bank account
+  {
+    method: 'POST',
+    path: '',
+    permissions: ['bank_accounts:manage'],
+    handler: async ({ req, supabase, audit }) => {
+      const body = await readJson<CreateBankAccountData>(req)
       const { name, account_number } = body
 
       if (!name || !account_number || typeof name !== 'string' || typeof account_number !== 'string') {
-        return new Response(
-          JSON.stringify({ error: 'Name and account number are required and must be strings' }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        throw new HttpError(400, 'Name and account number are required and must be strings')
       }
 
       // Trim whitespace from inputs
@@ -106,10 +56,7 @@ Deno.serve(async (req) => {
       const trimmedAccountNumber = account_number.trim()
 
       if (!trimmedName || !trimmedAccountNumber) {
-        return new Response(
-          JSON.stringify({ error: 'Name and account number cannot be empty' }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        throw new HttpError(400, 'Name and account number cannot be empty')
       }
 
       // Check if account number already exists
@@ -120,17 +67,11 @@ Deno.serve(async (req) => {
         .maybeSingle()
 
       if (checkError) {
-        return new Response(
-          JSON.stringify({ error: checkError.message }),
-          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        throw new HttpError(500, checkError.message)
       }
 
       if (existingAccount) {
-        return new Response(
-          JSON.stringify({ error: 'Bank account with this number already exists' }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        throw new HttpError(400, 'Bank account with this number already exists')
       }
 
       // Create the bank account
@@ -144,36 +85,31 @@ Deno.serve(async (req) => {
         .single()
 
       if (insertError) {
-        return new Response(
-          JSON.stringify({ error: insertError.message }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        throw new HttpError(400, insertError.message)
       }
 
-      return new Response(
-        JSON.stringify({ bank_account: newBankAccount }),
-        { status: 201, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
+      await audit({ action: 'create', entityType: 'bank_account', entityId: newBankAccount.id, after: newBankAccount })
 
-    // PUT update bank account
-    if (method === 'PUT') {
-      const bankAccountId = url.pathname.split('/').pop()
-      const body: UpdateBankAccountData = await req.json()
+      return json({ bank_account: newBankAccount }, 201)
+    }
+  },
+
+  // PUT update bank account
+  {
+    method: 'PUT',
+    path: ':id',
+    permissions: ['bank_accounts:manage'],
+    handler: async ({ req, params, supabase, audit }) => {
+      const bankAccountId = params.id
+      const body = await readJson<UpdateBankAccountData>(req)
       const { name, account_number } = body
 
       if (!bankAccountId) {
-        return new Response(
-          JSON.stringify({ error: 'Bank account ID is required' }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        throw new HttpError(400, 'Bank account ID is required')
       }
 
       if (!name && !account_number) {
-        return new Response(
-          JSON.stringify({ error: 'At least one field (name or account_number) is required for update' }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        throw new HttpError(400, 'At least one field (name or account_number) is required for update')
       }
 
       const updateData: any = {}
@@ -181,10 +117,7 @@ Deno.serve(async (req) => {
       if (name) {
         const trimmedName = name.trim()
         if (!trimmedName) {
-          return new Response(
-            JSON.stringify({ error: 'Name cannot be empty' }),
-            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-          )
+          throw new HttpError(400, 'Name cannot be empty')
         }
         updateData.name = trimmedName
       }
@@ -192,10 +125,7 @@ Deno.serve(async (req) => {
       if (account_number) {
         const trimmedAccountNumber = account_number.trim()
         if (!trimmedAccountNumber) {
-          return new Response(
-            JSON.stringify({ error: 'Account number cannot be empty' }),
-            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-          )
+          throw new HttpError(400, 'Account number cannot be empty')
         }
 
         // Check if another bank account with same account number exists
@@ -207,22 +137,22 @@ Deno.serve(async (req) => {
           .maybeSingle()
 
         if (checkError) {
-          return new Response(
-            JSON.stringify({ error: checkError.message }),
-            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-          )
+          throw new HttpError(500, checkError.message)
         }
 
         if (existingAccount) {
-          return new Response(
-            JSON.stringify({ error: 'Another bank account with this number already exists' }),
-            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-          )
+          throw new HttpError(400, 'Another bank account with this number already exists')
         }
 
         updateData.account_number = trimmedAccountNumber
       }
 
+      const { data: previousBankAccount } = await supabase
+        .from('bank_accounts')
+        .select('*')
+        .eq('id', bankAccountId)
+        .maybeSingle()
+
       // Update the bank account
       const { data: updatedBankAccount, error: updateError } = await supabase
         .from('bank_accounts')
@@ -232,57 +162,60 @@ Deno.serve(async (req) => {
         .single()
 
       if (updateError) {
-        return new Response(
-          JSON.stringify({ error: updateError.message }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        throw new HttpError(400, updateError.message)
       }
 
-      return new Response(
-        JSON.stringify({ bank_account: updatedBankAccount }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
+      await audit({ action: 'update', entityType: 'bank_account', entityId: bankAccountId, before: previousBankAccount, after: updatedBankAccount })
 
-    // DELETE bank account
-    if (method === 'DELETE') {
-      const bankAccountId = url.pathname.split('/').pop()
+      return json({ bank_account: updatedBankAccount })
+    }
+  },
+
+  // DELETE bank account
+  {
+    method: 'DELETE',
+    path: ':id',
+    permissions: ['bank_accounts:manage'],
+    handler: async ({ params, supabase, audit }) => {
+      const bankAccountId = params.id
       
       if (!bankAccountId) {
-        return new Response(
-          JSON.stringify({ error: 'Bank account ID is required' }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        throw new HttpError(400, 'Bank account ID is required')
       }
 
+      // Check if bank account has ledger postings
+      const { data: postings, error: postingError } = await supabase
+        .from('journal_lines')
+        .select('id')
+        .eq('bank_account_id', bankAccountId)
+        .limit(1)
+
+      if (postingError) {
+        throw new HttpError(500, postingError.message)
+      }
+
+      if (postings && postings.length > 0) {
+        throw new HttpError(400, 'Cannot delete bank account that has ledger postings')
+      }
+
+      const { data: previousBankAccount } = await supabase
+        .from('bank_accounts')
+        .select('*')
+        .eq('id', bankAccountId)
+        .maybeSingle()
+
       const { error: deleteError } = await supabase
         .from('bank_accounts')
         .delete()
         .eq('id', bankAccountId)
 
       if (deleteError) {
-        return new Response(
-          JSON.stringify({ error: deleteError.message }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        throw new HttpError(400, deleteError.message)
       }
 
-      return new Response(
-        JSON.stringify({ message: 'Bank account deleted successfully' }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
+      await audit({ action: 'delete', entityType: 'bank_account', entityId: bankAccountId, before: previousBankAccount })
 
-    return new Response(
-      JSON.stringify({ error: 'Method not allowed' }),
-      { status: 405, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    )
-
-  } catch (error) {
-    console.error('Error in admin-bank-accounts function:', error)
-    return new Response(
-      JSON.stringify({ error: 'Internal server error' }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    )
+      return json({ message: 'Bank account deleted successfully' })
+    }
   }
-})
\ No newline at end of file
+])
@@ -0,0 +1,240 @@
+import { serve } from '../_shared/pipeline.ts'
+import { HttpError, json, readJson } from '../_shared/http.ts'
+
+interface CreateDocumentKindData {
+  code: string
+  name: string
+  description?: string
+  requires_expiry?: boolean
+  is_active?: boolean
+}
+
+interface UpdateDocumentKindData {
+  name?: string
+  description?: string
+  requires_expiry?: boolean
+  is_active?: boolean
+}
+
+const CODE_PATTERN = /^[a-z0-9_]+$/
+
+serve('admin-document-kinds', [
+  // GET all document kinds
+  {
+    method: 'GET',
+    path: '',
+    permissions: ['documents:view', 'documents:upload', 'documents:manage', 'account_types:manage', 'accounts:manage'],
+    handler: async ({ supabase }) => {
+      const { data: documentKindsData, error: documentKindsError } = await supabase
+        .from('document_kinds')
+        .select('*')
+        .order('name', { ascending: true })
+
+      if (documentKindsError) {
+        throw new HttpError(500, documentKindsError.message)
+      }
+
+      return json({ document_kinds: documentKindsData || [] })
+    }
+  },
+
+  // POST create document kind
+  {
+    method: 'POST',
+    path: '',
+    permissions: ['documents:manage'],
+    handler: async ({ req, supabase, audit }) => {
+      const body = await readJson<CreateDocumentKindData>(req)
+      const { code, name, description, requires_expiry = false, is_active = true } = body
+
+      if (!code || !name || typeof code !== 'string' || typeof name !== 'string') {
+        throw new HttpError(400, 'Code and name are required and must be strings')
+      }
+
+      const trimmedCode = code.trim().toLowerCase()
+      const trimmedName = name.trim()
+
+      if (!CODE_PATTERN.test(trimmedCode)) {
+        throw new HttpError(400, 'Code may only contain lowercase letters, digits and underscores')
+      }
+
+      if (!trimmedName) {
+        throw new HttpError(400, 'Document kind name cannot be empty')
+      }
+
+      // Check if code or name already exists
+      const { data: existingCode, error: codeCheckError } = await supabase
+        .from('document_kinds')
+        .select('id')
+        .eq('code', trimmedCode)
+        .maybeSingle()
+
+      const { data: existingName, error: nameCheckError } = await supabase
+        .from('document_kinds')
+        .select('id')
+        .eq('name', trimmedName)
+        .maybeSingle()
+
+      if (codeCheckError || nameCheckError) {
+        throw new HttpError(500, (codeCheckError || nameCheckError)!.message)
+      }
+
+      if (existingCode || existingName) {
+        throw new HttpError(400, 'Document kind with this code or name already exists')
+      }
+
+      const { data: newDocumentKind, error: insertError } = await supabase
+        .from('document_kinds')
+        .insert({
+          code: trimmedCode,
+          name: trimmedName,
+          description: description?.trim() || null,
+          requires_expiry,
+          is_active
+        })
+        .select('*')
+        .single()
+
+      if (insertError) {
+        throw new HttpError(400, insertError.message)
+      }
+
+      await audit({ action: 'create', entityType: 'document_kind', entityId: newDocumentKind.id, after: newDocumentKind })
+
+      return json({ document_kind: newDocumentKind }, 201)
+    }
+  },
+
+  // PUT update document kind (the code is immutable once created)
+  {
+    method: 'PUT',
+    path: ':id',
+    permissions: ['documents:manage'],
+    handler: async ({ req, params, supabase, audit }) => {
+      const documentKindId = params.id
+      const body = await readJson<UpdateDocumentKindData>(req)
+      const { name, description, requires_expiry, is_active } = body
+
+      if (!documentKindId) {
+        throw new HttpError(400, 'Document kind ID is required')
+      }
+
+      const updateData: Record<string, unknown> = {}
+
+      if (name !== undefined) {
+        const trimmedName = name.trim()
+        if (!trimmedName) {
+          throw new HttpError(400, 'Document kind name cannot be empty')
+        }
+
+        const { data: existingKind, error: checkError } = await supabase
+          .from('document_kinds')
+          .select('id')
+          .eq('name', trimmedName)
+          .neq('id', documentKindId)
+          .maybeSingle()
+
+        if (checkError) {
+          throw new HttpError(500, checkError.message)
+        }
+
+        if (existingKind) {
+          throw new HttpError(400, 'Another document kind with this name already exists')
+        }
+
+        updateData.name = trimmedName
+      }
+
+      if (description !== undefined) {
+        updateData.description = description?.trim() || null
+      }
+
+      if (requires_expiry !== undefined) {
+        updateData.requires_expiry = requires_expiry
+      }
+
+      if (is_active !== undefined) {
+        updateData.is_active = is_active
+      }
+
+      const { data: previousDocumentKind } = await supabase
+        .from('document_kinds')
+        .select('*')
+        .eq('id', documentKindId)
+        .maybeSingle()
+
+      const { data: updatedDocumentKind, error: updateError } = await supabase
+        .from('document_kinds')
+        .update(updateData)
+        .eq('id', documentKindId)
+        .select('*')
+        .single()
+
+      if (updateError) {
+        throw new HttpError(400, updateError.message)
+      }
+
+      await audit({ action: 'update', entityType: 'document_kind', entityId: documentKindId, before: previousDocumentKind, after: updatedDocumentKind })
+
+      return json({ document_kind: updatedDocumentKind })
+    }
+  },
+
+  // DELETE document kind
+  {
+    method: 'DELETE',
+    path: ':id',
+    permissions: ['documents:manage'],
+    handler: async ({ params, supabase, audit }) => {
+      const documentKindId = params.id
+
+      if (!documentKindId) {
+        throw new HttpError(400, 'Document kind ID is required')
+      }
+
+      const { data: documentKind, error: kindError } = await supabase
+        .from('document_kinds')
+        .select('*')
+        .eq('id', documentKindId)
+        .maybeSingle()
+
+      if (kindError || !documentKind) {
+        throw new HttpError(404, 'Document kind not found')
+      }
+
+      // Check if document kind is required by an account type or has uploads
+      const { data: requiringTypes, error: typesError } = await supabase
+        .from('account_types')
+        .select('id')
+        .contains('documents_required', [documentKind.code])
+        .limit(1)
+
+      const { data: uploads, error: uploadsError } = await supabase
+        .from('member_documents')
+        .select('id')
+        .eq('document_kind_id', documentKindId)
+        .limit(1)
+
+      if (typesError || uploadsError) {
+        throw new HttpError(500, (typesError || uploadsError)!.message)
+      }
+
+      if ((requiringTypes && requiringTypes.length > 0) || (uploads && uploads.length > 0)) {
+        throw new HttpError(400, 'Cannot delete document kind that is required by an account type or has uploaded documents. Deactivate it instead.')
+      }
+
+      const { error: deleteError } = await supabase
+        .from('document_kinds')
+        .delete()
+        .eq('id', documentKindId)
+
+      if (deleteError) {
+        throw new HttpError(400, deleteError.message)
+      }
+
+      await audit({ action: 'delete', entityType: 'document_kind', entityId: documentKindId, before: documentKind })
+
+      return json({ message: 'Document kind deleted successfully' })
+    }
+  }
+])
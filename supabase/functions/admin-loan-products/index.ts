@@ -0,0 +1,299 @@
+import { serve } from '../_shared/pipeline.ts'
+import { HttpError, json, readJson } from '../_shared/http.ts'
+
+type LoanProductType = 'qard_hasan' | 'murabaha'
+
+const PRODUCT_TYPES: LoanProductType[] = ['qard_hasan', 'murabaha']
+
+interface LoanProductTerms {
+  product_type: LoanProductType
+  profit_rate: number
+  min_amount: number
+  max_amount: number
+  min_term_months: number
+  max_term_months: number
+}
+
+interface CreateLoanProductData {
+  name: string
+  product_type: LoanProductType
+  description?: string
+  profit_rate?: number
+  min_amount: number
+  max_amount: number
+  min_term_months: number
+  max_term_months: number
+  is_active?: boolean
+}
+
+interface UpdateLoanProductData {
+  name?: string
+  description?: string
+  profit_rate?: number
+  min_amount?: number
+  max_amount?: number
+  min_term_months?: number
+  max_term_months?: number
+  is_active?: boolean
+}
+
+// Returns an error message when the amount, term or profit settings are inconsistent
+function validateTerms(terms: LoanProductTerms): string | null {
+  const { product_type, profit_rate, min_amount, max_amount, min_term_months, max_term_months } = terms
+
+  if (![profit_rate, min_amount, max_amount, min_term_months, max_term_months].every(value => Number.isFinite(value))) {
+    return 'Amounts, terms and profit rate must be numbers'
+  }
+
+  if (min_amount <= 0 || max_amount < min_amount) {
+    return 'Minimum amount must be positive and not above the maximum amount'
+  }
+
+  if (!Number.isInteger(min_term_months) || !Number.isInteger(max_term_months) || min_term_months < 1 || max_term_months > 360 || max_term_months < min_term_months) {
+    return 'Terms must be whole months between 1 and 360, with the minimum not above the maximum'
+  }
+
+  if (product_type === 'qard_hasan' && profit_rate !== 0) {
+    return 'Qard Hasan loans are interest-free and cannot carry a profit rate'
+  }
+
+  if (product_type === 'murabaha' && (profit_rate <= 0 || profit_rate > 100)) {
+    return 'Murabaha profit rate must be greater than 0 and at most 100%'
+  }
+
+  return null
+}
+
+serve('admin-loan-products', [
+  // GET loan products
+  {
+    method: 'GET',
+    path: '',
+    permissions: ['loan_products:view', 'loan_products:manage', 'loans:view', 'loans:apply'],
+    handler: async ({ supabase }) => {
+      const { data: productsData, error: productsError } = await supabase
+        .from('loan_products')
+        .select('*')
+        .order('name', { ascending: true })
+
+      if (productsError) {
+        throw new HttpError(500, productsError.message)
+      }
+
+      return json({ loan_products: productsData || [] })
+    }
+  },
+
+  // POST create loan product
+  {
+    method: 'POST',
+    path: '',
+    permissions: ['loan_products:manage'],
+    handler: async ({ req, supabase, audit }) => {
+      const body = await readJson<CreateLoanProductData>(req)
+      const { name, product_type, description, is_active = true } = body
+
+      if (!name || typeof name !== 'string' || !name.trim()) {
+        throw new HttpError(400, 'Loan product name is required')
+      }
+
+      if (!PRODUCT_TYPES.includes(product_type)) {
+        throw new HttpError(400, 'Product type must be qard_hasan or murabaha')
+      }
+
+      const terms: LoanProductTerms = {
+        product_type,
+        profit_rate: Number(body.profit_rate ?? 0),
+        min_amount: Number(body.min_amount),
+        max_amount: Number(body.max_amount),
+        min_term_months: Number(body.min_term_months),
+        max_term_months: Number(body.max_term_months)
+      }
+
+      const termsError = validateTerms(terms)
+      if (termsError) {
+        throw new HttpError(400, termsError)
+      }
+
+      const trimmedName = name.trim()
+
+      // Check if loan product name already exists
+      const { data: existingProduct, error: checkError } = await supabase
+        .from('loan_products')
+        .select('id')
+        .eq('name', trimmedName)
+        .maybeSingle()
+
+      if (checkError) {
+        throw new HttpError(500, checkError.message)
+      }
+
+      if (existingProduct) {
+        throw new HttpError(400, 'Loan product with this name already exists')
+      }
+
+      const { data: newProduct, error: insertError } = await supabase
+        .from('loan_products')
+        .insert({
+          name: trimmedName,
+          description: description?.trim() || null,
+          is_active,
+          ...terms
+        })
+        .select('*')
+        .single()
+
+      if (insertError) {
+        throw new HttpError(400, insertError.message)
+      }
+
+      await audit({ action: 'create', entityType: 'loan_product', entityId: newProduct.id, after: newProduct })
+
+      return json({ loan_product: newProduct }, 201)
+    }
+  },
+
+  // PUT update loan product (the product type cannot change once created)
+  {
+    method: 'PUT',
+    path: ':id',
+    permissions: ['loan_products:manage'],
+    handler: async ({ req, params, supabase, audit }) => {
+      const productId = params.id
+      const body = await readJson<UpdateLoanProductData>(req)
+      const { name, description, is_active } = body
+
+      if (!productId) {
+        throw new HttpError(400, 'Loan product ID is required')
+      }
+
+      const { data: product, error: productError } = await supabase
+        .from('loan_products')
+        .select('*')
+        .eq('id', productId)
+        .maybeSingle()
+
+      if (productError || !product) {
+        throw new HttpError(404, 'Loan product not found')
+      }
+
+      const updateData: Record<string, unknown> = {}
+
+      if (name !== undefined) {
+        const trimmedName = name.trim()
+        if (!trimmedName) {
+          throw new HttpError(400, 'Loan product name cannot be empty')
+        }
+
+        const { data: existingProduct, error: checkError } = await supabase
+          .from('loan_products')
+          .select('id')
+          .eq('name', trimmedName)
+          .neq('id', productId)
+          .maybeSingle()
+
+        if (checkError) {
+          throw new HttpError(500, checkError.message)
+        }
+
+        if (existingProduct) {
+          throw new HttpError(400, 'Another loan product with this name already exists')
+        }
+
+        updateData.name = trimmedName
+      }
+
+      if (description !== undefined) {
+        updateData.description = description?.trim() || null
+      }
+
+      if (is_active !== undefined) {
+        updateData.is_active = is_active
+      }
+
+      // Validate the amount, term and profit settings as they will be after the update
+      const terms: LoanProductTerms = {
+        product_type: product.product_type,
+        profit_rate: Number(body.profit_rate ?? product.profit_rate),
+        min_amount: Number(body.min_amount ?? product.min_amount),
+        max_amount: Number(body.max_amount ?? product.max_amount),
+        min_term_months: Number(body.min_term_months ?? product.min_term_months),
+        max_term_months: Number(body.max_term_months ?? product.max_term_months)
+      }
+
+      const termsError = validateTerms(terms)
+      if (termsError) {
+        throw new HttpError(400, termsError)
+      }
+
+      updateData.profit_rate = terms.profit_rate
+      updateData.min_amount = terms.min_amount
+      updateData.max_amount = terms.max_amount
+      updateData.min_term_months = terms.min_term_months
+      updateData.max_term_months = terms.max_term_months
+
+      const { data: updatedProduct, error: updateError } = await supabase
+        .from('loan_products')
+        .update(updateData)
+        .eq('id', productId)
+        .select('*')
+        .single()
+
+      if (updateError) {
+        throw new HttpError(400, updateError.message)
+      }
+
+      await audit({ action: 'update', entityType: 'loan_product', entityId: productId, before: product, after: updatedProduct })
+
+      return json({ loan_product: updatedProduct })
+    }
+  },
+
+  // DELETE loan product
+  {
+    method: 'DELETE',
+    path: ':id',
+    permissions: ['loan_products:manage'],
+    handler: async ({ params, supabase, audit }) => {
+      const productId = params.id
+
+      if (!productId) {
+        throw new HttpError(400, 'Loan product ID is required')
+      }
+
+      // Check if any loans were granted under this product
+      const { data: loansWithProduct, error: checkError } = await supabase
+        .from('loans')
+        .select('id')
+        .eq('loan_product_id', productId)
+        .limit(1)
+
+      if (checkError) {
+        throw new HttpError(500, checkError.message)
+      }
+
+      if (loansWithProduct && loansWithProduct.length > 0) {
+        throw new HttpError(400, 'Cannot delete loan product that has loans. Deactivate it instead.')
+      }
+
+      const { data: previousProduct } = await supabase
+        .from('loan_products')
+        .select('*')
+        .eq('id', productId)
+        .maybeSingle()
+
+      const { error: deleteError } = await supabase
+        .from('loan_products')
+        .delete()
+        .eq('id', productId)
+
+      if (deleteError) {
+        throw new HttpError(400, deleteError.message)
+      }
+
+      await audit({ action: 'delete', entityType: 'loan_product', entityId: productId, before: previousProduct })
+
+      return json({ message: 'Loan product deleted successfully' })
+    }
+  }
+])
@@ -0,0 +1,326 @@
+import { serve } from '../_shared/pipeline.ts'
+import { HttpError, json, readJson } from '../_shared/http.ts'
+import { canSeeUnit, requireAssignableUnit, unitFilter } from '../_shared/units.ts'
+
+const MEMBERSHIP_STATUSES = ['pending', 'active', 'suspended', 'terminated']
+const GENDERS = ['male', 'female']
+
+interface CreateMemberData {
+  first_name: string
+  last_name: string
+  national_id: string
+  date_of_birth?: string | null
+  gender?: string | null
+  email?: string | null
+  phone?: string | null
+  address?: string | null
+  city?: string | null
+  occupation?: string | null
+  membership_status?: string
+  joined_at?: string
+  notes?: string | null
+  organisation_unit_id?: string | null
+}
+
+type UpdateMemberData = Partial<CreateMemberData>
+
+const OPTIONAL_TEXT_FIELDS = ['email', 'phone', 'address', 'city', 'occupation', 'notes'] as const
+
+const MEMBER_SELECT = '*, organisation_unit:organisation_units(id, code, name)'
+
+serve('admin-members', [
+  // GET members in the caller's units, optionally only those of one unit and the units below it
+  {
+    method: 'GET',
+    path: '',
+    permissions: ['members:view', 'members:manage', 'accounts:manage', 'loans:apply'],
+    handler: async ({ url, supabase, caller }) => {
+      let membersQuery = supabase
+        .from('members')
+        .select(MEMBER_SELECT)
+        .order('last_name', { ascending: true })
+        .order('first_name', { ascending: true })
+
+      const unitIds = await unitFilter(supabase, caller, url.searchParams.get('organisation_unit_id'))
+      if (unitIds) {
+        membersQuery = membersQuery.in('organisation_unit_id', unitIds)
+      }
+
+      const { data: membersData, error: membersError } = await membersQuery
+
+      if (membersError) {
+        throw new HttpError(500, membersError.message)
+      }
+
+      return json({ members: membersData || [] })
+    }
+  },
+
+  // GET single member
+  {
+    method: 'GET',
+    path: ':id',
+    permissions: ['members:view', 'members:manage', 'accounts:manage', 'loans:apply'],
+    handler: async ({ params, supabase, caller }) => {
+      const memberId = params.id
+
+      const { data: member, error: memberError } = await supabase
+        .from('members')
+        .select(MEMBER_SELECT)
+        .eq('id', memberId)
+        .maybeSingle()
+
+      if (memberError) {
+        throw new HttpError(500, memberError.message)
+      }
+
+      if (!member || !canSeeUnit(caller, member.organisation_unit_id)) {
+        throw new HttpError(404, 'Member not found')
+      }
+
+      return json({ member })
+    }
+  },
+
+  // POST register member
+  {
+    method: 'POST',
+    path: '',
+    permissions: ['members:manage'],
+    handler: async ({ req, supabase, user, caller, audit }) => {
+      const body = await readJson<CreateMemberData>(req)
+      const {
+        first_name,
+        last_name,
+        national_id,
+        date_of_birth = null,
+        gender = null,
+        membership_status = 'pending',
+        joined_at,
+        organisation_unit_id = null
+      } = body
+
+      if (
+        typeof first_name !== 'string' || typeof last_name !== 'string' || typeof national_id !== 'string' ||
+        !first_name.trim() || !last_name.trim() || !national_id.trim()
+      ) {
+        throw new HttpError(400, 'First name, last name and national ID are required')
+      }
+
+      if (!MEMBERSHIP_STATUSES.includes(membership_status)) {
+        throw new HttpError(400, `Membership status must be one of: ${MEMBERSHIP_STATUSES.join(', ')}`)
+      }
+
+      if (gender && !GENDERS.includes(gender)) {
+        throw new HttpError(400, 'Gender must be male or female')
+      }
+
+      if (body.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(body.email.trim())) {
+        throw new HttpError(400, 'Email address is not valid')
+      }
+
+      requireAssignableUnit(caller, organisation_unit_id)
+
+      const trimmedNationalId = national_id.trim().toUpperCase()
+
+      // Check if a member with this national ID already exists
+      const { data: existingMember, error: checkError } = await supabase
+        .from('members')
+        .select('id, member_number')
+        .eq('national_id', trimmedNationalId)
+        .maybeSingle()
+
+      if (checkError) {
+        throw new HttpError(500, checkError.message)
+      }
+
+      if (existingMember) {
+        throw new HttpError(400, `Member ${existingMember.member_number} is already registered with this national ID`)
+      }
+
+      const insertData: Record<string, unknown> = {
+        first_name: first_name.trim(),
+        last_name: last_name.trim(),
+        national_id: trimmedNationalId,
+        date_of_birth: date_of_birth || null,
+        gender: gender || null,
+        membership_status,
+        organisation_unit_id: organisation_unit_id || null,
+        created_by: user.id
+      }
+
+      if (joined_at) {
+        insertData.joined_at = joined_at
+      }
+
+      for (const field of OPTIONAL_TEXT_FIELDS) {
+        insertData[field] = body[field]?.trim() || null
+      }
+
+      const { data: newMember, error: insertError } = await supabase
+        .from('members')
+        .insert(insertData)
+        .select(MEMBER_SELECT)
+        .single()
+
+      if (insertError) {
+        throw new HttpError(400, insertError.message)
+      }
+
+      await audit({ action: 'create', entityType: 'member', entityId: newMember.id, after: newMember })
+
+      return json({ member: newMember }, 201)
+    }
+  },
+
+  // PUT update member
+  {
+    method: 'PUT',
+    path: ':id',
+    permissions: ['members:manage'],
+    handler: async ({ req, params, supabase, caller, audit }) => {
+      const memberId = params.id
+      const body = await readJson<UpdateMemberData>(req)
+
+      if (!memberId) {
+        throw new HttpError(400, 'Member ID is required')
+      }
+
+      const { data: previousMember } = await supabase
+        .from('members')
+        .select(MEMBER_SELECT)
+        .eq('id', memberId)
+        .maybeSingle()
+
+      if (!previousMember || !canSeeUnit(caller, previousMember.organisation_unit_id)) {
+        throw new HttpError(404, 'Member not found')
+      }
+
+      const updateData: Record<string, unknown> = {}
+
+      for (const field of ['first_name', 'last_name'] as const) {
+        if (body[field] !== undefined) {
+          const trimmed = body[field]?.trim()
+          if (!trimmed) {
+            throw new HttpError(400, 'First name and last name cannot be empty')
+          }
+          updateData[field] = trimmed
+        }
+      }
+
+      if (body.national_id !== undefined) {
+        const trimmedNationalId = body.national_id?.trim().toUpperCase()
+        if (!trimmedNationalId) {
+          throw new HttpError(400, 'National ID cannot be empty')
+        }
+
+        // Check if another member holds this national ID
+        const { data: existingMember, error: checkError } = await supabase
+          .from('members')
+          .select('id')
+          .eq('national_id', trimmedNationalId)
+          .neq('id', memberId)
+          .maybeSingle()
+
+        if (checkError) {
+          throw new HttpError(500, checkError.message)
+        }
+
+        if (existingMember) {
+          throw new HttpError(400, 'Another member is already registered with this national ID')
+        }
+
+        updateData.national_id = trimmedNationalId
+      }
+
+      if (body.membership_status !== undefined) {
+        if (!MEMBERSHIP_STATUSES.includes(body.membership_status)) {
+          throw new HttpError(400, `Membership status must be one of: ${MEMBERSHIP_STATUSES.join(', ')}`)
+        }
+        updateData.membership_status = body.membership_status
+      }
+
+      if (body.gender !== undefined) {
+        if (body.gender && !GENDERS.includes(body.gender)) {
+          throw new HttpError(400, 'Gender must be male or female')
+        }
+        updateData.gender = body.gender || null
+      }
+
+      if (body.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(body.email.trim())) {
+        throw new HttpError(400, 'Email address is not valid')
+      }
+
+      if (body.date_of_birth !== undefined) {
+        updateData.date_of_birth = body.date_of_birth || null
+      }
+
+      if (body.joined_at) {
+        updateData.joined_at = body.joined_at
+      }
+
+      if (body.organisation_unit_id !== undefined) {
+        requireAssignableUnit(caller, body.organisation_unit_id)
+        updateData.organisation_unit_id = body.organisation_unit_id || null
+      }
+
+      for (const field of OPTIONAL_TEXT_FIELDS) {
+        if (body[field] !== undefined) {
+          updateData[field] = body[field]?.trim() || null
+        }
+      }
+
+      const { data: updatedMember, error: updateError } = await supabase
+        .from('members')
+        .update(updateData)
+        .eq('id', memberId)
+        .select(MEMBER_SELECT)
+        .single()
+
+      if (updateError) {
+        throw new HttpError(400, updateError.message)
+      }
+
+      await audit({ action: 'update', entityType: 'member', entityId: memberId, before: previousMember, after: updatedMember })
+
+      return json({ member: updatedMember })
+    }
+  },
+
+  // DELETE member
+  {
+    method: 'DELETE',
+    path: ':id',
+    permissions: ['members:manage'],
+    handler: async ({ params, supabase, caller, audit }) => {
+      const memberId = params.id
+
+      if (!memberId) {
+        throw new HttpError(400, 'Member ID is required')
+      }
+
+      const { data: previousMember } = await supabase
+        .from('members')
+        .select('*')
+        .eq('id', memberId)
+        .maybeSingle()
+
+      if (!previousMember || !canSeeUnit(caller, previousMember.organisation_unit_id)) {
+        throw new HttpError(404, 'Member not found')
+      }
+
+      const { error: deleteError } = await supabase
+        .from('members')
+        .delete()
+        .eq('id', memberId)
+
+      if (deleteError) {
+        throw new HttpError(400, deleteError.message)
+      }
+
+      await audit({ action: 'delete', entityType: 'member', entityId: memberId, before: previousMember })
+
+      return json({ message: 'Member deleted successfully' })
+    }
+  }
+])
@@ -0,0 +1,201 @@
+import { serve } from '../_shared/pipeline.ts'
+import { HttpError, json, readJson } from '../_shared/http.ts'
+import { canSeeUnit, requireAssignableUnit } from '../_shared/units.ts'
+
+interface CreateOrganisationUnitData {
+  code: string
+  name: string
+  parent_id?: string | null
+  is_active?: boolean
+}
+
+interface UpdateOrganisationUnitData {
+  name?: string
+  parent_id?: string | null
+  is_active?: boolean
+}
+
+const CODE_PATTERN = /^[A-Z0-9_-]+$/
+
+serve('admin-organisation-units', [
+  // GET organisational units; callers limited to some units only see those
+  {
+    method: 'GET',
+    path: '',
+    permissions: ['organisation_units:view', 'organisation_units:manage', 'users:view', 'users:manage', 'members:view', 'members:manage', 'accounts:view', 'accounts:manage'],
+    handler: async ({ supabase, caller }) => {
+      let unitsQuery = supabase
+        .from('organisation_units')
+        .select('*')
+        .order('name', { ascending: true })
+
+      if (caller.unitIds !== null) {
+        unitsQuery = unitsQuery.in('id', caller.unitIds)
+      }
+
+      const { data: unitsData, error: unitsError } = await unitsQuery
+
+      if (unitsError) {
+        throw new HttpError(500, unitsError.message)
+      }
+
+      return json({ organisation_units: unitsData || [] })
+    }
+  },
+
+  // POST create organisational unit
+  {
+    method: 'POST',
+    path: '',
+    permissions: ['organisation_units:manage'],
+    handler: async ({ req, supabase, caller, audit }) => {
+      const body = await readJson<CreateOrganisationUnitData>(req)
+      const { code, name, parent_id = null, is_active = true } = body
+
+      if (!code || !name || typeof code !== 'string' || typeof name !== 'string') {
+        throw new HttpError(400, 'Code and name are required and must be strings')
+      }
+
+      const trimmedCode = code.trim().toUpperCase()
+      const trimmedName = name.trim()
+
+      if (!CODE_PATTERN.test(trimmedCode)) {
+        throw new HttpError(400, 'Code may only contain letters, digits, hyphens and underscores')
+      }
+
+      if (!trimmedName) {
+        throw new HttpError(400, 'Unit name cannot be empty')
+      }
+
+      // A caller limited to some units can only add units below them
+      requireAssignableUnit(caller, parent_id)
+
+      const { data: existingUnit, error: checkError } = await supabase
+        .from('organisation_units')
+        .select('id')
+        .eq('code', trimmedCode)
+        .maybeSingle()
+
+      if (checkError) {
+        throw new HttpError(500, checkError.message)
+      }
+
+      if (existingUnit) {
+        throw new HttpError(400, 'A unit with this code already exists')
+      }
+
+      const { data: newUnit, error: insertError } = await supabase
+        .from('organisation_units')
+        .insert({
+          code: trimmedCode,
+          name: trimmedName,
+          parent_id: parent_id || null,
+          is_active
+        })
+        .select('*')
+        .single()
+
+      if (insertError) {
+        throw new HttpError(400, insertError.message)
+      }
+
+      await audit({ action: 'create', entityType: 'organisation_unit', entityId: newUnit.id, after: newUnit })
+
+      return json({ organisation_unit: newUnit }, 201)
+    }
+  },
+
+  // PUT update organisational unit (the code is immutable once created)
+  {
+    method: 'PUT',
+    path: ':id',
+    permissions: ['organisation_units:manage'],
+    handler: async ({ req, params, supabase, caller, audit }) => {
+      const unitId = params.id
+      const body = await readJson<UpdateOrganisationUnitData>(req)
+      const { name, parent_id, is_active } = body
+
+      const { data: previousUnit } = await supabase
+        .from('organisation_units')
+        .select('*')
+        .eq('id', unitId)
+        .maybeSingle()
+
+      if (!previousUnit || !canSeeUnit(caller, unitId)) {
+        throw new HttpError(404, 'Organisational unit not found')
+      }
+
+      const updateData: Record<string, unknown> = {}
+
+      if (name !== undefined) {
+        const trimmedName = name?.trim()
+        if (!trimmedName) {
+          throw new HttpError(400, 'Unit name cannot be empty')
+        }
+        updateData.name = trimmedName
+      }
+
+      if (parent_id !== undefined && parent_id !== previousUnit.parent_id) {
+        requireAssignableUnit(caller, parent_id)
+        updateData.parent_id = parent_id || null
+      }
+
+      if (is_active !== undefined) {
+        updateData.is_active = is_active
+      }
+
+      const { data: updatedUnit, error: updateError } = await supabase
+        .from('organisation_units')
+        .update(updateData)
+        .eq('id', unitId)
+        .select('*')
+        .single()
+
+      if (updateError) {
+        throw new HttpError(400, updateError.message)
+      }
+
+      await audit({ action: 'update', entityType: 'organisation_unit', entityId: unitId, before: previousUnit, after: updatedUnit })
+
+      return json({ organisation_unit: updatedUnit })
+    }
+  },
+
+  // DELETE organisational unit that nothing belongs to
+  {
+    method: 'DELETE',
+    path: ':id',
+    permissions: ['organisation_units:manage'],
+    handler: async ({ params, supabase, caller, audit }) => {
+      const unitId = params.id
+
+      const { data: unit } = await supabase
+        .from('organisation_units')
+        .select('*')
+        .eq('id', unitId)
+        .maybeSingle()
+
+      if (!unit || !canSeeUnit(caller, unitId)) {
+        throw new HttpError(404, 'Organisational unit not found')
+      }
+
+      const { error: deleteError } = await supabase
+        .from('organisation_units')
+        .delete()
+        .eq('id', unitId)
+
+      // Sub-units, staff, role assignments and members keep their unit from being deleted
+      if (deleteError?.code === '23503') {
+        throw new HttpError(400, 'Cannot delete a unit that has sub-units, staff or members. Deactivate it instead.')
+      }
+
+      if (deleteError) {
+        throw new HttpError(400, deleteError.message)
+      }
+
+      await audit({ action: 'delete', entityType: 'organisation_unit', entityId: unitId, before: unit })
+
+      return json({ message: 'Organisational unit deleted successfully' })
+    }
+  }
+])
@@ -1,10 +1,5 @@
-import { createClient } from 'npm:@supabase/supabase-js@2'
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-}
+import { serve } from '../_shared/pipeline.ts'
+import { HttpError, json, readJson } from '../_shared/http.ts'
 
 interface Permission {
   id: string
@@ -26,54 +21,13 @@ interface UpdatePermissionData {
   description?: string
 }
 
-Deno.serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders })
-  }
-
-  try {
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-    
-    const supabase = createClient(supabaseUrl, supabaseServiceKey)
-
-    // Authenticate the request
-    const authHeader = req.headers.get('Authorization')
-    if (!authHeader) {
-      return new Response(
-        JSON.stringify({ error: 'Missing authorization header' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
-
-    const token = authHeader.replace('Bearer ', '')
-    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
-    
-    if (authError || !user) {
-      return new Response(
-        JSON.stringify({ error: 'Invalid authorization token' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
-
-    // Check if user is admin
-    const { data: userData, error: userError } = await supabase
-      .from('user_roles')
-      .select('roles(name)')
-      .eq('user_id', user.id)
-
-    if (userError || !userData || !userData.some(ur => ur.roles?.name === 'admin')) {
-      return new Response(
-        JSON.stringify({ error: 'Insufficient permissions' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
-
-    const url = new URL(req.url)
-    const method = req.method
-
-    // GET permissions
-    if (method === 'GET' && url.pathname.endsWith('/admin-permissions')) {
+serve('admin-permissions', [
+  // GET permissions
+  {
+    method: 'GET',
+    path: '',
+    permissions: ['permissions:read', 'permissions:manage', 'roles:manage'],
+    handler: async ({ supabase }) => {
       const { data: permissionsData, error: permissionsError } = await supabase
         .from('permissions')
         .select('*')
@@ -81,28 +35,24 @@ Deno.serve(async (req) => {
         .order('action', { ascending: true })
 
       if (permissionsError) {
-        return new Response(
-          JSON.stringify({ error: permissionsError.message }),
-          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        throw new HttpError(500, permissionsError.message)
       }
 
-      return new Response(
-        JSON.stringify({ permissions: permissionsData || [] }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+      return json({ permissions: permissionsData || [] })
     }
-
-    // POST create permission
-    if (method === 'POST' && url.pathname.endsWith('/admin-permissions')) {
-      const body: CreatePermissionData = await req.json()
+  },
+
+  // POST create permission
+  {
+    method: 'POST',
+    path: '',
+    permissions: ['permissions:manage'],
+    handler: async ({ req, supabase, audit }) => {
+      const body = await readJson<CreatePermissionData>(req)
       const { resource, action, description } = body
 
       if (!resource || !action || typeof resource !== 'string' || typeof action !== 'string') {
-        return new Response(
-          JSON.stringify({ error: 'Resource and action are required and must be strings' }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        throw new HttpError(400, 'Resource and action are required and must be strings')
       }
 
       // Check if permission already exists
@@ -114,17 +64,11 @@ Deno.serve(async (req) => {
         .maybeSingle()
 
       if (checkError) {
-        return new Response(
-          JSON.stringify({ error: checkError.message }),
-          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        throw new HttpError(500, checkError.message)
       }
 
       if (existingPermission) {
-        return new Response(
-          JSON.stringify({ error: 'Permission with this resource and action already exists' }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        throw new HttpError(400, 'Permission with this resource and action already exists')
       }
 
       // Create the permission
@@ -139,29 +83,27 @@ Deno.serve(async (req) => {
         .single()
 
       if (permissionError) {
-        return new Response(
-          JSON.stringify({ error: permissionError.message }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        throw new HttpError(400, permissionError.message)
       }
 
-      return new Response(
-        JSON.stringify({ permission: newPermission }),
-        { status: 201, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
+      await audit({ action: 'create', entityType: 'permission', entityId: newPermission.id, after: newPermission })
 
-    // PUT update permission
-    if (method === 'PUT') {
-      const permissionId = url.pathname.split('/').pop()
-      const body: UpdatePermissionData = await req.json()
+      return json({ permission: newPermission }, 201)
+    }
+  },
+
+  // PUT update permission
+  {
+    method: 'PUT',
+    path: ':id',
+    permissions: ['permissions:manage'],
+    handler: async ({ req, params, supabase, audit }) => {
+      const permissionId = params.id
+      const body = await readJson<UpdatePermissionData>(req)
       const { resource, action, description } = body
 
       if (!resource || !action || typeof resource !== 'string' || typeof action !== 'string') {
-        return new Response(
-          JSON.stringify({ error: 'Resource and action are required and must be strings' }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        throw new HttpError(400, 'Resource and action are required and must be strings')
       }
 
       // Check if another permission with same resource/action exists
@@ -174,19 +116,19 @@ Deno.serve(async (req) => {
         .maybeSingle()
 
       if (checkError) {
-        return new Response(
-          JSON.stringify({ error: checkError.message }),
-          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        throw new HttpError(500, checkError.message)
       }
 
       if (existingPermission) {
-        return new Response(
-          JSON.stringify({ error: 'Another permission with this resource and action already exists' }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        throw new HttpError(400, 'Another permission with this resource and action already exists')
       }
 
+      const { data: previousPermission } = await supabase
+        .from('permissions')
+        .select('*')
+        .eq('id', permissionId)
+        .maybeSingle()
+
       // Update the permission
       const { data: updatedPermission, error: updateError } = await supabase
         .from('permissions')
@@ -200,21 +142,22 @@ Deno.serve(async (req) => {
         .single()
 
       if (updateError) {
-        return new Response(
-          JSON.stringify({ error: updateError.message }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        throw new HttpError(400, updateError.message)
       }
 
-      return new Response(
-        JSON.stringify({ permission: updatedPermission }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
+      await audit({ action: 'update', entityType: 'permission', entityId: permissionId, before: previousPermission, after: updatedPermission })
 
-    // DELETE permission
-    if (method === 'DELETE') {
-      const permissionId = url.pathname.split('/').pop()
+      return json({ permission: updatedPermission })
+    }
+  },
+
+  // DELETE permission
+  {
+    method: 'DELETE',
+    path: ':id',
+    permissions: ['permissions:manage'],
+    handler: async ({ params, supabase, audit }) => {
+      const permissionId = params.id
       
       // Check if permission is being used by any roles
       const { data: rolesWithPermission, error: checkError } = await supabase
@@ -224,19 +167,19 @@ Deno.serve(async (req) => {
         .limit(1)
 
       if (checkError) {
-        return new Response(
-          JSON.stringify({ error: checkError.message }),
-          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        throw new HttpError(500, checkError.message)
       }
 
       if (rolesWithPermission && rolesWithPermission.length > 0) {
-        return new Response(
-          JSON.stringify({ error: 'Cannot delete permission that is assigned to roles' }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        throw new HttpError(400, 'Cannot delete permission that is assigned to roles')
       }
 
+      const { data: previousPermission } = await supabase
+        .from('permissions')
+        .select('*')
+        .eq('id', permissionId)
+        .maybeSingle()
+
       // Delete the permission
       const { error: deleteError } = await supabase
         .from('permissions')
@@ -244,28 +187,12 @@ Deno.serve(async (req) => {
         .eq('id', permissionId)
 
       if (deleteError) {
-        return new Response(
-          JSON.stringify({ error: deleteError.message }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        throw new HttpError(400, deleteError.message)
       }
 
-      return new Response(
-        JSON.stringify({ message: 'Permission deleted successfully' }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
+      await audit({ action: 'delete', entityType: 'permission', entityId: permissionId, before: previousPermission })
 
-    return new Response(
-      JSON.stringify({ error: 'Method not allowed' }),
-      { status: 405, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    )
-
-  } catch (error) {
-    console.error('Error in admin-permissions function:', error)
-    return new Response(
-      JSON.stringify({ error: 'Internal server error' }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    )
+      return json({ message: 'Permission deleted successfully' })
+    }
   }
-})
\ No newline at end of file
+])
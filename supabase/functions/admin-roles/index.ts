@@ -1,15 +1,12 @@
-import { createClient } from 'npm:@supabase/supabase-js@2'
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-}
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { serve } from '../_shared/pipeline.ts'
+import { HttpError, json, readJson } from '../_shared/http.ts'
 
 interface Role {
   id: string
   name: string
   description: string | null
+  mfa_required: boolean
   created_at: string
   permissions?: Array<{
     id: string
@@ -31,60 +28,45 @@ interface UpdateRoleData {
   permission_ids?: string[]
 }
 
-Deno.serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders })
-  }
-
-  try {
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-    
-    const supabase = createClient(supabaseUrl, supabaseServiceKey)
-
-    // Authenticate the request
-    const authHeader = req.headers.get('Authorization')
-    if (!authHeader) {
-      return new Response(
-        JSON.stringify({ error: 'Missing authorization header' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
-
-    const token = authHeader.replace('Bearer ', '')
-    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
-    
-    if (authError || !user) {
-      return new Response(
-        JSON.stringify({ error: 'Invalid authorization token' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
-
-    // Check if user is admin
-    const { data: userData, error: userError } = await supabase
-      .from('user_roles')
-      .select('roles(name)')
-      .eq('user_id', user.id)
-
-    if (userError || !userData || !userData.some(ur => ur.roles?.name === 'admin')) {
-      return new Response(
-        JSON.stringify({ error: 'Insufficient permissions' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
+interface UpdateRoleMfaData {
+  mfa_required: boolean
+}
 
-    const url = new URL(req.url)
-    const method = req.method
+// A role as recorded in the audit log, with its permissions as sorted resource:action names
+async function fetchAuditedRole(supabase: SupabaseClient, roleId: string) {
+  const { data } = await supabase
+    .from('roles')
+    .select('id, name, description, mfa_required, role_permissions(permissions(resource, action))')
+    .eq('id', roleId)
+    .maybeSingle()
+
+  if (!data) return null
+
+  const { role_permissions, ...role } = data
+  return {
+    ...role,
+    permissions: (role_permissions || [])
+      .map(rp => rp.permissions)
+      .filter(Boolean)
+      .map(permission => `${permission.resource}:${permission.action}`)
+      .sort()
+  }
+}
 
-    // GET roles
-    if (method === 'GET' && url.pathname.endsWith('/admin-roles')) {
+serve('admin-roles', [
+  // GET roles
+  {
+    method: 'GET',
+    path: '',
+    permissions: ['roles:read', 'roles:manage', 'users:view', 'users:manage'],
+    handler: async ({ supabase }) => {
       const { data: rolesData, error: rolesError } = await supabase
         .from('roles')
         .select(`
           id,
           name,
           description,
+          mfa_required,
           created_at,
           role_permissions(
             permissions(
@@ -98,10 +80,7 @@ Deno.serve(async (req) => {
         .order('name')
 
       if (rolesError) {
-        return new Response(
-          JSON.stringify({ error: rolesError.message }),
-          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        throw new HttpError(500, rolesError.message)
       }
 
       // Transform data to include permissions array
@@ -110,22 +89,21 @@ Deno.serve(async (req) => {
         permissions: role.role_permissions?.map(rp => rp.permissions).filter(Boolean) || []
       })) || []
 
-      return new Response(
-        JSON.stringify({ roles }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+      return json({ roles })
     }
-
-    // POST create role
-    if (method === 'POST' && url.pathname.endsWith('/admin-roles')) {
-      const body: CreateRoleData = await req.json()
+  },
+
+  // POST create role
+  {
+    method: 'POST',
+    path: '',
+    permissions: ['roles:manage'],
+    handler: async ({ req, supabase, audit }) => {
+      const body = await readJson<CreateRoleData>(req)
       const { name, description, permission_ids = [] } = body
 
       if (!name || typeof name !== 'string') {
-        return new Response(
-          JSON.stringify({ error: 'Role name is required' }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        throw new HttpError(400, 'Role name is required')
       }
 
       // Create the role
@@ -139,10 +117,7 @@ Deno.serve(async (req) => {
         .single()
 
       if (roleError) {
-        return new Response(
-          JSON.stringify({ error: roleError.message }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        throw new HttpError(400, roleError.message)
       }
 
       // Assign permissions to the role
@@ -159,10 +134,7 @@ Deno.serve(async (req) => {
         if (permissionError) {
           // Rollback: delete the created role
           await supabase.from('roles').delete().eq('id', newRole.id)
-          return new Response(
-            JSON.stringify({ error: permissionError.message }),
-            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-          )
+          throw new HttpError(400, permissionError.message)
         }
       }
 
@@ -173,6 +145,7 @@ Deno.serve(async (req) => {
           id,
           name,
           description,
+          mfa_required,
           created_at,
           role_permissions(
             permissions(
@@ -187,10 +160,7 @@ Deno.serve(async (req) => {
         .single()
 
       if (fetchError) {
-        return new Response(
-          JSON.stringify({ error: fetchError.message }),
-          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        throw new HttpError(500, fetchError.message)
       }
 
       const roleResponse = {
@@ -198,25 +168,28 @@ Deno.serve(async (req) => {
         permissions: roleWithPermissions.role_permissions?.map(rp => rp.permissions).filter(Boolean) || []
       }
 
-      return new Response(
-        JSON.stringify({ role: roleResponse }),
-        { status: 201, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
+      await audit({ action: 'create', entityType: 'role', entityId: newRole.id, after: await fetchAuditedRole(supabase, newRole.id) })
 
-    // PUT update role
-    if (method === 'PUT') {
-      const roleId = url.pathname.split('/').pop()
-      const body: UpdateRoleData = await req.json()
+      return json({ role: roleResponse }, 201)
+    }
+  },
+
+  // PUT update role
+  {
+    method: 'PUT',
+    path: ':id',
+    permissions: ['roles:manage'],
+    handler: async ({ req, params, supabase, audit }) => {
+      const roleId = params.id
+      const body = await readJson<UpdateRoleData>(req)
       const { name, description, permission_ids = [] } = body
 
       if (!name || typeof name !== 'string') {
-        return new Response(
-          JSON.stringify({ error: 'Role name is required' }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        throw new HttpError(400, 'Role name is required')
       }
 
+      const previousRole = await fetchAuditedRole(supabase, roleId)
+
       // Update the role
       const { data: updatedRole, error: roleError } = await supabase
         .from('roles')
@@ -229,10 +202,7 @@ Deno.serve(async (req) => {
         .single()
 
       if (roleError) {
-        return new Response(
-          JSON.stringify({ error: roleError.message }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        throw new HttpError(400, roleError.message)
       }
 
       // Update role permissions - delete existing and insert new ones
@@ -242,10 +212,7 @@ Deno.serve(async (req) => {
         .eq('role_id', roleId)
 
       if (deletePermissionsError) {
-        return new Response(
-          JSON.stringify({ error: deletePermissionsError.message }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        throw new HttpError(400, deletePermissionsError.message)
       }
 
       // Insert new role permissions
@@ -260,10 +227,7 @@ Deno.serve(async (req) => {
           .insert(rolePermissionInserts)
 
         if (insertPermissionsError) {
-          return new Response(
-            JSON.stringify({ error: insertPermissionsError.message }),
-            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-          )
+          throw new HttpError(400, insertPermissionsError.message)
         }
       }
 
@@ -274,6 +238,7 @@ Deno.serve(async (req) => {
           id,
           name,
           description,
+          mfa_required,
           created_at,
           role_permissions(
             permissions(
@@ -288,10 +253,7 @@ Deno.serve(async (req) => {
         .single()
 
       if (fetchError) {
-        return new Response(
-          JSON.stringify({ error: fetchError.message }),
-          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        throw new HttpError(500, fetchError.message)
       }
 
       const roleResponse = {
@@ -299,15 +261,55 @@ Deno.serve(async (req) => {
         permissions: roleWithPermissions.role_permissions?.map(rp => rp.permissions).filter(Boolean) || []
       }
 
-      return new Response(
-        JSON.stringify({ role: roleResponse }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+      await audit({ action: 'update', entityType: 'role', entityId: roleId, before: previousRole, after: await fetchAuditedRole(supabase, roleId) })
+
+      return json({ role: roleResponse })
     }
+  },
+
+  // PUT require multi-factor authentication for every user holding the role, or stop requiring it
+  {
+    method: 'PUT',
+    path: ':id/mfa',
+    permissions: ['roles:manage', 'users:manage'],
+    handler: async ({ req, params, supabase, audit }) => {
+      const roleId = params.id
+      const { mfa_required } = await readJson<UpdateRoleMfaData>(req)
+
+      if (typeof mfa_required !== 'boolean') {
+        throw new HttpError(400, 'mfa_required must be true or false')
+      }
 
-    // DELETE role
-    if (method === 'DELETE') {
-      const roleId = url.pathname.split('/').pop()
+      const previousRole = await fetchAuditedRole(supabase, roleId)
+
+      if (!previousRole) {
+        throw new HttpError(404, 'Role not found')
+      }
+
+      const { data: updatedRole, error: updateError } = await supabase
+        .from('roles')
+        .update({ mfa_required })
+        .eq('id', roleId)
+        .select('id, name, description, mfa_required, created_at')
+        .single()
+
+      if (updateError) {
+        throw new HttpError(400, updateError.message)
+      }
+
+      await audit({ action: 'update', entityType: 'role', entityId: roleId, before: previousRole, after: await fetchAuditedRole(supabase, roleId) })
+
+      return json({ role: updatedRole })
+    }
+  },
+
+  // DELETE role
+  {
+    method: 'DELETE',
+    path: ':id',
+    permissions: ['roles:manage'],
+    handler: async ({ params, supabase, audit }) => {
+      const roleId = params.id
       
       // Check if role is being used by any users
       const { data: usersWithRole, error: checkError } = await supabase
@@ -317,19 +319,15 @@ Deno.serve(async (req) => {
         .limit(1)
 
       if (checkError) {
-        return new Response(
-          JSON.stringify({ error: checkError.message }),
-          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        throw new HttpError(500, checkError.message)
       }
 
       if (usersWithRole && usersWithRole.length > 0) {
-        return new Response(
-          JSON.stringify({ error: 'Cannot delete role that is assigned to users' }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        throw new HttpError(400, 'Cannot delete role that is assigned to users')
       }
 
+      const previousRole = await fetchAuditedRole(supabase, roleId)
+
       // Delete the role (role_permissions will be cascade deleted)
       const { error: deleteError } = await supabase
         .from('roles')
@@ -337,28 +335,12 @@ Deno.serve(async (req) => {
         .eq('id', roleId)
 
       if (deleteError) {
-        return new Response(
-          JSON.stringify({ error: deleteError.message }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        throw new HttpError(400, deleteError.message)
       }
 
-      return new Response(
-        JSON.stringify({ message: 'Role deleted successfully' }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
+      await audit({ action: 'delete', entityType: 'role', entityId: roleId, before: previousRole })
 
-    return new Response(
-      JSON.stringify({ error: 'Method not allowed' }),
-      { status: 405, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    )
-
-  } catch (error) {
-    console.error('Error in admin-roles function:', error)
-    return new Response(
-      JSON.stringify({ error: 'Internal server error' }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    )
+      return json({ message: 'Role deleted successfully' })
+    }
   }
-})
\ No newline at end of file
+])
@@ -1,77 +1,29 @@
-import { createClient } from 'npm:@supabase/supabase-js@2'
+import { serve } from '../_shared/pipeline.ts'
+import { HttpError, json, readJson } from '../_shared/http.ts'
+import { hasPermission } from '../_shared/auth.ts'
+import { deleteFactors } from '../_shared/mfa.ts'
+import { activeLockouts, normaliseEmail } from '../_shared/throttle.ts'
+import { requiresApproval, submitChangeRequest } from '../_shared/approvals.ts'
+import { createUserAccount, fetchAuditedUser, fetchRoleNames, requireAssignableUnits, requireRoles, requireUserInScope, updateUserAccount, type CreateUserData, type UpdateUserData } from '../_shared/users.ts'
+import { unitFilter } from '../_shared/units.ts'
+
+serve('admin-users', [
+  // GET users in the caller's units, optionally only those of one unit and the units below it
+  {
+    method: 'GET',
+    path: '',
+    permissions: ['users:view', 'users:manage'],
+    handler: async ({ url, supabase, caller }) => {
+      // Only users who can manage users see roles, permissions and access settings
+      const canManageUsers = hasPermission(caller, 'users:manage')
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-}
-
-Deno.serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders })
-  }
-
-  try {
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-    const frontendBaseUrl = Deno.env.get('FRONTEND_BASE_URL') || 'http://localhost:5173'
-
-    const supabase = createClient(supabaseUrl, supabaseServiceKey)
-
-    const authHeader = req.headers.get('Authorization')
-    if (!authHeader) {
-      return new Response(
-        JSON.stringify({ error: 'Missing authorization header' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
-
-    const token = authHeader.replace('Bearer ', '')
-    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
-
-    if (authError || !user) {
-      return new Response(
-        JSON.stringify({ error: 'Invalid authorization token' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
-
-    // Fetch user roles
-    const { data: userRolesData, error: userRolesError } = await supabase
-      .from('user_roles')
-      .select('roles(name)')
-      .eq('user_id', user.id)
-
-    if (userRolesError || !userRolesData) {
-      return new Response(
-        JSON.stringify({ error: 'Unable to fetch user roles' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
-
-    const roleNames = userRolesData.map(ur => ur.roles?.name).filter(Boolean)
-    const isAdmin = roleNames.includes('admin')
-    const canViewUsers = isAdmin || roleNames.includes('users_view')
-
-    if (!canViewUsers) {
-      return new Response(
-        JSON.stringify({ error: 'Insufficient permissions' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
-
-    const url = new URL(req.url)
-    const method = req.method
-
-    // GET users
-    if (method === 'GET' && url.pathname.endsWith('/admin-users')) {
       let usersQuery = supabase.from('users')
 
-      if (!isAdmin) {
-        // Non-admins with users_view: limited fields
-        usersQuery = usersQuery.select('id, email, full_name, created_at')
+      if (!canManageUsers) {
+        // Viewers: limited fields
+        usersQuery = usersQuery.select('id, email, full_name, organisation_unit_id, created_at')
       } else {
-        // Admins: full access
+        // Managers: full access
         usersQuery = usersQuery.select(`
           id, 
           email, 
@@ -82,7 +34,9 @@ Deno.serve(async (req) => {
           is_active, 
           created_at, 
           needs_password_reset,
+          organisation_unit_id,
           user_roles(
+            organisation_unit_id,
             roles(
               id,
               name,
@@ -100,14 +54,36 @@ Deno.serve(async (req) => {
         `)
       }
 
+      const unitIds = await unitFilter(supabase, caller, url.searchParams.get('organisation_unit_id'))
+      if (unitIds) {
+        usersQuery = usersQuery.in('organisation_unit_id', unitIds)
+      }
+
       const { data: usersData, error: usersError } = await usersQuery.order('created_at', { ascending: false })
 
       if (usersError) {
-        return new Response(JSON.stringify({ error: usersError.message }), { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+        throw new HttpError(500, usersError.message)
+      }
+
+      // Managers also see who has a verified authenticator, which Supabase Auth keeps
+      const mfaEnabled = new Set<string>()
+      if (canManageUsers) {
+        const { data: authUsersData, error: authUsersError } = await supabase.auth.admin.listUsers({ perPage: 1000 })
+        if (authUsersError) {
+          throw new HttpError(500, authUsersError.message)
+        }
+        for (const authUser of authUsersData.users) {
+          if ((authUser.factors || []).some(factor => factor.status === 'verified')) mfaEnabled.add(authUser.id)
+        }
       }
 
-      // Only transform full details for admins
-      const users = isAdmin
+      // ... and whose account is locked out after failed sign-ins
+      const lockouts = canManageUsers
+        ? await activeLockouts(supabase, (usersData || []).map(user => user.email))
+        : new Map<string, string>()
+
+      // Only transform full details for managers
+      const users = canManageUsers
         ? usersData?.map(user => {
             const userRoles = user.user_roles?.map(ur => ur.roles).filter(Boolean) || []
             const allPermissions = userRoles.flatMap(role =>
@@ -120,205 +96,235 @@ Deno.serve(async (req) => {
               ...user,
               roles: userRoles,
               role_ids: userRoles.map(role => role.id),
-              permissions: uniquePermissions
+              role_units: Object.fromEntries(
+                (user.user_roles || []).filter(ur => ur.roles && ur.organisation_unit_id).map(ur => [ur.roles.id, ur.organisation_unit_id])
+              ),
+              permissions: uniquePermissions,
+              mfa_enabled: mfaEnabled.has(user.id),
+              locked_until: lockouts.get(normaliseEmail(user.email)) ?? null
             }
           }) || []
         : usersData || []
 
-      return new Response(JSON.stringify({ users }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+      return json({ users })
     }
+  },
+
+  // POST create user; held for approval when creating users, or granting the admin role, needs it
+  {
+    method: 'POST',
+    path: '',
+    permissions: ['users:create', 'users:manage'],
+    handler: async ({ req, supabase, user, caller, audit }) => {
+      const body = await readJson<CreateUserData>(req)
+      requireRoles(body.role_ids)
+      requireAssignableUnits(caller, body)
+
+      const roles = await fetchRoleNames(supabase, body.role_ids)
+      const operation = await requiresApproval(supabase, 'create_user')
+        ? 'create_user'
+        : roles.includes('admin') && await requiresApproval(supabase, 'grant_admin_role') ? 'grant_admin_role' : null
+
+      if (operation) {
+        // The temporary password is not kept; the approver is given a new one
+        const payload: Record<string, unknown> = { ...body }
+        delete payload.password
+        return await submitChangeRequest(supabase, user.id, audit, {
+          operation,
+          entityType: 'user',
+          summary: `Create user ${body.email}${roles.includes('admin') ? ' with the admin role' : ''}`,
+          payload,
+          after: { email: body.email, full_name: body.full_name, roles }
+        })
+      }
 
-    // Admin-only endpoints
-    if (!isAdmin) {
-      return new Response(
-        JSON.stringify({ error: 'Insufficient permissions' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
+      const userResponse = await createUserAccount(supabase, body)
 
-    // POST create user
-    if (method === 'POST' && url.pathname.endsWith('/admin-users')) {
-      const body = await req.json()
-      const { email, password, full_name, role_ids, menu_access, sub_menu_access, component_access } = body
+      await audit({ action: 'create', entityType: 'user', entityId: userResponse.id, after: await fetchAuditedUser(supabase, userResponse.id) })
 
-      if (!role_ids || !Array.isArray(role_ids) || role_ids.length === 0) {
-        return new Response(JSON.stringify({ error: 'At least one role must be assigned' }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+      return json({ user: userResponse }, 201)
+    }
+  },
+
+  // PUT update user; held for approval when it grants the admin role and that needs approval
+  {
+    method: 'PUT',
+    path: ':id',
+    permissions: ['users:update', 'users:manage'],
+    handler: async ({ req, params, supabase, user, caller, audit }) => {
+      const userId = params.id
+      const body = await readJson<UpdateUserData>(req)
+      requireRoles(body.role_ids)
+      await requireUserInScope(supabase, caller, userId)
+      requireAssignableUnits(caller, body)
+
+      const previousUser = await fetchAuditedUser(supabase, userId)
+      if (!previousUser) {
+        throw new HttpError(404, 'User not found')
       }
 
-      const { data: authUser, error: authError } = await supabase.auth.admin.createUser({
-        email,
-        password,
-        email_confirm: true
-      })
-
-      if (authError) return new Response(JSON.stringify({ error: authError.message }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
-
-      const { data: newUser, error: profileError } = await supabase
-        .from('users')
-        .insert({
-          id: authUser.user.id,
-          email,
-          full_name,
-          menu_access: menu_access || [],
-          sub_menu_access: sub_menu_access || {},
-          component_access: component_access || [],
-          needs_password_reset: true
+      const roles = await fetchRoleNames(supabase, body.role_ids)
+      if (roles.includes('admin') && !previousUser.roles.includes('admin') && await requiresApproval(supabase, 'grant_admin_role')) {
+        return await submitChangeRequest(supabase, user.id, audit, {
+          operation: 'grant_admin_role',
+          entityType: 'user',
+          entityId: userId,
+          summary: `Grant the admin role to ${previousUser.email}`,
+          payload: { ...body },
+          before: previousUser,
+          after: {
+            ...previousUser,
+            full_name: body.full_name,
+            menu_access: body.menu_access,
+            sub_menu_access: body.sub_menu_access,
+            component_access: body.component_access,
+            is_active: body.is_active,
+            needs_password_reset: body.needs_password_reset ?? previousUser.needs_password_reset,
+            organisation_unit_id: body.organisation_unit_id === undefined ? previousUser.organisation_unit_id : body.organisation_unit_id,
+            roles
+          }
         })
-        .select('*')
-        .single()
-
-      if (profileError) {
-        await supabase.auth.admin.deleteUser(authUser.user.id)
-        return new Response(JSON.stringify({ error: profileError.message }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
       }
 
-      const userRoleInserts = role_ids.map(role_id => ({
-        user_id: authUser.user.id,
-        role_id
-      }))
+      const userResponse = await updateUserAccount(supabase, userId, body)
 
-      const { error: userRolesError } = await supabase.from('user_roles').insert(userRoleInserts)
+      await audit({ action: 'update', entityType: 'user', entityId: userId, before: previousUser, after: await fetchAuditedUser(supabase, userId) })
 
-      if (userRolesError) {
-        await supabase.auth.admin.deleteUser(authUser.user.id)
-        return new Response(JSON.stringify({ error: userRolesError.message }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
-      }
-
-      const { data: userWithRoles } = await supabase
-        .from('user_roles')
-        .select(`
-          user_id,
-          roles(
-            id, 
-            name, 
-            description,
-            role_permissions(
-              permissions(
-                id,
-                resource,
-                action,
-                description
-              )
-            )
-          )
-        `)
-        .eq('user_id', authUser.user.id)
-
-      const roles = userWithRoles?.map(ur => ur.roles).filter(Boolean) || []
-      const allPermissions = roles.flatMap(role => role.role_permissions?.map(rp => rp.permissions).filter(Boolean) || [])
-      const uniquePermissions = allPermissions.filter((permission, index, array) => array.findIndex(p => p.resource === permission.resource && p.action === permission.action) === index)
+      return json({ user: userResponse })
+    }
+  },
+
+  // DELETE reset a user's multi-factor authentication: their authenticators and recovery codes
+  // are removed, so they enrol again at their next sign-in if a role requires it
+  {
+    method: 'DELETE',
+    path: ':id/mfa',
+    permissions: ['users:manage'],
+    handler: async ({ params, supabase, caller, audit }) => {
+      const userId = params.id
+      await requireUserInScope(supabase, caller, userId)
+
+      const removedFactors = await deleteFactors(supabase, userId)
+
+      const { error: codesError } = await supabase
+        .from('mfa_recovery_codes')
+        .delete()
+        .eq('user_id', userId)
 
-      const userResponse = {
-        ...newUser,
-        roles,
-        role_ids: roles.map(role => role.id),
-        permissions: uniquePermissions
+      if (codesError) {
+        throw new HttpError(500, codesError.message)
       }
 
-      try {
-        const { error: resetError } = await supabase.auth.admin.generateLink({
-          type: 'password_reset',
-          email: email,
-          redirectTo: `${frontendBaseUrl}/reset-password`
-        })
-        if (resetError) console.error('Failed to send password reset email:', resetError)
-      } catch (err) {
-        console.error('Error sending password reset email:', err)
-      }
+      await audit({
+        action: 'update',
+        entityType: 'user',
+        entityId: userId,
+        before: { mfa_factors: removedFactors },
+        after: { mfa_factors: 0 }
+      })
 
-      return new Response(JSON.stringify({ user: userResponse }), { status: 201, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+      return json({ message: 'Multi-factor authentication reset successfully' })
     }
+  },
+
+  // DELETE sign a user out of every session, e.g. when a device or password may be compromised
+  {
+    method: 'DELETE',
+    path: ':id/sessions',
+    permissions: ['users:manage'],
+    handler: async ({ params, supabase, caller, audit }) => {
+      const userId = params.id
+      await requireUserInScope(supabase, caller, userId)
+
+      const { data: existingUser } = await supabase
+        .from('users')
+        .select('id')
+        .eq('id', userId)
+        .maybeSingle()
+
+      if (!existingUser) {
+        throw new HttpError(404, 'User not found')
+      }
 
-    // PUT update user
-    if (method === 'PUT') {
-      const userId = url.pathname.split('/').pop()
-      const body = await req.json()
-      const { full_name, role_ids, menu_access, sub_menu_access, component_access, is_active, needs_password_reset } = body
+      const { data: revoked, error } = await supabase.rpc('revoke_user_sessions', { p_user_id: userId })
 
-      if (!role_ids || !Array.isArray(role_ids) || role_ids.length === 0) {
-        return new Response(JSON.stringify({ error: 'At least one role must be assigned' }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+      if (error) {
+        throw new HttpError(500, error.message)
       }
 
-      const { data: updatedUser, error } = await supabase
+      await audit({
+        action: 'update',
+        entityType: 'user',
+        entityId: userId,
+        before: { sessions: revoked },
+        after: { sessions: 0 }
+      })
+
+      return json({ message: 'User signed out of all sessions successfully', revoked })
+    }
+  },
+
+  // DELETE lift the sign-in lockout of a user's account
+  {
+    method: 'DELETE',
+    path: ':id/lockout',
+    permissions: ['users:manage'],
+    handler: async ({ params, supabase, user, caller, audit }) => {
+      const userId = params.id
+      await requireUserInScope(supabase, caller, userId)
+
+      const { data: lockedUser } = await supabase
         .from('users')
-        .update({ full_name, menu_access, sub_menu_access, component_access, is_active, needs_password_reset })
+        .select('email')
         .eq('id', userId)
-        .select('*')
-        .single()
-
-      if (error) return new Response(JSON.stringify({ error: error.message }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
-
-      const { error: deleteRolesError } = await supabase.from('user_roles').delete().eq('user_id', userId)
-      if (deleteRolesError) return new Response(JSON.stringify({ error: deleteRolesError.message }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
-
-      const userRoleInserts = role_ids.map(role_id => ({
-        user_id: userId,
-        role_id
-      }))
-      const { error: insertRolesError } = await supabase.from('user_roles').insert(userRoleInserts)
-      if (insertRolesError) return new Response(JSON.stringify({ error: insertRolesError.message }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
-
-      const { data: userWithRoles, error: fetchError } = await supabase
-        .from('user_roles')
-        .select(`
-          user_id,
-          roles(
-            id, 
-            name, 
-            description,
-            role_permissions(
-              permissions(
-                id,
-                resource,
-                action,
-                description
-              )
-            )
-          )
-        `)
-        .eq('user_id', userId)
+        .maybeSingle()
 
-      const roles = userWithRoles?.map(ur => ur.roles).filter(Boolean) || []
-      const allPermissions = roles.flatMap(role => role.role_permissions?.map(rp => rp.permissions).filter(Boolean) || [])
-      const uniquePermissions = allPermissions.filter((permission, index, array) => array.findIndex(p => p.resource === permission.resource && p.action === permission.action) === index)
+      if (!lockedUser) {
+        throw new HttpError(404, 'User not found')
+      }
 
-      const userResponse = {
-        ...updatedUser,
-        roles,
-        role_ids: roles.map(role => role.id),
-        permissions: uniquePermissions
+      const email = normaliseEmail(lockedUser.email)
+      const lockedUntil = (await activeLockouts(supabase, [email])).get(email)
+      if (!lockedUntil) {
+        throw new HttpError(409, 'User is not locked out')
       }
 
-      if (needs_password_reset) {
-        try {
-          const { data: currentUser } = await supabase.from('users').select('email').eq('id', userId).single()
-          if (currentUser?.email) {
-            const { error: resetError } = await supabase.auth.admin.generateLink({
-              type: 'password_reset',
-              email: currentUser.email,
-              redirectTo: `${frontendBaseUrl}/reset-password`
-            })
-            if (resetError) console.error('Failed to send password reset email:', resetError)
-          }
-        } catch (err) {
-          console.error('Error sending password reset email:', err)
-        }
+      const { error } = await supabase
+        .from('login_lockouts')
+        .update({ unlocked_at: new Date().toISOString(), unlocked_by: user.id })
+        .eq('email', email)
+        .is('unlocked_at', null)
+        .gt('locked_until', new Date().toISOString())
+
+      if (error) {
+        throw new HttpError(500, error.message)
       }
 
-      return new Response(JSON.stringify({ user: userResponse }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
-    }
+      await audit({
+        action: 'update',
+        entityType: 'user',
+        entityId: userId,
+        before: { locked_until: lockedUntil },
+        after: { locked_until: null }
+      })
 
-    // DELETE user
-    if (method === 'DELETE') {
-      const userId = url.pathname.split('/').pop()
+      return json({ message: 'User unlocked successfully' })
+    }
+  },
+
+  // DELETE user
+  {
+    method: 'DELETE',
+    path: ':id',
+    permissions: ['users:delete', 'users:manage'],
+    handler: async ({ params, supabase, caller, audit }) => {
+      const userId = params.id
+      await requireUserInScope(supabase, caller, userId)
+      const previousUser = await fetchAuditedUser(supabase, userId)
       const { error: authError } = await supabase.auth.admin.deleteUser(userId!)
-      if (authError) return new Response(JSON.stringify({ error: authError.message }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
-      return new Response(JSON.stringify({ message: 'User deleted successfully' }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+      if (authError) throw new HttpError(400, authError.message)
+      await audit({ action: 'delete', entityType: 'user', entityId: userId, before: previousUser })
+      return json({ message: 'User deleted successfully' })
     }
-
-    return new Response(JSON.stringify({ error: 'Method not allowed' }), { status: 405, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
-  } catch (error) {
-    console.error('Error:', error)
-    return new Response(JSON.stringify({ error: 'Internal server error' }), { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
   }
-})
+])
@@ -0,0 +1,417 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { serve } from '../_shared/pipeline.ts'
+import { HttpError, json, readJson } from '../_shared/http.ts'
+import { getCallerPermissions, hasPermission, type CallerPermissions } from '../_shared/auth.ts'
+import { diffRecords } from '../_shared/audit.ts'
+import { APPROVAL_OPERATIONS, OPERATION_PERMISSIONS, submitChangeRequest, type ApprovalOperation } from '../_shared/approvals.ts'
+import { createUserAccount, fetchAuditedUser, requireAssignableUnits, requireUserInScope, updateUserAccount, type CreateUserData, type UpdateUserData } from '../_shared/users.ts'
+
+const STATUSES = ['pending', 'approved', 'rejected', 'withdrawn']
+
+const CHANGE_REQUEST_SELECT = `
+  *,
+  requester:users!change_requests_requested_by_fkey(id, email, full_name),
+  reviewer:users!change_requests_reviewed_by_fkey(id, email, full_name)
+`
+
+// Fields the change sets: the user's for user changes, the account type's for processing fee
+// changes and the operations approval is turned off for
+type ChangePayload = CreateUserData | UpdateUserData | { operations: ApprovalOperation[] } | Record<string, unknown>
+
+interface ChangeRequest {
+  id: string
+  operation: ApprovalOperation
+  entity_type: string
+  entity_id: string | null
+  summary: string
+  payload: ChangePayload
+  before: Record<string, unknown> | null
+  after: Record<string, unknown> | null
+  status: string
+  requested_by: string
+}
+
+interface ReviewData {
+  comment?: string
+}
+
+interface ApprovalSettingsData {
+  settings: { operation: ApprovalOperation; requires_approval: boolean }[]
+}
+
+// Whether the caller may approve or reject the change: never their own, and only with the
+// permission the change itself needs
+const canReview = (caller: CallerPermissions, userId: string, request: ChangeRequest) =>
+  request.status === 'pending' &&
+  request.requested_by !== userId &&
+  hasPermission(caller, 'approvals:review') &&
+  hasPermission(caller, OPERATION_PERMISSIONS[request.operation])
+
+async function fetchChangeRequest(supabase: SupabaseClient, id: string): Promise<ChangeRequest> {
+  const { data, error } = await supabase
+    .from('change_requests')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) throw new HttpError(500, error.message)
+  if (!data) throw new HttpError(404, 'Change request not found')
+  return data
+}
+
+// A random temporary password with at least one upper and lower case letter, number and symbol
+function generateTemporaryPassword(): string {
+  const groups = ['ABCDEFGHJKLMNPQRSTUVWXYZ', 'abcdefghijkmnopqrstuvwxyz', '23456789', '!@#$%^&*']
+  const random = (below: number) => crypto.getRandomValues(new Uint32Array(1))[0] % below
+  const pick = (characters: string) => characters[random(characters.length)]
+
+  const characters = Array.from({ length: 12 }, () => pick(groups.join('')))
+  for (const group of groups) {
+    characters.splice(random(characters.length + 1), 0, pick(group))
+  }
+  return characters.join('')
+}
+
+const asSettingsRecord = (rows: { operation: string; requires_approval: boolean }[] | null) =>
+  Object.fromEntries((rows || []).map(row => [row.operation, row.requires_approval]))
+
+// Who requested the change must still be allowed to make it, within their units, when it is
+// applied; their roles and units may have changed while it waited
+async function requireRequesterMayMakeChange(supabase: SupabaseClient, request: ChangeRequest) {
+  const requester = await getCallerPermissions(supabase, request.requested_by)
+  const permissions = request.operation === 'change_processing_fee' || request.operation === 'turn_off_approval'
+    ? [OPERATION_PERMISSIONS[request.operation]]
+    : request.entity_id ? ['users:update', 'users:manage'] : ['users:create', 'users:manage']
+
+  if (!permissions.some(permission => hasPermission(requester, permission))) {
+    throw new HttpError(409, 'Who requested the change is no longer allowed to make it')
+  }
+
+  if (request.operation === 'create_user' || request.operation === 'grant_admin_role') {
+    if (request.entity_id) await requireUserInScope(supabase, requester, request.entity_id)
+    requireAssignableUnits(requester, request.payload as CreateUserData)
+  }
+}
+
+// Applies an approved change as the edge function that received it would have, returning the
+// changed record before and after for the audit log
+async function applyChange(supabase: SupabaseClient, request: ChangeRequest) {
+  await requireRequesterMayMakeChange(supabase, request)
+
+  switch (request.operation) {
+    case 'create_user':
+    case 'grant_admin_role': {
+      if (request.entity_id) {
+        const before = await fetchAuditedUser(supabase, request.entity_id)
+        if (!before) throw new HttpError(409, 'The user no longer exists')
+        await updateUserAccount(supabase, request.entity_id, request.payload as UpdateUserData)
+        return { entityId: request.entity_id, before, after: await fetchAuditedUser(supabase, request.entity_id) }
+      }
+
+      const temporaryPassword = generateTemporaryPassword()
+      const created = await createUserAccount(supabase, { ...(request.payload as CreateUserData), password: temporaryPassword })
+      return { entityId: created.id, before: null, after: await fetchAuditedUser(supabase, created.id), temporaryPassword }
+    }
+
+    case 'change_processing_fee': {
+      const { data: before } = await supabase
+        .from('account_types')
+        .select('*')
+        .eq('id', request.entity_id)
+        .maybeSingle()
+      if (!before) throw new HttpError(409, 'The account type no longer exists')
+
+      const { data: after, error } = await supabase
+        .from('account_types')
+        .update(request.payload)
+        .eq('id', request.entity_id)
+        .select('*')
+        .single()
+
+      if (error) throw new HttpError(400, error.message)
+      return { entityId: request.entity_id as string, before, after }
+    }
+
+    case 'turn_off_approval': {
+      const { operations } = request.payload as { operations: ApprovalOperation[] }
+      const { data: before } = await supabase
+        .from('approval_settings')
+        .select('operation, requires_approval')
+        .in('operation', operations)
+
+      const { error } = await supabase
+        .from('approval_settings')
+        .update({ requires_approval: false, updated_at: new Date().toISOString(), updated_by: request.requested_by })
+        .in('operation', operations)
+
+      if (error) throw new HttpError(400, error.message)
+
+      const { data: after } = await supabase
+        .from('approval_settings')
+        .select('operation, requires_approval')
+        .in('operation', operations)
+
+      return { entityId: null, before: asSettingsRecord(before), after: asSettingsRecord(after) }
+    }
+  }
+}
+
+serve('approvals', [
+  // GET change requests with the given status (pending by default), newest first, each with its
+  // field-by-field changes. Reviewers see everyone's; others only their own.
+  {
+    method: 'GET',
+    path: '',
+    handler: async ({ url, supabase, user, caller }) => {
+      const status = url.searchParams.get('status') || 'pending'
+      if (!STATUSES.includes(status)) {
+        throw new HttpError(400, `Status must be one of ${STATUSES.join(', ')}`)
+      }
+
+      let query = supabase
+        .from('change_requests')
+        .select(CHANGE_REQUEST_SELECT)
+        .eq('status', status)
+        .order('requested_at', { ascending: false })
+        .limit(200)
+
+      if (!hasPermission(caller, 'approvals:review')) {
+        query = query.eq('requested_by', user.id)
+      }
+
+      const { data, error } = await query
+      if (error) throw new HttpError(500, error.message)
+
+      const changeRequests = (data || []).map(request => ({
+        ...request,
+        changes: diffRecords(request.before, request.after),
+        can_review: canReview(caller, user.id, request),
+        can_withdraw: request.status === 'pending' && request.requested_by === user.id
+      }))
+
+      return json({ change_requests: changeRequests })
+    }
+  },
+
+  // GET which operations wait for approval
+  {
+    method: 'GET',
+    path: 'settings',
+    permissions: ['approvals:review', 'settings:manage'],
+    handler: async ({ supabase }) => {
+      const { data, error } = await supabase
+        .from('approval_settings')
+        .select('operation, requires_approval, updated_at')
+        .in('operation', APPROVAL_OPERATIONS)
+        .order('operation')
+
+      if (error) throw new HttpError(500, error.message)
+      return json({ settings: data || [] })
+    }
+  },
+
+  // PUT choose which operations wait for approval. Requiring approval takes effect at once; no
+  // longer requiring it is itself held for approval.
+  {
+    method: 'PUT',
+    path: 'settings',
+    permissions: ['settings:manage'],
+    handler: async ({ req, supabase, user, audit }) => {
+      const body = await readJson<ApprovalSettingsData>(req, ({ settings }) =>
+        !Array.isArray(settings) || !settings.every(setting =>
+          APPROVAL_OPERATIONS.includes(setting?.operation) && typeof setting.requires_approval === 'boolean'
+        )
+          ? `settings must be a list of operations (${APPROVAL_OPERATIONS.join(', ')}) with requires_approval`
+          : null
+      )
+
+      const { data: previousSettings } = await supabase
+        .from('approval_settings')
+        .select('operation, requires_approval')
+        .in('operation', APPROVAL_OPERATIONS)
+      const previous = asSettingsRecord(previousSettings)
+      const turnedOff = body.settings
+        .filter(setting => !setting.requires_approval && previous[setting.operation] !== false)
+        .map(setting => setting.operation)
+
+      for (const setting of body.settings.filter(setting => !turnedOff.includes(setting.operation))) {
+        const { error } = await supabase
+          .from('approval_settings')
+          .update({ requires_approval: setting.requires_approval, updated_at: new Date().toISOString(), updated_by: user.id })
+          .eq('operation', setting.operation)
+
+        if (error) throw new HttpError(400, error.message)
+      }
+
+      const { data: settings } = await supabase
+        .from('approval_settings')
+        .select('operation, requires_approval, updated_at')
+        .in('operation', APPROVAL_OPERATIONS)
+        .order('operation')
+
+      await audit({ action: 'update', entityType: 'approval_settings', before: previous, after: asSettingsRecord(settings) })
+
+      if (turnedOff.length > 0) {
+        return await submitChangeRequest(supabase, user.id, audit, {
+          operation: 'turn_off_approval',
+          entityType: 'approval_settings',
+          summary: `Stop requiring approval for ${turnedOff.join(', ')}`,
+          payload: { operations: turnedOff },
+          before: Object.fromEntries(turnedOff.map(operation => [operation, true])),
+          after: Object.fromEntries(turnedOff.map(operation => [operation, false]))
+        })
+      }
+
+      return json({ settings: settings || [] })
+    }
+  },
+
+  // POST approve a change request, applying the change. A new user's temporary password is
+  // returned to the approver this once.
+  {
+    method: 'POST',
+    path: ':id/approve',
+    permissions: ['approvals:review'],
+    handler: async ({ req, params, supabase, user, caller, audit }) => {
+      const { comment } = await readJson<ReviewData>(req)
+      const request = await fetchChangeRequest(supabase, params.id)
+
+      if (request.status !== 'pending') {
+        throw new HttpError(409, `The change has already been ${request.status}`)
+      }
+      if (request.requested_by === user.id) {
+        throw new HttpError(403, 'A change must be approved by someone other than who requested it')
+      }
+      if (!canReview(caller, user.id, request)) {
+        throw new HttpError(403, 'Insufficient permissions')
+      }
+
+      // Claimed before applying, so two reviewers cannot both apply it
+      const { data: claimed, error: claimError } = await supabase
+        .from('change_requests')
+        .update({ status: 'approved', reviewed_by: user.id, reviewed_at: new Date().toISOString(), review_comment: comment?.trim() || null })
+        .eq('id', request.id)
+        .eq('status', 'pending')
+        .select('id')
+
+      if (claimError) throw new HttpError(500, claimError.message)
+      if (!claimed?.length) throw new HttpError(409, 'The change has already been reviewed')
+
+      let applied: Awaited<ReturnType<typeof applyChange>>
+      try {
+        applied = await applyChange(supabase, request)
+      } catch (error) {
+        await supabase
+          .from('change_requests')
+          .update({ status: 'pending', reviewed_by: null, reviewed_at: null, review_comment: null })
+          .eq('id', request.id)
+        throw error
+      }
+
+      if (!request.entity_id && applied.entityId) {
+        await supabase.from('change_requests').update({ entity_id: applied.entityId }).eq('id', request.id)
+      }
+
+      await audit({
+        action: applied.before ? 'update' : 'create',
+        entityType: request.entity_type,
+        entityId: applied.entityId,
+        before: applied.before,
+        after: applied.after
+      })
+      await audit({
+        action: 'update',
+        entityType: 'change_request',
+        entityId: request.id,
+        before: { status: 'pending' },
+        after: { status: 'approved', review_comment: comment?.trim() || null }
+      })
+
+      const { data: changeRequest } = await supabase
+        .from('change_requests')
+        .select(CHANGE_REQUEST_SELECT)
+        .eq('id', request.id)
+        .single()
+
+      return json({
+        change_request: changeRequest,
+        temporary_password: 'temporaryPassword' in applied ? applied.temporaryPassword : null
+      })
+    }
+  },
+
+  // POST reject a change request; it is never applied
+  {
+    method: 'POST',
+    path: ':id/reject',
+    permissions: ['approvals:review'],
+    handler: async ({ req, params, supabase, user, caller, audit }) => {
+      const { comment } = await readJson<ReviewData>(req, ({ comment }) =>
+        typeof comment !== 'string' || !comment.trim() ? 'A reason for rejecting the change is required' : null
+      )
+      const request = await fetchChangeRequest(supabase, params.id)
+
+      if (request.status !== 'pending') {
+        throw new HttpError(409, `The change has already been ${request.status}`)
+      }
+      if (!canReview(caller, user.id, request)) {
+        throw new HttpError(403, 'A change must be reviewed by someone other than who requested it, with permission to make it')
+      }
+
+      const { data: changeRequest, error } = await supabase
+        .from('change_requests')
+        .update({ status: 'rejected', reviewed_by: user.id, reviewed_at: new Date().toISOString(), review_comment: comment!.trim() })
+        .eq('id', request.id)
+        .eq('status', 'pending')
+        .select(CHANGE_REQUEST_SELECT)
+        .maybeSingle()
+
+      if (error) throw new HttpError(500, error.message)
+      if (!changeRequest) throw new HttpError(409, 'The change has already been reviewed')
+
+      await audit({
+        action: 'update',
+        entityType: 'change_request',
+        entityId: request.id,
+        before: { status: 'pending' },
+        after: { status: 'rejected', review_comment: comment!.trim() }
+      })
+
+      return json({ change_request: changeRequest })
+    }
+  },
+
+  // POST withdraw the caller's own pending change request
+  {
+    method: 'POST',
+    path: ':id/withdraw',
+    handler: async ({ params, supabase, user, audit }) => {
+      const request = await fetchChangeRequest(supabase, params.id)
+
+      if (request.requested_by !== user.id) {
+        throw new HttpError(403, 'Only who requested a change can withdraw it')
+      }
+
+      const { data: changeRequest, error } = await supabase
+        .from('change_requests')
+        .update({ status: 'withdrawn' })
+        .eq('id', request.id)
+        .eq('status', 'pending')
+        .select(CHANGE_REQUEST_SELECT)
+        .maybeSingle()
+
+      if (error) throw new HttpError(500, error.message)
+      if (!changeRequest) throw new HttpError(409, `The change has already been ${request.status}`)
+
+      await audit({
+        action: 'update',
+        entityType: 'change_request',
+        entityId: request.id,
+        before: { status: 'pending' },
+        after: { status: 'withdrawn' }
+      })
+
+      return json({ change_request: changeRequest })
+    }
+  }
+])
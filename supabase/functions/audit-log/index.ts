@@ -0,0 +1,85 @@
+import { serve } from '../_shared/pipeline.ts'
+import { HttpError, json } from '../_shared/http.ts'
+
+const DEFAULT_LIMIT = 500
+const MAX_LIMIT = 5000
+
+const isValidDate = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value))
+
+const addDays = (date: string, days: number) => {
+  const next = new Date(`${date}T00:00:00Z`)
+  next.setUTCDate(next.getUTCDate() + days)
+  return next.toISOString().slice(0, 10)
+}
+
+serve('audit-log', [
+  // GET audit log entries, newest first, filtered by actor, entity, action and date range
+  {
+    method: 'GET',
+    path: '',
+    permissions: ['audit:view'],
+    handler: async ({ url, supabase }) => {
+      const actorId = url.searchParams.get('actor_id')
+      const entityType = url.searchParams.get('entity_type')
+      const entityId = url.searchParams.get('entity_id')
+      const action = url.searchParams.get('action')
+      const from = url.searchParams.get('from')
+      const to = url.searchParams.get('to')
+      const limit = Number(url.searchParams.get('limit') || DEFAULT_LIMIT)
+
+      if ((from && !isValidDate(from)) || (to && !isValidDate(to))) {
+        throw new HttpError(400, 'Dates must be in YYYY-MM-DD format')
+      }
+
+      if (from && to && from > to) {
+        throw new HttpError(400, 'The start date must not be after the end date')
+      }
+
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+        throw new HttpError(400, `Limit must be a whole number between 1 and ${MAX_LIMIT}`)
+      }
+
+      let entriesQuery = supabase
+        .from('audit_log')
+        .select('*, actor:users(id, email, full_name)')
+        .order('created_at', { ascending: false })
+        .limit(limit)
+
+      if (actorId) entriesQuery = entriesQuery.eq('actor_id', actorId)
+      if (entityType) entriesQuery = entriesQuery.eq('entity_type', entityType)
+      if (entityId) entriesQuery = entriesQuery.eq('entity_id', entityId)
+      if (action) entriesQuery = entriesQuery.eq('action', action)
+      if (from) entriesQuery = entriesQuery.gte('created_at', from)
+      // The end date is inclusive
+      if (to) entriesQuery = entriesQuery.lt('created_at', addDays(to, 1))
+
+      const { data: entriesData, error: entriesError } = await entriesQuery
+
+      if (entriesError) {
+        throw new HttpError(500, entriesError.message)
+      }
+
+      return json({ entries: entriesData || [] })
+    }
+  },
+
+  // GET users to filter the log by; includes inactive users, whose past actions stay in the log
+  {
+    method: 'GET',
+    path: 'actors',
+    permissions: ['audit:view'],
+    handler: async ({ supabase }) => {
+      const { data: actorsData, error: actorsError } = await supabase
+        .from('users')
+        .select('id, email, full_name')
+        .order('full_name', { ascending: true })
+
+      if (actorsError) {
+        throw new HttpError(500, actorsError.message)
+      }
+
+      return json({ actors: actorsData || [] })
+    }
+  }
+])
@@ -0,0 +1,805 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import type { AuditEntry } from '../_shared/audit.ts'
+import { serve } from '../_shared/pipeline.ts'
+import { HttpError, json, readJson } from '../_shared/http.ts'
+import { requireEveryUnit } from '../_shared/units.ts'
+
+// Statement lines are matched to postings of the same amount within this many days
+const MATCH_WINDOW_DAYS = 3
+
+const MAX_STATEMENT_SIZE = 2 * 1024 * 1024
+
+type StatementFormat = 'csv' | 'mt940' | 'camt053'
+
+interface ImportStatementData {
+  file_name: string
+  content: string
+}
+
+interface MatchStatementLineData {
+  journal_line_id: string | null
+}
+
+interface ParsedLine {
+  value_date: string
+  amount: number
+  description: string | null
+  reference: string | null
+}
+
+interface ParsedStatement {
+  statement_reference: string | null
+  opening_balance: number | null
+  closing_balance: number | null
+  lines: ParsedLine[]
+}
+
+interface Posting {
+  id: string
+  debit: number
+  credit: number
+  journal_entry: {
+    id: string
+    entry_number: string
+    entry_type: string
+    reference: string | null
+    description: string | null
+    posted_at: string
+  }
+}
+
+const POSTING_SELECT = `
+  id,
+  debit,
+  credit,
+  journal_entry:journal_entries!inner(
+    id,
+    entry_number,
+    entry_type,
+    reference,
+    description,
+    posted_at
+  )
+`
+
+const isValidDate = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value))
+
+const addDays = (date: string, days: number) => {
+  const result = new Date(`${date}T00:00:00Z`)
+  result.setUTCDate(result.getUTCDate() + days)
+  return result.toISOString().slice(0, 10)
+}
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000)
+
+// Money received is a debit on a bank account in the ledger
+const postingAmount = (posting: Pick<Posting, 'debit' | 'credit'>) =>
+  Math.round((Number(posting.debit) - Number(posting.credit)) * 100) / 100
+
+// A statement file that cannot be read is the caller's error
+class StatementParseError extends HttpError {
+  constructor(message: string) {
+    super(400, message)
+  }
+}
+
+function detectFormat(content: string): StatementFormat {
+  if (/<(\w+:)?BkToCstmrStmt\b/.test(content)) return 'camt053'
+  if (/^:20:/m.test(content) && /^:61:/m.test(content)) return 'mt940'
+  return 'csv'
+}
+
+// Accepts 1234.56, 1,234.56, 1.234,56, -12.00 and (12.00)
+function parseAmount(raw: string): number | null {
+  let text = raw.replace(/[^\d.,()-]/g, '')
+  if (!text) return null
+
+  const negative = text.startsWith('-') || (text.startsWith('(') && text.endsWith(')'))
+  text = text.replace(/[()-]/g, '')
+
+  const lastComma = text.lastIndexOf(',')
+  const lastDot = text.lastIndexOf('.')
+  if (lastComma > lastDot) {
+    text = text.replace(/\./g, '').replace(',', '.')
+  } else {
+    text = text.replace(/,/g, '')
+  }
+
+  const value = Number(text)
+  if (!Number.isFinite(value)) return null
+  return negative ? -value : value
+}
+
+// Accepts YYYY-MM-DD and day-first dates such as 31/01/2025, 31-01-2025 or 31.01.2025
+function parseDate(raw: string): string | null {
+  const text = raw.trim()
+  let match = text.match(/^(\d{4})-(\d{2})-(\d{2})/)
+  if (match) return isValidDate(`${match[1]}-${match[2]}-${match[3]}`) ? `${match[1]}-${match[2]}-${match[3]}` : null
+
+  match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/)
+  if (!match) return null
+
+  const year = match[3].length === 2 ? `20${match[3]}` : match[3]
+  const date = `${year}-${match[2].padStart(2, '0')}-${match[1].padStart(2, '0')}`
+  return isValidDate(date) ? date : null
+}
+
+function splitCsvRow(row: string, delimiter: string): string[] {
+  const cells: string[] = []
+  let current = ''
+  let quoted = false
+
+  for (let i = 0; i < row.length; i++) {
+    const char = row[i]
+    if (quoted) {
+      if (char === '"' && row[i + 1] === '"') {
+        current += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        current += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === delimiter) {
+      cells.push(current.trim())
+      current = ''
+    } else {
+      current += char
+    }
+  }
+
+  cells.push(current.trim())
+  return cells
+}
+
+// CSV exports differ per bank, so columns are found by their header names
+function parseCsv(content: string): ParsedStatement {
+  const rows = content.split(/\r?\n/).filter(row => row.trim() !== '')
+  if (rows.length < 2) throw new StatementParseError('The CSV file needs a header row and at least one transaction')
+
+  const delimiter = (rows[0].match(/;/g) || []).length > (rows[0].match(/,/g) || []).length ? ';' : ','
+  const headers = splitCsvRow(rows[0], delimiter).map(header => header.toLowerCase())
+  const column = (...patterns: RegExp[]) => {
+    for (const pattern of patterns) {
+      const index = headers.findIndex(header => pattern.test(header))
+      if (index !== -1) return index
+    }
+    return -1
+  }
+
+  const dateColumn = column(/value ?date/, /date/)
+  const amountColumn = column(/^amount/)
+  const debitColumn = column(/debit|withdrawal|paid out|money out/)
+  const creditColumn = column(/credit|deposit|paid in|money in/)
+  const descriptionColumn = column(/description|narrative|details|particulars|memo/)
+  const referenceColumn = column(/reference|\bref\b/)
+  const balanceColumn = column(/balance/)
+
+  if (dateColumn === -1 || (amountColumn === -1 && (debitColumn === -1 || creditColumn === -1))) {
+    throw new StatementParseError('The CSV file needs a date column and either an amount column or debit and credit columns')
+  }
+
+  const lines: ParsedLine[] = []
+  let firstBalance: number | null = null
+  let lastBalance: number | null = null
+
+  rows.slice(1).forEach((row, index) => {
+    const cells = splitCsvRow(row, delimiter)
+    const valueDate = parseDate(cells[dateColumn] || '')
+    if (!valueDate) throw new StatementParseError(`Row ${index + 2} has an unrecognised date "${cells[dateColumn] || ''}"`)
+
+    let amount: number | null
+    if (amountColumn !== -1) {
+      amount = parseAmount(cells[amountColumn] || '')
+    } else {
+      const paidIn = parseAmount(cells[creditColumn] || '') || 0
+      const paidOut = parseAmount(cells[debitColumn] || '') || 0
+      amount = Math.abs(paidIn) - Math.abs(paidOut)
+    }
+
+    if (amount === null) throw new StatementParseError(`Row ${index + 2} has an unrecognised amount`)
+    if (amount === 0) return
+
+    const balance = balanceColumn !== -1 ? parseAmount(cells[balanceColumn] || '') : null
+    if (balance !== null) {
+      if (firstBalance === null) firstBalance = balance - amount
+      lastBalance = balance
+    }
+
+    lines.push({
+      value_date: valueDate,
+      amount: Math.round(amount * 100) / 100,
+      description: descriptionColumn !== -1 ? cells[descriptionColumn] || null : null,
+      reference: referenceColumn !== -1 ? cells[referenceColumn] || null : null
+    })
+  })
+
+  return { statement_reference: null, opening_balance: firstBalance, closing_balance: lastBalance, lines }
+}
+
+// SWIFT MT940: :60F:/:62F: balances, :61: statement lines, each followed by an optional :86: narrative
+function parseMt940(content: string): ParsedStatement {
+  const fields: { tag: string; value: string }[] = []
+  for (const row of content.split(/\r?\n/)) {
+    const match = row.match(/^:(\d{2}[A-Z]?):(.*)$/)
+    if (match) {
+      fields.push({ tag: match[1], value: match[2] })
+    } else if (fields.length > 0 && row.trim() !== '' && !row.startsWith('-}') && row.trim() !== '-') {
+      fields[fields.length - 1].value += `\n${row}`
+    }
+  }
+
+  const parseBalance = (value: string) => {
+    const match = value.match(/^([CD])(\d{6})[A-Z]{3}([\d,]+)/)
+    if (!match) return null
+    const amount = Number(match[3].replace(',', '.'))
+    return match[1] === 'D' ? -amount : amount
+  }
+
+  const statement: ParsedStatement = { statement_reference: null, opening_balance: null, closing_balance: null, lines: [] }
+
+  for (const { tag, value } of fields) {
+    if (tag === '20' && !statement.statement_reference) {
+      statement.statement_reference = value.trim() || null
+    } else if ((tag === '60F' || tag === '60M') && statement.opening_balance === null) {
+      statement.opening_balance = parseBalance(value)
+    } else if (tag === '62F' || tag === '62M') {
+      statement.closing_balance = parseBalance(value)
+    } else if (tag === '61') {
+      const match = value.match(/^(\d{2})(\d{2})(\d{2})(\d{4})?(R?[CD])([A-Z])?([\d,]+)[A-Z]([A-Z0-9]{3})([^/\n]*)(?:\/\/([^\n]*))?/)
+      if (!match) throw new StatementParseError(`Unrecognised :61: statement line "${value.split('\n')[0]}"`)
+
+      const valueDate = `20${match[1]}-${match[2]}-${match[3]}`
+      if (!isValidDate(valueDate)) throw new StatementParseError(`Unrecognised value date in :61: line "${value.split('\n')[0]}"`)
+
+      // RC reverses a credit and RD reverses a debit
+      const amount = Number(match[7].replace(',', '.'))
+      const isCredit = match[5] === 'C' || match[5] === 'RD'
+      const customerReference = match[9].trim()
+
+      statement.lines.push({
+        value_date: valueDate,
+        amount: isCredit ? amount : -amount,
+        description: null,
+        reference: (customerReference && customerReference !== 'NONREF' ? customerReference : match[10]?.trim()) || null
+      })
+    } else if (tag === '86' && statement.lines.length > 0) {
+      statement.lines[statement.lines.length - 1].description = value.replace(/\n/g, ' ').trim() || null
+    }
+  }
+
+  return statement
+}
+
+const decodeXml = (text: string) =>
+  text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&')
+
+const xmlBlocks = (xml: string, tag: string) =>
+  Array.from(xml.matchAll(new RegExp(`<(?:\\w+:)?${tag}\\b[^>]*>([\\s\\S]*?)</(?:\\w+:)?${tag}>`, 'g')), match => match[1])
+
+const xmlValue = (xml: string, tag: string) => {
+  const block = xmlBlocks(xml, tag)[0]
+  return block === undefined ? null : decodeXml(block.trim())
+}
+
+// ISO 20022 camt.053: <Bal> entries with OPBD/CLBD codes and one <Ntry> per booked transaction
+function parseCamt053(content: string): ParsedStatement {
+  const statementBlock = xmlBlocks(content, 'Stmt')[0]
+  if (!statementBlock) throw new StatementParseError('The camt.053 file contains no statement')
+
+  const signed = (block: string) => {
+    const amount = Number(xmlValue(block, 'Amt'))
+    if (!Number.isFinite(amount)) return null
+    return xmlValue(block, 'CdtDbtInd') === 'DBIT' ? -amount : amount
+  }
+
+  const statement: ParsedStatement = {
+    statement_reference: xmlValue(statementBlock, 'Id'),
+    opening_balance: null,
+    closing_balance: null,
+    lines: []
+  }
+
+  for (const balance of xmlBlocks(statementBlock, 'Bal')) {
+    const code = xmlValue(balance, 'Cd')
+    if (code === 'OPBD' || code === 'PRCD') statement.opening_balance ??= signed(balance)
+    if (code === 'CLBD') statement.closing_balance = signed(balance)
+  }
+
+  for (const entry of xmlBlocks(statementBlock, 'Ntry')) {
+    const amount = signed(entry)
+    const date = xmlValue(xmlBlocks(entry, 'ValDt')[0] || '', 'Dt') ||
+      xmlValue(xmlBlocks(entry, 'ValDt')[0] || '', 'DtTm')?.slice(0, 10) ||
+      xmlValue(xmlBlocks(entry, 'BookgDt')[0] || '', 'Dt') ||
+      xmlValue(xmlBlocks(entry, 'BookgDt')[0] || '', 'DtTm')?.slice(0, 10)
+
+    if (amount === null || !date || !isValidDate(date)) {
+      throw new StatementParseError('A camt.053 entry is missing its amount or date')
+    }
+
+    const endToEndId = xmlValue(entry, 'EndToEndId')
+    const remittance = xmlBlocks(entry, 'Ustrd').map(text => decodeXml(text.trim())).join(' ')
+
+    statement.lines.push({
+      value_date: date,
+      amount,
+      description: remittance || xmlValue(entry, 'AddtlNtryInf') || null,
+      reference: (endToEndId && endToEndId !== 'NOTPROVIDED' ? endToEndId : xmlValue(entry, 'AcctSvcrRef')) || null
+    })
+  }
+
+  return statement
+}
+
+// Match unmatched statement lines to unmatched postings of the same amount, preferring postings
+// whose reference or entry number appears on the statement line, then the closest date. Each
+// match is recorded in the audit log.
+async function autoMatch(supabase: SupabaseClient, bankAccountId: string, audit: (entry: AuditEntry) => Promise<void>): Promise<number> {
+  const { data: statementLines, error: linesError } = await supabase
+    .from('bank_statement_lines')
+    .select('id, value_date, amount, description, reference')
+    .eq('bank_account_id', bankAccountId)
+    .is('journal_line_id', null)
+    .order('value_date', { ascending: true })
+
+  if (linesError) throw linesError
+  if (!statementLines || statementLines.length === 0) return 0
+
+  const from = addDays(statementLines[0].value_date, -MATCH_WINDOW_DAYS)
+  const to = addDays(statementLines[statementLines.length - 1].value_date, MATCH_WINDOW_DAYS + 1)
+
+  const { data: postings, error: postingsError } = await supabase
+    .from('journal_lines')
+    .select(POSTING_SELECT)
+    .eq('bank_account_id', bankAccountId)
+    .gte('journal_entry.posted_at', from)
+    .lt('journal_entry.posted_at', to)
+    .returns<Posting[]>()
+
+  if (postingsError) throw postingsError
+
+  const matchedIds = await matchedPostingIds(supabase, bankAccountId)
+  const pool = (postings || []).filter(posting => !matchedIds.has(posting.id))
+
+  let matched = 0
+  for (const line of statementLines) {
+    const text = `${line.reference || ''} ${line.description || ''}`.toLowerCase()
+    const candidates = pool
+      .filter(posting => postingAmount(posting) === Number(line.amount))
+      .map(posting => {
+        const entry = posting.journal_entry
+        const referenced = [entry.reference, entry.entry_number].some(ref => ref && ref.length >= 3 && text.includes(ref.toLowerCase()))
+        return { posting, referenced, distance: Math.abs(daysBetween(entry.posted_at.slice(0, 10), line.value_date)) }
+      })
+      .filter(candidate => candidate.distance <= MATCH_WINDOW_DAYS)
+      .sort((a, b) => Number(b.referenced) - Number(a.referenced) || a.distance - b.distance)
+
+    const best = candidates[0]
+    if (!best) continue
+
+    const match = { journal_line_id: best.posting.id, match_type: 'auto', matched_by: null, matched_at: new Date().toISOString() }
+    const { error: matchError } = await supabase
+      .from('bank_statement_lines')
+      .update(match)
+      .eq('id', line.id)
+      .is('journal_line_id', null)
+
+    if (matchError) {
+      console.error('Error auto-matching statement line:', matchError)
+      continue
+    }
+
+    await audit({
+      action: 'update',
+      entityType: 'bank_statement_line',
+      entityId: line.id,
+      before: { journal_line_id: null, match_type: null, matched_by: null, matched_at: null },
+      after: match
+    })
+
+    pool.splice(pool.indexOf(best.posting), 1)
+    matched++
+  }
+
+  return matched
+}
+
+async function matchedPostingIds(supabase: SupabaseClient, bankAccountId: string): Promise<Set<string>> {
+  const { data, error } = await supabase
+    .from('bank_statement_lines')
+    .select('journal_line_id')
+    .eq('bank_account_id', bankAccountId)
+    .not('journal_line_id', 'is', null)
+
+  if (error) throw error
+  return new Set((data || []).map(row => row.journal_line_id as string))
+}
+
+// A bank account's postings move money of members in every unit
+const EVERY_UNIT_MESSAGE = 'Bank reconciliation covers members of every unit and is only available to staff who see every unit'
+
+serve('bank-reconciliation', [
+  // GET reconciliation overview of every bank account
+  {
+    method: 'GET',
+    path: '',
+    permissions: ['reconciliation:view', 'reconciliation:manage'],
+    handler: async ({ supabase, caller }) => {
+      requireEveryUnit(caller, EVERY_UNIT_MESSAGE)
+      const [{ data: statementsData, error: statementsError }, { data: linesData, error: linesError }] = await Promise.all([
+        supabase.from('bank_statements').select('bank_account_id, period_start, period_end'),
+        supabase.from('bank_statement_lines').select('bank_account_id, journal_line_id')
+      ])
+
+      if (statementsError || linesError) {
+        throw new HttpError(500, (statementsError || linesError)!.message)
+      }
+
+      const overview = new Map<string, { bank_account_id: string; statement_count: number; covered_from: string; covered_to: string; unmatched_statement_lines: number; unmatched_postings: number }>()
+      for (const statement of statementsData || []) {
+        const current = overview.get(statement.bank_account_id)
+        overview.set(statement.bank_account_id, {
+          bank_account_id: statement.bank_account_id,
+          statement_count: (current?.statement_count || 0) + 1,
+          covered_from: current && current.covered_from < statement.period_start ? current.covered_from : statement.period_start,
+          covered_to: current && current.covered_to > statement.period_end ? current.covered_to : statement.period_end,
+          unmatched_statement_lines: 0,
+          unmatched_postings: 0
+        })
+      }
+
+      const matchedIds = new Set<string>()
+      for (const line of linesData || []) {
+        if (line.journal_line_id) {
+          matchedIds.add(line.journal_line_id)
+        } else {
+          const current = overview.get(line.bank_account_id)
+          if (current) current.unmatched_statement_lines++
+        }
+      }
+
+      // Postings dated within the imported statements that no statement line accounts for
+      for (const current of overview.values()) {
+        const { data: postings, error: postingsError } = await supabase
+          .from('journal_lines')
+          .select('id, journal_entry:journal_entries!inner(posted_at)')
+          .eq('bank_account_id', current.bank_account_id)
+          .gte('journal_entry.posted_at', current.covered_from)
+          .lt('journal_entry.posted_at', addDays(current.covered_to, 1))
+
+        if (postingsError) throw postingsError
+        current.unmatched_postings = (postings || []).filter(posting => !matchedIds.has(posting.id)).length
+      }
+
+      return json({ reconciliations: Array.from(overview.values()) })
+    }
+  },
+
+  // GET reconciliation of one bank account for a period
+  {
+    method: 'GET',
+    path: ':id',
+    permissions: ['reconciliation:view', 'reconciliation:manage'],
+    handler: async ({ url, params, supabase, caller }) => {
+      requireEveryUnit(caller, EVERY_UNIT_MESSAGE)
+      const bankAccountId = params.id
+      const today = new Date().toISOString().slice(0, 10)
+      const from = url.searchParams.get('from') || `${today.slice(0, 8)}01`
+      const to = url.searchParams.get('to') || today
+
+      if (!isValidDate(from) || !isValidDate(to) || from > to) {
+        throw new HttpError(400, 'Period must be a valid from and to date in YYYY-MM-DD format')
+      }
+
+      const { data: bankAccount, error: bankAccountError } = await supabase
+        .from('bank_accounts')
+        .select('id, name, account_number')
+        .eq('id', bankAccountId)
+        .maybeSingle()
+
+      if (bankAccountError) {
+        throw new HttpError(500, bankAccountError.message)
+      }
+
+      if (!bankAccount) {
+        throw new HttpError(404, 'Bank account not found')
+      }
+
+      const [statementsResult, linesResult, postingsResult, openingResult, closingResult] = await Promise.all([
+        supabase
+          .from('bank_statements')
+          .select('*')
+          .eq('bank_account_id', bankAccount.id)
+          .order('period_end', { ascending: false }),
+        supabase
+          .from('bank_statement_lines')
+          .select(`*, journal_line:journal_lines(${POSTING_SELECT})`)
+          .eq('bank_account_id', bankAccount.id)
+          .gte('value_date', from)
+          .lte('value_date', to)
+          .order('value_date', { ascending: true }),
+        supabase
+          .from('journal_lines')
+          .select(POSTING_SELECT)
+          .eq('bank_account_id', bankAccount.id)
+          .gte('journal_entry.posted_at', from)
+          .lt('journal_entry.posted_at', addDays(to, 1)),
+        supabase.rpc('bank_ledger_balance', { p_bank_account_id: bankAccount.id, p_as_of: addDays(from, -1) }),
+        supabase.rpc('bank_ledger_balance', { p_bank_account_id: bankAccount.id, p_as_of: to })
+      ])
+
+      const queryError = statementsResult.error || linesResult.error || postingsResult.error || openingResult.error || closingResult.error
+      if (queryError) {
+        throw new HttpError(500, queryError.message)
+      }
+
+      const statements = statementsResult.data || []
+      const statementLines = linesResult.data || []
+      const matchedIds = await matchedPostingIds(supabase, bankAccount.id)
+      const postings: Posting[] = postingsResult.data || []
+      const unmatchedPostings = postings
+        .filter(posting => !matchedIds.has(posting.id))
+        .map(posting => ({ ...posting, amount: postingAmount(posting) }))
+        .sort((a, b) => a.journal_entry.posted_at.localeCompare(b.journal_entry.posted_at))
+
+      const unmatchedLines = statementLines.filter(line => !line.journal_line_id)
+      const sum = (amounts: number[]) => Math.round(amounts.reduce((total, amount) => total + amount, 0) * 100) / 100
+
+      // The bank's closing balance for the period comes from the latest statement ending in it
+      const closingStatement = statements.find(statement => statement.period_end >= from && statement.period_end <= to && statement.closing_balance !== null)
+      const ledgerClosing = Number(closingResult.data)
+      const unmatchedStatementTotal = sum(unmatchedLines.map(line => Number(line.amount)))
+      const unmatchedPostingTotal = sum(unmatchedPostings.map(posting => posting.amount))
+      const adjustedLedgerBalance = Math.round((ledgerClosing - unmatchedPostingTotal + unmatchedStatementTotal) * 100) / 100
+
+      return json({
+        bank_account: bankAccount,
+        period: { from, to },
+        summary: {
+          ledger_opening_balance: Number(openingResult.data),
+          ledger_closing_balance: ledgerClosing,
+          statement_closing_balance: closingStatement ? Number(closingStatement.closing_balance) : null,
+          statement_line_count: statementLines.length,
+          matched_count: statementLines.length - unmatchedLines.length,
+          unmatched_statement_total: unmatchedStatementTotal,
+          unmatched_posting_total: unmatchedPostingTotal,
+          adjusted_ledger_balance: adjustedLedgerBalance,
+          difference: closingStatement ? Math.round((Number(closingStatement.closing_balance) - adjustedLedgerBalance) * 100) / 100 : null
+        },
+        statements,
+        statement_lines: statementLines,
+        unmatched_postings: unmatchedPostings
+      })
+    }
+  },
+
+  // POST import a bank statement file and auto-match its lines
+  {
+    method: 'POST',
+    path: ':id/statements',
+    permissions: ['reconciliation:manage'],
+    handler: async ({ req, params, supabase, user, caller, audit }) => {
+      requireEveryUnit(caller, EVERY_UNIT_MESSAGE)
+      const bankAccountId = params.id
+      const body = await readJson<ImportStatementData>(req)
+      const { file_name, content } = body
+
+      if (!file_name || typeof file_name !== 'string' || !content || typeof content !== 'string') {
+        throw new HttpError(400, 'File name and content are required')
+      }
+
+      if (content.length > MAX_STATEMENT_SIZE) {
+        throw new HttpError(400, 'Statement files must be smaller than 2 MB')
+      }
+
+      const { data: bankAccount, error: bankAccountError } = await supabase
+        .from('bank_accounts')
+        .select('id')
+        .eq('id', bankAccountId)
+        .maybeSingle()
+
+      if (bankAccountError || !bankAccount) {
+        throw new HttpError(404, 'Bank account not found')
+      }
+
+      const format = detectFormat(content)
+      const parsed = format === 'camt053' ? parseCamt053(content) : format === 'mt940' ? parseMt940(content) : parseCsv(content)
+
+      if (parsed.lines.length === 0) {
+        throw new HttpError(400, 'The statement contains no transactions')
+      }
+
+      const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content))
+      const fileHash = Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+
+      const { data: existingStatement, error: checkError } = await supabase
+        .from('bank_statements')
+        .select('id, file_name')
+        .eq('bank_account_id', bankAccount.id)
+        .eq('file_hash', fileHash)
+        .maybeSingle()
+
+      if (checkError) {
+        throw new HttpError(500, checkError.message)
+      }
+
+      if (existingStatement) {
+        throw new HttpError(400, `This statement has already been imported as ${existingStatement.file_name}`)
+      }
+
+      const valueDates = parsed.lines.map(line => line.value_date).sort()
+
+      const { data: newStatement, error: insertError } = await supabase
+        .from('bank_statements')
+        .insert({
+          bank_account_id: bankAccount.id,
+          format,
+          file_name: file_name.trim(),
+          file_hash: fileHash,
+          statement_reference: parsed.statement_reference,
+          period_start: valueDates[0],
+          period_end: valueDates[valueDates.length - 1],
+          opening_balance: parsed.opening_balance,
+          closing_balance: parsed.closing_balance,
+          line_count: parsed.lines.length,
+          uploaded_by: user.id
+        })
+        .select('*')
+        .single()
+
+      if (insertError) {
+        throw new HttpError(400, insertError.message)
+      }
+
+      const { error: linesError } = await supabase
+        .from('bank_statement_lines')
+        .insert(parsed.lines.map(line => ({ ...line, bank_statement_id: newStatement.id, bank_account_id: bankAccount.id })))
+
+      if (linesError) {
+        await supabase.from('bank_statements').delete().eq('id', newStatement.id)
+        throw new HttpError(400, linesError.message)
+      }
+
+      await audit({ action: 'create', entityType: 'bank_statement', entityId: newStatement.id, after: newStatement })
+
+      const matchedCount = await autoMatch(supabase, bankAccount.id, audit)
+
+      return json({ bank_statement: newStatement, matched_count: matchedCount }, 201)
+    }
+  },
+
+  // POST re-run automatic matching for a bank account
+  {
+    method: 'POST',
+    path: ':id/auto-match',
+    permissions: ['reconciliation:manage'],
+    handler: async ({ params, supabase, caller, audit }) => {
+      requireEveryUnit(caller, EVERY_UNIT_MESSAGE)
+      const bankAccountId = params.id
+      const matchedCount = await autoMatch(supabase, bankAccountId, audit)
+
+      return json({ matched_count: matchedCount })
+    }
+  },
+
+  // PUT match a statement line to a posting by hand, or clear its match
+  {
+    method: 'PUT',
+    path: 'lines/:id',
+    permissions: ['reconciliation:manage'],
+    handler: async ({ req, params, supabase, user, caller, audit }) => {
+      requireEveryUnit(caller, EVERY_UNIT_MESSAGE)
+      const lineId = params.id
+      const body = await readJson<MatchStatementLineData>(req)
+      const { journal_line_id } = body
+
+      const { data: line, error: lineError } = await supabase
+        .from('bank_statement_lines')
+        .select('id, bank_account_id, amount, journal_line_id, match_type, matched_by, matched_at')
+        .eq('id', lineId)
+        .maybeSingle()
+
+      if (lineError || !line) {
+        throw new HttpError(404, 'Statement line not found')
+      }
+
+      let updateData: Record<string, unknown>
+      if (journal_line_id === null) {
+        updateData = { journal_line_id: null, match_type: null, matched_by: null, matched_at: null }
+      } else {
+        if (!journal_line_id || typeof journal_line_id !== 'string') {
+          throw new HttpError(400, 'A ledger posting is required')
+        }
+
+        if (line.journal_line_id) {
+          throw new HttpError(400, 'This statement line is already matched; unmatch it first')
+        }
+
+        const { data: posting, error: postingError } = await supabase
+          .from('journal_lines')
+          .select('id, bank_account_id, debit, credit')
+          .eq('id', journal_line_id)
+          .maybeSingle()
+
+        if (postingError || !posting || posting.bank_account_id !== line.bank_account_id) {
+          throw new HttpError(400, 'The ledger posting does not belong to this bank account')
+        }
+
+        if (postingAmount(posting) !== Number(line.amount)) {
+          throw new HttpError(400, 'The ledger posting amount does not equal the statement line amount')
+        }
+
+        const { data: existingMatch, error: checkError } = await supabase
+          .from('bank_statement_lines')
+          .select('id')
+          .eq('journal_line_id', journal_line_id)
+          .maybeSingle()
+
+        if (checkError || existingMatch) {
+          throw new HttpError(400, 'The ledger posting is already matched to another statement line')
+        }
+
+        updateData = { journal_line_id, match_type: 'manual', matched_by: user.id, matched_at: new Date().toISOString() }
+      }
+
+      const { data: updatedLine, error: updateError } = await supabase
+        .from('bank_statement_lines')
+        .update(updateData)
+        .eq('id', line.id)
+        .select(`*, journal_line:journal_lines(${POSTING_SELECT})`)
+        .single()
+
+      if (updateError) {
+        throw new HttpError(400, updateError.message)
+      }
+
+      await audit({
+        action: 'update',
+        entityType: 'bank_statement_line',
+        entityId: line.id,
+        before: { journal_line_id: line.journal_line_id, match_type: line.match_type, matched_by: line.matched_by, matched_at: line.matched_at },
+        after: updateData
+      })
+
+      return json({ statement_line: updatedLine })
+    }
+  },
+
+  // DELETE an imported statement with its lines
+  {
+    method: 'DELETE',
+    path: 'statements/:id',
+    permissions: ['reconciliation:manage'],
+    handler: async ({ params, supabase, caller, audit }) => {
+      requireEveryUnit(caller, EVERY_UNIT_MESSAGE)
+      const statementId = params.id
+
+      const { data: statement, error: statementError } = await supabase
+        .from('bank_statements')
+        .select('*')
+        .eq('id', statementId)
+        .maybeSingle()
+
+      if (statementError || !statement) {
+        throw new HttpError(404, 'Bank statement not found')
+      }
+
+      const { error: deleteError } = await supabase
+        .from('bank_statements')
+        .delete()
+        .eq('id', statement.id)
+
+      if (deleteError) {
+        throw new HttpError(400, deleteError.message)
+      }
+
+      await audit({ action: 'delete', entityType: 'bank_statement', entityId: statement.id, before: statement })
+
+      return json({ message: 'Bank statement deleted successfully' })
+    }
+  }
+])
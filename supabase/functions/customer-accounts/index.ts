@@ -0,0 +1,416 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { serve } from '../_shared/pipeline.ts'
+import { HttpError, json, readJson } from '../_shared/http.ts'
+import { canSeeUnit, unitFilter } from '../_shared/units.ts'
+
+type CustomerAccountStatus = 'pending' | 'active' | 'dormant' | 'closed'
+
+// Allowed status changes; 'closed' is final
+const STATUS_TRANSITIONS: Record<CustomerAccountStatus, CustomerAccountStatus[]> = {
+  pending: ['active', 'closed'],
+  active: ['dormant', 'closed'],
+  dormant: ['active', 'closed'],
+  closed: [],
+}
+
+const ACCOUNT_SELECT = `
+  *,
+  member:members!inner(
+    id,
+    member_number,
+    first_name,
+    last_name,
+    national_id,
+    membership_status,
+    organisation_unit_id
+  ),
+  account_type:account_types(
+    id,
+    name,
+    processing_fee,
+    is_member_account,
+    can_take_loan,
+    has_savings_goal,
+    documents_required,
+    bank_account_id
+  )
+`
+
+type ChecklistStatus = 'verified' | 'pending' | 'rejected' | 'expired' | 'missing'
+
+// Best evidence first: a valid verified document satisfies the requirement
+const CHECKLIST_PRIORITY: ChecklistStatus[] = ['verified', 'pending', 'expired', 'rejected', 'missing']
+
+const CHECKLIST_LABELS: Record<ChecklistStatus, string> = {
+  verified: 'verified',
+  pending: 'awaiting review',
+  expired: 'expired',
+  rejected: 'rejected',
+  missing: 'missing',
+}
+
+interface OpenCustomerAccountData {
+  member_id: string
+  account_type_id: string
+  goal_amount?: number
+  goal_date?: string
+  notes?: string
+}
+
+interface UpdateCustomerAccountData {
+  status?: CustomerAccountStatus
+  goal_amount?: number
+  goal_date?: string
+  notes?: string
+}
+
+interface ChecklistItem {
+  code: string
+  name: string
+  status: ChecklistStatus
+  document_id: string | null
+  expires_on: string | null
+}
+
+// Target amount and date go together; the date must still be ahead
+function validateSavingsGoal(goalAmount: unknown, goalDate: unknown): string | null {
+  if (typeof goalAmount !== 'number' || !isFinite(goalAmount) || goalAmount <= 0) {
+    return 'Savings goal amount must be a positive number'
+  }
+
+  if (typeof goalDate !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(goalDate) || isNaN(Date.parse(goalDate))) {
+    return 'Savings goal date must be a valid date'
+  }
+
+  if (goalDate <= new Date().toISOString().slice(0, 10)) {
+    return 'Savings goal date must be in the future'
+  }
+
+  return null
+}
+
+// Match the account type's required document kinds against the member's uploads.
+// Member-level documents count for every account; account-level ones only for their account.
+async function buildDocumentChecklist(
+  supabase: SupabaseClient,
+  account: { id: string; member_id: string; account_type?: { documents_required: string[] | null } | null }
+): Promise<ChecklistItem[]> {
+  const requiredCodes: string[] = account.account_type?.documents_required || []
+  if (requiredCodes.length === 0) return []
+
+  const { data: kinds, error: kindsError } = await supabase
+    .from('document_kinds')
+    .select('id, code, name')
+    .in('code', requiredCodes)
+
+  if (kindsError) throw kindsError
+
+  const { data: documents, error: documentsError } = await supabase
+    .from('member_documents')
+    .select('id, document_kind_id, customer_account_id, status, expires_on')
+    .eq('member_id', account.member_id)
+    .or(`customer_account_id.is.null,customer_account_id.eq.${account.id}`)
+
+  if (documentsError) throw documentsError
+
+  const today = new Date().toISOString().slice(0, 10)
+
+  return requiredCodes.map(code => {
+    const kind = (kinds || []).find(k => k.code === code)
+    const candidates = (documents || [])
+      .filter(doc => kind && doc.document_kind_id === kind.id)
+      .map(doc => ({
+        document_id: doc.id as string,
+        expires_on: doc.expires_on as string | null,
+        status: (doc.status === 'verified' && doc.expires_on && doc.expires_on <= today ? 'expired' : doc.status) as ChecklistStatus
+      }))
+      .sort((a, b) => CHECKLIST_PRIORITY.indexOf(a.status) - CHECKLIST_PRIORITY.indexOf(b.status))
+
+    const best = candidates[0]
+    return {
+      code,
+      name: kind?.name || code,
+      status: best?.status || 'missing',
+      document_id: best?.document_id || null,
+      expires_on: best?.expires_on || null
+    }
+  })
+}
+
+serve('customer-accounts', [
+  // GET customer accounts of members in the caller's units, optionally for a single member or the
+  // members of one unit and the units below it
+  {
+    method: 'GET',
+    path: '',
+    permissions: ['accounts:view', 'accounts:manage', 'transactions:create', 'loans:apply'],
+    handler: async ({ url, supabase, caller }) => {
+      let accountsQuery = supabase
+        .from('customer_accounts')
+        .select(ACCOUNT_SELECT)
+        .order('opened_at', { ascending: false })
+
+      const memberId = url.searchParams.get('member_id')
+      if (memberId) {
+        accountsQuery = accountsQuery.eq('member_id', memberId)
+      }
+
+      const unitIds = await unitFilter(supabase, caller, url.searchParams.get('organisation_unit_id'))
+      if (unitIds) {
+        accountsQuery = accountsQuery.in('member.organisation_unit_id', unitIds)
+      }
+
+      const { data: accountsData, error: accountsError } = await accountsQuery
+
+      if (accountsError) {
+        throw new HttpError(500, accountsError.message)
+      }
+
+      return json({ customer_accounts: accountsData || [] })
+    }
+  },
+
+  // GET single customer account
+  {
+    method: 'GET',
+    path: ':id',
+    permissions: ['accounts:view', 'accounts:manage', 'transactions:create', 'loans:apply'],
+    handler: async ({ params, supabase, caller }) => {
+      const accountId = params.id
+
+      const { data: account, error: accountError } = await supabase
+        .from('customer_accounts')
+        .select(ACCOUNT_SELECT)
+        .eq('id', accountId)
+        .maybeSingle()
+
+      if (accountError) {
+        throw new HttpError(500, accountError.message)
+      }
+
+      if (!account || !canSeeUnit(caller, account.member?.organisation_unit_id)) {
+        throw new HttpError(404, 'Customer account not found')
+      }
+
+      const documentChecklist = await buildDocumentChecklist(supabase, account)
+
+      return json({ customer_account: account, document_checklist: documentChecklist })
+    }
+  },
+
+  // POST open customer account
+  {
+    method: 'POST',
+    path: '',
+    permissions: ['accounts:manage'],
+    handler: async ({ req, supabase, user, caller, audit }) => {
+      const body = await readJson<OpenCustomerAccountData>(req)
+      const { member_id, account_type_id, goal_amount, goal_date, notes } = body
+
+      if (!member_id || !account_type_id || typeof member_id !== 'string' || typeof account_type_id !== 'string') {
+        throw new HttpError(400, 'Member and account type are required')
+      }
+
+      // Verify member can hold accounts
+      const { data: member, error: memberError } = await supabase
+        .from('members')
+        .select('id, membership_status, organisation_unit_id')
+        .eq('id', member_id)
+        .maybeSingle()
+
+      if (memberError || !member || !canSeeUnit(caller, member.organisation_unit_id)) {
+        throw new HttpError(400, 'Invalid member selected')
+      }
+
+      if (member.membership_status === 'suspended' || member.membership_status === 'terminated') {
+        throw new HttpError(400, `Cannot open an account for a ${member.membership_status} member`)
+      }
+
+      // Verify account type is available
+      const { data: accountType, error: accountTypeError } = await supabase
+        .from('account_types')
+        .select('id, is_active, processing_fee, has_savings_goal')
+        .eq('id', account_type_id)
+        .maybeSingle()
+
+      if (accountTypeError || !accountType) {
+        throw new HttpError(400, 'Invalid account type selected')
+      }
+
+      if (!accountType.is_active) {
+        throw new HttpError(400, 'This account type is no longer available')
+      }
+
+      const hasGoal = goal_amount !== undefined || goal_date !== undefined
+      if (accountType.has_savings_goal || hasGoal) {
+        if (!accountType.has_savings_goal) {
+          throw new HttpError(400, 'This account type does not support savings goals')
+        }
+
+        const goalError = validateSavingsGoal(goal_amount, goal_date)
+        if (goalError) {
+          throw new HttpError(400, goalError)
+        }
+      }
+
+      const { data: newAccount, error: insertError } = await supabase
+        .from('customer_accounts')
+        .insert({
+          member_id,
+          account_type_id,
+          processing_fee: accountType.processing_fee || 0,
+          goal_amount: goal_amount ?? null,
+          goal_date: goal_date ?? null,
+          notes: notes?.trim() || null,
+          opened_by: user.id
+        })
+        .select(ACCOUNT_SELECT)
+        .single()
+
+      if (insertError) {
+        throw new HttpError(400, insertError.message)
+      }
+
+      await audit({ action: 'create', entityType: 'customer_account', entityId: newAccount.id, after: newAccount })
+
+      // The account stays pending until every document on its checklist is verified
+      const documentChecklist = await buildDocumentChecklist(supabase, newAccount)
+
+      return json({ customer_account: newAccount, document_checklist: documentChecklist }, 201)
+    }
+  },
+
+  // PUT update customer account (notes, savings goal and status changes)
+  {
+    method: 'PUT',
+    path: ':id',
+    permissions: ['accounts:manage'],
+    handler: async ({ req, params, supabase, user, caller, audit }) => {
+      const accountId = params.id
+      const body = await readJson<UpdateCustomerAccountData>(req)
+      const { status, goal_amount, goal_date, notes } = body
+
+      if (!accountId) {
+        throw new HttpError(400, 'Customer account ID is required')
+      }
+
+      const { data: account, error: accountError } = await supabase
+        .from('customer_accounts')
+        .select(ACCOUNT_SELECT)
+        .eq('id', accountId)
+        .maybeSingle()
+
+      if (accountError || !account || !canSeeUnit(caller, account.member?.organisation_unit_id)) {
+        throw new HttpError(404, 'Customer account not found')
+      }
+
+      const updateData: Record<string, unknown> = {}
+
+      if (notes !== undefined) {
+        updateData.notes = notes?.trim() || null
+      }
+
+      if (goal_amount !== undefined || goal_date !== undefined) {
+        if (!account.account_type?.has_savings_goal) {
+          throw new HttpError(400, 'This account type does not support savings goals')
+        }
+
+        if (account.status === 'closed') {
+          throw new HttpError(400, 'Cannot change the savings goal of a closed account')
+        }
+
+        const goalError = validateSavingsGoal(goal_amount ?? account.goal_amount, goal_date ?? account.goal_date)
+        if (goalError) {
+          throw new HttpError(400, goalError)
+        }
+
+        if (goal_amount !== undefined) updateData.goal_amount = goal_amount
+        if (goal_date !== undefined) updateData.goal_date = goal_date
+      }
+
+      if (status !== undefined && status !== account.status) {
+        const allowed = STATUS_TRANSITIONS[account.status as CustomerAccountStatus] || []
+        if (!allowed.includes(status)) {
+          throw new HttpError(400, `Cannot change account status from ${account.status} to ${status}`)
+        }
+
+        if (status === 'active') {
+          const checklist = await buildDocumentChecklist(supabase, account)
+          const outstanding = checklist.filter(item => item.status !== 'verified')
+          if (outstanding.length > 0) {
+            throw new HttpError(400, `Cannot activate account until all required documents are verified. Outstanding: ${outstanding.map(item => `${item.name} (${CHECKLIST_LABELS[item.status]})`).join(', ')}`)
+          }
+          if (!account.activated_at) {
+            updateData.activated_at = new Date().toISOString()
+          }
+        }
+
+        if (status === 'closed') {
+          if (Number(account.balance) !== 0) {
+            throw new HttpError(400, 'Only accounts with a zero balance can be closed')
+          }
+          updateData.closed_at = new Date().toISOString()
+        }
+
+        updateData.status = status
+      }
+
+      const { error: updateError } = await supabase
+        .from('customer_accounts')
+        .update(updateData)
+        .eq('id', accountId)
+
+      if (updateError) {
+        throw new HttpError(400, updateError.message)
+      }
+
+      // An activated account pays its processing fee now if it already holds enough, or with a later deposit
+      if (updateData.status === 'active') {
+        const { error: feeError } = await supabase.rpc('charge_processing_fee', {
+          p_account_id: accountId,
+          p_posted_by: user.id
+        })
+
+        if (feeError) {
+          console.error('Error charging processing fee:', feeError)
+        }
+      }
+
+      const { data: updatedAccount, error: fetchError } = await supabase
+        .from('customer_accounts')
+        .select(ACCOUNT_SELECT)
+        .eq('id', accountId)
+        .single()
+
+      if (fetchError) {
+        throw new HttpError(500, fetchError.message)
+      }
+
+      // Activating a member account makes a pending holder a full member
+      if (updateData.status === 'active' && account.account_type?.is_member_account && account.member?.membership_status === 'pending') {
+        const { error: memberUpdateError } = await supabase
+          .from('members')
+          .update({ membership_status: 'active' })
+          .eq('id', account.member_id)
+
+        if (memberUpdateError) {
+          console.error('Error activating membership:', memberUpdateError)
+        } else {
+          await audit({
+            action: 'update',
+            entityType: 'member',
+            entityId: account.member_id,
+            before: { membership_status: 'pending' },
+            after: { membership_status: 'active' }
+          })
+        }
+      }
+
+      await audit({ action: 'update', entityType: 'customer_account', entityId: accountId, before: account, after: updatedAccount })
+
+      const documentChecklist = await buildDocumentChecklist(supabase, updatedAccount)
+
+      return json({ customer_account: updatedAccount, document_checklist: documentChecklist })
+    }
+  }
+])
@@ -0,0 +1,192 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { serve } from '../_shared/pipeline.ts'
+import { HttpError, json } from '../_shared/http.ts'
+import { hasPermission, type CallerPermissions } from '../_shared/auth.ts'
+
+// Each statistic is compared with its value this many days ago
+const PERIOD_DAYS = 30
+
+type DashboardStatKey = 'active_users' | 'members' | 'customer_accounts' | 'bank_balances'
+
+interface DashboardStat {
+  key: DashboardStatKey
+  value: number
+  previous_value: number
+  // Percentage change from previous_value; null when there is nothing to compare with
+  change: number | null
+  breakdown: { label: string; value: number }[]
+}
+
+interface StatDefinition {
+  key: DashboardStatKey
+  // Any one of these lets the caller see the statistic; the same permissions as the route
+  // listing the underlying records
+  permissions: string[]
+  // Only shown to callers who see every unit, as it cannot be narrowed to some
+  everyUnit?: boolean
+  // Counts only records of the given units; every record when unitIds is null
+  compute: (supabase: SupabaseClient, since: string, today: string, unitIds: string[] | null) => Promise<Omit<DashboardStat, 'key' | 'change'>>
+}
+
+const addDays = (date: string, days: number) => {
+  const next = new Date(`${date}T00:00:00Z`)
+  next.setUTCDate(next.getUTCDate() + days)
+  return next.toISOString().slice(0, 10)
+}
+
+const round2 = (amount: number) => Math.round(amount * 100) / 100
+
+const percentChange = (value: number, previous: number) =>
+  previous === 0 ? null : Math.round(((value - previous) / Math.abs(previous)) * 1000) / 10
+
+const STATS: StatDefinition[] = [
+  {
+    key: 'active_users',
+    permissions: ['users:view', 'users:manage'],
+    // Activation history is not kept, so the previous value counts the users active now who
+    // already existed at the start of the period
+    compute: async (supabase, since, _today, unitIds) => {
+      const countUsers = () => {
+        const query = supabase.from('users').select('id', { count: 'exact', head: true })
+        return unitIds ? query.in('organisation_unit_id', unitIds) : query
+      }
+
+      const [currentResult, previousResult, totalResult] = await Promise.all([
+        countUsers().eq('is_active', true),
+        countUsers().eq('is_active', true).lt('created_at', since),
+        countUsers()
+      ])
+
+      const queryError = currentResult.error || previousResult.error || totalResult.error
+      if (queryError) {
+        throw new HttpError(500, queryError.message)
+      }
+
+      const active = currentResult.count || 0
+      return {
+        value: active,
+        previous_value: previousResult.count || 0,
+        breakdown: [
+          { label: 'Active', value: active },
+          { label: 'Inactive', value: (totalResult.count || 0) - active }
+        ]
+      }
+    }
+  },
+  {
+    key: 'members',
+    permissions: ['members:view', 'members:manage', 'accounts:manage', 'loans:apply'],
+    compute: async (supabase, since, _today, unitIds) => {
+      const countMembers = (status?: string) => {
+        let query = supabase.from('members').select('id', { count: 'exact', head: true })
+        if (unitIds) query = query.in('organisation_unit_id', unitIds)
+        return status ? query.eq('membership_status', status) : query
+      }
+
+      const statuses = ['active', 'pending', 'suspended', 'terminated']
+      const [totalResult, previousResult, ...statusResults] = await Promise.all([
+        countMembers(),
+        countMembers().lt('joined_at', since),
+        ...statuses.map(status => countMembers(status))
+      ])
+
+      const queryError = [totalResult, previousResult, ...statusResults].find(result => result.error)?.error
+      if (queryError) {
+        throw new HttpError(500, queryError.message)
+      }
+
+      return {
+        value: totalResult.count || 0,
+        previous_value: previousResult.count || 0,
+        breakdown: statuses.map((status, index) => ({
+          label: status.charAt(0).toUpperCase() + status.slice(1),
+          value: statusResults[index].count || 0
+        }))
+      }
+    }
+  },
+  {
+    key: 'customer_accounts',
+    permissions: ['accounts:view', 'accounts:manage', 'transactions:create', 'loans:apply'],
+    compute: async (supabase, since, _today, unitIds) => {
+      const { data: typesData, error: typesError } = await supabase.rpc('dashboard_accounts_by_type', { p_since: since, p_unit_ids: unitIds })
+
+      if (typesError) {
+        throw new HttpError(500, typesError.message)
+      }
+
+      const accountTypes = (typesData || []) as { name: string; open_accounts: number; open_accounts_before: number }[]
+      return {
+        value: accountTypes.reduce((total, type) => total + Number(type.open_accounts), 0),
+        previous_value: accountTypes.reduce((total, type) => total + Number(type.open_accounts_before), 0),
+        breakdown: accountTypes.map(type => ({ label: type.name, value: Number(type.open_accounts) }))
+      }
+    }
+  },
+  {
+    key: 'bank_balances',
+    permissions: ['bank_accounts:view', 'bank_accounts:manage', 'reconciliation:view'],
+    everyUnit: true,
+    compute: async (supabase, since, today) => {
+      const { data: bankAccountsData, error: bankAccountsError } = await supabase
+        .from('bank_accounts')
+        .select('id, name')
+        .order('name', { ascending: true })
+
+      if (bankAccountsError) {
+        throw new HttpError(500, bankAccountsError.message)
+      }
+
+      const balances = await Promise.all((bankAccountsData || []).map(async bankAccount => {
+        const [currentResult, previousResult] = await Promise.all([
+          supabase.rpc('bank_ledger_balance', { p_bank_account_id: bankAccount.id, p_as_of: today }),
+          supabase.rpc('bank_ledger_balance', { p_bank_account_id: bankAccount.id, p_as_of: addDays(since, -1) })
+        ])
+
+        const queryError = currentResult.error || previousResult.error
+        if (queryError) {
+          throw new HttpError(500, queryError.message)
+        }
+
+        return { name: bankAccount.name, current: Number(currentResult.data), previous: Number(previousResult.data) }
+      }))
+
+      return {
+        value: round2(balances.reduce((total, balance) => total + balance.current, 0)),
+        previous_value: round2(balances.reduce((total, balance) => total + balance.previous, 0)),
+        breakdown: balances.map(balance => ({ label: balance.name, value: balance.current }))
+      }
+    }
+  }
+]
+
+async function computeStats(supabase: SupabaseClient, caller: CallerPermissions, since: string, today: string): Promise<DashboardStat[]> {
+  const visible = STATS.filter(stat =>
+    stat.permissions.some(permission => hasPermission(caller, permission)) &&
+    (!stat.everyUnit || caller.unitIds === null)
+  )
+
+  return await Promise.all(visible.map(async stat => {
+    const result = await stat.compute(supabase, since, today, caller.unitIds)
+    return { key: stat.key, ...result, change: percentChange(result.value, result.previous_value) }
+  }))
+}
+
+serve('dashboard-stats', [
+  // GET the dashboard statistics the caller has permission to see, counting only records of the
+  // caller's units, each with its change over the last PERIOD_DAYS days
+  {
+    method: 'GET',
+    path: '',
+    permissions: ['dashboard:access'],
+    handler: async ({ supabase, caller }) => {
+      const today = new Date().toISOString().slice(0, 10)
+      const since = addDays(today, -PERIOD_DAYS)
+
+      return json({
+        period: { from: since, to: today },
+        stats: await computeStats(supabase, caller, since, today)
+      })
+    }
+  }
+])
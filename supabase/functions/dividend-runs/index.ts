@@ -0,0 +1,416 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { serve } from '../_shared/pipeline.ts'
+import { HttpError, json, readJson } from '../_shared/http.ts'
+import { requirePermission } from '../_shared/auth.ts'
+import { requireEveryUnit, unitFilter } from '../_shared/units.ts'
+
+type DividendRunStatus = 'draft' | 'approved' | 'posted' | 'cancelled'
+
+// Status changes made through PUT; 'posted' credits the allocations to the member accounts
+const STATUS_TRANSITIONS: Record<DividendRunStatus, DividendRunStatus[]> = {
+  draft: ['approved', 'cancelled'],
+  approved: ['posted', 'cancelled'],
+  posted: [],
+  cancelled: [],
+}
+
+const ALLOCATION_SELECT = `
+  *,
+  customer_account:customer_accounts(
+    id,
+    account_number,
+    account_type:account_types(
+      id,
+      name
+    )
+  ),
+  member:members!inner(
+    id,
+    member_number,
+    first_name,
+    last_name,
+    organisation_unit_id
+  )
+`
+
+interface DividendRunTerms {
+  name?: string
+  period_start?: string
+  period_end?: string
+  profit_pool?: number
+  notes?: string
+}
+
+interface UpdateDividendRunData extends DividendRunTerms {
+  status?: DividendRunStatus
+}
+
+const isValidAmount = (amount: number) =>
+  Number.isFinite(amount) && amount > 0 && Math.abs(Math.round(amount * 100) - amount * 100) <= 1e-6
+
+const isValidDate = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value))
+
+// Name and notes are trimmed, so anything but text is refused before that
+function validateText(body: DividendRunTerms): string | null {
+  if (body.name !== undefined && typeof body.name !== 'string') {
+    return 'Run name must be a string'
+  }
+
+  if (body.notes !== undefined && body.notes !== null && typeof body.notes !== 'string') {
+    return 'Notes must be a string'
+  }
+
+  return null
+}
+
+// Returns an error message when the period or pool of a run is not acceptable
+function validateTerms(terms: { name: string; period_start: string; period_end: string; profit_pool: number }): string | null {
+  if (!terms.name.trim()) {
+    return 'Run name cannot be empty'
+  }
+
+  if (!isValidDate(terms.period_start) || !isValidDate(terms.period_end)) {
+    return 'Period start and end must be dates in YYYY-MM-DD format'
+  }
+
+  if (terms.period_end < terms.period_start) {
+    return 'Period end must be on or after period start'
+  }
+
+  if (terms.period_end >= new Date().toISOString().slice(0, 10)) {
+    return 'The period must have ended before its profit can be distributed'
+  }
+
+  if (!isValidAmount(Number(terms.profit_pool))) {
+    return 'Profit pool must be a positive amount with at most two decimal places'
+  }
+
+  return null
+}
+
+// Another live run covering any day of the period would pay the same balances twice
+async function findOverlappingRun(supabase: SupabaseClient, periodStart: string, periodEnd: string, excludeId?: string) {
+  let overlapQuery = supabase
+    .from('dividend_runs')
+    .select('id, run_number')
+    .neq('status', 'cancelled')
+    .lte('period_start', periodEnd)
+    .gte('period_end', periodStart)
+    .limit(1)
+  if (excludeId) {
+    overlapQuery = overlapQuery.neq('id', excludeId)
+  }
+  const { data } = await overlapQuery
+  return data?.[0] || null
+}
+
+// A run pays members of every unit, so only callers who see every unit may create or change one
+const EVERY_UNIT_MESSAGE = 'Dividend runs pay members of every unit and can only be changed by staff who see every unit'
+
+serve('dividend-runs', [
+  // GET dividend runs
+  {
+    method: 'GET',
+    path: '',
+    permissions: ['dividends:view', 'dividends:manage', 'dividends:approve'],
+    handler: async ({ supabase }) => {
+      const { data: runsData, error: runsError } = await supabase
+        .from('dividend_runs')
+        .select('*')
+        .order('period_end', { ascending: false })
+        .order('created_at', { ascending: false })
+
+      if (runsError) {
+        throw new HttpError(500, runsError.message)
+      }
+
+      return json({ dividend_runs: runsData || [] })
+    }
+  },
+
+  // GET single dividend run with its allocations to members in the caller's units, optionally
+  // only those of one unit and the units below it
+  {
+    method: 'GET',
+    path: ':id',
+    permissions: ['dividends:view', 'dividends:manage', 'dividends:approve'],
+    handler: async ({ url, params, supabase, caller }) => {
+      const runId = params.id
+
+      const { data: run, error: runError } = await supabase
+        .from('dividend_runs')
+        .select('*')
+        .eq('id', runId)
+        .maybeSingle()
+
+      if (runError) {
+        throw new HttpError(500, runError.message)
+      }
+
+      if (!run) {
+        throw new HttpError(404, 'Dividend run not found')
+      }
+
+      let allocationsQuery = supabase
+        .from('dividend_allocations')
+        .select(ALLOCATION_SELECT)
+        .eq('dividend_run_id', run.id)
+        .order('amount', { ascending: false })
+
+      const unitIds = await unitFilter(supabase, caller, url.searchParams.get('organisation_unit_id'))
+      if (unitIds) {
+        allocationsQuery = allocationsQuery.in('member.organisation_unit_id', unitIds)
+      }
+
+      const { data: allocations, error: allocationsError } = await allocationsQuery
+
+      if (allocationsError) {
+        throw new HttpError(500, allocationsError.message)
+      }
+
+      return json({ dividend_run: run, allocations: allocations || [] })
+    }
+  },
+
+  // POST create a draft run and compute its allocations
+  {
+    method: 'POST',
+    path: '',
+    permissions: ['dividends:manage'],
+    handler: async ({ req, supabase, user, caller, audit }) => {
+      requireEveryUnit(caller, EVERY_UNIT_MESSAGE)
+      const body = await readJson<DividendRunTerms>(req, validateText)
+      const terms = {
+        name: body.name?.trim() || '',
+        period_start: body.period_start || '',
+        period_end: body.period_end || '',
+        profit_pool: Number(body.profit_pool)
+      }
+
+      const validationError = validateTerms(terms)
+      if (validationError) {
+        throw new HttpError(400, validationError)
+      }
+
+      const overlappingRun = await findOverlappingRun(supabase, terms.period_start, terms.period_end)
+      if (overlappingRun) {
+        throw new HttpError(400, `The period overlaps dividend run ${overlappingRun.run_number}`)
+      }
+
+      const { data: newRun, error: insertError } = await supabase
+        .from('dividend_runs')
+        .insert({
+          ...terms,
+          notes: body.notes?.trim() || null,
+          created_by: user.id
+        })
+        .select('id')
+        .single()
+
+      if (insertError) {
+        throw new HttpError(400, insertError.message)
+      }
+
+      const { error: calculateError } = await supabase.rpc('calculate_dividend_run', { p_run_id: newRun.id })
+
+      if (calculateError) {
+        await supabase.from('dividend_runs').delete().eq('id', newRun.id)
+        throw new HttpError(400, calculateError.message)
+      }
+
+      const { data: run, error: fetchError } = await supabase
+        .from('dividend_runs')
+        .select('*')
+        .eq('id', newRun.id)
+        .single()
+
+      if (fetchError) {
+        throw new HttpError(500, fetchError.message)
+      }
+
+      await audit({ action: 'create', entityType: 'dividend_run', entityId: run.id, after: run })
+
+      return json({ dividend_run: run }, 201)
+    }
+  },
+
+  // PUT approve, post or cancel a run, or change and recalculate a draft
+  {
+    method: 'PUT',
+    path: ':id',
+    permissions: ['dividends:manage', 'dividends:approve'],
+    handler: async ({ req, params, supabase, user, caller, audit }) => {
+      requireEveryUnit(caller, EVERY_UNIT_MESSAGE)
+      const runId = params.id
+      const body = await readJson<UpdateDividendRunData>(req, validateText)
+      const { status } = body
+
+      const { data: run, error: runError } = await supabase
+        .from('dividend_runs')
+        .select('*')
+        .eq('id', runId)
+        .maybeSingle()
+
+      if (runError || !run) {
+        throw new HttpError(404, 'Dividend run not found')
+      }
+
+      // Approving and posting a run, or cancelling an approved one, needs approval rights; drafts are managed
+      const requiredPermission = status === 'approved' || status === 'posted' || (status === 'cancelled' && run.status === 'approved')
+        ? 'dividends:approve'
+        : 'dividends:manage'
+      requirePermission(caller, requiredPermission)
+
+      if (status !== undefined) {
+        const allowed = STATUS_TRANSITIONS[run.status as DividendRunStatus] || []
+        if (!allowed.includes(status)) {
+          throw new HttpError(400, `Cannot change dividend run status from ${run.status} to ${status}`)
+        }
+
+        // Whoever drew up the run can neither approve nor post it
+        if ((status === 'approved' || status === 'posted') && run.created_by === user.id) {
+          throw new HttpError(403, 'A dividend run must be approved and posted by someone other than who created it')
+        }
+
+        if (status === 'posted') {
+          const { error: postError } = await supabase.rpc('post_dividend_run', {
+            p_run_id: run.id,
+            p_posted_by: user.id
+          })
+
+          if (postError) {
+            throw new HttpError(400, postError.message)
+          }
+        } else {
+          const statusData: Record<string, unknown> = { status }
+          if (status === 'approved') {
+            if (run.account_count === 0) {
+              throw new HttpError(400, 'A run without allocations cannot be approved')
+            }
+            statusData.approved_by = user.id
+            statusData.approved_at = new Date().toISOString()
+          } else {
+            statusData.cancelled_by = user.id
+            statusData.cancelled_at = new Date().toISOString()
+          }
+
+          const { error: updateError } = await supabase
+            .from('dividend_runs')
+            .update(statusData)
+            .eq('id', run.id)
+            .eq('status', run.status)
+
+          if (updateError) {
+            throw new HttpError(400, updateError.message)
+          }
+        }
+      } else {
+        if (run.status !== 'draft') {
+          throw new HttpError(400, 'Only draft runs can be changed or recalculated')
+        }
+
+        const terms = {
+          name: body.name !== undefined ? body.name.trim() : run.name,
+          period_start: body.period_start ?? run.period_start,
+          period_end: body.period_end ?? run.period_end,
+          profit_pool: body.profit_pool !== undefined ? Number(body.profit_pool) : Number(run.profit_pool)
+        }
+
+        const validationError = validateTerms(terms)
+        if (validationError) {
+          throw new HttpError(400, validationError)
+        }
+
+        const overlappingRun = await findOverlappingRun(supabase, terms.period_start, terms.period_end, run.id)
+        if (overlappingRun) {
+          throw new HttpError(400, `The period overlaps dividend run ${overlappingRun.run_number}`)
+        }
+
+        const { error: updateError } = await supabase
+          .from('dividend_runs')
+          .update({
+            ...terms,
+            notes: body.notes !== undefined ? body.notes?.trim() || null : run.notes
+          })
+          .eq('id', run.id)
+          .eq('status', 'draft')
+
+        if (updateError) {
+          throw new HttpError(400, updateError.message)
+        }
+
+        const { error: calculateError } = await supabase.rpc('calculate_dividend_run', { p_run_id: run.id })
+
+        if (calculateError) {
+          // Keep the terms in line with the allocations that are still stored
+          await supabase
+            .from('dividend_runs')
+            .update({
+              name: run.name,
+              period_start: run.period_start,
+              period_end: run.period_end,
+              profit_pool: run.profit_pool,
+              notes: run.notes
+            })
+            .eq('id', run.id)
+
+          throw new HttpError(400, calculateError.message)
+        }
+      }
+
+      const { data: updatedRun, error: fetchError } = await supabase
+        .from('dividend_runs')
+        .select('*')
+        .eq('id', run.id)
+        .single()
+
+      if (fetchError) {
+        throw new HttpError(500, fetchError.message)
+      }
+
+      await audit({ action: 'update', entityType: 'dividend_run', entityId: run.id, before: run, after: updatedRun })
+
+      return json({ dividend_run: updatedRun })
+    }
+  },
+
+  // DELETE a draft run
+  {
+    method: 'DELETE',
+    path: ':id',
+    permissions: ['dividends:manage'],
+    handler: async ({ params, supabase, caller, audit }) => {
+      requireEveryUnit(caller, EVERY_UNIT_MESSAGE)
+      const runId = params.id
+
+      const { data: run, error: runError } = await supabase
+        .from('dividend_runs')
+        .select('*')
+        .eq('id', runId)
+        .maybeSingle()
+
+      if (runError || !run) {
+        throw new HttpError(404, 'Dividend run not found')
+      }
+
+      if (run.status !== 'draft') {
+        throw new HttpError(400, 'Only draft runs can be deleted. Cancel the run instead.')
+      }
+
+      const { error: deleteError } = await supabase
+        .from('dividend_runs')
+        .delete()
+        .eq('id', run.id)
+        .eq('status', 'draft')
+
+      if (deleteError) {
+        throw new HttpError(400, deleteError.message)
+      }
+
+      await audit({ action: 'delete', entityType: 'dividend_run', entityId: run.id, before: run })
+
+      return json({ message: 'Dividend run deleted successfully' })
+    }
+  }
+])
@@ -0,0 +1,139 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { serve } from '../_shared/pipeline.ts'
+import { HttpError, json, readJson } from '../_shared/http.ts'
+import { getCallerPermissions, hasPermission, sessionId, type CallerPermissions } from '../_shared/auth.ts'
+import { activeImpersonation, type Impersonation } from '../_shared/impersonation.ts'
+import { fetchUserResponse, requireUserInScope } from '../_shared/users.ts'
+
+interface StartImpersonationData {
+  user_id: string
+  reason?: string
+}
+
+// The viewed user's profile as the browser loads its own: access settings, roles and permissions
+async function fetchTargetProfile(supabase: SupabaseClient, userId: string) {
+  const { data: target, error } = await supabase
+    .from('users')
+    .select('id, email, full_name, is_active, needs_password_reset, password_changed_at, menu_access, sub_menu_access, component_access, organisation_unit_id, created_at, updated_at')
+    .eq('id', userId)
+    .maybeSingle()
+
+  if (error) throw new HttpError(500, error.message)
+  if (!target) throw new HttpError(404, 'User not found')
+  return await fetchUserResponse(supabase, target)
+}
+
+// Viewing the app as another user reads with their permissions, so only users who can do no more
+// than the caller can be viewed as: no admins, no permission the caller lacks and no unit the
+// caller does not see
+async function requireNoWiderAccess(supabase: SupabaseClient, caller: CallerPermissions, userId: string): Promise<void> {
+  const target = await getCallerPermissions(supabase, userId)
+
+  if (target.isAdmin) {
+    throw new HttpError(403, 'You cannot view the app as an administrator')
+  }
+
+  const wider = [...target.granted].some(permission => !hasPermission(caller, permission)) ||
+    (caller.unitIds !== null && (target.unitIds === null || target.unitIds.some(id => !caller.unitIds!.includes(id))))
+  if (wider) {
+    throw new HttpError(403, 'You cannot view the app as a user with access you do not have')
+  }
+}
+
+const impersonationResponse = async (supabase: SupabaseClient, impersonation: Impersonation) => ({
+  id: impersonation.id,
+  reason: impersonation.reason,
+  started_at: impersonation.started_at,
+  user: await fetchTargetProfile(supabase, impersonation.target_user_id)
+})
+
+serve('impersonation', [
+  // GET the user this session is viewing the app as, if any, so a reloaded page keeps the view
+  {
+    method: 'GET',
+    path: 'current',
+    handler: async ({ req, supabase }) => {
+      const impersonation = await activeImpersonation(supabase, req)
+      return json({ impersonation: impersonation ? await impersonationResponse(supabase, impersonation) : null })
+    }
+  },
+
+  // POST start viewing the app as another user, read-only, in this session
+  {
+    method: 'POST',
+    path: '',
+    permissions: ['users:impersonate'],
+    handler: async ({ req, supabase, user, caller, audit }) => {
+      const { user_id, reason } = await readJson<StartImpersonationData>(req, ({ user_id }) =>
+        typeof user_id !== 'string' || !user_id ? 'user_id is required' : null
+      )
+
+      if (user_id === user.id) {
+        throw new HttpError(400, 'You cannot view the app as yourself')
+      }
+
+      const currentSessionId = sessionId(req)
+      if (!currentSessionId) {
+        throw new HttpError(400, 'The current session could not be identified')
+      }
+
+      await requireUserInScope(supabase, caller, user_id)
+      await requireNoWiderAccess(supabase, caller, user_id)
+
+      const target = await fetchTargetProfile(supabase, user_id)
+
+      const { data: impersonation, error } = await supabase
+        .from('impersonation_sessions')
+        .insert({
+          admin_id: user.id,
+          target_user_id: user_id,
+          session_id: currentSessionId,
+          reason: reason?.trim() || null
+        })
+        .select('id, admin_id, target_user_id, session_id, reason, started_at')
+        .single()
+
+      if (error) throw new HttpError(400, error.message)
+
+      await audit({
+        action: 'impersonate_start',
+        entityType: 'user',
+        entityId: user_id,
+        after: { email: target.email, full_name: target.full_name, reason: impersonation.reason }
+      })
+
+      return json({ impersonation: { id: impersonation.id, reason: impersonation.reason, started_at: impersonation.started_at, user: target } }, 201)
+    }
+  },
+
+  // DELETE stop viewing the app as another user
+  {
+    method: 'DELETE',
+    path: 'current',
+    allowWhileImpersonating: true,
+    handler: async ({ req, supabase, audit }) => {
+      const impersonation = await activeImpersonation(supabase, req)
+      if (!impersonation) {
+        throw new HttpError(404, 'This session is not viewing the app as another user')
+      }
+
+      const endedAt = new Date().toISOString()
+      const { error } = await supabase
+        .from('impersonation_sessions')
+        .update({ ended_at: endedAt })
+        .eq('id', impersonation.id)
+
+      if (error) throw new HttpError(500, error.message)
+
+      await audit({
+        action: 'impersonate_stop',
+        entityType: 'user',
+        entityId: impersonation.target_user_id,
+        before: { started_at: impersonation.started_at, ended_at: null },
+        after: { started_at: impersonation.started_at, ended_at: endedAt }
+      })
+
+      return json({ message: 'Stopped viewing as the user' })
+    }
+  }
+])
@@ -0,0 +1,512 @@
+import { serve } from '../_shared/pipeline.ts'
+import { HttpError, json, readJson } from '../_shared/http.ts'
+import { canSeeUnit, unitFilter } from '../_shared/units.ts'
+
+type LoanStatus = 'pending' | 'approved' | 'rejected' | 'withdrawn' | 'active' | 'closed'
+
+// Status changes made through PUT; 'active' disburses the loan, 'closed' is reached by repayment
+// and 'withdrawn' by the applicant withdrawing it
+const STATUS_TRANSITIONS: Record<LoanStatus, LoanStatus[]> = {
+  pending: ['approved', 'rejected'],
+  approved: ['active', 'rejected'],
+  rejected: [],
+  withdrawn: [],
+  active: [],
+  closed: [],
+}
+
+// Loans that still tie up the customer account
+const OPEN_STATUSES: LoanStatus[] = ['pending', 'approved', 'active']
+
+const LOAN_SELECT = `
+  *,
+  member:members!inner(
+    id,
+    member_number,
+    first_name,
+    last_name,
+    organisation_unit_id
+  ),
+  customer_account:customer_accounts(
+    id,
+    account_number,
+    balance
+  ),
+  loan_product:loan_products(
+    id,
+    name,
+    product_type
+  ),
+  instalments:loan_instalments(
+    id,
+    instalment_number,
+    due_date,
+    principal_due,
+    profit_due,
+    amount_due,
+    principal_paid,
+    profit_paid,
+    paid_at
+  )
+`
+
+interface LoanApplicationData {
+  member_id: string
+  customer_account_id: string
+  loan_product_id: string
+  principal: number
+  term_months: number
+  purpose?: string
+}
+
+interface UpdateLoanData {
+  status?: LoanStatus
+  rejection_reason?: string
+}
+
+interface LoanRepaymentData {
+  amount: number
+  reference?: string
+}
+
+interface Instalment {
+  instalment_number: number
+  due_date: string
+  amount_due: number
+  principal_paid: number
+  profit_paid: number
+}
+
+const isValidAmount = (amount: number) =>
+  Number.isFinite(amount) && amount > 0 && Math.abs(Math.round(amount * 100) - amount * 100) <= 1e-6
+
+// Arrears and next instalment, derived from the schedule as of today
+function withRepaymentStatus<T extends { instalments?: Instalment[] | null }>(loan: T) {
+  const today = new Date().toISOString().slice(0, 10)
+  const instalments = [...(loan.instalments || [])].sort((a, b) => a.instalment_number - b.instalment_number)
+  const unpaid = instalments.filter(i => Number(i.principal_paid) + Number(i.profit_paid) < Number(i.amount_due))
+  const overdue = unpaid.filter(i => i.due_date < today)
+  const remaining = (i: Instalment) => Number(i.amount_due) - Number(i.principal_paid) - Number(i.profit_paid)
+
+  const arrearsAmount = Math.round(overdue.reduce((sum, i) => sum + remaining(i), 0) * 100) / 100
+  const daysInArrears = overdue.length > 0
+    ? Math.floor((Date.parse(today) - Date.parse(overdue[0].due_date)) / (24 * 60 * 60 * 1000))
+    : 0
+
+  return {
+    ...loan,
+    instalments,
+    arrears_amount: arrearsAmount,
+    days_in_arrears: daysInArrears,
+    overdue_instalments: overdue.length,
+    next_due_date: unpaid[0]?.due_date || null,
+    next_amount_due: unpaid[0] ? Math.round(remaining(unpaid[0]) * 100) / 100 : null
+  }
+}
+
+serve('loans', [
+  // GET loan book of members in the caller's units, optionally filtered by status, member, account
+  // or the members of one unit and the units below it
+  {
+    method: 'GET',
+    path: '',
+    permissions: ['loans:view', 'loans:apply', 'loans:approve', 'loans:repay'],
+    handler: async ({ url, supabase, caller }) => {
+      let loansQuery = supabase
+        .from('loans')
+        .select(LOAN_SELECT)
+        .order('applied_at', { ascending: false })
+
+      const status = url.searchParams.get('status')
+      if (status) {
+        loansQuery = loansQuery.eq('status', status)
+      }
+
+      const memberId = url.searchParams.get('member_id')
+      if (memberId) {
+        loansQuery = loansQuery.eq('member_id', memberId)
+      }
+
+      const customerAccountId = url.searchParams.get('customer_account_id')
+      if (customerAccountId) {
+        loansQuery = loansQuery.eq('customer_account_id', customerAccountId)
+      }
+
+      const unitIds = await unitFilter(supabase, caller, url.searchParams.get('organisation_unit_id'))
+      if (unitIds) {
+        loansQuery = loansQuery.in('member.organisation_unit_id', unitIds)
+      }
+
+      const { data: loansData, error: loansError } = await loansQuery
+
+      if (loansError) {
+        throw new HttpError(500, loansError.message)
+      }
+
+      return json({ loans: (loansData || []).map(withRepaymentStatus) })
+    }
+  },
+
+  // GET single loan with its schedule and ledger postings
+  {
+    method: 'GET',
+    path: ':id',
+    permissions: ['loans:view', 'loans:apply', 'loans:approve', 'loans:repay'],
+    handler: async ({ params, supabase, caller }) => {
+      const loanId = params.id
+
+      const { data: loan, error: loanError } = await supabase
+        .from('loans')
+        .select(LOAN_SELECT)
+        .eq('id', loanId)
+        .maybeSingle()
+
+      if (loanError) {
+        throw new HttpError(500, loanError.message)
+      }
+
+      if (!loan || !canSeeUnit(caller, loan.member?.organisation_unit_id)) {
+        throw new HttpError(404, 'Loan not found')
+      }
+
+      const { data: postings, error: postingsError } = await supabase
+        .from('journal_lines')
+        .select('id, debit, credit, balance_after, journal_entry:journal_entries(id, entry_number, entry_type, reference, posted_at)')
+        .eq('loan_id', loan.id)
+        .order('created_at', { ascending: true })
+
+      if (postingsError) {
+        throw new HttpError(500, postingsError.message)
+      }
+
+      return json({ loan: withRepaymentStatus(loan), postings: postings || [] })
+    }
+  },
+
+  // POST repayment against an active loan
+  {
+    method: 'POST',
+    path: ':id/repayments',
+    permissions: ['loans:repay'],
+    handler: async ({ req, params, supabase, user, caller }) => {
+      const loanId = params.id
+      const body = await readJson<LoanRepaymentData>(req)
+      const amount = Number(body.amount)
+
+      if (!isValidAmount(amount)) {
+        throw new HttpError(400, 'Amount must be a positive value with at most two decimal places')
+      }
+
+      const { data: scopedLoan } = await supabase
+        .from('loans')
+        .select('id, member:members(organisation_unit_id)')
+        .eq('id', loanId)
+        .maybeSingle()
+
+      if (!scopedLoan || !canSeeUnit(caller, scopedLoan.member?.organisation_unit_id)) {
+        throw new HttpError(404, 'Loan not found')
+      }
+
+      const { data: entryId, error: repaymentError } = await supabase.rpc('post_loan_repayment', {
+        p_loan_id: loanId,
+        p_amount: amount,
+        p_reference: body.reference?.trim() || null,
+        p_posted_by: user.id
+      })
+
+      if (repaymentError) {
+        throw new HttpError(400, repaymentError.message)
+      }
+
+      const { data: loan, error: loanError } = await supabase
+        .from('loans')
+        .select(LOAN_SELECT)
+        .eq('id', loanId)
+        .single()
+
+      if (loanError) {
+        throw new HttpError(500, loanError.message)
+      }
+
+      return json({ loan: withRepaymentStatus(loan), journal_entry_id: entryId }, 201)
+    }
+  },
+
+  // POST loan application
+  {
+    method: 'POST',
+    path: '',
+    permissions: ['loans:apply'],
+    handler: async ({ req, supabase, user, caller, audit }) => {
+      const body = await readJson<LoanApplicationData>(req)
+      const { member_id, customer_account_id, loan_product_id, purpose } = body
+      const principal = Number(body.principal)
+      const termMonths = Number(body.term_months)
+
+      if (!member_id || !customer_account_id || !loan_product_id) {
+        throw new HttpError(400, 'Member, account and loan product are required')
+      }
+
+      if (!isValidAmount(principal)) {
+        throw new HttpError(400, 'Loan amount must be a positive value with at most two decimal places')
+      }
+
+      if (!Number.isInteger(termMonths) || termMonths < 1) {
+        throw new HttpError(400, 'Term must be a whole number of months')
+      }
+
+      // Verify the product and that the request fits its limits
+      const { data: product, error: productError } = await supabase
+        .from('loan_products')
+        .select('*')
+        .eq('id', loan_product_id)
+        .maybeSingle()
+
+      if (productError || !product) {
+        throw new HttpError(400, 'Invalid loan product selected')
+      }
+
+      if (!product.is_active) {
+        throw new HttpError(400, 'This loan product is no longer available')
+      }
+
+      if (principal < Number(product.min_amount) || principal > Number(product.max_amount)) {
+        throw new HttpError(400, `Loan amount must be between ${product.min_amount} and ${product.max_amount} for ${product.name}`)
+      }
+
+      if (termMonths < product.min_term_months || termMonths > product.max_term_months) {
+        throw new HttpError(400, `Term must be between ${product.min_term_months} and ${product.max_term_months} months for ${product.name}`)
+      }
+
+      // Verify the member and that the account is theirs and loan-eligible
+      const { data: member, error: memberError } = await supabase
+        .from('members')
+        .select('id, membership_status, organisation_unit_id')
+        .eq('id', member_id)
+        .maybeSingle()
+
+      if (memberError || !member || !canSeeUnit(caller, member.organisation_unit_id)) {
+        throw new HttpError(400, 'Invalid member selected')
+      }
+
+      if (member.membership_status !== 'active') {
+        throw new HttpError(400, `Only active members can apply for loans; this member is ${member.membership_status}`)
+      }
+
+      const { data: account, error: accountError } = await supabase
+        .from('customer_accounts')
+        .select('id, member_id, account_number, status, account_type:account_types(name, can_take_loan)')
+        .eq('id', customer_account_id)
+        .maybeSingle()
+
+      if (accountError || !account || account.member_id !== member_id) {
+        throw new HttpError(400, 'Account not found for this member')
+      }
+
+      if (!account.account_type?.can_take_loan) {
+        throw new HttpError(400, `${account.account_type?.name || 'This'} accounts are not eligible for loans`)
+      }
+
+      if (account.status !== 'active') {
+        throw new HttpError(400, `Account ${account.account_number} is ${account.status}; loans can only be taken against active accounts`)
+      }
+
+      const { data: openLoans, error: openLoansError } = await supabase
+        .from('loans')
+        .select('id, loan_number')
+        .eq('customer_account_id', customer_account_id)
+        .in('status', OPEN_STATUSES)
+        .limit(1)
+
+      if (openLoansError) {
+        throw new HttpError(500, openLoansError.message)
+      }
+
+      if (openLoans && openLoans.length > 0) {
+        throw new HttpError(400, `Account ${account.account_number} already has an open loan (${openLoans[0].loan_number})`)
+      }
+
+      // Murabaha markup is fixed at application: a flat rate per year of term on the cost price
+      const profitRate = Number(product.profit_rate)
+      const profitAmount = product.product_type === 'murabaha'
+        ? Math.round(principal * profitRate / 100 * termMonths / 12 * 100) / 100
+        : 0
+
+      const application = {
+        member_id,
+        customer_account_id,
+        loan_product_id,
+        product_type: product.product_type,
+        profit_rate: profitRate,
+        principal,
+        profit_amount: profitAmount,
+        total_payable: Math.round((principal + profitAmount) * 100) / 100,
+        term_months: termMonths,
+        purpose: purpose?.trim() || null,
+        applied_by: user.id
+      }
+
+      const { data: newLoan, error: insertError } = await supabase
+        .from('loans')
+        .insert(application)
+        .select(LOAN_SELECT)
+        .single()
+
+      if (insertError) {
+        throw new HttpError(400, insertError.message)
+      }
+
+      await audit({
+        action: 'create',
+        entityType: 'loan',
+        entityId: newLoan.id,
+        after: { loan_number: newLoan.loan_number, status: newLoan.status, ...application }
+      })
+
+      return json({ loan: withRepaymentStatus(newLoan) }, 201)
+    }
+  },
+
+  // PUT approve, reject or disburse a loan
+  {
+    method: 'PUT',
+    path: ':id',
+    permissions: ['loans:approve'],
+    handler: async ({ req, params, supabase, user, caller, audit }) => {
+      const loanId = params.id
+      const body = await readJson<UpdateLoanData>(req)
+      const { status, rejection_reason } = body
+
+      const { data: loan, error: loanError } = await supabase
+        .from('loans')
+        .select('id, status, applied_by, rejection_reason, reviewed_by, reviewed_at, disbursed_at, member:members(organisation_unit_id)')
+        .eq('id', loanId)
+        .maybeSingle()
+
+      if (loanError || !loan || !canSeeUnit(caller, loan.member?.organisation_unit_id)) {
+        throw new HttpError(404, 'Loan not found')
+      }
+
+      // Whoever took the application can neither review nor disburse it
+      if (loan.applied_by === user.id) {
+        throw new HttpError(403, 'A loan must be reviewed and disbursed by someone other than who applied for it')
+      }
+
+      const allowed = STATUS_TRANSITIONS[loan.status as LoanStatus] || []
+      if (!status || !allowed.includes(status)) {
+        throw new HttpError(400, `Cannot change loan status from ${loan.status} to ${status}`)
+      }
+
+      if (status === 'active') {
+        const { error: disburseError } = await supabase.rpc('disburse_loan', {
+          p_loan_id: loan.id,
+          p_posted_by: user.id
+        })
+
+        if (disburseError) {
+          throw new HttpError(400, disburseError.message)
+        }
+      } else {
+        if (status === 'rejected' && !rejection_reason?.trim()) {
+          throw new HttpError(400, 'A reason is required when rejecting a loan')
+        }
+
+        const { error: updateError } = await supabase
+          .from('loans')
+          .update({
+            status,
+            rejection_reason: status === 'rejected' ? rejection_reason!.trim() : null,
+            reviewed_by: user.id,
+            reviewed_at: new Date().toISOString()
+          })
+          .eq('id', loan.id)
+          .eq('status', loan.status)
+
+        if (updateError) {
+          throw new HttpError(400, updateError.message)
+        }
+      }
+
+      const { data: updatedLoan, error: fetchError } = await supabase
+        .from('loans')
+        .select(LOAN_SELECT)
+        .eq('id', loan.id)
+        .single()
+
+      if (fetchError) {
+        throw new HttpError(500, fetchError.message)
+      }
+
+      // Only the review fields are recorded; the diff skips the loan's other columns and relations
+      await audit({
+        action: 'update',
+        entityType: 'loan',
+        entityId: loan.id,
+        before: {
+          status: loan.status,
+          rejection_reason: loan.rejection_reason,
+          reviewed_by: loan.reviewed_by,
+          reviewed_at: loan.reviewed_at,
+          disbursed_at: loan.disbursed_at
+        },
+        after: updatedLoan
+      })
+
+      return json({ loan: withRepaymentStatus(updatedLoan) })
+    }
+  },
+
+  // POST withdraw a pending application; only whoever applied for it can, and it is kept as withdrawn
+  {
+    method: 'POST',
+    path: ':id/withdraw',
+    permissions: ['loans:apply'],
+    handler: async ({ params, supabase, user, caller, audit }) => {
+      const loanId = params.id
+
+      const { data: loan, error: loanError } = await supabase
+        .from('loans')
+        .select('id, status, applied_by, withdrawn_at, member:members(organisation_unit_id)')
+        .eq('id', loanId)
+        .maybeSingle()
+
+      if (loanError || !loan || !canSeeUnit(caller, loan.member?.organisation_unit_id)) {
+        throw new HttpError(404, 'Loan not found')
+      }
+
+      if (loan.applied_by !== user.id) {
+        throw new HttpError(403, 'Only whoever applied for a loan can withdraw the application')
+      }
+
+      if (loan.status !== 'pending') {
+        throw new HttpError(400, 'Only pending applications can be withdrawn')
+      }
+
+      const { data: withdrawnLoan, error: updateError } = await supabase
+        .from('loans')
+        .update({ status: 'withdrawn', withdrawn_at: new Date().toISOString() })
+        .eq('id', loan.id)
+        .eq('status', 'pending')
+        .select('status, withdrawn_at')
+        .maybeSingle()
+
+      if (updateError) {
+        throw new HttpError(400, updateError.message)
+      }
+
+      if (!withdrawnLoan) {
+        throw new HttpError(409, 'The application was reviewed in the meantime')
+      }
+
+      await audit({
+        action: 'update',
+        entityType: 'loan',
+        entityId: loan.id,
+        before: { status: loan.status, withdrawn_at: loan.withdrawn_at },
+        after: withdrawnLoan
+      })
+
+      return json({ message: 'Loan application withdrawn' })
+    }
+  }
+])
@@ -0,0 +1,232 @@
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { serve } from '../_shared/pipeline.ts'
+import { HttpError, json, readJson } from '../_shared/http.ts'
+import { clientIp, recordAudit } from '../_shared/audit.ts'
+import { getLoginSecuritySettings, normaliseEmail, LOGIN_SECURITY_FIELDS, type LoginSecuritySettings } from '../_shared/throttle.ts'
+
+interface SignInData {
+  email: string
+  password: string
+}
+
+type LockoutKey = { column: 'email' | 'ip_address'; value: string }
+
+// The lockout of an account or address that is still in force, if any
+async function findActiveLockout(supabase: SupabaseClient, key: LockoutKey) {
+  const { data, error } = await supabase
+    .from('login_lockouts')
+    .select('locked_until')
+    .eq(key.column, key.value)
+    .is('unlocked_at', null)
+    .gt('locked_until', new Date().toISOString())
+    .order('locked_until', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) throw new HttpError(500, error.message)
+  return data
+}
+
+// Failed sign-ins of an account or address since the count was last reset: by the failure window,
+// a successful sign-in to the account or the end of its last lockout
+async function countFailures(supabase: SupabaseClient, key: LockoutKey, settings: LoginSecuritySettings) {
+  const resetPoints = [Date.now() - settings.failure_window_minutes * 60 * 1000]
+
+  const { data: lastLockout } = await supabase
+    .from('login_lockouts')
+    .select('locked_until, unlocked_at')
+    .eq(key.column, key.value)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+  if (lastLockout) resetPoints.push(new Date(lastLockout.unlocked_at || lastLockout.locked_until).getTime())
+
+  if (key.column === 'email') {
+    const { data: lastSuccess } = await supabase
+      .from('auth_attempts')
+      .select('created_at')
+      .eq('kind', 'login')
+      .eq('email', key.value)
+      .eq('succeeded', true)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+    if (lastSuccess) resetPoints.push(new Date(lastSuccess.created_at).getTime())
+  }
+
+  const { data, count, error } = await supabase
+    .from('auth_attempts')
+    .select('created_at', { count: 'exact' })
+    .eq('kind', 'login')
+    .eq(key.column, key.value)
+    .eq('succeeded', false)
+    .gt('created_at', new Date(Math.max(...resetPoints)).toISOString())
+    .order('created_at', { ascending: false })
+    .limit(1)
+
+  if (error) throw new HttpError(500, error.message)
+  return { count: count || 0, lastFailureAt: data?.[0] ? new Date(data[0].created_at) : null }
+}
+
+// Seconds an account has to wait after its last failure: none up to delay_after_failures, then
+// doubling from one second up to max_delay_seconds
+function retryDelay(failures: number, settings: LoginSecuritySettings): number {
+  if (failures < settings.delay_after_failures) return 0
+  return Math.min(2 ** (failures - settings.delay_after_failures), settings.max_delay_seconds)
+}
+
+function lockedResponse(lockedUntil: string) {
+  return json({
+    error: 'Too many failed sign-in attempts. Sign-in is locked until the lockout ends or an administrator unlocks the account.',
+    locked_until: lockedUntil
+  }, 429)
+}
+
+serve('login', [
+  // POST sign in with email and password; answered with the session unless the account or
+  // address is locked out or has to wait before trying again
+  {
+    method: 'POST',
+    path: '',
+    public: true,
+    handler: async ({ req, supabase }) => {
+      const body = await readJson<SignInData>(req, ({ email, password }) =>
+        typeof email !== 'string' || !email.trim() || typeof password !== 'string' || !password
+          ? 'Email and password are required'
+          : null
+      )
+
+      const settings = await getLoginSecuritySettings(supabase)
+      const email = normaliseEmail(body.email)
+      const ip = clientIp(req)
+      const keys: LockoutKey[] = [{ column: 'email', value: email }]
+      if (ip) keys.push({ column: 'ip_address', value: ip })
+
+      for (const key of keys) {
+        const lockout = await findActiveLockout(supabase, key)
+        if (lockout) return lockedResponse(lockout.locked_until)
+      }
+
+      const failures = await countFailures(supabase, keys[0], settings)
+      const delay = retryDelay(failures.count, settings)
+      if (delay && failures.lastFailureAt) {
+        const retryAfter = Math.ceil((failures.lastFailureAt.getTime() + delay * 1000 - Date.now()) / 1000)
+        if (retryAfter > 0) {
+          return json({ error: `Too many failed sign-in attempts. Try again in ${retryAfter} seconds.`, retry_after: retryAfter }, 429)
+        }
+      }
+
+      // Signed in with the anon key, as the browser would, so the session is an ordinary user session
+      const authClient = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+        auth: { persistSession: false, autoRefreshToken: false }
+      })
+      const { data, error } = await authClient.auth.signInWithPassword({ email, password: body.password })
+
+      // The account side of the attempt is recorded by the password verification hook, which sees
+      // every sign-in; only the address, which the hook cannot see, is recorded here
+      if (ip) {
+        await supabase.from('auth_attempts').insert({
+          kind: 'login',
+          user_id: data.user?.id ?? null,
+          ip_address: ip,
+          succeeded: !error
+        })
+      }
+
+      if (error || !data.session) {
+        // Recorded against the account the address belongs to, if any; nobody is signed in to act
+        const { data: account } = await supabase.from('users').select('id').eq('email', email).maybeSingle()
+        await recordAudit(supabase, req, null, { action: 'login_failed', entityType: 'user', entityId: account?.id ?? null, after: { email } })
+
+        // The hook locks the account itself once it reaches its limit
+        let lockedUntil = (await findActiveLockout(supabase, keys[0]))?.locked_until ?? null
+        if (ip) {
+          const { count } = await countFailures(supabase, keys[1], settings)
+          if (count >= settings.max_failed_attempts_per_ip) {
+            lockedUntil = new Date(Date.now() + settings.lockout_minutes * 60 * 1000).toISOString()
+            await supabase.from('login_lockouts').insert({ ip_address: ip, failed_attempts: count, locked_until: lockedUntil })
+          }
+        }
+
+        if (lockedUntil) return lockedResponse(lockedUntil)
+        throw new HttpError(400, error?.message || 'Invalid login credentials')
+      }
+
+      await recordAudit(supabase, req, data.user.id, { action: 'login', entityType: 'user', entityId: data.user.id })
+
+      // A password past the policy's maximum age has to be changed before continuing
+      const { error: expiryError } = await supabase.rpc('flag_expired_passwords', { p_user_id: data.user.id })
+      if (expiryError) {
+        console.error('Error checking password expiry:', expiryError)
+      }
+
+      return json({
+        access_token: data.session.access_token,
+        refresh_token: data.session.refresh_token
+      })
+    }
+  },
+
+  // GET how long the caller's browser may stay signed in while idle, and in all; read before
+  // multi-factor authentication is completed so the verification page times out too
+  {
+    method: 'GET',
+    path: 'session-limits',
+    allowWithoutMfa: true,
+    handler: async ({ supabase }) => {
+      const { idle_timeout_minutes, idle_warning_seconds, max_session_hours } = await getLoginSecuritySettings(supabase)
+      return json({ limits: { idle_timeout_minutes, idle_warning_seconds, max_session_hours } })
+    }
+  },
+
+  // GET the sign-in throttling, lockout and session settings
+  {
+    method: 'GET',
+    path: 'settings',
+    permissions: ['users:manage'],
+    handler: async ({ supabase }) => {
+      return json({ settings: await getLoginSecuritySettings(supabase) })
+    }
+  },
+
+  // PUT update the sign-in throttling, lockout and session settings
+  {
+    method: 'PUT',
+    path: 'settings',
+    permissions: ['users:manage'],
+    handler: async ({ req, supabase, user, audit }) => {
+      const body = await readJson<Partial<LoginSecuritySettings>>(req, (body) => {
+        for (const field of LOGIN_SECURITY_FIELDS) {
+          const value = body[field]
+          if (value === undefined) continue
+          const minimum = field === 'delay_after_failures' || field === 'max_delay_seconds' ? 0 : 1
+          if (typeof value !== 'number' || !Number.isInteger(value) || value < minimum) {
+            return `${field} must be a whole number of at least ${minimum}`
+          }
+        }
+        return null
+      })
+
+      const changes: Partial<LoginSecuritySettings> = {}
+      for (const field of LOGIN_SECURITY_FIELDS) {
+        if (body[field] !== undefined) changes[field] = body[field]
+      }
+
+      const previousSettings = await getLoginSecuritySettings(supabase)
+
+      const { error } = await supabase
+        .from('login_security_settings')
+        .update({ ...changes, updated_at: new Date().toISOString(), updated_by: user.id })
+        .eq('id', true)
+
+      if (error) {
+        throw new HttpError(400, error.message)
+      }
+
+      const settings = await getLoginSecuritySettings(supabase)
+      await audit({ action: 'update', entityType: 'login_settings', before: previousSettings, after: settings })
+
+      return json({ settings })
+    }
+  }
+])
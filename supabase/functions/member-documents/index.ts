@@ -0,0 +1,351 @@
+import { serve } from '../_shared/pipeline.ts'
+import { HttpError, json, readJson } from '../_shared/http.ts'
+import { canSeeUnit, unitFilter } from '../_shared/units.ts'
+
+const STORAGE_BUCKET = 'kyc-documents'
+const MAX_FILE_SIZE = 5 * 1024 * 1024
+const ALLOWED_MIME_TYPES = ['application/pdf', 'image/jpeg', 'image/png']
+const SIGNED_URL_TTL_SECONDS = 300
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+const DOCUMENT_SELECT = `
+  *,
+  document_kind:document_kinds(
+    id,
+    code,
+    name,
+    requires_expiry
+  ),
+  member:members!inner(
+    id,
+    member_number,
+    first_name,
+    last_name,
+    organisation_unit_id
+  ),
+  customer_account:customer_accounts(
+    id,
+    account_number
+  )
+`
+
+interface ReviewDocumentData {
+  status: 'verified' | 'rejected'
+  rejection_reason?: string
+}
+
+function formText(form: FormData, key: string): string | null {
+  const value = form.get(key)
+  return typeof value === 'string' && value.trim() ? value.trim() : null
+}
+
+function todayIsoDate(): string {
+  return new Date().toISOString().slice(0, 10)
+}
+
+serve('member-documents', [
+  // GET documents of members in the caller's units, filtered by member, account, review status or
+  // the members of one unit and the units below it
+  {
+    method: 'GET',
+    path: '',
+    permissions: ['documents:view', 'documents:upload', 'documents:verify'],
+    handler: async ({ url, supabase, caller }) => {
+      let documentsQuery = supabase
+        .from('member_documents')
+        .select(DOCUMENT_SELECT)
+        .order('uploaded_at', { ascending: false })
+
+      const memberId = url.searchParams.get('member_id')
+      if (memberId) {
+        documentsQuery = documentsQuery.eq('member_id', memberId)
+      }
+
+      const customerAccountId = url.searchParams.get('customer_account_id')
+      if (customerAccountId) {
+        documentsQuery = documentsQuery.eq('customer_account_id', customerAccountId)
+      }
+
+      const status = url.searchParams.get('status')
+      if (status) {
+        documentsQuery = documentsQuery.eq('status', status)
+      }
+
+      const unitIds = await unitFilter(supabase, caller, url.searchParams.get('organisation_unit_id'))
+      if (unitIds) {
+        documentsQuery = documentsQuery.in('member.organisation_unit_id', unitIds)
+      }
+
+      const { data: documentsData, error: documentsError } = await documentsQuery
+
+      if (documentsError) {
+        throw new HttpError(500, documentsError.message)
+      }
+
+      return json({ documents: documentsData || [] })
+    }
+  },
+
+  // GET single document with a short-lived download link
+  {
+    method: 'GET',
+    path: ':id',
+    permissions: ['documents:view', 'documents:upload', 'documents:verify'],
+    handler: async ({ params, supabase, caller }) => {
+      const documentId = params.id
+
+      const { data: document, error: documentError } = await supabase
+        .from('member_documents')
+        .select(DOCUMENT_SELECT)
+        .eq('id', documentId)
+        .maybeSingle()
+
+      if (documentError) {
+        throw new HttpError(500, documentError.message)
+      }
+
+      // No download link is signed for documents of members outside the caller's units
+      if (!document || !canSeeUnit(caller, document.member?.organisation_unit_id)) {
+        throw new HttpError(404, 'Document not found')
+      }
+
+      const { data: signedUrl, error: signedUrlError } = await supabase.storage
+        .from(STORAGE_BUCKET)
+        .createSignedUrl(document.storage_path, SIGNED_URL_TTL_SECONDS)
+
+      if (signedUrlError) {
+        throw new HttpError(500, signedUrlError.message)
+      }
+
+      return json({ document, signed_url: signedUrl.signedUrl })
+    }
+  },
+
+  // POST upload document (multipart/form-data)
+  {
+    method: 'POST',
+    path: '',
+    permissions: ['documents:upload'],
+    handler: async ({ req, supabase, user, caller, audit }) => {
+      const contentType = req.headers.get('Content-Type') || ''
+      if (!contentType.includes('multipart/form-data')) {
+        throw new HttpError(400, 'Documents must be uploaded as multipart/form-data')
+      }
+
+      const form = await req.formData()
+      const file = form.get('file')
+      const memberId = formText(form, 'member_id')
+      const documentKindId = formText(form, 'document_kind_id')
+      const customerAccountId = formText(form, 'customer_account_id')
+      const documentNumber = formText(form, 'document_number')
+      const issuedOn = formText(form, 'issued_on')
+      const expiresOn = formText(form, 'expires_on')
+
+      if (!(file instanceof File) || !memberId || !documentKindId) {
+        throw new HttpError(400, 'File, member and document kind are required')
+      }
+
+      if (!ALLOWED_MIME_TYPES.includes(file.type)) {
+        throw new HttpError(400, 'Only PDF, JPEG and PNG files can be uploaded')
+      }
+
+      if (file.size === 0 || file.size > MAX_FILE_SIZE) {
+        throw new HttpError(400, 'File must be between 1 byte and 5 MB')
+      }
+
+      if ((issuedOn && !DATE_PATTERN.test(issuedOn)) || (expiresOn && !DATE_PATTERN.test(expiresOn))) {
+        throw new HttpError(400, 'Dates must use the YYYY-MM-DD format')
+      }
+
+      const { data: documentKind, error: kindError } = await supabase
+        .from('document_kinds')
+        .select('id, name, requires_expiry, is_active')
+        .eq('id', documentKindId)
+        .maybeSingle()
+
+      if (kindError || !documentKind || !documentKind.is_active) {
+        throw new HttpError(400, 'Invalid document kind selected')
+      }
+
+      if (documentKind.requires_expiry && !expiresOn) {
+        throw new HttpError(400, `An expiry date is required for ${documentKind.name}`)
+      }
+
+      if (expiresOn && expiresOn <= todayIsoDate()) {
+        throw new HttpError(400, 'This document has already expired')
+      }
+
+      const { data: member, error: memberError } = await supabase
+        .from('members')
+        .select('id, organisation_unit_id')
+        .eq('id', memberId)
+        .maybeSingle()
+
+      if (memberError || !member || !canSeeUnit(caller, member.organisation_unit_id)) {
+        throw new HttpError(400, 'Invalid member selected')
+      }
+
+      if (customerAccountId) {
+        const { data: account, error: accountError } = await supabase
+          .from('customer_accounts')
+          .select('id, member_id')
+          .eq('id', customerAccountId)
+          .maybeSingle()
+
+        if (accountError || !account || account.member_id !== memberId) {
+          throw new HttpError(400, 'The selected account does not belong to this member')
+        }
+      }
+
+      const safeName = file.name.replace(/[^a-zA-Z0-9._-]/g, '_').slice(-100) || 'document'
+      const storagePath = `${memberId}/${crypto.randomUUID()}-${safeName}`
+
+      const { error: uploadError } = await supabase.storage
+        .from(STORAGE_BUCKET)
+        .upload(storagePath, file, { contentType: file.type, upsert: false })
+
+      if (uploadError) {
+        throw new HttpError(500, uploadError.message)
+      }
+
+      const { data: newDocument, error: insertError } = await supabase
+        .from('member_documents')
+        .insert({
+          member_id: memberId,
+          customer_account_id: customerAccountId,
+          document_kind_id: documentKindId,
+          storage_path: storagePath,
+          file_name: file.name,
+          mime_type: file.type,
+          file_size: file.size,
+          document_number: documentNumber,
+          issued_on: issuedOn,
+          expires_on: expiresOn,
+          uploaded_by: user.id
+        })
+        .select(DOCUMENT_SELECT)
+        .single()
+
+      if (insertError) {
+        // Don't leave an orphaned object behind
+        await supabase.storage.from(STORAGE_BUCKET).remove([storagePath])
+        throw new HttpError(400, insertError.message)
+      }
+
+      await audit({ action: 'create', entityType: 'member_document', entityId: newDocument.id, after: newDocument })
+
+      return json({ document: newDocument }, 201)
+    }
+  },
+
+  // PUT review document (verify or reject)
+  {
+    method: 'PUT',
+    path: ':id',
+    permissions: ['documents:verify'],
+    handler: async ({ req, params, supabase, user, caller, audit }) => {
+      const documentId = params.id
+      const body = await readJson<ReviewDocumentData>(req)
+      const { status, rejection_reason } = body
+
+      if (status !== 'verified' && status !== 'rejected') {
+        throw new HttpError(400, 'Status must be verified or rejected')
+      }
+
+      if (status === 'rejected' && !rejection_reason?.trim()) {
+        throw new HttpError(400, 'A reason is required when rejecting a document')
+      }
+
+      const { data: document, error: documentError } = await supabase
+        .from('member_documents')
+        .select('id, status, expires_on, rejection_reason, member:members(organisation_unit_id)')
+        .eq('id', documentId)
+        .maybeSingle()
+
+      if (documentError || !document || !canSeeUnit(caller, document.member?.organisation_unit_id)) {
+        throw new HttpError(404, 'Document not found')
+      }
+
+      if (document.status !== 'pending') {
+        throw new HttpError(400, `Document has already been ${document.status}`)
+      }
+
+      if (status === 'verified' && document.expires_on && document.expires_on <= todayIsoDate()) {
+        throw new HttpError(400, 'An expired document cannot be verified')
+      }
+
+      const { data: reviewedDocument, error: updateError } = await supabase
+        .from('member_documents')
+        .update({
+          status,
+          rejection_reason: status === 'rejected' ? rejection_reason!.trim() : null,
+          reviewed_by: user.id,
+          reviewed_at: new Date().toISOString()
+        })
+        .eq('id', documentId)
+        .select(DOCUMENT_SELECT)
+        .single()
+
+      if (updateError) {
+        throw new HttpError(400, updateError.message)
+      }
+
+      await audit({
+        action: 'update',
+        entityType: 'member_document',
+        entityId: documentId,
+        before: { status: document.status, rejection_reason: document.rejection_reason },
+        after: { status: reviewedDocument.status, rejection_reason: reviewedDocument.rejection_reason }
+      })
+
+      return json({ document: reviewedDocument })
+    }
+  },
+
+  // DELETE document that has not been verified
+  {
+    method: 'DELETE',
+    path: ':id',
+    permissions: ['documents:upload'],
+    handler: async ({ params, supabase, caller, audit }) => {
+      const documentId = params.id
+
+      const { data: document, error: documentError } = await supabase
+        .from('member_documents')
+        .select('id, member_id, customer_account_id, document_kind_id, status, storage_path, file_name, document_number, member:members(organisation_unit_id)')
+        .eq('id', documentId)
+        .maybeSingle()
+
+      if (documentError || !document || !canSeeUnit(caller, document.member?.organisation_unit_id)) {
+        throw new HttpError(404, 'Document not found')
+      }
+
+      if (document.status === 'verified') {
+        throw new HttpError(400, 'Verified documents are kept as KYC evidence and cannot be deleted')
+      }
+
+      const { error: deleteError } = await supabase
+        .from('member_documents')
+        .delete()
+        .eq('id', documentId)
+
+      if (deleteError) {
+        throw new HttpError(400, deleteError.message)
+      }
+
+      const { error: removeError } = await supabase.storage
+        .from(STORAGE_BUCKET)
+        .remove([document.storage_path])
+
+      if (removeError) {
+        console.error('Error removing document file:', removeError)
+      }
+
+      const deletedDocument: Record<string, unknown> = { ...document }
+      delete deletedDocument.member
+      await audit({ action: 'delete', entityType: 'member_document', entityId: documentId, before: deletedDocument })
+
+      return json({ message: 'Document deleted successfully' })
+    }
+  }
+])
@@ -0,0 +1,149 @@
+import { serve } from '../_shared/pipeline.ts'
+import { HttpError, json, readJson } from '../_shared/http.ts'
+import { sessionAssuranceLevel } from '../_shared/auth.ts'
+import { deleteFactors } from '../_shared/mfa.ts'
+
+const RECOVERY_CODE_COUNT = 10
+
+// Unambiguous characters only: no 0/O or 1/I/L
+const RECOVERY_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789'
+
+interface RedeemRecoveryCodeData {
+  code: string
+}
+
+// Codes are compared case-insensitively and without the separator
+const normaliseCode = (code: string) => code.toUpperCase().replace(/[^A-Z0-9]/g, '')
+
+async function hashCode(code: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normaliseCode(code)))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+// A random code such as K7QD2-M9XTA
+function generateCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(10))
+  const characters = Array.from(bytes, byte => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length])
+  return `${characters.slice(0, 5).join('')}-${characters.slice(5).join('')}`
+}
+
+serve('mfa', [
+  // GET how many unused recovery codes the caller has left
+  {
+    method: 'GET',
+    path: 'recovery-codes',
+    handler: async ({ supabase, user }) => {
+      const { data: codesData, error: codesError } = await supabase
+        .from('mfa_recovery_codes')
+        .select('used_at, created_at')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+
+      if (codesError) {
+        throw new HttpError(500, codesError.message)
+      }
+
+      const codes = codesData || []
+      return json({
+        remaining: codes.filter(code => !code.used_at).length,
+        generated_at: codes[0]?.created_at ?? null
+      })
+    }
+  },
+
+  // POST generate a new set of recovery codes, replacing any previous ones. The codes are only
+  // returned this once.
+  {
+    method: 'POST',
+    path: 'recovery-codes',
+    handler: async ({ req, supabase, user, audit }) => {
+      if (sessionAssuranceLevel(req) !== 'aal2') {
+        throw new HttpError(403, 'Verify an authenticator before generating recovery codes')
+      }
+
+      const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateCode)
+      const hashes = await Promise.all(codes.map(hashCode))
+
+      const { error: deleteError } = await supabase
+        .from('mfa_recovery_codes')
+        .delete()
+        .eq('user_id', user.id)
+
+      if (deleteError) {
+        throw new HttpError(500, deleteError.message)
+      }
+
+      const { error: insertError } = await supabase
+        .from('mfa_recovery_codes')
+        .insert(hashes.map(code_hash => ({ user_id: user.id, code_hash })))
+
+      if (insertError) {
+        throw new HttpError(500, insertError.message)
+      }
+
+      await audit({ action: 'update', entityType: 'user', entityId: user.id, after: { mfa_recovery_codes: 'regenerated' } })
+
+      return json({ codes }, 201)
+    }
+  },
+
+  // POST redeem a recovery code in place of the second factor. The caller's authenticators are
+  // removed so they can sign in and enrol a new one.
+  {
+    method: 'POST',
+    path: 'recovery-codes/redeem',
+    allowWithoutMfa: true,
+    handler: async ({ req, supabase, user, audit }) => {
+      const { code } = await readJson<RedeemRecoveryCodeData>(req)
+
+      if (!code || typeof code !== 'string') {
+        throw new HttpError(400, 'Recovery code is required')
+      }
+
+      const { data: matchedCode, error: matchError } = await supabase
+        .from('mfa_recovery_codes')
+        .select('id')
+        .eq('user_id', user.id)
+        .eq('code_hash', await hashCode(code))
+        .is('used_at', null)
+        .maybeSingle()
+
+      if (matchError) {
+        throw new HttpError(500, matchError.message)
+      }
+
+      if (!matchedCode) {
+        throw new HttpError(400, 'Invalid or already used recovery code')
+      }
+
+      // Marking the code used only if it still is unused makes concurrent redemptions of the
+      // same code fail
+      const { data: redeemedData, error: redeemError } = await supabase
+        .from('mfa_recovery_codes')
+        .update({ used_at: new Date().toISOString() })
+        .eq('id', matchedCode.id)
+        .is('used_at', null)
+        .select('id')
+
+      if (redeemError) {
+        throw new HttpError(500, redeemError.message)
+      }
+
+      if (!redeemedData || redeemedData.length === 0) {
+        throw new HttpError(400, 'Invalid or already used recovery code')
+      }
+
+      const removedFactors = await deleteFactors(supabase, user.id)
+
+      await audit({
+        action: 'update',
+        entityType: 'user',
+        entityId: user.id,
+        before: { mfa_factors: removedFactors },
+        after: { mfa_factors: 0 }
+      })
+
+      return json({ message: 'Recovery code accepted. Set up a new authenticator to continue.' })
+    }
+  }
+])
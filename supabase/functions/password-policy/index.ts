@@ -0,0 +1,75 @@
+import { serve } from '../_shared/pipeline.ts'
+import { HttpError, json, readJson } from '../_shared/http.ts'
+import { getPasswordPolicy, PASSWORD_POLICY_FIELDS, type PasswordPolicy } from '../_shared/passwordPolicy.ts'
+
+function validatePolicy(body: Partial<PasswordPolicy>): string | null {
+  const { min_length, special_characters, max_age_days, history_depth, banned_words } = body
+
+  if (min_length !== undefined && (!Number.isInteger(min_length) || min_length < 6 || min_length > 128)) {
+    return 'Minimum length must be a whole number between 6 and 128'
+  }
+  for (const field of ['require_uppercase', 'require_lowercase', 'require_number', 'require_special'] as const) {
+    if (body[field] !== undefined && typeof body[field] !== 'boolean') {
+      return `${field} must be true or false`
+    }
+  }
+  if (special_characters !== undefined && (typeof special_characters !== 'string' || !special_characters)) {
+    return 'Special characters cannot be empty'
+  }
+  if (max_age_days !== undefined && max_age_days !== null && (!Number.isInteger(max_age_days) || max_age_days < 1)) {
+    return 'Maximum age must be a whole number of days, or empty for passwords that do not expire'
+  }
+  if (history_depth !== undefined && (!Number.isInteger(history_depth) || history_depth < 0 || history_depth > 24)) {
+    return 'Password history must be a whole number between 0 and 24'
+  }
+  if (banned_words !== undefined && (!Array.isArray(banned_words) || banned_words.some(word => typeof word !== 'string'))) {
+    return 'Banned words must be a list of words'
+  }
+  return null
+}
+
+serve('password-policy', [
+  // GET the password policy; shown while choosing a password, before there may be a session
+  {
+    method: 'GET',
+    path: '',
+    public: true,
+    handler: async ({ supabase }) => {
+      return json({ policy: await getPasswordPolicy(supabase) })
+    }
+  },
+
+  // PUT update the password policy
+  {
+    method: 'PUT',
+    path: '',
+    permissions: ['settings:manage'],
+    handler: async ({ req, supabase, user, audit }) => {
+      const body = await readJson<Partial<PasswordPolicy>>(req, validatePolicy)
+
+      const changes: Record<string, unknown> = {}
+      for (const field of PASSWORD_POLICY_FIELDS) {
+        if (body[field] !== undefined) changes[field] = body[field]
+      }
+      if (body.banned_words) {
+        changes.banned_words = [...new Set(body.banned_words.map(word => word.trim().toLowerCase()).filter(Boolean))]
+      }
+
+      const previousPolicy = await getPasswordPolicy(supabase)
+
+      const { error } = await supabase
+        .from('password_policy')
+        .update({ ...changes, updated_at: new Date().toISOString(), updated_by: user.id })
+        .eq('id', true)
+
+      if (error) {
+        throw new HttpError(400, error.message)
+      }
+
+      const policy = await getPasswordPolicy(supabase)
+      await audit({ action: 'update', entityType: 'password_policy', before: previousPolicy, after: policy })
+
+      return json({ policy })
+    }
+  }
+])
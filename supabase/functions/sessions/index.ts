@@ -0,0 +1,54 @@
+import { serve } from '../_shared/pipeline.ts'
+import { HttpError, json } from '../_shared/http.ts'
+import { sessionId } from '../_shared/auth.ts'
+
+serve('sessions', [
+  // GET the caller's active sessions, most recently used first, marking the one making the request
+  {
+    method: 'GET',
+    path: '',
+    handler: async ({ req, supabase, user }) => {
+      const { data, error } = await supabase.rpc('list_user_sessions', { p_user_id: user.id })
+
+      if (error) {
+        throw new HttpError(500, error.message)
+      }
+
+      const currentSessionId = sessionId(req)
+      return json({
+        sessions: (data || []).map((session: { id: string }) => ({ ...session, current: session.id === currentSessionId }))
+      })
+    }
+  },
+
+  // DELETE sign the caller out everywhere except the session making the request
+  {
+    method: 'DELETE',
+    path: 'others',
+    handler: async ({ req, supabase, user, audit }) => {
+      const currentSessionId = sessionId(req)
+      if (!currentSessionId) {
+        throw new HttpError(400, 'The current session could not be identified')
+      }
+
+      const { data: revoked, error } = await supabase.rpc('revoke_user_sessions', {
+        p_user_id: user.id,
+        p_keep_session_id: currentSessionId
+      })
+
+      if (error) {
+        throw new HttpError(500, error.message)
+      }
+
+      await audit({
+        action: 'update',
+        entityType: 'user',
+        entityId: user.id,
+        before: { sessions: revoked + 1 },
+        after: { sessions: 1 }
+      })
+
+      return json({ message: 'Signed out of other sessions successfully', revoked })
+    }
+  }
+])
@@ -0,0 +1,286 @@
+import { serve } from '../_shared/pipeline.ts'
+import { HttpError, json, readJson } from '../_shared/http.ts'
+import { canSeeUnit, unitFilter } from '../_shared/units.ts'
+import type { CallerPermissions } from '../_shared/auth.ts'
+
+type JournalEntryType = 'deposit' | 'withdrawal' | 'transfer'
+
+const ENTRY_TYPES: JournalEntryType[] = ['deposit', 'withdrawal', 'transfer']
+
+const PAGE_SIZE = 50
+
+const ENTRY_SELECT = `
+  *,
+  lines:journal_lines(
+    id,
+    customer_account_id,
+    bank_account_id,
+    loan_id,
+    ledger_account_id,
+    debit,
+    credit,
+    balance_after,
+    customer_account:customer_accounts(
+      id,
+      account_number,
+      member:members(
+        id,
+        member_number,
+        first_name,
+        last_name,
+        organisation_unit_id
+      )
+    ),
+    bank_account:bank_accounts(
+      id,
+      name,
+      account_number
+    ),
+    loan:loans(
+      id,
+      loan_number
+    ),
+    ledger_account:ledger_accounts(
+      id,
+      code,
+      name
+    )
+  )
+`
+
+// Lines of an entry that move money of members in the units a list is narrowed to; only used to
+// filter, through the !inner joins
+const UNIT_LINES_SELECT = `
+  unit_lines:journal_lines!inner(
+    customer_account:customer_accounts!inner(
+      member:members!inner(organisation_unit_id)
+    )
+  )
+`
+
+// Lines of an entry that post to the customer account a list is narrowed to; only used to filter
+const ACCOUNT_LINES_SELECT = 'account_lines:journal_lines!inner(customer_account_id)'
+
+// Entries belong to the units of the members whose accounts they move money of; entries that move
+// no member's money are only seen by callers who see every unit
+const canSeeEntry = (caller: CallerPermissions, entry: { lines: { customer_account: { member: { organisation_unit_id: string | null } | null } | null }[] }) =>
+  caller.unitIds === null || entry.lines.some(line => canSeeUnit(caller, line.customer_account?.member?.organisation_unit_id))
+
+interface PostTransactionData {
+  entry_type: JournalEntryType
+  amount: number
+  customer_account_id?: string
+  to_customer_account_id?: string
+  description?: string
+  reference?: string
+}
+
+interface JournalLineInput {
+  customer_account_id?: string
+  bank_account_id?: string
+  debit: number
+  credit: number
+}
+
+interface LedgerAccount {
+  id: string
+  account_number: string
+  account_type: { name: string; bank_account_id: string | null } | null
+  member: { organisation_unit_id: string | null } | null
+}
+
+serve('transactions', [
+  // GET one page of journal entries of members in the caller's units, newest first, optionally
+  // for a single customer account, entry type or the members of one unit and the units below it
+  {
+    method: 'GET',
+    path: '',
+    permissions: ['transactions:view', 'transactions:read', 'transactions:create', 'accounts:view'],
+    handler: async ({ url, supabase, caller }) => {
+      const page = Number(url.searchParams.get('page') || 0)
+      if (!Number.isInteger(page) || page < 0) {
+        throw new HttpError(400, 'Page must be a whole number of at least 0')
+      }
+
+      const unitIds = await unitFilter(supabase, caller, url.searchParams.get('organisation_unit_id'))
+      const customerAccountId = url.searchParams.get('customer_account_id')
+
+      const select = [
+        ENTRY_SELECT,
+        unitIds ? UNIT_LINES_SELECT : null,
+        customerAccountId ? ACCOUNT_LINES_SELECT : null
+      ].filter(Boolean).join(', ')
+
+      const from = page * PAGE_SIZE
+      let entriesQuery = supabase
+        .from('journal_entries')
+        .select(select)
+        .order('posted_at', { ascending: false })
+        .order('id', { ascending: false })
+        .range(from, from + PAGE_SIZE - 1)
+
+      if (unitIds) {
+        entriesQuery = entriesQuery.in('unit_lines.customer_account.member.organisation_unit_id', unitIds)
+      }
+
+      if (customerAccountId) {
+        entriesQuery = entriesQuery.eq('account_lines.customer_account_id', customerAccountId)
+      }
+
+      const entryType = url.searchParams.get('entry_type')
+      if (entryType) {
+        entriesQuery = entriesQuery.eq('entry_type', entryType)
+      }
+
+      const { data: entriesData, error: entriesError } = await entriesQuery
+
+      if (entriesError) {
+        throw new HttpError(500, entriesError.message)
+      }
+
+      // The lines matched for the filters are not part of the answer
+      const transactions = (entriesData || []).map(entry => {
+        const transaction: Record<string, unknown> = { ...entry }
+        delete transaction.unit_lines
+        delete transaction.account_lines
+        return transaction
+      })
+
+      return json({ transactions, next_page: transactions.length === PAGE_SIZE ? page + 1 : null })
+    }
+  },
+
+  // GET single journal entry
+  {
+    method: 'GET',
+    path: ':id',
+    permissions: ['transactions:view', 'transactions:read', 'transactions:create', 'accounts:view'],
+    handler: async ({ params, supabase, caller }) => {
+      const entryId = params.id
+
+      const { data: entry, error: entryError } = await supabase
+        .from('journal_entries')
+        .select(ENTRY_SELECT)
+        .eq('id', entryId)
+        .maybeSingle()
+
+      if (entryError) {
+        throw new HttpError(500, entryError.message)
+      }
+
+      if (!entry || !canSeeEntry(caller, entry)) {
+        throw new HttpError(404, 'Transaction not found')
+      }
+
+      return json({ transaction: entry })
+    }
+  },
+
+  // POST deposit, withdrawal or transfer
+  {
+    method: 'POST',
+    path: '',
+    permissions: ['transactions:create'],
+    handler: async ({ req, supabase, user, caller, audit }) => {
+      const body = await readJson<PostTransactionData>(req)
+      const { entry_type, customer_account_id, to_customer_account_id, description, reference } = body
+      const amount = Number(body.amount)
+
+      if (!ENTRY_TYPES.includes(entry_type)) {
+        throw new HttpError(400, 'Transaction type must be deposit, withdrawal or transfer')
+      }
+
+      if (!Number.isFinite(amount) || amount <= 0 || Math.abs(Math.round(amount * 100) - amount * 100) > 1e-6) {
+        throw new HttpError(400, 'Amount must be a positive value with at most two decimal places')
+      }
+
+      if (!customer_account_id) {
+        throw new HttpError(400, 'Customer account is required')
+      }
+
+      if (entry_type === 'transfer' && (!to_customer_account_id || to_customer_account_id === customer_account_id)) {
+        throw new HttpError(400, 'A transfer needs a different destination account')
+      }
+
+      const accountIds = entry_type === 'transfer' ? [customer_account_id, to_customer_account_id!] : [customer_account_id]
+
+      const { data: accountsData, error: accountsError } = await supabase
+        .from('customer_accounts')
+        .select('id, account_number, account_type:account_types(name, bank_account_id), member:members(organisation_unit_id)')
+        .in('id', accountIds)
+
+      if (accountsError) {
+        throw new HttpError(500, accountsError.message)
+      }
+
+      // Accounts of members outside the caller's units are treated as if they did not exist
+      const ledgerAccounts: LedgerAccount[] = accountsData || []
+      const accounts = ledgerAccounts
+        .filter(account => canSeeUnit(caller, account.member?.organisation_unit_id))
+      const sourceAccount = accounts.find(account => account.id === customer_account_id)
+      const destinationAccount = accounts.find(account => account.id === to_customer_account_id)
+
+      if (!sourceAccount || (entry_type === 'transfer' && !destinationAccount)) {
+        throw new HttpError(404, 'Customer account not found')
+      }
+
+      // Every account type must be linked to the bank account that holds its funds
+      const unlinked = [sourceAccount, destinationAccount].find(account => account && !account.account_type?.bank_account_id)
+      if (unlinked) {
+        throw new HttpError(400, `Account type ${unlinked.account_type?.name || ''} of account ${unlinked.account_number} is not linked to a bank account`)
+      }
+
+      const sourceBankId = sourceAccount.account_type!.bank_account_id!
+      const lines: JournalLineInput[] = []
+
+      if (entry_type === 'deposit') {
+        lines.push({ bank_account_id: sourceBankId, debit: amount, credit: 0 })
+        lines.push({ customer_account_id: sourceAccount.id, debit: 0, credit: amount })
+      } else if (entry_type === 'withdrawal') {
+        lines.push({ customer_account_id: sourceAccount.id, debit: amount, credit: 0 })
+        lines.push({ bank_account_id: sourceBankId, debit: 0, credit: amount })
+      } else {
+        const destinationBankId = destinationAccount!.account_type!.bank_account_id!
+        lines.push({ customer_account_id: sourceAccount.id, debit: amount, credit: 0 })
+        lines.push({ customer_account_id: destinationAccount!.id, debit: 0, credit: amount })
+
+        // Funds held at a different bank move between the two bank accounts as well
+        if (destinationBankId !== sourceBankId) {
+          lines.push({ bank_account_id: destinationBankId, debit: amount, credit: 0 })
+          lines.push({ bank_account_id: sourceBankId, debit: 0, credit: amount })
+        }
+      }
+
+      // Money paid into an account settles a processing fee it still owes, in the same transaction
+      const creditedAccountId = entry_type === 'deposit' ? sourceAccount.id : entry_type === 'transfer' ? destinationAccount!.id : null
+
+      const { data: entryId, error: postError } = await supabase.rpc('post_member_transaction', {
+        p_entry_type: entry_type,
+        p_amount: amount,
+        p_description: description?.trim() || null,
+        p_reference: reference?.trim() || null,
+        p_posted_by: user.id,
+        p_lines: lines,
+        p_credited_account_id: creditedAccountId
+      })
+
+      if (postError) {
+        throw new HttpError(400, postError.message)
+      }
+
+      const { data: entry, error: entryError } = await supabase
+        .from('journal_entries')
+        .select(ENTRY_SELECT)
+        .eq('id', entryId)
+        .single()
+
+      if (entryError) {
+        throw new HttpError(500, entryError.message)
+      }
+
+      await audit({ action: 'create', entityType: 'transaction', entityId: entry.id, after: entry })
+
+      return json({ transaction: entry }, 201)
+    }
+  }
+])
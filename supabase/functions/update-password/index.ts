@@ -1,119 +1,94 @@
-import { createClient } from 'npm:@supabase/supabase-js@2'
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-  'Access-Control-Allow-Methods': 'POST, OPTIONS',
-}
+import { serve } from '../_shared/pipeline.ts'
+import { HttpError, json, readJson } from '../_shared/http.ts'
+import { throttlePasswordRequest } from '../_shared/throttle.ts'
+import { getPasswordPolicy, validatePassword } from '../_shared/passwordPolicy.ts'
 
 interface UpdatePasswordRequest {
   newPassword: string
   clearNeedsPasswordReset?: boolean
 }
 
-Deno.serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders })
-  }
-
-  try {
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-    
-    const supabase = createClient(supabaseUrl, supabaseServiceKey)
-
-    // Authenticate the request
-    const authHeader = req.headers.get('Authorization')
-    if (!authHeader) {
-      return new Response(
-        JSON.stringify({ error: 'Missing authorization header' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
-
-    const token = authHeader.replace('Bearer ', '')
-    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
-    
-    if (authError || !user) {
-      return new Response(
-        JSON.stringify({ error: 'Invalid authorization token' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
+serve('update-password', [
+  // POST change the signed-in user's own password; no permission beyond a session is needed, and a
+  // session opened from a password reset link may set it before completing the second factor
+  {
+    method: 'POST',
+    path: '',
+    allowRecoverySession: true,
+    handler: async ({ req, supabase, user, audit }) => {
+      await throttlePasswordRequest(supabase, req, 'update_password', user.id)
+
+      const body = await readJson<UpdatePasswordRequest>(req)
+      const { newPassword, clearNeedsPasswordReset = false } = body
+
+      if (!newPassword || typeof newPassword !== 'string') {
+        throw new HttpError(400, 'New password is required and must be a string')
+      }
 
-    if (req.method !== 'POST') {
-      return new Response(
-        JSON.stringify({ error: 'Method not allowed' }),
-        { status: 405, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
+      // Validate against the password policy, the compromised password list and the user's own details
+      const { data: owner } = await supabase
+        .from('users')
+        .select('email, full_name')
+        .eq('id', user.id)
+        .maybeSingle()
 
-    const body: UpdatePasswordRequest = await req.json()
-    const { newPassword, clearNeedsPasswordReset = false } = body
+      const policy = await getPasswordPolicy(supabase)
+      const { isValid, message } = await validatePassword(newPassword, policy, owner || { email: user.email })
+      if (!isValid) {
+        throw new HttpError(400, message)
+      }
 
-    if (!newPassword || typeof newPassword !== 'string') {
-      return new Response(
-        JSON.stringify({ error: 'New password is required and must be a string' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
+      // Neither the current password nor the previous ones the policy keeps may be used again
+      const { data: recentlyUsed, error: historyError } = await supabase.rpc('password_recently_used', {
+        p_user_id: user.id,
+        p_password: newPassword
+      })
 
-    // Validate password strength
-    const minLength = 8
-    const hasUppercase = /[A-Z]/.test(newPassword)
-    const hasLowercase = /[a-z]/.test(newPassword)
-    const hasNumber = /[0-9]/.test(newPassword)
-    const hasSpecialChar = /[!@#$%^&*(),.?":{}|<>]/.test(newPassword)
+      if (historyError) {
+        console.error('Error checking password history:', historyError)
+        throw new HttpError(500, 'Failed to check password history')
+      }
+      if (recentlyUsed) {
+        throw new HttpError(400, policy.history_depth > 0
+          ? `Password must differ from your current password and your last ${policy.history_depth} passwords`
+          : 'Password must differ from your current password')
+      }
 
-    if (newPassword.length < minLength || !hasUppercase || !hasLowercase || !hasNumber || !hasSpecialChar) {
-      return new Response(
-        JSON.stringify({ 
-          error: 'Password does not meet strength requirements. Must be at least 8 characters with uppercase, lowercase, number, and special character.' 
-        }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      // Update password using admin client
+      const { data: updateData, error: updateError } = await supabase.auth.admin.updateUserById(
+        user.id,
+        { password: newPassword }
       )
-    }
-
-    // Update password using admin client
-    const { data: updateData, error: updateError } = await supabase.auth.admin.updateUserById(
-      user.id,
-      { password: newPassword }
-    )
 
-    if (updateError) {
-      console.error('Error updating password:', updateError)
-      return new Response(
-        JSON.stringify({ error: 'Failed to update password' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
+      if (updateError) {
+        console.error('Error updating password:', updateError)
+        throw new HttpError(500, 'Failed to update password')
+      }
 
-    // Clear needs_password_reset flag if requested
-    if (clearNeedsPasswordReset) {
-      const { error: dbError } = await supabase
-        .from('users')
-        .update({ needs_password_reset: false })
-        .eq('id', user.id)
+      const { error: recordError } = await supabase.rpc('record_password_change', { p_user_id: user.id })
+      if (recordError) {
+        console.error('Error recording password change:', recordError)
+      }
 
-      if (dbError) {
-        console.error('Error updating needs_password_reset flag:', dbError)
-        // Don't fail the entire operation for this, just log it
+      // Clear needs_password_reset flag if requested
+      if (clearNeedsPasswordReset) {
+        const { error: dbError } = await supabase
+          .from('users')
+          .update({ needs_password_reset: false })
+          .eq('id', user.id)
+
+        if (dbError) {
+          console.error('Error updating needs_password_reset flag:', dbError)
+          // Don't fail the entire operation for this, just log it
+        }
       }
-    }
 
-    return new Response(
-      JSON.stringify({ 
+      await audit({ action: 'password_change', entityType: 'user', entityId: user.id })
+
+      return json({ 
         message: 'Password updated successfully',
         user: updateData.user 
-      }),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    )
-
-  } catch (error) {
-    console.error('Error in update-password function:', error)
-    return new Response(
-      JSON.stringify({ error: 'Internal server error' }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    )
+      })
+    }
   }
-})
\ No newline at end of file
+])
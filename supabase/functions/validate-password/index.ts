@@ -1,83 +1,62 @@
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'content-type',
-  'Access-Control-Allow-Methods': 'POST, OPTIONS',
-}
-
-interface PasswordValidationResult {
-  isValid: boolean
-  message: string
-  errors: string[]
-}
-
-Deno.serve(async (req) => {
-  // Handle CORS preflight requests
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders })
-  }
-
-  try {
-    const { password } = await req.json()
-
-    if (typeof password !== 'string') {
-      return new Response(
-        JSON.stringify({ 
-          isValid: false, 
-          message: 'Password must be a string.',
-          errors: ['Invalid password format']
-        }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+import { serve } from '../_shared/pipeline.ts'
+import { HttpError, json } from '../_shared/http.ts'
+import { throttlePasswordRequest } from '../_shared/throttle.ts'
+import { compromisedSuffixes, getPasswordPolicy, validatePassword } from '../_shared/passwordPolicy.ts'
+
+serve('validate-password', [
+  // POST check a password against the password policy and the compromised password list, and
+  // optionally the email address and name of whoever will use it; used before sign-in, so no
+  // session is needed
+  {
+    method: 'POST',
+    path: '',
+    public: true,
+    handler: async ({ req, supabase }) => {
+      await throttlePasswordRequest(supabase, req, 'validate_password', null)
+
+      try {
+        const { password, email, full_name } = await req.json()
+
+        if (typeof password !== 'string') {
+          return json({
+            isValid: false,
+            message: 'Password must be a string.',
+            errors: ['Invalid password format'],
+            score: 0,
+            feedback: []
+          }, 400)
+        }
+
+        const policy = await getPasswordPolicy(supabase)
+        return json(await validatePassword(password, policy, {
+          email: typeof email === 'string' ? email : null,
+          full_name: typeof full_name === 'string' ? full_name : null
+        }))
+
+      } catch (error) {
+        console.error('Error validating password:', error)
+        return json({
+          isValid: false,
+          message: 'Internal server error during password validation.',
+          errors: ['Server error'],
+          score: 0,
+          feedback: []
+        }, 500)
+      }
     }
-
-    const minLength = 8
-    const hasUppercase = /[A-Z]/.test(password)
-    const hasLowercase = /[a-z]/.test(password)
-    const hasNumber = /[0-9]/.test(password)
-    const hasSpecialChar = /[!@#$%^&*(),.?":{}|<>]/.test(password)
-
-    const errors: string[] = []
-    let isValid = true
-
-    if (password.length < minLength) {
-      errors.push(`Password must be at least ${minLength} characters long`)
-      isValid = false
+  },
+
+  // GET the hash suffixes of compromised passwords whose SHA-1 starts with the five-character
+  // prefix, so the browser can check a password without sending it or its full hash
+  {
+    method: 'GET',
+    path: 'range/:prefix',
+    public: true,
+    handler: async ({ params }) => {
+      if (!/^[0-9a-fA-F]{5}$/.test(params.prefix)) {
+        throw new HttpError(400, 'Prefix must be five hexadecimal characters')
+      }
+      return json({ suffixes: compromisedSuffixes(params.prefix) })
     }
-    if (!hasUppercase) {
-      errors.push('Password must contain at least one uppercase letter')
-      isValid = false
-    }
-    if (!hasLowercase) {
-      errors.push('Password must contain at least one lowercase letter')
-      isValid = false
-    }
-    if (!hasNumber) {
-      errors.push('Password must contain at least one number')
-      isValid = false
-    }
-    if (!hasSpecialChar) {
-      errors.push('Password must contain at least one special character (!@#$%^&*(),.?":{}|<>)')
-      isValid = false
-    }
-
-    const message = isValid 
-      ? 'Password meets all strength requirements' 
-      : errors.join('. ')
-
-    return new Response(
-      JSON.stringify({ isValid, message, errors }),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    )
-
-  } catch (error) {
-    console.error('Error validating password:', error)
-    return new Response(
-      JSON.stringify({ 
-        isValid: false, 
-        message: 'Internal server error during password validation.',
-        errors: ['Server error']
-      }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    )
   }
-})
\ No newline at end of file
+])
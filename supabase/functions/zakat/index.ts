@@ -0,0 +1,288 @@
+import { serve, type RouteContext } from '../_shared/pipeline.ts'
+import { HttpError, json, readJson } from '../_shared/http.ts'
+import { canSeeUnit, unitFilter } from '../_shared/units.ts'
+
+// A hawl is one lunar year; zakat on cash savings is 2.5%
+const HAWL_DAYS = 354
+const ZAKAT_RATE = 0.025
+
+type NisabBasis = 'gold' | 'silver'
+
+interface CreateNisabRateData {
+  effective_date: string
+  basis: NisabBasis
+  gold_price_per_gram: number
+  silver_price_per_gram: number
+  notes?: string
+}
+
+interface Assessment {
+  member_id: string
+  balance: number
+  lowest_balance: number
+  hawl_start: string | null
+  hawl_complete: boolean
+  zakat_due: number
+}
+
+const isValidDate = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value))
+
+// Zakat assessment of every member in the caller's units on ?as_of (default today), optionally
+// only of the members of one unit and the units below it, or with params.id the statement of one
+// member
+async function assessZakat({ url, params, supabase, caller }: RouteContext): Promise<Response> {
+  const today = new Date().toISOString().slice(0, 10)
+  const asOf = url.searchParams.get('as_of') || today
+
+  if (!isValidDate(asOf) || asOf > today) {
+    throw new HttpError(400, 'Assessment date must be a date in YYYY-MM-DD format and not in the future')
+  }
+
+  // The prices in force on the assessment date set the nisab
+  const { data: nisabRate, error: nisabError } = await supabase
+    .from('zakat_nisab_rates')
+    .select('*')
+    .lte('effective_date', asOf)
+    .order('effective_date', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (nisabError) {
+    throw new HttpError(500, nisabError.message)
+  }
+
+  if (!nisabRate) {
+    throw new HttpError(400, `No nisab prices have been recorded on or before ${asOf}`)
+  }
+
+  const memberId = params.id ?? null
+
+  const { data: assessmentsData, error: assessError } = await supabase.rpc('assess_zakat', {
+    p_as_of: asOf,
+    p_nisab: nisabRate.nisab_value,
+    p_hawl_days: HAWL_DAYS,
+    p_rate: ZAKAT_RATE,
+    p_member_id: memberId
+  })
+
+  if (assessError) {
+    throw new HttpError(500, assessError.message)
+  }
+
+  const assessments = (assessmentsData || []) as Assessment[]
+  const basis = {
+    as_of: asOf,
+    nisab: nisabRate,
+    hawl_days: HAWL_DAYS,
+    zakat_rate: ZAKAT_RATE
+  }
+
+  // GET zakat statement of one member with the balance of each account on the date
+  if (memberId) {
+    const { data: member, error: memberError } = await supabase
+      .from('members')
+      .select('id, member_number, first_name, last_name, national_id, address, city, email, organisation_unit_id')
+      .eq('id', memberId)
+      .maybeSingle()
+
+    if (memberError || !member || !canSeeUnit(caller, member.organisation_unit_id)) {
+      throw new HttpError(404, 'Member not found')
+    }
+
+    const { data: accountsData, error: accountsError } = await supabase
+      .from('customer_accounts')
+      .select('id, account_number, status, account_type:account_types(name)')
+      .eq('member_id', memberId)
+      .order('account_number', { ascending: true })
+
+    if (accountsError) {
+      throw new HttpError(500, accountsError.message)
+    }
+
+    const { data: balancesData, error: balancesError } = await supabase.rpc('member_account_balances_on', {
+      p_member_id: memberId,
+      p_as_of: asOf
+    })
+
+    if (balancesError) {
+      throw new HttpError(500, balancesError.message)
+    }
+
+    const balances = new Map(
+      ((balancesData || []) as { customer_account_id: string; balance: number }[])
+        .map(row => [row.customer_account_id, Number(row.balance)])
+    )
+    const accounts = (accountsData || []).map(account => ({ ...account, balance: balances.get(account.id) ?? 0 }))
+
+    return json({
+      ...basis,
+      member,
+      accounts,
+      assessment: assessments[0] || {
+        member_id: memberId,
+        balance: 0,
+        lowest_balance: 0,
+        hawl_start: null,
+        hawl_complete: false,
+        zakat_due: 0
+      }
+    })
+  }
+
+  // GET zakat report of all members
+  let membersQuery = supabase
+    .from('members')
+    .select('id, member_number, first_name, last_name, membership_status')
+    .in('id', assessments.map(assessment => assessment.member_id))
+
+  const unitIds = await unitFilter(supabase, caller, url.searchParams.get('organisation_unit_id'))
+  if (unitIds) {
+    membersQuery = membersQuery.in('organisation_unit_id', unitIds)
+  }
+
+  const { data: membersData, error: membersError } = await membersQuery
+
+  if (membersError) {
+    throw new HttpError(500, membersError.message)
+  }
+
+  // Members left out by the unit filter are left out of the report
+  const membersById = new Map((membersData || []).map(member => [member.id, member]))
+  const report = assessments
+    .filter(assessment => !unitIds || membersById.has(assessment.member_id))
+    .map(assessment => ({ ...assessment, member: membersById.get(assessment.member_id) || null }))
+    .sort((a, b) => Number(b.zakat_due) - Number(a.zakat_due) || Number(b.balance) - Number(a.balance))
+
+  return json({ ...basis, assessments: report })
+}
+
+serve('zakat', [
+  // GET nisab rate history
+  {
+    method: 'GET',
+    path: 'nisab',
+    permissions: ['zakat:view', 'zakat:manage'],
+    handler: async ({ supabase }) => {
+      const { data: ratesData, error: ratesError } = await supabase
+        .from('zakat_nisab_rates')
+        .select('*')
+        .order('effective_date', { ascending: false })
+
+      if (ratesError) {
+        throw new HttpError(500, ratesError.message)
+      }
+
+      return json({ nisab_rates: ratesData || [] })
+    }
+  },
+
+  // POST record gold and silver prices
+  {
+    method: 'POST',
+    path: 'nisab',
+    permissions: ['zakat:manage'],
+    handler: async ({ req, supabase, user, audit }) => {
+      const body = await readJson<CreateNisabRateData>(req)
+      const { effective_date, basis, notes } = body
+      const goldPrice = Number(body.gold_price_per_gram)
+      const silverPrice = Number(body.silver_price_per_gram)
+
+      if (!isValidDate(effective_date)) {
+        throw new HttpError(400, 'Effective date must be a date in YYYY-MM-DD format')
+      }
+
+      if (basis !== 'gold' && basis !== 'silver') {
+        throw new HttpError(400, 'Nisab basis must be gold or silver')
+      }
+
+      if (!Number.isFinite(goldPrice) || goldPrice <= 0 || !Number.isFinite(silverPrice) || silverPrice <= 0) {
+        throw new HttpError(400, 'Gold and silver prices per gram must be positive amounts')
+      }
+
+      const { data: existingRate, error: checkError } = await supabase
+        .from('zakat_nisab_rates')
+        .select('id')
+        .eq('effective_date', effective_date)
+        .maybeSingle()
+
+      if (checkError) {
+        throw new HttpError(500, checkError.message)
+      }
+
+      if (existingRate) {
+        throw new HttpError(400, 'Prices are already recorded for this date. Delete them first to correct them.')
+      }
+
+      const { data: newRate, error: insertError } = await supabase
+        .from('zakat_nisab_rates')
+        .insert({
+          effective_date,
+          basis,
+          gold_price_per_gram: goldPrice,
+          silver_price_per_gram: silverPrice,
+          notes: notes?.trim() || null,
+          created_by: user.id
+        })
+        .select('*')
+        .single()
+
+      if (insertError) {
+        throw new HttpError(400, insertError.message)
+      }
+
+      await audit({ action: 'create', entityType: 'nisab_rate', entityId: newRate.id, after: newRate })
+
+      return json({ nisab_rate: newRate }, 201)
+    }
+  },
+
+  // DELETE a nisab rate recorded in error
+  {
+    method: 'DELETE',
+    path: 'nisab/:id',
+    permissions: ['zakat:manage'],
+    handler: async ({ params, supabase, audit }) => {
+      const rateId = params.id
+
+      const { data: rate, error: rateError } = await supabase
+        .from('zakat_nisab_rates')
+        .select('*')
+        .eq('id', rateId)
+        .maybeSingle()
+
+      if (rateError || !rate) {
+        throw new HttpError(404, 'Nisab rate not found')
+      }
+
+      const { error: deleteError } = await supabase
+        .from('zakat_nisab_rates')
+        .delete()
+        .eq('id', rateId)
+
+      if (deleteError) {
+        throw new HttpError(400, deleteError.message)
+      }
+
+      await audit({ action: 'delete', entityType: 'nisab_rate', entityId: rateId, before: rate })
+
+      return json({ message: 'Nisab rate deleted successfully' })
+    }
+  },
+
+  // GET zakat report of all members
+  {
+    method: 'GET',
+    path: '',
+    permissions: ['zakat:view', 'zakat:manage'],
+    handler: assessZakat
+  },
+
+  // GET zakat statement of one member
+  {
+    method: 'GET',
+    path: 'members/:id',
+    permissions: ['zakat:view', 'zakat:manage'],
+    handler: assessZakat
+  }
+])
@@ -0,0 +1,109 @@
+/*
+  # Create members registry
+
+  1. New Tables
+    - `members`
+      - `id` (uuid, primary key)
+      - `member_number` (text, unique) - Generated membership number, e.g. "M000042"
+      - `first_name`, `last_name` (text, not null) - Legal name of the member
+      - `date_of_birth` (date, optional)
+      - `gender` (text, optional) - 'male' or 'female'
+      - `national_id` (text, unique, not null) - National identity card number
+      - `email`, `phone` (text, optional) - Contact details
+      - `address`, `city` (text, optional) - Postal address
+      - `occupation` (text, optional)
+      - `membership_status` (text) - 'pending', 'active', 'suspended' or 'terminated'
+      - `joined_at` (date) - Date the membership started
+      - `notes` (text, optional) - Free-form staff notes
+      - `created_by` (uuid, foreign key to users) - Staff member who registered the member
+      - `created_at`, `updated_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `members` table
+    - Admins can manage members
+
+  3. Permissions
+    - `members:view` - Search and view member profiles
+    - `members:manage` - Register and edit members
+
+  4. Notes
+    - Members are the people who hold customer accounts; they are distinct from
+      staff `users` who log in to this system
+*/
+
+CREATE SEQUENCE IF NOT EXISTS member_number_seq START 1;
+
+CREATE TABLE IF NOT EXISTS public.members (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  member_number text UNIQUE NOT NULL DEFAULT ('M' || lpad(nextval('member_number_seq')::text, 6, '0')),
+  first_name text NOT NULL,
+  last_name text NOT NULL,
+  date_of_birth date,
+  gender text CHECK (gender IN ('male', 'female')),
+  national_id text UNIQUE NOT NULL,
+  email text,
+  phone text,
+  address text,
+  city text,
+  occupation text,
+  membership_status text NOT NULL DEFAULT 'pending'
+    CHECK (membership_status IN ('pending', 'active', 'suspended', 'terminated')),
+  joined_at date NOT NULL DEFAULT CURRENT_DATE,
+  notes text,
+  created_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage members"
+  ON public.members
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_roles ur
+      JOIN roles r ON ur.role_id = r.id
+      WHERE ur.user_id = auth.uid() AND r.name = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM user_roles ur
+      JOIN roles r ON ur.role_id = r.id
+      WHERE ur.user_id = auth.uid() AND r.name = 'admin'
+    )
+  );
+
+-- Indexes for member search
+CREATE INDEX IF NOT EXISTS idx_members_last_name ON public.members(last_name);
+CREATE INDEX IF NOT EXISTS idx_members_national_id ON public.members(national_id);
+CREATE INDEX IF NOT EXISTS idx_members_membership_status ON public.members(membership_status);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.triggers
+    WHERE trigger_name = 'update_members_updated_at'
+  ) THEN
+    CREATE TRIGGER update_members_updated_at
+      BEFORE UPDATE ON public.members
+      FOR EACH ROW
+      EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+-- Member permissions
+INSERT INTO permissions (resource, action, description) VALUES
+  ('members', 'view', 'Search and view member profiles'),
+  ('members', 'manage', 'Register and edit members')
+ON CONFLICT (resource, action) DO NOTHING;
+
+INSERT INTO role_permissions (role_id, permission_id)
+SELECT r.id, p.id
+FROM roles r
+JOIN permissions p ON p.resource = 'members'
+WHERE r.name = 'admin'
+ON CONFLICT (role_id, permission_id) DO NOTHING;
@@ -0,0 +1,134 @@
+/*
+  # Create customer accounts
+
+  1. New Tables
+    - `customer_accounts`
+      - `id` (uuid, primary key)
+      - `account_number` (text, unique) - Generated 10-digit number ending in a Luhn check digit
+      - `member_id` (uuid, foreign key to members) - Account holder
+      - `account_type_id` (uuid, foreign key to account_types) - Product the account was opened under
+      - `status` (text) - 'pending', 'active', 'dormant' or 'closed'
+      - `balance` (decimal) - Current balance in MUR
+      - `processing_fee` (decimal) - Processing fee charged when the account was opened, copied
+        from the account type so later fee changes do not rewrite history
+      - `documents_supplied` (jsonb) - Names of the account type's required documents that have been supplied
+      - `notes` (text, optional)
+      - `opened_by` (uuid, foreign key to users) - Staff member who opened the account
+      - `opened_at`, `activated_at`, `closed_at` (timestamp)
+      - `created_at`, `updated_at` (timestamp)
+
+  2. Functions
+    - `generate_customer_account_number()` - Next account number from a sequence plus check digit
+
+  3. Security
+    - Enable RLS on `customer_accounts` table
+    - Admins can manage customer accounts
+
+  4. Permissions
+    - `accounts:view` - View customer accounts
+    - `accounts:manage` - Open accounts and change their status
+
+  5. Notes
+    - An account cannot move to 'active' until every entry of its account type's
+      `documents_required` is present in `documents_supplied` (enforced by the
+      customer-accounts edge function)
+*/
+
+CREATE SEQUENCE IF NOT EXISTS customer_account_number_seq START 1;
+
+-- 9 digits from the sequence followed by a Luhn check digit
+CREATE OR REPLACE FUNCTION public.generate_customer_account_number()
+RETURNS text
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  base text := '1' || lpad(nextval('customer_account_number_seq')::text, 8, '0');
+  total integer := 0;
+  digit integer;
+  i integer;
+BEGIN
+  FOR i IN 1..length(base) LOOP
+    digit := substr(base, length(base) - i + 1, 1)::integer;
+    IF i % 2 = 1 THEN
+      digit := digit * 2;
+      IF digit > 9 THEN
+        digit := digit - 9;
+      END IF;
+    END IF;
+    total := total + digit;
+  END LOOP;
+
+  RETURN base || ((10 - total % 10) % 10)::text;
+END;
+$$;
+
+CREATE TABLE IF NOT EXISTS public.customer_accounts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_number text UNIQUE NOT NULL DEFAULT generate_customer_account_number(),
+  member_id uuid NOT NULL REFERENCES public.members(id) ON DELETE RESTRICT,
+  account_type_id uuid NOT NULL REFERENCES public.account_types(id) ON DELETE RESTRICT,
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'active', 'dormant', 'closed')),
+  balance decimal(14,2) NOT NULL DEFAULT 0.00,
+  processing_fee decimal(10,2) NOT NULL DEFAULT 0.00,
+  documents_supplied jsonb NOT NULL DEFAULT '[]'::jsonb,
+  notes text,
+  opened_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  opened_at timestamptz NOT NULL DEFAULT now(),
+  activated_at timestamptz,
+  closed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.customer_accounts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage customer accounts"
+  ON public.customer_accounts
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_roles ur
+      JOIN roles r ON ur.role_id = r.id
+      WHERE ur.user_id = auth.uid() AND r.name = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM user_roles ur
+      JOIN roles r ON ur.role_id = r.id
+      WHERE ur.user_id = auth.uid() AND r.name = 'admin'
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_customer_accounts_member_id ON public.customer_accounts(member_id);
+CREATE INDEX IF NOT EXISTS idx_customer_accounts_account_type_id ON public.customer_accounts(account_type_id);
+CREATE INDEX IF NOT EXISTS idx_customer_accounts_status ON public.customer_accounts(status);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.triggers
+    WHERE trigger_name = 'update_customer_accounts_updated_at'
+  ) THEN
+    CREATE TRIGGER update_customer_accounts_updated_at
+      BEFORE UPDATE ON public.customer_accounts
+      FOR EACH ROW
+      EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+-- Customer account permissions
+INSERT INTO permissions (resource, action, description) VALUES
+  ('accounts', 'view', 'View customer accounts'),
+  ('accounts', 'manage', 'Open customer accounts and change their status')
+ON CONFLICT (resource, action) DO NOTHING;
+
+INSERT INTO role_permissions (role_id, permission_id)
+SELECT r.id, p.id
+FROM roles r
+JOIN permissions p ON p.resource = 'accounts'
+WHERE r.name = 'admin'
+ON CONFLICT (role_id, permission_id) DO NOTHING;
@@ -0,0 +1,189 @@
+/*
+  # Create double-entry transaction ledger
+
+  1. New Tables
+    - `journal_entries`
+      - `id` (uuid, primary key)
+      - `entry_number` (text, unique) - Sequential reference printed on receipts, e.g. JE00000001
+      - `entry_type` (text) - 'deposit', 'withdrawal' or 'transfer'
+      - `amount` (decimal) - Amount moved by the transaction in MUR
+      - `description` (text, optional)
+      - `reference` (text, optional) - External reference such as a slip or cheque number
+      - `posted_by` (uuid, foreign key to users) - Staff member who posted the entry
+      - `posted_at` (timestamp)
+      - `created_at` (timestamp)
+    - `journal_lines`
+      - `id` (uuid, primary key)
+      - `journal_entry_id` (uuid, foreign key to journal_entries)
+      - `customer_account_id` (uuid, foreign key to customer_accounts, optional)
+      - `bank_account_id` (uuid, foreign key to bank_accounts, optional)
+      - `debit` (decimal)
+      - `credit` (decimal)
+      - `balance_after` (decimal, optional) - Customer account balance after this line was applied
+      - `created_at` (timestamp)
+
+  2. Functions
+    - `post_journal_entry(...)` - Validates that debits equal credits, applies the lines to
+      customer account balances and records the entry in a single database transaction
+
+  3. Security
+    - Enable RLS on both tables
+    - Admins can view journal entries and lines; entries are only written through
+      `post_journal_entry`, which is not callable by client roles
+
+  4. Notes
+    - Customer accounts are liabilities of the cooperative: a credit increases the
+      account balance, a debit decreases it. Bank accounts are assets: a debit is
+      money received, a credit is money paid out.
+    - Only active customer accounts can be posted to and balances may not go negative.
+    - Journal entries are immutable; corrections are made by posting a new entry.
+*/
+
+CREATE SEQUENCE IF NOT EXISTS journal_entry_number_seq START 1;
+
+CREATE TABLE IF NOT EXISTS public.journal_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  entry_number text UNIQUE NOT NULL DEFAULT 'JE' || lpad(nextval('journal_entry_number_seq')::text, 8, '0'),
+  entry_type text NOT NULL CHECK (entry_type IN ('deposit', 'withdrawal', 'transfer')),
+  amount decimal(14,2) NOT NULL CHECK (amount > 0),
+  description text,
+  reference text,
+  posted_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  posted_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.journal_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  journal_entry_id uuid NOT NULL REFERENCES public.journal_entries(id) ON DELETE CASCADE,
+  customer_account_id uuid REFERENCES public.customer_accounts(id) ON DELETE RESTRICT,
+  bank_account_id uuid REFERENCES public.bank_accounts(id) ON DELETE RESTRICT,
+  debit decimal(14,2) NOT NULL DEFAULT 0.00 CHECK (debit >= 0),
+  credit decimal(14,2) NOT NULL DEFAULT 0.00 CHECK (credit >= 0),
+  balance_after decimal(14,2),
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT journal_lines_single_ledger CHECK ((customer_account_id IS NULL) <> (bank_account_id IS NULL)),
+  CONSTRAINT journal_lines_single_side CHECK ((debit = 0) <> (credit = 0))
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.journal_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.journal_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view journal entries"
+  ON public.journal_entries
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_roles ur
+      JOIN roles r ON ur.role_id = r.id
+      WHERE ur.user_id = auth.uid() AND r.name = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can view journal lines"
+  ON public.journal_lines
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_roles ur
+      JOIN roles r ON ur.role_id = r.id
+      WHERE ur.user_id = auth.uid() AND r.name = 'admin'
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_journal_entries_posted_at ON public.journal_entries(posted_at DESC);
+CREATE INDEX IF NOT EXISTS idx_journal_entries_entry_type ON public.journal_entries(entry_type);
+CREATE INDEX IF NOT EXISTS idx_journal_lines_journal_entry_id ON public.journal_lines(journal_entry_id);
+CREATE INDEX IF NOT EXISTS idx_journal_lines_customer_account_id ON public.journal_lines(customer_account_id);
+CREATE INDEX IF NOT EXISTS idx_journal_lines_bank_account_id ON public.journal_lines(bank_account_id);
+
+-- Post a balanced journal entry. p_lines is a JSON array of
+-- { customer_account_id | bank_account_id, debit, credit } objects.
+CREATE OR REPLACE FUNCTION public.post_journal_entry(
+  p_entry_type text,
+  p_amount numeric,
+  p_description text,
+  p_reference text,
+  p_posted_by uuid,
+  p_lines jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_entry_id uuid;
+  v_line jsonb;
+  v_total_debit numeric := 0;
+  v_total_credit numeric := 0;
+  v_debit numeric;
+  v_credit numeric;
+  v_account record;
+  v_balance numeric;
+BEGIN
+  IF p_lines IS NULL OR jsonb_typeof(p_lines) <> 'array' OR jsonb_array_length(p_lines) < 2 THEN
+    RAISE EXCEPTION 'A journal entry needs at least two lines';
+  END IF;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+    v_total_debit := v_total_debit + COALESCE((v_line->>'debit')::numeric, 0);
+    v_total_credit := v_total_credit + COALESCE((v_line->>'credit')::numeric, 0);
+  END LOOP;
+
+  IF v_total_debit <> v_total_credit THEN
+    RAISE EXCEPTION 'Journal entry is not balanced: debits % do not equal credits %', v_total_debit, v_total_credit;
+  END IF;
+
+  INSERT INTO public.journal_entries (entry_type, amount, description, reference, posted_by)
+  VALUES (p_entry_type, p_amount, NULLIF(trim(p_description), ''), NULLIF(trim(p_reference), ''), p_posted_by)
+  RETURNING id INTO v_entry_id;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+    v_debit := COALESCE((v_line->>'debit')::numeric, 0);
+    v_credit := COALESCE((v_line->>'credit')::numeric, 0);
+    v_balance := NULL;
+
+    IF v_line->>'customer_account_id' IS NOT NULL THEN
+      SELECT id, account_number, status, balance INTO v_account
+      FROM public.customer_accounts
+      WHERE id = (v_line->>'customer_account_id')::uuid
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Customer account not found';
+      END IF;
+
+      IF v_account.status <> 'active' THEN
+        RAISE EXCEPTION 'Account % is % and cannot be posted to', v_account.account_number, v_account.status;
+      END IF;
+
+      v_balance := v_account.balance + v_credit - v_debit;
+
+      IF v_balance < 0 THEN
+        RAISE EXCEPTION 'Insufficient funds in account %', v_account.account_number;
+      END IF;
+
+      UPDATE public.customer_accounts
+      SET balance = v_balance
+      WHERE id = v_account.id;
+    END IF;
+
+    INSERT INTO public.journal_lines (journal_entry_id, customer_account_id, bank_account_id, debit, credit, balance_after)
+    VALUES (
+      v_entry_id,
+      (v_line->>'customer_account_id')::uuid,
+      (v_line->>'bank_account_id')::uuid,
+      v_debit,
+      v_credit,
+      v_balance
+    );
+  END LOOP;
+
+  RETURN v_entry_id;
+END;
+$$;
+
+-- Only the service role (edge functions) may post to the ledger
+REVOKE EXECUTE ON FUNCTION public.post_journal_entry(text, numeric, text, text, uuid, jsonb) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,210 @@
+/*
+  # KYC document catalog, uploads and verification
+
+  1. New Tables
+    - `document_kinds`
+      - `id` (uuid, primary key)
+      - `code` (text, unique) - Stable identifier referenced by `account_types.documents_required`
+      - `name` (text, unique) - Display name, e.g. "ID Card"
+      - `description` (text, optional)
+      - `requires_expiry` (boolean) - Whether uploads of this kind must carry an expiry date
+      - `is_active` (boolean) - Inactive kinds cannot be uploaded or newly required
+      - `created_at`, `updated_at` (timestamp)
+    - `member_documents`
+      - `id` (uuid, primary key)
+      - `member_id` (uuid, foreign key to members) - Owner of the document
+      - `customer_account_id` (uuid, foreign key to customer_accounts, optional) - Set when the
+        document was supplied for one account only; member-level documents count for every account
+      - `document_kind_id` (uuid, foreign key to document_kinds)
+      - `storage_path` (text) - Object path inside the `kyc-documents` bucket
+      - `file_name`, `mime_type` (text), `file_size` (integer)
+      - `document_number` (text, optional) - Number printed on the document
+      - `issued_on`, `expires_on` (date, optional)
+      - `status` (text) - 'pending', 'verified' or 'rejected'
+      - `rejection_reason` (text) - Required when rejected
+      - `uploaded_by`, `reviewed_by` (uuid, foreign key to users)
+      - `uploaded_at`, `reviewed_at` (timestamp)
+      - `created_at`, `updated_at` (timestamp)
+
+  2. Schema Changes
+    - `account_types.documents_required` now holds document kind codes. Existing free-text
+      entries are added to the catalog and converted to their codes.
+    - `customer_accounts.documents_supplied` is dropped; the account checklist is derived
+      from the member's verified documents instead.
+
+  3. Storage
+    - Private `kyc-documents` bucket (PDF, JPEG and PNG up to 5 MB). Objects are only
+      accessed through the member-documents edge function using signed URLs.
+
+  4. Security
+    - Enable RLS on both tables
+    - Admins can manage document kinds and member documents
+
+  5. Permissions
+    - `documents:view` - View member documents and account checklists
+    - `documents:upload` - Upload member documents
+    - `documents:verify` - Approve or reject uploaded documents
+    - `documents:manage` - Maintain the document kind catalog
+*/
+
+CREATE TABLE IF NOT EXISTS public.document_kinds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text UNIQUE NOT NULL CHECK (code ~ '^[a-z0-9_]+$'),
+  name text UNIQUE NOT NULL,
+  description text,
+  requires_expiry boolean NOT NULL DEFAULT false,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.member_documents (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  member_id uuid NOT NULL REFERENCES public.members(id) ON DELETE RESTRICT,
+  customer_account_id uuid REFERENCES public.customer_accounts(id) ON DELETE RESTRICT,
+  document_kind_id uuid NOT NULL REFERENCES public.document_kinds(id) ON DELETE RESTRICT,
+  storage_path text UNIQUE NOT NULL,
+  file_name text NOT NULL,
+  mime_type text NOT NULL,
+  file_size integer NOT NULL CHECK (file_size > 0),
+  document_number text,
+  issued_on date,
+  expires_on date,
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'verified', 'rejected')),
+  rejection_reason text,
+  uploaded_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  uploaded_at timestamptz NOT NULL DEFAULT now(),
+  reviewed_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  reviewed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT member_documents_rejection_reason CHECK (status <> 'rejected' OR rejection_reason IS NOT NULL),
+  CONSTRAINT member_documents_validity CHECK (issued_on IS NULL OR expires_on IS NULL OR expires_on > issued_on)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.document_kinds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.member_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage document kinds"
+  ON public.document_kinds
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_roles ur
+      JOIN roles r ON ur.role_id = r.id
+      WHERE ur.user_id = auth.uid() AND r.name = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM user_roles ur
+      JOIN roles r ON ur.role_id = r.id
+      WHERE ur.user_id = auth.uid() AND r.name = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can manage member documents"
+  ON public.member_documents
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_roles ur
+      JOIN roles r ON ur.role_id = r.id
+      WHERE ur.user_id = auth.uid() AND r.name = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM user_roles ur
+      JOIN roles r ON ur.role_id = r.id
+      WHERE ur.user_id = auth.uid() AND r.name = 'admin'
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_member_documents_member_id ON public.member_documents(member_id);
+CREATE INDEX IF NOT EXISTS idx_member_documents_customer_account_id ON public.member_documents(customer_account_id);
+CREATE INDEX IF NOT EXISTS idx_member_documents_document_kind_id ON public.member_documents(document_kind_id);
+CREATE INDEX IF NOT EXISTS idx_member_documents_status ON public.member_documents(status);
+CREATE INDEX IF NOT EXISTS idx_member_documents_expires_on ON public.member_documents(expires_on);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.triggers
+    WHERE trigger_name = 'update_document_kinds_updated_at'
+  ) THEN
+    CREATE TRIGGER update_document_kinds_updated_at
+      BEFORE UPDATE ON public.document_kinds
+      FOR EACH ROW
+      EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.triggers
+    WHERE trigger_name = 'update_member_documents_updated_at'
+  ) THEN
+    CREATE TRIGGER update_member_documents_updated_at
+      BEFORE UPDATE ON public.member_documents
+      FOR EACH ROW
+      EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+-- Default catalog
+INSERT INTO document_kinds (code, name, description, requires_expiry) VALUES
+  ('id_card', 'ID Card', 'National identity card', true),
+  ('passport', 'Passport', 'Valid passport', true),
+  ('birth_certificate', 'Birth Certificate', 'Birth certificate, required for minors', false),
+  ('proof_of_address', 'Proof of Address', 'Utility bill or bank statement issued within the last three months', false),
+  ('income_certificate', 'Income Certificate', 'Payslip or employer letter confirming income', false)
+ON CONFLICT (code) DO NOTHING;
+
+-- Carry existing free-text requirements over to the catalog
+INSERT INTO document_kinds (code, name)
+SELECT DISTINCT ON (code) code, name
+FROM (
+  SELECT
+    trim(both '_' from lower(regexp_replace(trim(doc), '[^a-zA-Z0-9]+', '_', 'g'))) AS code,
+    trim(doc) AS name
+  FROM account_types, jsonb_array_elements_text(documents_required) AS doc
+  WHERE trim(doc) <> ''
+) existing
+WHERE code <> ''
+ON CONFLICT DO NOTHING;
+
+UPDATE account_types
+SET documents_required = COALESCE((
+  SELECT jsonb_agg(DISTINCT trim(both '_' from lower(regexp_replace(trim(doc), '[^a-zA-Z0-9]+', '_', 'g'))))
+  FROM jsonb_array_elements_text(documents_required) AS doc
+  WHERE trim(both '_' from lower(regexp_replace(trim(doc), '[^a-zA-Z0-9]+', '_', 'g'))) <> ''
+), '[]'::jsonb)
+WHERE jsonb_array_length(documents_required) > 0;
+
+COMMENT ON COLUMN account_types.documents_required IS 'Array of document kind codes required before an account of this type can be activated (e.g., ["id_card", "proof_of_address"])';
+
+-- The checklist is now derived from verified member documents
+ALTER TABLE public.customer_accounts DROP COLUMN IF EXISTS documents_supplied;
+
+-- Private bucket for KYC uploads
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('kyc-documents', 'kyc-documents', false, 5242880, ARRAY['application/pdf', 'image/jpeg', 'image/png'])
+ON CONFLICT (id) DO NOTHING;
+
+-- Document permissions
+INSERT INTO permissions (resource, action, description) VALUES
+  ('documents', 'view', 'View member documents and account checklists'),
+  ('documents', 'upload', 'Upload member documents'),
+  ('documents', 'verify', 'Approve or reject uploaded documents'),
+  ('documents', 'manage', 'Maintain the document kind catalog')
+ON CONFLICT (resource, action) DO NOTHING;
+
+INSERT INTO role_permissions (role_id, permission_id)
+SELECT r.id, p.id
+FROM roles r
+JOIN permissions p ON p.resource = 'documents'
+WHERE r.name = 'admin'
+ON CONFLICT (role_id, permission_id) DO NOTHING;
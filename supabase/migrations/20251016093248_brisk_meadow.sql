@@ -0,0 +1,641 @@
+/*
+  # Create Qard Hasan and Murabaha loans
+
+  1. New Tables
+    - `ledger_accounts`
+      - `id` (uuid, primary key)
+      - `code` (text, unique) - Stable identifier used by the ledger functions
+      - `name` (text)
+      - `category` (text) - 'asset', 'liability', 'equity', 'income' or 'expense'
+      - `balance` (decimal) - Running balance on the account's normal side
+      - `created_at`, `updated_at` (timestamp)
+    - `loan_products`
+      - `id` (uuid, primary key)
+      - `name` (text, unique)
+      - `product_type` (text) - 'qard_hasan' (interest-free) or 'murabaha' (cost-plus sale)
+      - `description` (text, optional)
+      - `profit_rate` (decimal) - Murabaha markup as a flat percentage per year of term; always 0 for Qard Hasan
+      - `min_amount`, `max_amount` (decimal) - Allowed principal range in MUR
+      - `min_term_months`, `max_term_months` (integer) - Allowed repayment term
+      - `is_active` (boolean)
+      - `created_at`, `updated_at` (timestamp)
+    - `loans`
+      - `id` (uuid, primary key)
+      - `loan_number` (text, unique) - Sequential reference, e.g. LN000001
+      - `member_id` (uuid, foreign key to members) - Borrower
+      - `customer_account_id` (uuid, foreign key to customer_accounts) - Loan-eligible account the loan
+        is disbursed into and repaid from
+      - `loan_product_id` (uuid, foreign key to loan_products)
+      - `product_type`, `profit_rate` - Copied from the product when applying so later product changes
+        do not rewrite existing loans
+      - `principal` (decimal) - Amount disbursed to the member
+      - `profit_amount` (decimal) - Murabaha markup agreed at application; 0 for Qard Hasan
+      - `total_payable` (decimal) - principal + profit_amount
+      - `term_months` (integer)
+      - `purpose` (text, optional)
+      - `status` (text) - 'pending', 'approved', 'rejected', 'active' or 'closed'
+      - `outstanding_balance` (decimal) - Amount still owed; maintained by the ledger
+      - `rejection_reason` (text, optional)
+      - `applied_by`, `reviewed_by`, `disbursed_by` (uuid, foreign keys to users)
+      - `applied_at`, `reviewed_at`, `disbursed_at`, `closed_at` (timestamp)
+      - `disbursement_entry_id` (uuid, foreign key to journal_entries)
+      - `created_at`, `updated_at` (timestamp)
+    - `loan_instalments`
+      - `id` (uuid, primary key)
+      - `loan_id` (uuid, foreign key to loans)
+      - `instalment_number` (integer)
+      - `due_date` (date)
+      - `principal_due`, `profit_due`, `amount_due` (decimal)
+      - `principal_paid`, `profit_paid` (decimal)
+      - `paid_at` (timestamp) - Set once the instalment is fully paid
+      - `created_at`, `updated_at` (timestamp)
+
+  2. Changes
+    - `journal_entries.entry_type` also accepts 'loan_disbursement' and 'loan_repayment'
+    - `journal_lines` can post to a loan (`loan_id`) or an internal ledger account (`ledger_account_id`);
+      every line still targets exactly one ledger
+
+  3. Functions
+    - `post_journal_entry(...)` - Now also applies lines to loan outstanding balances and ledger accounts
+    - `disburse_loan(loan_id, posted_by)` - Posts an approved loan to the ledger, credits the member's
+      account and generates the monthly repayment schedule
+    - `post_loan_repayment(loan_id, amount, reference, posted_by)` - Debits the member's account,
+      allocates the payment to the oldest unpaid instalments (profit before principal) and closes the
+      loan once nothing is outstanding
+
+  4. Security
+    - Enable RLS on all new tables
+    - Admins can manage loan products and view ledger accounts, loans and instalments; loans are
+      only written through the edge function and the ledger functions above
+
+  5. Permissions
+    - `loan_products:manage` - Manage loan products
+    - `loans:view` - View the loan book
+    - `loans:apply` - Submit loan applications
+    - `loans:approve` - Approve, reject and disburse loans
+    - `loans:repay` - Post loan repayments
+
+  6. Notes
+    - Loans are assets of the cooperative: a debit increases the amount owed, a credit reduces it.
+    - A Murabaha loan is booked at its sale price. The markup is held in the deferred Murabaha profit
+      ledger at disbursement and recognised as income as repayments are collected.
+    - An instalment is in arrears when its due date has passed and it is not fully paid.
+*/
+
+CREATE TABLE IF NOT EXISTS public.ledger_accounts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text UNIQUE NOT NULL CHECK (code ~ '^[a-z0-9_]+$'),
+  name text NOT NULL,
+  category text NOT NULL CHECK (category IN ('asset', 'liability', 'equity', 'income', 'expense')),
+  balance decimal(14,2) NOT NULL DEFAULT 0.00,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.loan_products (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text UNIQUE NOT NULL,
+  product_type text NOT NULL CHECK (product_type IN ('qard_hasan', 'murabaha')),
+  description text,
+  profit_rate decimal(5,2) NOT NULL DEFAULT 0.00 CHECK (profit_rate >= 0 AND profit_rate <= 100),
+  min_amount decimal(14,2) NOT NULL CHECK (min_amount > 0),
+  max_amount decimal(14,2) NOT NULL,
+  min_term_months integer NOT NULL CHECK (min_term_months >= 1),
+  max_term_months integer NOT NULL CHECK (max_term_months <= 360),
+  is_active boolean DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT loan_products_amount_range CHECK (max_amount >= min_amount),
+  CONSTRAINT loan_products_term_range CHECK (max_term_months >= min_term_months),
+  CONSTRAINT loan_products_profit_rate CHECK (
+    (product_type = 'qard_hasan' AND profit_rate = 0) OR (product_type = 'murabaha' AND profit_rate > 0)
+  )
+);
+
+CREATE SEQUENCE IF NOT EXISTS loan_number_seq START 1;
+
+CREATE TABLE IF NOT EXISTS public.loans (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  loan_number text UNIQUE NOT NULL DEFAULT 'LN' || lpad(nextval('loan_number_seq')::text, 6, '0'),
+  member_id uuid NOT NULL REFERENCES public.members(id) ON DELETE RESTRICT,
+  customer_account_id uuid NOT NULL REFERENCES public.customer_accounts(id) ON DELETE RESTRICT,
+  loan_product_id uuid NOT NULL REFERENCES public.loan_products(id) ON DELETE RESTRICT,
+  product_type text NOT NULL CHECK (product_type IN ('qard_hasan', 'murabaha')),
+  profit_rate decimal(5,2) NOT NULL DEFAULT 0.00,
+  principal decimal(14,2) NOT NULL CHECK (principal > 0),
+  profit_amount decimal(14,2) NOT NULL DEFAULT 0.00 CHECK (profit_amount >= 0),
+  total_payable decimal(14,2) NOT NULL,
+  term_months integer NOT NULL CHECK (term_months >= 1),
+  purpose text,
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'rejected', 'active', 'closed')),
+  outstanding_balance decimal(14,2) NOT NULL DEFAULT 0.00 CHECK (outstanding_balance >= 0),
+  rejection_reason text,
+  applied_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  applied_at timestamptz NOT NULL DEFAULT now(),
+  reviewed_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  reviewed_at timestamptz,
+  disbursed_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  disbursed_at timestamptz,
+  disbursement_entry_id uuid REFERENCES public.journal_entries(id) ON DELETE RESTRICT,
+  closed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT loans_total_payable CHECK (total_payable = principal + profit_amount),
+  CONSTRAINT loans_qard_hasan_no_profit CHECK (product_type <> 'qard_hasan' OR profit_amount = 0),
+  CONSTRAINT loans_rejection_reason CHECK (status <> 'rejected' OR rejection_reason IS NOT NULL)
+);
+
+CREATE TABLE IF NOT EXISTS public.loan_instalments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  loan_id uuid NOT NULL REFERENCES public.loans(id) ON DELETE CASCADE,
+  instalment_number integer NOT NULL CHECK (instalment_number >= 1),
+  due_date date NOT NULL,
+  principal_due decimal(14,2) NOT NULL CHECK (principal_due >= 0),
+  profit_due decimal(14,2) NOT NULL DEFAULT 0.00 CHECK (profit_due >= 0),
+  amount_due decimal(14,2) NOT NULL,
+  principal_paid decimal(14,2) NOT NULL DEFAULT 0.00 CHECK (principal_paid >= 0 AND principal_paid <= principal_due),
+  profit_paid decimal(14,2) NOT NULL DEFAULT 0.00 CHECK (profit_paid >= 0 AND profit_paid <= profit_due),
+  paid_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT loan_instalments_amount_due CHECK (amount_due = principal_due + profit_due),
+  UNIQUE (loan_id, instalment_number)
+);
+
+-- Loan postings in the ledger
+ALTER TABLE public.journal_entries DROP CONSTRAINT IF EXISTS journal_entries_entry_type_check;
+ALTER TABLE public.journal_entries ADD CONSTRAINT journal_entries_entry_type_check
+  CHECK (entry_type IN ('deposit', 'withdrawal', 'transfer', 'loan_disbursement', 'loan_repayment'));
+
+ALTER TABLE public.journal_lines
+  ADD COLUMN IF NOT EXISTS loan_id uuid REFERENCES public.loans(id) ON DELETE RESTRICT,
+  ADD COLUMN IF NOT EXISTS ledger_account_id uuid REFERENCES public.ledger_accounts(id) ON DELETE RESTRICT;
+
+ALTER TABLE public.journal_lines DROP CONSTRAINT IF EXISTS journal_lines_single_ledger;
+ALTER TABLE public.journal_lines ADD CONSTRAINT journal_lines_single_ledger
+  CHECK (num_nonnulls(customer_account_id, bank_account_id, loan_id, ledger_account_id) = 1);
+
+COMMENT ON COLUMN public.journal_lines.balance_after IS 'Customer account balance or loan outstanding balance after this line was applied';
+
+-- Enable Row Level Security
+ALTER TABLE public.ledger_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.loan_products ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.loans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.loan_instalments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view ledger accounts"
+  ON public.ledger_accounts
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_roles ur
+      JOIN roles r ON ur.role_id = r.id
+      WHERE ur.user_id = auth.uid() AND r.name = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can manage loan products"
+  ON public.loan_products
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_roles ur
+      JOIN roles r ON ur.role_id = r.id
+      WHERE ur.user_id = auth.uid() AND r.name = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM user_roles ur
+      JOIN roles r ON ur.role_id = r.id
+      WHERE ur.user_id = auth.uid() AND r.name = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can view loans"
+  ON public.loans
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_roles ur
+      JOIN roles r ON ur.role_id = r.id
+      WHERE ur.user_id = auth.uid() AND r.name = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can view loan instalments"
+  ON public.loan_instalments
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_roles ur
+      JOIN roles r ON ur.role_id = r.id
+      WHERE ur.user_id = auth.uid() AND r.name = 'admin'
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_loans_member_id ON public.loans(member_id);
+CREATE INDEX IF NOT EXISTS idx_loans_customer_account_id ON public.loans(customer_account_id);
+CREATE INDEX IF NOT EXISTS idx_loans_status ON public.loans(status);
+CREATE INDEX IF NOT EXISTS idx_loan_instalments_loan_id ON public.loan_instalments(loan_id);
+CREATE INDEX IF NOT EXISTS idx_loan_instalments_due_date ON public.loan_instalments(due_date);
+CREATE INDEX IF NOT EXISTS idx_journal_lines_loan_id ON public.journal_lines(loan_id);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.triggers
+    WHERE trigger_name = 'update_ledger_accounts_updated_at'
+  ) THEN
+    CREATE TRIGGER update_ledger_accounts_updated_at
+      BEFORE UPDATE ON public.ledger_accounts
+      FOR EACH ROW
+      EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.triggers
+    WHERE trigger_name = 'update_loan_products_updated_at'
+  ) THEN
+    CREATE TRIGGER update_loan_products_updated_at
+      BEFORE UPDATE ON public.loan_products
+      FOR EACH ROW
+      EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.triggers
+    WHERE trigger_name = 'update_loans_updated_at'
+  ) THEN
+    CREATE TRIGGER update_loans_updated_at
+      BEFORE UPDATE ON public.loans
+      FOR EACH ROW
+      EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.triggers
+    WHERE trigger_name = 'update_loan_instalments_updated_at'
+  ) THEN
+    CREATE TRIGGER update_loan_instalments_updated_at
+      BEFORE UPDATE ON public.loan_instalments
+      FOR EACH ROW
+      EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+-- Internal ledgers used by Murabaha financing
+INSERT INTO public.ledger_accounts (code, name, category) VALUES
+  ('deferred_murabaha_profit', 'Deferred Murabaha profit', 'liability'),
+  ('murabaha_profit_income', 'Murabaha profit income', 'income')
+ON CONFLICT (code) DO NOTHING;
+
+-- Post a balanced journal entry. p_lines is a JSON array of
+-- { customer_account_id | bank_account_id | loan_id | ledger_account_id, debit, credit } objects.
+CREATE OR REPLACE FUNCTION public.post_journal_entry(
+  p_entry_type text,
+  p_amount numeric,
+  p_description text,
+  p_reference text,
+  p_posted_by uuid,
+  p_lines jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_entry_id uuid;
+  v_line jsonb;
+  v_total_debit numeric := 0;
+  v_total_credit numeric := 0;
+  v_debit numeric;
+  v_credit numeric;
+  v_account record;
+  v_loan record;
+  v_ledger record;
+  v_balance numeric;
+BEGIN
+  IF p_lines IS NULL OR jsonb_typeof(p_lines) <> 'array' OR jsonb_array_length(p_lines) < 2 THEN
+    RAISE EXCEPTION 'A journal entry needs at least two lines';
+  END IF;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+    v_total_debit := v_total_debit + COALESCE((v_line->>'debit')::numeric, 0);
+    v_total_credit := v_total_credit + COALESCE((v_line->>'credit')::numeric, 0);
+  END LOOP;
+
+  IF v_total_debit <> v_total_credit THEN
+    RAISE EXCEPTION 'Journal entry is not balanced: debits % do not equal credits %', v_total_debit, v_total_credit;
+  END IF;
+
+  INSERT INTO public.journal_entries (entry_type, amount, description, reference, posted_by)
+  VALUES (p_entry_type, p_amount, NULLIF(trim(p_description), ''), NULLIF(trim(p_reference), ''), p_posted_by)
+  RETURNING id INTO v_entry_id;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+    v_debit := COALESCE((v_line->>'debit')::numeric, 0);
+    v_credit := COALESCE((v_line->>'credit')::numeric, 0);
+    v_balance := NULL;
+
+    IF v_line->>'customer_account_id' IS NOT NULL THEN
+      SELECT id, account_number, status, balance INTO v_account
+      FROM public.customer_accounts
+      WHERE id = (v_line->>'customer_account_id')::uuid
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Customer account not found';
+      END IF;
+
+      IF v_account.status <> 'active' THEN
+        RAISE EXCEPTION 'Account % is % and cannot be posted to', v_account.account_number, v_account.status;
+      END IF;
+
+      v_balance := v_account.balance + v_credit - v_debit;
+
+      IF v_balance < 0 THEN
+        RAISE EXCEPTION 'Insufficient funds in account %', v_account.account_number;
+      END IF;
+
+      UPDATE public.customer_accounts
+      SET balance = v_balance
+      WHERE id = v_account.id;
+    END IF;
+
+    IF v_line->>'loan_id' IS NOT NULL THEN
+      SELECT id, loan_number, status, outstanding_balance INTO v_loan
+      FROM public.loans
+      WHERE id = (v_line->>'loan_id')::uuid
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Loan not found';
+      END IF;
+
+      IF v_loan.status NOT IN ('approved', 'active') THEN
+        RAISE EXCEPTION 'Loan % is % and cannot be posted to', v_loan.loan_number, v_loan.status;
+      END IF;
+
+      v_balance := v_loan.outstanding_balance + v_debit - v_credit;
+
+      IF v_balance < 0 THEN
+        RAISE EXCEPTION 'Payment exceeds the outstanding balance of loan %', v_loan.loan_number;
+      END IF;
+
+      UPDATE public.loans
+      SET outstanding_balance = v_balance
+      WHERE id = v_loan.id;
+    END IF;
+
+    IF v_line->>'ledger_account_id' IS NOT NULL THEN
+      SELECT id, category INTO v_ledger
+      FROM public.ledger_accounts
+      WHERE id = (v_line->>'ledger_account_id')::uuid
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Ledger account not found';
+      END IF;
+
+      -- Assets and expenses grow with debits; liabilities, equity and income with credits
+      UPDATE public.ledger_accounts
+      SET balance = balance + CASE WHEN v_ledger.category IN ('asset', 'expense') THEN v_debit - v_credit ELSE v_credit - v_debit END
+      WHERE id = v_ledger.id;
+    END IF;
+
+    INSERT INTO public.journal_lines (journal_entry_id, customer_account_id, bank_account_id, loan_id, ledger_account_id, debit, credit, balance_after)
+    VALUES (
+      v_entry_id,
+      (v_line->>'customer_account_id')::uuid,
+      (v_line->>'bank_account_id')::uuid,
+      (v_line->>'loan_id')::uuid,
+      (v_line->>'ledger_account_id')::uuid,
+      v_debit,
+      v_credit,
+      v_balance
+    );
+  END LOOP;
+
+  RETURN v_entry_id;
+END;
+$$;
+
+-- Book an approved loan, credit the borrower's account and generate equal monthly instalments.
+-- Rounding differences are carried by the final instalment.
+CREATE OR REPLACE FUNCTION public.disburse_loan(
+  p_loan_id uuid,
+  p_posted_by uuid
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_loan record;
+  v_entry_id uuid;
+  v_lines jsonb;
+  v_principal_step numeric;
+  v_profit_step numeric;
+  v_principal numeric;
+  v_profit numeric;
+  i integer;
+BEGIN
+  SELECT * INTO v_loan
+  FROM public.loans
+  WHERE id = p_loan_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Loan not found';
+  END IF;
+
+  IF v_loan.status <> 'approved' THEN
+    RAISE EXCEPTION 'Only approved loans can be disbursed; loan % is %', v_loan.loan_number, v_loan.status;
+  END IF;
+
+  v_lines := jsonb_build_array(
+    jsonb_build_object('loan_id', v_loan.id, 'debit', v_loan.total_payable, 'credit', 0),
+    jsonb_build_object('customer_account_id', v_loan.customer_account_id, 'debit', 0, 'credit', v_loan.principal)
+  );
+
+  IF v_loan.profit_amount > 0 THEN
+    v_lines := v_lines || jsonb_build_array(jsonb_build_object(
+      'ledger_account_id', (SELECT id FROM public.ledger_accounts WHERE code = 'deferred_murabaha_profit'),
+      'debit', 0,
+      'credit', v_loan.profit_amount
+    ));
+  END IF;
+
+  v_entry_id := public.post_journal_entry(
+    'loan_disbursement',
+    v_loan.principal,
+    'Disbursement of loan ' || v_loan.loan_number,
+    v_loan.loan_number,
+    p_posted_by,
+    v_lines
+  );
+
+  v_principal_step := round(v_loan.principal / v_loan.term_months, 2);
+  v_profit_step := round(v_loan.profit_amount / v_loan.term_months, 2);
+
+  FOR i IN 1..v_loan.term_months LOOP
+    IF i = v_loan.term_months THEN
+      v_principal := v_loan.principal - v_principal_step * (v_loan.term_months - 1);
+      v_profit := v_loan.profit_amount - v_profit_step * (v_loan.term_months - 1);
+    ELSE
+      v_principal := v_principal_step;
+      v_profit := v_profit_step;
+    END IF;
+
+    INSERT INTO public.loan_instalments (loan_id, instalment_number, due_date, principal_due, profit_due, amount_due)
+    VALUES (
+      v_loan.id,
+      i,
+      (current_date + make_interval(months => i))::date,
+      v_principal,
+      v_profit,
+      v_principal + v_profit
+    );
+  END LOOP;
+
+  UPDATE public.loans
+  SET status = 'active',
+      disbursed_by = p_posted_by,
+      disbursed_at = now(),
+      disbursement_entry_id = v_entry_id
+  WHERE id = v_loan.id;
+
+  RETURN v_entry_id;
+END;
+$$;
+
+-- Collect a repayment from the borrower's account. The amount is applied to the oldest unpaid
+-- instalments, profit before principal, and the collected profit is recognised as income.
+CREATE OR REPLACE FUNCTION public.post_loan_repayment(
+  p_loan_id uuid,
+  p_amount numeric,
+  p_reference text,
+  p_posted_by uuid
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_loan record;
+  v_instalment record;
+  v_remaining numeric := p_amount;
+  v_profit_part numeric := 0;
+  v_profit_pay numeric;
+  v_principal_pay numeric;
+  v_lines jsonb;
+  v_entry_id uuid;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Repayment amount must be positive';
+  END IF;
+
+  SELECT * INTO v_loan
+  FROM public.loans
+  WHERE id = p_loan_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Loan not found';
+  END IF;
+
+  IF v_loan.status <> 'active' THEN
+    RAISE EXCEPTION 'Repayments can only be posted to active loans; loan % is %', v_loan.loan_number, v_loan.status;
+  END IF;
+
+  IF p_amount > v_loan.outstanding_balance THEN
+    RAISE EXCEPTION 'Repayment of % exceeds the outstanding balance of %', p_amount, v_loan.outstanding_balance;
+  END IF;
+
+  FOR v_instalment IN
+    SELECT * FROM public.loan_instalments
+    WHERE loan_id = v_loan.id AND principal_paid + profit_paid < amount_due
+    ORDER BY instalment_number
+    FOR UPDATE
+  LOOP
+    EXIT WHEN v_remaining <= 0;
+
+    v_profit_pay := LEAST(v_remaining, v_instalment.profit_due - v_instalment.profit_paid);
+    v_remaining := v_remaining - v_profit_pay;
+    v_principal_pay := LEAST(v_remaining, v_instalment.principal_due - v_instalment.principal_paid);
+    v_remaining := v_remaining - v_principal_pay;
+    v_profit_part := v_profit_part + v_profit_pay;
+
+    UPDATE public.loan_instalments
+    SET profit_paid = profit_paid + v_profit_pay,
+        principal_paid = principal_paid + v_principal_pay,
+        paid_at = CASE
+          WHEN principal_paid + profit_paid + v_profit_pay + v_principal_pay >= amount_due THEN now()
+          ELSE paid_at
+        END
+    WHERE id = v_instalment.id;
+  END LOOP;
+
+  v_lines := jsonb_build_array(
+    jsonb_build_object('customer_account_id', v_loan.customer_account_id, 'debit', p_amount, 'credit', 0),
+    jsonb_build_object('loan_id', v_loan.id, 'debit', 0, 'credit', p_amount)
+  );
+
+  IF v_profit_part > 0 THEN
+    v_lines := v_lines || jsonb_build_array(
+      jsonb_build_object(
+        'ledger_account_id', (SELECT id FROM public.ledger_accounts WHERE code = 'deferred_murabaha_profit'),
+        'debit', v_profit_part,
+        'credit', 0
+      ),
+      jsonb_build_object(
+        'ledger_account_id', (SELECT id FROM public.ledger_accounts WHERE code = 'murabaha_profit_income'),
+        'debit', 0,
+        'credit', v_profit_part
+      )
+    );
+  END IF;
+
+  v_entry_id := public.post_journal_entry(
+    'loan_repayment',
+    p_amount,
+    'Repayment of loan ' || v_loan.loan_number,
+    p_reference,
+    p_posted_by,
+    v_lines
+  );
+
+  IF v_loan.outstanding_balance - p_amount = 0 THEN
+    UPDATE public.loans
+    SET status = 'closed',
+        closed_at = now()
+    WHERE id = v_loan.id;
+  END IF;
+
+  RETURN v_entry_id;
+END;
+$$;
+
+-- Only the service role (edge functions) may post to the ledger
+REVOKE EXECUTE ON FUNCTION public.post_journal_entry(text, numeric, text, text, uuid, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.disburse_loan(uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.post_loan_repayment(uuid, numeric, text, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Loan permissions
+INSERT INTO permissions (resource, action, description) VALUES
+  ('loan_products', 'manage', 'Manage Qard Hasan and Murabaha loan products'),
+  ('loans', 'view', 'View the loan book'),
+  ('loans', 'apply', 'Submit loan applications for members'),
+  ('loans', 'approve', 'Approve, reject and disburse loans'),
+  ('loans', 'repay', 'Post loan repayments')
+ON CONFLICT (resource, action) DO NOTHING;
+
+INSERT INTO role_permissions (role_id, permission_id)
+SELECT r.id, p.id
+FROM roles r
+JOIN permissions p ON p.resource IN ('loan_products', 'loans')
+WHERE r.name = 'admin'
+ON CONFLICT (role_id, permission_id) DO NOTHING;
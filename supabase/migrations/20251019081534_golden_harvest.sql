@@ -0,0 +1,322 @@
+/*
+  # Create profit-sharing dividend distribution runs
+
+  1. New Tables
+    - `dividend_runs`
+      - `id` (uuid, primary key)
+      - `run_number` (text, unique) - Sequential reference, e.g. DV000001
+      - `name` (text) - Label shown to staff, e.g. "FY2025 profit distribution"
+      - `period_start`, `period_end` (date) - Inclusive period whose balances are averaged
+      - `profit_pool` (decimal) - Declared profit to distribute in MUR
+      - `status` (text) - 'draft', 'approved', 'posted' or 'cancelled'
+      - `account_count` (integer) - Number of accounts sharing in the run
+      - `total_average_balance` (decimal) - Sum of the average daily balances of those accounts
+      - `calculated_at` (timestamp) - When the allocations were last computed
+      - `notes` (text, optional)
+      - `created_by`, `approved_by`, `posted_by`, `cancelled_by` (uuid, foreign keys to users)
+      - `approved_at`, `posted_at`, `cancelled_at` (timestamp)
+      - `journal_entry_id` (uuid, foreign key to journal_entries) - Posting of the run
+      - `created_at`, `updated_at` (timestamp)
+    - `dividend_allocations`
+      - `id` (uuid, primary key)
+      - `dividend_run_id` (uuid, foreign key to dividend_runs)
+      - `customer_account_id` (uuid, foreign key to customer_accounts)
+      - `member_id` (uuid, foreign key to members)
+      - `average_daily_balance` (decimal) - Weighted average daily balance over the period
+      - `share` (decimal) - Fraction of the pool, average_daily_balance / total_average_balance
+      - `amount` (decimal) - Dividend credited to the account
+      - `created_at` (timestamp)
+
+  2. Changes
+    - `journal_entries.entry_type` also accepts 'dividend'
+
+  3. Functions
+    - `calculate_dividend_run(run_id)` - Recomputes the allocations of a draft run from the ledger
+    - `post_dividend_run(run_id, posted_by)` - Credits the allocations of an approved run to the member
+      accounts in a single journal entry
+
+  4. Security
+    - Enable RLS on both tables
+    - Admins can view runs and allocations; they are only written through the edge function and
+      the functions above
+
+  5. Permissions
+    - `dividends:view` - View dividend runs and their breakdown
+    - `dividends:manage` - Create, recalculate and cancel draft runs
+    - `dividends:approve` - Approve and post dividend runs
+
+  6. Notes
+    - Only active accounts whose account type is dividend eligible share in a run.
+    - The balance of an account at the end of each day is the balance after the last ledger line
+      posted on or before that day; the average divides the sum of those balances by the number of
+      days in the period, so money held for longer earns a larger share.
+    - Shares are rounded down to the cent and the leftover cents go to the largest holder so the
+      allocations always add up to the declared pool.
+    - The posting debits the "Profit distributed to members" expense ledger.
+*/
+
+CREATE SEQUENCE IF NOT EXISTS dividend_run_number_seq START 1;
+
+CREATE TABLE IF NOT EXISTS public.dividend_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_number text UNIQUE NOT NULL DEFAULT 'DV' || lpad(nextval('dividend_run_number_seq')::text, 6, '0'),
+  name text NOT NULL,
+  period_start date NOT NULL,
+  period_end date NOT NULL,
+  profit_pool decimal(14,2) NOT NULL CHECK (profit_pool > 0),
+  status text NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'approved', 'posted', 'cancelled')),
+  account_count integer NOT NULL DEFAULT 0,
+  total_average_balance decimal(16,2) NOT NULL DEFAULT 0.00,
+  calculated_at timestamptz,
+  notes text,
+  created_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  approved_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  approved_at timestamptz,
+  posted_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  posted_at timestamptz,
+  cancelled_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  cancelled_at timestamptz,
+  journal_entry_id uuid REFERENCES public.journal_entries(id) ON DELETE RESTRICT,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT dividend_runs_period CHECK (period_end >= period_start)
+);
+
+CREATE TABLE IF NOT EXISTS public.dividend_allocations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  dividend_run_id uuid NOT NULL REFERENCES public.dividend_runs(id) ON DELETE CASCADE,
+  customer_account_id uuid NOT NULL REFERENCES public.customer_accounts(id) ON DELETE RESTRICT,
+  member_id uuid NOT NULL REFERENCES public.members(id) ON DELETE RESTRICT,
+  average_daily_balance decimal(14,2) NOT NULL CHECK (average_daily_balance > 0),
+  share decimal(12,10) NOT NULL CHECK (share >= 0 AND share <= 1),
+  amount decimal(14,2) NOT NULL CHECK (amount >= 0),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (dividend_run_id, customer_account_id)
+);
+
+-- Dividend postings in the ledger
+ALTER TABLE public.journal_entries DROP CONSTRAINT IF EXISTS journal_entries_entry_type_check;
+ALTER TABLE public.journal_entries ADD CONSTRAINT journal_entries_entry_type_check
+  CHECK (entry_type IN ('deposit', 'withdrawal', 'transfer', 'loan_disbursement', 'loan_repayment', 'dividend'));
+
+-- Enable Row Level Security
+ALTER TABLE public.dividend_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.dividend_allocations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view dividend runs"
+  ON public.dividend_runs
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_roles ur
+      JOIN roles r ON ur.role_id = r.id
+      WHERE ur.user_id = auth.uid() AND r.name = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can view dividend allocations"
+  ON public.dividend_allocations
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_roles ur
+      JOIN roles r ON ur.role_id = r.id
+      WHERE ur.user_id = auth.uid() AND r.name = 'admin'
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_dividend_runs_status ON public.dividend_runs(status);
+CREATE INDEX IF NOT EXISTS idx_dividend_allocations_run_id ON public.dividend_allocations(dividend_run_id);
+CREATE INDEX IF NOT EXISTS idx_dividend_allocations_customer_account_id ON public.dividend_allocations(customer_account_id);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.triggers
+    WHERE trigger_name = 'update_dividend_runs_updated_at'
+  ) THEN
+    CREATE TRIGGER update_dividend_runs_updated_at
+      BEFORE UPDATE ON public.dividend_runs
+      FOR EACH ROW
+      EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+-- Internal ledger the distributed profit is charged to
+INSERT INTO public.ledger_accounts (code, name, category) VALUES
+  ('profit_distributed', 'Profit distributed to members', 'expense')
+ON CONFLICT (code) DO NOTHING;
+
+-- Recompute the allocations of a draft run from the customer account balances in the ledger
+CREATE OR REPLACE FUNCTION public.calculate_dividend_run(
+  p_run_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_run record;
+  v_days integer;
+  v_total numeric;
+  v_count integer;
+  v_leftover numeric;
+BEGIN
+  SELECT * INTO v_run
+  FROM public.dividend_runs
+  WHERE id = p_run_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Dividend run not found';
+  END IF;
+
+  IF v_run.status <> 'draft' THEN
+    RAISE EXCEPTION 'Only draft runs can be recalculated; run % is %', v_run.run_number, v_run.status;
+  END IF;
+
+  DELETE FROM public.dividend_allocations WHERE dividend_run_id = v_run.id;
+
+  v_days := v_run.period_end - v_run.period_start + 1;
+
+  INSERT INTO public.dividend_allocations (dividend_run_id, customer_account_id, member_id, average_daily_balance, share, amount)
+  SELECT v_run.id, averages.customer_account_id, averages.member_id, averages.average_daily_balance, 1, 0
+  FROM (
+    SELECT
+      ca.id AS customer_account_id,
+      ca.member_id,
+      round(sum(COALESCE(closing.balance_after, 0)) / v_days, 2) AS average_daily_balance
+    FROM public.customer_accounts ca
+    JOIN public.account_types t ON t.id = ca.account_type_id
+    CROSS JOIN generate_series(v_run.period_start, v_run.period_end, interval '1 day') AS d(day)
+    LEFT JOIN LATERAL (
+      SELECT jl.balance_after
+      FROM public.journal_lines jl
+      JOIN public.journal_entries je ON je.id = jl.journal_entry_id
+      WHERE jl.customer_account_id = ca.id
+        AND je.posted_at < d.day::date + 1
+      ORDER BY je.posted_at DESC, je.entry_number DESC
+      LIMIT 1
+    ) closing ON true
+    WHERE t.is_dividend_eligible = true
+      AND ca.status = 'active'
+    GROUP BY ca.id, ca.member_id
+  ) averages
+  WHERE averages.average_daily_balance > 0;
+
+  SELECT COALESCE(sum(average_daily_balance), 0), count(*) INTO v_total, v_count
+  FROM public.dividend_allocations
+  WHERE dividend_run_id = v_run.id;
+
+  IF v_count = 0 THEN
+    RAISE EXCEPTION 'No dividend-eligible account held a balance between % and %', v_run.period_start, v_run.period_end;
+  END IF;
+
+  UPDATE public.dividend_allocations
+  SET share = average_daily_balance / v_total,
+      amount = trunc(v_run.profit_pool * average_daily_balance / v_total, 2)
+  WHERE dividend_run_id = v_run.id;
+
+  SELECT v_run.profit_pool - sum(amount) INTO v_leftover
+  FROM public.dividend_allocations
+  WHERE dividend_run_id = v_run.id;
+
+  IF v_leftover > 0 THEN
+    UPDATE public.dividend_allocations
+    SET amount = amount + v_leftover
+    WHERE id = (
+      SELECT id FROM public.dividend_allocations
+      WHERE dividend_run_id = v_run.id
+      ORDER BY average_daily_balance DESC, created_at
+      LIMIT 1
+    );
+  END IF;
+
+  UPDATE public.dividend_runs
+  SET account_count = v_count,
+      total_average_balance = v_total,
+      calculated_at = now()
+  WHERE id = v_run.id;
+END;
+$$;
+
+-- Credit every allocation of an approved run in one journal entry
+CREATE OR REPLACE FUNCTION public.post_dividend_run(
+  p_run_id uuid,
+  p_posted_by uuid
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_run record;
+  v_lines jsonb;
+  v_entry_id uuid;
+BEGIN
+  SELECT * INTO v_run
+  FROM public.dividend_runs
+  WHERE id = p_run_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Dividend run not found';
+  END IF;
+
+  IF v_run.status <> 'approved' THEN
+    RAISE EXCEPTION 'Only approved runs can be posted; run % is %', v_run.run_number, v_run.status;
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object('customer_account_id', customer_account_id, 'debit', 0, 'credit', amount))
+  INTO v_lines
+  FROM public.dividend_allocations
+  WHERE dividend_run_id = v_run.id AND amount > 0;
+
+  IF v_lines IS NULL THEN
+    RAISE EXCEPTION 'Run % has no allocations to post', v_run.run_number;
+  END IF;
+
+  v_lines := jsonb_build_array(jsonb_build_object(
+    'ledger_account_id', (SELECT id FROM public.ledger_accounts WHERE code = 'profit_distributed'),
+    'debit', v_run.profit_pool,
+    'credit', 0
+  )) || v_lines;
+
+  v_entry_id := public.post_journal_entry(
+    'dividend',
+    v_run.profit_pool,
+    v_run.name,
+    v_run.run_number,
+    p_posted_by,
+    v_lines
+  );
+
+  UPDATE public.dividend_runs
+  SET status = 'posted',
+      posted_by = p_posted_by,
+      posted_at = now(),
+      journal_entry_id = v_entry_id
+  WHERE id = v_run.id;
+
+  RETURN v_entry_id;
+END;
+$$;
+
+-- Only the service role (edge functions) may post to the ledger
+REVOKE EXECUTE ON FUNCTION public.calculate_dividend_run(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.post_dividend_run(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Dividend permissions
+INSERT INTO permissions (resource, action, description) VALUES
+  ('dividends', 'view', 'View dividend runs and their breakdown'),
+  ('dividends', 'manage', 'Create, recalculate and cancel dividend runs'),
+  ('dividends', 'approve', 'Approve and post dividend runs')
+ON CONFLICT (resource, action) DO NOTHING;
+
+INSERT INTO role_permissions (role_id, permission_id)
+SELECT r.id, p.id
+FROM roles r
+JOIN permissions p ON p.resource = 'dividends'
+WHERE r.name = 'admin'
+ON CONFLICT (role_id, permission_id) DO NOTHING;
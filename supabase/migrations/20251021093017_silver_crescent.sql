@@ -0,0 +1,166 @@
+/*
+  # Create zakat assessment
+
+  1. New Tables
+    - `zakat_nisab_rates`
+      - `id` (uuid, primary key)
+      - `effective_date` (date, unique) - Date from which the prices apply
+      - `basis` (text) - 'gold' (85 g) or 'silver' (595 g), the metal the nisab is measured against
+      - `gold_price_per_gram`, `silver_price_per_gram` (decimal) - Market prices in MUR entered by admins
+      - `nisab_value` (decimal, generated) - Nisab threshold in MUR on the chosen basis
+      - `notes` (text, optional) - Source of the prices
+      - `created_by` (uuid, foreign key to users)
+      - `created_at` (timestamp)
+
+  2. Functions
+    - `assess_zakat(as_of, nisab, hawl_days, rate, member_id)` - Zakat position of every member (or one
+      member) on a date, from the customer account balances in the ledger
+    - `member_account_balances_on(member_id, as_of)` - Balance of each account of a member at the end of a day
+
+  3. Security
+    - Enable RLS on `zakat_nisab_rates`
+    - Admins can view nisab rates; they are only written through the edge function
+
+  4. Permissions
+    - `zakat:view` - View zakat reports and member statements
+    - `zakat:manage` - Record nisab gold and silver prices
+
+  5. Notes
+    - A member's wealth is the sum of the end-of-day balances of all their accounts.
+    - Zakat is due when that wealth has stayed at or above the nisab for a full hawl (lunar year)
+      ending on the assessment date, and is charged on the balance held on that date.
+    - When the wealth dipped below the nisab during the hawl, the hawl restarts on the day after the
+      last dip and no zakat is due yet.
+    - Debts such as outstanding loans are not deducted; members settle those individually.
+*/
+
+CREATE TABLE IF NOT EXISTS public.zakat_nisab_rates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  effective_date date UNIQUE NOT NULL,
+  basis text NOT NULL DEFAULT 'silver' CHECK (basis IN ('gold', 'silver')),
+  gold_price_per_gram decimal(12,2) NOT NULL CHECK (gold_price_per_gram > 0),
+  silver_price_per_gram decimal(12,2) NOT NULL CHECK (silver_price_per_gram > 0),
+  nisab_value decimal(14,2) GENERATED ALWAYS AS (
+    CASE WHEN basis = 'gold' THEN round(gold_price_per_gram * 85, 2) ELSE round(silver_price_per_gram * 595, 2) END
+  ) STORED,
+  notes text,
+  created_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.zakat_nisab_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view nisab rates"
+  ON public.zakat_nisab_rates
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_roles ur
+      JOIN roles r ON ur.role_id = r.id
+      WHERE ur.user_id = auth.uid() AND r.name = 'admin'
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_zakat_nisab_rates_effective_date ON public.zakat_nisab_rates(effective_date DESC);
+
+-- Zakat position of each member on p_as_of. The hawl covers the p_hawl_days days before p_as_of.
+CREATE OR REPLACE FUNCTION public.assess_zakat(
+  p_as_of date,
+  p_nisab numeric,
+  p_hawl_days integer,
+  p_rate numeric,
+  p_member_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  member_id uuid,
+  balance numeric,
+  lowest_balance numeric,
+  hawl_start date,
+  hawl_complete boolean,
+  zakat_due numeric
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH daily AS (
+    SELECT ca.member_id, d.on_day, sum(COALESCE(closing.balance_after, 0)) AS total
+    FROM public.customer_accounts ca
+    CROSS JOIN generate_series(p_as_of - p_hawl_days, p_as_of, interval '1 day') AS d(on_day)
+    LEFT JOIN LATERAL (
+      SELECT jl.balance_after
+      FROM public.journal_lines jl
+      JOIN public.journal_entries je ON je.id = jl.journal_entry_id
+      WHERE jl.customer_account_id = ca.id
+        AND je.posted_at < d.on_day::date + 1
+      ORDER BY je.posted_at DESC, je.entry_number DESC
+      LIMIT 1
+    ) closing ON true
+    WHERE p_member_id IS NULL OR ca.member_id = p_member_id
+    GROUP BY ca.member_id, d.on_day
+  ),
+  summary AS (
+    SELECT
+      daily.member_id,
+      max(daily.total) FILTER (WHERE daily.on_day::date = p_as_of) AS balance,
+      min(daily.total) AS lowest_balance,
+      max(daily.on_day::date) FILTER (WHERE daily.total < p_nisab) AS last_below_nisab
+    FROM daily
+    GROUP BY daily.member_id
+  )
+  SELECT
+    s.member_id,
+    s.balance,
+    s.lowest_balance,
+    CASE
+      WHEN s.balance < p_nisab THEN NULL
+      WHEN s.last_below_nisab IS NULL THEN p_as_of - p_hawl_days
+      ELSE s.last_below_nisab + 1
+    END,
+    s.last_below_nisab IS NULL,
+    CASE WHEN s.last_below_nisab IS NULL THEN round(s.balance * p_rate, 2) ELSE 0 END
+  FROM summary s;
+$$;
+
+-- End-of-day balance of each account of a member, for statements
+CREATE OR REPLACE FUNCTION public.member_account_balances_on(
+  p_member_id uuid,
+  p_as_of date
+)
+RETURNS TABLE (
+  customer_account_id uuid,
+  balance numeric
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT ca.id, COALESCE(closing.balance_after, 0)
+  FROM public.customer_accounts ca
+  LEFT JOIN LATERAL (
+    SELECT jl.balance_after
+    FROM public.journal_lines jl
+    JOIN public.journal_entries je ON je.id = jl.journal_entry_id
+    WHERE jl.customer_account_id = ca.id
+      AND je.posted_at < p_as_of + 1
+    ORDER BY je.posted_at DESC, je.entry_number DESC
+    LIMIT 1
+  ) closing ON true
+  WHERE ca.member_id = p_member_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.assess_zakat(date, numeric, integer, numeric, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.member_account_balances_on(uuid, date) FROM PUBLIC, anon, authenticated;
+
+-- Zakat permissions
+INSERT INTO permissions (resource, action, description) VALUES
+  ('zakat', 'view', 'View zakat reports and member zakat statements'),
+  ('zakat', 'manage', 'Record nisab gold and silver prices')
+ON CONFLICT (resource, action) DO NOTHING;
+
+INSERT INTO role_permissions (role_id, permission_id)
+SELECT r.id, p.id
+FROM roles r
+JOIN permissions p ON p.resource = 'zakat'
+WHERE r.name = 'admin'
+ON CONFLICT (role_id, permission_id) DO NOTHING;
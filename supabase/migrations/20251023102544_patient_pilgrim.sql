@@ -0,0 +1,49 @@
+/*
+  # Add savings goals to customer accounts
+
+  1. Schema Changes
+    - `account_types.has_savings_goal` (boolean) - Accounts of this type save towards a target, e.g. the Hajj Account
+    - `customer_accounts.goal_amount` (decimal, optional) - Target amount in MUR
+    - `customer_accounts.goal_date` (date, optional) - Date by which the target should be reached
+
+  2. Notes
+    - Target amount and date are set together or not at all.
+    - The customer-accounts edge function requires a goal when opening an account of a goal-based type.
+    - Progress, the monthly contribution still needed and the projection from the member's
+      saving rate so far are derived from the balance and dates; nothing is stored.
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'account_types' AND column_name = 'has_savings_goal'
+  ) THEN
+    ALTER TABLE account_types ADD COLUMN has_savings_goal boolean NOT NULL DEFAULT false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'customer_accounts' AND column_name = 'goal_amount'
+  ) THEN
+    ALTER TABLE customer_accounts ADD COLUMN goal_amount decimal(14,2) CHECK (goal_amount > 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'customer_accounts' AND column_name = 'goal_date'
+  ) THEN
+    ALTER TABLE customer_accounts ADD COLUMN goal_date date;
+  END IF;
+END $$;
+
+ALTER TABLE customer_accounts DROP CONSTRAINT IF EXISTS customer_accounts_goal_check;
+ALTER TABLE customer_accounts ADD CONSTRAINT customer_accounts_goal_check
+  CHECK ((goal_amount IS NULL) = (goal_date IS NULL));
+
+-- Existing Hajj accounts become goal-based
+UPDATE account_types SET has_savings_goal = true WHERE name ILIKE '%hajj%';
+
+CREATE INDEX IF NOT EXISTS idx_customer_accounts_goal_date
+ON customer_accounts (goal_date)
+WHERE (goal_date IS NOT NULL);
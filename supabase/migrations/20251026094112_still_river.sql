@@ -0,0 +1,147 @@
+/*
+  # Create bank statement reconciliation
+
+  1. New Tables
+    - `bank_statements`
+      - `id` (uuid, primary key)
+      - `bank_account_id` (uuid, foreign key to bank_accounts)
+      - `format` (text) - 'csv', 'mt940' or 'camt053'
+      - `file_name` (text) - Name of the uploaded file
+      - `file_hash` (text) - SHA-256 of the file, so the same statement cannot be imported twice
+      - `statement_reference` (text, optional) - Statement number given by the bank
+      - `period_start`, `period_end` (date) - First and last value date on the statement
+      - `opening_balance`, `closing_balance` (decimal, optional) - Balances reported by the bank
+      - `line_count` (integer)
+      - `uploaded_by` (uuid, foreign key to users)
+      - `uploaded_at` (timestamp)
+    - `bank_statement_lines`
+      - `id` (uuid, primary key)
+      - `bank_statement_id` (uuid, foreign key to bank_statements)
+      - `bank_account_id` (uuid, foreign key to bank_accounts)
+      - `value_date` (date)
+      - `amount` (decimal) - Positive for money received, negative for money paid out
+      - `description` (text, optional) - Narrative from the bank
+      - `reference` (text, optional) - Bank or end-to-end reference
+      - `journal_line_id` (uuid, foreign key to journal_lines, optional) - Ledger posting the line is matched to
+      - `match_type` (text, optional) - 'auto' or 'manual'
+      - `matched_by` (uuid, foreign key to users, optional)
+      - `matched_at` (timestamp, optional)
+      - `created_at` (timestamp)
+
+  2. Functions
+    - `bank_ledger_balance(bank_account_id, as_of)` - Balance of a bank account in the ledger at the end of a day
+
+  3. Security
+    - Enable RLS on both tables
+    - Admins can view statements and their lines; they are only written through the edge function
+
+  4. Permissions
+    - `reconciliation:view` - View bank statements and reconciliation summaries
+    - `reconciliation:manage` - Import statements and match statement lines to ledger postings
+
+  5. Notes
+    - Bank accounts are assets in the ledger, so money received is a debit: a statement line of
+      +100 matches a journal line with a debit of 100 on the same bank account.
+    - A ledger posting can be matched to at most one statement line.
+    - Deleting a statement removes its lines and releases their matches.
+*/
+
+CREATE TABLE IF NOT EXISTS public.bank_statements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  bank_account_id uuid NOT NULL REFERENCES public.bank_accounts(id) ON DELETE CASCADE,
+  format text NOT NULL CHECK (format IN ('csv', 'mt940', 'camt053')),
+  file_name text NOT NULL,
+  file_hash text NOT NULL,
+  statement_reference text,
+  period_start date NOT NULL,
+  period_end date NOT NULL,
+  opening_balance decimal(14,2),
+  closing_balance decimal(14,2),
+  line_count integer NOT NULL DEFAULT 0,
+  uploaded_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  uploaded_at timestamptz DEFAULT now(),
+  CONSTRAINT bank_statements_period CHECK (period_end >= period_start),
+  CONSTRAINT bank_statements_unique_file UNIQUE (bank_account_id, file_hash)
+);
+
+CREATE TABLE IF NOT EXISTS public.bank_statement_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  bank_statement_id uuid NOT NULL REFERENCES public.bank_statements(id) ON DELETE CASCADE,
+  bank_account_id uuid NOT NULL REFERENCES public.bank_accounts(id) ON DELETE CASCADE,
+  value_date date NOT NULL,
+  amount decimal(14,2) NOT NULL CHECK (amount <> 0),
+  description text,
+  reference text,
+  journal_line_id uuid REFERENCES public.journal_lines(id) ON DELETE SET NULL,
+  match_type text CHECK (match_type IN ('auto', 'manual')),
+  matched_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  matched_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT bank_statement_lines_match CHECK ((journal_line_id IS NULL) = (match_type IS NULL))
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.bank_statements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.bank_statement_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view bank statements"
+  ON public.bank_statements
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_roles ur
+      JOIN roles r ON ur.role_id = r.id
+      WHERE ur.user_id = auth.uid() AND r.name = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can view bank statement lines"
+  ON public.bank_statement_lines
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_roles ur
+      JOIN roles r ON ur.role_id = r.id
+      WHERE ur.user_id = auth.uid() AND r.name = 'admin'
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_bank_statements_bank_account_id ON public.bank_statements(bank_account_id, period_end DESC);
+CREATE INDEX IF NOT EXISTS idx_bank_statement_lines_statement_id ON public.bank_statement_lines(bank_statement_id);
+CREATE INDEX IF NOT EXISTS idx_bank_statement_lines_account_date ON public.bank_statement_lines(bank_account_id, value_date);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bank_statement_lines_journal_line_id
+  ON public.bank_statement_lines(journal_line_id)
+  WHERE (journal_line_id IS NOT NULL);
+
+-- Ledger balance of a bank account at the end of p_as_of; debits are money received
+CREATE OR REPLACE FUNCTION public.bank_ledger_balance(
+  p_bank_account_id uuid,
+  p_as_of date
+)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(sum(jl.debit - jl.credit), 0)
+  FROM public.journal_lines jl
+  JOIN public.journal_entries je ON je.id = jl.journal_entry_id
+  WHERE jl.bank_account_id = p_bank_account_id
+    AND je.posted_at < p_as_of + 1;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.bank_ledger_balance(uuid, date) FROM PUBLIC, anon, authenticated;
+
+-- Reconciliation permissions
+INSERT INTO permissions (resource, action, description) VALUES
+  ('reconciliation', 'view', 'View bank statements and reconciliation summaries'),
+  ('reconciliation', 'manage', 'Import bank statements and match them to ledger postings')
+ON CONFLICT (resource, action) DO NOTHING;
+
+INSERT INTO role_permissions (role_id, permission_id)
+SELECT r.id, p.id
+FROM roles r
+JOIN permissions p ON p.resource = 'reconciliation'
+WHERE r.name = 'admin'
+ON CONFLICT (role_id, permission_id) DO NOTHING;
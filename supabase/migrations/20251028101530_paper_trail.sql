@@ -0,0 +1,112 @@
+/*
+  # Create customer account statements
+
+  1. New Tables
+    - `account_statements`
+      - `id` (uuid, primary key)
+      - `customer_account_id` (uuid, foreign key to customer_accounts)
+      - `period_start`, `period_end` (date) - Inclusive statement period
+      - `opening_balance`, `closing_balance` (decimal) - Account balance before and after the period
+      - `total_credits`, `total_debits` (decimal) - Money paid into and out of the account in the period
+      - `total_fees` (decimal) - Fees charged to the account in the period
+      - `transaction_count` (integer)
+      - `pdf_path`, `csv_path` (text) - Object paths inside the `account-statements` bucket
+      - `generated_by` (uuid, foreign key to users, optional) - Empty for scheduled runs
+      - `generated_at` (timestamp)
+
+  2. Functions
+    - `customer_account_balance_on(customer_account_id, as_of)` - Balance of an account at the end of a day
+
+  3. Storage
+    - Private `account-statements` bucket (PDF and CSV up to 5 MB). Objects are only accessed
+      through the account-statements edge function using signed URLs.
+
+  4. Security
+    - Enable RLS on `account_statements`
+    - Admins can view generated statements; they are only written through the edge function
+
+  5. Permissions
+    - `statements:view` - Download account statements
+    - `statements:generate` - Run the monthly statement batch
+
+  6. Notes
+    - Statements for any date range can be downloaded on demand; the monthly batch stores one
+      statement per active account and calendar month.
+*/
+
+CREATE TABLE IF NOT EXISTS public.account_statements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_account_id uuid NOT NULL REFERENCES public.customer_accounts(id) ON DELETE CASCADE,
+  period_start date NOT NULL,
+  period_end date NOT NULL,
+  opening_balance decimal(14,2) NOT NULL,
+  closing_balance decimal(14,2) NOT NULL,
+  total_credits decimal(14,2) NOT NULL DEFAULT 0.00,
+  total_debits decimal(14,2) NOT NULL DEFAULT 0.00,
+  total_fees decimal(14,2) NOT NULL DEFAULT 0.00,
+  transaction_count integer NOT NULL DEFAULT 0,
+  pdf_path text NOT NULL,
+  csv_path text NOT NULL,
+  generated_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  generated_at timestamptz DEFAULT now(),
+  CONSTRAINT account_statements_period CHECK (period_end >= period_start),
+  CONSTRAINT account_statements_unique_period UNIQUE (customer_account_id, period_start, period_end)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.account_statements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view account statements"
+  ON public.account_statements
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_roles ur
+      JOIN roles r ON ur.role_id = r.id
+      WHERE ur.user_id = auth.uid() AND r.name = 'admin'
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_account_statements_customer_account_id ON public.account_statements(customer_account_id, period_end DESC);
+CREATE INDEX IF NOT EXISTS idx_account_statements_period ON public.account_statements(period_start, period_end);
+
+-- Balance of a customer account at the end of p_as_of
+CREATE OR REPLACE FUNCTION public.customer_account_balance_on(
+  p_customer_account_id uuid,
+  p_as_of date
+)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE((
+    SELECT jl.balance_after
+    FROM public.journal_lines jl
+    JOIN public.journal_entries je ON je.id = jl.journal_entry_id
+    WHERE jl.customer_account_id = p_customer_account_id
+      AND je.posted_at < p_as_of + 1
+    ORDER BY je.posted_at DESC, je.entry_number DESC
+    LIMIT 1
+  ), 0);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.customer_account_balance_on(uuid, date) FROM PUBLIC, anon, authenticated;
+
+-- Private bucket for generated statements
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('account-statements', 'account-statements', false, 5242880, ARRAY['application/pdf', 'text/csv'])
+ON CONFLICT (id) DO NOTHING;
+
+-- Statement permissions
+INSERT INTO permissions (resource, action, description) VALUES
+  ('statements', 'view', 'Download customer account statements'),
+  ('statements', 'generate', 'Run the monthly account statement batch')
+ON CONFLICT (resource, action) DO NOTHING;
+
+INSERT INTO role_permissions (role_id, permission_id)
+SELECT r.id, p.id
+FROM roles r
+JOIN permissions p ON p.resource = 'statements'
+WHERE r.name = 'admin'
+ON CONFLICT (role_id, permission_id) DO NOTHING;
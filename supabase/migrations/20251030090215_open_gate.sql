@@ -0,0 +1,49 @@
+/*
+  # Permission-based authorization in edge functions
+
+  1. Permissions
+    - `users:view` - View the user list with limited details
+    - `bank_accounts:view`, `bank_accounts:manage` - View and maintain bank accounts
+    - `account_types:view`, `account_types:manage` - View and maintain account types
+    - `loan_products:view` - View loan products
+
+  2. Roles
+    - The admin role is granted the new permissions
+    - A role named `users_view`, which the admin-users function used to recognise by name, is
+      granted `users:view` so its holders keep their access
+
+  3. Notes
+    - Edge functions now authorize each route by the `resource:action` permissions of the
+      caller's roles instead of requiring the admin role. The admin role is still allowed
+      everything, as in the frontend.
+*/
+
+INSERT INTO permissions (resource, action, description) VALUES
+  ('users', 'view', 'View the user list'),
+  ('bank_accounts', 'view', 'View bank accounts'),
+  ('bank_accounts', 'manage', 'Create, update and delete bank accounts'),
+  ('account_types', 'view', 'View account types'),
+  ('account_types', 'manage', 'Create, update and delete account types'),
+  ('loan_products', 'view', 'View loan products')
+ON CONFLICT (resource, action) DO NOTHING;
+
+INSERT INTO role_permissions (role_id, permission_id)
+SELECT r.id, p.id
+FROM roles r
+JOIN permissions p ON (p.resource, p.action) IN (
+  ('users', 'view'),
+  ('bank_accounts', 'view'),
+  ('bank_accounts', 'manage'),
+  ('account_types', 'view'),
+  ('account_types', 'manage'),
+  ('loan_products', 'view')
+)
+WHERE r.name = 'admin'
+ON CONFLICT (role_id, permission_id) DO NOTHING;
+
+INSERT INTO role_permissions (role_id, permission_id)
+SELECT r.id, p.id
+FROM roles r
+JOIN permissions p ON p.resource = 'users' AND p.action = 'view'
+WHERE r.name = 'users_view'
+ON CONFLICT (role_id, permission_id) DO NOTHING;
@@ -0,0 +1,70 @@
+/*
+  # Create audit log
+
+  1. New Tables
+    - `audit_log`
+      - `id` (uuid, primary key)
+      - `actor_id` (uuid, foreign key to users, optional) - Empty for scheduled runs and deleted users
+      - `action` (text) - create, update, delete, login or password_change
+      - `entity_type` (text) - e.g. user, role, account_type
+      - `entity_id` (text, optional) - Id of the record acted on
+      - `changes` (jsonb) - Changed fields as `{ "field": { "before": ..., "after": ... } }`; every
+        field of the record on a create or delete
+      - `ip_address`, `user_agent` (text, optional) - Taken from the request
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `audit_log`
+    - Admins can view the log; entries are only written through the edge functions and are
+      never updated or deleted
+
+  3. Permissions
+    - `audit:view` - View and export the audit log
+
+  4. Notes
+    - Every mutation in the admin edge functions, every sign-in and every password change is
+      recorded.
+*/
+
+CREATE TABLE IF NOT EXISTS public.audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  actor_id uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  action text NOT NULL CHECK (action IN ('create', 'update', 'delete', 'login', 'password_change')),
+  entity_type text NOT NULL,
+  entity_id text,
+  changes jsonb NOT NULL DEFAULT '{}'::jsonb,
+  ip_address text,
+  user_agent text,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view the audit log"
+  ON public.audit_log
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_roles ur
+      JOIN roles r ON ur.role_id = r.id
+      WHERE ur.user_id = auth.uid() AND r.name = 'admin'
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON public.audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor_id ON public.audit_log(actor_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON public.audit_log(entity_type, entity_id, created_at DESC);
+
+-- Audit permissions
+INSERT INTO permissions (resource, action, description) VALUES
+  ('audit', 'view', 'View and export the audit log')
+ON CONFLICT (resource, action) DO NOTHING;
+
+INSERT INTO role_permissions (role_id, permission_id)
+SELECT r.id, p.id
+FROM roles r
+JOIN permissions p ON p.resource = 'audit'
+WHERE r.name = 'admin'
+ON CONFLICT (role_id, permission_id) DO NOTHING;
@@ -0,0 +1,198 @@
+/*
+  # Create activity feed events
+
+  1. New Tables
+    - `activity_events`
+      - `id` (uuid, primary key)
+      - `entity_type` (text) - user, role, account_type or transaction
+      - `action` (text) - created, updated, deleted or posted
+      - `entity_id` (text, optional)
+      - `description` (text) - One line shown in the feed, e.g. "Role Teller updated"
+      - `actor_id` (uuid, foreign key to users, optional) and `actor_name` (text, optional) - Who
+        made the change; the name is kept so viewers who cannot read the users table still see it
+      - `required_permissions` (text[]) - Any one of these `resource:action` permissions lets a
+        user see the event
+      - `created_at` (timestamp)
+
+  2. Functions
+    - `has_any_permission(uid, permissions)` - Whether the user holds any of the permissions
+      through their roles; the admin role holds all of them. Only callable by other functions,
+      so users cannot look up each other's permissions.
+    - `current_user_has_any_permission(permissions)` - The same for the signed-in user, for
+      the policy
+    - Trigger functions recording an event for every user, role and account type change in the
+      audit log and every posted journal entry
+
+  3. Security
+    - Enable RLS on `activity_events`
+    - Users see the events they hold one of the required permissions for. Events are only
+      written by the triggers.
+
+  4. Realtime
+    - `activity_events` is added to the `supabase_realtime` publication so the dashboard feed
+      updates live; Realtime applies the same RLS policy to each subscriber.
+
+  5. Notes
+    - The permissions gating each event are those of the edge function routes that list the
+      same records.
+*/
+
+CREATE TABLE IF NOT EXISTS public.activity_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  entity_type text NOT NULL CHECK (entity_type IN ('user', 'role', 'account_type', 'transaction')),
+  action text NOT NULL CHECK (action IN ('created', 'updated', 'deleted', 'posted')),
+  entity_id text,
+  description text NOT NULL,
+  actor_id uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  actor_name text,
+  required_permissions text[] NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_activity_events_created_at ON public.activity_events(created_at DESC);
+
+CREATE OR REPLACE FUNCTION public.has_any_permission(uid uuid, required text[])
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM user_roles ur
+    JOIN roles r ON r.id = ur.role_id
+    LEFT JOIN role_permissions rp ON rp.role_id = r.id
+    LEFT JOIN permissions p ON p.id = rp.permission_id
+    WHERE ur.user_id = uid
+      AND (r.name = 'admin' OR p.resource || ':' || p.action = ANY(required))
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.current_user_has_any_permission(required text[])
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT has_any_permission(auth.uid(), required);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.has_any_permission(uuid, text[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.current_user_has_any_permission(text[]) FROM PUBLIC, anon;
+
+-- Enable Row Level Security
+ALTER TABLE public.activity_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view activity they have permission for"
+  ON public.activity_events
+  FOR SELECT
+  TO authenticated
+  USING ( public.current_user_has_any_permission(required_permissions) );
+
+-- Display name of a user for the feed
+CREATE OR REPLACE FUNCTION public.activity_actor_name(uid uuid)
+RETURNS text
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(NULLIF(full_name, ''), email) FROM users WHERE id = uid;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.activity_actor_name(uuid) FROM PUBLIC, anon, authenticated;
+
+-- User, role and account type changes, as recorded in the audit log by the admin edge functions
+CREATE OR REPLACE FUNCTION public.record_audit_activity()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_label text;
+  v_name text;
+  v_permissions text[];
+BEGIN
+  IF NEW.entity_type NOT IN ('user', 'role', 'account_type') OR NEW.action NOT IN ('create', 'update', 'delete') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Current name of the record, or its last name from the audit entry once deleted
+  IF NEW.entity_type = 'user' THEN
+    v_label := 'User';
+    v_permissions := ARRAY['users:view', 'users:manage'];
+    SELECT COALESCE(NULLIF(full_name, ''), email) INTO v_name FROM users WHERE id::text = NEW.entity_id;
+    v_name := COALESCE(v_name, NEW.changes->'full_name'->>'before', NEW.changes->'email'->>'before');
+  ELSIF NEW.entity_type = 'role' THEN
+    v_label := 'Role';
+    v_permissions := ARRAY['roles:read', 'roles:manage'];
+    SELECT name INTO v_name FROM roles WHERE id::text = NEW.entity_id;
+    v_name := COALESCE(v_name, NEW.changes->'name'->>'before');
+  ELSE
+    v_label := 'Account type';
+    v_permissions := ARRAY['account_types:view', 'account_types:manage', 'accounts:view', 'accounts:manage'];
+    SELECT name INTO v_name FROM account_types WHERE id::text = NEW.entity_id;
+    v_name := COALESCE(v_name, NEW.changes->'name'->>'before');
+  END IF;
+
+  INSERT INTO activity_events (entity_type, action, entity_id, description, actor_id, actor_name, required_permissions, created_at)
+  VALUES (
+    NEW.entity_type,
+    NEW.action || 'd',
+    NEW.entity_id,
+    v_label || ' ' || COALESCE(v_name, NEW.entity_id) || ' ' || NEW.action || 'd',
+    NEW.actor_id,
+    activity_actor_name(NEW.actor_id),
+    v_permissions,
+    NEW.created_at
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_audit_activity
+  AFTER INSERT ON public.audit_log
+  FOR EACH ROW EXECUTE FUNCTION public.record_audit_activity();
+
+-- Every journal entry posted, whichever function posted it
+CREATE OR REPLACE FUNCTION public.record_transaction_activity()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO activity_events (entity_type, action, entity_id, description, actor_id, actor_name, required_permissions, created_at)
+  VALUES (
+    'transaction',
+    'posted',
+    NEW.id::text,
+    initcap(replace(NEW.entry_type, '_', ' ')) || ' ' || NEW.entry_number || ' of MUR ' || to_char(NEW.amount, 'FM999,999,999,990.00') || ' posted',
+    NEW.posted_by,
+    activity_actor_name(NEW.posted_by),
+    ARRAY['transactions:view', 'transactions:read', 'transactions:create', 'accounts:view'],
+    NEW.posted_at
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_transaction_activity
+  AFTER INSERT ON public.journal_entries
+  FOR EACH ROW EXECUTE FUNCTION public.record_transaction_activity();
+
+-- Stream new events to the dashboard
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'activity_events'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.activity_events;
+  END IF;
+END $$;
@@ -0,0 +1,40 @@
+/*
+  # Dashboard statistics
+
+  1. Functions
+    - `dashboard_accounts_by_type(p_since)` - For every account type, the customer accounts open
+      now, those that were open at the start of `p_since`, and their current total balance
+
+  2. Security
+    - The function is only callable with the service role key, by the `dashboard-stats` edge
+      function, which checks the caller's permissions for each statistic
+
+  3. Notes
+    - An account counts as open from `opened_at` until `closed_at`, whatever its status in
+      between.
+*/
+
+CREATE OR REPLACE FUNCTION public.dashboard_accounts_by_type(p_since date)
+RETURNS TABLE (
+  account_type_id uuid,
+  name text,
+  open_accounts bigint,
+  open_accounts_before bigint,
+  balance numeric
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    at.id,
+    at.name,
+    count(ca.id) FILTER (WHERE ca.status <> 'closed'),
+    count(ca.id) FILTER (WHERE ca.opened_at < p_since AND (ca.closed_at IS NULL OR ca.closed_at >= p_since)),
+    COALESCE(sum(ca.balance) FILTER (WHERE ca.status <> 'closed'), 0)
+  FROM public.account_types at
+  LEFT JOIN public.customer_accounts ca ON ca.account_type_id = at.id
+  GROUP BY at.id, at.name
+  ORDER BY at.name;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.dashboard_accounts_by_type(date) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,38 @@
+/*
+  # Multi-factor authentication
+
+  1. Changes
+    - `roles.mfa_required` (boolean, default false) - Users holding the role must sign in with a
+      TOTP authenticator app as well as their password
+
+  2. New Tables
+    - `mfa_recovery_codes`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to users)
+      - `code_hash` (text) - SHA-256 of the normalised code; the code itself is only shown once
+      - `used_at` (timestamp, optional) - When the code was redeemed
+      - `created_at` (timestamp)
+
+  3. Security
+    - Enable RLS on `mfa_recovery_codes` with no policies; codes are only generated and redeemed
+      through the `mfa` edge function
+
+  4. Notes
+    - TOTP factors themselves are stored by Supabase Auth. Redeeming a recovery code removes the
+      user's factors so they can sign in and enrol a new authenticator.
+*/
+
+ALTER TABLE public.roles ADD COLUMN IF NOT EXISTS mfa_required boolean NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS public.mfa_recovery_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  code_hash text NOT NULL,
+  used_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_mfa_recovery_codes_user_id ON public.mfa_recovery_codes(user_id);
@@ -0,0 +1,91 @@
+/*
+  # Sign-in throttling and account lockout
+
+  1. New Tables
+    - `login_security_settings` (a single row)
+      - `max_failed_attempts` (integer, default 5) - Failed sign-ins to an account that lock it
+      - `max_failed_attempts_per_ip` (integer, default 20) - Failed sign-ins from one address, to
+        any account, that block the address
+      - `failure_window_minutes` (integer, default 15) - How long a failed sign-in counts
+      - `lockout_minutes` (integer, default 15) - How long a lockout lasts
+      - `delay_after_failures` (integer, default 2) - Failed sign-ins after which every further
+        attempt has to wait, doubling from one second
+      - `max_delay_seconds` (integer, default 30) - Longest wait between attempts
+      - `password_requests_per_minute` (integer, default 10) - Password checks and changes allowed
+        per address or user
+      - `updated_at` (timestamp)
+      - `updated_by` (uuid, foreign key to users)
+    - `auth_attempts`
+      - `id` (uuid, primary key)
+      - `kind` (text) - login, validate_password or update_password
+      - `email` (text, optional) - Lower-cased email a sign-in was attempted with
+      - `user_id` (uuid, optional, foreign key to users)
+      - `ip_address` (text, optional)
+      - `succeeded` (boolean)
+      - `created_at` (timestamp)
+    - `login_lockouts`
+      - `id` (uuid, primary key)
+      - `email` (text, optional) - Locked account
+      - `ip_address` (text, optional) - Blocked address; exactly one of the two is set
+      - `failed_attempts` (integer) - Failures that caused the lockout
+      - `locked_until` (timestamp)
+      - `unlocked_at` (timestamp, optional) - When an administrator lifted the lockout early
+      - `unlocked_by` (uuid, optional, foreign key to users)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on all three tables with no policies; they are only read and written by the
+      `login`, `validate-password`, `update-password` and `admin-users` edge functions
+
+  3. Notes
+    - Failures are counted since the latest of the window start, the account's last successful
+      sign-in and the end of its last lockout
+*/
+
+CREATE TABLE IF NOT EXISTS public.login_security_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  max_failed_attempts integer NOT NULL DEFAULT 5 CHECK (max_failed_attempts > 0),
+  max_failed_attempts_per_ip integer NOT NULL DEFAULT 20 CHECK (max_failed_attempts_per_ip > 0),
+  failure_window_minutes integer NOT NULL DEFAULT 15 CHECK (failure_window_minutes > 0),
+  lockout_minutes integer NOT NULL DEFAULT 15 CHECK (lockout_minutes > 0),
+  delay_after_failures integer NOT NULL DEFAULT 2 CHECK (delay_after_failures >= 0),
+  max_delay_seconds integer NOT NULL DEFAULT 30 CHECK (max_delay_seconds >= 0),
+  password_requests_per_minute integer NOT NULL DEFAULT 10 CHECK (password_requests_per_minute > 0),
+  updated_at timestamptz DEFAULT now(),
+  updated_by uuid REFERENCES public.users(id) ON DELETE SET NULL
+);
+
+INSERT INTO public.login_security_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.auth_attempts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind text NOT NULL CHECK (kind IN ('login', 'validate_password', 'update_password')),
+  email text,
+  user_id uuid REFERENCES public.users(id) ON DELETE CASCADE,
+  ip_address text,
+  succeeded boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.login_lockouts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  email text,
+  ip_address text,
+  failed_attempts integer NOT NULL,
+  locked_until timestamptz NOT NULL,
+  unlocked_at timestamptz,
+  unlocked_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  CHECK ((email IS NULL) <> (ip_address IS NULL))
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.login_security_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.auth_attempts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.login_lockouts ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_auth_attempts_email ON public.auth_attempts(kind, email, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_auth_attempts_ip_address ON public.auth_attempts(kind, ip_address, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_auth_attempts_user_id ON public.auth_attempts(kind, user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_login_lockouts_email ON public.login_lockouts(email, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_login_lockouts_ip_address ON public.login_lockouts(ip_address, created_at DESC);
@@ -0,0 +1,49 @@
+/*
+  # Password policy
+
+  1. New Tables
+    - `password_policy` (a single row)
+      - `min_length` (integer, default 8)
+      - `require_uppercase` (boolean, default true)
+      - `require_lowercase` (boolean, default true)
+      - `require_number` (boolean, default true)
+      - `require_special` (boolean, default true)
+      - `special_characters` (text) - Characters that count as special
+      - `max_age_days` (integer, optional) - Days after which a password has to be changed; null
+        when passwords do not expire
+      - `history_depth` (integer, default 0) - How many of a user's previous passwords cannot be
+        used again
+      - `banned_words` (text array) - Words a password must not contain, compared
+        case-insensitively
+      - `updated_at` (timestamp)
+      - `updated_by` (uuid, foreign key to users)
+
+  2. Security
+    - Enable RLS on `password_policy` with no policies; the policy is read through the public
+      `password-policy` edge function, which the sign-in pages need before there is a session,
+      and changed through it by users with `settings:manage`
+
+  3. Notes
+    - The defaults are the rules that were previously hard-coded in the frontend and the
+      `validate-password` and `update-password` functions
+*/
+
+CREATE TABLE IF NOT EXISTS public.password_policy (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  min_length integer NOT NULL DEFAULT 8 CHECK (min_length BETWEEN 6 AND 128),
+  require_uppercase boolean NOT NULL DEFAULT true,
+  require_lowercase boolean NOT NULL DEFAULT true,
+  require_number boolean NOT NULL DEFAULT true,
+  require_special boolean NOT NULL DEFAULT true,
+  special_characters text NOT NULL DEFAULT '!@#$%^&*(),.?":{}|<>' CHECK (special_characters <> ''),
+  max_age_days integer CHECK (max_age_days > 0),
+  history_depth integer NOT NULL DEFAULT 0 CHECK (history_depth BETWEEN 0 AND 24),
+  banned_words text[] NOT NULL DEFAULT '{}',
+  updated_at timestamptz DEFAULT now(),
+  updated_by uuid REFERENCES public.users(id) ON DELETE SET NULL
+);
+
+INSERT INTO public.password_policy (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+-- Enable Row Level Security
+ALTER TABLE public.password_policy ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,125 @@
+/*
+  # Password history and expiry
+
+  1. Changes
+    - `users.password_changed_at` (timestamp) - When the user's password was last set; existing
+      users start from the time of this migration
+
+  2. New Tables
+    - `password_history`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to users)
+      - `password_hash` (text) - bcrypt hash copied from Supabase Auth; passwords themselves are
+        never stored
+      - `created_at` (timestamp)
+
+  3. Functions
+    - `record_password_change(p_user_id)` - Adds the user's current password hash to their
+      history, keeping no more than the policy's history depth of previous passwords, and sets
+      `password_changed_at`
+    - `password_recently_used(p_user_id, p_password)` - Whether the password is the user's current
+      password or one of the previous passwords covered by the policy's history depth
+    - `flag_expired_passwords(p_user_id)` - Sets `needs_password_reset` for users (or only the given
+      user) whose password is older than the policy's maximum age; returns how many were flagged
+
+  4. Security
+    - Enable RLS on `password_history` with no policies
+    - The functions are only callable with the service role key, by the `login`,
+      `update-password` and `admin-users` edge functions or a scheduled job
+*/
+
+ALTER TABLE public.users ADD COLUMN IF NOT EXISTS password_changed_at timestamptz NOT NULL DEFAULT now();
+
+CREATE TABLE IF NOT EXISTS public.password_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  password_hash text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.password_history ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_password_history_user_id ON public.password_history(user_id, created_at DESC);
+
+CREATE OR REPLACE FUNCTION public.record_password_change(p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_depth integer;
+BEGIN
+  SELECT history_depth INTO v_depth FROM public.password_policy;
+
+  INSERT INTO public.password_history (user_id, password_hash)
+  SELECT id, encrypted_password FROM auth.users WHERE id = p_user_id AND encrypted_password IS NOT NULL;
+
+  -- The current password and the previous ones still covered by the policy
+  DELETE FROM public.password_history
+  WHERE user_id = p_user_id
+    AND id NOT IN (
+      SELECT id FROM public.password_history
+      WHERE user_id = p_user_id
+      ORDER BY created_at DESC
+      LIMIT COALESCE(v_depth, 0) + 1
+    );
+
+  UPDATE public.users SET password_changed_at = now() WHERE id = p_user_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.password_recently_used(p_user_id uuid, p_password text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH hashes AS (
+    SELECT encrypted_password AS password_hash FROM auth.users WHERE id = p_user_id
+    UNION ALL
+    (
+      SELECT password_hash FROM public.password_history
+      WHERE user_id = p_user_id
+      ORDER BY created_at DESC
+      LIMIT (SELECT history_depth + 1 FROM public.password_policy)
+    )
+  )
+  SELECT EXISTS (
+    SELECT 1 FROM hashes
+    WHERE password_hash IS NOT NULL
+      AND password_hash = extensions.crypt(p_password, password_hash)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.flag_expired_passwords(p_user_id uuid DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_max_age integer;
+  v_flagged integer;
+BEGIN
+  SELECT max_age_days INTO v_max_age FROM public.password_policy;
+  IF v_max_age IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE public.users
+  SET needs_password_reset = true
+  WHERE needs_password_reset IS NOT TRUE
+    AND password_changed_at < now() - make_interval(days => v_max_age)
+    AND (p_user_id IS NULL OR id = p_user_id);
+
+  GET DIAGNOSTICS v_flagged = ROW_COUNT;
+  RETURN v_flagged;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_password_change(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.password_recently_used(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.flag_expired_passwords(uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,110 @@
+/*
+  # Active sessions and remote sign-out
+
+  1. Changes
+    - `users.sessions_revoked_at` (timestamp) - When the user's sessions were last revoked; the
+      browser watches the user's row over Realtime and checks its own session when this changes
+
+  2. Functions
+    - `list_user_sessions(p_user_id)` - The user's unexpired Supabase Auth sessions with their
+      device, address and when they were last used
+    - `revoke_user_sessions(p_user_id, p_keep_session_id)` - Ends all of the user's sessions, or all
+      but the one to keep; their refresh tokens go with them. Returns how many were ended.
+
+  3. Triggers
+    - Deactivating a user (`is_active` set to false) revokes all of their sessions at once
+
+  4. Realtime
+    - `users` is added to the `supabase_realtime` publication so a signed-in browser learns of its
+      user's deactivation or revoked sessions straight away; the existing RLS policies limit each
+      subscriber to the rows they can read
+
+  5. Security
+    - The functions are only callable with the service role key, by the `sessions` and
+      `admin-users` edge functions
+*/
+
+ALTER TABLE public.users ADD COLUMN IF NOT EXISTS sessions_revoked_at timestamptz;
+
+CREATE OR REPLACE FUNCTION public.list_user_sessions(p_user_id uuid)
+RETURNS TABLE (
+  id uuid,
+  user_agent text,
+  ip_address text,
+  aal text,
+  created_at timestamptz,
+  last_seen_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    s.id,
+    s.user_agent,
+    host(s.ip),
+    s.aal::text,
+    s.created_at,
+    -- refreshed_at is stored in UTC without a time zone
+    GREATEST(s.created_at, s.updated_at, s.refreshed_at AT TIME ZONE 'UTC')
+  FROM auth.sessions s
+  WHERE s.user_id = p_user_id
+    AND (s.not_after IS NULL OR s.not_after > now())
+  ORDER BY 6 DESC;
+$$;
+
+CREATE OR REPLACE FUNCTION public.revoke_user_sessions(p_user_id uuid, p_keep_session_id uuid DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_revoked integer;
+BEGIN
+  DELETE FROM auth.sessions
+  WHERE user_id = p_user_id
+    AND (p_keep_session_id IS NULL OR id <> p_keep_session_id);
+
+  GET DIAGNOSTICS v_revoked = ROW_COUNT;
+
+  UPDATE public.users SET sessions_revoked_at = now() WHERE id = p_user_id;
+
+  RETURN v_revoked;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.revoke_sessions_of_deactivated_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM auth.sessions WHERE user_id = NEW.id;
+  NEW.sessions_revoked_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS revoke_sessions_on_deactivation ON public.users;
+CREATE TRIGGER revoke_sessions_on_deactivation
+  BEFORE UPDATE OF is_active ON public.users
+  FOR EACH ROW
+  WHEN (OLD.is_active IS TRUE AND NEW.is_active IS NOT TRUE)
+  EXECUTE FUNCTION public.revoke_sessions_of_deactivated_user();
+
+REVOKE EXECUTE ON FUNCTION public.list_user_sessions(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.revoke_user_sessions(uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.revoke_sessions_of_deactivated_user() FROM PUBLIC, anon, authenticated;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'users'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.users;
+  END IF;
+END $$;
@@ -0,0 +1,20 @@
+/*
+  # Idle timeout and maximum session age
+
+  1. Changes
+    - `login_security_settings.idle_timeout_minutes` (integer, default 15) - Minutes without
+      activity after which the browser signs the user out
+    - `login_security_settings.idle_warning_seconds` (integer, default 60) - How long before that
+      the user is warned and can stay signed in
+    - `login_security_settings.max_session_hours` (integer, default 12) - Hours after signing in
+      that a session ends however active the user is
+
+  2. Notes
+    - The limits are read by every signed-in browser through the `login` edge function and edited
+      with the other sign-in protection settings
+*/
+
+ALTER TABLE public.login_security_settings
+  ADD COLUMN IF NOT EXISTS idle_timeout_minutes integer NOT NULL DEFAULT 15 CHECK (idle_timeout_minutes >= 1),
+  ADD COLUMN IF NOT EXISTS idle_warning_seconds integer NOT NULL DEFAULT 60 CHECK (idle_warning_seconds >= 1),
+  ADD COLUMN IF NOT EXISTS max_session_hours integer NOT NULL DEFAULT 12 CHECK (max_session_hours >= 1);
@@ -0,0 +1,85 @@
+/*
+  # Maker-checker approval of sensitive changes
+
+  1. New Tables
+    - `approval_settings` (one row per operation)
+      - `operation` (text, primary key) - `create_user`, `grant_admin_role` or
+        `change_processing_fee`
+      - `requires_approval` (boolean, default true) - Whether the change waits for a second
+        person's approval instead of being applied at once
+      - `updated_at` (timestamp)
+      - `updated_by` (uuid, optional, foreign key to users)
+    - `change_requests`
+      - `id` (uuid, primary key)
+      - `operation` (text, foreign key to approval_settings)
+      - `entity_type` (text) - As in the audit log, e.g. `user` or `account_type`
+      - `entity_id` (uuid, optional) - The changed record; for a new user, set once approved
+      - `summary` (text) - What the change does, e.g. "Create user a@example.com"
+      - `payload` (jsonb) - The validated change, applied as is on approval. Passwords are never
+        kept; a new user gets a temporary password when the request is approved.
+      - `before` (jsonb, optional) - The record when the change was requested
+      - `after` (jsonb, optional) - The record as it will be once the change is applied
+      - `status` (text) - pending, approved, rejected or withdrawn
+      - `requested_by` (uuid, foreign key to users)
+      - `requested_at` (timestamp)
+      - `reviewed_by` (uuid, optional, foreign key to users) - Who approved or rejected it; never
+        the requester
+      - `reviewed_at` (timestamp, optional)
+      - `review_comment` (text, optional)
+
+  2. Security
+    - Enable RLS on both tables with no policies; they are only read and written by the
+      `approvals`, `admin-users` and `admin-account-types` edge functions
+    - New permission `approvals:review`, granted to the admin role. Approving a change also needs
+      the permission the change itself needs, e.g. `users:manage` to create a user.
+*/
+
+CREATE TABLE IF NOT EXISTS public.approval_settings (
+  operation text PRIMARY KEY CHECK (operation IN ('create_user', 'grant_admin_role', 'change_processing_fee')),
+  requires_approval boolean NOT NULL DEFAULT true,
+  updated_at timestamptz DEFAULT now(),
+  updated_by uuid REFERENCES public.users(id) ON DELETE SET NULL
+);
+
+INSERT INTO public.approval_settings (operation) VALUES
+  ('create_user'),
+  ('grant_admin_role'),
+  ('change_processing_fee')
+ON CONFLICT (operation) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.change_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  operation text NOT NULL REFERENCES public.approval_settings(operation),
+  entity_type text NOT NULL,
+  entity_id uuid,
+  summary text NOT NULL,
+  payload jsonb NOT NULL,
+  before jsonb,
+  after jsonb,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'withdrawn')),
+  requested_by uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  requested_at timestamptz DEFAULT now(),
+  reviewed_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  reviewed_at timestamptz,
+  review_comment text,
+  CHECK (reviewed_by IS NULL OR reviewed_by <> requested_by)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.approval_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.change_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_change_requests_status ON public.change_requests(status, requested_at DESC);
+CREATE INDEX IF NOT EXISTS idx_change_requests_requested_by ON public.change_requests(requested_by, requested_at DESC);
+
+-- Approval permissions
+INSERT INTO permissions (resource, action, description) VALUES
+  ('approvals', 'review', 'Approve or reject changes that wait for a second person')
+ON CONFLICT (resource, action) DO NOTHING;
+
+INSERT INTO role_permissions (role_id, permission_id)
+SELECT r.id, p.id
+FROM roles r
+JOIN permissions p ON p.resource = 'approvals'
+WHERE r.name = 'admin'
+ON CONFLICT (role_id, permission_id) DO NOTHING;
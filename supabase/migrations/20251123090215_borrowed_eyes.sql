@@ -0,0 +1,59 @@
+/*
+  # View the app as another user
+
+  1. New Tables
+    - `impersonation_sessions`
+      - `id` (uuid, primary key)
+      - `admin_id` (uuid, foreign key to users) - Who is viewing the app as someone else
+      - `target_user_id` (uuid, foreign key to users) - Whose view they see
+      - `session_id` (uuid) - Supabase Auth session of the administrator the view belongs to
+      - `reason` (text, optional) - Why the administrator needed to see the user's view
+      - `started_at`, `ended_at` (timestamp) - `ended_at` is empty while the view is active
+
+  2. Changes
+    - `audit_log.action` also accepts `impersonate_start` and `impersonate_stop`
+
+  3. Security
+    - Enable RLS on `impersonation_sessions` with no policies; it is only read and written
+      through the edge functions
+    - While a session views the app as another user, the edge functions answer its reads with the
+      other user's permissions and refuse its changes
+
+  4. Permissions
+    - `users:impersonate` - View the app as another user, read-only
+*/
+
+CREATE TABLE IF NOT EXISTS public.impersonation_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  admin_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  target_user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  session_id uuid NOT NULL,
+  reason text,
+  started_at timestamptz NOT NULL DEFAULT now(),
+  ended_at timestamptz,
+  CHECK (admin_id <> target_user_id)
+);
+
+ALTER TABLE public.impersonation_sessions ENABLE ROW LEVEL SECURITY;
+
+-- At most one active view per session
+CREATE UNIQUE INDEX IF NOT EXISTS idx_impersonation_sessions_active
+  ON public.impersonation_sessions(session_id)
+  WHERE ended_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_impersonation_sessions_admin
+  ON public.impersonation_sessions(admin_id, started_at DESC);
+
+ALTER TABLE public.audit_log DROP CONSTRAINT IF EXISTS audit_log_action_check;
+ALTER TABLE public.audit_log ADD CONSTRAINT audit_log_action_check
+  CHECK (action IN ('create', 'update', 'delete', 'login', 'password_change', 'impersonate_start', 'impersonate_stop'));
+
+INSERT INTO permissions (resource, action, description) VALUES
+  ('users', 'impersonate', 'View the app as another user, read-only')
+ON CONFLICT (resource, action) DO NOTHING;
+
+INSERT INTO role_permissions (role_id, permission_id)
+SELECT r.id, p.id
+FROM roles r
+JOIN permissions p ON p.resource = 'users' AND p.action = 'impersonate'
+WHERE r.name = 'admin'
+ON CONFLICT (role_id, permission_id) DO NOTHING;
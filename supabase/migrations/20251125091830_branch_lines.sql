@@ -0,0 +1,227 @@
+/*
+  # Organisational units
+
+  1. New Tables
+    - `organisation_units`
+      - `id` (uuid, primary key)
+      - `code` (text, unique) - Short code, e.g. "PLU"
+      - `name` (text) - e.g. "Port Louis branch"
+      - `parent_id` (uuid, foreign key to organisation_units, optional) - Unit it belongs to; empty
+        for the top of the hierarchy
+      - `is_active` (boolean) - Inactive units can no longer be assigned
+      - `created_at`, `updated_at` (timestamp)
+
+  2. Changes
+    - `users.organisation_unit_id` - The unit the staff member works in
+    - `user_roles.organisation_unit_id` - The unit a role is held in, e.g. teller at the Port Louis
+      branch; empty for a role held across the whole organisation
+    - `members.organisation_unit_id` - The unit the member banks with; their accounts go with them
+
+  3. Functions
+    - `organisation_unit_subtree(p_unit_id)` - The unit and every unit below it
+    - `user_unit_scope(p_user_id)` - Units whose records the user sees: those of their role
+      assignments and their own unit, with the units below them. Null when the user holds a role
+      across the whole organisation, and so sees every record.
+    - `can_see_organisation_unit(p_unit_id)` - Whether the signed-in user sees records of the unit;
+      records without a unit are only seen by users who see every unit
+    - `can_see_member(p_member_id)` - Whether the signed-in user sees the member's unit, for the
+      member's accounts
+
+  4. Triggers
+    - A unit cannot be placed under itself or one of its own sub-units
+
+  5. Security
+    - Enable RLS on `organisation_units` with no policies; it is only read and written through the
+      edge functions
+    - Restrictive policies limit the users, members and customer accounts staff can read through
+      their session to those in their units, on top of the existing policies
+
+  6. Permissions
+    - `organisation_units:view` - View the organisational units
+    - `organisation_units:manage` - Create, edit and delete organisational units
+
+  7. Notes
+    - Existing role assignments have no unit, so every user keeps seeing every record until their
+      roles are limited to units
+*/
+
+CREATE TABLE IF NOT EXISTS public.organisation_units (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text UNIQUE NOT NULL,
+  name text NOT NULL,
+  parent_id uuid REFERENCES public.organisation_units(id) ON DELETE RESTRICT,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE public.organisation_units ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_organisation_units_parent_id ON public.organisation_units(parent_id);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.triggers
+    WHERE trigger_name = 'update_organisation_units_updated_at'
+  ) THEN
+    CREATE TRIGGER update_organisation_units_updated_at
+      BEFORE UPDATE ON public.organisation_units
+      FOR EACH ROW
+      EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION public.check_organisation_unit_parent()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_id IS NOT NULL AND EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT NEW.parent_id AS id
+      UNION
+      SELECT u.parent_id
+      FROM organisation_units u
+      JOIN ancestors a ON u.id = a.id
+      WHERE u.parent_id IS NOT NULL
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'A unit cannot be placed under itself or one of its own sub-units';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_organisation_unit_parent ON public.organisation_units;
+CREATE TRIGGER check_organisation_unit_parent
+  BEFORE INSERT OR UPDATE OF parent_id ON public.organisation_units
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_organisation_unit_parent();
+
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS organisation_unit_id uuid REFERENCES public.organisation_units(id) ON DELETE RESTRICT;
+ALTER TABLE public.user_roles
+  ADD COLUMN IF NOT EXISTS organisation_unit_id uuid REFERENCES public.organisation_units(id) ON DELETE RESTRICT;
+ALTER TABLE public.members
+  ADD COLUMN IF NOT EXISTS organisation_unit_id uuid REFERENCES public.organisation_units(id) ON DELETE RESTRICT;
+
+CREATE INDEX IF NOT EXISTS idx_users_organisation_unit_id ON public.users(organisation_unit_id);
+CREATE INDEX IF NOT EXISTS idx_user_roles_organisation_unit_id ON public.user_roles(organisation_unit_id);
+CREATE INDEX IF NOT EXISTS idx_members_organisation_unit_id ON public.members(organisation_unit_id);
+
+CREATE OR REPLACE FUNCTION public.organisation_unit_subtree(p_unit_id uuid)
+RETURNS uuid[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT ARRAY(
+    WITH RECURSIVE subtree AS (
+      SELECT id FROM organisation_units WHERE id = p_unit_id
+      UNION
+      SELECT u.id
+      FROM organisation_units u
+      JOIN subtree s ON u.parent_id = s.id
+    )
+    SELECT id FROM subtree
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.user_unit_scope(p_user_id uuid)
+RETURNS uuid[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN EXISTS (
+      SELECT 1 FROM user_roles
+      WHERE user_id = p_user_id AND organisation_unit_id IS NULL
+    ) THEN NULL
+    ELSE ARRAY(
+      SELECT DISTINCT unit_id
+      FROM (
+        SELECT organisation_unit_id FROM user_roles WHERE user_id = p_user_id
+        UNION
+        SELECT organisation_unit_id FROM users WHERE id = p_user_id
+      ) assigned
+      CROSS JOIN LATERAL unnest(organisation_unit_subtree(assigned.organisation_unit_id)) AS unit_id
+      WHERE assigned.organisation_unit_id IS NOT NULL
+    )
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_see_organisation_unit(p_unit_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(scope IS NULL OR p_unit_id = ANY(scope), false)
+  FROM (SELECT user_unit_scope(auth.uid()) AS scope) caller;
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_see_member(p_member_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((
+    SELECT can_see_organisation_unit(organisation_unit_id)
+    FROM members
+    WHERE id = p_member_id
+  ), false);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.organisation_unit_subtree(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.user_unit_scope(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.can_see_organisation_unit(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.can_see_member(uuid) FROM PUBLIC, anon;
+
+DROP POLICY IF EXISTS "Staff only see users in their units" ON public.users;
+CREATE POLICY "Staff only see users in their units"
+  ON public.users
+  AS RESTRICTIVE
+  FOR SELECT
+  TO authenticated
+  USING (id = auth.uid() OR can_see_organisation_unit(organisation_unit_id));
+
+DROP POLICY IF EXISTS "Staff only see members in their units" ON public.members;
+CREATE POLICY "Staff only see members in their units"
+  ON public.members
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (can_see_organisation_unit(organisation_unit_id))
+  WITH CHECK (can_see_organisation_unit(organisation_unit_id));
+
+DROP POLICY IF EXISTS "Staff only see accounts of members in their units" ON public.customer_accounts;
+CREATE POLICY "Staff only see accounts of members in their units"
+  ON public.customer_accounts
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (can_see_member(member_id))
+  WITH CHECK (can_see_member(member_id));
+
+-- Organisational unit permissions
+INSERT INTO permissions (resource, action, description) VALUES
+  ('organisation_units', 'view', 'View the organisational units'),
+  ('organisation_units', 'manage', 'Create, edit and delete organisational units')
+ON CONFLICT (resource, action) DO NOTHING;
+
+INSERT INTO role_permissions (role_id, permission_id)
+SELECT r.id, p.id
+FROM roles r
+JOIN permissions p ON p.resource = 'organisation_units'
+WHERE r.name = 'admin'
+ON CONFLICT (role_id, permission_id) DO NOTHING;
@@ -0,0 +1,85 @@
+/*
+  # Charge account processing fees through the ledger
+
+  1. Changes
+    - `journal_entries.entry_type` also accepts 'fee'
+    - `customer_accounts.processing_fee_entry_id` (uuid, foreign key to journal_entries, optional) -
+      Posting that charged the account's processing fee; empty while the fee is still owed
+
+  2. Functions
+    - `charge_processing_fee(account_id, posted_by)` - Debits the processing fee from an active
+      account that holds enough to pay it and credits the processing fee income ledger. Returns the
+      journal entry, or null when there is nothing to charge yet.
+
+  3. Notes
+    - Accounts are opened empty and only active accounts can be posted to, so the fee is charged
+      when the account is activated if it already holds enough, and otherwise with the first deposit
+      or transfer that brings its balance up to the fee.
+    - A fee is charged once per account, whatever the account type's fee is changed to later.
+*/
+
+ALTER TABLE public.journal_entries DROP CONSTRAINT IF EXISTS journal_entries_entry_type_check;
+ALTER TABLE public.journal_entries ADD CONSTRAINT journal_entries_entry_type_check
+  CHECK (entry_type IN ('deposit', 'withdrawal', 'transfer', 'loan_disbursement', 'loan_repayment', 'dividend', 'fee'));
+
+ALTER TABLE public.customer_accounts
+  ADD COLUMN IF NOT EXISTS processing_fee_entry_id uuid REFERENCES public.journal_entries(id) ON DELETE RESTRICT;
+
+-- Internal ledger the processing fees are credited to
+INSERT INTO public.ledger_accounts (code, name, category) VALUES
+  ('processing_fee_income', 'Account processing fee income', 'income')
+ON CONFLICT (code) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.charge_processing_fee(
+  p_account_id uuid,
+  p_posted_by uuid
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_account record;
+  v_entry_id uuid;
+BEGIN
+  SELECT id, account_number, status, balance, processing_fee, processing_fee_entry_id INTO v_account
+  FROM public.customer_accounts
+  WHERE id = p_account_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer account not found';
+  END IF;
+
+  IF v_account.processing_fee <= 0
+    OR v_account.processing_fee_entry_id IS NOT NULL
+    OR v_account.status <> 'active'
+    OR v_account.balance < v_account.processing_fee THEN
+    RETURN NULL;
+  END IF;
+
+  v_entry_id := public.post_journal_entry(
+    'fee',
+    v_account.processing_fee,
+    'Processing fee of account ' || v_account.account_number,
+    v_account.account_number,
+    p_posted_by,
+    jsonb_build_array(
+      jsonb_build_object('customer_account_id', v_account.id, 'debit', v_account.processing_fee, 'credit', 0),
+      jsonb_build_object(
+        'ledger_account_id', (SELECT id FROM public.ledger_accounts WHERE code = 'processing_fee_income'),
+        'debit', 0,
+        'credit', v_account.processing_fee
+      )
+    )
+  );
+
+  UPDATE public.customer_accounts
+  SET processing_fee_entry_id = v_entry_id
+  WHERE id = v_account.id;
+
+  RETURN v_entry_id;
+END;
+$$;
+
+-- Only the service role (edge functions) may post to the ledger
+REVOKE EXECUTE ON FUNCTION public.charge_processing_fee(uuid, uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,16 @@
+/*
+  # Record failed sign-ins in the audit log
+
+  1. Changes
+    - `audit_log.action` also accepts 'login_failed'
+
+  2. Notes
+    - Sign-ins, successful and failed, are now recorded by the `login` edge function when it checks
+      the password, instead of by the browser after it has signed in.
+    - A failed sign-in has no actor; it is recorded against the account of the email address
+      tried when there is one, with the address itself among the changes.
+*/
+
+ALTER TABLE public.audit_log DROP CONSTRAINT IF EXISTS audit_log_action_check;
+ALTER TABLE public.audit_log ADD CONSTRAINT audit_log_action_check
+  CHECK (action IN ('create', 'update', 'delete', 'login', 'login_failed', 'password_change', 'impersonate_start', 'impersonate_stop'));
@@ -0,0 +1,100 @@
+/*
+  # Enforce sign-in lockouts in Supabase Auth
+
+  1. Functions
+    - `hook_password_verification_attempt(event)` - Password verification attempt hook for
+      Supabase Auth. Refuses every password sign-in to an account that is locked out or still has
+      to wait after its last failure, records the attempt in `auth_attempts` and locks the account
+      once it reaches `max_failed_attempts`.
+
+  2. Security
+    - Only `supabase_auth_admin` may execute the hook
+
+  3. Notes
+    - The hook sees every password sign-in, including ones made directly against the Auth API, so
+      account lockouts and delays no longer depend on signing in through the `login` edge function
+    - Attempts recorded by the hook carry the email and user but no address; the `login` function
+      records the address of its own attempts separately, without the email, so neither counts an
+      attempt twice
+    - The hook has to be enabled in the project's Auth hooks (see the README)
+*/
+
+CREATE OR REPLACE FUNCTION public.hook_password_verification_attempt(event jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := (event->>'user_id')::uuid;
+  v_valid boolean := (event->>'valid')::boolean;
+  v_email text;
+  v_settings public.login_security_settings;
+  v_reset_at timestamptz;
+  v_failures integer;
+  v_last_failure timestamptz;
+  v_delay integer;
+BEGIN
+  SELECT lower(email) INTO v_email FROM auth.users WHERE id = v_user_id;
+  IF v_email IS NULL THEN
+    RETURN jsonb_build_object('decision', 'continue');
+  END IF;
+
+  SELECT * INTO v_settings FROM public.login_security_settings WHERE id;
+
+  IF EXISTS (
+    SELECT 1 FROM public.login_lockouts
+    WHERE email = v_email AND unlocked_at IS NULL AND locked_until > now()
+  ) THEN
+    RETURN jsonb_build_object(
+      'decision', 'reject',
+      'message', 'Too many failed sign-in attempts. Sign-in is locked until the lockout ends or an administrator unlocks the account.'
+    );
+  END IF;
+
+  -- Failures count since the latest of the window start, the last successful sign-in and the end
+  -- of the last lockout, as in the login function
+  v_reset_at := GREATEST(
+    now() - make_interval(mins => v_settings.failure_window_minutes),
+    (SELECT COALESCE(unlocked_at, locked_until) FROM public.login_lockouts
+      WHERE email = v_email ORDER BY created_at DESC LIMIT 1),
+    (SELECT max(created_at) FROM public.auth_attempts
+      WHERE kind = 'login' AND email = v_email AND succeeded)
+  );
+
+  SELECT count(*), max(created_at) INTO v_failures, v_last_failure
+  FROM public.auth_attempts
+  WHERE kind = 'login' AND email = v_email AND NOT succeeded AND created_at > v_reset_at;
+
+  IF v_failures >= v_settings.delay_after_failures THEN
+    v_delay := LEAST(power(2, LEAST(v_failures - v_settings.delay_after_failures, 30)), v_settings.max_delay_seconds)::integer;
+    IF v_last_failure + make_interval(secs => v_delay) > now() THEN
+      RETURN jsonb_build_object(
+        'decision', 'reject',
+        'message', format('Too many failed sign-in attempts. Try again in %s seconds.',
+          ceil(extract(epoch FROM v_last_failure + make_interval(secs => v_delay) - now())))
+      );
+    END IF;
+  END IF;
+
+  INSERT INTO public.auth_attempts (kind, email, user_id, succeeded)
+  VALUES ('login', v_email, v_user_id, v_valid);
+
+  IF NOT v_valid AND v_failures + 1 >= v_settings.max_failed_attempts THEN
+    INSERT INTO public.login_lockouts (email, failed_attempts, locked_until)
+    VALUES (v_email, v_failures + 1, now() + make_interval(mins => v_settings.lockout_minutes));
+
+    RETURN jsonb_build_object(
+      'decision', 'reject',
+      'message', 'Too many failed sign-in attempts. Sign-in is locked until the lockout ends or an administrator unlocks the account.'
+    );
+  END IF;
+
+  RETURN jsonb_build_object('decision', 'continue');
+END;
+$$;
+
+-- Called by Supabase Auth only
+GRANT USAGE ON SCHEMA public TO supabase_auth_admin;
+GRANT EXECUTE ON FUNCTION public.hook_password_verification_attempt(jsonb) TO supabase_auth_admin;
+REVOKE EXECUTE ON FUNCTION public.hook_password_verification_attempt(jsonb) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,70 @@
+/*
+  # Require multi-factor authentication for direct table access
+
+  1. Functions
+    - `session_meets_mfa_requirement()` - Whether the signed-in user's session satisfies
+      multi-factor authentication: always once a second factor has been verified (aal2), and
+      otherwise only for users who have no verified authenticator and hold no role that requires one
+
+  2. Security
+    - Restrictive policies on every table staff can read or write through their own session, so a
+      password-only (aal1) session of a user who must use multi-factor authentication cannot reach
+      member, account, ledger, loan, document or user data around the edge functions
+    - Users still see their own row before completing the second factor, so the browser is signed
+      out as soon as they are deactivated or their sessions are revoked
+
+  3. Notes
+    - Mirrors the check the edge functions apply to every route that does not allow sessions
+      without multi-factor authentication
+*/
+
+CREATE OR REPLACE FUNCTION public.session_meets_mfa_requirement()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(auth.jwt()->>'aal', '') = 'aal2'
+    OR (
+      NOT EXISTS (
+        SELECT 1 FROM auth.mfa_factors
+        WHERE user_id = auth.uid() AND status = 'verified'
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM user_roles ur
+        JOIN roles r ON r.id = ur.role_id
+        WHERE ur.user_id = auth.uid() AND r.mfa_required
+      )
+    );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.session_meets_mfa_requirement() FROM PUBLIC, anon;
+
+DO $$
+DECLARE
+  v_table text;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY[
+    'user_roles', 'members', 'customer_accounts', 'journal_entries', 'journal_lines',
+    'loans', 'loan_instalments', 'member_documents', 'account_statements', 'dividend_runs',
+    'dividend_allocations', 'bank_accounts', 'bank_statements', 'bank_statement_lines',
+    'audit_log', 'activity_events'
+  ] LOOP
+    EXECUTE format('DROP POLICY IF EXISTS "Sessions must meet the MFA requirement" ON public.%I', v_table);
+    EXECUTE format(
+      'CREATE POLICY "Sessions must meet the MFA requirement" ON public.%I AS RESTRICTIVE FOR ALL TO authenticated '
+      'USING (session_meets_mfa_requirement()) WITH CHECK (session_meets_mfa_requirement())',
+      v_table
+    );
+  END LOOP;
+END $$;
+
+DROP POLICY IF EXISTS "Sessions must meet the MFA requirement" ON public.users;
+CREATE POLICY "Sessions must meet the MFA requirement"
+  ON public.users
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (id = auth.uid() OR session_meets_mfa_requirement())
+  WITH CHECK (session_meets_mfa_requirement());
@@ -0,0 +1,23 @@
+/*
+  # Hold turning approvals off for approval
+
+  1. Changes
+    - `approval_settings.operation` also accepts `turn_off_approval`: no longer holding a change
+      for approval, which itself always waits for a second person with `settings:manage`
+
+  2. Notes
+    - Turning an approval requirement on still takes effect at once
+    - `turn_off_approval` always requires approval and is not offered as a setting
+*/
+
+ALTER TABLE public.approval_settings DROP CONSTRAINT IF EXISTS approval_settings_operation_check;
+ALTER TABLE public.approval_settings ADD CONSTRAINT approval_settings_operation_check
+  CHECK (operation IN ('create_user', 'grant_admin_role', 'change_processing_fee', 'turn_off_approval'));
+
+INSERT INTO public.approval_settings (operation) VALUES
+  ('turn_off_approval')
+ON CONFLICT (operation) DO NOTHING;
+
+ALTER TABLE public.approval_settings DROP CONSTRAINT IF EXISTS approval_settings_turn_off_approval_check;
+ALTER TABLE public.approval_settings ADD CONSTRAINT approval_settings_turn_off_approval_check
+  CHECK (operation <> 'turn_off_approval' OR requires_approval);
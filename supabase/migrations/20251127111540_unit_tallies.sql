@@ -0,0 +1,46 @@
+/*
+  # Dashboard account counts by organisational unit
+
+  1. Functions
+    - `dashboard_accounts_by_type(p_since, p_unit_ids)` - As before, counting only the accounts of
+      members in the given units; every account when `p_unit_ids` is null
+
+  2. Security
+    - The function stays only callable with the service role key, by the `dashboard-stats` edge
+      function, which passes the caller's units
+*/
+
+DROP FUNCTION IF EXISTS public.dashboard_accounts_by_type(date);
+
+CREATE OR REPLACE FUNCTION public.dashboard_accounts_by_type(p_since date, p_unit_ids uuid[] DEFAULT NULL)
+RETURNS TABLE (
+  account_type_id uuid,
+  name text,
+  open_accounts bigint,
+  open_accounts_before bigint,
+  balance numeric
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    at.id,
+    at.name,
+    count(ca.id) FILTER (WHERE ca.status <> 'closed'),
+    count(ca.id) FILTER (WHERE ca.opened_at < p_since AND (ca.closed_at IS NULL OR ca.closed_at >= p_since)),
+    COALESCE(sum(ca.balance) FILTER (WHERE ca.status <> 'closed'), 0)
+  FROM public.account_types at
+  LEFT JOIN public.customer_accounts ca
+    ON ca.account_type_id = at.id
+    AND (
+      p_unit_ids IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.members m
+        WHERE m.id = ca.member_id AND m.organisation_unit_id = ANY(p_unit_ids)
+      )
+    )
+  GROUP BY at.id, at.name
+  ORDER BY at.name;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.dashboard_accounts_by_type(date, uuid[]) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,153 @@
+/*
+  # Limit ledger, loan, document, statement and reconciliation records to the staff's units
+
+  1. Functions
+    - `sees_every_unit()` - Whether the signed-in user holds a role across the whole organisation
+    - `can_see_customer_account(p_account_id)` - Whether the signed-in user sees the unit of the
+      account's member
+    - `can_see_loan(p_loan_id)` - Whether the signed-in user sees the unit of the borrower
+    - `can_see_journal_entry(p_entry_id)` - Whether the signed-in user sees every unit, or the unit
+      of a member whose account or loan the entry posts to; the whole entry is seen then, with the
+      bank and ledger lines on the other side
+
+  2. Security
+    - Restrictive policies limit what staff can read through their own session, on top of the
+      existing policies, as the edge functions already do:
+      - `journal_entries` and `journal_lines` to entries posting to members in their units
+      - `loans`, `member_documents` and `dividend_allocations` to members in their units
+      - `loan_instalments` to loans of members in their units
+      - `account_statements` to accounts of members in their units
+      - `bank_accounts`, `bank_statements` and `bank_statement_lines`, which span every unit, to
+        staff who see every unit
+*/
+
+CREATE OR REPLACE FUNCTION public.sees_every_unit()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT user_unit_scope(auth.uid()) IS NULL;
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_see_customer_account(p_account_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((
+    SELECT can_see_member(member_id)
+    FROM customer_accounts
+    WHERE id = p_account_id
+  ), false);
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_see_loan(p_loan_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((
+    SELECT can_see_member(member_id)
+    FROM loans
+    WHERE id = p_loan_id
+  ), false);
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_see_journal_entry(p_entry_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT sees_every_unit() OR EXISTS (
+    SELECT 1
+    FROM journal_lines jl
+    LEFT JOIN customer_accounts ca ON ca.id = jl.customer_account_id
+    LEFT JOIN loans l ON l.id = jl.loan_id
+    WHERE jl.journal_entry_id = p_entry_id
+      AND can_see_member(COALESCE(ca.member_id, l.member_id))
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.sees_every_unit() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.can_see_customer_account(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.can_see_loan(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.can_see_journal_entry(uuid) FROM PUBLIC, anon;
+
+DROP POLICY IF EXISTS "Staff only see entries of members in their units" ON public.journal_entries;
+CREATE POLICY "Staff only see entries of members in their units"
+  ON public.journal_entries
+  AS RESTRICTIVE
+  FOR SELECT
+  TO authenticated
+  USING (can_see_journal_entry(id));
+
+DROP POLICY IF EXISTS "Staff only see entry lines of members in their units" ON public.journal_lines;
+CREATE POLICY "Staff only see entry lines of members in their units"
+  ON public.journal_lines
+  AS RESTRICTIVE
+  FOR SELECT
+  TO authenticated
+  USING (can_see_journal_entry(journal_entry_id));
+
+DROP POLICY IF EXISTS "Staff only see loans of members in their units" ON public.loans;
+CREATE POLICY "Staff only see loans of members in their units"
+  ON public.loans
+  AS RESTRICTIVE
+  FOR SELECT
+  TO authenticated
+  USING (can_see_member(member_id));
+
+DROP POLICY IF EXISTS "Staff only see instalments of members in their units" ON public.loan_instalments;
+CREATE POLICY "Staff only see instalments of members in their units"
+  ON public.loan_instalments
+  AS RESTRICTIVE
+  FOR SELECT
+  TO authenticated
+  USING (can_see_loan(loan_id));
+
+DROP POLICY IF EXISTS "Staff only see documents of members in their units" ON public.member_documents;
+CREATE POLICY "Staff only see documents of members in their units"
+  ON public.member_documents
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (can_see_member(member_id))
+  WITH CHECK (can_see_member(member_id));
+
+DROP POLICY IF EXISTS "Staff only see statements of members in their units" ON public.account_statements;
+CREATE POLICY "Staff only see statements of members in their units"
+  ON public.account_statements
+  AS RESTRICTIVE
+  FOR SELECT
+  TO authenticated
+  USING (can_see_customer_account(customer_account_id));
+
+DROP POLICY IF EXISTS "Staff only see dividend allocations of members in their units" ON public.dividend_allocations;
+CREATE POLICY "Staff only see dividend allocations of members in their units"
+  ON public.dividend_allocations
+  AS RESTRICTIVE
+  FOR SELECT
+  TO authenticated
+  USING (can_see_member(member_id));
+
+DO $$
+DECLARE
+  v_table text;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY['bank_accounts', 'bank_statements', 'bank_statement_lines'] LOOP
+    EXECUTE format('DROP POLICY IF EXISTS "Only staff who see every unit see bank records" ON public.%I', v_table);
+    EXECUTE format(
+      'CREATE POLICY "Only staff who see every unit see bank records" ON public.%I AS RESTRICTIVE FOR ALL TO authenticated '
+      'USING (sees_every_unit()) WITH CHECK (sees_every_unit())',
+      v_table
+    );
+  END LOOP;
+END $$;
@@ -0,0 +1,172 @@
+/*
+  # Limit the activity feed to the staff's units
+
+  1. Changes
+    - `activity_events.organisation_unit_ids` (uuid[], optional) - Units the event belongs to: those
+      of the members a transaction posts to, or the unit of the user who was changed. Empty when
+      none of them has a unit, and null for records of the whole organisation such as roles and
+      account types.
+
+  2. Functions
+    - `can_see_any_organisation_unit(p_unit_ids)` - Whether the signed-in user sees every unit or
+      one of the given units
+    - `record_audit_activity()` and `record_transaction_activity()` now record the event's units
+    - `record_transaction_activity()` runs when the posting commits rather than when the entry is
+      inserted, once the entry's lines are there to tell its units
+
+  3. Security
+    - A restrictive policy limits the events staff see, in the dashboard feed and through
+      Realtime, to those of their units and those of the whole organisation
+
+  4. Notes
+    - Existing transaction and user events are given the units they belong to now
+*/
+
+ALTER TABLE public.activity_events
+  ADD COLUMN IF NOT EXISTS organisation_unit_ids uuid[];
+
+CREATE OR REPLACE FUNCTION public.can_see_any_organisation_unit(p_unit_ids uuid[])
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(scope IS NULL OR scope && p_unit_ids, false)
+  FROM (SELECT user_unit_scope(auth.uid()) AS scope) caller;
+$$;
+
+-- Units of the members whose accounts or loans the journal entry posts to
+CREATE OR REPLACE FUNCTION public.journal_entry_units(p_entry_id uuid)
+RETURNS uuid[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT ARRAY(
+    SELECT DISTINCT m.organisation_unit_id
+    FROM journal_lines jl
+    LEFT JOIN customer_accounts ca ON ca.id = jl.customer_account_id
+    LEFT JOIN loans l ON l.id = jl.loan_id
+    JOIN members m ON m.id = COALESCE(ca.member_id, l.member_id)
+    WHERE jl.journal_entry_id = p_entry_id
+      AND m.organisation_unit_id IS NOT NULL
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.can_see_any_organisation_unit(uuid[]) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.journal_entry_units(uuid) FROM PUBLIC, anon, authenticated;
+
+-- User, role and account type changes, as recorded in the audit log by the admin edge functions
+CREATE OR REPLACE FUNCTION public.record_audit_activity()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_label text;
+  v_name text;
+  v_permissions text[];
+  v_units uuid[];
+BEGIN
+  IF NEW.entity_type NOT IN ('user', 'role', 'account_type') OR NEW.action NOT IN ('create', 'update', 'delete') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Current name of the record, or its last name from the audit entry once deleted
+  IF NEW.entity_type = 'user' THEN
+    v_label := 'User';
+    v_permissions := ARRAY['users:view', 'users:manage'];
+    SELECT COALESCE(NULLIF(full_name, ''), email) INTO v_name FROM users WHERE id::text = NEW.entity_id;
+    v_name := COALESCE(v_name, NEW.changes->'full_name'->>'before', NEW.changes->'email'->>'before');
+    -- The user's unit, and the one they were moved out of or deleted from
+    v_units := ARRAY(
+      SELECT DISTINCT unit_id
+      FROM (
+        SELECT organisation_unit_id AS unit_id FROM users WHERE id::text = NEW.entity_id
+        UNION
+        SELECT (NEW.changes->'organisation_unit_id'->>'before')::uuid
+      ) units
+      WHERE unit_id IS NOT NULL
+    );
+  ELSIF NEW.entity_type = 'role' THEN
+    v_label := 'Role';
+    v_permissions := ARRAY['roles:read', 'roles:manage'];
+    SELECT name INTO v_name FROM roles WHERE id::text = NEW.entity_id;
+    v_name := COALESCE(v_name, NEW.changes->'name'->>'before');
+  ELSE
+    v_label := 'Account type';
+    v_permissions := ARRAY['account_types:view', 'account_types:manage', 'accounts:view', 'accounts:manage'];
+    SELECT name INTO v_name FROM account_types WHERE id::text = NEW.entity_id;
+    v_name := COALESCE(v_name, NEW.changes->'name'->>'before');
+  END IF;
+
+  INSERT INTO activity_events (entity_type, action, entity_id, description, actor_id, actor_name, required_permissions, organisation_unit_ids, created_at)
+  VALUES (
+    NEW.entity_type,
+    NEW.action || 'd',
+    NEW.entity_id,
+    v_label || ' ' || COALESCE(v_name, NEW.entity_id) || ' ' || NEW.action || 'd',
+    NEW.actor_id,
+    activity_actor_name(NEW.actor_id),
+    v_permissions,
+    v_units,
+    NEW.created_at
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- Every journal entry posted, whichever function posted it
+CREATE OR REPLACE FUNCTION public.record_transaction_activity()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO activity_events (entity_type, action, entity_id, description, actor_id, actor_name, required_permissions, organisation_unit_ids, created_at)
+  VALUES (
+    'transaction',
+    'posted',
+    NEW.id::text,
+    initcap(replace(NEW.entry_type, '_', ' ')) || ' ' || NEW.entry_number || ' of MUR ' || to_char(NEW.amount, 'FM999,999,999,990.00') || ' posted',
+    NEW.posted_by,
+    activity_actor_name(NEW.posted_by),
+    ARRAY['transactions:view', 'transactions:read', 'transactions:create', 'accounts:view'],
+    journal_entry_units(NEW.id),
+    NEW.posted_at
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- The lines are inserted after the entry, so the event is recorded when the posting commits
+DROP TRIGGER IF EXISTS record_transaction_activity ON public.journal_entries;
+CREATE CONSTRAINT TRIGGER record_transaction_activity
+  AFTER INSERT ON public.journal_entries
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION public.record_transaction_activity();
+
+UPDATE public.activity_events
+SET organisation_unit_ids = journal_entry_units(entity_id::uuid)
+WHERE entity_type = 'transaction' AND organisation_unit_ids IS NULL;
+
+UPDATE public.activity_events e
+SET organisation_unit_ids = ARRAY(
+  SELECT organisation_unit_id FROM public.users u
+  WHERE u.id::text = e.entity_id AND u.organisation_unit_id IS NOT NULL
+)
+WHERE e.entity_type = 'user' AND e.organisation_unit_ids IS NULL;
+
+DROP POLICY IF EXISTS "Staff only see activity of their units" ON public.activity_events;
+CREATE POLICY "Staff only see activity of their units"
+  ON public.activity_events
+  AS RESTRICTIVE
+  FOR SELECT
+  TO authenticated
+  USING (organisation_unit_ids IS NULL OR can_see_any_organisation_unit(organisation_unit_ids));
@@ -0,0 +1,76 @@
+/*
+  # Refuse to activate accounts whose required documents are not verified
+
+  1. Functions
+    - `outstanding_account_documents(p_account_id)` - Names of the account type's required document
+      kinds the member has no verified, unexpired document for, member-level or for the account
+    - `check_account_documents()` - Trigger function refusing an account's move to 'active' while
+      any required document is outstanding
+
+  2. Triggers
+    - `check_account_documents` on `customer_accounts`, so no path around the customer-accounts
+      edge function can activate an account, or open one already active, before its document
+      checklist is satisfied
+*/
+
+CREATE OR REPLACE FUNCTION public.outstanding_account_documents(p_account_id uuid)
+RETURNS text[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT ARRAY(
+    SELECT COALESCE(dk.name, required.code)
+    FROM customer_accounts ca
+    JOIN account_types at ON at.id = ca.account_type_id
+    CROSS JOIN LATERAL jsonb_array_elements_text(COALESCE(at.documents_required, '[]'::jsonb)) AS required(code)
+    LEFT JOIN document_kinds dk ON dk.code = required.code
+    WHERE ca.id = p_account_id
+      AND NOT EXISTS (
+        SELECT 1
+        FROM member_documents md
+        WHERE md.member_id = ca.member_id
+          AND md.document_kind_id = dk.id
+          AND (md.customer_account_id IS NULL OR md.customer_account_id = ca.id)
+          AND md.status = 'verified'
+          AND (md.expires_on IS NULL OR md.expires_on > current_date)
+      )
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.outstanding_account_documents(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.check_account_documents()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_outstanding text[];
+BEGIN
+  IF NEW.status <> 'active' THEN
+    RETURN NEW;
+  END IF;
+
+  -- The checklist is looked up from the stored row, so an account cannot be opened already active
+  IF TG_OP = 'INSERT' THEN
+    RAISE EXCEPTION 'Accounts are opened pending and activated once their documents are verified';
+  END IF;
+
+  IF OLD.status <> 'active' THEN
+    v_outstanding := outstanding_account_documents(NEW.id);
+    IF cardinality(v_outstanding) > 0 THEN
+      RAISE EXCEPTION 'Cannot activate account until all required documents are verified. Outstanding: %', array_to_string(v_outstanding, ', ');
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_account_documents ON public.customer_accounts;
+CREATE TRIGGER check_account_documents
+  BEFORE INSERT OR UPDATE OF status ON public.customer_accounts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_account_documents();
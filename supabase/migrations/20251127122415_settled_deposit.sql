@@ -0,0 +1,38 @@
+/*
+  # Charge the processing fee in the same transaction as the posting that pays for it
+
+  1. Functions
+    - `post_member_transaction(entry_type, amount, description, reference, posted_by, lines,
+      credited_account_id)` - Posts the journal entry like `post_journal_entry` and, when money is
+      paid into a customer account, charges the processing fee the account still owes. A fee that
+      cannot be charged rolls the posting back, so a deposit or transfer is never recorded with its
+      fee left unsettled.
+*/
+
+CREATE OR REPLACE FUNCTION public.post_member_transaction(
+  p_entry_type text,
+  p_amount numeric,
+  p_description text,
+  p_reference text,
+  p_posted_by uuid,
+  p_lines jsonb,
+  p_credited_account_id uuid
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_entry_id uuid;
+BEGIN
+  v_entry_id := public.post_journal_entry(p_entry_type, p_amount, p_description, p_reference, p_posted_by, p_lines);
+
+  IF p_credited_account_id IS NOT NULL THEN
+    PERFORM public.charge_processing_fee(p_credited_account_id, p_posted_by);
+  END IF;
+
+  RETURN v_entry_id;
+END;
+$$;
+
+-- Only the service role (edge functions) may post to the ledger
+REVOKE EXECUTE ON FUNCTION public.post_member_transaction(text, numeric, text, text, uuid, jsonb, uuid) FROM PUBLIC, anon, authenticated;
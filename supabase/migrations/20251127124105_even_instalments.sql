@@ -0,0 +1,94 @@
+/*
+  # Split loan instalments without a negative final instalment
+
+  1. Functions
+    - `disburse_loan(loan_id, posted_by)` - Splits the principal and profit into whole cents per
+      instalment and gives the cents left over one each to the first instalments. The final
+      instalment used to carry the rounding difference, which went negative for small principals
+      over long terms (e.g. MUR 1.00 over 24 months) and failed the `principal_due >= 0` check.
+*/
+
+-- Book an approved loan, credit the borrower's account and generate equal monthly instalments.
+-- Amounts are split in whole cents, the cents left over going one each to the first instalments.
+CREATE OR REPLACE FUNCTION public.disburse_loan(
+  p_loan_id uuid,
+  p_posted_by uuid
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_loan record;
+  v_entry_id uuid;
+  v_lines jsonb;
+  v_principal_cents numeric;
+  v_profit_cents numeric;
+  v_principal numeric;
+  v_profit numeric;
+  i integer;
+BEGIN
+  SELECT * INTO v_loan
+  FROM public.loans
+  WHERE id = p_loan_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Loan not found';
+  END IF;
+
+  IF v_loan.status <> 'approved' THEN
+    RAISE EXCEPTION 'Only approved loans can be disbursed; loan % is %', v_loan.loan_number, v_loan.status;
+  END IF;
+
+  v_lines := jsonb_build_array(
+    jsonb_build_object('loan_id', v_loan.id, 'debit', v_loan.total_payable, 'credit', 0),
+    jsonb_build_object('customer_account_id', v_loan.customer_account_id, 'debit', 0, 'credit', v_loan.principal)
+  );
+
+  IF v_loan.profit_amount > 0 THEN
+    v_lines := v_lines || jsonb_build_array(jsonb_build_object(
+      'ledger_account_id', (SELECT id FROM public.ledger_accounts WHERE code = 'deferred_murabaha_profit'),
+      'debit', 0,
+      'credit', v_loan.profit_amount
+    ));
+  END IF;
+
+  v_entry_id := public.post_journal_entry(
+    'loan_disbursement',
+    v_loan.principal,
+    'Disbursement of loan ' || v_loan.loan_number,
+    v_loan.loan_number,
+    p_posted_by,
+    v_lines
+  );
+
+  v_principal_cents := v_loan.principal * 100;
+  v_profit_cents := v_loan.profit_amount * 100;
+
+  FOR i IN 1..v_loan.term_months LOOP
+    v_principal := (floor(v_principal_cents / v_loan.term_months)
+      + CASE WHEN i <= mod(v_principal_cents, v_loan.term_months) THEN 1 ELSE 0 END) / 100;
+    v_profit := (floor(v_profit_cents / v_loan.term_months)
+      + CASE WHEN i <= mod(v_profit_cents, v_loan.term_months) THEN 1 ELSE 0 END) / 100;
+
+    INSERT INTO public.loan_instalments (loan_id, instalment_number, due_date, principal_due, profit_due, amount_due)
+    VALUES (
+      v_loan.id,
+      i,
+      (current_date + make_interval(months => i))::date,
+      v_principal,
+      v_profit,
+      v_principal + v_profit
+    );
+  END LOOP;
+
+  UPDATE public.loans
+  SET status = 'active',
+      disbursed_by = p_posted_by,
+      disbursed_at = now(),
+      disbursement_entry_id = v_entry_id
+  WHERE id = v_loan.id;
+
+  RETURN v_entry_id;
+END;
+$$;
@@ -0,0 +1,15 @@
+/*
+  # Keep withdrawn loan applications
+
+  1. Changes
+    - `loans.status` also accepts 'withdrawn', for a pending application its applicant took back;
+      the application used to be deleted
+    - `loans.withdrawn_at` (timestamp, optional) - When the application was withdrawn
+*/
+
+ALTER TABLE public.loans DROP CONSTRAINT IF EXISTS loans_status_check;
+ALTER TABLE public.loans ADD CONSTRAINT loans_status_check
+  CHECK (status IN ('pending', 'approved', 'rejected', 'withdrawn', 'active', 'closed'));
+
+ALTER TABLE public.loans
+  ADD COLUMN IF NOT EXISTS withdrawn_at timestamptz;